@@ -16,6 +16,9 @@ const ENTRYPOINT_PATH = join(
   ROOT_DIR,
   'src/runtime/drawing/standalone-bundle.entry.ts',
 );
+const COLOR_ENTRYPOINT_PATH = join(ROOT_DIR, 'src/runtime/colors.ts');
+const STRING_ENTRYPOINT_PATH = join(ROOT_DIR, 'src/runtime/strings.ts');
+const SECURITY_ENTRYPOINT_PATH = join(ROOT_DIR, 'src/runtime/security.ts');
 const ARTIFACT_PATH = join(
   ROOT_DIR,
   'src/runtime/drawing/standalone-bundle.generated.ts',
@@ -77,32 +80,96 @@ function appendAliasLayer(bundle: string): string {
 var __createDrawingRuntime =
   globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createDrawingRuntime;
 var __createDrawingStubNamespaces =
-  globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createDrawingStubNamespaces;`.trim();
+  globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createDrawingStubNamespaces;
+var __createStrategyRuntime =
+  globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createStrategyRuntime;
+var __createAlertRuntime =
+  globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createAlertRuntime;
+var __createLogRuntime =
+  globalThis.${STANDALONE_DRAWING_BUNDLE_GLOBAL}.createLogRuntime;`.trim();
 }
 
-export function buildStandaloneDrawingBundle(): string {
+function bundleEntry(entryPath: string): string {
   const tempDir = mkdtempSync(join(tmpdir(), 'pine-drawing-bundle-'));
   const outfilePath = join(tempDir, 'standalone-drawing-bundle.js');
 
   try {
-    runBunBuild(ENTRYPOINT_PATH, outfilePath);
-    const rawBundle = readFileSync(outfilePath, 'utf8')
-      .replace(/\r\n/g, '\n')
-      .trim();
-    const bundle = appendAliasLayer(rawBundle);
-    validateStandaloneDrawingBundle(bundle);
-    return bundle;
+    runBunBuild(entryPath, outfilePath);
+    return readFileSync(outfilePath, 'utf8').replace(/\r\n/g, '\n').trim();
   } finally {
     rmSync(tempDir, { recursive: true, force: true });
   }
 }
 
-export function renderStandaloneDrawingBundleModule(bundle: string): string {
+export function buildStandaloneDrawingBundle(): string {
+  const bundle = appendAliasLayer(bundleEntry(ENTRYPOINT_PATH));
+  validateStandaloneDrawingBundle(bundle);
+  return bundle;
+}
+
+/**
+ * A runtime module on its own, for library modules as well as
+ * standalone factories. Its internals stay inside a function scope so
+ * they cannot collide with the declarations of the module it lands in;
+ * each of `names` comes out as `__<name>`.
+ */
+function buildScopedBundle(entryPath: string, names: string[]): string {
+  // Indented so the scoped declarations read as such next to the
+  // drawing bundle's top-level ones; none of these modules holds a
+  // multi-line template literal the indent would change.
+  const body = bundleEntry(entryPath)
+    .replace(/\nexport \{[^}]*\};?$/, '')
+    .replace(/^(?=.)/gm, '  ');
+  const bundle = `var {
+${names.map((name) => `  ${name}: __${name},`).join('\n')}
+} = (() => {
+${body}
+
+return { ${names.join(', ')} };
+})();`;
+  validateStandaloneDrawingBundle(bundle);
+  return bundle;
+}
+
+export function buildStandaloneColorBundle(): string {
+  return buildScopedBundle(COLOR_ENTRYPOINT_PATH, [
+    'createColorNamespace',
+    'normalizeColor',
+    'colorTransparency',
+  ]);
+}
+
+export function buildStandaloneStringBundle(): string {
+  return buildScopedBundle(STRING_ENTRYPOINT_PATH, [
+    'createStrNamespace',
+    'PINE_FORMAT',
+  ]);
+}
+
+export function buildStandaloneSecurityBundle(): string {
+  return buildScopedBundle(SECURITY_ENTRYPOINT_PATH, ['createSecurityRequest']);
+}
+
+export function renderStandaloneDrawingBundleModule(
+  bundle: string,
+  colorBundle: string,
+  stringBundle: string,
+  securityBundle: string,
+): string {
   return [
     '// Generated by `bun scripts/build-drawing-bundle.ts`. Do not edit by hand.',
     '// biome-ignore format: generated bundle literal',
     '// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal',
     `export const STANDALONE_DRAWING_BUNDLE = ${JSON.stringify(bundle)};`,
+    '// biome-ignore format: generated bundle literal',
+    '// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal',
+    `export const STANDALONE_COLOR_BUNDLE = ${JSON.stringify(colorBundle)};`,
+    '// biome-ignore format: generated bundle literal',
+    '// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal',
+    `export const STANDALONE_STRING_BUNDLE = ${JSON.stringify(stringBundle)};`,
+    '// biome-ignore format: generated bundle literal',
+    '// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal',
+    `export const STANDALONE_SECURITY_BUNDLE = ${JSON.stringify(securityBundle)};`,
     '',
   ].join('\n');
 }
@@ -113,7 +180,12 @@ export function writeStandaloneDrawingBundleArtifact(): {
   bundleBytes: number;
 } {
   const bundle = buildStandaloneDrawingBundle();
-  const moduleSource = renderStandaloneDrawingBundleModule(bundle);
+  const moduleSource = renderStandaloneDrawingBundleModule(
+    bundle,
+    buildStandaloneColorBundle(),
+    buildStandaloneStringBundle(),
+    buildStandaloneSecurityBundle(),
+  );
 
   mkdirSync(dirname(ARTIFACT_PATH), { recursive: true });
   writeFileSync(ARTIFACT_PATH, moduleSource, 'utf8');
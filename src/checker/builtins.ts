@@ -0,0 +1,766 @@
+/**
+ * Built-in Signatures
+ *
+ * Parameter and result types of the built-in variables and functions
+ * the type checker knows about, written the way the Pine reference
+ * spells them (`length: simple int`). Anything missing here is typed
+ * `unknown` and never reported, so entries only need to exist for
+ * calls worth checking.
+ *
+ * Notation:
+ * - `name?` — optional parameter; `name...` — variadic tail
+ * - `number` — `int` when every numeric argument is `int`, else `float`
+ * - `T` — the type of the argument bound to the first `T` parameter
+ * - `any` — accepts anything
+ * - `array<float>` — an array of a primitive type
+ *
+ * A call's qualifier is the weakest of its declared result qualifier
+ * and its arguments' qualifiers, so `math.abs(close)` is `series` while
+ * `math.abs(-1)` stays `const`.
+ */
+
+import {
+  type PineType,
+  type PrimitiveTypeName,
+  primitive,
+  type QualifiedType,
+  type Qualifier,
+  UNKNOWN,
+} from './types';
+
+/** Type slot in a signature: a concrete type or a placeholder. */
+export type SignatureType = PineType | 'number' | 'T' | 'any';
+
+export interface SignatureParam {
+  name: string;
+  qualifier: Qualifier;
+  type: SignatureType;
+  optional: boolean;
+  variadic: boolean;
+}
+
+export interface BuiltinSignature {
+  params: SignatureParam[];
+  returns:
+    | { qualifier: Qualifier; type: SignatureType }
+    | { tuple: QualifiedType[] };
+}
+
+// ============================================================================
+// Variables
+// ============================================================================
+
+const VARIABLE_SPECS: Record<string, string> = {
+  open: 'series float',
+  high: 'series float',
+  low: 'series float',
+  close: 'series float',
+  volume: 'series float',
+  hl2: 'series float',
+  hlc3: 'series float',
+  ohlc4: 'series float',
+  hlcc4: 'series float',
+  time: 'series int',
+  time_close: 'series int',
+  timenow: 'series int',
+  bar_index: 'series int',
+  last_bar_index: 'series int',
+  last_bar_time: 'series int',
+  year: 'series int',
+  month: 'series int',
+  weekofyear: 'series int',
+  dayofmonth: 'series int',
+  dayofweek: 'series int',
+  hour: 'series int',
+  minute: 'series int',
+  second: 'series int',
+  'barstate.isfirst': 'series bool',
+  'barstate.islast': 'series bool',
+  'barstate.ishistory': 'series bool',
+  'barstate.isrealtime': 'series bool',
+  'barstate.isnew': 'series bool',
+  'barstate.isconfirmed': 'series bool',
+  'barstate.islastconfirmedhistory': 'series bool',
+  'syminfo.ticker': 'simple string',
+  'syminfo.tickerid': 'simple string',
+  'syminfo.prefix': 'simple string',
+  'syminfo.root': 'simple string',
+  'syminfo.currency': 'simple string',
+  'syminfo.basecurrency': 'simple string',
+  'syminfo.description': 'simple string',
+  'syminfo.timezone': 'simple string',
+  'syminfo.session': 'simple string',
+  'syminfo.type': 'simple string',
+  'syminfo.mintick': 'simple float',
+  'syminfo.pointvalue': 'simple float',
+  'timeframe.period': 'simple string',
+  'timeframe.multiplier': 'simple int',
+  'timeframe.isintraday': 'simple bool',
+  'timeframe.isdaily': 'simple bool',
+  'timeframe.isweekly': 'simple bool',
+  'timeframe.ismonthly': 'simple bool',
+  'timeframe.isdwm': 'simple bool',
+  'timeframe.isseconds': 'simple bool',
+  'timeframe.isminutes': 'simple bool',
+  'ta.tr': 'series float',
+  'ta.vwap': 'series float',
+  'ta.obv': 'series float',
+  'ta.accdist': 'series float',
+  'math.pi': 'const float',
+  'math.e': 'const float',
+  'math.phi': 'const float',
+  'math.rphi': 'const float',
+  'format.inherit': 'const string',
+  'format.price': 'const string',
+  'format.volume': 'const string',
+  'format.percent': 'const string',
+  'format.mintick': 'const string',
+};
+
+const COLOR_CONSTANTS = [
+  'aqua',
+  'black',
+  'blue',
+  'fuchsia',
+  'gray',
+  'green',
+  'lime',
+  'maroon',
+  'navy',
+  'olive',
+  'orange',
+  'purple',
+  'red',
+  'silver',
+  'teal',
+  'white',
+  'yellow',
+];
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+const MA = ['source: series float', 'length: simple int'];
+const WINDOW = ['source: series float', 'length: series int'];
+const INPUT_TAIL = [
+  'title?: const string',
+  'tooltip?: const string',
+  'inline?: const string',
+  'group?: const string',
+  'confirm?: const bool',
+  'display?: any',
+  'active?: input bool',
+];
+
+const FUNCTION_SPECS: Record<string, [string[], string][]> = {
+  // Moving averages and oscillators
+  'ta.sma': [[MA, 'series float']],
+  'ta.ema': [[MA, 'series float']],
+  'ta.rma': [[MA, 'series float']],
+  'ta.wma': [[MA, 'series float']],
+  'ta.hma': [[MA, 'series float']],
+  'ta.vwma': [[MA, 'series float']],
+  'ta.rsi': [[MA, 'series float']],
+  'ta.rci': [[MA, 'series float']],
+  'ta.cog': [[WINDOW, 'series float']],
+  'ta.alma': [
+    [
+      [
+        ...MA,
+        'offset: simple float',
+        'sigma: simple float',
+        'floor?: simple bool',
+      ],
+      'series float',
+    ],
+  ],
+  'ta.linreg': [[[...MA, 'offset: simple int'], 'series float']],
+  'ta.atr': [[['length: simple int'], 'series float']],
+  'ta.tsi': [
+    [
+      [
+        'source: series float',
+        'short_length: simple int',
+        'long_length: simple int',
+      ],
+      'series float',
+    ],
+  ],
+  'ta.macd': [
+    [
+      [
+        'source: series float',
+        'fastlen: simple int',
+        'slowlen: simple int',
+        'siglen: simple int',
+      ],
+      '[series float, series float, series float]',
+    ],
+  ],
+  'ta.dmi': [
+    [
+      ['diLength: simple int', 'adxSmoothing: simple int'],
+      '[series float, series float, series float]',
+    ],
+  ],
+  'ta.supertrend': [
+    [
+      ['factor: series float', 'atrPeriod: simple int'],
+      '[series float, series float]',
+    ],
+  ],
+  'ta.bb': [
+    [
+      [...WINDOW, 'mult: simple float'],
+      '[series float, series float, series float]',
+    ],
+  ],
+  // Windowed statistics
+  'ta.highest': [
+    [['length: series int'], 'series float'],
+    [WINDOW, 'series float'],
+  ],
+  'ta.lowest': [
+    [['length: series int'], 'series float'],
+    [WINDOW, 'series float'],
+  ],
+  'ta.highestbars': [
+    [['length: series int'], 'series int'],
+    [WINDOW, 'series int'],
+  ],
+  'ta.lowestbars': [
+    [['length: series int'], 'series int'],
+    [WINDOW, 'series int'],
+  ],
+  'ta.range': [[WINDOW, 'series float']],
+  'ta.percentile_linear_interpolation': [
+    [[...WINDOW, 'percentage: simple float'], 'series float'],
+  ],
+  'ta.percentile_nearest_rank': [
+    [[...WINDOW, 'percentage: simple float'], 'series float'],
+  ],
+  'ta.max': [[['source: series float'], 'series float']],
+  'ta.min': [[['source: series float'], 'series float']],
+  'ta.stdev': [[[...WINDOW, 'biased?: series bool'], 'series float']],
+  'ta.variance': [[[...WINDOW, 'biased?: series bool'], 'series float']],
+  'ta.dev': [[WINDOW, 'series float']],
+  'ta.cci': [[WINDOW, 'series float']],
+  'ta.mfi': [[WINDOW, 'series float']],
+  'ta.mom': [[WINDOW, 'series float']],
+  'ta.roc': [[WINDOW, 'series float']],
+  'ta.change': [[['source: series T', 'length?: series int'], 'series T']],
+  'ta.stoch': [
+    [
+      [
+        'source: series float',
+        'high: series float',
+        'low: series float',
+        'length: series int',
+      ],
+      'series float',
+    ],
+  ],
+  'ta.tr': [[['handle_na?: simple bool'], 'series float']],
+  'ta.cum': [[['source: series float'], 'series float']],
+  'ta.crossover': [
+    [['source1: series float', 'source2: series float'], 'series bool'],
+  ],
+  'ta.crossunder': [
+    [['source1: series float', 'source2: series float'], 'series bool'],
+  ],
+  'ta.cross': [
+    [['source1: series float', 'source2: series float'], 'series bool'],
+  ],
+  'ta.rising': [[WINDOW, 'series bool']],
+  'ta.falling': [[WINDOW, 'series bool']],
+  'ta.barssince': [[['condition: series bool'], 'series int']],
+  'ta.valuewhen': [
+    [
+      ['condition: series bool', 'source: series T', 'occurrence: simple int'],
+      'series T',
+    ],
+  ],
+  'ta.pivothigh': [
+    [['leftbars: series int', 'rightbars: series int'], 'series float'],
+    [
+      ['source: series float', 'leftbars: series int', 'rightbars: series int'],
+      'series float',
+    ],
+  ],
+  'ta.pivotlow': [
+    [['leftbars: series int', 'rightbars: series int'], 'series float'],
+    [
+      ['source: series float', 'leftbars: series int', 'rightbars: series int'],
+      'series float',
+    ],
+  ],
+  'ta.pivot_point_levels': [
+    [
+      [
+        'type: series string',
+        'anchor: series bool',
+        'developing?: series bool',
+      ],
+      'series array<float>',
+    ],
+  ],
+
+  // Math
+  'math.abs': [[['number: series float'], 'const number']],
+  'math.sign': [[['number: series float'], 'const float']],
+  'math.max': [[['number...: series float'], 'const number']],
+  'math.min': [[['number...: series float'], 'const number']],
+  'math.avg': [[['number...: series float'], 'const float']],
+  'math.sum': [
+    [['source: series float', 'length: series int'], 'series float'],
+  ],
+  'math.round': [
+    [['number: series float'], 'const int'],
+    [['number: series float', 'precision: series int'], 'const float'],
+  ],
+  'math.ceil': [[['number: series float'], 'const int']],
+  'math.floor': [[['number: series float'], 'const int']],
+  'math.sqrt': [[['number: series float'], 'const float']],
+  'math.log': [[['number: series float'], 'const float']],
+  'math.log10': [[['number: series float'], 'const float']],
+  'math.exp': [[['number: series float'], 'const float']],
+  'math.pow': [
+    [['base: series float', 'exponent: series float'], 'const float'],
+  ],
+  'math.sin': [[['angle: series float'], 'const float']],
+  'math.cos': [[['angle: series float'], 'const float']],
+  'math.tan': [[['angle: series float'], 'const float']],
+  'math.round_to_mintick': [[['number: series float'], 'simple float']],
+
+  // na handling
+  na: [[['x: any'], 'const bool']],
+  nz: [[['source: series T', 'replacement?: series T'], 'const T']],
+  fixnan: [[['source: series T'], 'series T']],
+
+  // Strings
+  'str.tostring': [[['value: any', 'format?: series string'], 'const string']],
+  'str.tonumber': [[['string: series string'], 'const float']],
+  'str.length': [[['string: series string'], 'const int']],
+  'str.contains': [
+    [['source: series string', 'str: series string'], 'const bool'],
+  ],
+  'str.startswith': [
+    [['source: series string', 'str: series string'], 'const bool'],
+  ],
+  'str.endswith': [
+    [['source: series string', 'str: series string'], 'const bool'],
+  ],
+  'str.upper': [[['source: series string'], 'const string']],
+  'str.lower': [[['source: series string'], 'const string']],
+  'str.replace_all': [
+    [
+      [
+        'source: series string',
+        'target: series string',
+        'replacement: series string',
+      ],
+      'const string',
+    ],
+  ],
+  'str.replace': [
+    [
+      [
+        'source: series string',
+        'target: series string',
+        'replacement: series string',
+        'occurrence?: series int',
+      ],
+      'const string',
+    ],
+  ],
+  'str.trim': [[['source: series string'], 'const string']],
+  'str.pos': [[['source: series string', 'str: series string'], 'const int']],
+  'str.substring': [
+    [
+      [
+        'source: series string',
+        'begin_pos: series int',
+        'end_pos?: series int',
+      ],
+      'const string',
+    ],
+  ],
+  'str.split': [
+    [
+      ['string: series string', 'separator: series string'],
+      'series array<string>',
+    ],
+  ],
+  'str.match': [
+    [['source: series string', 'regex: series string'], 'const string'],
+  ],
+  'str.repeat': [
+    [
+      [
+        'source: series string',
+        'repeat: series int',
+        'separator?: series string',
+      ],
+      'const string',
+    ],
+  ],
+  'str.format': [
+    [['formatString: series string', 'arg...: any'], 'const string'],
+  ],
+  'str.format_time': [
+    [
+      [
+        'time: series int',
+        'format?: series string',
+        'timezone?: series string',
+      ],
+      'series string',
+    ],
+  ],
+
+  // Colors
+  'color.new': [
+    [['color: series color', 'transp: series float'], 'const color'],
+  ],
+  'color.rgb': [
+    [
+      [
+        'red: series float',
+        'green: series float',
+        'blue: series float',
+        'transp?: series float',
+      ],
+      'const color',
+    ],
+  ],
+  'color.from_gradient': [
+    [
+      [
+        'value: series float',
+        'bottom_value: series float',
+        'top_value: series float',
+        'bottom_color: series color',
+        'top_color: series color',
+      ],
+      'const color',
+    ],
+  ],
+
+  // Plotting
+  plot: [
+    [
+      [
+        'series: series float',
+        'title?: const string',
+        'color?: series color',
+        'linewidth?: input int',
+        'style?: any',
+        'trackprice?: input bool',
+        'histbase?: input float',
+        'offset?: simple int',
+        'join?: input bool',
+        'editable?: input bool',
+        'show_last?: input int',
+        'display?: any',
+        'format?: input string',
+        'precision?: input int',
+        'force_overlay?: const bool',
+        'linestyle?: any',
+      ],
+      'series plot',
+    ],
+  ],
+
+  // Inputs
+  input: [[['defval: const T', ...INPUT_TAIL], 'input T']],
+  'input.int': [
+    [
+      [
+        'defval: const int',
+        'title?: const string',
+        'minval?: const int',
+        'maxval?: const int',
+        'step?: const int',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input int',
+    ],
+  ],
+  'input.float': [
+    [
+      [
+        'defval: const float',
+        'title?: const string',
+        'minval?: const float',
+        'maxval?: const float',
+        'step?: const float',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input float',
+    ],
+  ],
+  'input.bool': [[['defval: const bool', ...INPUT_TAIL], 'input bool']],
+  'input.string': [
+    [
+      [
+        'defval: const string',
+        'title?: const string',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input string',
+    ],
+  ],
+  'input.enum': [
+    [
+      [
+        'defval: const T',
+        'title?: const string',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input T',
+    ],
+  ],
+  'input.color': [[['defval: const color', ...INPUT_TAIL], 'input color']],
+  'input.source': [[['defval: series float', ...INPUT_TAIL], 'series float']],
+  'input.timeframe': [
+    [
+      [
+        'defval: const string',
+        'title?: const string',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input string',
+    ],
+  ],
+  'input.session': [
+    [
+      [
+        'defval: const string',
+        'title?: const string',
+        'options?: any',
+        ...INPUT_TAIL.slice(1),
+      ],
+      'input string',
+    ],
+  ],
+  'input.symbol': [[['defval: const string', ...INPUT_TAIL], 'input string']],
+  'input.time': [[['defval: const int', ...INPUT_TAIL], 'input int']],
+  'input.price': [[['defval: const float', ...INPUT_TAIL], 'input float']],
+};
+
+// ============================================================================
+// Spec parsing
+// ============================================================================
+
+const PRIMITIVE_NAMES = new Set<string>([
+  'int',
+  'float',
+  'bool',
+  'string',
+  'color',
+]);
+
+function parseSlot(spec: string): {
+  qualifier: Qualifier;
+  type: SignatureType;
+} {
+  const [qualifier, typeName] = spec.split(' ') as [Qualifier, string];
+  if (typeName === 'number' || typeName === 'T') {
+    return { qualifier, type: typeName };
+  }
+  const element = /^array<(\w+)>$/.exec(typeName)?.[1];
+  if (element && PRIMITIVE_NAMES.has(element)) {
+    return {
+      qualifier,
+      type: { kind: 'array', element: primitive(element as PrimitiveTypeName) },
+    };
+  }
+  return {
+    qualifier,
+    type: PRIMITIVE_NAMES.has(typeName)
+      ? primitive(typeName as PrimitiveTypeName)
+      : UNKNOWN,
+  };
+}
+
+function parseParam(spec: string): SignatureParam {
+  const [rawName, typeSpec] = spec.split(': ');
+  const variadic = rawName.endsWith('...');
+  const optional = rawName.endsWith('?');
+  const name = rawName.replace(/(\?|\.\.\.)$/, '');
+  if (typeSpec === 'any') {
+    return { name, qualifier: 'series', type: 'any', optional, variadic };
+  }
+  return { name, ...parseSlot(typeSpec), optional, variadic };
+}
+
+function parseReturns(spec: string): BuiltinSignature['returns'] {
+  if (spec.startsWith('[')) {
+    return {
+      tuple: spec
+        .slice(1, -1)
+        .split(', ')
+        .map((element) => {
+          const slot = parseSlot(element);
+          return {
+            qualifier: slot.qualifier,
+            type: typeof slot.type === 'string' ? UNKNOWN : slot.type,
+          };
+        }),
+    };
+  }
+  return parseSlot(spec);
+}
+
+const FUNCTIONS = new Map<string, BuiltinSignature[]>(
+  Object.entries(FUNCTION_SPECS).map(([name, overloads]) => [
+    name,
+    overloads.map(([params, returns]) => ({
+      params: params.map(parseParam),
+      returns: parseReturns(returns),
+    })),
+  ]),
+);
+
+const VARIABLES = new Map<string, QualifiedType>([
+  ...Object.entries(VARIABLE_SPECS).map(
+    ([name, spec]): [string, QualifiedType] => {
+      const slot = parseSlot(spec);
+      return [
+        name,
+        {
+          qualifier: slot.qualifier,
+          type: typeof slot.type === 'string' ? UNKNOWN : slot.type,
+        },
+      ];
+    },
+  ),
+  ...COLOR_CONSTANTS.map((name): [string, QualifiedType] => [
+    `color.${name}`,
+    { qualifier: 'const', type: primitive('color') },
+  ]),
+]);
+
+/** Overloads of a built-in function, by its dotted Pine name. */
+export function getBuiltinSignatures(
+  name: string,
+): BuiltinSignature[] | undefined {
+  return FUNCTIONS.get(name);
+}
+
+/** Type of a built-in variable such as `close` or `syminfo.mintick`. */
+export function getBuiltinVariable(name: string): QualifiedType | undefined {
+  return VARIABLES.get(name);
+}
+
+// ============================================================================
+// Names
+// ============================================================================
+
+/**
+ * Built-in namespaces: the first segment of every dotted v5/v6 name
+ * (`ta.sma`, `plot.style_line`, `chart.point.new`).
+ */
+const BUILTIN_NAMESPACES = [
+  'adjustment',
+  'alert',
+  'array',
+  'barmerge',
+  'barstate',
+  'box',
+  'chart',
+  'color',
+  'currency',
+  'dayofweek',
+  'display',
+  'dividends',
+  'earnings',
+  'extend',
+  'font',
+  'format',
+  'hline',
+  'input',
+  'label',
+  'line',
+  'linefill',
+  'location',
+  'log',
+  'map',
+  'math',
+  'matrix',
+  'order',
+  'plot',
+  'polyline',
+  'position',
+  'request',
+  'runtime',
+  'scale',
+  'session',
+  'shape',
+  'size',
+  'splits',
+  'str',
+  'strategy',
+  'syminfo',
+  'ta',
+  'table',
+  'text',
+  'ticker',
+  'timeframe',
+  'xloc',
+  'yloc',
+];
+
+/** Undotted built-in functions and variables not covered by the specs above. */
+const BUILTIN_GLOBALS = [
+  'alertcondition',
+  'barcolor',
+  'bgcolor',
+  'bool',
+  'color',
+  'fill',
+  'fixnan',
+  'float',
+  'hline',
+  'indicator',
+  'int',
+  'last_bar_index',
+  'library',
+  'max_bars_back',
+  'na',
+  'nz',
+  'plot',
+  'plotarrow',
+  'plotbar',
+  'plotcandle',
+  'plotchar',
+  'plotshape',
+  'string',
+  'strategy',
+  'study',
+  'time_tradingday',
+  'timestamp',
+];
+
+const BUILTIN_NAMES = new Set<string>([
+  ...BUILTIN_NAMESPACES,
+  ...BUILTIN_GLOBALS,
+  ...[...VARIABLES.keys(), ...FUNCTIONS.keys()].filter(
+    (name) => !name.includes('.'),
+  ),
+]);
+
+/**
+ * True when `name` is a built-in an undotted identifier can refer to:
+ * a variable (`close`), a function (`nz`) or a namespace root (`ta`).
+ * Covers the v5/v6 names; v4's unprefixed functions are not listed.
+ */
+export function isBuiltinName(name: string): boolean {
+  return BUILTIN_NAMES.has(name);
+}
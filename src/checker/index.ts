@@ -0,0 +1,41 @@
+/**
+ * Checker Index
+ *
+ * Re-exports the type checker, the scope resolver and its symbol
+ * table, and the Pine type model
+ */
+
+export {
+  type BuiltinSignature,
+  getBuiltinSignatures,
+  getBuiltinVariable,
+  isBuiltinName,
+  type SignatureParam,
+  type SignatureType,
+} from './builtins';
+export { resolveScopes, type ScopeResolution } from './scope-resolver';
+export {
+  type PineSymbol,
+  type ScopeKind,
+  type SymbolKind,
+  type SymbolReference,
+  type SymbolScope,
+  SymbolTable,
+} from './symbol-table';
+export {
+  checkTypes,
+  type FunctionSignature,
+  type TypeCheckResult,
+  type UdtInfo,
+} from './type-checker';
+export {
+  formatQualifiedType,
+  formatType,
+  isAssignable,
+  joinQualifiers,
+  type PineType,
+  type PrimitiveTypeName,
+  type QualifiedType,
+  type Qualifier,
+  qualifierFits,
+} from './types';
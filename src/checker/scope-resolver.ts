@@ -0,0 +1,736 @@
+/**
+ * Scope Resolver
+ *
+ * Builds the symbol table for a parsed script and reports the naming
+ * mistakes Pine rejects at compile time, which would otherwise only
+ * surface when the factory runs:
+ * - identifiers that are never declared, or used above their declaration
+ * - `x = …` for a name already declared in the same scope, where `:=`
+ *   was meant
+ * - declarations that hide a built-in or a variable of an enclosing scope
+ *   (warnings: Pine accepts these, but they are usually mistakes)
+ *
+ * Pine has no hoisting, so a name is only visible after the statement
+ * that declares it; that holds for functions and types as well as
+ * variables.
+ */
+
+import { importAlias } from '../library/resolver';
+import type {
+  ASTNode,
+  CallExpression,
+  EnumDeclaration,
+  Expression,
+  ForInStatement,
+  ForStatement,
+  FunctionDeclaration,
+  Identifier,
+  MemberExpression,
+  Program,
+  Statement,
+  SwitchExpression,
+  SwitchStatement,
+  TypeAnnotation,
+  TypeDefinition,
+  VariableDeclaration,
+} from '../parser/ast';
+import {
+  type Diagnostic,
+  DiagnosticCode,
+  type DiagnosticCodeValue,
+  type DiagnosticSeverity,
+} from '../parser/diagnostics';
+import { isBuiltinName } from './builtins';
+import {
+  type PineSymbol,
+  type ScopeKind,
+  type SymbolKind,
+  type SymbolScope,
+  SymbolTable,
+} from './symbol-table';
+import type { TypeCheckResult } from './type-checker';
+import { HANDLE_TYPE_NAMES } from './types';
+
+export interface ScopeResolution {
+  /** PINE4xxx diagnostics in source order. */
+  diagnostics: Diagnostic[];
+  table: SymbolTable;
+}
+
+/**
+ * Resolve every name in `program`. Pass the type checker's result to
+ * also resolve UDT fields and methods reached through `obj.name`,
+ * which needs the type of `obj`.
+ */
+export function resolveScopes(
+  program: Program,
+  typeCheck?: TypeCheckResult,
+): ScopeResolution {
+  return new ScopeResolver(program, typeCheck).resolve();
+}
+
+const BUILTIN_TYPE_NAMES = new Set<string>([
+  'int',
+  'float',
+  'bool',
+  'string',
+  'color',
+  'array',
+  'matrix',
+  'map',
+  ...HANDLE_TYPE_NAMES,
+]);
+
+class ScopeResolver {
+  private readonly diagnostics: Diagnostic[] = [];
+  private readonly table: SymbolTable;
+  private scope: SymbolScope;
+  /** Symbols whose declaring statement has been reached. */
+  private readonly declared = new Set<PineSymbol>();
+  /** Scope opened by each function and type declaration. */
+  private readonly scopes = new Map<ASTNode, SymbolScope>();
+  private readonly methods = new Map<string, PineSymbol[]>();
+  /** v4 and older use unprefixed built-ins the name list doesn't cover. */
+  private readonly knowsBuiltins: boolean;
+
+  constructor(
+    private readonly program: Program,
+    private readonly typeCheck?: TypeCheckResult,
+  ) {
+    this.scope = createScope('global', program);
+    this.table = new SymbolTable(this.scope);
+    this.knowsBuiltins = program.version >= 5;
+  }
+
+  resolve(): ScopeResolution {
+    this.resolveBlock(this.program.body);
+    this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { diagnostics: this.diagnostics, table: this.table };
+  }
+
+  // ==========================================================================
+  // Scopes
+  // ==========================================================================
+
+  private enter<T>(kind: ScopeKind, node: ASTNode, body: () => T): T {
+    const outer = this.scope;
+    this.scope = createScope(kind, node, outer);
+    outer.children.push(this.scope);
+    try {
+      return body();
+    } finally {
+      this.scope = outer;
+    }
+  }
+
+  /**
+   * Register the names `statements` declare before walking them, so a
+   * use above its declaration is reported as such rather than as an
+   * undeclared identifier. Only the first declaration of a name in a
+   * scope creates a symbol; a later `x = …` is a redeclaration.
+   */
+  private resolveBlock(statements: Statement[]): void {
+    for (const stmt of statements) this.collect(stmt);
+    for (const stmt of statements) this.resolveStatement(stmt);
+  }
+
+  private collect(stmt: Statement): void {
+    switch (stmt.type) {
+      case 'VariableDeclaration':
+        for (const id of idsOf(stmt.id)) {
+          this.predeclare(id.name, 'variable', stmt, id);
+        }
+        break;
+      case 'FunctionDeclaration': {
+        const symbol = this.predeclare(
+          stmt.id.name,
+          stmt.isMethod ? 'method' : 'function',
+          stmt,
+          stmt.id,
+        );
+        if (stmt.isMethod) {
+          const overloads = this.methods.get(stmt.id.name) ?? [];
+          overloads.push(symbol);
+          this.methods.set(stmt.id.name, overloads);
+        }
+        break;
+      }
+      case 'TypeDefinition':
+        this.predeclare(stmt.name, 'type', stmt);
+        break;
+      case 'EnumDeclaration':
+        this.predeclare(stmt.name, 'enum', stmt);
+        break;
+      case 'ImportStatement':
+        this.predeclare(importAlias(stmt), 'import', stmt);
+        break;
+      case 'BlockStatement':
+        // A bare block is a comma-separated declaration list; its
+        // declarations belong to the enclosing scope.
+        for (const inner of stmt.body) this.collect(inner);
+        break;
+    }
+  }
+
+  /**
+   * Create the symbol for a declaration. A name already taken in this
+   * scope keeps its first symbol, except that functions and methods
+   * may be overloaded.
+   */
+  private predeclare(
+    name: string,
+    kind: SymbolKind,
+    declaration: ASTNode,
+    id?: Identifier,
+  ): PineSymbol {
+    const existing = this.scope.symbols.get(name);
+    const overload =
+      existing &&
+      (kind === 'function' || kind === 'method') &&
+      existing.kind === kind;
+    if (existing && !overload) return existing;
+    const symbol: PineSymbol = {
+      name,
+      kind,
+      declaration,
+      ...(id ? { id } : {}),
+      scope: this.scope,
+      references: [],
+    };
+    if (!existing) this.scope.symbols.set(name, symbol);
+    this.table.add(symbol);
+    return symbol;
+  }
+
+  /** Declare a symbol that is visible from this point on. */
+  private declareNow(
+    name: string,
+    kind: SymbolKind,
+    declaration: ASTNode,
+    id?: Identifier,
+  ): PineSymbol {
+    const symbol = this.predeclare(name, kind, declaration, id);
+    this.declared.add(symbol);
+    return symbol;
+  }
+
+  /**
+   * The symbol `name` refers to at this point: the innermost one whose
+   * declaration has been reached. A declaration further down the same
+   * scope chain is returned as `pending` instead.
+   */
+  private lookup(
+    name: string,
+    from: SymbolScope | undefined = this.scope,
+  ): { symbol?: PineSymbol; pending?: PineSymbol } {
+    let pending: PineSymbol | undefined;
+    for (
+      let scope: SymbolScope | undefined = from;
+      scope;
+      scope = scope.parent
+    ) {
+      const symbol = scope.symbols.get(name);
+      if (!symbol) continue;
+      if (this.declared.has(symbol)) return { symbol };
+      pending ??= symbol;
+    }
+    return { pending };
+  }
+
+  // ==========================================================================
+  // Statements
+  // ==========================================================================
+
+  private resolveStatement(stmt: Statement): void {
+    switch (stmt.type) {
+      case 'VariableDeclaration':
+        this.resolveDeclaration(stmt);
+        break;
+      case 'FunctionDeclaration':
+        this.resolveFunction(stmt);
+        break;
+      case 'ExpressionStatement':
+        this.resolveExpression(stmt.expression);
+        break;
+      case 'BlockStatement':
+        for (const inner of stmt.body) this.resolveStatement(inner);
+        break;
+      case 'IfStatement':
+        this.resolveExpression(stmt.test);
+        this.resolveBody(stmt.consequent);
+        if (stmt.alternate) this.resolveBody(stmt.alternate);
+        break;
+      case 'ForStatement':
+        this.resolveFor(stmt);
+        break;
+      case 'ForInStatement':
+        this.resolveForIn(stmt);
+        break;
+      case 'WhileStatement':
+        this.resolveExpression(stmt.test);
+        this.resolveBody(stmt.body);
+        break;
+      case 'ReturnStatement':
+        if (stmt.argument) this.resolveExpression(stmt.argument);
+        break;
+      case 'SwitchStatement':
+        this.resolveSwitch(stmt);
+        break;
+      case 'TypeDefinition':
+        this.resolveTypeDefinition(stmt);
+        break;
+      case 'EnumDeclaration':
+        this.resolveEnumDeclaration(stmt);
+        break;
+      case 'ImportStatement':
+        this.markDeclared(importAlias(stmt));
+        break;
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        break;
+    }
+  }
+
+  /** Resolve a local block (`if` / loop / `switch` arm) in its own scope. */
+  private resolveBody(body: Statement): void {
+    this.enter('block', body, () => {
+      this.resolveBlock(body.type === 'BlockStatement' ? body.body : [body]);
+    });
+  }
+
+  private resolveDeclaration(decl: VariableDeclaration): void {
+    if (decl.typeAnnotation) this.resolveAnnotation(decl.typeAnnotation);
+    if (decl.init) this.resolveExpression(decl.init);
+
+    for (const id of idsOf(decl.id)) {
+      const symbol = this.scope.symbols.get(id.name);
+      if (symbol && symbol.declaration !== decl) {
+        // `x = …` again in the same scope: Pine wants `:=`.
+        if (symbol.kind === 'variable' && this.declared.has(symbol)) {
+          this.report(
+            id,
+            DiagnosticCode.AlreadyDeclared,
+            `'${id.name}' is already declared${lineOf(symbol)}; use ':=' to reassign it.`,
+          );
+          this.table.reference(id, symbol);
+        }
+        continue;
+      }
+      if (!symbol) continue;
+      this.checkShadowing(id, symbol.kind);
+      this.declared.add(symbol);
+    }
+  }
+
+  private resolveFunction(node: FunctionDeclaration): void {
+    const symbol = this.symbolFor(node);
+    this.checkShadowing(node.id, symbol?.kind ?? 'function');
+    if (symbol) this.declared.add(symbol);
+
+    this.enter('function', node, () => {
+      this.scopes.set(node, this.scope);
+      for (const param of node.params) {
+        if (param.typeAnnotation) this.resolveAnnotation(param.typeAnnotation);
+        this.checkShadowing(param, 'parameter');
+        this.declareNow(param.name, 'parameter', param, param);
+      }
+      if (node.body.type === 'BlockStatement') {
+        this.resolveBlock(node.body.body);
+      } else {
+        this.resolveExpression(node.body);
+      }
+    });
+  }
+
+  /** The symbol a function declaration created (overloads have their own). */
+  private symbolFor(node: FunctionDeclaration): PineSymbol | undefined {
+    return this.table.definitionOf(node.id);
+  }
+
+  private resolveFor(stmt: ForStatement): void {
+    this.enter('block', stmt, () => {
+      let counter: Identifier | undefined;
+      if (stmt.init.type === 'VariableDeclaration') {
+        if (stmt.init.init) this.resolveExpression(stmt.init.init);
+        if (!Array.isArray(stmt.init.id)) counter = stmt.init.id;
+      } else {
+        this.resolveExpression(stmt.init.right);
+        if (
+          !Array.isArray(stmt.init.left) &&
+          stmt.init.left.type === 'Identifier'
+        ) {
+          counter = stmt.init.left;
+        }
+      }
+      if (counter) this.declareNow(counter.name, 'variable', stmt, counter);
+      this.resolveExpression(stmt.test);
+      if (stmt.update) this.resolveExpression(stmt.update);
+      this.resolveBlock(
+        stmt.body.type === 'BlockStatement' ? stmt.body.body : [stmt.body],
+      );
+    });
+  }
+
+  private resolveForIn(stmt: ForInStatement): void {
+    this.resolveExpression(stmt.right);
+    this.enter('block', stmt, () => {
+      for (const id of idsOf(stmt.left)) {
+        this.declareNow(id.name, 'variable', stmt, id);
+      }
+      this.resolveBlock(
+        stmt.body.type === 'BlockStatement' ? stmt.body.body : [stmt.body],
+      );
+    });
+  }
+
+  private resolveSwitch(node: SwitchStatement | SwitchExpression): void {
+    if (node.discriminant) this.resolveExpression(node.discriminant);
+    for (const switchCase of node.cases) {
+      if (switchCase.test) this.resolveExpression(switchCase.test);
+      if (switchCase.consequent.type === 'BlockStatement') {
+        this.resolveBody(switchCase.consequent);
+      } else {
+        this.resolveExpression(switchCase.consequent);
+      }
+    }
+  }
+
+  private resolveTypeDefinition(node: TypeDefinition): void {
+    // Declared before its fields: a UDT may hold fields of its own type.
+    const owner = this.markDeclared(node.name);
+    for (const field of node.fields) {
+      if (field.typeAnnotation) this.resolveAnnotation(field.typeAnnotation);
+      if (field.init) this.resolveExpression(field.init);
+    }
+    this.enter('type', node, () => {
+      this.scopes.set(node, this.scope);
+      for (const field of node.fields) {
+        for (const id of idsOf(field.id)) {
+          const symbol = this.declareNow(id.name, 'field', field, id);
+          if (owner) symbol.owner = owner;
+        }
+      }
+    });
+  }
+
+  private resolveEnumDeclaration(node: EnumDeclaration): void {
+    const owner = this.markDeclared(node.name);
+    this.enter('type', node, () => {
+      this.scopes.set(node, this.scope);
+      for (const member of node.members) {
+        const symbol = this.declareNow(
+          member.id.name,
+          'field',
+          member,
+          member.id,
+        );
+        if (owner) symbol.owner = owner;
+      }
+    });
+  }
+
+  private markDeclared(name: string): PineSymbol | undefined {
+    const symbol = this.scope.symbols.get(name);
+    if (symbol) this.declared.add(symbol);
+    return symbol;
+  }
+
+  /** Resolve the user-defined types a type annotation names. */
+  private resolveAnnotation(annotation: TypeAnnotation): void {
+    for (const arg of annotation.arguments ?? []) this.resolveAnnotation(arg);
+    const { name } = annotation;
+    if (BUILTIN_TYPE_NAMES.has(name)) return;
+    // `chart.point`, `Lib.Pivot`: only the namespace can be resolved.
+    const root = name.split('.')[0];
+    if (root !== name) {
+      const { symbol } = this.lookup(root);
+      if (symbol) this.table.reference(annotation, symbol);
+      return;
+    }
+    const { symbol, pending } = this.lookup(name);
+    if (symbol?.kind === 'type' || symbol?.kind === 'enum') {
+      this.table.reference(annotation, symbol);
+    } else if (pending?.kind === 'type' || pending?.kind === 'enum') {
+      this.reportUsedBeforeDeclaration(annotation, pending);
+    } else if (!symbol && this.knowsBuiltins) {
+      this.report(
+        annotation,
+        DiagnosticCode.UndeclaredIdentifier,
+        `Undeclared type '${name}'.`,
+      );
+    }
+  }
+
+  // ==========================================================================
+  // Expressions
+  // ==========================================================================
+
+  private resolveExpression(expr: Expression): void {
+    switch (expr.type) {
+      case 'Identifier':
+        this.resolveIdentifier(expr);
+        break;
+      case 'Literal':
+        break;
+      case 'BinaryExpression':
+        this.resolveExpression(expr.left);
+        this.resolveExpression(expr.right);
+        break;
+      case 'UnaryExpression':
+        this.resolveExpression(expr.argument);
+        break;
+      case 'ConditionalExpression':
+        this.resolveExpression(expr.test);
+        this.resolveExpression(expr.consequent);
+        this.resolveExpression(expr.alternate);
+        break;
+      case 'ArrayExpression':
+        for (const element of expr.elements) this.resolveExpression(element);
+        break;
+      case 'MemberExpression':
+        this.resolveMember(expr);
+        break;
+      case 'CallExpression':
+        this.resolveCall(expr);
+        break;
+      case 'AssignmentExpression':
+        this.resolveExpression(expr.right);
+        for (const target of Array.isArray(expr.left)
+          ? expr.left
+          : [expr.left]) {
+          this.resolveExpression(target);
+        }
+        break;
+      case 'SwitchExpression':
+        this.resolveSwitch(expr);
+        break;
+    }
+  }
+
+  private resolveIdentifier(id: Identifier): void {
+    const { symbol, pending } = this.lookup(id.name);
+    if (symbol) {
+      this.table.reference(id, symbol);
+    } else if (isBuiltinName(id.name)) {
+      // Until its declaration, a name that shadows a built-in still
+      // means the built-in: `var matrix = matrix.new<float>()`.
+    } else if (pending) {
+      this.reportUsedBeforeDeclaration(id, pending);
+    } else if (this.knowsBuiltins) {
+      this.report(
+        id,
+        DiagnosticCode.UndeclaredIdentifier,
+        `Undeclared identifier '${id.name}'.`,
+      );
+    }
+  }
+
+  private resolveMember(expr: MemberExpression): void {
+    this.resolveExpression(expr.object);
+    if (expr.computed) {
+      this.resolveExpression(expr.property);
+      return;
+    }
+    if (expr.property.type !== 'Identifier') return;
+    const field = this.fieldOf(expr.object, expr.property.name);
+    if (field) this.table.reference(expr.property, field);
+  }
+
+  private resolveCall(call: CallExpression): void {
+    const { callee } = call;
+    this.resolveExpression(callee);
+    if (callee.type === 'MemberExpression' && !callee.computed) {
+      this.resolveMethodCall(callee);
+    }
+    for (const annotation of call.typeArguments ?? []) {
+      this.resolveAnnotation(annotation);
+    }
+
+    const named = this.namedArgumentScope(callee);
+    for (const arg of call.arguments) {
+      if (
+        arg.type === 'AssignmentExpression' &&
+        arg.operator === '=' &&
+        !Array.isArray(arg.left) &&
+        arg.left.type === 'Identifier'
+      ) {
+        const target = named?.symbols.get(arg.left.name);
+        if (target) this.table.reference(arg.left, target);
+        this.resolveExpression(arg.right);
+      } else {
+        this.resolveExpression(arg);
+      }
+    }
+  }
+
+  /** `obj.name(…)` where `name` is a user-declared method. */
+  private resolveMethodCall(callee: MemberExpression): void {
+    if (callee.property.type !== 'Identifier') return;
+    if (this.table.definitionOf(callee.property)) return;
+    const candidates = this.methods
+      .get(callee.property.name)
+      ?.filter((method) => this.declared.has(method));
+    if (!candidates?.length) return;
+    const receiver = this.udtOf(callee.object);
+    const method =
+      candidates.find((candidate) => {
+        const first = (candidate.declaration as FunctionDeclaration).params[0];
+        return receiver && first?.typeAnnotation?.name === receiver;
+      }) ?? candidates[0];
+    this.table.reference(callee.property, method);
+  }
+
+  /**
+   * Where the names of `name = value` arguments live: the parameters
+   * of a user function, or the fields of a UDT for `Type.new(…)`.
+   */
+  private namedArgumentScope(callee: Expression): SymbolScope | undefined {
+    if (callee.type === 'Identifier') {
+      const symbol = this.table.definitionOf(callee);
+      return symbol?.kind === 'function'
+        ? this.scopes.get(symbol.declaration)
+        : undefined;
+    }
+    if (
+      callee.type === 'MemberExpression' &&
+      callee.object.type === 'Identifier' &&
+      callee.property.type === 'Identifier' &&
+      callee.property.name === 'new'
+    ) {
+      const symbol = this.table.definitionOf(callee.object);
+      return symbol?.kind === 'type'
+        ? this.scopes.get(symbol.declaration)
+        : undefined;
+    }
+    return undefined;
+  }
+
+  /** A UDT field reached through a value, or an enum member (`Mode.fast`). */
+  private fieldOf(object: Expression, name: string): PineSymbol | undefined {
+    if (object.type === 'Identifier') {
+      const symbol = this.table.definitionOf(object);
+      if (symbol?.kind === 'enum') {
+        return this.scopes.get(symbol.declaration)?.symbols.get(name);
+      }
+    }
+    const udt = this.udtOf(object);
+    const owner = udt ? this.table.global.symbols.get(udt) : undefined;
+    if (owner?.kind !== 'type') return undefined;
+    return this.scopes.get(owner.declaration)?.symbols.get(name);
+  }
+
+  /** The UDT name of `expr`'s type, when the type checker knows it. */
+  private udtOf(expr: Expression): string | undefined {
+    const type = this.typeCheck?.types.get(expr)?.type;
+    return type?.kind === 'udt' ? type.name : undefined;
+  }
+
+  // ==========================================================================
+  // Reporting
+  // ==========================================================================
+
+  /**
+   * Warn when a declaration hides a built-in, or when a local block
+   * declares a variable its enclosing function (or the global scope)
+   * already has. Function locals hiding globals are not reported:
+   * there `:=` would not be an alternative.
+   */
+  private checkShadowing(id: Identifier, kind: SymbolKind): void {
+    if (this.knowsBuiltins && isBuiltinName(id.name)) {
+      this.report(
+        id,
+        DiagnosticCode.ShadowedBuiltin,
+        `'${id.name}' shadows a built-in of the same name.`,
+        'warning',
+      );
+      return;
+    }
+    if (kind !== 'variable' || this.scope.kind !== 'block') return;
+    const symbol = this.enclosingVariable(id.name);
+    if (symbol) {
+      this.report(
+        id,
+        DiagnosticCode.ShadowedVariable,
+        `'${id.name}' shadows a variable declared${lineOf(symbol)}; use ':=' to assign to it instead.`,
+        'warning',
+      );
+    }
+  }
+
+  /** A declared variable or parameter of the blocks up to the function. */
+  private enclosingVariable(name: string): PineSymbol | undefined {
+    for (
+      let scope = this.scope.parent;
+      scope;
+      scope = scope.kind === 'block' ? scope.parent : undefined
+    ) {
+      const symbol = scope.symbols.get(name);
+      if (
+        symbol &&
+        this.declared.has(symbol) &&
+        (symbol.kind === 'variable' || symbol.kind === 'parameter')
+      ) {
+        return symbol;
+      }
+    }
+    return undefined;
+  }
+
+  private reportUsedBeforeDeclaration(
+    node: Identifier | TypeAnnotation,
+    symbol: PineSymbol,
+  ): void {
+    this.report(
+      node,
+      DiagnosticCode.UsedBeforeDeclaration,
+      `'${symbol.name}' is used before its declaration${lineOf(symbol)}.`,
+    );
+    this.table.reference(node, symbol);
+  }
+
+  private report(
+    node: ASTNode,
+    code: DiagnosticCodeValue,
+    message: string,
+    severity: DiagnosticSeverity = 'error',
+  ): void {
+    const loc = node.loc;
+    this.diagnostics.push({
+      code,
+      severity,
+      message,
+      line: loc?.start.line ?? 1,
+      column: loc?.start.column ?? 1,
+      endLine: loc?.end.line ?? loc?.start.line ?? 1,
+      endColumn: loc?.end.column ?? loc?.start.column ?? 1,
+    });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createScope(
+  kind: ScopeKind,
+  node: ASTNode,
+  parent?: SymbolScope,
+): SymbolScope {
+  return {
+    kind,
+    node,
+    ...(parent ? { parent } : {}),
+    children: [],
+    symbols: new Map(),
+  };
+}
+
+function idsOf(id: Identifier | Identifier[]): Identifier[] {
+  return Array.isArray(id) ? id : [id];
+}
+
+/** ` on line N`, or nothing when the declaration has no location. */
+function lineOf(symbol: PineSymbol): string {
+  const line = (symbol.id ?? symbol.declaration).loc?.start.line;
+  return line ? ` on line ${line}` : '';
+}
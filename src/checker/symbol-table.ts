@@ -0,0 +1,105 @@
+/**
+ * Symbol Table
+ *
+ * Every name a script declares — variables, functions, methods,
+ * parameters, loop counters, user-defined types and their fields, enums
+ * and their members, library aliases — together with the scope it lives
+ * in and every place it is referenced. Built by the scope resolver;
+ * editor tooling uses it for go-to-definition and find-references.
+ */
+
+import type { ASTNode, Identifier, TypeAnnotation } from '../parser/ast';
+
+export type SymbolKind =
+  | 'variable'
+  | 'function'
+  | 'method'
+  | 'parameter'
+  | 'type'
+  | 'enum'
+  | 'field'
+  | 'import';
+
+export type ScopeKind = 'global' | 'function' | 'block' | 'type';
+
+/** A node that names a symbol: an identifier, or a UDT in a type annotation. */
+export type SymbolReference = Identifier | TypeAnnotation;
+
+export interface PineSymbol {
+  name: string;
+  kind: SymbolKind;
+  /**
+   * The declaring statement (`VariableDeclaration`, `FunctionDeclaration`,
+   * `TypeDefinition`, `EnumDeclaration`, `ImportStatement`, `ForStatement`,
+   * `ForInStatement`); for parameters and enum members, the node itself.
+   */
+  declaration: ASTNode;
+  /** The declared name. Absent for imports, whose alias has no node. */
+  id?: Identifier;
+  scope: SymbolScope;
+  /** The type or enum a field belongs to. */
+  owner?: PineSymbol;
+  /** Uses of the symbol in source order, excluding its declaration. */
+  references: SymbolReference[];
+}
+
+export interface SymbolScope {
+  kind: ScopeKind;
+  /** The `Program`, function, type, or statement body that opens the scope. */
+  node: ASTNode;
+  parent?: SymbolScope;
+  children: SymbolScope[];
+  /**
+   * Symbols declared directly in this scope, by name. Overloaded
+   * functions and same-named methods keep their first declaration
+   * here; every overload is still listed in `SymbolTable.symbols`.
+   */
+  symbols: Map<string, PineSymbol>;
+}
+
+export class SymbolTable {
+  /** Every declared symbol, scope by scope. */
+  readonly symbols: PineSymbol[] = [];
+  private readonly resolved = new Map<SymbolReference, PineSymbol>();
+
+  constructor(readonly global: SymbolScope) {}
+
+  /** The symbol a reference (or a declared name) resolves to. */
+  definitionOf(node: SymbolReference): PineSymbol | undefined {
+    return this.resolved.get(node);
+  }
+
+  /**
+   * The symbol declared or referenced at a 1-based source position,
+   * e.g. under an editor cursor.
+   */
+  symbolAt(line: number, column: number): PineSymbol | undefined {
+    for (const [node, symbol] of this.resolved) {
+      if (covers(node, line, column)) return symbol;
+    }
+    return undefined;
+  }
+
+  /** @internal Used by the scope resolver. */
+  add(symbol: PineSymbol): void {
+    this.symbols.push(symbol);
+    if (symbol.id) this.resolved.set(symbol.id, symbol);
+  }
+
+  /** @internal Used by the scope resolver. */
+  reference(node: SymbolReference, symbol: PineSymbol): void {
+    symbol.references.push(node);
+    this.resolved.set(node, symbol);
+  }
+}
+
+function covers(node: ASTNode, line: number, column: number): boolean {
+  const loc = node.loc;
+  if (!loc) return false;
+  const afterStart =
+    line > loc.start.line ||
+    (line === loc.start.line && column >= loc.start.column);
+  const beforeEnd =
+    line < loc.end.line || (line === loc.end.line && column < loc.end.column);
+  return afterStart && beforeEnd;
+}
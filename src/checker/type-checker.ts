@@ -0,0 +1,1526 @@
+/**
+ * Type Checker
+ *
+ * Semantic pass between parsing and code generation. Infers a
+ * qualified type for every expression and reports what Pine itself
+ * rejects at compile time:
+ * - values of the wrong type (`float x = "a"`, `ta.sma("a", 14)`)
+ * - values known too late for the parameter (`ta.sma(close, bar_index)`
+ *   passes a `series int` where a `simple int` is required)
+ * - fields a user-defined type does not declare
+ * - constructs the script's `//@version` no longer allows (`na` bools and
+ *   `when =` in v6), with warnings where v5 and v6 behave differently
+ *
+ * Inference is deliberately lenient: anything it cannot model (most
+ * drawing calls, library imports, unannotated function parameters) is
+ * typed `unknown` and never reported, so a clean result means "no
+ * errors found", not "proven correct".
+ */
+
+import type {
+  ASTNode,
+  AssignmentExpression,
+  BinaryExpression,
+  BlockStatement,
+  CallExpression,
+  EnumDeclaration,
+  Expression,
+  ForInStatement,
+  ForStatement,
+  FunctionDeclaration,
+  Identifier,
+  MemberExpression,
+  Program,
+  Statement,
+  SwitchExpression,
+  SwitchStatement,
+  TypeAnnotation,
+  TypeDefinition,
+  VariableDeclaration,
+} from '../parser/ast';
+import {
+  type Diagnostic,
+  DiagnosticCode,
+  type DiagnosticCodeValue,
+  type DiagnosticSeverity,
+} from '../parser/diagnostics';
+import {
+  callsStatefulFunction,
+  DEFAULT_PINE_VERSION,
+  type VersionSemantics,
+  versionSemantics,
+} from '../parser/version';
+import { walk } from '../parser/walker';
+import {
+  type BuiltinSignature,
+  getBuiltinSignatures,
+  getBuiltinVariable,
+  type SignatureParam,
+} from './builtins';
+import {
+  commonType,
+  formatQualifiedType,
+  formatType,
+  HANDLE_TYPE_NAMES,
+  isAssignable,
+  isNumeric,
+  isOpaque,
+  joinQualifiers,
+  type PineType,
+  type PrimitiveTypeName,
+  primitive,
+  type QualifiedType,
+  type Qualifier,
+  qualified,
+  qualifierFits,
+  UNKNOWN,
+} from './types';
+
+/** A declared user-defined type. */
+export interface UdtInfo {
+  name: string;
+  /** Field types in declaration order (the order `.new()` takes them). */
+  fields: Map<string, PineType>;
+  node: TypeDefinition;
+}
+
+/** A user function's declared parameter types and inferred return type. */
+export interface FunctionSignature {
+  params: {
+    name: string;
+    type: PineType;
+    qualifier?: Qualifier;
+    /** Set when the parameter has a default (`len = 14`). */
+    optional?: boolean;
+  }[];
+  returns: QualifiedType;
+}
+
+export interface TypeCheckResult {
+  /** PINE3xxx diagnostics in source order. */
+  diagnostics: Diagnostic[];
+  /** Inferred type of every expression the checker reached. */
+  types: Map<Expression, QualifiedType>;
+  /** User-defined types, by name. */
+  udts: Map<string, UdtInfo>;
+  /** Signature of every top-level function and method. */
+  signatures: Map<FunctionDeclaration, FunctionSignature>;
+}
+
+/** Infer types for `program` and collect type diagnostics. */
+export function checkTypes(program: Program): TypeCheckResult {
+  return new TypeChecker().check(program);
+}
+
+interface UserFunction extends FunctionSignature {
+  node: FunctionDeclaration;
+  /** Filled in once the body has been checked. */
+  returns: QualifiedType;
+}
+
+interface BoundArgument<P> {
+  param: P;
+  value: Expression;
+  type: QualifiedType;
+}
+
+const PRIMITIVE_NAMES = new Set<string>([
+  'int',
+  'float',
+  'bool',
+  'string',
+  'color',
+]);
+const HANDLE_NAMES = new Set<string>(HANDLE_TYPE_NAMES);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/', '%']);
+const COMPARISON_OPERATORS = new Set(['==', '!=', '<', '>', '<=', '>=']);
+const LOGICAL_OPERATORS = new Set(['and', 'or']);
+/** Built-ins that test for or replace `na`. */
+const NA_FUNCTIONS = new Set(['na', 'nz', 'fixnan']);
+/** Statements that open a local block in Pine's qualifier rules. */
+const LOCAL_BLOCK_TYPES = new Set([
+  'IfStatement',
+  'ForStatement',
+  'ForInStatement',
+  'WhileStatement',
+  'SwitchStatement',
+  'SwitchExpression',
+  'FunctionDeclaration',
+]);
+/** Collection helpers that return one element of the collection. */
+const ELEMENT_GETTERS = new Set([
+  'get',
+  'first',
+  'last',
+  'pop',
+  'shift',
+  'remove',
+]);
+
+const CONST_UNKNOWN: QualifiedType = qualified('const', UNKNOWN);
+const VOID: QualifiedType = qualified('const', { kind: 'void' });
+
+class Scope {
+  private readonly variables = new Map<string, QualifiedType>();
+
+  constructor(readonly parent?: Scope) {}
+
+  lookup(name: string): QualifiedType | undefined {
+    return this.variables.get(name) ?? this.parent?.lookup(name);
+  }
+
+  declare(name: string, type: QualifiedType): void {
+    this.variables.set(name, type);
+  }
+
+  /** Replace the type of the nearest declaration of `name`. */
+  update(name: string, type: QualifiedType): void {
+    if (this.variables.has(name)) {
+      this.variables.set(name, type);
+    } else {
+      this.parent?.update(name, type);
+    }
+  }
+}
+
+class TypeChecker {
+  private readonly diagnostics: Diagnostic[] = [];
+  private semantics: VersionSemantics = versionSemantics(DEFAULT_PINE_VERSION);
+  private readonly types = new Map<Expression, QualifiedType>();
+  private readonly udts = new Map<string, UdtInfo>();
+  private readonly enums = new Map<string, EnumDeclaration>();
+  private readonly functions = new Map<string, UserFunction[]>();
+  private readonly declarations = new Map<FunctionDeclaration, UserFunction>();
+  /** Names reassigned inside a local block; Pine makes those `series`. */
+  private readonly locallyReassigned = new Set<string>();
+  private scope = new Scope();
+
+  check(program: Program): TypeCheckResult {
+    this.semantics = versionSemantics(program.version);
+    this.collectDeclarations(program);
+    this.collectLocalReassignments(program);
+    this.checkStatements(program.body);
+    this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    return {
+      diagnostics: this.diagnostics,
+      types: this.types,
+      udts: this.udts,
+      signatures: this.declarations,
+    };
+  }
+
+  // ==========================================================================
+  // Declarations
+  // ==========================================================================
+
+  /**
+   * Register enums, UDTs and function signatures up front, so
+   * annotations can name a type declared further down and calls see
+   * their callee.
+   */
+  private collectDeclarations(program: Program): void {
+    for (const stmt of program.body) {
+      if (stmt.type === 'EnumDeclaration') this.enums.set(stmt.name, stmt);
+    }
+    const typeDefinitions = program.body.filter(
+      (stmt): stmt is TypeDefinition => stmt.type === 'TypeDefinition',
+    );
+    for (const node of typeDefinitions) {
+      this.udts.set(node.name, { name: node.name, fields: new Map(), node });
+    }
+    for (const node of typeDefinitions) {
+      const fields = this.udts.get(node.name)?.fields;
+      for (const field of node.fields) {
+        if (Array.isArray(field.id)) continue;
+        fields?.set(
+          field.id.name,
+          field.typeAnnotation
+            ? this.resolveAnnotation(field.typeAnnotation)
+            : UNKNOWN,
+        );
+      }
+    }
+
+    for (const stmt of program.body) {
+      if (stmt.type !== 'FunctionDeclaration') continue;
+      const fn: UserFunction = {
+        node: stmt,
+        params: stmt.params.map((param, index) => ({
+          name: param.name,
+          type: param.typeAnnotation
+            ? this.resolveAnnotation(param.typeAnnotation)
+            : UNKNOWN,
+          qualifier: param.typeAnnotation?.qualifier,
+          optional: Boolean(stmt.defaults?.[index]),
+        })),
+        returns: CONST_UNKNOWN,
+      };
+      const overloads = this.functions.get(stmt.id.name) ?? [];
+      overloads.push(fn);
+      this.functions.set(stmt.id.name, overloads);
+      this.declarations.set(stmt, fn);
+    }
+  }
+
+  private collectLocalReassignments(program: Program): void {
+    let depth = 0;
+    walk(program, {
+      enter: (node) => {
+        if (LOCAL_BLOCK_TYPES.has(node.type)) depth++;
+        if (
+          depth > 0 &&
+          node.type === 'AssignmentExpression' &&
+          node.operator !== '=' &&
+          !Array.isArray(node.left) &&
+          node.left.type === 'Identifier'
+        ) {
+          this.locallyReassigned.add(node.left.name);
+        }
+        return undefined;
+      },
+      leave: (node) => {
+        if (LOCAL_BLOCK_TYPES.has(node.type)) depth--;
+      },
+    });
+  }
+
+  private resolveAnnotation(annotation: TypeAnnotation): PineType {
+    const args = annotation.arguments ?? [];
+    let type: PineType;
+    if (PRIMITIVE_NAMES.has(annotation.name)) {
+      type = primitive(annotation.name as PrimitiveTypeName);
+    } else if (HANDLE_NAMES.has(annotation.name)) {
+      type = {
+        kind: 'handle',
+        name: annotation.name as (typeof HANDLE_TYPE_NAMES)[number],
+      };
+    } else if (annotation.name === 'array' || annotation.name === 'matrix') {
+      type = {
+        kind: annotation.name,
+        element: args[0] ? this.resolveAnnotation(args[0]) : UNKNOWN,
+      };
+    } else if (annotation.name === 'map') {
+      type = {
+        kind: 'map',
+        key: args[0] ? this.resolveAnnotation(args[0]) : UNKNOWN,
+        value: args[1] ? this.resolveAnnotation(args[1]) : UNKNOWN,
+      };
+    } else if (this.udts.has(annotation.name)) {
+      type = { kind: 'udt', name: annotation.name };
+    } else if (this.enums.has(annotation.name)) {
+      type = { kind: 'enum', name: annotation.name };
+    } else {
+      type = UNKNOWN;
+    }
+    return annotation.isArray ? { kind: 'array', element: type } : type;
+  }
+
+  // ==========================================================================
+  // Statements
+  // ==========================================================================
+
+  private checkStatements(statements: Statement[]): void {
+    for (const stmt of statements) {
+      this.checkStatement(stmt);
+    }
+  }
+
+  private checkStatement(stmt: Statement): void {
+    switch (stmt.type) {
+      case 'VariableDeclaration':
+        this.checkDeclaration(stmt);
+        break;
+      case 'FunctionDeclaration':
+        this.checkFunction(stmt);
+        break;
+      case 'ExpressionStatement':
+        this.infer(stmt.expression);
+        break;
+      case 'BlockStatement':
+        // A bare block is a comma-separated declaration list; its
+        // declarations belong to the enclosing scope.
+        this.checkStatements(stmt.body);
+        break;
+      case 'IfStatement':
+        this.infer(stmt.test);
+        this.checkBody(stmt.consequent);
+        if (stmt.alternate) this.checkBody(stmt.alternate);
+        break;
+      case 'ForStatement':
+        this.checkFor(stmt);
+        break;
+      case 'ForInStatement':
+        this.checkForIn(stmt);
+        break;
+      case 'WhileStatement':
+        this.infer(stmt.test);
+        this.checkBody(stmt.body);
+        break;
+      case 'ReturnStatement':
+        if (stmt.argument) this.infer(stmt.argument);
+        break;
+      case 'SwitchStatement':
+        this.inferSwitch(stmt);
+        break;
+      case 'TypeDefinition':
+        this.checkTypeDefinition(stmt);
+        break;
+      case 'EnumDeclaration':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+      case 'ImportStatement':
+        break;
+    }
+  }
+
+  /**
+   * Check a local block in its own scope and return the type of its
+   * value: its last statement's expression or declared variable.
+   * Blocks ending in a nested `if` / loop are not modelled.
+   */
+  private checkBody(body: BlockStatement | Statement): QualifiedType {
+    const outer = this.scope;
+    this.scope = new Scope(outer);
+    try {
+      const statements = body.type === 'BlockStatement' ? body.body : [body];
+      this.checkStatements(statements);
+      const last = statements[statements.length - 1];
+      if (last?.type === 'ExpressionStatement') {
+        return this.types.get(last.expression) ?? CONST_UNKNOWN;
+      }
+      if (last?.type === 'VariableDeclaration' && !Array.isArray(last.id)) {
+        return this.scope.lookup(last.id.name) ?? CONST_UNKNOWN;
+      }
+      return CONST_UNKNOWN;
+    } finally {
+      this.scope = outer;
+    }
+  }
+
+  private checkDeclaration(decl: VariableDeclaration): void {
+    const init = decl.init ? this.infer(decl.init) : undefined;
+
+    if (Array.isArray(decl.id)) {
+      const elements =
+        init?.type.kind === 'tuple' ? init.type.elements : undefined;
+      decl.id.forEach((id, index) => {
+        this.declareVariable(id, elements?.[index] ?? CONST_UNKNOWN);
+      });
+      return;
+    }
+
+    const name = decl.id.name;
+    const declaredQualifier: Qualifier | undefined =
+      decl.kind === 'const' ? 'const' : decl.typeAnnotation?.qualifier;
+    const annotated = decl.typeAnnotation
+      ? this.resolveAnnotation(decl.typeAnnotation)
+      : undefined;
+
+    if (init && decl.init) {
+      if (annotated) this.checkNaBoolean(decl.init, annotated, init);
+      if (annotated && !isAssignable(annotated, init.type)) {
+        this.report(
+          decl.init,
+          DiagnosticCode.TypeMismatch,
+          `Cannot assign '${formatQualifiedType(init)}' to '${name}' of type '${formatType(annotated)}'.`,
+        );
+      }
+      if (
+        declaredQualifier &&
+        !qualifierFits(init.qualifier, declaredQualifier)
+      ) {
+        this.report(
+          decl.init,
+          DiagnosticCode.QualifierMismatch,
+          `Cannot assign '${formatQualifiedType(init)}' to '${name}' declared '${formatQualifiedType(qualified(declaredQualifier, annotated ?? init.type))}'.`,
+        );
+      }
+    }
+
+    let type = annotated ?? init?.type ?? UNKNOWN;
+    if (type.kind === 'na' || type.kind === 'void') type = UNKNOWN;
+    this.declareVariable(
+      decl.id,
+      qualified(declaredQualifier ?? init?.qualifier ?? 'series', type),
+    );
+  }
+
+  /** Declare a script variable; local reassignment makes it `series`. */
+  private declareVariable(id: Identifier, type: QualifiedType): void {
+    this.bind(
+      id,
+      this.locallyReassigned.has(id.name)
+        ? qualified('series', type.type)
+        : type,
+    );
+  }
+
+  /** Declare `id` in the current scope and record its type. */
+  private bind(id: Identifier, type: QualifiedType): void {
+    this.scope.declare(id.name, type);
+    this.types.set(id, type);
+  }
+
+  private checkFunction(node: FunctionDeclaration): void {
+    const fn = this.declarations.get(node);
+    const outer = this.scope;
+    this.scope = new Scope(outer);
+    try {
+      // Unqualified parameters take their qualifier from each call
+      // site; inside the body they are treated as `simple` so nothing
+      // qualifier-sensitive is reported against them.
+      node.params.forEach((id, index) => {
+        const param = fn?.params[index];
+        this.bind(
+          id,
+          qualified(param?.qualifier ?? 'simple', param?.type ?? UNKNOWN),
+        );
+      });
+      const returns =
+        node.body.type === 'BlockStatement'
+          ? this.checkBody(node.body)
+          : this.infer(node.body);
+      if (fn) fn.returns = returns;
+    } finally {
+      this.scope = outer;
+    }
+  }
+
+  private checkFor(stmt: ForStatement): void {
+    const outer = this.scope;
+    this.scope = new Scope(outer);
+    try {
+      let counter: Identifier | undefined;
+      let start: QualifiedType = CONST_UNKNOWN;
+      if (stmt.init.type === 'VariableDeclaration') {
+        if (!Array.isArray(stmt.init.id)) counter = stmt.init.id;
+        if (stmt.init.init) start = this.infer(stmt.init.init);
+      } else {
+        if (
+          !Array.isArray(stmt.init.left) &&
+          stmt.init.left.type === 'Identifier'
+        ) {
+          counter = stmt.init.left;
+        }
+        start = this.infer(stmt.init.right);
+      }
+      const end =
+        stmt.test.type === 'BinaryExpression'
+          ? this.infer(stmt.test.right)
+          : CONST_UNKNOWN;
+      if (stmt.update) this.infer(stmt.update);
+      if (counter) {
+        this.bind(
+          counter,
+          qualified('series', commonType(start.type, end.type)),
+        );
+      }
+      this.checkBody(stmt.body);
+    } finally {
+      this.scope = outer;
+    }
+  }
+
+  private checkForIn(stmt: ForInStatement): void {
+    const iterable = this.infer(stmt.right);
+    const element =
+      iterable.type.kind === 'array' ? iterable.type.element : UNKNOWN;
+    const outer = this.scope;
+    this.scope = new Scope(outer);
+    try {
+      if (Array.isArray(stmt.left)) {
+        const [index, value] = stmt.left;
+        if (index) this.bind(index, qualified('series', primitive('int')));
+        if (value) this.bind(value, qualified('series', element));
+      } else {
+        this.bind(stmt.left, qualified('series', element));
+      }
+      this.checkBody(stmt.body);
+    } finally {
+      this.scope = outer;
+    }
+  }
+
+  private checkTypeDefinition(node: TypeDefinition): void {
+    const fields = this.udts.get(node.name)?.fields;
+    for (const field of node.fields) {
+      if (!field.init || Array.isArray(field.id)) continue;
+      const value = this.infer(field.init);
+      const expected = fields?.get(field.id.name) ?? UNKNOWN;
+      if (!isAssignable(expected, value.type)) {
+        this.report(
+          field.init,
+          DiagnosticCode.TypeMismatch,
+          `Default of field '${node.name}.${field.id.name}' must be '${formatType(expected)}', got '${formatQualifiedType(value)}'.`,
+        );
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Expressions
+  // ==========================================================================
+
+  private infer(expr: Expression): QualifiedType {
+    const type = this.inferNode(expr);
+    this.types.set(expr, type);
+    return type;
+  }
+
+  private inferNode(expr: Expression): QualifiedType {
+    switch (expr.type) {
+      case 'Literal':
+        switch (expr.kind) {
+          case 'string':
+            return qualified('const', primitive('string'));
+          case 'boolean':
+            return qualified('const', primitive('bool'));
+          case 'color':
+            return qualified('const', primitive('color'));
+          case 'na':
+            return qualified('const', { kind: 'na' });
+          default:
+            return qualified(
+              'const',
+              primitive(/[.eE]/.test(expr.raw) ? 'float' : 'int'),
+            );
+        }
+      case 'Identifier':
+        return (
+          this.scope.lookup(expr.name) ??
+          getBuiltinVariable(expr.name) ??
+          CONST_UNKNOWN
+        );
+      case 'MemberExpression':
+        return this.inferMember(expr);
+      case 'CallExpression':
+        return this.inferCall(expr);
+      case 'BinaryExpression':
+        this.checkEagerOperand(expr);
+        return this.binaryResult(
+          expr,
+          expr.operator,
+          this.infer(expr.left),
+          this.infer(expr.right),
+        );
+      case 'UnaryExpression': {
+        const argument = this.infer(expr.argument);
+        if (expr.operator === 'not') {
+          return qualified(argument.qualifier, primitive('bool'));
+        }
+        if (!isOpaque(argument.type) && !isNumeric(argument.type)) {
+          this.reportOperator(expr, expr.operator, argument);
+          return qualified(argument.qualifier, UNKNOWN);
+        }
+        return argument;
+      }
+      case 'ConditionalExpression': {
+        const test = this.infer(expr.test);
+        const consequent = this.infer(expr.consequent);
+        const alternate = this.infer(expr.alternate);
+        return qualified(
+          joinQualifiers(
+            test.qualifier,
+            joinQualifiers(consequent.qualifier, alternate.qualifier),
+          ),
+          this.branchType(expr, consequent, alternate),
+        );
+      }
+      case 'AssignmentExpression':
+        return this.inferAssignment(expr);
+      case 'ArrayExpression': {
+        const elements = expr.elements.map((element) => this.infer(element));
+        return qualified(
+          elements.reduce<Qualifier>(
+            (acc, element) => joinQualifiers(acc, element.qualifier),
+            'const',
+          ),
+          { kind: 'tuple', elements },
+        );
+      }
+      case 'SwitchExpression':
+        return this.inferSwitch(expr);
+    }
+  }
+
+  /**
+   * `a.b` is, in order: a field of a UDT value, an enum member
+   * (`Mode.fast`), a built-in variable (`syminfo.mintick`), or a
+   * namespace constant the checker does not model (`shape.circle`).
+   * `a[n]` is a history reference.
+   */
+  private inferMember(expr: MemberExpression): QualifiedType {
+    if (expr.computed) {
+      const object = this.infer(expr.object);
+      this.infer(expr.property);
+      return qualified('series', object.type);
+    }
+    const property =
+      expr.property.type === 'Identifier' ? expr.property.name : '';
+    const object = this.valueOf(expr.object);
+    if (object) {
+      if (object.type.kind === 'udt') {
+        return qualified(
+          'series',
+          this.fieldType(expr, object.type.name, property),
+        );
+      }
+      return qualified(object.qualifier, UNKNOWN);
+    }
+    if (expr.object.type === 'Identifier') {
+      const decl = this.enums.get(expr.object.name);
+      if (decl) return this.enumMember(expr, decl, property);
+    }
+    return getBuiltinVariable(dottedName(expr)) ?? CONST_UNKNOWN;
+  }
+
+  /**
+   * The inferred type of `expr` when it denotes a value rather than a
+   * namespace: anything but a bare identifier that is not a variable
+   * in scope.
+   */
+  private valueOf(expr: Expression): QualifiedType | undefined {
+    if (expr.type === 'Identifier' && !this.scope.lookup(expr.name)) {
+      return undefined;
+    }
+    if (expr.type === 'MemberExpression' && !expr.computed) {
+      const root = rootIdentifier(expr);
+      if (root && !this.scope.lookup(root.name)) return undefined;
+    }
+    return this.infer(expr);
+  }
+
+  private enumMember(
+    node: ASTNode,
+    decl: EnumDeclaration,
+    member: string,
+  ): QualifiedType {
+    if (!decl.members.some((m) => m.id.name === member)) {
+      this.report(
+        node,
+        DiagnosticCode.UnknownField,
+        `Enum '${decl.name}' has no field '${member}'.`,
+      );
+    }
+    return qualified('const', { kind: 'enum', name: decl.name });
+  }
+
+  private fieldType(node: ASTNode, udtName: string, field: string): PineType {
+    const fields = this.udts.get(udtName)?.fields;
+    const type = fields?.get(field);
+    if (fields && type === undefined) {
+      this.report(
+        node,
+        DiagnosticCode.UnknownField,
+        `Type '${udtName}' has no field '${field}'.`,
+      );
+    }
+    return type ?? UNKNOWN;
+  }
+
+  /**
+   * Before v6, `and` / `or` evaluate both sides. A stateful call on the
+   * right (`ta.*`, `request.*`, a user function) then updates its
+   * history on bars where v6 would skip it.
+   */
+  private checkEagerOperand(expr: BinaryExpression): void {
+    if (
+      LOGICAL_OPERATORS.has(expr.operator) &&
+      !this.semantics.lazyBooleanOperators &&
+      callsStatefulFunction(expr.right, this.functions)
+    ) {
+      this.report(
+        expr,
+        DiagnosticCode.VersionDependentBehavior,
+        `Pine v5 evaluates the right side of '${expr.operator}' on every bar; from v6 it is skipped once the left side decides the result.`,
+        'warning',
+      );
+    }
+  }
+
+  private binaryResult(
+    node: ASTNode,
+    operator: string,
+    l: QualifiedType,
+    r: QualifiedType,
+  ): QualifiedType {
+    const qualifier = joinQualifiers(l.qualifier, r.qualifier);
+    if (COMPARISON_OPERATORS.has(operator) || LOGICAL_OPERATORS.has(operator)) {
+      return qualified(qualifier, primitive('bool'));
+    }
+    if (!ARITHMETIC_OPERATORS.has(operator)) {
+      return qualified(qualifier, UNKNOWN);
+    }
+    if (operator === '+' && (isString(l.type) || isString(r.type))) {
+      if (
+        (isString(l.type) || isOpaque(l.type)) &&
+        (isString(r.type) || isOpaque(r.type))
+      ) {
+        return qualified(qualifier, primitive('string'));
+      }
+      this.reportOperator(node, operator, l, r);
+      return qualified(qualifier, UNKNOWN);
+    }
+    for (const operand of [l, r]) {
+      if (!isOpaque(operand.type) && !isNumeric(operand.type)) {
+        this.reportOperator(node, operator, l, r);
+        return qualified(qualifier, UNKNOWN);
+      }
+    }
+    if (!isNumeric(l.type) || !isNumeric(r.type)) {
+      return qualified(qualifier, UNKNOWN);
+    }
+    const bothInt = isInt(l.type) && isInt(r.type);
+    // v6 always keeps the fraction. Before v6, `const int` operands
+    // truncate; other qualifiers are left unmodelled rather than guessed.
+    if (bothInt && operator === '/') {
+      if (!this.semantics.constIntDivisionTruncates) {
+        return qualified(qualifier, primitive('float'));
+      }
+      if (qualifier !== 'const') return qualified(qualifier, UNKNOWN);
+      this.report(
+        node,
+        DiagnosticCode.VersionDependentBehavior,
+        "Dividing 'const int' values truncates in Pine v5 but keeps the fraction from v6; use 'int()' or 'math.floor()' to keep truncating.",
+        'warning',
+      );
+      return qualified(qualifier, primitive('int'));
+    }
+    return qualified(qualifier, primitive(bothInt ? 'int' : 'float'));
+  }
+
+  private inferAssignment(expr: AssignmentExpression): QualifiedType {
+    const value = this.infer(expr.right);
+    if (Array.isArray(expr.left)) {
+      const elements =
+        value.type.kind === 'tuple' ? value.type.elements : undefined;
+      expr.left.forEach((id, index) => {
+        this.checkStore(id, id.name, elements?.[index] ?? CONST_UNKNOWN, expr);
+      });
+      return value;
+    }
+
+    let target: QualifiedType;
+    let label: string;
+    if (expr.left.type === 'Identifier') {
+      label = expr.left.name;
+      target = this.scope.lookup(label) ?? CONST_UNKNOWN;
+      this.types.set(expr.left, target);
+    } else {
+      label = dottedName(expr.left);
+      target = this.infer(expr.left);
+    }
+
+    if (expr.operator === ':=' || expr.operator === '=') {
+      this.checkStore(expr.right, label, value, expr);
+    } else {
+      // Compound assignment: `a += b` is `a := a + b`.
+      const result = this.binaryResult(
+        expr,
+        expr.operator.slice(0, -1),
+        target,
+        value,
+      );
+      this.checkStore(expr.right, label, result, expr);
+    }
+    return target;
+  }
+
+  /**
+   * Check storing `value` into the variable or field `label`; a
+   * variable declared without a usable type (`x = na`) adopts it.
+   */
+  private checkStore(
+    node: ASTNode,
+    label: string,
+    value: QualifiedType,
+    assignment: AssignmentExpression,
+  ): void {
+    const left = Array.isArray(assignment.left) ? undefined : assignment.left;
+    const target =
+      left?.type === 'MemberExpression'
+        ? (this.types.get(left) ?? CONST_UNKNOWN)
+        : this.scope.lookup(label);
+    if (!target) return;
+    if (target.type.kind === 'unknown') {
+      if (left?.type !== 'MemberExpression' && !isOpaque(value.type)) {
+        this.scope.update(label, qualified(target.qualifier, value.type));
+      }
+      return;
+    }
+    this.checkNaBoolean(node, target.type, value);
+    if (!isAssignable(target.type, value.type)) {
+      this.report(
+        node,
+        DiagnosticCode.TypeMismatch,
+        `Cannot assign '${formatQualifiedType(value)}' to '${label}' of type '${formatType(target.type)}'.`,
+      );
+    }
+  }
+
+  /** From v6 a `bool` is `true` or `false`, never `na`. */
+  private checkNaBoolean(
+    node: ASTNode,
+    target: PineType,
+    value: QualifiedType,
+  ): void {
+    if (
+      !this.semantics.naBooleans &&
+      value.type.kind === 'na' &&
+      target.kind === 'primitive' &&
+      target.name === 'bool'
+    ) {
+      this.report(
+        node,
+        DiagnosticCode.TypeMismatch,
+        "'bool' values cannot be 'na' in Pine v6; use 'false' instead.",
+      );
+    }
+  }
+
+  private inferSwitch(node: SwitchStatement | SwitchExpression): QualifiedType {
+    let qualifier: Qualifier = node.discriminant
+      ? this.infer(node.discriminant).qualifier
+      : 'const';
+    const values: QualifiedType[] = [];
+    for (const switchCase of node.cases) {
+      if (switchCase.test) {
+        qualifier = joinQualifiers(
+          qualifier,
+          this.infer(switchCase.test).qualifier,
+        );
+      }
+      const value =
+        switchCase.consequent.type === 'BlockStatement'
+          ? this.checkBody(switchCase.consequent)
+          : this.infer(switchCase.consequent);
+      qualifier = joinQualifiers(qualifier, value.qualifier);
+      values.push(value);
+    }
+    if (node.type === 'SwitchStatement') return VOID;
+    const [first, ...others] = values;
+    return qualified(
+      qualifier,
+      first
+        ? others.reduce((acc, value) => commonType(acc, value.type), first.type)
+        : UNKNOWN,
+    );
+  }
+
+  /** Common type of `?:` branches, reporting branches that cannot meet. */
+  private branchType(
+    node: ASTNode,
+    first: QualifiedType,
+    second: QualifiedType,
+  ): PineType {
+    const type = commonType(first.type, second.type);
+    if (
+      type.kind === 'unknown' &&
+      !isOpaque(first.type) &&
+      !isOpaque(second.type)
+    ) {
+      this.report(
+        node,
+        DiagnosticCode.TypeMismatch,
+        `Branches have incompatible types '${formatType(first.type)}' and '${formatType(second.type)}'.`,
+      );
+    }
+    return type;
+  }
+
+  // ==========================================================================
+  // Calls
+  // ==========================================================================
+
+  private inferCall(call: CallExpression): QualifiedType {
+    const { callee } = call;
+
+    if (callee.type === 'MemberExpression' && !callee.computed) {
+      const method =
+        callee.property.type === 'Identifier' ? callee.property.name : '';
+      const receiver = this.valueOf(callee.object);
+      if (receiver) return this.inferMethodCall(call, receiver, method);
+
+      const namespace = dottedName(callee.object);
+      if (this.udts.has(namespace) && method === 'new') {
+        return this.inferConstructor(call, namespace);
+      }
+      if (
+        namespace === 'array' ||
+        namespace === 'map' ||
+        namespace === 'matrix'
+      ) {
+        const [first, ...rest] = call.arguments;
+        return this.inferCollectionCall(
+          call,
+          namespace,
+          method,
+          first ? this.infer(argumentValue(first)) : undefined,
+          rest,
+        );
+      }
+    }
+
+    const name = dottedName(callee);
+    const userFunctions =
+      callee.type === 'Identifier' ? this.functions.get(name) : undefined;
+    if (userFunctions) {
+      return this.inferUserCall(call, name, userFunctions, []);
+    }
+
+    const signatures = getBuiltinSignatures(name);
+    const result = signatures
+      ? this.inferBuiltinCall(call, name, signatures)
+      : this.inferOpaqueCall(call.arguments);
+    this.checkVersionRules(call, name);
+    return result;
+  }
+
+  /**
+   * Built-in calls whose meaning changed in v6: `na()`-family tests on
+   * `bool` values, and the `when` condition of strategy order calls.
+   */
+  private checkVersionRules(call: CallExpression, name: string): void {
+    const [first] = call.arguments;
+    if (
+      !this.semantics.naBooleans &&
+      NA_FUNCTIONS.has(name) &&
+      first &&
+      !isNamedArgument(first)
+    ) {
+      const type = this.types.get(first)?.type;
+      if (type?.kind === 'primitive' && type.name === 'bool') {
+        this.report(
+          first,
+          DiagnosticCode.TypeMismatch,
+          `'${name}()' does not accept 'bool' values in Pine v6, which are never 'na'.`,
+        );
+      }
+    }
+
+    if (!name.startsWith('strategy.')) return;
+    const when = call.arguments.find(
+      (arg) => isNamedArgument(arg) && arg.left.name === 'when',
+    );
+    if (!when) return;
+    if (this.semantics.whenParameter) {
+      this.report(
+        when,
+        DiagnosticCode.VersionDependentBehavior,
+        `'when' is removed in Pine v6; wrap the '${name}' call in an 'if' instead.`,
+        'warning',
+      );
+    } else {
+      this.report(
+        when,
+        DiagnosticCode.UnknownField,
+        `'${name}' has no parameter 'when' in Pine v6; the call still only runs when it holds, but wrap it in an 'if' instead.`,
+      );
+    }
+  }
+
+  /** `value.method(...)`: collection helpers, UDT methods and `copy()`. */
+  private inferMethodCall(
+    call: CallExpression,
+    receiver: QualifiedType,
+    method: string,
+  ): QualifiedType {
+    const { type } = receiver;
+    if (
+      type.kind === 'array' ||
+      type.kind === 'map' ||
+      type.kind === 'matrix'
+    ) {
+      return this.inferCollectionCall(
+        call,
+        type.kind,
+        method,
+        receiver,
+        call.arguments,
+      );
+    }
+
+    const candidates = (this.functions.get(method) ?? []).filter(
+      (fn) => fn.node.isMethod,
+    );
+    if (candidates.length > 0) {
+      return this.inferUserCall(call, method, candidates, [receiver]);
+    }
+    if (type.kind === 'udt') {
+      if (method === 'copy') {
+        this.inferOpaqueCall(call.arguments);
+        return qualified('series', type);
+      }
+      this.report(
+        call.callee,
+        DiagnosticCode.UnknownField,
+        `Type '${type.name}' has no field or method '${method}'.`,
+      );
+    }
+    return this.inferOpaqueCall(call.arguments);
+  }
+
+  /** `Type.new(...)`: arguments bind to fields in declaration order. */
+  private inferConstructor(
+    call: CallExpression,
+    udtName: string,
+  ): QualifiedType {
+    const fields =
+      this.udts.get(udtName)?.fields ?? new Map<string, PineType>();
+    // Fields without an argument default to `na` or their initializer.
+    const params = [...fields].map(([name, type]) => ({
+      name,
+      type,
+      optional: true,
+    }));
+    for (const bound of this.bindArguments(
+      call,
+      `${udtName}.new`,
+      params,
+      (name, arg) => {
+        this.report(
+          arg,
+          DiagnosticCode.UnknownField,
+          `Type '${udtName}' has no field '${name}'.`,
+        );
+      },
+    )) {
+      this.checkArgument(bound, `${udtName}.new`, bound.param.type);
+    }
+    return qualified('series', { kind: 'udt', name: udtName });
+  }
+
+  private inferUserCall(
+    call: CallExpression,
+    name: string,
+    overloads: UserFunction[],
+    receiver: QualifiedType[],
+  ): QualifiedType {
+    const arity = call.arguments.length + receiver.length;
+    const fn =
+      overloads.find(
+        (candidate) =>
+          candidate.params.length >= arity &&
+          candidate.params.filter((p) => !p.optional).length <= arity &&
+          (receiver.length === 0 ||
+            isAssignable(
+              candidate.params[0]?.type ?? UNKNOWN,
+              receiver[0].type,
+            )),
+      ) ?? overloads[0];
+    const params = fn.params.slice(receiver.length);
+    let qualifier = receiver.reduce<Qualifier>(
+      (acc, r) => joinQualifiers(acc, r.qualifier),
+      fn.returns.qualifier,
+    );
+    for (const bound of this.bindArguments(call, name, params)) {
+      qualifier = joinQualifiers(qualifier, bound.type.qualifier);
+      this.checkArgument(bound, name, bound.param.type, bound.param.qualifier);
+    }
+    return qualified(qualifier, fn.returns.type);
+  }
+
+  private inferBuiltinCall(
+    call: CallExpression,
+    name: string,
+    overloads: BuiltinSignature[],
+  ): QualifiedType {
+    const signature = selectOverload(overloads, call.arguments) ?? overloads[0];
+    const bound = this.bindArguments(call, name, signature.params);
+    // `T` is whatever the first `T` argument is; later ones must match it.
+    const genericArgument = bound.find((b) => b.param.type === 'T');
+    const generic = genericArgument?.type.type ?? UNKNOWN;
+
+    let qualifier: Qualifier = 'const';
+    let sawFloat = false;
+    for (const b of bound) {
+      qualifier = joinQualifiers(qualifier, b.type.qualifier);
+      if (isNumeric(b.type.type) && !isInt(b.type.type)) sawFloat = true;
+      const { type } = b.param;
+      if (type === 'any') continue;
+      let expected: PineType;
+      if (type === 'number') expected = primitive('float');
+      else if (type === 'T')
+        expected = b === genericArgument ? UNKNOWN : generic;
+      else expected = type;
+      this.checkArgument(b, name, expected, b.param.qualifier);
+    }
+
+    const { returns } = signature;
+    if ('tuple' in returns) {
+      return qualified('series', { kind: 'tuple', elements: returns.tuple });
+    }
+    const type =
+      returns.type === 'number'
+        ? primitive(sawFloat ? 'float' : 'int')
+        : returns.type === 'T'
+          ? generic.kind === 'na'
+            ? UNKNOWN
+            : generic
+          : returns.type === 'any'
+            ? UNKNOWN
+            : returns.type;
+    return qualified(joinQualifiers(qualifier, returns.qualifier), type);
+  }
+
+  /**
+   * `array.*` / `map.*` / `matrix.*`, called as functions or as
+   * methods on a collection. Element reads take the element type and
+   * writes are checked against it; other helpers are not modelled.
+   */
+  private inferCollectionCall(
+    call: CallExpression,
+    namespace: 'array' | 'map' | 'matrix',
+    method: string,
+    receiver: QualifiedType | undefined,
+    rest: Expression[],
+  ): QualifiedType {
+    const args = rest.map((arg) => this.infer(argumentValue(arg)));
+    const series = (type: PineType) => qualified('series', type);
+
+    if (method.startsWith('new')) {
+      // `array.new_float(size, init)` or `array.new<float>(size, init)`;
+      // a receiver here is just the first argument.
+      const allArgs = receiver ? [receiver, ...args] : args;
+      const typeArguments = (call.typeArguments ?? []).map((a) =>
+        this.resolveAnnotation(a),
+      );
+      const suffix = method.slice('new_'.length);
+      const element =
+        typeArguments[0] ??
+        (PRIMITIVE_NAMES.has(suffix)
+          ? primitive(suffix as PrimitiveTypeName)
+          : HANDLE_NAMES.has(suffix)
+            ? {
+                kind: 'handle',
+                name: suffix as (typeof HANDLE_TYPE_NAMES)[number],
+              }
+            : UNKNOWN);
+      if (namespace === 'map') {
+        return series({
+          kind: 'map',
+          key: typeArguments[0] ?? UNKNOWN,
+          value: typeArguments[1] ?? UNKNOWN,
+        });
+      }
+      const initial = namespace === 'array' ? allArgs[1] : allArgs[2];
+      const initialNode = call.arguments[namespace === 'array' ? 1 : 2];
+      if (initial && initialNode && !isAssignable(element, initial.type)) {
+        this.report(
+          initialNode,
+          DiagnosticCode.TypeMismatch,
+          `Initial value of '${formatType({ kind: namespace, element })}' must be '${formatType(element)}', got '${formatQualifiedType(initial)}'.`,
+        );
+      }
+      return series({ kind: namespace, element });
+    }
+
+    if (namespace === 'array' && method === 'from') {
+      const all = receiver ? [receiver, ...args] : args;
+      const element = all.reduce<PineType>(
+        (acc, arg, i) => (i === 0 ? arg.type : commonType(acc, arg.type)),
+        UNKNOWN,
+      );
+      return series({ kind: 'array', element });
+    }
+
+    const collection = receiver?.type;
+    if (!collection || collection.kind !== namespace) {
+      return series(UNKNOWN);
+    }
+
+    if (collection.kind === 'map') {
+      switch (method) {
+        case 'get':
+        case 'remove':
+          return series(collection.value);
+        case 'put':
+          this.checkElement(
+            call,
+            rest[1],
+            args[1],
+            collection.value,
+            'map.put',
+          );
+          return series(collection.value);
+        case 'contains':
+          return series(primitive('bool'));
+        case 'size':
+          return series(primitive('int'));
+        case 'keys':
+          return series({ kind: 'array', element: collection.key });
+        case 'values':
+          return series({ kind: 'array', element: collection.value });
+        case 'copy':
+          return series(collection);
+      }
+      return series(UNKNOWN);
+    }
+
+    const { element } = collection;
+    if (ELEMENT_GETTERS.has(method)) return series(element);
+    switch (method) {
+      case 'size':
+      case 'rows':
+      case 'columns':
+      case 'indexof':
+      case 'lastindexof':
+      case 'binary_search':
+      case 'binary_search_leftmost':
+      case 'binary_search_rightmost':
+        return series(primitive('int'));
+      case 'includes':
+      case 'every':
+      case 'some':
+        return series(primitive('bool'));
+      case 'copy':
+      case 'slice':
+      case 'abs':
+        return series(collection);
+      case 'sort_indices':
+        return series({ kind: 'array', element: primitive('int') });
+      case 'standardize':
+        return series({ kind: 'array', element: primitive('float') });
+      case 'push':
+      case 'unshift':
+      case 'fill':
+        this.checkElement(
+          call,
+          rest[0],
+          args[0],
+          element,
+          `${namespace}.${method}`,
+        );
+        return VOID;
+      case 'set':
+      case 'insert': {
+        const at = collection.kind === 'matrix' ? 2 : 1;
+        this.checkElement(
+          call,
+          rest[at],
+          args[at],
+          element,
+          `${namespace}.${method}`,
+        );
+        return VOID;
+      }
+    }
+    return series(UNKNOWN);
+  }
+
+  private checkElement(
+    call: CallExpression,
+    node: Expression | undefined,
+    value: QualifiedType | undefined,
+    element: PineType,
+    name: string,
+  ): void {
+    if (!value || isAssignable(element, value.type)) return;
+    this.report(
+      node ?? call,
+      DiagnosticCode.TypeMismatch,
+      `'${name}' expects '${formatType(element)}', got '${formatQualifiedType(value)}'.`,
+    );
+  }
+
+  /** Calls the checker has no signature for: infer the arguments only. */
+  private inferOpaqueCall(args: Expression[]): QualifiedType {
+    const qualifier = args.reduce<Qualifier>(
+      (acc, arg) =>
+        joinQualifiers(acc, this.infer(argumentValue(arg)).qualifier),
+      'const',
+    );
+    return qualified(qualifier, UNKNOWN);
+  }
+
+  /**
+   * Pair each argument with the parameter it binds to: positional
+   * arguments in order (a variadic parameter takes the rest), named
+   * ones by name. Every argument is inferred, bound or not. Positional
+   * arguments past the last parameter, names no parameter has
+   * (`onUnknownName` overrides that report) and required parameters
+   * left unbound are reported against `callee`.
+   */
+  private bindArguments<
+    P extends { name: string; optional?: boolean; variadic?: boolean },
+  >(
+    call: CallExpression,
+    callee: string,
+    params: P[],
+    onUnknownName?: (name: string, arg: Expression) => void,
+  ): BoundArgument<P>[] {
+    const bound: BoundArgument<P>[] = [];
+    let position = 0;
+    let reportedExtra = false;
+    for (const arg of call.arguments) {
+      const value = argumentValue(arg);
+      const type = this.infer(value);
+      let param: P | undefined;
+      if (value !== arg && arg.type === 'AssignmentExpression') {
+        const name = (arg.left as Identifier).name;
+        param = params.find((p) => p.name === name);
+        if (!param && onUnknownName) {
+          onUnknownName(name, arg);
+        } else if (!param) {
+          this.report(
+            arg,
+            DiagnosticCode.UnknownArgument,
+            `'${callee}' has no parameter '${name}'.`,
+          );
+        }
+      } else {
+        param = params[position];
+        if (!param?.variadic) position++;
+        if (!param && !reportedExtra) {
+          reportedExtra = true;
+          this.report(
+            arg,
+            DiagnosticCode.TooManyArguments,
+            `'${callee}' takes at most ${params.length} argument${params.length === 1 ? '' : 's'}.`,
+          );
+        }
+      }
+      if (param) bound.push({ param, value, type });
+    }
+
+    const missing = params.filter(
+      (param) =>
+        !param.optional &&
+        !param.variadic &&
+        !bound.some((b) => b.param === param),
+    );
+    if (missing.length > 0) {
+      const names = missing.map((param) => `'${param.name}'`).join(', ');
+      this.report(
+        call,
+        DiagnosticCode.MissingArgument,
+        `'${callee}' is missing argument${missing.length === 1 ? '' : 's'} ${names}.`,
+      );
+    }
+    return bound;
+  }
+
+  private checkArgument(
+    bound: BoundArgument<{ name: string }>,
+    callee: string,
+    expected: PineType,
+    qualifier?: Qualifier,
+  ): void {
+    const { value, type } = bound;
+    const wanted = qualifier
+      ? `${qualifier} ${formatType(expected)}`
+      : formatType(expected);
+    const message = `Argument '${bound.param.name}' of '${callee}' expects '${wanted}', got '${formatQualifiedType(type)}'.`;
+    if (!isAssignable(expected, type.type)) {
+      this.report(value, DiagnosticCode.TypeMismatch, message);
+    } else if (qualifier && !qualifierFits(type.qualifier, qualifier)) {
+      this.report(value, DiagnosticCode.QualifierMismatch, message);
+    }
+  }
+
+  // ==========================================================================
+  // Reporting
+  // ==========================================================================
+
+  private reportOperator(
+    node: ASTNode,
+    operator: string,
+    ...operands: QualifiedType[]
+  ): void {
+    this.report(
+      node,
+      DiagnosticCode.TypeMismatch,
+      `Operator '${operator}' cannot be applied to ${operands
+        .map((operand) => `'${formatQualifiedType(operand)}'`)
+        .join(' and ')}.`,
+    );
+  }
+
+  private report(
+    node: ASTNode,
+    code: DiagnosticCodeValue,
+    message: string,
+    severity: DiagnosticSeverity = 'error',
+  ): void {
+    const loc = node.loc;
+    this.diagnostics.push({
+      code,
+      severity,
+      message,
+      line: loc?.start.line ?? 1,
+      column: loc?.start.column ?? 1,
+      endLine: loc?.end.line ?? loc?.start.line ?? 1,
+      endColumn: loc?.end.column ?? loc?.start.column ?? 1,
+    });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isNamedArgument(
+  arg: Expression,
+): arg is AssignmentExpression & { left: Identifier } {
+  return (
+    arg.type === 'AssignmentExpression' &&
+    arg.operator === '=' &&
+    !Array.isArray(arg.left) &&
+    arg.left.type === 'Identifier'
+  );
+}
+
+function isInt(type: PineType): boolean {
+  return type.kind === 'primitive' && type.name === 'int';
+}
+
+function isString(type: PineType): boolean {
+  return type.kind === 'primitive' && type.name === 'string';
+}
+
+/** The value of a call argument, unwrapping `name = value`. */
+function argumentValue(arg: Expression): Expression {
+  return isNamedArgument(arg) ? arg.right : arg;
+}
+
+/** `ta.sma` for the callee `ta.sma`; empty segments for non-names. */
+function dottedName(expr: Expression): string {
+  if (expr.type === 'Identifier') return expr.name;
+  if (expr.type === 'MemberExpression' && !expr.computed) {
+    const property =
+      expr.property.type === 'Identifier' ? expr.property.name : '';
+    return `${dottedName(expr.object)}.${property}`;
+  }
+  return '';
+}
+
+function rootIdentifier(expr: Expression): Identifier | undefined {
+  if (expr.type === 'Identifier') return expr;
+  if (expr.type === 'MemberExpression') return rootIdentifier(expr.object);
+  return undefined;
+}
+
+/** First overload whose parameters can take the call's arguments. */
+function selectOverload(
+  overloads: BuiltinSignature[],
+  args: Expression[],
+): BuiltinSignature | undefined {
+  const positional = args.filter((arg) => argumentValue(arg) === arg).length;
+  const named = new Set(
+    args
+      .filter((arg) => argumentValue(arg) !== arg)
+      .map((arg) => ((arg as AssignmentExpression).left as Identifier).name),
+  );
+  return overloads.find((signature) => {
+    const { params } = signature;
+    const variadic = params.some((p) => p.variadic);
+    if (!variadic && positional > params.length) return false;
+    return params.every(
+      (param: SignatureParam, index) =>
+        param.optional ||
+        param.variadic ||
+        index < positional ||
+        named.has(param.name),
+    );
+  });
+}
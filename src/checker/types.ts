@@ -0,0 +1,181 @@
+/**
+ * Pine Type Model
+ *
+ * The types the checker assigns to expressions. A Pine type is a base
+ * type (`float`, `array<int>`, a UDT, …) paired with a qualifier that
+ * says when its value is known: `const` at compile time, `input` once
+ * inputs are read, `simple` on the first bar, `series` only bar by bar.
+ * Qualifiers are ordered — a parameter that accepts `simple` also
+ * accepts `input` and `const`, but not `series`.
+ */
+
+export type Qualifier = 'const' | 'input' | 'simple' | 'series';
+
+const QUALIFIER_RANK: Record<Qualifier, number> = {
+  const: 0,
+  input: 1,
+  simple: 2,
+  series: 3,
+};
+
+export type PrimitiveTypeName = 'int' | 'float' | 'bool' | 'string' | 'color';
+
+/** Built-in reference types without fields the checker models. */
+export const HANDLE_TYPE_NAMES = [
+  'line',
+  'label',
+  'box',
+  'table',
+  'linefill',
+  'polyline',
+] as const;
+
+export type PineType =
+  | { kind: 'primitive'; name: PrimitiveTypeName }
+  | { kind: 'handle'; name: (typeof HANDLE_TYPE_NAMES)[number] }
+  | { kind: 'udt'; name: string }
+  | { kind: 'enum'; name: string }
+  | { kind: 'array'; element: PineType }
+  | { kind: 'matrix'; element: PineType }
+  | { kind: 'map'; key: PineType; value: PineType }
+  | { kind: 'tuple'; elements: QualifiedType[] }
+  /** A bare `na` literal: fits any type. */
+  | { kind: 'na' }
+  | { kind: 'void' }
+  /** Not modelled (unknown built-ins, polymorphic parameters). Never reported. */
+  | { kind: 'unknown' };
+
+export interface QualifiedType {
+  qualifier: Qualifier;
+  type: PineType;
+}
+
+export const UNKNOWN: PineType = { kind: 'unknown' };
+
+export function primitive(name: PrimitiveTypeName): PineType {
+  return { kind: 'primitive', name };
+}
+
+export function qualified(qualifier: Qualifier, type: PineType): QualifiedType {
+  return { qualifier, type };
+}
+
+/** The weaker (later-known) of two qualifiers. */
+export function joinQualifiers(a: Qualifier, b: Qualifier): Qualifier {
+  return QUALIFIER_RANK[a] >= QUALIFIER_RANK[b] ? a : b;
+}
+
+/** True when a value qualified `actual` may be passed where `expected` is required. */
+export function qualifierFits(actual: Qualifier, expected: Qualifier): boolean {
+  return QUALIFIER_RANK[actual] <= QUALIFIER_RANK[expected];
+}
+
+export function isNumeric(type: PineType): boolean {
+  return (
+    type.kind === 'primitive' && (type.name === 'int' || type.name === 'float')
+  );
+}
+
+/** True for types the checker cannot reason about (`unknown`, `na`). */
+export function isOpaque(type: PineType): boolean {
+  return type.kind === 'unknown' || type.kind === 'na';
+}
+
+/**
+ * Whether a value of type `source` may be stored where `target` is
+ * expected. `int` widens to `float`, and numbers still convert to
+ * `bool` as they did before v6; anything involving an opaque type is
+ * accepted.
+ */
+export function isAssignable(target: PineType, source: PineType): boolean {
+  if (isOpaque(target) || isOpaque(source)) return true;
+  switch (target.kind) {
+    case 'primitive':
+      if (source.kind !== 'primitive') return false;
+      if (source.name === target.name) return true;
+      if (target.name === 'float') return source.name === 'int';
+      if (target.name === 'bool') return isNumeric(source);
+      return false;
+    case 'handle':
+    case 'udt':
+    case 'enum':
+      return source.kind === target.kind && source.name === target.name;
+    case 'array':
+    case 'matrix':
+      return (
+        source.kind === target.kind &&
+        sameElementType(target.element, source.element)
+      );
+    case 'map':
+      return (
+        source.kind === 'map' &&
+        sameElementType(target.key, source.key) &&
+        sameElementType(target.value, source.value)
+      );
+    case 'tuple':
+      return source.kind === 'tuple';
+    case 'void':
+      return source.kind === 'void';
+    case 'na':
+    case 'unknown':
+      return true;
+  }
+}
+
+/** Collection elements don't convert: `array<int>` is not an `array<float>`. */
+function sameElementType(a: PineType, b: PineType): boolean {
+  if (isOpaque(a) || isOpaque(b)) return true;
+  return isAssignable(a, b) && isAssignable(b, a);
+}
+
+/**
+ * The common type of two branches (`cond ? a : b`, `if` / `switch`
+ * arms): `na` defers to the other side and `int` widens to `float`.
+ * `unknown` when the branches disagree.
+ */
+export function commonType(a: PineType, b: PineType): PineType {
+  if (a.kind === 'na') return b;
+  if (b.kind === 'na') return a;
+  if (a.kind === 'unknown' || b.kind === 'unknown') return UNKNOWN;
+  if (isNumeric(a) && isNumeric(b)) {
+    return a.kind === 'primitive' &&
+      b.kind === 'primitive' &&
+      a.name === 'int' &&
+      b.name === 'int'
+      ? a
+      : primitive('float');
+  }
+  return isAssignable(a, b) && isAssignable(b, a) ? a : UNKNOWN;
+}
+
+/** Pine spelling of a type, e.g. `array<float>` or `Pivot`. */
+export function formatType(type: PineType): string {
+  switch (type.kind) {
+    case 'primitive':
+    case 'handle':
+    case 'udt':
+    case 'enum':
+      return type.name;
+    case 'array':
+    case 'matrix':
+      return `${type.kind}<${formatType(type.element)}>`;
+    case 'map':
+      return `map<${formatType(type.key)}, ${formatType(type.value)}>`;
+    case 'tuple':
+      return `[${type.elements.map(formatQualifiedType).join(', ')}]`;
+    case 'na':
+      return 'na';
+    case 'void':
+      return 'void';
+    case 'unknown':
+      return 'unknown';
+  }
+}
+
+/** Pine spelling with the qualifier, e.g. `series float`. */
+export function formatQualifiedType(value: QualifiedType): string {
+  const { type } = value;
+  if (type.kind === 'tuple' || type.kind === 'void' || type.kind === 'unknown')
+    return formatType(type);
+  return `${value.qualifier} ${formatType(type)}`;
+}
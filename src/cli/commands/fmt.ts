@@ -0,0 +1,49 @@
+/**
+ * Fmt Command
+ *
+ * Handles the 'fmt' CLI command for formatting Pine Script source.
+ */
+
+import { formatPineScript } from '../../index.js';
+import type { CLIOptions } from '../types';
+import { readInput, writeOutput } from '../utils';
+
+/**
+ * Execute the fmt command. With `--check`, report whether the file is
+ * already formatted instead of printing it.
+ */
+export function commandFmt(
+  file: string | undefined,
+  options: CLIOptions,
+): void {
+  if (!file) {
+    console.error('Error: No input file specified');
+    console.error('Usage: pine-transpiler fmt <file> [--check]');
+    process.exit(1);
+  }
+
+  const code = readInput(file);
+  let formatted: string;
+  try {
+    formatted = formatPineScript(code);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+
+  if (options.check) {
+    if (formatted === code) {
+      console.log(`✓ ${file} is formatted`);
+      process.exit(0);
+    }
+    console.error(`✗ ${file} is not formatted`);
+    process.exit(1);
+  }
+
+  // console.log adds the final newline itself.
+  writeOutput(
+    options.output ? formatted : formatted.replace(/\n$/, ''),
+    options.output,
+  );
+}
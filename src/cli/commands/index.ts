@@ -4,6 +4,8 @@
  * Re-exports all CLI command handlers.
  */
 
+export { commandFmt } from './fmt';
 export { commandInfo } from './info';
+export { commandRun } from './run';
 export { commandTranspile } from './transpile';
 export { commandValidate } from './validate';
@@ -0,0 +1,77 @@
+/**
+ * Run Command
+ *
+ * Handles the 'run' CLI command for executing a script over OHLCV bars.
+ */
+
+import {
+  formatRunLogs,
+  formatRunOutput,
+  type OhlcvBar,
+  parseOhlcv,
+  RUN_OUTPUT_FORMATS,
+  type RunOutputFormat,
+  runScript,
+} from '../../index.js';
+import type { CLIOptions } from '../types';
+import { deriveIndicatorId, readInput, writeOutput } from '../utils';
+
+/**
+ * Execute the run command: load the bars named by `--data`, run the
+ * script over them and write its plots and visual events. Runtime
+ * errors and the script's logs go to stderr; after a runtime error the
+ * command exits 1 once the output is written.
+ */
+export function commandRun(
+  file: string | undefined,
+  options: CLIOptions,
+): void {
+  if (!file || !options.data) {
+    console.error(
+      `Error: ${file ? 'No OHLCV data file specified' : 'No input file specified'}`,
+    );
+    console.error(
+      'Usage: pine-transpiler run <file> --data <bars.csv|bars.json> [-f csv|json|ndjson]',
+    );
+    process.exit(1);
+  }
+
+  const format = (options.format || 'csv') as RunOutputFormat;
+  if (!RUN_OUTPUT_FORMATS.includes(format)) {
+    console.error(
+      `Error: Unknown format '${format}'. Use 'csv', 'json', or 'ndjson'.`,
+    );
+    process.exit(1);
+  }
+
+  const code = readInput(file);
+  let bars: OhlcvBar[];
+  try {
+    bars = parseOhlcv(readInput(options.data));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+
+  const result = runScript(code, bars, {
+    indicatorId: options.id || deriveIndicatorId(file),
+  });
+  if (result.error !== undefined) {
+    console.error('Transpilation error:', result.error);
+    process.exit(1);
+  }
+  for (const error of result.errors) {
+    console.error(`Runtime error: ${error.message}`);
+  }
+  const logs = formatRunLogs(result);
+  if (logs) console.error(logs.replace(/\n$/, ''));
+
+  // console.log adds the final newline itself.
+  const output = formatRunOutput(result, format);
+  writeOutput(
+    options.output ? output : output.replace(/\n$/, ''),
+    options.output,
+  );
+  if (!result.success) process.exit(1);
+}
@@ -6,6 +6,7 @@
 
 import {
   transpile,
+  transpileToLibraryModule,
   transpileToPineJS,
   transpileToStandaloneFactory,
 } from '../../index.js';
@@ -50,6 +51,14 @@ export default createIndicator;
 `;
 }
 
+/**
+ * `geo.d.ts` for `geo.js`, `geo.d.mts` for `geo.mjs`
+ */
+function typingsPath(modulePath: string): string {
+  if (modulePath.endsWith('.mjs')) return `${modulePath.slice(0, -4)}.d.mts`;
+  return `${modulePath.replace(/\.js$/, '')}.d.ts`;
+}
+
 /**
  * Execute the transpile command
  */
@@ -107,9 +116,20 @@ export function commandTranspile(
       process.exit(1);
     }
     writeOutput(result.factoryCode, options.output);
+  } else if (format === 'library') {
+    const result = transpileToLibraryModule(code);
+    if (!result.success || !result.moduleCode) {
+      console.error('Transpilation error:', result.error ?? 'Unknown error');
+      process.exit(1);
+    }
+    writeOutput(result.moduleCode, options.output);
+    // The typings sit next to the module, where TypeScript looks for them.
+    if (options.output && result.typings) {
+      writeOutput(result.typings, typingsPath(options.output));
+    }
   } else {
     console.error(
-      `Error: Unknown format '${format}'. Use 'js', 'pinejs', or 'factory'.`,
+      `Error: Unknown format '${format}'. Use 'js', 'pinejs', 'factory', or 'library'.`,
     );
     process.exit(1);
   }
@@ -4,7 +4,7 @@
  * Handles the 'validate' CLI command for checking Pine Script syntax.
  */
 
-import { canTranspilePineScript } from '../../index.js';
+import { canTranspilePineScript, formatDiagnostic } from '../../index.js';
 import type { CLIOptions } from '../types';
 import { readInput } from '../utils';
 
@@ -29,7 +29,13 @@ export function commandValidate(
     process.exit(0);
   } else {
     console.error(`✗ ${file} has syntax errors:`);
-    console.error(`  ${result.reason}`);
+    if (result.diagnostics && result.diagnostics.length > 0) {
+      for (const diagnostic of result.diagnostics) {
+        console.error(`  ${file}:${formatDiagnostic(diagnostic)}`);
+      }
+    } else {
+      console.error(`  ${result.reason}`);
+    }
     process.exit(1);
   }
 }
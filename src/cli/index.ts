@@ -5,7 +5,13 @@
  * Command-line interface for transpiling Pine Script to JavaScript/PineJS format.
  */
 
-import { commandInfo, commandTranspile, commandValidate } from './commands';
+import {
+  commandFmt,
+  commandInfo,
+  commandRun,
+  commandTranspile,
+  commandValidate,
+} from './commands';
 import { getHelpText, getVersion, parseArguments } from './utils';
 
 /**
@@ -31,6 +37,12 @@ function main(): void {
     case 'validate':
       commandValidate(file, options);
       break;
+    case 'fmt':
+      commandFmt(file, options);
+      break;
+    case 'run':
+      commandRun(file, options);
+      break;
     case 'info':
       commandInfo();
       break;
@@ -10,12 +10,19 @@
 export interface CLIOptions {
   /** Output file path */
   output?: string;
-  /** Output format: 'js' or 'pinejs' */
+  /**
+   * Output format: 'js', 'pinejs', 'factory' or 'library'; for run,
+   * 'csv', 'json' or 'ndjson'
+   */
   format?: string;
   /** Indicator name (for pinejs format) */
   name?: string;
   /** Indicator ID (for pinejs format) */
   id?: string;
+  /** run: OHLCV bars file (CSV or JSON) */
+  data?: string;
+  /** fmt: check that the file is formatted instead of printing it */
+  check?: boolean;
   /** Show help message */
   help?: boolean;
   /** Show version number */
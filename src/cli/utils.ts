@@ -48,13 +48,19 @@ USAGE:
 COMMANDS:
   transpile <file>   Transpile a Pine Script file to JavaScript
   validate <file>    Validate Pine Script syntax without transpiling
+  fmt <file>         Format a Pine Script file, keeping its comments
+  run <file>         Run a script over OHLCV bars and print its plots
   info               Show supported features and mapping statistics
 
 OPTIONS:
   -o, --output <file>   Output file path (default: stdout)
-  -f, --format <type>   Output format: 'js' or 'pinejs' (default: js)
+  -f, --format <type>   Output format: 'js', 'pinejs', 'factory' or 'library'
+                        (default: js); for run, 'csv', 'json' or 'ndjson'
+                        (default: csv)
   -n, --name <name>     Indicator name (for pinejs format)
   -i, --id <id>         Indicator ID (for pinejs format, default: derived from filename)
+  -d, --data <file>     run: OHLCV bars as CSV or JSON
+  --check               fmt: exit with status 1 if the file is not formatted
   -h, --help            Show this help message
   -v, --version         Show version number
 
@@ -68,9 +74,20 @@ EXAMPLES:
   # Transpile to PineJS factory format
   pine-transpiler transpile script.pine -f pinejs -o indicator.js
 
+  # Compile a library() script to an ES module plus geo.d.ts
+  pine-transpiler transpile geo.pine -f library -o geo.js
+
   # Validate syntax
   pine-transpiler validate script.pine
 
+  # Format in place, or check formatting in CI
+  pine-transpiler fmt script.pine -o script.pine
+  pine-transpiler fmt script.pine --check
+
+  # Print every plot value per bar, or write them as NDJSON
+  pine-transpiler run script.pine --data bars.csv
+  pine-transpiler run script.pine --data bars.json -f ndjson -o out.ndjson
+
   # Show supported features
   pine-transpiler info
 `;
@@ -83,9 +100,11 @@ export function parseArguments(): ParsedArgs {
   const { values, positionals } = parseArgs({
     options: {
       output: { type: 'string', short: 'o' },
-      format: { type: 'string', short: 'f', default: 'js' },
+      format: { type: 'string', short: 'f' },
       name: { type: 'string', short: 'n' },
       id: { type: 'string', short: 'i' },
+      data: { type: 'string', short: 'd' },
+      check: { type: 'boolean', default: false },
       help: { type: 'boolean', short: 'h', default: false },
       version: { type: 'boolean', short: 'v', default: false },
     },
@@ -94,11 +113,13 @@ export function parseArguments(): ParsedArgs {
   });
 
   const [command, file] = positionals;
+  const options = values as CLIOptions;
+  options.format ??= command === 'run' ? 'csv' : 'js';
 
   return {
     command: command || '',
     file,
-    options: values as CLIOptions,
+    options,
   };
 }
 
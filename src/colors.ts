@@ -105,13 +105,22 @@ export function formatRgbaColor(
   return `rgba(${color.red}, ${color.green}, ${color.blue}, ${roundAlpha(alpha)})`;
 }
 
+/**
+ * The normalized form every color leaves the transpiler in: `#RRGGBB`
+ * when opaque, `rgba(r, g, b, a)` otherwise.
+ */
+export function formatColor(
+  color: Pick<ParsedColorChannels, 'red' | 'green' | 'blue'>,
+  alpha: number | null,
+): string {
+  if (alpha === null || roundAlpha(alpha) >= 1) return formatHexColor(color);
+  return formatRgbaColor(color, alpha);
+}
+
 export function toRenderableColor(value: string): string {
   const parsed = parseColorString(value);
   if (!parsed) return value;
-  if (parsed.alpha === null || parsed.alpha >= 1) {
-    return formatHexColor(parsed);
-  }
-  return formatRgbaColor(parsed, parsed.alpha);
+  return formatColor(parsed, parsed.alpha);
 }
 
 export function applyTransparency(
@@ -123,9 +132,5 @@ export function applyTransparency(
   const parsed = parseColorString(color);
   if (!parsed) return color;
 
-  if (transparency <= 0 && parsed.alpha === null) {
-    return formatHexColor(parsed);
-  }
-
-  return formatRgbaColor(parsed, alphaFromTransparency(transparency));
+  return formatColor(parsed, alphaFromTransparency(transparency));
 }
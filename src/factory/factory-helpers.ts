@@ -5,7 +5,12 @@
  * Extracted from indicator-factory.ts for better maintainability.
  */
 
-import type { ParsedInput, ParsedPlot, PlotStyle } from '../types';
+import type {
+  ParsedInput,
+  ParsedPlot,
+  PineSourceMap,
+  PlotStyle,
+} from '../types';
 
 /**
  * Property name of the non-enumerable side-channel that every
@@ -42,6 +47,29 @@ export function attachPineJsBody<F extends (...args: never[]) => unknown>(
   return factory;
 }
 
+/**
+ * Property name of the non-enumerable side-channel carrying the
+ * factory's source map, when one was requested.
+ */
+export const PINE_SOURCE_MAP_PROPERTY = '__pineSourceMap' as const;
+
+/**
+ * Attach a source map to a factory with the same descriptor as
+ * {@link attachPineJsBody}.
+ */
+export function attachPineSourceMap<F extends (...args: never[]) => unknown>(
+  factory: F,
+  sourceMap: PineSourceMap,
+): F {
+  Object.defineProperty(factory, PINE_SOURCE_MAP_PROPERTY, {
+    value: sourceMap,
+    enumerable: false,
+    writable: false,
+    configurable: true,
+  });
+  return factory;
+}
+
 /**
  * Map AST plot types to PineJS Runtime plot type constants.
  *
@@ -6,6 +6,7 @@
 
 export {
   attachPineJsBody,
+  attachPineSourceMap,
   buildDefaultInputs,
   buildDefaultStyles,
   buildInputsMetadata,
@@ -13,12 +14,15 @@ export {
   buildStylesMetadata,
   mapPlotType,
   PINE_JS_BODY_PROPERTY,
+  PINE_SOURCE_MAP_PROPERTY,
   sanitizeIndicatorId,
 } from './factory-helpers';
 
 export {
   buildIndicatorFactory,
+  type FactorySourceMapOptions,
   generatePreamble,
   generateStandaloneFactory,
+  generateStandaloneFactoryWithSourceMap,
   type IndicatorFactoryOptions,
 } from './indicator-factory';
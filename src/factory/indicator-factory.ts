@@ -13,6 +13,13 @@ import type {
   ComputedVariable,
   SessionVariable,
 } from '../generator/metadata-visitor';
+import {
+  createSourceMap,
+  encodeMappings,
+  inlineSourceMapComment,
+  offsetMappings,
+  type SourceMapping,
+} from '../generator/source-map';
 import {
   ARRAY_HELPER_FUNCTIONS,
   COLOR_HELPER_FUNCTIONS,
@@ -26,32 +33,55 @@ import {
 import type { Program, Statement } from '../parser/ast';
 import { getDrawingFn } from '../registry';
 import {
+  collectScriptFunctionNames,
+  colorTransparency,
+  createAlertRuntime,
   createBarstate,
+  createColorNamespace,
   createInputMock,
+  createLogRuntime,
   createMathMock,
   createPlotMock,
   createPriceSources,
+  createSecurityRequest,
+  createStrategyRuntime,
   createStubNamespaces,
   createSyminfoMock,
   createTimeframeMock,
   type InputValue,
+  normalizeColor,
+  PINE_FORMAT,
   type RuntimeContextInternal,
+  raiseScriptRuntimeError,
+  type ScriptLocations,
+  type SecurityEvaluator,
+  type SecurityRequest,
   type StdLibraryInternal,
+  type SyminfoMock,
+  toPineRuntimeError,
 } from '../runtime';
-import { STANDALONE_DRAWING_BUNDLE } from '../runtime/drawing/standalone-bundle.generated';
+import {
+  STANDALONE_COLOR_BUNDLE,
+  STANDALONE_DRAWING_BUNDLE,
+  STANDALONE_SECURITY_BUNDLE,
+  STANDALONE_STRING_BUNDLE,
+} from '../runtime/drawing/standalone-bundle.generated';
 import { STD_PLUS_LIBRARY } from '../stdlib';
 import type {
   IndicatorConstructor,
   IndicatorConstructorFactory,
   IndicatorFactory,
+  ParsedAlertCondition,
   ParsedBgcolor,
   ParsedInput,
   ParsedPlot,
+  PineSourceMap,
   PlotStyle,
+  RuntimeContext,
 } from '../types';
-import { COLOR_MAP } from '../types';
 import {
   attachPineJsBody,
+  attachPineSourceMap,
   buildDefaultInputs,
   buildDefaultStyles,
   buildInputsMetadata,
@@ -72,6 +102,8 @@ export interface IndicatorFactoryOptions {
   plots: ParsedPlot[];
   inputs: ParsedInput[];
   bgcolors: ParsedBgcolor[];
+  /** Exported as `metainfo.alertConditions` when non-empty. */
+  alertConditions?: ParsedAlertCondition[];
   usedSources: Set<string>;
   historicalAccess: Set<string>;
   mainBody: string;
@@ -100,8 +132,55 @@ export interface IndicatorFactoryOptions {
   computedVariables?: Map<string, ComputedVariable>;
   // Pine variable name to input index mapping
   inputVariableMap?: Map<string, number>;
-  // Original parsed AST (used by standalone factory for user declarations)
+  // Original parsed AST (used by standalone factory for user declarations
+  // and by both paths to name user functions in runtime-error stacks)
   programAst?: Program;
+  /**
+   * Mappings for `mainBody`, relative to its first line (see
+   * `ASTGenerator.generateWithMappings`). The builder shifts them past
+   * the preamble and wrapper to locate runtime errors in Pine terms
+   * and, with {@link sourceMap}, to emit the map. Without them
+   * `PineRuntimeError`s carry no Pine position.
+   */
+  mainBodyMappings?: SourceMapping[];
+  /** Emit a source map for the compiled code from `mainBodyMappings`. */
+  sourceMap?: FactorySourceMapOptions;
+}
+
+/**
+ * Source-map settings for {@link buildIndicatorFactory} and
+ * {@link generateStandaloneFactory}.
+ */
+export interface FactorySourceMapOptions {
+  /** Name the Pine source is listed under in the map's `sources`. */
+  sourceFileName: string;
+  /** Pine source text, embedded as `sourcesContent`. */
+  sourceContent?: string;
+  /** Name of the generated file, used as `file` and `sourceURL`. */
+  file?: string;
+  /** Also embed the map in the generated code as a data-URL comment. */
+  inline?: boolean;
+}
+
+/**
+ * `new Function(params, body)` compiles `function anonymous(params\n) {\n`
+ * + body, so the body starts two lines into the script V8 reports
+ * positions against.
+ */
+const FUNCTION_CONSTRUCTOR_HEADER_LINES = 2;
+
+/** Last line of every standalone module. */
+const STANDALONE_EXPORT_LINE = 'export { createIndicator };\n';
+
+/** Stands in for the runtime body while the standalone wrapper is built. */
+const RUNTIME_BODY_PLACEHOLDER = '\u0000PINE_RUNTIME_BODY\u0000';
+
+function countLines(text: string): number {
+  let lines = 0;
+  for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) {
+    lines++;
+  }
+  return lines;
 }
 
 function indentCode(code: string, spaces: number): string {
@@ -139,6 +218,10 @@ const DRAWING_VISUAL_STYLE_PROJECTIONS: Readonly<
   'linefill.new': {
     colors: ['color'],
   },
+  'polyline.new': {
+    colors: ['line_color', 'fill_color'],
+    linewidth: 'line_width',
+  },
   'table.cell': {
     colors: ['text_color', 'bgcolor'],
   },
@@ -216,61 +299,9 @@ function __coerceShapePlotValue(value) {
   return n === 0 ? Number.NaN : n;
 }
 
-function __createStrNamespace() {
-  const c = (v) => (v == null ? '' : String(v));
-  const two = (n) => String(Math.trunc(Number(n))).padStart(2, '0');
-  const formatTime = (timestamp, fmt, timezone) => {
-    const tsNum = Number(timestamp);
-    if (!Number.isFinite(tsNum)) return '';
-    const formatStr = c(fmt) || 'yyyy-MM-dd HH:mm:ss';
-    const clock = __readClockAt(tsNum, timezone);
-    const year = Number(clock.year);
-    const month = Number(clock.month);
-    const day = Number(clock.dayOfMonth);
-    const hour = Number(clock.hour);
-    const minute = Number(clock.minute);
-    const second = Number(clock.second);
-    const twelveHour = ((hour + 11) % 12) + 1;
-    return formatStr
-      .replace(/yyyy/g, String(year))
-      .replace(/yy/g, String(year % 100).padStart(2, '0'))
-      .replace(/MM/g, two(month))
-      .replace(/dd/g, two(day))
-      .replace(/HH/g, two(hour))
-      .replace(/hh/g, two(twelveHour))
-      .replace(/mm/g, two(minute))
-      .replace(/ss/g, two(second));
-  };
-  return {
-    tostring: (v) => c(v),
-    tonumber: (v) => {
-      const n = Number(c(v));
-      return Number.isFinite(n) ? n : Number.NaN;
-    },
-    length: (v) => c(v).length,
-    contains: (s, sub) => c(s).includes(c(sub)),
-    startswith: (s, prefix) => c(s).startsWith(c(prefix)),
-    endswith: (s, suffix) => c(s).endsWith(c(suffix)),
-    upper: (s) => c(s).toUpperCase(),
-    lower: (s) => c(s).toLowerCase(),
-    replace_all: (s, target, replacement) => c(s).split(c(target)).join(c(replacement)),
-    trim: (s) => c(s).trim(),
-    split: (s, sep) => c(s).split(c(sep)),
-    pos: (s, sub) => c(s).indexOf(c(sub)),
-    substring: (s, start, end) => {
-      const str = c(s);
-      const startIdx = typeof start === 'number' ? start : 0;
-      const endIdx = typeof end === 'number' ? end : str.length;
-      return str.substring(startIdx, endIdx);
-    },
-    format: (fmt, ...args) => c(fmt).replace(/{(\\d+)}/g, (m, i) => c(args[Number(i)] ?? m)),
-    format_time: (timestamp, fmt, timezone) => formatTime(timestamp, fmt, timezone),
-  };
-}
-
-function __createStubNamespaces() {
+function __createStubNamespaces(readSymbol) {
   return Object.assign({}, __createDrawingStubNamespaces(), {
-    str: __createStrNamespace(),
+    str: __createStrNamespace(readSymbol),
   });
 }
 
@@ -312,29 +343,7 @@ function __readVisualDisplay(value) {
 }
 
 function __readVisualColor(value) {
-  const raw = __unwrapVisualValue(value);
-  if (typeof raw !== 'string') return null;
-  const token = raw.trim();
-  if (!token) return null;
-  if (/^#[0-9a-fA-F]{3,8}$/.test(token)) return token;
-  if (/^(?:rgb|hsl)a?\\(/i.test(token)) return token.replace(/\\s+/g, ' ');
-  if (/^color[.]/.test(token)) return token;
-  return null;
-}
-
-function __readTranspFromColor(color) {
-  if (!color) return null;
-  const rgba = color.match(/^rgba\\(([^)]+)\\)$/i);
-  if (!rgba) return null;
-  const parts = rgba[1]
-    .split(',')
-    .map((p) => p.trim())
-    .filter((p) => p.length > 0);
-  if (parts.length < 4) return null;
-  const alpha = Number(parts[3]);
-  if (!Number.isFinite(alpha)) return null;
-  const clamped = Math.min(1, Math.max(0, alpha));
-  return Math.round((1 - clamped) * 100);
+  return __normalizeColor(__unwrapVisualValue(value));
 }
 
 const __DRAWING_VISUAL_STYLE_SLOTS = ${DRAWING_VISUAL_STYLE_SLOTS_JSON};
@@ -443,7 +452,7 @@ function __normalizeVisualStyle(call, args) {
 
   if (transp === null) {
     for (const color of normalizedColors) {
-      const derived = __readTranspFromColor(color);
+      const derived = __colorTransparency(color);
       if (derived !== null) {
         transp = derived;
         break;
@@ -524,7 +533,10 @@ function __createVisualNamespaceProxy(namespace, ns, ctx) {
         if ((prop === 'new' && handleId !== undefined) || shouldEmit) {
           ctx.pushEvent({
             call: namespace + '.' + prop,
-            args,
+            args:
+              typeof target.__visualArgs === 'function'
+                ? target.__visualArgs(prop, args, result)
+                : args,
             barIndex: ctx.barIndex,
             pineHandleId: handleId,
           });
@@ -545,6 +557,7 @@ function __createVisualStubs(raw, ctx) {
     linefill: __createVisualNamespaceProxy('linefill', raw.linefill, ctx),
     box: __createVisualNamespaceProxy('box', raw.box, ctx),
     label: __createVisualNamespaceProxy('label', raw.label, ctx),
+    polyline: __createVisualNamespaceProxy('polyline', raw.polyline, ctx),
     table: __createVisualNamespaceProxy('table', raw.table, ctx),
   };
 }
@@ -639,6 +652,11 @@ function __createInput(inputCallback, Std, context) {
     if (val === 'ohlc4') return Std.ohlc4(context);
     return Std.close(context);
   };
+  input.enum = (defval, _title, options) => {
+    const raw = inputCallback(inputIndex++);
+    const members = options || (defval && defval.members) || [];
+    return members.find((m) => m.title === raw || m.name === raw) || defval;
+  };
   return input;
 }
 
@@ -913,10 +931,13 @@ function __createMathNamespace() {
   });
 }
 
-function __callableNamespace(label) {
+function __callableNamespace(label, members) {
   return new Proxy(function passthrough(arg) { return arg; }, {
     get(_target, prop) {
       if (typeof prop !== 'string') return undefined;
+      if (members && Object.prototype.hasOwnProperty.call(members, prop)) {
+        return members[prop];
+      }
       return function passthrough(arg) {
         if (arg !== undefined) return arg;
         return label + '.' + String(prop);
@@ -962,6 +983,143 @@ function __createArrayNamespace() {
     },
   };
 }
+
+// Runtime errors: a port of src/runtime/pine-runtime-error.ts. Keep the
+// message format and frame resolution identical to the live path.
+class PineRuntimeError extends Error {
+  constructor(init) {
+    const pineStack = init.pineStack || [];
+    const top = pineStack[0];
+    const where = top ? 'line ' + top.line + ', bar ' + init.barIndex : 'bar ' + init.barIndex;
+    super(where + ': ' + init.detail);
+    this.name = 'PineRuntimeError';
+    this.code = init.code;
+    this.detail = init.detail;
+    this.barIndex = init.barIndex;
+    this.line = top ? top.line : undefined;
+    this.column = top ? top.column : undefined;
+    this.pineStack = pineStack;
+    this.cause = init.cause;
+  }
+}
+
+function __pineRaiseRuntimeError(message) {
+  const error = new Error(String(message));
+  Object.defineProperty(error, '__pineErrorCode', { value: 'PINE9001', enumerable: false });
+  throw error;
+}
+
+function __pineClassifyError(error) {
+  const message = error instanceof Error ? error.message : String(error);
+  const tagged = typeof error === 'object' && error !== null ? error.__pineErrorCode : undefined;
+  if (typeof tagged === 'string') return { code: tagged, detail: message };
+  if (message.startsWith('Loop limit exceeded')) return { code: 'PINE9003', detail: message };
+  if (error instanceof RangeError && /call stack/i.test(message)) {
+    return { code: 'PINE9004', detail: 'maximum call stack size exceeded' };
+  }
+  return { code: 'PINE9000', detail: error instanceof Error ? error.name + ': ' + message : message };
+}
+
+function __pineParseStackFrames(stack) {
+  const frames = [];
+  for (const text of String(stack || '').split('\\n')) {
+    const match = /^\\s*at (?:(.*?) \\()?(.*):(\\d+):(\\d+)\\)?$/.exec(text) || /^(.*?)@(.*):(\\d+):(\\d+)$/.exec(text);
+    if (!match) continue;
+    frames.push({ name: match[1] || '', file: match[2], line: Number(match[3]), column: Number(match[4]) });
+  }
+  return frames;
+}
+
+function __pineDecodeMappings(encoded) {
+  const digits = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  const mappings = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  encoded.split(';').forEach((lineText, generatedLine) => {
+    let generatedColumn = 0;
+    for (const segment of lineText.split(',')) {
+      if (!segment) continue;
+      const fields = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = digits.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          fields.push(value & 1 ? -(value >>> 1) : value >>> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      generatedColumn += fields[0];
+      if (fields.length < 4) continue;
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      mappings.push([generatedLine, generatedColumn, sourceLine, sourceColumn]);
+    }
+  });
+  return mappings;
+}
+
+// The locations table is the module's last statement, on a line known
+// at generation time; comparing it with the line its own stack frame
+// reports recovers the file name and line shift of however the module
+// was loaded.
+function __pineCreateScriptLocations(probeLine, probeStack, encodedMappings, functions) {
+  const probe = __pineParseStackFrames(probeStack)[0];
+  let mappings = null;
+  return {
+    file: probe ? probe.file : null,
+    lineOffset: probe ? probe.line - probeLine : 0,
+    functions,
+    get mappings() {
+      if (mappings === null) mappings = __pineDecodeMappings(encodedMappings);
+      return mappings;
+    },
+  };
+}
+
+function __pineResolveStack(stack, locations) {
+  const pineStack = [];
+  let pending = null;
+  for (const frame of __pineParseStackFrames(stack)) {
+    if (frame.file !== locations.file) continue;
+    const line = frame.line - locations.lineOffset - 1;
+    const column = frame.column - 1;
+    let best = null;
+    for (const m of locations.mappings) {
+      if (m[0] < line) continue;
+      if (m[0] > line || m[1] > column) break;
+      best = m;
+    }
+    if (!best) continue;
+    if (!pending) pending = { line: best[2] + 1, column: best[3] + 1 };
+    const pineName = Object.prototype.hasOwnProperty.call(locations.functions, frame.name)
+      ? locations.functions[frame.name]
+      : undefined;
+    if (pineName !== undefined) {
+      pineStack.push({ function: pineName, ...pending });
+      pending = null;
+    }
+  }
+  if (pending) pineStack.push({ ...pending });
+  return pineStack;
+}
+
+function __pineToRuntimeError(error, barIndex, locations) {
+  if (error instanceof PineRuntimeError) return error;
+  const classified = __pineClassifyError(error);
+  const stack = error instanceof Error ? error.stack : undefined;
+  return new PineRuntimeError({
+    code: classified.code,
+    detail: classified.detail,
+    barIndex,
+    pineStack: stack && locations ? __pineResolveStack(stack, locations) : [],
+    cause: error,
+  });
+}
 `;
 
 function generateStandaloneRuntimeMainBody(
@@ -1006,6 +1164,7 @@ function generateStandaloneRuntimeMainBody(
         const _chartPeriod = typeof Std.period === 'function' ? String(Std.period(context) || '1') : '1';
         const _stdCompatBase = new Proxy(Std, {
           get(target, prop, receiver) {
+            if (prop === 'error') return __pineRaiseRuntimeError;
             if (prop === 'time') {
               return (timeframeArg, sessionArg, timezoneArg, barsBackArg) =>
                 __compatTime(
@@ -1123,25 +1282,16 @@ function generateStandaloneRuntimeMainBody(
         };
         const indicator = () => undefined;
         const study = () => undefined;
-        const strategy = (() => undefined);
-        strategy.entry = () => undefined;
-        strategy.exit = () => undefined;
-        strategy.close = () => undefined;
-        strategy.close_all = () => undefined;
-        strategy.order = () => undefined;
-        strategy.cancel = () => undefined;
-        strategy.risk = new Proxy({}, { get: () => () => undefined });
-        strategy.long = 1;
-        strategy.short = -1;
 
         const timeframe = __createTimeframe(_stdWithCompat, context);
         const math = __createMathNamespace();
         const ta = _stdWithCompat;
-        const color = Object.assign((value) => value, __colorMap);
+        const color = __color;
         const box = __stubs.box;
         const line = __stubs.line;
         const linefill = __stubs.linefill;
         const label = __stubs.label;
+        const polyline = __stubs.polyline;
         const table = __stubs.table;
         const str = __stubs.str;
         const _rawBox = __stubsRaw.box;
@@ -1149,6 +1299,7 @@ function generateStandaloneRuntimeMainBody(
           _rawBox.__setBarTime(_barTime);
         }
         const syminfo = __createSyminfo(context);
+        __syminfo = syminfo;
         const barstate = __createBarstate(context, _barTime, __previousBarTime);
         const shape = {
           triangleup: 'shape_triangle_up',
@@ -1179,8 +1330,9 @@ function generateStandaloneRuntimeMainBody(
           large: 'large',
           huge: 'huge',
         };
-        const alertcondition = () => undefined;
-        const alert = () => undefined;
+        const _alerts = __alertRuntime.beginBar(_resolvedBarIndex, barstate.isconfirmed);
+        const alert = __alertRuntime.alert;
+        const alertcondition = __alertRuntime.alertcondition;
         const _parseMergeMode = (args) => {
           let gaps = 'gaps_off';
           let lookahead = 'lookahead_off';
@@ -1263,16 +1415,48 @@ function generateStandaloneRuntimeMainBody(
           return 'ms:' + String(Math.floor(timestamp / bucketSizeMs));
         };
         const _requestSecurity = (symbolArg, timeframeArg, expressionArg, ...extraArgs) => {
+          const evaluate =
+            typeof extraArgs[extraArgs.length - 1] === 'function' ? extraArgs.pop() : undefined;
+          const merge = _parseMergeMode(extraArgs);
+          const callSite = __requestSecurityCallCounter++;
           const currentTicker = String((syminfo && syminfo.tickerid) || '');
           const requestedTicker =
             typeof symbolArg === 'string'
               ? symbolArg
               : String(symbolArg == null ? '' : symbolArg).trim();
+          if (requestedTicker && requestedTicker !== currentTicker && evaluate) {
+            const requestedTimeframe = String(timeframeArg || _chartPeriod || '');
+            const bars = __securityDataProvider
+              ? __securityDataProvider.getBars(requestedTicker, requestedTimeframe)
+              : undefined;
+            if (bars) {
+              const key = [
+                callSite,
+                requestedTicker,
+                requestedTimeframe,
+                merge.gaps,
+                merge.lookahead,
+              ].join('|');
+              let request = __securityRequests.get(key);
+              if (!request) {
+                request = __createSecurityRequest({
+                  context,
+                  symbol: requestedTicker,
+                  timeframe: requestedTimeframe,
+                  merge: {
+                    gaps: merge.gaps === 'gaps_on',
+                    lookahead: merge.lookahead === 'lookahead_on',
+                  },
+                });
+                __securityRequests.set(key, request);
+              }
+              return request.read(evaluate, bars, _barTime, _barTime + _chartTfMs, _naLike(expressionArg));
+            }
+          }
           if (requestedTicker && currentTicker && requestedTicker !== currentTicker) {
             return expressionArg;
           }
 
-          const merge = _parseMergeMode(extraArgs);
           const currentTfSecs = __timeframeToSeconds(_chartPeriod, _chartPeriod);
           const targetTfSecs = __timeframeToSeconds(timeframeArg, _chartPeriod);
           if (!Number.isFinite(currentTfSecs) || !Number.isFinite(targetTfSecs)) {
@@ -1284,7 +1468,6 @@ function generateStandaloneRuntimeMainBody(
 
           const bucketSizeMs = targetTfSecs * 1000;
           const chartTfMs = Math.max(1000, currentTfSecs * 1000);
-          const callSite = __requestSecurityCallCounter++;
           const key = [
             callSite,
             requestedTicker || currentTicker,
@@ -1374,6 +1557,7 @@ function generateStandaloneRuntimeMainBody(
           (_clock.hour * 3600 + _clock.minute * 60 + _clock.second) * 1000;
         const time_tradingday = _barTime - _elapsedMs;
         const bar_index = _resolvedBarIndex;
+        __stubsRaw.chartPoint.__setBar(bar_index, time);
         const hour = _clock.hour;
         const minute = _clock.minute;
         const second = _clock.second;
@@ -1390,10 +1574,11 @@ function generateStandaloneRuntimeMainBody(
           const secondValue = __toInteger(args[5], 0);
           return Date.UTC(yearValue, monthValue, dayValue, hourValue, minuteValue, secondValue);
         };
-        const chart = __callableNamespace('chart');
-        const format = __callableNamespace('format');
+        const chart = __callableNamespace('chart', { point: __stubsRaw.chartPoint });
+        const format = __callableNamespace('format', __PINE_FORMAT);
         const string = __callableNamespace('string');
-        const log = new Proxy({}, { get: () => () => undefined });
+        const _logs = __logRuntime.beginBar(_resolvedBarIndex, _currentTimeRaw);
+        const log = __logRuntime.log;
         const xloc = { bar_index: 'bar_index', bar_time: 'bar_time' };
         const yloc = { price: 'price', abovebar: 'abovebar', belowbar: 'belowbar' };
         const extend = { none: 'none', left: 'left', right: 'right', both: 'both' };
@@ -1428,6 +1613,12 @@ function generateStandaloneRuntimeMainBody(
         const hl2 = __toNumber(_stdWithCompat.hl2(context));
         const hlc3 = __toNumber(_stdWithCompat.hlc3(context));
         const ohlc4 = __toNumber(_stdWithCompat.ohlc4(context));
+        __strategyRuntime.beginBar(
+          { time: _barTime, open, high, low, close },
+          _resolvedBarIndex,
+          syminfo.mintick,
+        );
+        const strategy = __strategyRuntime.namespace;
 
         const compiledScript = function(
           Std,
@@ -1452,6 +1643,7 @@ function generateStandaloneRuntimeMainBody(
           line,
           linefill,
           label,
+          polyline,
           table,
           str,
           syminfo,
@@ -1501,76 +1693,82 @@ function generateStandaloneRuntimeMainBody(
 ${compiledScriptBody}
         };
 
-        compiledScript(
-          _stdWithCompat,
-          context,
-          input,
-          plot,
-          indicator,
-          study,
-          strategy,
-          color,
-          ta,
-          math,
-          timeframe,
-          plotshape,
-          plotchar,
-          plotarrow,
-          hline,
-          bgcolor,
-          fill,
-          barcolor,
-          box,
-          line,
-          linefill,
-          label,
-          table,
-          str,
-          syminfo,
-          barstate,
-          shape,
-          location,
-          size,
-          alertcondition,
-          alert,
-          request,
-          session,
-          array,
-          time,
-          time_close,
-          time_tradingday,
-          bar_index,
-          hour,
-          minute,
-          second,
-          year,
-          month,
-          dayofmonth,
-          dayofweek,
-          timestamp,
-          chart,
-          format,
-          string,
-          xloc,
-          yloc,
-          extend,
-          position,
-          order,
-          text,
-          display,
-          ticker,
-          barmerge,
-          close,
-          open,
-          high,
-          low,
-          volume,
-          hl2,
-          hlc3,
-          ohlc4,
-          log,
-        );
+        try {
+          compiledScript(
+            _stdWithCompat,
+            context,
+            input,
+            plot,
+            indicator,
+            study,
+            strategy,
+            color,
+            ta,
+            math,
+            timeframe,
+            plotshape,
+            plotchar,
+            plotarrow,
+            hline,
+            bgcolor,
+            fill,
+            barcolor,
+            box,
+            line,
+            linefill,
+            label,
+            polyline,
+            table,
+            str,
+            syminfo,
+            barstate,
+            shape,
+            location,
+            size,
+            alertcondition,
+            alert,
+            request,
+            session,
+            array,
+            time,
+            time_close,
+            time_tradingday,
+            bar_index,
+            hour,
+            minute,
+            second,
+            year,
+            month,
+            dayofmonth,
+            dayofweek,
+            timestamp,
+            chart,
+            format,
+            string,
+            xloc,
+            yloc,
+            extend,
+            position,
+            order,
+            text,
+            display,
+            ticker,
+            barmerge,
+            close,
+            open,
+            high,
+            low,
+            volume,
+            hl2,
+            hlc3,
+            ohlc4,
+            log,
+          );
+        } catch (error) {
+          throw __pineToRuntimeError(error, _resolvedBarIndex, __pineScriptLocations);
+        }
 
+        __strategyRuntime.endBar();
         _markProcessedBar();
         __previousBarTime = _barTime;
         const _result = _plotValues.slice();
@@ -1601,6 +1799,35 @@ ${
           writable: false,
           configurable: true,
         });
+        Object.defineProperty(_result, '__alerts', {
+          value: _alerts,
+          enumerable: false,
+          writable: false,
+          configurable: true,
+        });
+        Object.defineProperty(_result, '__alertsVersion', {
+          value: 1,
+          enumerable: false,
+          writable: false,
+          configurable: true,
+        });
+        Object.defineProperty(_result, '__logs', {
+          value: _logs,
+          enumerable: false,
+          writable: false,
+          configurable: true,
+        });
+        Object.defineProperty(_result, '__logsVersion', {
+          value: 1,
+          enumerable: false,
+          writable: false,
+          configurable: true,
+        });
+        Object.defineProperty(_result, '__strategyReport', {
+          get: __strategyRuntime.report,
+          enumerable: false,
+          configurable: true,
+        });
         return _result;`;
 }
 
@@ -1716,6 +1943,8 @@ interface RuntimeDiagnostic {
  */
 const VISUAL_EVENTS_VERSION = 1;
 const RUNTIME_DIAGNOSTICS_VERSION = 1;
+const ALERTS_VERSION = 1;
+const LOGS_VERSION = 1;
 
 function extractHandleId(value: unknown): number | undefined {
   if (typeof value !== 'object' || value === null) return undefined;
@@ -1812,29 +2041,7 @@ function readVisualDisplay(value: unknown): string | number | null {
 }
 
 function readVisualColor(value: unknown): string | null {
-  const raw = unwrapVisualValue(value);
-  if (typeof raw !== 'string') return null;
-  const token = raw.trim();
-  if (!token) return null;
-  if (/^#[0-9a-fA-F]{3,8}$/.test(token)) return token;
-  if (/^(?:rgb|hsl)a?\(/i.test(token)) return token.replace(/\s+/g, ' ');
-  if (/^color\./.test(token)) return token;
-  return null;
-}
-
-function readTranspFromColor(color: string | null): number | null {
-  if (!color) return null;
-  const rgba = color.match(/^rgba\(([^)]+)\)$/i);
-  if (!rgba) return null;
-  const parts = rgba[1]
-    .split(',')
-    .map((p) => p.trim())
-    .filter((p) => p.length > 0);
-  if (parts.length < 4) return null;
-  const alpha = Number(parts[3]);
-  if (!Number.isFinite(alpha)) return null;
-  const clamped = Math.min(1, Math.max(0, alpha));
-  return Math.round((1 - clamped) * 100);
+  return normalizeColor(unwrapVisualValue(value));
 }
 
 function normalizeVisualStyle(
@@ -1941,7 +2148,7 @@ function normalizeVisualStyle(
 
   if (transp === null) {
     for (const color of normalizedColors) {
-      const derived = readTranspFromColor(color);
+      const derived = colorTransparency(color);
       if (derived !== null) {
         transp = derived;
         break;
@@ -2026,6 +2233,12 @@ function createVisualStdProxy(
  * never see the update. Symptom: rectangles draw once and never
  * extend right as the session continues.
  */
+type VisualArgsRewriter = (
+  fnName: string,
+  args: unknown[],
+  result: unknown,
+) => unknown[];
+
 interface VisualEmissionContext {
   pushEvent: (event: VisualEvent) => void;
   barIndex: number;
@@ -2106,9 +2319,15 @@ function createVisualNamespaceProxy(
         // unknown handles; renderer-side consumers require stable
         // `pineHandleId` for every drawing mutation event.
         if ((prop === 'new' && handleId !== undefined) || shouldEmit) {
+          // A namespace can rewrite what its events carry, as polylines
+          // do to snapshot their points.
+          const visualArgs = target.__visualArgs;
           ctx.pushEvent({
             call: `${namespace}.${prop}`,
-            args,
+            args:
+              typeof visualArgs === 'function'
+                ? (visualArgs as VisualArgsRewriter)(prop, args, result)
+                : args,
             barIndex: ctx.barIndex,
             pineHandleId: handleId,
           });
@@ -2274,7 +2493,8 @@ export function generatePreamble(
   if (needsStdPlus) {
     preamble += `${STD_PLUS_LIBRARY}\n`;
   }
-  if (needsArray) {
+  // Matrix rows, columns and eigenvalues are handed out as Pine arrays.
+  if (needsArray || needsMatrix) {
     preamble += `${ARRAY_HELPER_FUNCTIONS}\n`;
   }
   if (needsMap) {
@@ -2313,10 +2533,14 @@ export function buildIndicatorFactory(
     overlay,
     plots,
     inputs,
+    alertConditions = [],
     usedSources,
     historicalAccess,
     mainBody,
     helperUsage,
+    programAst,
+    mainBodyMappings = [],
+    sourceMap: sourceMapOptions,
     // Default `false`: host renderers consuming `__visualEvents` draw
     // their own price-constrained rectangles from `box.new`. The
     // full-column auto bg_colorer was originally a fallback for
@@ -2335,6 +2559,26 @@ export function buildIndicatorFactory(
   );
   const body = preamble + mainBody;
 
+  // Name the compiled script with a `sourceURL` so its stack frames
+  // can be told apart from host frames and mapped back to Pine when a
+  // bar throws.
+  const scriptLocations: ScriptLocations = {
+    file: sourceMapOptions?.file ?? `${sanitizeIndicatorId(indicatorId)}.js`,
+    mappings: offsetMappings(
+      mainBodyMappings,
+      FUNCTION_CONSTRUCTOR_HEADER_LINES + countLines(preamble),
+    ),
+    functions: collectScriptFunctionNames(programAst),
+  };
+  let compiledBody = `${body}\n//# sourceURL=${scriptLocations.file}`;
+  let sourceMap: PineSourceMap | undefined;
+  if (sourceMapOptions) {
+    sourceMap = createSourceMap(scriptLocations.mappings, sourceMapOptions);
+    if (sourceMapOptions.inline) {
+      compiledBody += `\n${inlineSourceMapComment(sourceMap)}`;
+    }
+  }
+
   // Pine `box.new(..., bgcolor = ...)` has no direct equivalent in the
   // host chart runtime
   // Custom Indicators (no per-bar runtime drawing API), but session-
@@ -2407,8 +2651,18 @@ export function buildIndicatorFactory(
   };
   const totalPlotCount = plots.length + (hasAutoBgColorer ? 1 : 0);
 
-  const indicatorFactory: IndicatorFactory = (PineJS) => {
+  const indicatorFactory: IndicatorFactory = (PineJS, runtimeOptions) => {
     const Std = PineJS.Std;
+    const securityDataProvider = runtimeOptions?.securityDataProvider;
+    const onError = runtimeOptions?.onError;
+    const reportError = (label: string, error: unknown): void => {
+      if (onError) {
+        onError(error);
+      } else {
+        // biome-ignore lint/suspicious/noConsole: Runtime error logging
+        console.error(label, error);
+      }
+    };
     const safeId = sanitizeIndicatorId(indicatorId);
 
     // Closure-level color → palette-slot mapping. First seen wins.
@@ -2476,6 +2730,7 @@ export function buildIndicatorFactory(
         },
         styles: augmentedStyles,
         inputs: buildInputsMetadata(inputs),
+        ...(alertConditions.length > 0 ? { alertConditions } : {}),
       },
       constructor: function (this: IndicatorConstructor) {
         // Track the previous bar's open time so barstate.isnew can flip
@@ -2500,6 +2755,9 @@ export function buildIndicatorFactory(
             confirmedValue: unknown;
           }
         >();
+        // Per-call-site requests on other symbols, evaluated over the
+        // bars of `runtimeOptions.securityDataProvider`.
+        const _securityRequests = new Map<string, SecurityRequest>();
         // One-time diagnostics so unsupported request.security modes
         // surface explicitly without log spam on every bar.
         const _requestSecurityDiagnosticsSeen = new Set<string>();
@@ -2531,6 +2789,7 @@ export function buildIndicatorFactory(
             'line',
             'linefill',
             'label',
+            'polyline',
             'table',
             'str',
             'syminfo',
@@ -2576,11 +2835,10 @@ export function buildIndicatorFactory(
             'hl2',
             'hlc3',
             'ohlc4',
-            body,
+            compiledBody,
           );
         } catch (e) {
-          // biome-ignore lint/suspicious/noConsole: Runtime error logging
-          console.error('Compilation error', e);
+          reportError('Compilation error', e);
           // Store the original error so it routes through the per-bar
           // runtime catch (which tags `__caughtError`). Earlier the
           // stub was `() => {}`, which silently produced empty
@@ -2611,7 +2869,17 @@ export function buildIndicatorFactory(
         // N+1. Create them ONCE at indicator init so each handle's
         // method bindings (and the per-namespace state used by the
         // auto bg_colorer) survive across `main()` calls.
-        const stubsRaw = createStubNamespaces();
+        // `str` reads mintick and timezone from the bar being executed.
+        let barSyminfo: SyminfoMock | undefined;
+        const stubsRaw = createStubNamespaces(() => barSyminfo ?? {});
+
+        // Orders and positions carry over from bar to bar, so the
+        // strategy runtime lives as long as the indicator instance.
+        const strategyRuntime = createStrategyRuntime();
+        // Once-per-bar alerts remember the bar they last fired on.
+        const alertRuntime = createAlertRuntime();
+        const logRuntime = createLogRuntime();
+        const color = createColorNamespace();
 
         // Shared emission context. The visual proxies and every
         // wrapped handle they produce reference THIS object; per-bar
@@ -2653,6 +2921,11 @@ export function buildIndicatorFactory(
             stubsRaw.label as Record<string, unknown>,
             visualCtx,
           ),
+          polyline: createVisualNamespaceProxy(
+            'polyline',
+            stubsRaw.polyline as Record<string, unknown>,
+            visualCtx,
+          ),
           table: createVisualNamespaceProxy(
             'table',
             stubsRaw.table as Record<string, unknown>,
@@ -2680,6 +2953,7 @@ export function buildIndicatorFactory(
           const math = createMathMock();
           const timeframe = createTimeframeMock(stdLib, ctx);
           const syminfo = createSyminfoMock(ctx);
+          barSyminfo = syminfo;
           const sources = createPriceSources(stdLib, ctx);
 
           // Real-ish barstate: read the current bar's time from the
@@ -3114,6 +3388,7 @@ export function buildIndicatorFactory(
                 if (prop === 'year') return compatYear;
                 if (prop === 'month') return compatMonth;
                 if (prop === 'dayofmonth') return compatDayOfMonth;
+                if (prop === 'error') return raiseScriptRuntimeError;
                 return Reflect.get(target, prop, receiver);
               },
             },
@@ -3139,19 +3414,20 @@ export function buildIndicatorFactory(
           // No-op functions for indicator declarations
           const indicator = () => {};
           const study = () => {};
-          const strategy = (() => {}) as ((...args: unknown[]) => void) &
-            Record<string, unknown>;
-          strategy.entry = () => {};
-          strategy.exit = () => {};
-          strategy.close = () => {};
-          strategy.close_all = () => {};
-          strategy.order = () => {};
-          strategy.cancel = () => {};
-          strategy.risk = new Proxy({}, { get: () => () => {} });
-          strategy.long = 1;
-          strategy.short = -1;
-          strategy.initial_capital = 100000;
-          strategy.position_size = 0;
+          // Orders placed on earlier bars fill against this one before
+          // the script sees its position.
+          strategyRuntime.beginBar(
+            {
+              time: currentBarTime,
+              open: Number(sources.open),
+              high: Number(sources.high),
+              low: Number(sources.low),
+              close: Number(sources.close),
+            },
+            resolvedBarIndex,
+            syminfo.mintick,
+          );
+          const strategy = strategyRuntime.namespace;
 
           // Plotting stubs that push NaN for unsupported plot types
           const plotshape = (...args: unknown[]) => {
@@ -3210,12 +3486,6 @@ export function buildIndicatorFactory(
             });
           };
 
-          // Color mapping
-          const color = Object.assign(
-            (value: unknown): unknown => value,
-            COLOR_MAP,
-          );
-
           // Pine namespaces / globals user code expects to reference.
           // Without these wrapper-bound parameters, `shape.triangleup`,
           // `location.belowbar`, `bar_index`, etc. resolve to
@@ -3265,24 +3535,30 @@ export function buildIndicatorFactory(
           // BOTH callable (returning the input as-is) AND support
           // member access. The Proxy `get` handler covers member
           // access; the function itself covers calls.
-          const callableProxy = (label: string): unknown =>
+          const callableProxy = (
+            label: string,
+            members: Record<string, unknown> = {},
+          ): unknown =>
             new Proxy(((arg: unknown) => arg) as unknown as object, {
               get: (_t, p) => {
                 // Allow calls like `format.volume(x)` to pass
                 // through too — every member is itself a callable
                 // identity-stub.
                 if (typeof p === 'symbol') return undefined;
+                if (Object.keys(members).includes(p)) return members[p];
                 return (arg: unknown) =>
                   arg !== undefined ? arg : `${label}.${String(p)}`;
               },
             });
-          const chart = callableProxy('chart') as Record<string, string>;
-          const format = callableProxy('format') as Record<string, string>;
-          const string = callableProxy('string') as Record<string, string>;
-          const log = new Proxy({}, { get: () => () => undefined }) as Record<
+          // `chart.point` is real; the other members stay stubs.
+          const chart = callableProxy('chart', {
+            point: stubsRaw.chartPoint,
+          }) as Record<string, string>;
+          const format = callableProxy('format', PINE_FORMAT) as Record<
             string,
-            (...args: unknown[]) => void
+            string
           >;
+          const string = callableProxy('string') as Record<string, string>;
           const xloc = {
             bar_index: 'bar_index',
             bar_time: 'bar_time',
@@ -3329,11 +3605,16 @@ export function buildIndicatorFactory(
             gaps_off: 'gaps_off',
           };
 
-          // Pine `alertcondition()` and `alert()` are no-ops at the
-          // mock layer — the chart routes alerts via metadata, not
-          // per-bar execution. Stub them to avoid `is not defined`.
-          const alertcondition = () => {};
-          const alert = () => {};
+          // `alert()` and `alertcondition()` collect this execution's
+          // alerts, returned as the non-enumerable `__alerts`.
+          const _alerts = alertRuntime.beginBar(
+            resolvedBarIndex,
+            barstate.isconfirmed,
+          );
+          const { alert, alertcondition } = alertRuntime;
+          // `log.*` records, returned as the non-enumerable `__logs`.
+          const _logs = logRuntime.beginBar(resolvedBarIndex, rawBarTime);
+          const { log } = logRuntime;
 
           // request.* and array (the namespace, distinct from the
           // array.* mappings) — Pine v6 multi-timeframe / collection
@@ -3501,7 +3782,16 @@ export function buildIndicatorFactory(
             const symbolArg = args[0];
             const timeframeArg = args[1];
             const expressionArg = args[2];
-            const merge = resolveMergeMode(args.slice(3));
+            // The generated code appends the expression's evaluator,
+            // which only other symbols' bars need.
+            const evaluate =
+              typeof args[args.length - 1] === 'function'
+                ? (args[args.length - 1] as SecurityEvaluator)
+                : undefined;
+            const merge = resolveMergeMode(
+              args.slice(3, evaluate ? -1 : undefined),
+            );
+            const callSite = inferRequestSecurityCallSite();
 
             const currentTfRaw =
               typeof stdLib.period === 'function' ? stdLib.period(ctx) : null;
@@ -3514,6 +3804,39 @@ export function buildIndicatorFactory(
               typeof symbolArg === 'string'
                 ? symbolArg
                 : String(symbolArg ?? '').trim();
+            const requestedTimeframe = String(
+              timeframeArg || currentTfRaw || '',
+            );
+            const securityBars =
+              requestedTicker && requestedTicker !== currentTicker && evaluate
+                ? securityDataProvider?.getBars(
+                    requestedTicker,
+                    requestedTimeframe,
+                  )
+                : undefined;
+            if (securityBars) {
+              const key = `${callSite}|${requestedTicker}|${requestedTimeframe}|${merge.gaps}|${merge.lookahead}`;
+              let request = _securityRequests.get(key);
+              if (!request) {
+                request = createSecurityRequest({
+                  context: ctx as RuntimeContext,
+                  symbol: requestedTicker,
+                  timeframe: requestedTimeframe,
+                  merge: {
+                    gaps: merge.gaps === 'gaps_on',
+                    lookahead: merge.lookahead === 'lookahead_on',
+                  },
+                });
+                _securityRequests.set(key, request);
+              }
+              return request.read(
+                evaluate as SecurityEvaluator,
+                securityBars,
+                currentBarTime,
+                currentBarTime + chartTimeframeMs,
+                naLike(expressionArg),
+              );
+            }
             if (
               requestedTicker &&
               currentTicker &&
@@ -3573,7 +3896,6 @@ export function buildIndicatorFactory(
               return expressionArg;
             }
 
-            const callSite = inferRequestSecurityCallSite();
             const timezone =
               readStringField(ctx.symbol, 'timezone') ?? 'America/New_York';
             const bucketKey = buildRequestBucketKey(
@@ -3714,6 +4036,7 @@ export function buildIndicatorFactory(
             (_tdClock.hour * 3600 + _tdClock.minute * 60 + _tdClock.second) *
               1000;
           const bar_index = resolvedBarIndex;
+          stubsRaw.chartPoint.__setBar(bar_index, time);
           const readClock = () => {
             const stdHourFn = (stdLib as Record<string, unknown>).hour;
             const stdMinuteFn = (stdLib as Record<string, unknown>).minute;
@@ -3850,6 +4173,7 @@ export function buildIndicatorFactory(
               stubs.line,
               stubs.linefill,
               stubs.label,
+              stubs.polyline,
               stubs.table,
               stubs.str,
               syminfo,
@@ -3896,6 +4220,7 @@ export function buildIndicatorFactory(
               sources.hlc3,
               sources.ohlc4,
             );
+            strategyRuntime.endBar();
 
             // Auto bg_colorer: after the body runs, ask the box stub
             // which box is being extended to the current bar; resolve
@@ -3953,6 +4278,37 @@ export function buildIndicatorFactory(
                 configurable: false,
               },
             );
+            Object.defineProperty(normalizedPlotValues, '__alerts', {
+              value: _alerts,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(normalizedPlotValues, '__alertsVersion', {
+              value: ALERTS_VERSION,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(normalizedPlotValues, '__logs', {
+              value: _logs,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(normalizedPlotValues, '__logsVersion', {
+              value: LOGS_VERSION,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            // The backtest so far, computed when read; undefined for
+            // scripts that do not declare a strategy.
+            Object.defineProperty(normalizedPlotValues, '__strategyReport', {
+              get: strategyRuntime.report,
+              enumerable: false,
+              configurable: false,
+            });
             markProcessedBar();
             return normalizedPlotValues;
           } catch (e) {
@@ -3964,9 +4320,14 @@ export function buildIndicatorFactory(
               typeof e === 'object' &&
               e !== null &&
               (e as { __compileError?: boolean }).__compileError === true;
+            // Compile errors have no bar or Pine position to report;
+            // everything else becomes a located PineRuntimeError with
+            // the original error as its `cause`.
+            const caughtError = isCompileRethrow
+              ? e
+              : toPineRuntimeError(e, resolvedBarIndex, scriptLocations);
             if (!isCompileRethrow) {
-              // biome-ignore lint/suspicious/noConsole: Runtime error logging
-              console.error('Script execution error', e);
+              reportError('Script execution error', caughtError);
             }
             // Synthesize a NaN-of-declared-length array so the chart
             // doesn't crash on a bad bar. Tag the array with a non-
@@ -4003,12 +4364,42 @@ export function buildIndicatorFactory(
               writable: false,
               configurable: false,
             });
-            // Preserve the raw error (instance + stack) on the array
-            // so consumers can surface the full diagnostic, not just
-            // the message. Non-enumerable so spread / JSON.stringify
+            Object.defineProperty(fallback, '__alerts', {
+              value: _alerts,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(fallback, '__alertsVersion', {
+              value: ALERTS_VERSION,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(fallback, '__logs', {
+              value: _logs,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(fallback, '__logsVersion', {
+              value: LOGS_VERSION,
+              enumerable: false,
+              writable: false,
+              configurable: false,
+            });
+            Object.defineProperty(fallback, '__strategyReport', {
+              get: strategyRuntime.report,
+              enumerable: false,
+              configurable: false,
+            });
+            // Preserve the error (the PineRuntimeError, whose `cause`
+            // is the raw instance + stack) on the array so consumers
+            // can surface the full diagnostic, not just the message.
+            // Non-enumerable so spread / JSON.stringify
             // don't drag it into chart output.
             Object.defineProperty(fallback, '__caughtError', {
-              value: e,
+              value: caughtError,
               enumerable: false,
               writable: false,
               configurable: false,
@@ -4052,6 +4443,7 @@ export function buildIndicatorFactory(
   // the outer wrapper). Non-enumerable so spreading the factory into
   // other objects doesn't accidentally drag the body string along.
   attachPineJsBody(indicatorFactory, body);
+  if (sourceMap) attachPineSourceMap(indicatorFactory, sourceMap);
 
   return indicatorFactory;
 }
@@ -4106,7 +4498,9 @@ function collectStandaloneDeclarationStatements(
   if (!programAst) return [];
   return programAst.body.filter(
     (stmt) =>
-      stmt.type === 'TypeDefinition' || stmt.type === 'FunctionDeclaration',
+      stmt.type === 'TypeDefinition' ||
+      stmt.type === 'EnumDeclaration' ||
+      stmt.type === 'FunctionDeclaration',
   );
 }
 
@@ -4121,6 +4515,10 @@ function collectStandaloneDeclarationSymbolNames(
       names.add(`__type_${typeName}`);
       continue;
     }
+    if (stmt.type === 'EnumDeclaration') {
+      names.add(sanitizeIdentifier(stmt.name));
+      continue;
+    }
     if (stmt.type === 'FunctionDeclaration') {
       const fnName = sanitizeIdentifier(stmt.id.name);
       names.add(fnName);
@@ -4157,6 +4555,17 @@ function generateStandaloneDeclarationCode(
 export function generateStandaloneFactory(
   options: IndicatorFactoryOptions,
 ): string {
+  return generateStandaloneFactoryWithSourceMap(options).code;
+}
+
+/**
+ * {@link generateStandaloneFactory}, also returning the source map when
+ * `options.sourceMap` is set. With `sourceMap.inline` the map is
+ * embedded in `code` as well.
+ */
+export function generateStandaloneFactoryWithSourceMap(
+  options: IndicatorFactoryOptions,
+): { code: string; sourceMap?: PineSourceMap } {
   const {
     indicatorId,
     indicatorName,
@@ -4166,6 +4575,7 @@ export function generateStandaloneFactory(
     plots,
     inputs,
     bgcolors,
+    alertConditions = [],
     usedSources = new Set<string>(),
     historicalAccess = new Set<string>(),
     mainBody = '',
@@ -4176,6 +4586,8 @@ export function generateStandaloneFactory(
     computedVariables,
     inputVariableMap,
     programAst,
+    mainBodyMappings = [],
+    sourceMap: sourceMapOptions,
   } = options;
 
   const userDeclarationStatements =
@@ -4358,7 +4770,7 @@ export function generateStandaloneFactory(
   // when direct generateStandaloneFactory calls omit mainBody.
   const mainBodyCode = hasTranspiledMainBody
     ? generateStandaloneRuntimeMainBody(
-        runtimeBody,
+        RUNTIME_BODY_PLACEHOLDER,
         nativePlots.length,
         useSessionBgMetadata,
       )
@@ -4375,12 +4787,7 @@ export function generateStandaloneFactory(
         userDeclarationSymbolNames,
       );
 
-  const colorMapLiteral = JSON.stringify(COLOR_MAP, null, 8).replace(
-    /\n/g,
-    '\n      ',
-  );
-
-  return `/**
+  const code = `/**
  * PineJS Indicator Factory
  * Generated by @opus-aether-ai/pine-transpiler
  *
@@ -4391,10 +4798,11 @@ export function generateStandaloneFactory(
  *   // Register with Chart Host chart
  */
 
-${hasTranspiledMainBody ? `${STANDALONE_DRAWING_BUNDLE}\n\n${STANDALONE_RUNTIME_HELPERS}` : ''}
+${hasTranspiledMainBody ? `${STANDALONE_DRAWING_BUNDLE}\n\n${STANDALONE_COLOR_BUNDLE}\n\n${STANDALONE_STRING_BUNDLE}\n\n${STANDALONE_SECURITY_BUNDLE}\n\n${STANDALONE_RUNTIME_HELPERS}` : ''}
 
-function createIndicator(PineJS) {
+function createIndicator(PineJS, options) {
   const Std = PineJS.Std;
+  const __securityDataProvider = options && options.securityDataProvider;
 
   return {
     name: 'User_${safeId}',
@@ -4429,20 +4837,31 @@ ${
       styles: ${JSON.stringify(stylesMetadata, null, 8).replace(/\n/g, '\n      ')},
 
       inputs: ${JSON.stringify(inputsMetadata, null, 8).replace(/\n/g, '\n      ')},
-    },
+${
+  alertConditions.length > 0
+    ? `
+      alertConditions: ${JSON.stringify(alertConditions, null, 8).replace(/\n/g, '\n      ')},
+`
+    : ''
+}    },
 
     constructor: function() {
 ${
   hasTranspiledMainBody
-    ? `      const __stubsRaw = __createStubNamespaces();
+    ? `      let __syminfo = null;
+      const __stubsRaw = __createStubNamespaces(() => __syminfo || {});
       const __visualCtx = { pushEvent: () => undefined, barIndex: -1 };
       const __stubs = __createVisualStubs(__stubsRaw, __visualCtx);
-      const __colorMap = ${colorMapLiteral};
+      const __strategyRuntime = __createStrategyRuntime();
+      const __alertRuntime = __createAlertRuntime();
+      const __logRuntime = __createLogRuntime();
+      const __color = __createColorNamespace();
       let __previousBarTime = Number.NaN;
       let __fallbackBarIndex = -1;
       let __processedBars = 0;
       let __processedBarKey = null;
       const __requestSecurityState = new Map();
+      const __securityRequests = new Map();
       let __requestSecurityCallCounter = 0;
 `
     : ''
@@ -4454,8 +4873,47 @@ ${mainBodyCode}
   };
 }
 
-export { createIndicator };
-`;
+${STANDALONE_EXPORT_LINE}`;
+
+  // Splice the runtime body in at the placeholder, re-indenting it the
+  // way `generateStandaloneRuntimeMainBody` would have, and shift the
+  // body mappings to where it landed. The shifted mappings also go
+  // into the locations table the runtime-error helpers resolve stack
+  // frames against.
+  let finalCode = code;
+  let mappings: SourceMapping[] = [];
+  const placeholderIndex = code.indexOf(RUNTIME_BODY_PLACEHOLDER);
+  if (placeholderIndex !== -1) {
+    const before = code.slice(0, placeholderIndex);
+    const column = placeholderIndex - (before.lastIndexOf('\n') + 1);
+    finalCode =
+      before +
+      indentCode(runtimeBody, column).slice(column) +
+      code.slice(placeholderIndex + RUNTIME_BODY_PLACEHOLDER.length);
+    mappings = offsetMappings(
+      mainBodyMappings,
+      countLines(before) + countLines(runtimePreamble),
+      column,
+    );
+    // The table goes on its own line just above the export, so its
+    // line number is known here and unaffected by loaders that strip
+    // module syntax.
+    const exportIndex = finalCode.lastIndexOf(STANDALONE_EXPORT_LINE);
+    const functions = Object.fromEntries(
+      collectScriptFunctionNames(programAst),
+    );
+    const table = `const __pineScriptLocations = __pineCreateScriptLocations(${countLines(finalCode.slice(0, exportIndex)) + 1}, new Error().stack, ${JSON.stringify(encodeMappings(mappings))}, ${JSON.stringify(functions)});\n`;
+    finalCode =
+      finalCode.slice(0, exportIndex) + table + finalCode.slice(exportIndex);
+  }
+
+  if (!sourceMapOptions) return { code: finalCode };
+
+  const sourceMap = createSourceMap(mappings, sourceMapOptions);
+  if (sourceMapOptions.inline) {
+    finalCode += `${inlineSourceMapComment(sourceMap)}\n`;
+  }
+  return { code: finalCode, sourceMap };
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Pine Formatter
+ *
+ * `formatPineScript` reprints a script in the canonical layout of
+ * {@link PinePrinter}, keeping every comment. Formatting is
+ * idempotent: formatting the output again returns it unchanged.
+ */
+
+import { Lexer, Parser } from '../parser';
+import { PinePrinter } from './printer';
+
+/** Line width past which a statement's call arguments are wrapped. */
+export const DEFAULT_LINE_WIDTH = 100;
+
+export interface FormatOptions {
+  /** Wrap call arguments past this many columns (default 100). */
+  lineWidth?: number;
+}
+
+/**
+ * Format a Pine Script source. Throws the first lexical or syntax
+ * error rather than reprinting a script with statements missing.
+ */
+export function formatPineScript(
+  code: string,
+  options: FormatOptions = {},
+): string {
+  const source = code.replace(/\r\n/g, '\n');
+  const lexer = new Lexer(source);
+  const tokens = lexer.tokenize();
+  const { program, errors } = new Parser(tokens, {
+    version: lexer.getVersion(),
+  }).parseWithErrors();
+  if (errors.length > 0) throw errors[0];
+  return new PinePrinter(
+    source,
+    lexer.getComments(),
+    options.lineWidth ?? DEFAULT_LINE_WIDTH,
+  ).print(program);
+}
@@ -0,0 +1,12 @@
+/**
+ * Formatter Index
+ *
+ * Re-exports the Pine source formatter and its printer
+ */
+
+export {
+  DEFAULT_LINE_WIDTH,
+  type FormatOptions,
+  formatPineScript,
+} from './format';
+export { PinePrinter } from './printer';
@@ -0,0 +1,749 @@
+/**
+ * Pine Printer
+ *
+ * Prints a parsed program back to Pine source in one canonical layout:
+ *
+ * - blocks are indented four spaces; wrapped arguments two more
+ * - binary, assignment and named-argument operators are spaced, and
+ *   parentheses are printed only where precedence needs them
+ * - runs of blank lines collapse to one, and blank lines at the start
+ *   of a block are dropped
+ * - a statement wider than the line width whose value is a call gets
+ *   one argument per line
+ *
+ * Comments are not in the AST; the lexer collects them and the
+ * printer places each one by its source offset. A comment on its own
+ * line is printed before the statement that follows it, or at the end
+ * of the block it is indented into; a comment after code stays at the
+ * end of that line. A comment inside a statement that spans several
+ * lines is moved above the statement, so none are dropped.
+ */
+
+import type {
+  ASTNode,
+  BlockStatement,
+  CallExpression,
+  Comment,
+  EnumMember,
+  Expression,
+  FunctionDeclaration,
+  Identifier,
+  IfStatement,
+  Literal,
+  Program,
+  Statement,
+  SwitchCase,
+  SwitchExpression,
+  SwitchStatement,
+  TypeAnnotation,
+  VariableDeclaration,
+} from '../parser';
+
+const INDENT = '    ';
+/** Extra indent for wrapped arguments; Pine rejects a multiple of four. */
+const CONTINUATION = '  ';
+
+/** Binding strength of each binary operator; higher binds tighter. */
+const BINARY_PRECEDENCE: Record<string, number> = {
+  or: 2,
+  and: 3,
+  '==': 4,
+  '!=': 4,
+  '<': 5,
+  '>': 5,
+  '<=': 5,
+  '>=': 5,
+  '+': 6,
+  '-': 6,
+  '*': 7,
+  '/': 7,
+  '%': 7,
+};
+const TERNARY = 1;
+const UNARY = 8;
+const POSTFIX = 9;
+const PRIMARY = 10;
+
+/** Where a node is printed. */
+interface Layout {
+  /** Block depth. */
+  indent: number;
+  /**
+   * Offset of the code that follows the enclosing block, which bounds
+   * the comments a block may keep at its end.
+   */
+  boundary: number;
+}
+
+export class PinePrinter {
+  private lines: string[] = [];
+  private nextComment = 0;
+  private readonly commentsByStart = new Map<number, Comment>();
+  private readonly lineStarts = [0];
+  /** Source line of the last code or comment printed. */
+  private lastLine = 0;
+  /** No blank line before the next line printed. */
+  private atBlockStart = true;
+  /** The call whose arguments are being wrapped. */
+  private wrapped: CallExpression | undefined;
+
+  constructor(
+    private readonly source: string,
+    private readonly comments: Comment[],
+    private readonly lineWidth: number,
+  ) {
+    for (const comment of comments) {
+      this.commentsByStart.set(comment.start, comment);
+    }
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') this.lineStarts.push(i + 1);
+    }
+  }
+
+  print(program: Program): string {
+    this.list(program.body, { indent: 0, boundary: Infinity }, (stmt, at) =>
+      this.statement(stmt, at),
+    );
+    this.leadingComments(Infinity, 0);
+    return this.lines.length > 0 ? `${this.lines.join('\n')}\n` : '';
+  }
+
+  // ==========================================================================
+  // Lines and comments
+  // ==========================================================================
+
+  /**
+   * Print a list of statements, cases, fields or members, then the
+   * comments indented into the end of it.
+   */
+  private list<T extends ASTNode>(
+    items: T[],
+    at: Layout,
+    printItem: (item: T, at: Layout) => void,
+  ): void {
+    this.atBlockStart = true;
+    items.forEach((item, i) => {
+      printItem(item, {
+        indent: at.indent,
+        boundary: items[i + 1]?.start ?? at.boundary,
+      });
+    });
+    const column = items[0]?.loc?.start.column;
+    if (column === undefined) return;
+    while (this.nextComment < this.comments.length) {
+      const comment = this.comments[this.nextComment];
+      if (
+        comment.start >= at.boundary ||
+        comment.column < column ||
+        !this.isOwnLine(comment)
+      ) {
+        break;
+      }
+      this.nextComment++;
+      this.comment(comment, at.indent);
+    }
+  }
+
+  /**
+   * Print the line (or lines) of code from `start` whose source ends
+   * on the line of `headEnd`. Comments before it go above it; comments
+   * within it go above it too, except the last one on its line, which
+   * stays at the end of the printed line.
+   */
+  private emit(
+    start: number | undefined,
+    headEnd: number | undefined,
+    indent: number,
+    render: () => string,
+    tail?: Expression,
+  ): void {
+    if (start !== undefined) this.leadingComments(start, indent);
+    const within: Comment[] = [];
+    if (headEnd !== undefined) {
+      const lineEnd = this.lineEnd(headEnd);
+      for (
+        let c = this.takeComment(lineEnd);
+        c;
+        c = this.takeComment(lineEnd)
+      ) {
+        within.push(c);
+      }
+    }
+    const last = within[within.length - 1];
+    const trailing =
+      last &&
+      headEnd !== undefined &&
+      last.line === this.lineOf(headEnd) &&
+      !this.isOwnLine(last) &&
+      this.endsLine(last)
+        ? within.pop()
+        : undefined;
+
+    if (start !== undefined) this.gap(this.lineOf(start));
+    this.atBlockStart = false;
+    for (const comment of within) this.pushComment(comment, indent);
+    if (headEnd !== undefined) this.lastLine = this.lineOf(headEnd);
+
+    const pad = INDENT.repeat(indent);
+    let text = render();
+    let wrapped = false;
+    if (
+      !text.includes('\n') &&
+      pad.length + text.length > this.lineWidth &&
+      tail?.type === 'CallExpression' &&
+      tail.arguments.length > 0
+    ) {
+      this.wrapped = tail;
+      text = render();
+      this.wrapped = undefined;
+      wrapped = true;
+    }
+
+    const lines = text.split('\n');
+    if (trailing) {
+      const index = wrapped ? lines.length - 1 : 0;
+      lines[index] += ` ${trailing.text.trimEnd()}`;
+    }
+    this.lines.push(`${pad}${lines[0]}`, ...lines.slice(1));
+  }
+
+  /** Print the comments that start before `offset` on lines of their own. */
+  private leadingComments(offset: number, indent: number): void {
+    for (let c = this.takeComment(offset); c; c = this.takeComment(offset)) {
+      this.comment(c, indent);
+    }
+  }
+
+  /** The next unprinted comment, if it starts before `offset`. */
+  private takeComment(offset: number): Comment | undefined {
+    const comment = this.comments[this.nextComment];
+    if (!comment || comment.start >= offset) return undefined;
+    this.nextComment++;
+    return comment;
+  }
+
+  private comment(comment: Comment, indent: number): void {
+    this.gap(comment.line);
+    this.atBlockStart = false;
+    this.pushComment(comment, indent);
+    this.lastLine = this.lineOf(comment.end);
+  }
+
+  private pushComment(comment: Comment, indent: number): void {
+    this.lines.push(`${INDENT.repeat(indent)}${comment.text.trimEnd()}`);
+  }
+
+  /** Keep one blank line where the source had any before `line`. */
+  private gap(line: number): void {
+    if (!this.atBlockStart && line > this.lastLine + 1) this.lines.push('');
+  }
+
+  /** Print `fn`'s lines into a separate buffer and return them. */
+  private capture(fn: () => void): string[] {
+    const lines = this.lines;
+    this.lines = [];
+    try {
+      fn();
+      return this.lines;
+    } finally {
+      this.lines = lines;
+    }
+  }
+
+  private isOwnLine(comment: Comment): boolean {
+    const lineStart = this.lineStarts[comment.line - 1] ?? 0;
+    return this.source.slice(lineStart, comment.start).trim() === '';
+  }
+
+  private endsLine(comment: Comment): boolean {
+    return (
+      this.source.slice(comment.end, this.lineEnd(comment.end)).trim() === ''
+    );
+  }
+
+  /** 1-based line of `offset`. */
+  private lineOf(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+
+  /** Offset of the newline ending the line of `offset`. */
+  private lineEnd(offset: number): number {
+    const end = this.source.indexOf('\n', offset);
+    return end === -1 ? this.source.length : end;
+  }
+
+  /** Offset of the first code at or after `offset`, past comments. */
+  private nextCode(offset: number): number {
+    let i = offset;
+    while (i < this.source.length) {
+      const comment = this.commentsByStart.get(i);
+      if (comment) i = comment.end;
+      else if (/\s/.test(this.source[i])) i++;
+      else break;
+    }
+    return i;
+  }
+
+  // ==========================================================================
+  // Statements
+  // ==========================================================================
+
+  private statement(stmt: Statement, at: Layout): void {
+    const inner = { indent: at.indent + 1, boundary: at.boundary };
+    switch (stmt.type) {
+      case 'IfStatement':
+        this.ifStatement(stmt, at, stmt.start, 'if');
+        return;
+      case 'ForStatement':
+        this.emit(stmt.start, (stmt.update ?? stmt.test).end, at.indent, () => {
+          const { init, test } = stmt;
+          const counter =
+            init.type === 'AssignmentExpression'
+              ? `${this.target(init.left, at)} = ${this.expression(init.right, at)}`
+              : this.variableDeclaration(init, at);
+          const end = test.type === 'BinaryExpression' ? test.right : test;
+          const step = stmt.update
+            ? ` by ${this.expression(stmt.update, at)}`
+            : '';
+          return `for ${counter} to ${this.expression(end, at)}${step}`;
+        });
+        this.block(stmt.body, inner);
+        return;
+      case 'ForInStatement':
+        this.emit(
+          stmt.start,
+          stmt.right.end,
+          at.indent,
+          () =>
+            `for ${this.target(stmt.left, at)} in ${this.expression(stmt.right, at)}`,
+        );
+        this.block(stmt.body, inner);
+        return;
+      case 'WhileStatement':
+        this.emit(
+          stmt.start,
+          stmt.test.end,
+          at.indent,
+          () => `while ${this.expression(stmt.test, at)}`,
+        );
+        this.block(stmt.body, inner);
+        return;
+      case 'SwitchStatement':
+        this.emit(stmt.start, this.switchHeadEnd(stmt), at.indent, () =>
+          this.switchHead(stmt, at),
+        );
+        this.list(stmt.cases, inner, (c, caseAt) => this.switchCase(c, caseAt));
+        return;
+      case 'TypeDefinition':
+        this.emit(
+          stmt.start,
+          stmt.start,
+          at.indent,
+          () => `${stmt.export ? 'export ' : ''}type ${stmt.name}`,
+        );
+        this.list(stmt.fields, inner, (field, fieldAt) =>
+          this.emit(field.start, field.end, fieldAt.indent, () =>
+            this.variableDeclaration(field, fieldAt),
+          ),
+        );
+        return;
+      case 'EnumDeclaration':
+        this.emit(
+          stmt.start,
+          stmt.start,
+          at.indent,
+          () => `${stmt.export ? 'export ' : ''}enum ${stmt.name}`,
+        );
+        this.list(stmt.members, inner, (member, memberAt) =>
+          this.emit(member.start, member.end, memberAt.indent, () =>
+            this.enumMember(member),
+          ),
+        );
+        return;
+      case 'FunctionDeclaration':
+        if (stmt.body.type === 'BlockStatement') {
+          this.emit(
+            stmt.start,
+            this.arrowEnd(stmt),
+            at.indent,
+            () => `${this.functionHead(stmt, at)} =>`,
+          );
+          this.block(stmt.body, inner);
+          return;
+        }
+        break;
+    }
+    const tail = statementTail(stmt);
+    this.emit(
+      stmt.start,
+      tail && this.isMultiline(tail) ? this.switchHeadEnd(tail) : stmt.end,
+      at.indent,
+      () => this.simpleStatement(stmt, at),
+      tail,
+    );
+  }
+
+  /** An `if` and its `else if` / `else` branches. */
+  private ifStatement(
+    stmt: IfStatement,
+    at: Layout,
+    start: number | undefined,
+    keyword: string,
+  ): void {
+    const inner = { indent: at.indent + 1, boundary: at.boundary };
+    this.emit(
+      start,
+      stmt.test.end,
+      at.indent,
+      () => `${keyword} ${this.expression(stmt.test, at)}`,
+    );
+    const { alternate } = stmt;
+    const elseStart =
+      alternate && stmt.consequent.end !== undefined
+        ? this.nextCode(stmt.consequent.end)
+        : undefined;
+    this.block(stmt.consequent, {
+      ...inner,
+      boundary: elseStart ?? at.boundary,
+    });
+    if (!alternate) return;
+
+    this.atBlockStart = true;
+    if (alternate.type === 'IfStatement') {
+      this.ifStatement(alternate, at, elseStart, 'else if');
+      return;
+    }
+    this.emit(
+      elseStart,
+      elseStart === undefined ? undefined : elseStart + 'else'.length,
+      at.indent,
+      () => 'else',
+    );
+    this.block(alternate, inner);
+  }
+
+  /** The statements of a block body, or a lone statement as one. */
+  private block(body: BlockStatement | Statement, at: Layout): void {
+    const statements = body.type === 'BlockStatement' ? body.body : [body];
+    this.list(statements, at, (stmt, stmtAt) => this.statement(stmt, stmtAt));
+  }
+
+  private switchCase(node: SwitchCase, at: Layout): void {
+    const arrow = node.test ? `${this.expression(node.test, at)} =>` : '=>';
+    const { consequent } = node;
+    if (consequent.type === 'BlockStatement') {
+      const arrowStart = this.source.indexOf(
+        '=>',
+        node.test?.end ?? node.start,
+      );
+      this.emit(
+        node.start,
+        arrowStart === -1 ? node.end : arrowStart + 2,
+        at.indent,
+        () => arrow,
+      );
+      this.block(consequent, { ...at, indent: at.indent + 1 });
+      return;
+    }
+    this.emit(
+      node.start,
+      this.isMultiline(consequent)
+        ? this.switchHeadEnd(consequent as SwitchExpression)
+        : node.end,
+      at.indent,
+      () => `${arrow} ${this.expression(consequent, at)}`,
+      consequent,
+    );
+  }
+
+  /** A statement printed on one line, apart from a multi-line tail. */
+  private simpleStatement(stmt: Statement, at: Layout): string {
+    switch (stmt.type) {
+      case 'VariableDeclaration':
+        return this.variableDeclaration(stmt, at);
+      case 'ExpressionStatement':
+        return this.expression(stmt.expression, at);
+      case 'ReturnStatement':
+        return stmt.argument
+          ? `return ${this.expression(stmt.argument, at)}`
+          : 'return';
+      case 'BreakStatement':
+        return 'break';
+      case 'ContinueStatement':
+        return 'continue';
+      case 'ImportStatement':
+        return `import ${stmt.source}${stmt.as ? ` as ${stmt.as}` : ''}`;
+      case 'FunctionDeclaration':
+        return `${this.functionHead(stmt, at)} => ${this.expression(stmt.body as Expression, at)}`;
+      case 'BlockStatement':
+        return this.statementList(stmt.body, at);
+      default:
+        throw new Error(`Cannot print ${stmt.type} on one line.`);
+    }
+  }
+
+  /**
+   * Comma-joined statements on one line (`var a = 0, var b = 1`). Each
+   * declaration keeps its own `var` / `varip`.
+   */
+  private statementList(statements: Statement[], at: Layout): string {
+    return statements.map((stmt) => this.simpleStatement(stmt, at)).join(', ');
+  }
+
+  private variableDeclaration(decl: VariableDeclaration, at: Layout): string {
+    const head = [
+      decl.export && 'export',
+      decl.kind !== 'let' && decl.kind,
+      decl.typeAnnotation && this.typeAnnotation(decl.typeAnnotation),
+      this.target(decl.id, at),
+    ]
+      .filter(Boolean)
+      .join(' ');
+    return decl.init ? `${head} = ${this.expression(decl.init, at)}` : head;
+  }
+
+  private functionHead(fn: FunctionDeclaration, at: Layout): string {
+    const params = fn.params.map((param, i) => {
+      const type = param.typeAnnotation
+        ? `${this.typeAnnotation(param.typeAnnotation)} `
+        : '';
+      const fallback = fn.defaults?.[i];
+      const value = fallback ? ` = ${this.expression(fallback, at)}` : '';
+      return `${type}${param.name}${value}`;
+    });
+    const modifiers = `${fn.export ? 'export ' : ''}${fn.isMethod ? 'method ' : ''}`;
+    return `${modifiers}${fn.id.name}(${params.join(', ')})`;
+  }
+
+  /** End of the `=>` that opens a multi-line function body. */
+  private arrowEnd(fn: FunctionDeclaration): number | undefined {
+    const after = Math.max(
+      fn.id.end ?? 0,
+      ...fn.params.map((param) => param.end ?? 0),
+      ...(fn.defaults ?? []).map((value) => value?.end ?? 0),
+    );
+    const arrow = this.source.indexOf('=>', after);
+    return arrow === -1 ? fn.end : arrow + 2;
+  }
+
+  private enumMember(member: EnumMember): string {
+    return member.title
+      ? `${member.id.name} = ${this.literal(member.title)}`
+      : member.id.name;
+  }
+
+  // ==========================================================================
+  // Expressions
+  // ==========================================================================
+
+  private expression(node: Expression, at: Layout): string {
+    switch (node.type) {
+      case 'Literal':
+        return this.literal(node);
+      case 'Identifier':
+        return node.name;
+      case 'ArrayExpression':
+        return `[${node.elements.map((element) => this.expression(element, at)).join(', ')}]`;
+      case 'BinaryExpression': {
+        const precedence = BINARY_PRECEDENCE[node.operator] ?? PRIMARY;
+        const left = this.operand(node.left, precedence, at);
+        const right = this.operand(node.right, precedence + 1, at);
+        return `${left} ${node.operator} ${right}`;
+      }
+      case 'UnaryExpression': {
+        const argument = this.operand(node.argument, UNARY, at);
+        if (node.operator === 'not') return `not ${argument}`;
+        // `-(-x)`: a bare `--x` reads as one operator.
+        return /^[-+]/.test(argument)
+          ? `${node.operator}(${argument})`
+          : `${node.operator}${argument}`;
+      }
+      case 'ConditionalExpression':
+        return `${this.operand(node.test, TERNARY + 1, at)} ? ${this.expression(node.consequent, at)} : ${this.expression(node.alternate, at)}`;
+      case 'AssignmentExpression':
+        return `${this.target(node.left, at)} ${node.operator} ${this.expression(node.right, at)}`;
+      case 'MemberExpression': {
+        const object = this.operand(node.object, POSTFIX, at);
+        return node.computed
+          ? `${object}[${this.expression(node.property, at)}]`
+          : `${object}.${this.expression(node.property, at)}`;
+      }
+      case 'CallExpression':
+        return this.call(node, at);
+      case 'SwitchExpression':
+        return this.switchExpression(node, at);
+    }
+  }
+
+  /** `node`, parenthesized when it binds looser than `minimum`. */
+  private operand(node: Expression, minimum: number, at: Layout): string {
+    const text = this.expression(node, at);
+    return precedenceOf(node) < minimum ? `(${text})` : text;
+  }
+
+  private call(node: CallExpression, at: Layout): string {
+    const callee = this.operand(node.callee, POSTFIX, at);
+    const typeArguments = node.typeArguments?.length
+      ? `<${node.typeArguments.map((type) => this.typeAnnotation(type)).join(', ')}>`
+      : '';
+    const args = node.arguments.map((arg) => this.expression(arg, at));
+    if (node === this.wrapped) {
+      const pad = `${INDENT.repeat(at.indent)}${CONTINUATION}`;
+      return `${callee}${typeArguments}(\n${args.map((arg) => `${pad}${arg}`).join(',\n')})`;
+    }
+    return `${callee}${typeArguments}(${args.join(', ')})`;
+  }
+
+  /**
+   * `switch` and `if` used as values. Both parse to a SwitchExpression;
+   * the source tells which one was written.
+   */
+  private switchExpression(node: SwitchExpression, at: Layout): string {
+    if (!this.isIfExpression(node)) {
+      const cases = this.capture(() =>
+        this.list(node.cases, { ...at, indent: at.indent + 1 }, (c, caseAt) =>
+          this.switchCase(c, caseAt),
+        ),
+      );
+      return [this.switchHead(node, at), ...cases].join('\n');
+    }
+
+    let text = '';
+    let afterBlock = false;
+    node.cases.forEach((c, i) => {
+      const keyword = i === 0 ? 'if' : c.test ? 'else if' : 'else';
+      const head = c.test
+        ? `${keyword} ${this.expression(c.test, at)}`
+        : keyword;
+      if (i > 0) text += afterBlock ? `\n${INDENT.repeat(at.indent)}` : ' ';
+      const { consequent } = c;
+      afterBlock = consequent.type === 'BlockStatement';
+      if (consequent.type !== 'BlockStatement') {
+        text += `${head} ${this.expression(consequent, at)}`;
+        return;
+      }
+      const body = this.capture(() =>
+        this.block(consequent, {
+          indent: at.indent + 1,
+          boundary: node.cases[i + 1]?.start ?? at.boundary,
+        }),
+      );
+      text += [head, ...body].join('\n');
+    });
+    return text;
+  }
+
+  private switchHead(
+    node: SwitchExpression | SwitchStatement,
+    at: Layout,
+  ): string {
+    const discriminant = node.discriminant
+      ? ` ${this.expression(node.discriminant, at)}`
+      : '';
+    return `switch${discriminant}`;
+  }
+
+  /** End of the first line of a multi-line `switch` or `if`. */
+  private switchHeadEnd(
+    node: SwitchExpression | SwitchStatement,
+  ): number | undefined {
+    if (node.type === 'SwitchExpression' && this.isIfExpression(node)) {
+      return node.cases[0]?.test?.end;
+    }
+    if (node.discriminant) return node.discriminant.end;
+    return node.start === undefined ? undefined : node.start + 'switch'.length;
+  }
+
+  private isIfExpression(node: SwitchExpression): boolean {
+    return (
+      !node.discriminant &&
+      node.start !== undefined &&
+      this.source.startsWith('if', node.start)
+    );
+  }
+
+  /** Whether `node` prints on several lines. */
+  private isMultiline(node: Expression): node is SwitchExpression {
+    if (node.type !== 'SwitchExpression') return false;
+    return (
+      !this.isIfExpression(node) ||
+      node.cases.some((c) => c.consequent.type === 'BlockStatement')
+    );
+  }
+
+  private target(
+    node: Identifier | Identifier[] | Expression,
+    at: Layout,
+  ): string {
+    return Array.isArray(node)
+      ? `[${node.map((id) => id.name).join(', ')}]`
+      : this.expression(node, at);
+  }
+
+  private literal(node: Literal): string {
+    if (node.kind !== 'string') return node.raw;
+    // Reprint strings as written, so escapes and quotes are kept.
+    if (node.start !== undefined && node.end !== undefined) {
+      return this.source.slice(node.start, node.end);
+    }
+    return JSON.stringify(node.value);
+  }
+
+  private typeAnnotation(type: TypeAnnotation): string {
+    const args = type.arguments?.length
+      ? `<${type.arguments.map((arg) => this.typeAnnotation(arg)).join(', ')}>`
+      : '';
+    const qualifier = type.qualifier ? `${type.qualifier} ` : '';
+    return `${qualifier}${type.name}${args}${type.isArray ? '[]' : ''}`;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function precedenceOf(node: Expression): number {
+  switch (node.type) {
+    case 'BinaryExpression':
+      return BINARY_PRECEDENCE[node.operator] ?? PRIMARY;
+    case 'UnaryExpression':
+      return UNARY;
+    case 'ConditionalExpression':
+      return TERNARY;
+    case 'AssignmentExpression':
+      return 0;
+    case 'CallExpression':
+    case 'MemberExpression':
+      return POSTFIX;
+    default:
+      return PRIMARY;
+  }
+}
+
+/**
+ * The value a one-line statement ends with: what a long line wraps,
+ * and where a multi-line `switch` or `if` value starts.
+ */
+function statementTail(stmt: Statement): Expression | undefined {
+  switch (stmt.type) {
+    case 'VariableDeclaration':
+      return stmt.init ?? undefined;
+    case 'ExpressionStatement':
+      return stmt.expression.type === 'AssignmentExpression'
+        ? stmt.expression.right
+        : stmt.expression;
+    case 'ReturnStatement':
+      return stmt.argument;
+    case 'FunctionDeclaration':
+      return stmt.body.type === 'BlockStatement' ? undefined : stmt.body;
+    default:
+      return undefined;
+  }
+}
@@ -5,9 +5,11 @@
  * This is a facade that delegates to specialized generators for cleaner separation.
  */
 
+import type { TypeCheckResult } from '../checker';
 import type { Program, Statement } from '../parser/ast';
 import { ExpressionGenerator } from './expression-generator';
 import { HelperUsage } from './helper-usage';
+import { extractLocationMarkers, type SourceMapping } from './source-map';
 import { StatementGenerator } from './statement-generator';
 
 // Re-export for backward compatibility
@@ -39,10 +41,33 @@ export class ASTGenerator {
 
   /**
    * Generate JavaScript code from a Pine Script AST Program.
+   * `typeCheck`, when the caller has already checked `node`, spares
+   * the generator checking it again.
    */
-  public generate(node: Program): string {
+  public generate(node: Program, typeCheck?: TypeCheckResult): string {
+    this.expressionGen.setProgram(node, typeCheck);
     return node.body
       .map((stmt: Statement) => this.statementGen.generateStatement(stmt))
       .join('\n');
   }
+
+  /**
+   * Generate JavaScript plus mappings from each generated line back to
+   * the Pine statement it came from. The code is identical to
+   * {@link generate}'s output.
+   */
+  public generateWithMappings(
+    node: Program,
+    typeCheck?: TypeCheckResult,
+  ): {
+    code: string;
+    mappings: SourceMapping[];
+  } {
+    this.statementGen.setEmitLocations(true);
+    try {
+      return extractLocationMarkers(this.generate(node, typeCheck));
+    } finally {
+      this.statementGen.setEmitLocations(false);
+    }
+  }
 }
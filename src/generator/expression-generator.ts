@@ -4,6 +4,11 @@
  * Handles generation of JavaScript expressions from Pine Script AST expression nodes.
  */
 
+import {
+  checkTypes,
+  type QualifiedType,
+  type TypeCheckResult,
+} from '../checker';
 import { toRenderableColor } from '../colors';
 import {
   ALL_UTILITY_MAPPINGS,
@@ -25,11 +30,19 @@ import type {
   IfStatement,
   Literal,
   MemberExpression,
+  Program,
   Statement,
   SwitchExpression,
   UnaryExpression,
 } from '../parser/ast';
-import { getDrawingFn, getInputFn } from '../registry';
+import {
+  callsStatefulFunction,
+  DEFAULT_PINE_VERSION,
+  type VersionSemantics,
+  versionSemantics,
+} from '../parser/version';
+import { walk } from '../parser/walker';
+import { getDrawingFn, getInputFn, getStrategyFn } from '../registry';
 import {
   type FunctionMapping,
   indent,
@@ -62,6 +75,13 @@ function isNamedArgument(
   );
 }
 
+function isPrimitive(
+  inferred: QualifiedType | undefined,
+  name: 'int' | 'bool',
+): boolean {
+  return inferred?.type.kind === 'primitive' && inferred.type.name === name;
+}
+
 const BUILTIN_SERIES_IDENTIFIERS = new Set([
   'open',
   'high',
@@ -74,6 +94,23 @@ const BUILTIN_SERIES_IDENTIFIERS = new Set([
   'time',
 ]);
 
+/**
+ * The built-in series a `request.security()` evaluator reads from its
+ * `sources` parameter, with their `_series_*` / `_getHistorical_*`
+ * forms. Calls such as `time("D")` keep the chart's function.
+ */
+const SECURITY_SOURCE_PATTERN =
+  /(?<![\w$.])(?:_getHistorical_(?:open|high|low|close|volume|hl2|hlc3|ohlc4|hlcc4|time)(?=\()|(?:_series_)?(?:open|high|low|close|volume|hl2|hlc3|ohlc4|hlcc4|time|bar_index)(?![\w$]|\s*\())/g;
+
+/**
+ * Strategy namespaces that are also a count: `strategy.closedtrades`
+ * on its own reads as `strategy.closedtrades.count`.
+ */
+const COUNTED_NAMESPACES = new Set([
+  'strategy.closedtrades',
+  'strategy.opentrades',
+]);
+
 const IMPLICIT_SERIES_BY_TA_CALL: Record<string, string> = {
   'ta.highest': 'context.new_var(high)',
   'ta.lowest': 'context.new_var(low)',
@@ -144,11 +181,36 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
    * `analyzeRequiredHelpers`.
    */
   public readonly helperUsage: HelperUsage;
+  /** Rules of the script's `//@version`; set by {@link setProgram}. */
+  private semantics: VersionSemantics = versionSemantics(DEFAULT_PINE_VERSION);
+  private userFunctions: ReadonlySet<string> = new Set();
+  private typeOf: (expr: Expression) => QualifiedType | undefined = () =>
+    undefined;
 
   constructor(helperUsage: HelperUsage = new HelperUsage()) {
     this.helperUsage = helperUsage;
   }
 
+  /**
+   * Select the version semantics of the program about to be generated.
+   * Expression types come from `typeCheck`, the program's own check;
+   * without one they are inferred on first use, since only a few
+   * version rules (const int division, `bool` history) depend on them.
+   */
+  public setProgram(program: Program, typeCheck?: TypeCheckResult): void {
+    this.semantics = versionSemantics(program.version);
+    this.userFunctions = new Set(
+      program.body.flatMap((stmt) =>
+        stmt.type === 'FunctionDeclaration' ? [stmt.id.name] : [],
+      ),
+    );
+    let types = typeCheck?.types;
+    this.typeOf = (expr) => {
+      types ??= checkTypes(program).types;
+      return types.get(expr);
+    };
+  }
+
   public setIndentLevel(level: number): void {
     this.indentLevel = level;
   }
@@ -225,13 +287,40 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
   }
 
   private generateBinaryExpression(expr: BinaryExpression): string {
+    const left = this.generateExpression(expr.left);
+    const right = this.generateExpression(expr.right);
     let op = expr.operator;
+
+    // Before v6 `and` / `or` evaluate both operands. That only shows
+    // when the right side keeps history, so only then is JS's
+    // short-circuit replaced by an eager form.
+    if (
+      (op === 'and' || op === 'or') &&
+      !this.semantics.lazyBooleanOperators &&
+      callsStatefulFunction(expr.right, this.userFunctions)
+    ) {
+      return `[${left}, ${right}].${op === 'and' ? 'every' : 'some'}(Boolean)`;
+    }
+    if (
+      op === '/' &&
+      this.semantics.constIntDivisionTruncates &&
+      this.isConstInt(expr.left) &&
+      this.isConstInt(expr.right)
+    ) {
+      return `Math.trunc(${left} / ${right})`;
+    }
+
     if (op === 'and') op = '&&';
     if (op === 'or') op = '||';
     if (op === '!=') op = '!==';
     if (op === '==') op = '===';
 
-    return `(${this.generateExpression(expr.left)} ${op} ${this.generateExpression(expr.right)})`;
+    return `(${left} ${op} ${right})`;
+  }
+
+  private isConstInt(expr: Expression): boolean {
+    const inferred = this.typeOf(expr);
+    return inferred?.qualifier === 'const' && isPrimitive(inferred, 'int');
   }
 
   private generateUnaryExpression(expr: UnaryExpression): string {
@@ -247,9 +336,17 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
   private generateCallExpression(expr: CallExpression): string {
     let callee = this.generateExpression(expr.callee as Expression);
     const pineCallee = callee;
+    // `strategy.*(..., when=cond)` runs only when `cond` holds; the
+    // argument itself is never passed through. v6 removed it, but a v6
+    // script that still passes one keeps the gate behind its PINE3003.
+    const when = pineCallee.startsWith('strategy.')
+      ? expr.arguments
+          .filter(isNamedArgument)
+          .find((arg) => arg.left.name === 'when')
+      : undefined;
     const normalizedArgs = this.normalizeCallArguments(
       pineCallee,
-      expr.arguments,
+      when ? expr.arguments.filter((arg) => arg !== when) : expr.arguments,
     );
 
     // Pine call syntax allows named arguments: `plot(close, color=color.blue)`.
@@ -267,8 +364,23 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
       isNamedArgument(a) ? (a as AssignmentExpression).right : a,
     );
     const args = runtimeArgExprs.map((a) => this.generateExpression(a));
+    if (pineCallee === 'request.security') {
+      const evaluator = this.generateSecurityEvaluator(
+        runtimeArgExprs[2],
+        args[2],
+      );
+      if (evaluator) args.push(evaluator);
+    }
 
-    const mapping = UNIFIED_FUNCTION_MAP.get(callee);
+    // `array.new<int>(3)` creates what `array.new_int(3)` does, with its
+    // default fill; element types without a `new_*` form (UDTs, maps)
+    // stay on the generic `array.new`.
+    const elementType = expr.typeArguments?.[0]?.name;
+    const typedNew =
+      callee === 'array.new' && elementType
+        ? UNIFIED_FUNCTION_MAP.get(`array.new_${elementType}`)
+        : undefined;
+    const mapping = typedNew ?? UNIFIED_FUNCTION_MAP.get(callee);
 
     if (mapping) {
       callee = mapping.stdName || mapping.jsName || callee;
@@ -293,7 +405,45 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
       }
     }
 
-    return `${callee}(${args.join(', ')})`;
+    const call = `${callee}(${args.join(', ')})`;
+    if (when) {
+      return `(${this.generateExpression(when.right)} ? ${call} : undefined)`;
+    }
+    return call;
+  }
+
+  /**
+   * `request.security()` also receives its expression as a function of
+   * the context and the built-in series it reads, which the runtime
+   * runs over another symbol's bars. An expression that calls the
+   * script's own functions gets none: those read the chart's series
+   * and context through their closures.
+   */
+  private generateSecurityEvaluator(
+    expr: Expression | undefined,
+    code: string | undefined,
+  ): string | null {
+    if (!expr || code === undefined) return null;
+    let callsUserFunction = false;
+    walk(expr, {
+      CallExpression: (call) => {
+        const callee = call.callee;
+        const name =
+          callee.type === 'Identifier'
+            ? callee.name
+            : callee.type === 'MemberExpression' &&
+                callee.property.type === 'Identifier'
+              ? callee.property.name
+              : '';
+        callsUserFunction ||= this.userFunctions.has(name);
+        return callsUserFunction ? false : undefined;
+      },
+    });
+    if (callsUserFunction) return null;
+    const sources = [...new Set(code.match(SECURITY_SOURCE_PATTERN))];
+    return sources.length > 0
+      ? `(context, { ${sources.join(', ')} }) => ${code}`
+      : `(context) => ${code}`;
   }
 
   /**
@@ -304,11 +454,15 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
    *   • `request.security` — runtime needs symbol/timeframe/expression
    *     at the first three positional slots
    *   • Drawing constructors (`box.new`, `line.new`, `label.new`,
-   *     `table.new`, `table.cell`) — runtime stubs and the host
-   *     VisualEventsRenderer read `args[i]` knowing it means a specific
-   *     Pine parameter; without reordering, named-arg scripts pass
-   *     bgcolor through the slot the runtime expects to hold
+   *     `polyline.new`, `table.new`, `table.cell`) — runtime stubs and
+   *     the host VisualEventsRenderer read `args[i]` knowing it means a
+   *     specific Pine parameter; without reordering, named-arg scripts
+   *     pass bgcolor through the slot the runtime expects to hold
    *     border_color, etc.
+   *   • `chart.point.*` — `new(time, index, price)` and its siblings
+   *     build points from positional slots.
+   *   • `strategy()` and the `strategy.*` order functions — the strategy
+   *     runtime reads `qty`, `limit`, `profit`, `loss`… by position.
    *
    * Reordering is local to these specific callees. Everything else
    * keeps the generic value-only named-arg emit (see `isNamedArgument`).
@@ -324,12 +478,21 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
     if (inputCanonicalOrder) {
       return this.normalizeByCanonicalOrder(args, inputCanonicalOrder);
     }
-    const [namespace, fn] = pineCallee.split('.');
+    const strategyCanonicalOrder = getStrategyFn(pineCallee)?.canonicalArgs;
+    if (strategyCanonicalOrder) {
+      return this.normalizeByCanonicalOrder(args, strategyCanonicalOrder);
+    }
+    // The namespace is everything before the last dot: `chart.point.new`
+    // belongs to `chart.point`.
+    const dot = pineCallee.lastIndexOf('.');
+    const namespace = pineCallee.slice(0, Math.max(0, dot));
+    const fn = pineCallee.slice(dot + 1);
     const drawingSpec =
       namespace && fn ? getDrawingFn(namespace, fn) : undefined;
-    const drawingCanonicalOrder = drawingSpec?.visualEventArgs
-      ? drawingSpec.canonicalArgs
-      : undefined;
+    const drawingCanonicalOrder =
+      drawingSpec?.visualEventArgs || namespace === 'chart.point'
+        ? drawingSpec?.canonicalArgs
+        : undefined;
     if (drawingCanonicalOrder) {
       return this.normalizeByCanonicalOrder(args, drawingCanonicalOrder);
     }
@@ -495,18 +658,35 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
   }
 
   public generateMemberExpression(expr: MemberExpression): string {
-    const object = this.generateExpression(expr.object);
+    const path = this.generateMemberPath(expr);
+    return COUNTED_NAMESPACES.has(path) ? `${path}.count` : path;
+  }
+
+  /** A member expression without the count rewrite, for use as an object. */
+  private generateMemberPath(expr: MemberExpression): string {
+    const object =
+      expr.object.type === 'MemberExpression' && !expr.object.computed
+        ? this.generateMemberPath(expr.object)
+        : this.generateExpression(expr.object);
 
     if (expr.computed) {
       const property = this.generateExpression(expr.property);
-      if (expr.object.type === 'Identifier') {
-        return `_getHistorical_${object}(${property})`;
-      }
       // Pine history operator can target arbitrary expressions:
       //   ta.sma(close, 14)[1]
       //   (high + low)[1]
       // For non-identifier expressions materialize a series on-the-fly.
-      return `context.new_var(${object}).get(${property})`;
+      const history =
+        expr.object.type === 'Identifier'
+          ? `_getHistorical_${object}(${property})`
+          : `context.new_var(${object}).get(${property})`;
+      // v6 `bool` has no `na`: history before the first bar reads `false`.
+      if (
+        !this.semantics.naBooleans &&
+        isPrimitive(this.typeOf(expr), 'bool')
+      ) {
+        return `!!${history}`;
+      }
+      return history;
     }
 
     const property = (expr.property as Identifier).name;
@@ -660,7 +840,8 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
     }
 
     if (lastStmt.type === 'ExpressionStatement') {
-      result += `${indent(this.indentLevel)}return ${this.generateExpression(lastStmt.expression)};\n`;
+      const returned = `${indent(this.indentLevel)}return ${this.generateExpression(lastStmt.expression)};`;
+      result += `${this.statementGen ? this.statementGen.markLocation(lastStmt, returned) : returned}\n`;
     } else if (lastStmt.type === 'ReturnStatement') {
       if (this.statementGen) {
         result += `${this.statementGen.generateStatement(lastStmt)}\n`;
@@ -740,4 +921,5 @@ export class ExpressionGenerator implements ExpressionGeneratorInterface {
  */
 export interface StatementGeneratorLike {
   generateStatement(stmt: Statement): string;
+  markLocation(node: ASTNode, code: string): string;
 }
@@ -96,7 +96,8 @@ export function isStatement(node: Statement | Expression): node is Statement {
     (node.type.endsWith('Statement') ||
       node.type === 'VariableDeclaration' ||
       node.type === 'FunctionDeclaration' ||
-      node.type === 'TypeDefinition')
+      node.type === 'TypeDefinition' ||
+      node.type === 'EnumDeclaration')
   );
 }
 
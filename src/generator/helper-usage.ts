@@ -156,7 +156,7 @@ const BODY_SCAN_PATTERNS: Record<HelperCategory, RegExp> = {
   session:
     /_isInSession\(|_isMarketSession\(|_isPremarket\(|_isPostmarket\(|_getTimeClose\(|_getTradingDayTime\(/,
   stdplus: /\bStdPlus\./,
-  array: /\b_array[A-Z]/,
+  array: /\b_array[A-Z]|\bStdPlus\.pivot_point_levels\(/,
   map: /\b_map[A-Z]/,
   matrix: /\b_matrix[A-Z]/,
   color: /\b_color[A-Z]/,
@@ -166,6 +166,14 @@ const BODY_SCAN_PATTERNS: Record<HelperCategory, RegExp> = {
     /_pineVar\(|_pineVarip\(|_pineSetVar\(|_pineSetVarip\(|_pineScopeKey\(|_pineState\.methodImpls/,
 };
 
+/**
+ * Helpers that build their results with another category's helpers:
+ * `ta.pivot_point_levels` hands its levels out as a Pine array.
+ */
+const HELPER_DEPENDENCIES: Record<string, HelperCategory[]> = {
+  'StdPlus.pivot_point_levels': ['array'],
+};
+
 /**
  * Accumulating set of helper categories used during code generation.
  * Created fresh per transpilation; mutated by the generators at every
@@ -217,6 +225,9 @@ export class HelperUsage {
       return false;
     }
     this.categories.add(category);
+    for (const dependency of HELPER_DEPENDENCIES[name] ?? []) {
+      this.categories.add(dependency);
+    }
     return true;
   }
 
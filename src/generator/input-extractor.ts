@@ -5,7 +5,12 @@
  */
 
 import { applyTransparency, toHexByte, toRenderableColor } from '../colors';
-import type { CallExpression, Expression } from '../parser/ast';
+import type {
+  CallExpression,
+  EnumDeclaration,
+  EnumMember,
+  Expression,
+} from '../parser/ast';
 import { COLOR_MAP, type ParsedInput } from '../types';
 import {
   getArg,
@@ -19,6 +24,8 @@ export type ColorIdentifierResolver = (
   name: string,
 ) => string | null | undefined;
 
+export type EnumResolver = (name: string) => EnumDeclaration | undefined;
+
 export function withTransparency(
   color: string,
   transparency: number | null,
@@ -90,11 +97,16 @@ export function getColorValue(
 export class InputExtractor {
   private inputCount = 0;
   private resolveColorIdentifier?: ColorIdentifierResolver;
+  private resolveEnum?: EnumResolver;
 
   public setColorResolver(resolver: ColorIdentifierResolver): void {
     this.resolveColorIdentifier = resolver;
   }
 
+  public setEnumResolver(resolver: EnumResolver): void {
+    this.resolveEnum = resolver;
+  }
+
   /**
    * Extract input from a CallExpression
    */
@@ -106,6 +118,7 @@ export class InputExtractor {
 
     let type: ParsedInput['type'] = 'float';
     let defval: number | boolean | string = 0;
+    let options: string[] | undefined;
 
     // Infer type and value based on function name
     if (fnName === 'input.int') {
@@ -135,6 +148,12 @@ export class InputExtractor {
     } else if (fnName === 'input.time') {
       type = 'integer';
       defval = getNumberValue(defvalExpr) ?? Date.now();
+    } else if (fnName === 'input.enum') {
+      // Enum inputs surface as string options holding the member titles.
+      type = 'string';
+      const choice = this.getEnumChoice(defvalExpr);
+      defval = choice?.title ?? '';
+      options = this.getEnumOptions(getArg(args, 2, 'options'), choice?.enum);
     } else if (fnName === 'input.symbol') {
       type = 'string';
       defval = getStringValue(defvalExpr) ?? '';
@@ -159,8 +178,8 @@ export class InputExtractor {
     const max = getNumberValue(getArg(args, 3, 'maxval'));
 
     // Options
-    let options: string[] | undefined;
-    const optionsExpr = getArg(args, 4, 'options');
+    const optionsExpr =
+      fnName === 'input.enum' ? null : getArg(args, 4, 'options');
     if (optionsExpr && optionsExpr.type === 'ArrayExpression') {
       options = optionsExpr.elements
         .map((e: Expression) => (e.type === 'Literal' ? String(e.value) : null))
@@ -178,6 +197,40 @@ export class InputExtractor {
     };
   }
 
+  /** The enum and member title an `Enum.member` expression names. */
+  private getEnumChoice(
+    expr: Expression | null,
+  ): { enum: EnumDeclaration; title: string } | undefined {
+    if (
+      expr?.type !== 'MemberExpression' ||
+      expr.object.type !== 'Identifier' ||
+      expr.property.type !== 'Identifier'
+    ) {
+      return undefined;
+    }
+    const decl = this.resolveEnum?.(expr.object.name);
+    const memberName = expr.property.name;
+    const member = decl?.members.find((m) => m.id.name === memberName);
+    if (!decl || !member) return undefined;
+    return { enum: decl, title: enumMemberTitle(member) };
+  }
+
+  /**
+   * Titles offered by an enum input: the explicit `options` list when
+   * given, otherwise every member of the enum.
+   */
+  private getEnumOptions(
+    optionsExpr: Expression | null,
+    decl: EnumDeclaration | undefined,
+  ): string[] | undefined {
+    if (optionsExpr?.type === 'ArrayExpression') {
+      return optionsExpr.elements
+        .map((e) => this.getEnumChoice(e)?.title)
+        .filter((t): t is string => t !== undefined);
+    }
+    return decl?.members.map(enumMemberTitle);
+  }
+
   /**
    * Reset the input counter (useful for testing)
    */
@@ -192,3 +245,7 @@ export class InputExtractor {
     return this.inputCount;
   }
 }
+
+function enumMemberTitle(member: EnumMember): string {
+  return member.title ? String(member.title.value) : member.id.name;
+}
@@ -12,6 +12,7 @@
 
 import type {
   CallExpression,
+  EnumDeclaration,
   Expression,
   Identifier,
   MemberExpression,
@@ -19,6 +20,7 @@ import type {
   Statement,
 } from '../parser/ast';
 import type {
+  ParsedAlertCondition,
   ParsedBgcolor,
   ParsedInput,
   ParsedPlot,
@@ -73,12 +75,6 @@ const UNSUPPORTED_FUNCTIONS = new Set([
   'request.splits',
   'ticker.new',
   'ticker.modify',
-  'alert',
-  'alertcondition',
-  'runtime.error',
-  'log.info',
-  'log.warning',
-  'log.error',
 ]);
 
 /**
@@ -119,9 +115,12 @@ export class MetadataVisitor {
   public inputs: ParsedInput[] = [];
   public plots: ParsedPlot[] = [];
   public bgcolors: ParsedBgcolor[] = [];
+  public alertConditions: ParsedAlertCondition[] = [];
   public name: string = 'Untitled Script';
   public shortName: string = 'Untitled';
   public overlay: boolean = false;
+  /** Which declaration statement the script opens with. */
+  public scriptType: 'indicator' | 'strategy' | 'library' = 'indicator';
   public warnings: ParseWarning[] = [];
 
   // Tracking usage
@@ -137,6 +136,9 @@ export class MetadataVisitor {
   // unresolved (caller falls back to the bullet glyph).
   private stringVariables: Map<string, string> = new Map();
 
+  // Enum declarations by name, so `input.enum` can list member titles.
+  private enums: Map<string, EnumDeclaration> = new Map();
+
   // Track session membership variables: varName -> SessionVariable info
   public sessionVariables: Map<string, SessionVariable> = new Map();
 
@@ -171,6 +173,7 @@ export class MetadataVisitor {
     this.inputExtractor.setColorResolver((name) =>
       this.resolveTrackedColorDefault(name),
     );
+    this.inputExtractor.setEnumResolver((name) => this.enums.get(name));
     this.visitStatements(node.body);
   }
 
@@ -213,6 +216,9 @@ export class MetadataVisitor {
           this.functionDepth -= 1;
         }
         break;
+      case 'EnumDeclaration':
+        this.enums.set(stmt.name, stmt);
+        break;
       case 'BlockStatement':
         this.visitStatements(stmt.body);
         break;
@@ -346,7 +352,11 @@ export class MetadataVisitor {
     this.checkFunctionSupport(name, expr);
 
     if (['indicator', 'study', 'strategy'].includes(name)) {
+      if (name === 'strategy') this.scriptType = 'strategy';
       this.extractIndicatorMeta(expr);
+    } else if (name === 'library') {
+      this.scriptType = 'library';
+      this.extractLibraryMeta(expr);
     } else if (name.startsWith('input')) {
       const input = this.inputExtractor.extractInput(expr, name);
       input.id = `in_${this.inputs.length}`;
@@ -373,6 +383,12 @@ export class MetadataVisitor {
       this.plots.push(plot);
     } else if (name === 'bgcolor') {
       this.extractBgcolor(expr);
+    } else if (name === 'alertcondition') {
+      this.alertConditions.push({
+        id: `alertcondition_${this.alertConditions.length}`,
+        title: getStringValue(getArg(expr.arguments, 1, 'title')) ?? '',
+        message: getStringValue(getArg(expr.arguments, 2, 'message')) ?? '',
+      });
     }
   }
 
@@ -904,4 +920,18 @@ export class MetadataVisitor {
     const overlay = getBooleanValue(getArg(args, 2, 'overlay'));
     if (overlay !== null) this.overlay = overlay;
   }
+
+  /** `library(title, overlay)`: a library has no short title. */
+  private extractLibraryMeta(expr: CallExpression): void {
+    const args = expr.arguments;
+
+    const title = getStringValue(getArg(args, 0, 'title'));
+    if (title) {
+      this.name = title;
+      this.shortName = title;
+    }
+
+    const overlay = getBooleanValue(getArg(args, 1, 'overlay'));
+    if (overlay !== null) this.overlay = overlay;
+  }
 }
@@ -0,0 +1,314 @@
+/**
+ * Source Maps
+ *
+ * Links generated JavaScript back to the Pine source. The generators
+ * build code by string concatenation, so positions in the final output
+ * are unknown while a statement is being emitted. Instead, when source
+ * maps are requested, the statement generator wraps each located
+ * statement in a pair of NUL-delimited markers; {@link extractLocationMarkers}
+ * strips them from the finished body and turns their offsets into
+ * mappings. NUL never survives into real generated code (string
+ * literals are emitted with `JSON.stringify`, which escapes it).
+ *
+ * Mappings are line-oriented: every generated line inside a
+ * statement's expansion maps to that statement's Pine position, so a
+ * stack frame anywhere in a multi-line lowering (loop guards, `var`
+ * bookkeeping, UDT classes) still resolves to the Pine line.
+ */
+
+import type { SourceLocation, SourcePosition } from '../parser/ast';
+import type { PineSourceMap } from '../types';
+
+/**
+ * One decoded mapping segment. All four fields are 0-based, as in the
+ * source map v3 spec.
+ */
+export interface SourceMapping {
+  generatedLine: number;
+  generatedColumn: number;
+  sourceLine: number;
+  sourceColumn: number;
+}
+
+// biome-ignore lint/suspicious/noControlCharactersInRegex: NUL is the marker delimiter
+const MARKER_PATTERN = /\u0000(?:(\d+):(\d+)|\/)\u0000/g;
+
+/** Closes the range opened by the last start marker. */
+const LOCATION_END_MARKER = '\u0000/\u0000';
+
+/** Opens a range that maps to `loc.start`. */
+function locationStartMarker(loc: SourceLocation): string {
+  return `\u0000${loc.start.line}:${loc.start.column}\u0000`;
+}
+
+/**
+ * Wrap generated code for `loc` in location markers. The start marker
+ * goes after any leading indentation so callers that `trim()` the
+ * result (the `else if` chain) keep working.
+ */
+export function wrapWithLocationMarkers(
+  code: string,
+  loc: SourceLocation,
+): string {
+  const indentLength = code.length - code.trimStart().length;
+  return `${code.slice(0, indentLength)}${locationStartMarker(loc)}${code.slice(indentLength)}${LOCATION_END_MARKER}`;
+}
+
+/**
+ * Strip location markers from `marked` and return the clean code plus
+ * a mapping segment at the start of each marked range, at column 0 of
+ * every following line inside it, and where an enclosing range resumes
+ * after a nested one closes.
+ */
+export function extractLocationMarkers(marked: string): {
+  code: string;
+  mappings: SourceMapping[];
+} {
+  const events: { offset: number; position: SourcePosition | null }[] = [];
+  let code = '';
+  let last = 0;
+  for (const match of marked.matchAll(MARKER_PATTERN)) {
+    code += marked.slice(last, match.index);
+    events.push({
+      offset: code.length,
+      position:
+        match[1] === undefined
+          ? null
+          : { line: Number(match[1]), column: Number(match[2]) },
+    });
+    last = (match.index ?? 0) + match[0].length;
+  }
+  code += marked.slice(last);
+
+  const mappings: SourceMapping[] = [];
+  const emit = (line: number, column: number, position: SourcePosition) => {
+    const segment: SourceMapping = {
+      generatedLine: line,
+      generatedColumn: column,
+      sourceLine: position.line - 1,
+      sourceColumn: position.column - 1,
+    };
+    const previous = mappings[mappings.length - 1];
+    if (
+      previous &&
+      previous.generatedLine === line &&
+      previous.generatedColumn === column
+    ) {
+      mappings[mappings.length - 1] = segment;
+    } else {
+      mappings.push(segment);
+    }
+  };
+
+  const stack: SourcePosition[] = [];
+  let line = 0;
+  let lineStart = 0;
+  let next = 0;
+  for (let i = 0; i <= code.length; i++) {
+    while (next < events.length && events[next].offset === i) {
+      const { position } = events[next++];
+      if (position) {
+        stack.push(position);
+        emit(line, i - lineStart, position);
+      } else {
+        stack.pop();
+        const resumed = stack[stack.length - 1];
+        if (resumed && i < code.length && code[i] !== '\n') {
+          emit(line, i - lineStart, resumed);
+        }
+      }
+    }
+    if (code[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+      const enclosing = stack[stack.length - 1];
+      if (enclosing) emit(line, 0, enclosing);
+    }
+  }
+
+  return { code, mappings };
+}
+
+/**
+ * Shift mappings for code that was embedded `lines` lines down and
+ * indented by `columns` characters on every line.
+ */
+export function offsetMappings(
+  mappings: SourceMapping[],
+  lines: number,
+  columns = 0,
+): SourceMapping[] {
+  return mappings.map((m) => ({
+    ...m,
+    generatedLine: m.generatedLine + lines,
+    generatedColumn: m.generatedColumn + columns,
+  }));
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+const BASE64_DIGITS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let out = '';
+  do {
+    let digit = vlq & 0b11111;
+    vlq >>>= 5;
+    if (vlq > 0) digit |= 0b100000;
+    out += BASE64_DIGITS[digit];
+  } while (vlq > 0);
+  return out;
+}
+
+function decodeVlqSegment(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+  for (const char of segment) {
+    const digit = BASE64_DIGITS.indexOf(char);
+    if (digit < 0) {
+      throw new Error(`Invalid base64 VLQ character: '${char}'`);
+    }
+    value += (digit & 0b11111) << shift;
+    if (digit & 0b100000) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+  return values;
+}
+
+/** Encode sorted mappings for a single source into a v3 `mappings` string. */
+export function encodeMappings(mappings: SourceMapping[]): string {
+  const lines: string[][] = [];
+  let previousSourceLine = 0;
+  let previousSourceColumn = 0;
+  let previousColumn = 0;
+  let currentLine = -1;
+  for (const m of mappings) {
+    while (currentLine < m.generatedLine) {
+      lines.push([]);
+      currentLine++;
+      previousColumn = 0;
+    }
+    // The source-index field is always `A`: a single source at index
+    // 0, so both its absolute value and every delta are zero.
+    lines[currentLine].push(
+      encodeVlq(m.generatedColumn - previousColumn) +
+        'A' +
+        encodeVlq(m.sourceLine - previousSourceLine) +
+        encodeVlq(m.sourceColumn - previousSourceColumn),
+    );
+    previousColumn = m.generatedColumn;
+    previousSourceLine = m.sourceLine;
+    previousSourceColumn = m.sourceColumn;
+  }
+  return lines.map((segments) => segments.join(',')).join(';');
+}
+
+/** Decode a v3 `mappings` string. Segments without a source are skipped. */
+export function decodeMappings(encoded: string): SourceMapping[] {
+  const mappings: SourceMapping[] = [];
+  let sourceLine = 0;
+  let sourceColumn = 0;
+  encoded.split(';').forEach((lineText, generatedLine) => {
+    let generatedColumn = 0;
+    for (const segment of lineText.split(',')) {
+      if (!segment) continue;
+      const fields = decodeVlqSegment(segment);
+      generatedColumn += fields[0];
+      if (fields.length < 4) continue;
+      sourceLine += fields[2];
+      sourceColumn += fields[3];
+      mappings.push({
+        generatedLine,
+        generatedColumn,
+        sourceLine,
+        sourceColumn,
+      });
+    }
+  });
+  return mappings;
+}
+
+/** Options for {@link createSourceMap}. */
+export interface CreateSourceMapOptions {
+  /** Name of the generated file (`file` field). */
+  file?: string;
+  /** Name the Pine source is listed under in `sources`. */
+  sourceFileName: string;
+  /** Pine source text, embedded as `sourcesContent` when provided. */
+  sourceContent?: string;
+}
+
+/** Build a v3 source map object from decoded mappings. */
+export function createSourceMap(
+  mappings: SourceMapping[],
+  options: CreateSourceMapOptions,
+): PineSourceMap {
+  return {
+    version: 3,
+    ...(options.file ? { file: options.file } : {}),
+    sources: [options.sourceFileName],
+    ...(options.sourceContent !== undefined
+      ? { sourcesContent: [options.sourceContent] }
+      : {}),
+    names: [],
+    mappings: encodeMappings(mappings),
+  };
+}
+
+/**
+ * Resolve a generated position to the Pine position it came from.
+ * Takes and returns 1-based lines and columns — the convention of both
+ * V8 stack frames and the AST's {@link SourcePosition} — and returns
+ * `null` when the line carries no mapping.
+ */
+export function originalPositionFor(
+  map: PineSourceMap,
+  generated: SourcePosition,
+): SourcePosition | null {
+  return lookupMapping(decodeMappings(map.mappings), generated);
+}
+
+/**
+ * {@link originalPositionFor} over already-decoded, sorted mappings —
+ * for callers that resolve many positions against the same map.
+ */
+export function lookupMapping(
+  mappings: SourceMapping[],
+  generated: SourcePosition,
+): SourcePosition | null {
+  const line = generated.line - 1;
+  const column = generated.column - 1;
+  let best: SourceMapping | null = null;
+  for (const m of mappings) {
+    if (m.generatedLine < line) continue;
+    if (m.generatedLine > line || m.generatedColumn > column) break;
+    best = m;
+  }
+  return best
+    ? { line: best.sourceLine + 1, column: best.sourceColumn + 1 }
+    : null;
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/** `//# sourceMappingURL=` comment embedding `map` as a data URL. */
+export function inlineSourceMapComment(map: PineSourceMap): string {
+  return `//# sourceMappingURL=data:application/json;charset=utf-8;base64,${toBase64(JSON.stringify(map))}`;
+}
@@ -5,8 +5,10 @@
  */
 
 import type {
+  ASTNode,
   AssignmentExpression,
   BlockStatement,
+  EnumDeclaration,
   Expression,
   ForInStatement,
   ForStatement,
@@ -27,6 +29,7 @@ import {
   MAX_LOOP_ITERATIONS,
   sanitizeIdentifier,
 } from './generator-utils';
+import { wrapWithLocationMarkers } from './source-map';
 
 /**
  * Interface for statement generation, allowing dependency injection
@@ -36,6 +39,7 @@ export interface StatementGeneratorInterface {
   generateStatement(stmt: Statement): string;
   generateBlockStatement(stmt: BlockStatement): string;
   generateStatementOrBlock(stmt: Statement | Expression): string;
+  markLocation(node: ASTNode, code: string): string;
 }
 
 /**
@@ -48,6 +52,7 @@ export class StatementGenerator implements StatementGeneratorInterface {
   private historicalVars: Set<string>;
   private expressionGen: ExpressionGeneratorInterface;
   private functionScopeStack: Array<{ id: string; keyVar: string }> = [];
+  private emitLocations = false;
 
   constructor(
     historicalVars: Set<string>,
@@ -65,7 +70,25 @@ export class StatementGenerator implements StatementGeneratorInterface {
     return this.indentLevel;
   }
 
+  /**
+   * Wrap every located statement in source-location markers (see
+   * `source-map.ts`). Off by default: marked output is only valid
+   * after `extractLocationMarkers` has stripped it.
+   */
+  public setEmitLocations(enabled: boolean): void {
+    this.emitLocations = enabled;
+  }
+
+  public markLocation(node: ASTNode, code: string): string {
+    if (!this.emitLocations || !node.loc) return code;
+    return wrapWithLocationMarkers(code, node.loc);
+  }
+
   public generateStatement(stmt: Statement): string {
+    return this.markLocation(stmt, this.generateStatementCode(stmt));
+  }
+
+  private generateStatementCode(stmt: Statement): string {
     switch (stmt.type) {
       case 'VariableDeclaration':
         return this.generateVariableDeclaration(stmt);
@@ -93,6 +116,8 @@ export class StatementGenerator implements StatementGeneratorInterface {
         return this.generateSwitchStatement(stmt);
       case 'TypeDefinition':
         return this.generateTypeDefinition(stmt);
+      case 'EnumDeclaration':
+        return this.generateEnumDeclaration(stmt);
       case 'ImportStatement':
         return this.generateImportStatement(stmt as ImportStatement);
       default:
@@ -304,6 +329,24 @@ export class StatementGenerator implements StatementGeneratorInterface {
     return `${indent(this.indentLevel)}var ${typeCtor} = class ${name} {\n${indent(this.indentLevel, 1)}constructor(${paramsWithDefaults}) {\n${indent(this.indentLevel, 2)}${constructorBody.trim()}\n${indent(this.indentLevel, 1)}}\n${indent(this.indentLevel, 1)}static new(...args) { return new ${typeCtor}(...args); }\n${indent(this.indentLevel)}};\n${indent(this.indentLevel)}${prefix}var ${name};\n${indent(this.indentLevel)}if (typeof ${name} === 'function') {\n${indent(this.indentLevel, 1)}if (typeof ${name}.new !== 'function') {\n${indent(this.indentLevel, 2)}${name}.new = (...args) => new ${typeCtor}(...args);\n${indent(this.indentLevel, 1)}}\n${indent(this.indentLevel)}} else {\n${indent(this.indentLevel, 1)}${name} = ${typeCtor};\n${indent(this.indentLevel)}}`;
   }
 
+  /**
+   * An enum becomes a frozen object of frozen members. Members compare
+   * by identity (`==` emits `===`), and `toString()` yields the title so
+   * `str.tostring(Mode.fast)` prints what the script's author wrote.
+   */
+  private generateEnumDeclaration(stmt: EnumDeclaration): string {
+    const name = sanitizeIdentifier(stmt.name);
+    const prefix = stmt.export ? 'export ' : '';
+    const members = stmt.members.map((member) => {
+      const memberName = member.id.name;
+      const title = member.title ? String(member.title.value) : memberName;
+      return `${indent(this.indentLevel, 1)}${memberName}: Object.freeze({ name: ${JSON.stringify(memberName)}, title: ${JSON.stringify(title)}, toString() { return this.title; }, get members() { return Object.values(${name}); } }),`;
+    });
+    return `${indent(this.indentLevel)}${prefix}var ${name} = Object.freeze({
+${members.join('\n')}
+${indent(this.indentLevel)}});`;
+  }
+
   private generateForStatement(stmt: ForStatement): string {
     // Extract the loop variable name regardless of whether `stmt.init`
     // is a VariableDeclaration (`var i = 0`) or AssignmentExpression
@@ -475,7 +518,11 @@ export class StatementGenerator implements StatementGeneratorInterface {
         );
       } else {
         this.indentLevel++;
-        body = `{\n${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(stmt.body as Expression)};\n${indent(this.indentLevel, -1)}}`;
+        const returned = this.markLocation(
+          stmt.body,
+          `${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(stmt.body as Expression)};`,
+        );
+        body = `{\n${returned}\n${indent(this.indentLevel, -1)}}`;
       }
     } finally {
       if (needsPersistentScope) {
@@ -545,7 +592,10 @@ export class StatementGenerator implements StatementGeneratorInterface {
       const isLast = i === statements.length - 1;
       if (isLast && s.type === 'ExpressionStatement') {
         lines.push(
-          `${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(s.expression)};`,
+          this.markLocation(
+            s,
+            `${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(s.expression)};`,
+          ),
         );
       } else if (isLast && s.type === 'SwitchStatement') {
         // Pine allows a tail-position `switch` in function bodies and
@@ -556,7 +606,10 @@ export class StatementGenerator implements StatementGeneratorInterface {
           type: 'SwitchExpression',
         };
         lines.push(
-          `${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(switchExpr)};`,
+          this.markLocation(
+            s,
+            `${indent(this.indentLevel)}return ${this.expressionGen.generateExpression(switchExpr)};`,
+          ),
         );
       } else {
         lines.push(this.generateStatement(s));
@@ -7,9 +7,27 @@
  * Reference: https://example.com/charting-library-docs/latest/custom_studies/
  */
 
+import {
+  type FunctionSignature,
+  formatQualifiedType,
+  type PineSymbol,
+  type PineType,
+  type QualifiedType,
+  type Qualifier,
+  type ScopeKind,
+  type ScopeResolution,
+  type SymbolKind,
+  type SymbolReference,
+  type SymbolScope,
+  SymbolTable,
+  type TypeCheckResult,
+  type UdtInfo,
+} from './checker';
 import { withCspEvalHint } from './csp-errors';
 import { attachPineJsBody, generateStandaloneFactory } from './factory';
+import { type FormatOptions, formatPineScript } from './formatter';
 import { HelperUsage } from './generator/helper-usage';
+import { originalPositionFor } from './generator/source-map';
 import {
   getAllPineFunctionNames,
   getMappingStats,
@@ -18,29 +36,103 @@ import {
   TA_FUNCTION_MAPPINGS,
   TIME_FUNCTION_MAPPINGS,
 } from './mappings';
-import { Lexer, Parser } from './parser';
 import {
-  buildStandaloneFactoryCode,
+  DEFAULT_PINE_VERSION,
+  type Diagnostic,
+  DiagnosticCode,
+  type DiagnosticSeverity,
+  formatDiagnostic,
+  type VersionSemantics,
+  versionSemantics,
+} from './parser';
+import {
+  type AnyNode,
+  type AstVisitor,
+  buildStandaloneFactoryWithSourceMap,
+  checkTypes,
   compile,
+  emitLibraryModule,
   extractMetadata,
+  factorySourceMapOptions,
   generateBody,
+  generateBodyWithMappings,
+  getChildNodes,
+  type LibraryModule,
+  type LibraryResolver,
+  type LinkResult,
+  linkLibraries,
+  type NodeOfType,
   MAX_INPUT_SIZE as PIPELINE_MAX_INPUT_SIZE,
   parse,
+  parseWithDiagnostics,
   buildFactory as pipelineBuildFactory,
+  resolveScopes,
+  type SourceMapOption,
+  type UpgradeResult,
+  upgradeToV5,
   validateInputSize,
+  walk,
 } from './pipeline';
+import {
+  formatRunLogs,
+  formatRunOutput,
+  type OhlcvBar,
+  parseOhlcv,
+  parseOhlcvCsv,
+  parseOhlcvJson,
+  RUN_OUTPUT_FORMATS,
+  type RunBarRecord,
+  type RunError,
+  type RunOutputFormat,
+  type RunScriptOptions,
+  type RunScriptResult,
+  runScript,
+} from './runner';
+import {
+  type AlertEvent,
+  type AlertFrequency,
+  type AlertRuntime,
+  createAlertRuntime,
+  createLogRuntime,
+  createStd,
+  createStrategyRuntime,
+  type DrawingVisualEvent,
+  isPineRuntimeError,
+  type LogLevel,
+  type LogRecord,
+  type LogRuntime,
+  PineRuntimeError,
+  type PineStackFrame,
+  RuntimeErrorCode,
+  type RuntimeErrorCodeValue,
+  type StdBar,
+  type StdBarFeed,
+  type StrategyBar,
+  type StrategyEquityPoint,
+  type StrategyNamespace,
+  type StrategyReport,
+  type StrategyRuntime,
+  type StrategyTrade,
+} from './runtime';
 import type {
   ComparisonFunctionMapping,
   IndicatorFactory,
+  IndicatorRuntimeOptions,
   MultiOutputFunctionMapping,
   ParsedFunction,
   ParsedIndicator,
   ParsedInput,
   ParsedPlot,
   ParsedVariable,
+  PineJSStdLibrary,
+  PineSourceMap,
+  RuntimeContext,
+  SecurityBar,
+  SecurityDataProvider,
   TAFunctionMapping,
   TimeFunctionMapping,
   TranspilerRuntimeError,
+  TranspileToLibraryModuleResult,
   TranspileToPineJSResult,
   TranspileToStandaloneFactoryResult,
 } from './types';
@@ -51,41 +143,126 @@ import { COLOR_MAP, PRICE_SOURCES } from './types';
 // ============================================================================
 
 export type {
+  AlertEvent,
+  AlertFrequency,
+  AlertRuntime,
+  AnyNode,
+  AstVisitor,
   ComparisonFunctionMapping,
+  Diagnostic,
+  DiagnosticSeverity,
+  DrawingVisualEvent,
+  FormatOptions,
+  FunctionSignature,
   IndicatorFactory,
+  IndicatorRuntimeOptions,
+  LibraryModule,
+  LibraryResolver,
+  LinkResult,
+  LogLevel,
+  LogRecord,
+  LogRuntime,
   MultiOutputFunctionMapping,
+  NodeOfType,
+  OhlcvBar,
   ParsedFunction,
   ParsedIndicator,
   ParsedInput,
   ParsedPlot,
   ParsedVariable,
+  PineJSStdLibrary,
+  PineSourceMap,
+  PineStackFrame,
+  PineSymbol,
+  PineType,
+  QualifiedType,
+  Qualifier,
+  RunBarRecord,
+  RunError,
+  RunOutputFormat,
+  RunScriptOptions,
+  RunScriptResult,
+  RuntimeContext,
+  RuntimeErrorCodeValue,
+  ScopeKind,
+  ScopeResolution,
+  SecurityBar,
+  SecurityDataProvider,
+  SourceMapOption,
+  StdBar,
+  StdBarFeed,
+  StrategyBar,
+  StrategyEquityPoint,
+  StrategyNamespace,
+  StrategyReport,
+  StrategyRuntime,
+  StrategyTrade,
+  SymbolKind,
+  SymbolReference,
+  SymbolScope,
   TAFunctionMapping,
   TimeFunctionMapping,
   TranspilerRuntimeError,
+  TranspileToLibraryModuleResult,
   TranspileToPineJSResult,
   TranspileToStandaloneFactoryResult,
+  TypeCheckResult,
+  UdtInfo,
+  UpgradeResult,
+  VersionSemantics,
 };
 
 export {
   COLOR_MAP,
   // Pipeline stages — exposed so external tooling (LSPs, linters,
   // custom pipelines) can compose stages without re-wiring them.
+  checkTypes,
   compile,
+  createAlertRuntime,
+  createLogRuntime,
+  createStd,
+  createStrategyRuntime,
+  DEFAULT_PINE_VERSION,
+  DiagnosticCode,
+  emitLibraryModule,
   extractMetadata,
+  formatDiagnostic,
+  formatPineScript,
+  formatQualifiedType,
+  formatRunLogs,
+  formatRunOutput,
   generateBody,
+  generateBodyWithMappings,
   generateStandaloneFactory,
   getAllPineFunctionNames,
+  getChildNodes,
   getMappingStats,
   HelperUsage,
+  isPineRuntimeError,
+  linkLibraries,
   MATH_FUNCTION_MAPPINGS,
   MULTI_OUTPUT_MAPPINGS,
+  originalPositionFor,
   PIPELINE_MAX_INPUT_SIZE as MAX_INPUT_SIZE,
+  PineRuntimeError,
   PRICE_SOURCES,
   parse,
+  parseOhlcv,
+  parseOhlcvCsv,
+  parseOhlcvJson,
+  parseWithDiagnostics,
   pipelineBuildFactory as buildFactory,
+  RUN_OUTPUT_FORMATS,
+  RuntimeErrorCode,
+  resolveScopes,
+  runScript,
+  SymbolTable,
   TA_FUNCTION_MAPPINGS,
   TIME_FUNCTION_MAPPINGS,
+  upgradeToV5,
   validateInputSize,
+  versionSemantics,
+  walk,
 };
 
 // ============================================================================
@@ -97,7 +274,7 @@ export {
  * Stops at code generation; does not build a factory wrapper.
  */
 export function transpile(code: string): string {
-  const ast = parse(code);
+  const ast = upgradeToV5(parse(code)).program;
   const metadata = extractMetadata(ast);
   return generateBody(ast, metadata.historicalAccess);
 }
@@ -126,6 +303,25 @@ export interface TranspileOptions {
    * bg_colorer plot".
    */
   autoBgColorerForBoxes?: boolean;
+
+  /**
+   * Emit a v3 source map from the generated JavaScript back to the Pine
+   * source. `true` returns it alongside the output — on
+   * `indicatorFactory.__pineSourceMap` for {@link transpileToPineJS},
+   * as `sourceMap` for {@link transpileToStandaloneFactory}. `'inline'`
+   * also embeds it as a `sourceMappingURL` comment so devtools resolve
+   * stack frames without further setup. Default `false`.
+   */
+  sourceMap?: SourceMapOption;
+
+  /**
+   * Supplies the Pine source of each library the script imports
+   * (`import user/lib/1 as Lib`), keyed by its `user/lib/version`
+   * path. The libraries are parsed and linked into the generated
+   * body. Required when the script has imports; the `./node` entry
+   * provides `createFileSystemLibraryResolver(root)` for local files.
+   */
+  libraryResolver?: LibraryResolver;
 }
 
 /**
@@ -147,6 +343,8 @@ export function transpileToPineJS(
       indicatorId,
       indicatorName,
       autoBgColorerForBoxes: options?.autoBgColorerForBoxes ?? false,
+      sourceMap: options?.sourceMap ?? false,
+      libraryResolver: options?.libraryResolver,
     });
     return { success: true, indicatorFactory: factory };
   } catch (error) {
@@ -171,18 +369,74 @@ export function transpileToStandaloneFactory(
   options?: TranspileOptions,
 ): TranspileToStandaloneFactoryResult {
   try {
-    const ast = parse(code);
+    const ast = linkLibraries(
+      upgradeToV5(parse(code)).program,
+      options?.libraryResolver,
+    ).program;
     const metadata = extractMetadata(ast);
     const helperUsage = new HelperUsage();
-    const mainBody = generateBody(ast, metadata.historicalAccess, helperUsage);
-    const factoryCode = buildStandaloneFactoryCode(metadata, mainBody, {
+    const sourceMap = options?.sourceMap ?? false;
+    const body = generateBodyWithMappings(
+      ast,
+      metadata.historicalAccess,
+      helperUsage,
+    );
+    const result = buildStandaloneFactoryWithSourceMap(metadata, body.code, {
       indicatorId,
       indicatorName,
       autoBgColorerForBoxes: options?.autoBgColorerForBoxes ?? false,
       ast,
       helperUsage,
+      mappings: body.mappings,
+      sourceMap: sourceMap
+        ? factorySourceMapOptions(code, indicatorId, sourceMap)
+        : undefined,
     });
-    return { success: true, factoryCode };
+    return {
+      success: true,
+      factoryCode: result.code,
+      ...(result.sourceMap ? { sourceMap: result.sourceMap } : {}),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Compile a `library("Name")` script to an ES module whose exports are
+ * the library's Pine `export` functions, methods, types and enums,
+ * plus `.d.ts` typings for it. The libraries it imports are linked in
+ * through `options.libraryResolver`, as for indicators.
+ */
+export function transpileToLibraryModule(
+  code: string,
+  options?: Pick<TranspileOptions, 'libraryResolver'>,
+): TranspileToLibraryModuleResult {
+  try {
+    const ast = linkLibraries(
+      upgradeToV5(parse(code)).program,
+      options?.libraryResolver,
+    ).program;
+    const metadata = extractMetadata(ast);
+    if (metadata.scriptType !== 'library') {
+      throw new Error(
+        'Script does not declare library(); use transpileToPineJS for indicators and strategies.',
+      );
+    }
+    const module = emitLibraryModule(
+      ast,
+      metadata.name,
+      metadata.historicalAccess,
+    );
+    return {
+      success: true,
+      moduleCode: module.code,
+      typings: module.typings,
+      exports: module.exports,
+    };
   } catch (error) {
     return {
       success: false,
@@ -192,18 +446,42 @@ export function transpileToStandaloneFactory(
 }
 
 /**
- * Check if Pine Script code can be transpiled
+ * Check if Pine Script code can be transpiled.
+ *
+ * Runs the error-recovering parse, the v4 upgrade and the type checker
+ * over whatever parsed, so `diagnostics` lists every lexical, syntax
+ * and type problem in the file, plus an `info` entry per v4 rewrite;
+ * `reason` is the first error rendered as a single line for callers
+ * that only show one. Name-resolution problems are added
+ * once the file parses cleanly — before that, every statement the
+ * parser skipped would surface again as an undeclared identifier.
  */
 export function canTranspilePineScript(code: string): {
   valid: boolean;
   reason?: string | undefined;
+  diagnostics?: Diagnostic[];
 } {
   try {
-    const lexer = new Lexer(code);
-    const tokens = lexer.tokenize();
-    const parser = new Parser(tokens);
-    parser.parse();
-    return { valid: true };
+    const parsed = parseWithDiagnostics(code);
+    const upgrade = upgradeToV5(parsed.program);
+    const typeCheck = checkTypes(upgrade.program);
+    const diagnostics = [
+      ...parsed.diagnostics,
+      ...upgrade.diagnostics,
+      ...typeCheck.diagnostics,
+      ...(parsed.diagnostics.length === 0
+        ? resolveScopes(upgrade.program, typeCheck).diagnostics
+        : []),
+    ].sort((a, b) => a.line - b.line || a.column - b.column);
+    const firstError = diagnostics.find((d) => d.severity === 'error');
+    if (!firstError) {
+      return { valid: true, diagnostics };
+    }
+    return {
+      valid: false,
+      reason: formatDiagnostic(firstError),
+      diagnostics,
+    };
   } catch (error) {
     return {
       valid: false,
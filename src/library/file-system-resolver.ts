@@ -0,0 +1,21 @@
+/**
+ * File-System Library Resolver
+ *
+ * Serves libraries from a local directory laid out like the published
+ * paths: `import alice/Geo/1` reads `<root>/alice/Geo/1.pine`. Uses
+ * `node:fs`, so it is exported from the package's `./node` entry rather
+ * than the browser-safe main one.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { type LibraryResolver, parseLibraryPath } from './resolver';
+
+export function createFileSystemLibraryResolver(root: string): LibraryResolver {
+  const base = resolve(root);
+  return (path) => {
+    const { user, name, version } = parseLibraryPath(path);
+    const file = join(base, user, name, `${version}.pine`);
+    return existsSync(file) ? readFileSync(file, 'utf-8') : undefined;
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Library Index
+ *
+ * Re-exports library resolution, the linker and the library module
+ * emitter; the Node-only file-system resolver is exported from
+ * `src/node`
+ */
+
+export { type LinkResult, linkLibraries } from './linker';
+export { emitLibraryModule, type LibraryModule } from './module-emitter';
+export {
+  importAlias,
+  type LibraryPath,
+  type LibraryResolver,
+  parseLibraryPath,
+} from './resolver';
@@ -0,0 +1,288 @@
+/**
+ * Library Linker
+ *
+ * Replaces a program's `import` statements with the libraries they
+ * name, so the generator sees one self-contained program:
+ *
+ * - each library is resolved, parsed and upgraded once, however many
+ *   scripts in the import graph name it, and only when its alias is
+ *   used; an unused import is simply dropped
+ * - its functions, methods, types, enums and `const` declarations are
+ *   prepended to the importing program, dependencies first
+ * - its global names are prefixed with the library path
+ *   (`alice_Geo_1__Point`) so they cannot collide with the importer's;
+ *   methods keep their names, since calls find them on the receiver
+ * - `Lib.fn(...)`, `Lib.Type.new(...)` and `Lib.Type` annotations in
+ *   the importer are rewritten to the prefixed names
+ *
+ * Only exported names may be used across the import boundary. Linking
+ * throws on a library that cannot be resolved or parsed, an import
+ * cycle, or a use of a name the library does not export.
+ */
+
+import { resolveScopes } from '../checker/scope-resolver';
+import type { SymbolKind } from '../checker/symbol-table';
+import {
+  Lexer,
+  Parser,
+  type Program,
+  replaceNode,
+  type Statement,
+  walk,
+} from '../parser';
+import { upgradeToV5 } from '../upgrade';
+import {
+  importAlias,
+  type LibraryResolver,
+  parseLibraryPath,
+} from './resolver';
+
+export interface LinkResult {
+  /**
+   * The program with its libraries linked in. A copy when it imports
+   * anything; the input program itself otherwise.
+   */
+  program: Program;
+  /** Paths of the linked libraries, dependencies first. */
+  libraries: string[];
+}
+
+/**
+ * Link the libraries `program` imports, resolving their sources with
+ * `resolver`. Throws when the program uses a library and no resolver
+ * is given.
+ */
+export function linkLibraries(
+  program: Program,
+  resolver?: LibraryResolver,
+): LinkResult {
+  if (!program.body.some((stmt) => stmt.type === 'ImportStatement')) {
+    return { program, libraries: [] };
+  }
+  return new Linker(resolver).link(structuredClone(program));
+}
+
+interface LinkedLibrary {
+  path: string;
+  /** Exported name → the name it is linked under. */
+  exports: Map<string, string>;
+}
+
+/** Global symbols that are renamed when a library is linked. */
+const PREFIXED_KINDS = new Set<SymbolKind>([
+  'variable',
+  'function',
+  'type',
+  'enum',
+]);
+
+class Linker {
+  private readonly libraries = new Map<string, LinkedLibrary>();
+  /** Libraries being linked, importer first, to detect cycles. */
+  private readonly loading: string[] = [];
+  /** Linked declarations of every library, dependencies first. */
+  private readonly declarations: Statement[] = [];
+
+  constructor(private readonly resolver: LibraryResolver | undefined) {}
+
+  link(program: Program): LinkResult {
+    this.linkImports(program);
+    program.body = [...this.declarations, ...program.body];
+    return { program, libraries: [...this.libraries.keys()] };
+  }
+
+  /** Drop `program`'s imports and point its uses at the linked names. */
+  private linkImports(program: Program): void {
+    const imports = new Map<string, string>();
+    for (const stmt of program.body) {
+      if (stmt.type === 'ImportStatement') {
+        imports.set(importAlias(stmt), stmt.source);
+      }
+    }
+    program.body = program.body.filter(
+      (stmt) => stmt.type !== 'ImportStatement',
+    );
+    const libraryFor = (alias: string): LinkedLibrary | undefined => {
+      const path = imports.get(alias);
+      return path === undefined ? undefined : this.load(path);
+    };
+
+    walk(program, {
+      MemberExpression: (expr) => {
+        if (
+          expr.computed ||
+          expr.object.type !== 'Identifier' ||
+          expr.property.type !== 'Identifier'
+        ) {
+          return undefined;
+        }
+        const library = libraryFor(expr.object.name);
+        if (!library) return undefined;
+        replaceNode(expr, {
+          type: 'Identifier',
+          name: exportedName(library, expr.property.name),
+        });
+        return false;
+      },
+      TypeAnnotation: (annotation) => {
+        const [alias, name, ...rest] = annotation.name.split('.');
+        if (!name || rest.length > 0) return undefined;
+        const library = libraryFor(alias);
+        if (library) annotation.name = exportedName(library, name);
+        return undefined;
+      },
+    });
+  }
+
+  private load(path: string): LinkedLibrary {
+    const linked = this.libraries.get(path);
+    if (linked) return linked;
+    if (this.loading.includes(path)) {
+      throw new Error(
+        `Library import cycle: ${[...this.loading, path].join(' → ')}.`,
+      );
+    }
+
+    const prefix = linkPrefix(path);
+    const program = parseLibrary(path, this.resolve(path));
+    this.loading.push(path);
+    this.linkImports(program);
+    this.loading.pop();
+
+    const library: LinkedLibrary = { path, exports: new Map() };
+    const declarations = program.body.filter(isLinkable);
+    for (const stmt of declarations) {
+      const name = stmt.export && declaredName(stmt);
+      if (!name) continue;
+      const isMethod = stmt.type === 'FunctionDeclaration' && stmt.isMethod;
+      library.exports.set(name, isMethod ? name : `${prefix}__${name}`);
+    }
+    prefixGlobals(program, prefix);
+
+    for (const stmt of declarations) {
+      delete stmt.export;
+      walk(stmt, {
+        enter: (node) => {
+          delete node.start;
+          delete node.end;
+          delete node.loc;
+          return undefined;
+        },
+      });
+    }
+    this.libraries.set(path, library);
+    this.declarations.push(...declarations);
+    return library;
+  }
+
+  private resolve(path: string): string {
+    if (!this.resolver) {
+      throw new Error(
+        `Cannot import '${path}': no library resolver was provided.`,
+      );
+    }
+    const source = this.resolver(path);
+    if (source === undefined) {
+      throw new Error(`Library '${path}' could not be resolved.`);
+    }
+    return source;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Parse and upgrade a library. Unlike the importing script, a library
+ * with a syntax error is rejected rather than compiled without the
+ * broken statement, which would surface later as a missing export.
+ */
+function parseLibrary(path: string, source: string): Program {
+  try {
+    const lexer = new Lexer(source);
+    const tokens = lexer.tokenize();
+    const { program, errors } = new Parser(tokens, {
+      version: lexer.getVersion(),
+    }).parseWithErrors();
+    if (errors.length > 0) throw errors[0];
+    return upgradeToV5(program).program;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`In library '${path}': ${message}`);
+  }
+}
+
+/** `alice_Geo_1` for `alice/Geo/1`. */
+function linkPrefix(path: string): string {
+  const { user, name, version } = parseLibraryPath(path);
+  return `${user}_${name}_${version}`;
+}
+
+export type LinkableStatement = Extract<
+  Statement,
+  {
+    type:
+      | 'FunctionDeclaration'
+      | 'TypeDefinition'
+      | 'EnumDeclaration'
+      | 'VariableDeclaration';
+  }
+>;
+
+/**
+ * The library statements an importer can reach. Its `library()` call,
+ * plots and other top-level code only run when the library is the
+ * main script, so they are left out.
+ */
+export function isLinkable(stmt: Statement): stmt is LinkableStatement {
+  switch (stmt.type) {
+    case 'FunctionDeclaration':
+    case 'TypeDefinition':
+    case 'EnumDeclaration':
+      return true;
+    case 'VariableDeclaration':
+      return stmt.kind === 'const';
+    default:
+      return false;
+  }
+}
+
+export function declaredName(stmt: LinkableStatement): string | undefined {
+  switch (stmt.type) {
+    case 'FunctionDeclaration':
+      return stmt.id.name;
+    case 'VariableDeclaration':
+      return Array.isArray(stmt.id) ? undefined : stmt.id.name;
+    default:
+      return stmt.name;
+  }
+}
+
+/** Rename the library's global symbols and their uses to `prefix__name`. */
+function prefixGlobals(program: Program, prefix: string): void {
+  const { table } = resolveScopes(program);
+  for (const symbol of table.symbols) {
+    if (symbol.scope !== table.global || !PREFIXED_KINDS.has(symbol.kind)) {
+      continue;
+    }
+    const name = `${prefix}__${symbol.name}`;
+    if (symbol.id) symbol.id.name = name;
+    const declaration = symbol.declaration as Statement;
+    if (
+      declaration.type === 'TypeDefinition' ||
+      declaration.type === 'EnumDeclaration'
+    ) {
+      declaration.name = name;
+    }
+    for (const reference of symbol.references) reference.name = name;
+  }
+}
+
+function exportedName(library: LinkedLibrary, name: string): string {
+  const linked = library.exports.get(name);
+  if (!linked) {
+    throw new Error(`Library '${library.path}' does not export '${name}'.`);
+  }
+  return linked;
+}
@@ -0,0 +1,140 @@
+/**
+ * Library Module Emitter
+ *
+ * Compiles a `library("Name")` script into a standalone ES module, so
+ * its exports can be shared by bundlers and called from plain
+ * TypeScript rather than only through `import user/lib/1` in Pine:
+ *
+ * - the library's functions, methods, types, enums and `const`
+ *   declarations are generated once at module scope; its top-level
+ *   code (`library()`, plots) is left out, as it is when linking
+ * - every Pine `export` becomes an ES export of the same name, and
+ *   exported methods are also attached to their receiver type
+ * - only the preamble helpers the declarations use are bundled, and
+ *   the color and string runtimes when they use `color` or `str` and
+ *   `format`
+ * - a `.d.ts` is generated alongside from the Pine types
+ *
+ * Exports that read chart built-ins (`ta.*`, `na`, `request.*`) go
+ * through `Std` and `context`, which the host supplies by calling the
+ * module's `bindRuntime(PineJS, context)`; until then those calls
+ * throw a descriptive error. Pure helpers need no runtime.
+ */
+
+import { checkTypes } from '../checker/type-checker';
+import { generatePreamble } from '../factory';
+import { ASTGenerator } from '../generator/ast-generator';
+import { HelperUsage } from '../generator/helper-usage';
+import type { Program } from '../parser';
+import {
+  STANDALONE_COLOR_BUNDLE,
+  STANDALONE_STRING_BUNDLE,
+} from '../runtime/drawing/standalone-bundle.generated';
+import { declaredName, isLinkable } from './linker';
+import { generateLibraryTypings } from './typings';
+
+export interface LibraryModule {
+  /** ES module source. */
+  code: string;
+  /** `.d.ts` declarations for `code`. */
+  typings: string;
+  /** Exported Pine names, in declaration order. */
+  exports: string[];
+}
+
+/** Name of the export hosts call to hand the module its chart runtime. */
+const BIND_RUNTIME_EXPORT = 'bindRuntime';
+
+/**
+ * Emit `program`, a library with its own imports already linked, as an
+ * ES module. `title` is the library's `library()` title, used in the
+ * module header and runtime errors.
+ */
+export function emitLibraryModule(
+  program: Program,
+  title: string,
+  historicalAccess: Set<string> = new Set(),
+): LibraryModule {
+  const declarations = program.body.filter(isLinkable);
+  const exports: string[] = [];
+  for (const stmt of declarations) {
+    const name = stmt.export && declaredName(stmt);
+    if (name && !exports.includes(name)) exports.push(name);
+  }
+  if (exports.includes(BIND_RUNTIME_EXPORT)) {
+    throw new Error(
+      `Library export '${BIND_RUNTIME_EXPORT}' collides with the module's runtime binding.`,
+    );
+  }
+
+  const linkable = { ...program, body: declarations };
+  const typeCheck = checkTypes(linkable);
+  const helperUsage = new HelperUsage();
+  const body = new ASTGenerator(historicalAccess, helperUsage).generate(
+    linkable,
+    typeCheck,
+  );
+  const preamble = generatePreamble(
+    new Set(),
+    historicalAccess,
+    body,
+    helperUsage.toRecord(),
+  );
+  const colors =
+    helperUsage.has('color') || /\bcolor\./.test(body)
+      ? `${STANDALONE_COLOR_BUNDLE}\nconst color = __createColorNamespace();\n`
+      : '';
+  // `format.mintick` and `str.format_time()` read the bound symbol.
+  const strings =
+    helperUsage.has('string') || /\b(str|format)\./.test(body)
+      ? `${STANDALONE_STRING_BUNDLE}
+const str = __createStrNamespace(() => {
+  const symbol = context.symbol || {};
+  return { mintick: symbol.minmov / symbol.pricescale, timezone: symbol.timezone };
+});
+const format = __PINE_FORMAT;
+`
+      : '';
+  const label = JSON.stringify(title);
+
+  const code = `/**
+ * Pine library ${label}
+ * Generated by pine-transpiler. Do not edit.
+ *
+ * Exports that use chart built-ins read them from the runtime passed to
+ * bindRuntime(PineJS, context).
+ */
+
+let Std = new Proxy({}, {
+  get(_target, name) {
+    throw new Error(${JSON.stringify(`Pine library ${label} needs a chart runtime for `)} + String(name) + '; call ${BIND_RUNTIME_EXPORT}(PineJS, context) first.');
+  },
+});
+let context = {};
+${colors}${strings}
+export function ${BIND_RUNTIME_EXPORT}(PineJS, runtimeContext) {
+  Std = PineJS.Std;
+  context = runtimeContext;
+}
+
+${preamble.trim()}
+
+${body}
+`;
+
+  const typings = [
+    `// Type definitions for Pine library ${label}.`,
+    '// Generated by pine-transpiler. Do not edit.',
+    '',
+    ...generateLibraryTypings(declarations, typeCheck),
+    '',
+    '/** Supply the chart runtime for exports that use chart built-ins. */',
+    `export declare function ${BIND_RUNTIME_EXPORT}(`,
+    '  PineJS: { Std: object },',
+    '  context: object,',
+    '): void;',
+    '',
+  ].join('\n');
+
+  return { code, typings, exports };
+}
@@ -0,0 +1,41 @@
+/**
+ * Library Resolution
+ *
+ * How `import user/lib/1 as Lib` finds the library's source. The
+ * transpiler itself never touches the filesystem or the network: a
+ * caller supplies a {@link LibraryResolver}, and the linker asks it for
+ * each library path the script imports.
+ */
+
+import type { ImportStatement } from '../parser/ast';
+
+/**
+ * Returns the Pine source of the library published as `path`
+ * (`user/lib/1`), or `undefined` when it has no such library.
+ */
+export type LibraryResolver = (path: string) => string | undefined;
+
+/** The parts of a `user/lib/version` library path. */
+export interface LibraryPath {
+  user: string;
+  name: string;
+  version: number;
+}
+
+const LIBRARY_PATH = /^([A-Za-z0-9_]+)\/([A-Za-z0-9_]+)\/(\d+)$/;
+
+/** Split a library path; throws when it is not `user/lib/version`. */
+export function parseLibraryPath(path: string): LibraryPath {
+  const match = LIBRARY_PATH.exec(path);
+  if (!match) {
+    throw new Error(
+      `Invalid library path '${path}'; expected 'user/library/version'.`,
+    );
+  }
+  return { user: match[1], name: match[2], version: Number(match[3]) };
+}
+
+/** `import user/lib/1` without `as` is named after the library. */
+export function importAlias(stmt: ImportStatement): string {
+  return stmt.as ?? stmt.source.split('/')[1] ?? stmt.source;
+}
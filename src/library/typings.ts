@@ -0,0 +1,170 @@
+/**
+ * Library Typings
+ *
+ * Generates the `.d.ts` for a library module from the Pine types the
+ * checker resolved for each export. Numbers, bools and strings map
+ * directly, colors are strings, arrays and maps become `T[]` and
+ * `Map<K, V>`, exported types become classes (with their exported
+ * methods) and exported enums a frozen object of members. Anything the
+ * checker could not type is `any` as a parameter and `unknown` as a
+ * result.
+ */
+
+import type { TypeCheckResult } from '../checker/type-checker';
+import type { PineType } from '../checker/types';
+import type {
+  EnumDeclaration,
+  FunctionDeclaration,
+  TypeDefinition,
+} from '../parser';
+import type { LinkableStatement } from './linker';
+
+/**
+ * Declarations for the exports among `declarations`, starting with the
+ * `PineEnumMember` interface when an exported enum, or an enum in an
+ * exported signature, refers to it.
+ */
+export function generateLibraryTypings(
+  declarations: LinkableStatement[],
+  typeCheck: TypeCheckResult,
+): string[] {
+  return new TypingsWriter(declarations, typeCheck).write();
+}
+
+class TypingsWriter {
+  /** Exported types and enums, which exports may name. */
+  private readonly exportedTypes = new Set<string>();
+  /** Exported methods by receiver type, for the class declarations. */
+  private readonly methods = new Map<string, FunctionDeclaration[]>();
+  /** Whether a declaration written so far names `PineEnumMember`. */
+  private usesEnumMember = false;
+
+  constructor(
+    private readonly declarations: LinkableStatement[],
+    private readonly typeCheck: TypeCheckResult,
+  ) {
+    for (const stmt of declarations) {
+      if (!stmt.export) continue;
+      if (stmt.type === 'TypeDefinition' || stmt.type === 'EnumDeclaration') {
+        this.exportedTypes.add(stmt.name);
+      }
+      const receiver =
+        stmt.type === 'FunctionDeclaration' && stmt.isMethod
+          ? stmt.params[0]?.typeAnnotation?.name
+          : undefined;
+      if (stmt.type === 'FunctionDeclaration' && receiver) {
+        this.methods.set(receiver, [
+          ...(this.methods.get(receiver) ?? []),
+          stmt,
+        ]);
+      }
+    }
+  }
+
+  write(): string[] {
+    const lines: string[] = [];
+    for (const stmt of this.declarations) {
+      if (!stmt.export) continue;
+      switch (stmt.type) {
+        case 'TypeDefinition':
+          lines.push('', ...this.typeDefinition(stmt));
+          break;
+        case 'EnumDeclaration':
+          this.usesEnumMember = true;
+          lines.push('', ...enumDeclaration(stmt));
+          break;
+        case 'FunctionDeclaration':
+          lines.push(
+            '',
+            `export declare function ${stmt.id.name}${this.signature(stmt)};`,
+          );
+          break;
+        case 'VariableDeclaration':
+          if (!Array.isArray(stmt.id)) {
+            const type = stmt.init && this.typeCheck.types.get(stmt.init);
+            lines.push(
+              '',
+              `export declare const ${stmt.id.name}: ${this.tsType(type?.type, 'unknown')};`,
+            );
+          }
+          break;
+      }
+    }
+    if (!this.usesEnumMember) return lines.slice(1);
+    return [
+      '/** A member of a Pine enum. */',
+      'export interface PineEnumMember {',
+      '  readonly name: string;',
+      '  readonly title: string;',
+      '  readonly members: PineEnumMember[];',
+      '}',
+      ...lines,
+    ];
+  }
+
+  private typeDefinition(stmt: TypeDefinition): string[] {
+    const fields = [...(this.typeCheck.udts.get(stmt.name)?.fields ?? [])];
+    const params = fields
+      .map(([name, type]) => `${name}?: ${this.tsType(type, 'any')}`)
+      .join(', ');
+    return [
+      `export declare class ${stmt.name} {`,
+      `  constructor(${params});`,
+      `  static new(${params}): ${stmt.name};`,
+      ...fields.map(
+        ([name, type]) => `  ${name}: ${this.tsType(type, 'any')};`,
+      ),
+      ...(this.methods.get(stmt.name) ?? []).map(
+        (method) => `  ${method.id.name}${this.signature(method, 1)};`,
+      ),
+      '}',
+    ];
+  }
+
+  /** `(a: number, b: string): number`, skipping the first `skip` params. */
+  private signature(fn: FunctionDeclaration, skip = 0): string {
+    const signature = this.typeCheck.signatures.get(fn);
+    const params = fn.params.slice(skip).map((param, index) => {
+      const type = signature?.params[index + skip]?.type;
+      return `${param.name}: ${this.tsType(type, 'any')}`;
+    });
+    const returns = this.tsType(signature?.returns.type, 'unknown');
+    return `(${params.join(', ')}): ${returns}`;
+  }
+
+  /** TypeScript for `type`; `fallback` when the checker could not type it. */
+  private tsType(type: PineType | undefined, fallback: string): string {
+    switch (type?.kind) {
+      case 'primitive':
+        if (type.name === 'bool') return 'boolean';
+        return type.name === 'int' || type.name === 'float'
+          ? 'number'
+          : 'string';
+      case 'udt':
+        return this.exportedTypes.has(type.name) ? type.name : 'object';
+      case 'enum':
+        if (this.exportedTypes.has(type.name)) return type.name;
+        this.usesEnumMember = true;
+        return 'PineEnumMember';
+      case 'array':
+        return `${this.tsType(type.element, 'any')}[]`;
+      case 'map':
+        return `Map<${this.tsType(type.key, 'any')}, ${this.tsType(type.value, 'any')}>`;
+      case 'tuple':
+        return `[${type.elements.map((element) => this.tsType(element.type, 'unknown')).join(', ')}]`;
+      case 'void':
+        return 'void';
+      default:
+        return fallback;
+    }
+  }
+}
+
+function enumDeclaration(stmt: EnumDeclaration): string[] {
+  return [
+    `export declare const ${stmt.name}: Readonly<{`,
+    ...stmt.members.map((member) => `  ${member.id.name}: PineEnumMember;`),
+    '}>;',
+    `export type ${stmt.name} = (typeof ${stmt.name})[keyof typeof ${stmt.name}];`,
+  ];
+}
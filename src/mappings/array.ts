@@ -35,6 +35,10 @@ export const ARRAY_FUNCTION_MAPPINGS: Record<
     stdName: '_arrayNewTable',
     description: 'Create new table array',
   },
+  'array.new_linefill': {
+    stdName: '_arrayNewLinefill',
+    description: 'Create new linefill array',
+  },
   'array.new_color': {
     stdName: '_arrayNewAny',
     description: 'Create new color array',
@@ -163,10 +167,101 @@ export const ARRAY_FUNCTION_MAPPINGS: Record<
     stdName: '_arrayFrom',
     description: 'Create array from argument list',
   },
+  'array.insert': {
+    stdName: '_arrayInsert',
+    description: 'Insert element at index',
+  },
+  'array.fill': {
+    stdName: '_arrayFill',
+    description: 'Set a range of elements to a value',
+  },
+  'array.first': {
+    stdName: '_arrayFirst',
+    description: 'First element',
+  },
+  'array.last': {
+    stdName: '_arrayLast',
+    description: 'Last element',
+  },
+  'array.every': {
+    stdName: '_arrayEvery',
+    description: 'Whether every element is true',
+  },
+  'array.some': {
+    stdName: '_arraySome',
+    description: 'Whether any element is true',
+  },
+  'array.sort_indices': {
+    stdName: '_arraySortIndices',
+    description: 'Indices that would sort the array',
+  },
+  'array.binary_search': {
+    stdName: '_arrayBinarySearch',
+    description: 'Index of a value in a sorted array, or -1',
+  },
+  'array.binary_search_leftmost': {
+    stdName: '_arrayBinarySearchLeftmost',
+    description:
+      'Index of a value, or of the element left of where it would lie',
+  },
+  'array.binary_search_rightmost': {
+    stdName: '_arrayBinarySearchRightmost',
+    description:
+      'Index of a value, or of the element right of where it would lie',
+  },
+  'array.median': {
+    stdName: '_arrayMedian',
+    description: 'Median of array elements',
+  },
+  'array.mode': {
+    stdName: '_arrayMode',
+    description: 'Most frequent element',
+  },
+  'array.range': {
+    stdName: '_arrayRange',
+    description: 'Difference between the largest and smallest element',
+  },
+  'array.covariance': {
+    stdName: '_arrayCovariance',
+    description: 'Covariance of two arrays',
+  },
+  'array.standardize': {
+    stdName: '_arrayStandardize',
+    description: 'Elements as z-scores',
+  },
+  'array.abs': {
+    stdName: '_arrayAbs',
+    description: 'Absolute values of elements',
+  },
+  'array.percentile_linear_interpolation': {
+    stdName: '_arrayPercentileLinearInterpolation',
+    description: 'Percentile, interpolating between neighbouring ranks',
+  },
+  'array.percentile_nearest_rank': {
+    stdName: '_arrayPercentileNearestRank',
+    description: 'Percentile, using the nearest rank',
+  },
+  'array.percentrank': {
+    stdName: '_arrayPercentRank',
+    description: 'Percentage of elements at or below an element',
+  },
 };
 
 /**
- * Array helper function implementations
+ * Array helper function implementations, shared by both factory paths.
+ *
+ * Every array the helpers hand out carries the Pine functions as
+ * non-enumerable methods, so `a.insert(0, x)` behaves like
+ * `array.insert(a, 0, x)`. Methods that shadow a native `Array`
+ * method (`sort`, `every`, `some`, `slice`, ...) fall back to it when
+ * called with a callback, which Pine code never passes.
+ *
+ * As in Pine, indices may be negative (counting back from the end) and
+ * an index outside the array raises a `PINE9002` runtime error, as do
+ * `pop`, `shift`, `first` and `last` on an empty array. The exception
+ * is `get` on a drawing array (`array<line>`, ...), which returns an
+ * inert handle so `boxes.get(0).set_right(time)` before the first push
+ * does nothing. Statistics skip `na` elements.
  */
 export const ARRAY_HELPER_FUNCTIONS = `
 // Array helpers
@@ -187,7 +282,7 @@ const _arrayMissingDrawingHandle = new Proxy({}, {
     return () => undefined;
   },
 });
-const _arrayDrawingKinds = new Set(['line', 'box', 'label', 'table']);
+const _arrayDrawingKinds = new Set(['line', 'box', 'label', 'table', 'linefill']);
 const _arrayMarkKind = (arr, kind) => {
   if (!Array.isArray(arr)) return arr;
   if (typeof kind === 'string' && kind) {
@@ -202,79 +297,56 @@ const _arrayMarkKind = (arr, kind) => {
 };
 const _arrayEnsurePineMethods = (arr) => {
   if (!Array.isArray(arr)) return arr;
-  if (typeof arr.size !== 'function') {
-    Object.defineProperty(arr, 'size', {
-      value: function() { return this.length; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.get !== 'function') {
-    Object.defineProperty(arr, 'get', {
-      value: function(i) {
-        const idx = Math.floor(Number(i));
-        if (Number.isFinite(idx) && idx >= 0 && idx < this.length) {
-          return this[idx];
+  for (const [name, fn] of _arrayMethods) {
+    if (Object.prototype.hasOwnProperty.call(arr, name)) continue;
+    const native = Array.prototype[name];
+    Object.defineProperty(arr, name, {
+      value: function(first, ...rest) {
+        if (typeof first === 'function' && typeof native === 'function') {
+          return native.call(this, first, ...rest);
         }
-        const kind = this.__pineKind;
-        if (typeof kind === 'string' && _arrayDrawingKinds.has(kind)) {
-          return _arrayMissingDrawingHandle;
-        }
-        return NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.set !== 'function') {
-    Object.defineProperty(arr, 'set', {
-      value: function(i, v) { this[i] = v; return this; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.remove !== 'function') {
-    Object.defineProperty(arr, 'remove', {
-      value: function(i) {
-        const idx = Math.floor(Number(i));
-        if (!Number.isFinite(idx) || idx < 0 || idx >= this.length) return NaN;
-        const removed = this.splice(idx, 1);
-        return removed.length > 0 ? removed[0] : NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.clear !== 'function') {
-    Object.defineProperty(arr, 'clear', {
-      value: function() { this.length = 0; return this; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.first !== 'function') {
-    Object.defineProperty(arr, 'first', {
-      value: function() {
-        return this.length > 0 ? this[0] : NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.last !== 'function') {
-    Object.defineProperty(arr, 'last', {
-      value: function() {
-        return this.length > 0 ? this[this.length - 1] : NaN;
+        return fn(this, first, ...rest);
       },
       enumerable: false,
+      configurable: true,
+      writable: true,
     });
   }
   return arr;
 };
+const _arrayFail = (message) => {
+  const error = new Error(message);
+  Object.defineProperty(error, '__pineErrorCode', { value: 'PINE9002', enumerable: false });
+  throw error;
+};
 const _arrayAsArray = (arr) => Array.isArray(arr) ? arr : [];
 const _arrayNumeric = (arr) => _arrayAsArray(arr).filter((v) => typeof v === 'number' && Number.isFinite(v));
+// Resolve a Pine index (negative counts from the end); \`extra\` lets
+// \`insert\` address the slot just past the last element.
+const _arrayIndex = (arr, index, extra = 0) => {
+  const size = _arrayAsArray(arr).length;
+  const n = Math.trunc(Number(index));
+  const resolved = n < 0 ? n + size : n;
+  if (!Number.isFinite(n) || resolved < 0 || resolved >= size + extra) {
+    _arrayFail('Index ' + (Number.isFinite(n) ? n : 'na') + ' is out of bounds. Array size is ' + size + '.');
+  }
+  return resolved;
+};
+const _arrayRequireElements = (arr, fn) => {
+  if (_arrayAsArray(arr).length === 0) {
+    _arrayFail('Cannot call array.' + fn + '() on an empty array.');
+  }
+  return arr;
+};
 const _arrayNew = (size = 0, val = NaN) => _arrayEnsurePineMethods(Array(_arraySafeSize(size)).fill(val));
 const _arrayNewAny = (size = 0, val = NaN) => _arrayNew(size, val);
 const _arrayNewLine = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'line');
 const _arrayNewBox = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'box');
 const _arrayNewLabel = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'label');
 const _arrayNewTable = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'table');
+const _arrayNewLinefill = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'linefill');
 const _arrayNewFloat = (size = 0, val = NaN) => _arrayNew(size, val);
-const _arrayNewInt = (size = 0, val = 0) => _arrayNew(size, val);
+const _arrayNewInt = (size = 0, val = NaN) => _arrayNew(size, val);
 const _arrayNewBool = (size = 0, val = false) => _arrayNew(size, val);
 const _arrayNewString = (size = 0, val = '') => _arrayNew(size, val);
 const _arrayFrom = (...values) => _arrayEnsurePineMethods([...values]);
@@ -286,25 +358,32 @@ const _arrayUnshift = (arr, val) => {
   if (Array.isArray(arr)) arr.unshift(val);
   return arr;
 };
-const _arrayPop = (arr) => (Array.isArray(arr) ? arr.pop() : NaN);
-const _arrayShift = (arr) => (Array.isArray(arr) ? arr.shift() : NaN);
+const _arrayInsert = (arr, i, val) => {
+  if (!Array.isArray(arr)) return arr;
+  arr.splice(_arrayIndex(arr, i, 1), 0, val);
+  return arr;
+};
+const _arrayPop = (arr) => Array.prototype.pop.call(_arrayRequireElements(arr, 'pop'));
+const _arrayShift = (arr) => Array.prototype.shift.call(_arrayRequireElements(arr, 'shift'));
 const _arrayRemove = (arr, i) => {
-  if (!Array.isArray(arr)) return NaN;
-  const idx = Math.floor(Number(i));
-  if (!Number.isFinite(idx) || idx < 0 || idx >= arr.length) return NaN;
-  const removed = arr.splice(idx, 1);
-  return removed.length > 0 ? removed[0] : NaN;
+  const idx = _arrayIndex(arr, i);
+  return arr.splice(idx, 1)[0];
 };
 const _arrayGet = (arr, i) => {
-  if (!Array.isArray(arr)) return NaN;
-  if (typeof arr.get === 'function') return arr.get(i);
-  const idx = Math.floor(Number(i));
-  return Number.isFinite(idx) ? arr[idx] : NaN;
+  const kind = arr?.__pineKind;
+  if (typeof kind === 'string' && _arrayDrawingKinds.has(kind)) {
+    const idx = Math.trunc(Number(i));
+    const resolved = idx < 0 ? idx + arr.length : idx;
+    return resolved >= 0 && resolved < arr.length ? arr[resolved] : _arrayMissingDrawingHandle;
+  }
+  return arr[_arrayIndex(arr, i)];
 };
 const _arraySet = (arr, i, val) => {
-  if (Array.isArray(arr)) arr[i] = val;
+  arr[_arrayIndex(arr, i)] = val;
   return arr;
 };
+const _arrayFirst = (arr) => _arrayRequireElements(arr, 'first')[0];
+const _arrayLast = (arr) => _arrayRequireElements(arr, 'last')[arr.length - 1];
 const _arraySize = (arr) => {
   if (Array.isArray(arr)) return arr.length;
   if (arr && typeof arr.size === 'function') return Number(arr.size()) || 0;
@@ -316,47 +395,219 @@ const _arrayAvg = (arr) => {
   return xs.reduce((a, b) => a + b, 0) / xs.length;
 };
 const _arraySum = (arr) => _arrayNumeric(arr).reduce((a, b) => a + b, 0);
-const _arrayMin = (arr) => {
-  const xs = _arrayNumeric(arr);
-  return xs.length === 0 ? NaN : Math.min(...xs);
+// The nth largest (\`max\`) or smallest (\`min\`) element.
+const _arrayMin = (arr, nth = 0) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  const value = xs[Math.trunc(Number(nth)) || 0];
+  return value === undefined ? NaN : value;
 };
-const _arrayMax = (arr) => {
-  const xs = _arrayNumeric(arr);
-  return xs.length === 0 ? NaN : Math.max(...xs);
+const _arrayMax = (arr, nth = 0) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => b - a);
+  const value = xs[Math.trunc(Number(nth)) || 0];
+  return value === undefined ? NaN : value;
 };
-const _arrayStdev = (arr) => {
-  const avg = _arrayAvg(arr);
-  if (isNaN(avg)) return NaN;
+const _arrayRange = (arr) => _arrayMax(arr) - _arrayMin(arr);
+const _arrayMedian = (arr) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const mid = Math.floor(xs.length / 2);
+  return xs.length % 2 === 1 ? xs[mid] : (xs[mid - 1] + xs[mid]) / 2;
+};
+// The most frequent element; the smallest one on a tie.
+const _arrayMode = (arr) => {
+  const counts = new Map();
+  for (const v of _arrayNumeric(arr)) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best = NaN;
+  let bestCount = 0;
+  for (const [v, count] of counts) {
+    if (count > bestCount || (count === bestCount && v < best)) {
+      best = v;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+// Population (biased) statistics by default, sample ones otherwise.
+const _arrayVariance = (arr, biased = true) => {
   const xs = _arrayNumeric(arr);
-  const sqDiffs = xs.map(v => Math.pow(v - avg, 2));
-  return Math.sqrt(_arrayAvg(sqDiffs));
+  const divisor = biased === false ? xs.length - 1 : xs.length;
+  if (xs.length === 0 || divisor <= 0) return NaN;
+  const avg = xs.reduce((a, b) => a + b, 0) / xs.length;
+  return xs.reduce((total, v) => total + (v - avg) * (v - avg), 0) / divisor;
+};
+const _arrayStdev = (arr, biased = true) => Math.sqrt(_arrayVariance(arr, biased));
+const _arrayCovariance = (arr1, arr2, biased = true) => {
+  const a = _arrayAsArray(arr1);
+  const b = _arrayAsArray(arr2);
+  if (a.length !== b.length) return NaN;
+  const pairs = a
+    .map((v, i) => [v, b[i]])
+    .filter(([x, y]) => typeof x === 'number' && Number.isFinite(x) && typeof y === 'number' && Number.isFinite(y));
+  const divisor = biased === false ? pairs.length - 1 : pairs.length;
+  if (pairs.length === 0 || divisor <= 0) return NaN;
+  const meanX = pairs.reduce((total, [x]) => total + x, 0) / pairs.length;
+  const meanY = pairs.reduce((total, [, y]) => total + y, 0) / pairs.length;
+  return pairs.reduce((total, [x, y]) => total + (x - meanX) * (y - meanY), 0) / divisor;
 };
-const _arrayVariance = (arr) => {
+const _arrayStandardize = (arr) => {
   const avg = _arrayAvg(arr);
-  if (isNaN(avg)) return NaN;
-  const xs = _arrayNumeric(arr);
-  const sqDiffs = xs.map(v => Math.pow(v - avg, 2));
-  return _arrayAvg(sqDiffs);
+  const stdev = _arrayStdev(arr);
+  return _arrayEnsurePineMethods(_arrayAsArray(arr).map((v) => (Number(v) - avg) / stdev));
+};
+const _arrayAbs = (arr) => _arrayEnsurePineMethods(_arrayAsArray(arr).map((v) => Math.abs(v)));
+const _arrayPercentileNearestRank = (arr, percentage) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const rank = Math.ceil((Number(percentage) / 100) * xs.length);
+  return xs[Math.min(xs.length - 1, Math.max(0, rank - 1))];
+};
+const _arrayPercentileLinearInterpolation = (arr, percentage) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const position = Math.min(1, Math.max(0, Number(percentage) / 100)) * (xs.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, xs.length - 1);
+  return xs[lower] + (xs[upper] - xs[lower]) * (position - lower);
+};
+// Percentage of the other elements at or below the element at \`i\`.
+const _arrayPercentRank = (arr, i) => {
+  const value = arr[_arrayIndex(arr, i)];
+  const others = _arrayNumeric(arr).length - 1;
+  if (others <= 0 || typeof value !== 'number' || !Number.isFinite(value)) return NaN;
+  const atOrBelow = _arrayNumeric(arr).filter((v) => v <= value).length - 1;
+  return (100 * atOrBelow) / others;
+};
+// Pine \`order.ascending\` is \`true\`; \`na\` elements sort last.
+const _arrayCompare = (ascending) => (a, b) => {
+  const aNa = typeof a === 'number' && Number.isNaN(a);
+  const bNa = typeof b === 'number' && Number.isNaN(b);
+  if (aNa || bNa) return aNa === bNa ? 0 : aNa ? 1 : -1;
+  const order = a < b ? -1 : a > b ? 1 : 0;
+  return ascending === false ? -order : order;
 };
 const _arraySort = (arr, asc = true) => {
   if (!Array.isArray(arr)) return arr;
-  arr.sort((a, b) => asc ? a - b : b - a);
+  Array.prototype.sort.call(arr, _arrayCompare(asc));
   return arr;
 };
+const _arraySortIndices = (arr, asc = true) => {
+  const values = _arrayAsArray(arr);
+  const compare = _arrayCompare(asc);
+  return _arrayEnsurePineMethods(
+    values.map((_, i) => i).sort((i, j) => compare(values[i], values[j])),
+  );
+};
+// First index whose element is not below \`val\` in an ascending array.
+const _arrayLowerBound = (arr, val) => {
+  const xs = _arrayAsArray(arr);
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] < val) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+const _arrayBinarySearch = (arr, val) => {
+  const at = _arrayLowerBound(arr, val);
+  return _arrayAsArray(arr)[at] === val ? at : -1;
+};
+const _arrayBinarySearchLeftmost = (arr, val) => {
+  const at = _arrayLowerBound(arr, val);
+  return _arrayAsArray(arr)[at] === val ? at : at - 1;
+};
+const _arrayBinarySearchRightmost = (arr, val) => {
+  const xs = _arrayAsArray(arr);
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= val) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && xs[lo - 1] === val ? lo - 1 : lo;
+};
 const _arrayReverse = (arr) => {
   if (!Array.isArray(arr)) return arr;
   arr.reverse();
   return arr;
 };
-const _arraySlice = (arr, start, end) => _arrayEnsurePineMethods(_arrayAsArray(arr).slice(start, end));
-const _arrayConcat = (arr1, arr2) => _arrayEnsurePineMethods(_arrayAsArray(arr1).concat(_arrayAsArray(arr2)));
-const _arrayCopy = (arr) => _arrayEnsurePineMethods([..._arrayAsArray(arr)]);
+const _arrayCheckRange = (arr, from, to) => {
+  const size = _arrayAsArray(arr).length;
+  if (!(from >= 0 && from <= size)) _arrayIndex(arr, from, 1);
+  if (!(to >= from && to <= size)) _arrayIndex(arr, to, 1);
+};
+const _arraySlice = (arr, start = 0, end) => {
+  const from = Math.trunc(Number(start));
+  const to = end === undefined ? _arrayAsArray(arr).length : Math.trunc(Number(end));
+  _arrayCheckRange(arr, from, to);
+  return _arrayMarkKind(
+    _arrayEnsurePineMethods(Array.prototype.slice.call(arr, from, to)),
+    arr.__pineKind,
+  );
+};
+const _arrayFill = (arr, val, start = 0, end) => {
+  if (!Array.isArray(arr)) return arr;
+  Array.prototype.fill.call(arr, val, Math.trunc(Number(start)) || 0, end === undefined ? arr.length : Math.trunc(Number(end)));
+  return arr;
+};
+// Pine appends the second array to the first in place.
+const _arrayConcat = (arr1, arr2) => {
+  if (!Array.isArray(arr1)) return arr1;
+  for (const value of _arrayAsArray(arr2)) arr1.push(value);
+  return arr1;
+};
+const _arrayCopy = (arr) =>
+  _arrayMarkKind(_arrayEnsurePineMethods([..._arrayAsArray(arr)]), arr?.__pineKind);
 const _arrayClear = (arr) => {
   if (Array.isArray(arr)) arr.length = 0;
   return arr;
 };
+const _arrayEvery = (arr) => _arrayAsArray(arr).every((v) => Boolean(v));
+const _arraySome = (arr) => _arrayAsArray(arr).some((v) => Boolean(v));
+const _arraySame = (a, b) => a === b || (Number.isNaN(a) && Number.isNaN(b));
 const _arrayIncludes = (arr, val) => _arrayAsArray(arr).includes(val);
-const _arrayIndexOf = (arr, val) => _arrayAsArray(arr).indexOf(val);
-const _arrayLastIndexOf = (arr, val) => _arrayAsArray(arr).lastIndexOf(val);
+const _arrayIndexOf = (arr, val) => _arrayAsArray(arr).findIndex((v) => _arraySame(v, val));
+const _arrayLastIndexOf = (arr, val) => _arrayAsArray(arr).findLastIndex((v) => _arraySame(v, val));
 const _arrayJoin = (arr, sep = ',') => _arrayAsArray(arr).join(sep);
+const _arrayMethods = Object.entries({
+  size: _arraySize,
+  get: _arrayGet,
+  set: _arraySet,
+  insert: _arrayInsert,
+  remove: _arrayRemove,
+  pop: _arrayPop,
+  shift: _arrayShift,
+  first: _arrayFirst,
+  last: _arrayLast,
+  clear: _arrayClear,
+  slice: _arraySlice,
+  concat: _arrayConcat,
+  copy: _arrayCopy,
+  sort: _arraySort,
+  sort_indices: _arraySortIndices,
+  every: _arrayEvery,
+  some: _arraySome,
+  indexof: _arrayIndexOf,
+  lastindexof: _arrayLastIndexOf,
+  binary_search: _arrayBinarySearch,
+  binary_search_leftmost: _arrayBinarySearchLeftmost,
+  binary_search_rightmost: _arrayBinarySearchRightmost,
+  avg: _arrayAvg,
+  sum: _arraySum,
+  min: _arrayMin,
+  max: _arrayMax,
+  range: _arrayRange,
+  median: _arrayMedian,
+  mode: _arrayMode,
+  variance: _arrayVariance,
+  stdev: _arrayStdev,
+  covariance: _arrayCovariance,
+  standardize: _arrayStandardize,
+  abs: _arrayAbs,
+  percentile_linear_interpolation: _arrayPercentileLinearInterpolation,
+  percentile_nearest_rank: _arrayPercentileNearestRank,
+  percentrank: _arrayPercentRank,
+});
 `;
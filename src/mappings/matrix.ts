@@ -4,6 +4,12 @@
  * Pine `matrix.*` APIs are lowered to lightweight JS helpers so scripts
  * like `var matrix = matrix.new<string>(...)` don't depend on an
  * injected runtime namespace object.
+ *
+ * A matrix is `{ _rows, _columns, _fill }` with the Pine functions
+ * attached as non-enumerable methods, so `m.mult(other)` works the same
+ * as `matrix.mult(m, other)`. Functions that return arrays (`row`,
+ * `col`, `eigenvalues`, ...) hand out Pine arrays from the array
+ * helpers, which the preamble always injects alongside these.
  */
 
 export const MATRIX_FUNCTION_MAPPINGS: Record<
@@ -22,6 +28,10 @@ export const MATRIX_FUNCTION_MAPPINGS: Record<
     stdName: '_matrixColumns',
     description: 'Get column count',
   },
+  'matrix.elements_count': {
+    stdName: '_matrixElementsCount',
+    description: 'Get the number of cells',
+  },
   'matrix.get': {
     stdName: '_matrixGet',
     description: 'Read a matrix cell',
@@ -30,16 +40,193 @@ export const MATRIX_FUNCTION_MAPPINGS: Record<
     stdName: '_matrixSet',
     description: 'Write a matrix cell',
   },
+  'matrix.row': {
+    stdName: '_matrixRow',
+    description: 'Copy a row into an array',
+  },
+  'matrix.col': {
+    stdName: '_matrixCol',
+    description: 'Copy a column into an array',
+  },
   'matrix.add_row': {
     stdName: '_matrixAddRow',
     description: 'Insert a row',
   },
+  'matrix.add_col': {
+    stdName: '_matrixAddCol',
+    description: 'Insert a column',
+  },
   'matrix.remove_row': {
     stdName: '_matrixRemoveRow',
     description: 'Remove a row',
   },
+  'matrix.remove_col': {
+    stdName: '_matrixRemoveCol',
+    description: 'Remove a column',
+  },
+  'matrix.swap_rows': {
+    stdName: '_matrixSwapRows',
+    description: 'Swap two rows',
+  },
+  'matrix.swap_columns': {
+    stdName: '_matrixSwapColumns',
+    description: 'Swap two columns',
+  },
+  'matrix.fill': {
+    stdName: '_matrixFill',
+    description: 'Fill a region with a value',
+  },
+  'matrix.copy': {
+    stdName: '_matrixCopy',
+    description: 'Copy a matrix',
+  },
+  'matrix.submatrix': {
+    stdName: '_matrixSubmatrix',
+    description: 'Copy a region into a new matrix',
+  },
+  'matrix.reverse': {
+    stdName: '_matrixReverse',
+    description: 'Reverse the order of rows and columns',
+  },
+  'matrix.reshape': {
+    stdName: '_matrixReshape',
+    description: 'Rebuild with new dimensions, keeping cell order',
+  },
+  'matrix.concat': {
+    stdName: '_matrixConcat',
+    description: 'Append the rows of another matrix',
+  },
+  'matrix.sort': {
+    stdName: '_matrixSort',
+    description: 'Sort rows by a column',
+  },
+  'matrix.transpose': {
+    stdName: '_matrixTranspose',
+    description: 'Transposed copy',
+  },
+  'matrix.avg': {
+    stdName: '_matrixAvg',
+    description: 'Average of all cells',
+  },
+  'matrix.sum': {
+    stdName: '_matrixSum',
+    description: 'Cell-wise sum with a matrix or scalar',
+  },
+  'matrix.diff': {
+    stdName: '_matrixDiff',
+    description: 'Cell-wise difference with a matrix or scalar',
+  },
+  'matrix.max': {
+    stdName: '_matrixMax',
+    description: 'Largest cell',
+  },
+  'matrix.min': {
+    stdName: '_matrixMin',
+    description: 'Smallest cell',
+  },
+  'matrix.median': {
+    stdName: '_matrixMedian',
+    description: 'Median of all cells',
+  },
+  'matrix.mode': {
+    stdName: '_matrixMode',
+    description: 'Most frequent cell value',
+  },
+  'matrix.mult': {
+    stdName: '_matrixMult',
+    description: 'Product with a matrix, array or scalar',
+  },
+  'matrix.pow': {
+    stdName: '_matrixPow',
+    description: 'Integer power of a square matrix',
+  },
+  'matrix.kron': {
+    stdName: '_matrixKron',
+    description: 'Kronecker product',
+  },
+  'matrix.det': {
+    stdName: '_matrixDet',
+    description: 'Determinant',
+  },
+  'matrix.inv': {
+    stdName: '_matrixInv',
+    description: 'Inverse',
+  },
+  'matrix.pinv': {
+    stdName: '_matrixPinv',
+    description: 'Moore-Penrose pseudoinverse',
+  },
+  'matrix.rank': {
+    stdName: '_matrixRank',
+    description: 'Rank',
+  },
+  'matrix.trace': {
+    stdName: '_matrixTrace',
+    description: 'Sum of the main diagonal',
+  },
+  'matrix.eigenvalues': {
+    stdName: '_matrixEigenvalues',
+    description: 'Eigenvalues of a square matrix',
+  },
+  'matrix.eigenvectors': {
+    stdName: '_matrixEigenvectors',
+    description: 'Eigenvectors of a square matrix, one per column',
+  },
+  'matrix.is_square': {
+    stdName: '_matrixIsSquare',
+    description: 'Whether rows equal columns',
+  },
+  'matrix.is_zero': {
+    stdName: '_matrixIsZero',
+    description: 'Whether every cell is zero',
+  },
+  'matrix.is_identity': {
+    stdName: '_matrixIsIdentity',
+    description: 'Whether it is an identity matrix',
+  },
+  'matrix.is_binary': {
+    stdName: '_matrixIsBinary',
+    description: 'Whether every cell is 0 or 1',
+  },
+  'matrix.is_symmetric': {
+    stdName: '_matrixIsSymmetric',
+    description: 'Whether it equals its transpose',
+  },
+  'matrix.is_antisymmetric': {
+    stdName: '_matrixIsAntisymmetric',
+    description: 'Whether its transpose is its negation',
+  },
+  'matrix.is_diagonal': {
+    stdName: '_matrixIsDiagonal',
+    description: 'Whether every cell off the main diagonal is zero',
+  },
+  'matrix.is_antidiagonal': {
+    stdName: '_matrixIsAntidiagonal',
+    description: 'Whether every cell off the anti-diagonal is zero',
+  },
+  'matrix.is_triangular': {
+    stdName: '_matrixIsTriangular',
+    description: 'Whether it is upper or lower triangular',
+  },
+  'matrix.is_stochastic': {
+    stdName: '_matrixIsStochastic',
+    description: 'Whether every row is non-negative and sums to 1',
+  },
 };
 
+/**
+ * Matrix helper functions, injected into the preamble after the array
+ * helpers. Shape errors Pine reports at runtime (multiplying mismatched
+ * matrices, the determinant of a non-square one) throw a `PINE9001`
+ * runtime error; reads outside the matrix return `na` like the rest of
+ * the helpers.
+ *
+ * Linear algebra runs in double precision: LU with partial pivoting for
+ * `det` / `inv`, Jacobi rotations for symmetric eigenproblems (and for
+ * the singular values behind `pinv` / `rank`), and shifted QR on the
+ * Hessenberg form for the others. Eigenvalues come largest first; a
+ * complex pair contributes its real part twice, with `na` eigenvectors.
+ */
 export const MATRIX_HELPER_FUNCTIONS = `
 // Matrix helpers (Pine v6 matrix.*)
 const _matrixSafeInt = (v, fallback = 0) => {
@@ -47,18 +234,54 @@ const _matrixSafeInt = (v, fallback = 0) => {
   if (!Number.isFinite(n)) return fallback;
   return Math.max(0, Math.floor(n));
 };
+const _matrixIsMatrix = (m) => Array.isArray(m?._rows);
+const _matrixFail = (fn, message) => {
+  const error = new Error('matrix.' + fn + ': ' + message);
+  Object.defineProperty(error, '__pineErrorCode', { value: 'PINE9001', enumerable: false });
+  throw error;
+};
+const _matrixNumber = (v) => (typeof v === 'number' ? v : Number(v));
+const _matrixFromRows = (rows, columns, fill = NaN) => {
+  const m = { _rows: rows, _columns: columns, _fill: fill };
+  for (const [name, fn] of _matrixMethods) {
+    Object.defineProperty(m, name, {
+      value: function(...args) { return fn(this, ...args); },
+      enumerable: false,
+    });
+  }
+  return m;
+};
 const _matrixNew = (rows = 0, columns = 0, fill = NaN) => {
   const r = _matrixSafeInt(rows, 0);
   const c = _matrixSafeInt(columns, 0);
   const data = Array.from({ length: r }, () => Array(c).fill(fill));
-  return { _rows: data, _columns: c, _fill: fill };
+  return _matrixFromRows(data, c, fill);
 };
-const _matrixRows = (m) => (Array.isArray(m?._rows) ? m._rows.length : 0);
+const _matrixOf = (rows, columns, cell) =>
+  _matrixFromRows(
+    Array.from({ length: rows }, (_, r) =>
+      Array.from({ length: columns }, (_, c) => cell(r, c)),
+    ),
+    columns,
+  );
+const _matrixIdentity = (n) => _matrixOf(n, n, (r, c) => (r === c ? 1 : 0));
+const _matrixRows = (m) => (_matrixIsMatrix(m) ? m._rows.length : 0);
 const _matrixColumns = (m) =>
   typeof m?._columns === 'number' ? m._columns : 0;
+const _matrixElementsCount = (m) => _matrixRows(m) * _matrixColumns(m);
+const _matrixCells = (m) => (_matrixIsMatrix(m) ? m._rows.flat() : []);
+const _matrixNumericCells = (m) =>
+  _matrixCells(m).filter((v) => typeof v === 'number' && Number.isFinite(v));
+const _matrixRequireSquare = (m, fn) => {
+  if (_matrixRows(m) !== _matrixColumns(m)) {
+    _matrixFail(fn, 'the matrix must be square, got ' + _matrixRows(m) + 'x' + _matrixColumns(m));
+  }
+  return _matrixRows(m);
+};
 const _matrixNormalizeRow = (m, row) => {
-  const values = Array.isArray(row) ? [...row] : [row];
   const width = _matrixColumns(m);
+  if (row === undefined) return Array(width).fill(NaN);
+  const values = Array.isArray(row) ? [...row] : [row];
   if (width === 0) return values;
   if (values.length > width) return values.slice(0, width);
   if (values.length < width) {
@@ -67,27 +290,52 @@ const _matrixNormalizeRow = (m, row) => {
   return values;
 };
 const _matrixAddRow = (m, index, row) => {
-  if (!Array.isArray(m?._rows)) return m;
+  if (!_matrixIsMatrix(m)) return m;
   const at = _matrixSafeInt(index, m._rows.length);
   const safeIndex = Math.min(at, m._rows.length);
-  m._rows.splice(safeIndex, 0, _matrixNormalizeRow(m, row));
+  const values = _matrixNormalizeRow(m, row);
+  if (m._rows.length === 0 && m._columns === 0) m._columns = values.length;
+  m._rows.splice(safeIndex, 0, values);
+  return m;
+};
+const _matrixAddCol = (m, index, column) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const at = Math.min(_matrixSafeInt(index, m._columns), m._columns);
+  if (m._rows.length === 0 && m._columns === 0 && Array.isArray(column)) {
+    for (const value of column) m._rows.push([value]);
+    m._columns = 1;
+    return m;
+  }
+  const values = Array.isArray(column) ? column : [];
+  m._rows.forEach((row, r) => {
+    row.splice(at, 0, r < values.length ? values[r] : column === undefined ? NaN : m._fill);
+  });
+  m._columns += 1;
   return m;
 };
 const _matrixRemoveRow = (m, index) => {
-  if (!Array.isArray(m?._rows) || m._rows.length === 0) return [];
+  if (!_matrixIsMatrix(m) || m._rows.length === 0) return _arrayNew(0);
   const at = _matrixSafeInt(index, m._rows.length - 1);
   const safeIndex = Math.min(at, m._rows.length - 1);
   const removed = m._rows.splice(safeIndex, 1);
-  return removed[0] ?? [];
+  return _arrayEnsurePineMethods(removed[0] ?? []);
+};
+const _matrixRemoveCol = (m, index) => {
+  if (!_matrixIsMatrix(m) || m._columns === 0) return _arrayNew(0);
+  const at = Math.min(_matrixSafeInt(index, m._columns - 1), m._columns - 1);
+  const removed = m._rows.map((row) => row.splice(at, 1)[0]);
+  m._columns -= 1;
+  return _arrayEnsurePineMethods(removed);
 };
 const _matrixGet = (m, row, column) => {
-  if (!Array.isArray(m?._rows)) return NaN;
+  if (!_matrixIsMatrix(m)) return NaN;
   const r = _matrixSafeInt(row, 0);
   const c = _matrixSafeInt(column, 0);
-  return m._rows[r]?.[c];
+  const value = m._rows[r]?.[c];
+  return value === undefined ? NaN : value;
 };
 const _matrixSet = (m, row, column, value) => {
-  if (!Array.isArray(m?._rows)) return m;
+  if (!_matrixIsMatrix(m)) return m;
   const r = _matrixSafeInt(row, 0);
   const c = _matrixSafeInt(column, 0);
   if (!Array.isArray(m._rows[r])) {
@@ -96,4 +344,536 @@ const _matrixSet = (m, row, column, value) => {
   m._rows[r][c] = value;
   return m;
 };
+const _matrixRow = (m, row) => {
+  const values = _matrixIsMatrix(m) ? m._rows[_matrixSafeInt(row, 0)] : undefined;
+  return _arrayEnsurePineMethods(values ? [...values] : []);
+};
+const _matrixCol = (m, column) => {
+  if (!_matrixIsMatrix(m)) return _arrayNew(0);
+  const c = _matrixSafeInt(column, 0);
+  if (c >= m._columns) return _arrayNew(0);
+  return _arrayEnsurePineMethods(m._rows.map((row) => row[c]));
+};
+const _matrixSwapRows = (m, a, b) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const i = _matrixSafeInt(a, 0);
+  const j = _matrixSafeInt(b, 0);
+  if (i < m._rows.length && j < m._rows.length) {
+    [m._rows[i], m._rows[j]] = [m._rows[j], m._rows[i]];
+  }
+  return m;
+};
+const _matrixSwapColumns = (m, a, b) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const i = _matrixSafeInt(a, 0);
+  const j = _matrixSafeInt(b, 0);
+  if (i < m._columns && j < m._columns) {
+    for (const row of m._rows) [row[i], row[j]] = [row[j], row[i]];
+  }
+  return m;
+};
+const _matrixFill = (m, value, fromRow = 0, toRow, fromColumn = 0, toColumn) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const r1 = Math.min(_matrixSafeInt(toRow, m._rows.length), m._rows.length);
+  const c1 = Math.min(_matrixSafeInt(toColumn, m._columns), m._columns);
+  for (let r = _matrixSafeInt(fromRow, 0); r < r1; r++) {
+    for (let c = _matrixSafeInt(fromColumn, 0); c < c1; c++) m._rows[r][c] = value;
+  }
+  return m;
+};
+const _matrixCopy = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  return _matrixFromRows(m._rows.map((row) => [...row]), m._columns, m._fill);
+};
+const _matrixSubmatrix = (m, fromRow = 0, toRow, fromColumn = 0, toColumn) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const r0 = _matrixSafeInt(fromRow, 0);
+  const r1 = Math.min(_matrixSafeInt(toRow, m._rows.length), m._rows.length);
+  const c0 = _matrixSafeInt(fromColumn, 0);
+  const c1 = Math.min(_matrixSafeInt(toColumn, m._columns), m._columns);
+  return _matrixFromRows(
+    m._rows.slice(r0, Math.max(r0, r1)).map((row) => row.slice(c0, Math.max(c0, c1))),
+    Math.max(0, c1 - c0),
+    m._fill,
+  );
+};
+const _matrixReverse = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  m._rows.reverse();
+  for (const row of m._rows) row.reverse();
+  return m;
+};
+const _matrixReshape = (m, rows, columns) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const r = _matrixSafeInt(rows, 0);
+  const c = _matrixSafeInt(columns, 0);
+  const cells = _matrixCells(m);
+  if (r * c !== cells.length) {
+    _matrixFail('reshape', 'cannot reshape ' + cells.length + ' elements into ' + r + 'x' + c);
+  }
+  m._rows = Array.from({ length: r }, (_, i) => cells.slice(i * c, i * c + c));
+  m._columns = c;
+  return m;
+};
+const _matrixConcat = (a, b) => {
+  if (!_matrixIsMatrix(a) || !_matrixIsMatrix(b)) return a;
+  if (a._rows.length > 0 && b._rows.length > 0 && a._columns !== b._columns) {
+    _matrixFail('concat', 'both matrices must have the same number of columns');
+  }
+  for (const row of b._rows) a._rows.push([...row]);
+  if (a._rows.length === b._rows.length) a._columns = b._columns;
+  return a;
+};
+const _matrixSort = (m, column = 0, ascending = true) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const c = _matrixSafeInt(column, 0);
+  const key = (row) => {
+    const v = _matrixNumber(row[c]);
+    return Number.isNaN(v) ? Infinity : v;
+  };
+  m._rows.sort((x, y) => (ascending === false ? key(y) - key(x) : key(x) - key(y)));
+  return m;
+};
+const _matrixTranspose = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  return _matrixOf(m._columns, m._rows.length, (r, c) => m._rows[c][r]);
+};
+const _matrixAvg = (m) => {
+  const xs = _matrixNumericCells(m);
+  return xs.length === 0 ? NaN : xs.reduce((a, b) => a + b, 0) / xs.length;
+};
+const _matrixMax = (m) => {
+  const xs = _matrixNumericCells(m);
+  return xs.length === 0 ? NaN : Math.max(...xs);
+};
+const _matrixMin = (m) => {
+  const xs = _matrixNumericCells(m);
+  return xs.length === 0 ? NaN : Math.min(...xs);
+};
+const _matrixMedian = (m) => {
+  const xs = _matrixNumericCells(m).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const mid = Math.floor(xs.length / 2);
+  return xs.length % 2 === 1 ? xs[mid] : (xs[mid - 1] + xs[mid]) / 2;
+};
+const _matrixMode = (m) => {
+  const counts = new Map();
+  for (const v of _matrixNumericCells(m)) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best = NaN;
+  let bestCount = 0;
+  for (const [v, count] of counts) {
+    if (count > bestCount || (count === bestCount && v < best)) {
+      best = v;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+const _matrixCellwise = (fn, a, b, op) => {
+  if (!_matrixIsMatrix(a)) return a;
+  if (_matrixIsMatrix(b)) {
+    if (a._rows.length !== b._rows.length || a._columns !== b._columns) {
+      _matrixFail(fn, 'both matrices must have the same dimensions');
+    }
+    return _matrixOf(a._rows.length, a._columns, (r, c) => op(a._rows[r][c], b._rows[r][c]));
+  }
+  const scalar = _matrixNumber(b);
+  return _matrixOf(a._rows.length, a._columns, (r, c) => op(a._rows[r][c], scalar));
+};
+const _matrixSum = (a, b) => _matrixCellwise('sum', a, b, (x, y) => x + y);
+const _matrixDiff = (a, b) => _matrixCellwise('diff', a, b, (x, y) => x - y);
+const _matrixProduct = (a, b) => {
+  if (a._columns !== b._rows.length) {
+    _matrixFail('mult', 'the first matrix has ' + a._columns + ' columns but the second has ' + b._rows.length + ' rows');
+  }
+  return _matrixOf(a._rows.length, b._columns, (r, c) => {
+    let total = 0;
+    for (let k = 0; k < a._columns; k++) total += a._rows[r][k] * b._rows[k][c];
+    return total;
+  });
+};
+const _matrixMult = (a, b) => {
+  if (!_matrixIsMatrix(a)) return a;
+  if (_matrixIsMatrix(b)) return _matrixProduct(a, b);
+  if (Array.isArray(b)) {
+    if (a._columns !== b.length) {
+      _matrixFail('mult', 'the matrix has ' + a._columns + ' columns but the array has ' + b.length + ' elements');
+    }
+    return _arrayEnsurePineMethods(
+      a._rows.map((row) => row.reduce((total, v, k) => total + v * b[k], 0)),
+    );
+  }
+  return _matrixCellwise('mult', a, b, (x, y) => x * y);
+};
+const _matrixPow = (m, power) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const n = _matrixRequireSquare(m, 'pow');
+  let p = _matrixSafeInt(power, 0);
+  let result = _matrixIdentity(n);
+  let base = m;
+  while (p > 0) {
+    if (p % 2 === 1) result = _matrixProduct(result, base);
+    base = _matrixProduct(base, base);
+    p = Math.floor(p / 2);
+  }
+  return result;
+};
+const _matrixKron = (a, b) => {
+  if (!_matrixIsMatrix(a) || !_matrixIsMatrix(b)) return a;
+  const br = b._rows.length;
+  const bc = b._columns;
+  return _matrixOf(a._rows.length * br, a._columns * bc, (r, c) =>
+    a._rows[Math.floor(r / br)][Math.floor(c / bc)] * b._rows[r % br][c % bc],
+  );
+};
+// LU decomposition with partial pivoting of a square numeric grid.
+const _matrixLu = (grid) => {
+  const n = grid.length;
+  const lu = grid.map((row) => row.map(_matrixNumber));
+  const perm = Array.from({ length: n }, (_, i) => i);
+  let sign = 1;
+  let singular = false;
+  for (let k = 0; k < n; k++) {
+    let pivot = k;
+    for (let i = k + 1; i < n; i++) {
+      if (Math.abs(lu[i][k]) > Math.abs(lu[pivot][k])) pivot = i;
+    }
+    if (pivot !== k) {
+      [lu[pivot], lu[k]] = [lu[k], lu[pivot]];
+      [perm[pivot], perm[k]] = [perm[k], perm[pivot]];
+      sign = -sign;
+    }
+    if (lu[k][k] === 0 || !Number.isFinite(lu[k][k])) {
+      singular = true;
+      continue;
+    }
+    for (let i = k + 1; i < n; i++) {
+      const f = lu[i][k] / lu[k][k];
+      lu[i][k] = f;
+      for (let j = k + 1; j < n; j++) lu[i][j] -= f * lu[k][j];
+    }
+  }
+  return { lu, perm, sign, singular };
+};
+const _matrixLuSolve = ({ lu, perm }, rhs) => {
+  const n = lu.length;
+  const x = perm.map((p) => rhs[p]);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) x[i] -= lu[i][j] * x[j];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) x[i] -= lu[i][j] * x[j];
+    x[i] /= lu[i][i];
+  }
+  return x;
+};
+const _matrixDet = (m) => {
+  if (!_matrixIsMatrix(m)) return NaN;
+  const n = _matrixRequireSquare(m, 'det');
+  const { lu, sign } = _matrixLu(m._rows);
+  let det = sign;
+  for (let i = 0; i < n; i++) det *= lu[i][i];
+  return det;
+};
+const _matrixInv = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const n = _matrixRequireSquare(m, 'inv');
+  const decomposition = _matrixLu(m._rows);
+  if (decomposition.singular) return _matrixNew(n, n, NaN);
+  const columns = Array.from({ length: n }, (_, c) =>
+    _matrixLuSolve(decomposition, Array.from({ length: n }, (_, r) => (r === c ? 1 : 0))),
+  );
+  return _matrixOf(n, n, (r, c) => columns[c][r]);
+};
+// A unit vector flipped so its largest component is positive.
+const _matrixOrient = (x) => {
+  const lead = x.reduce((best, v) => (Math.abs(v) > Math.abs(best) ? v : best), 0);
+  return lead < 0 ? x.map((v) => -v) : x;
+};
+// Jacobi eigenvalue iteration for a symmetric grid: eigenvalues and
+// the matching orthonormal eigenvectors (as columns), largest first.
+const _matrixSymmetricEigen = (grid) => {
+  const n = grid.length;
+  const a = grid.map((row) => row.map(_matrixNumber));
+  const v = Array.from({ length: n }, (_, r) => Array.from({ length: n }, (_, c) => (r === c ? 1 : 0)));
+  const scale = a.flat().reduce((total, x) => total + x * x, 0);
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q];
+    }
+    if (off <= 1e-30 * scale) break;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map((i) => a[i][i]),
+    vectors: order.map((i) => _matrixOrient(v.map((row) => row[i]))),
+  };
+};
+// Eigenvalues of a general square grid as [real, imaginary] pairs:
+// Householder reduction to upper Hessenberg form, then
+// Wilkinson-shifted QR sweeps with deflation.
+const _matrixGeneralEigenvalues = (grid) => {
+  const n = grid.length;
+  const h = grid.map((row) => row.map(_matrixNumber));
+  for (let k = 0; k < n - 2; k++) {
+    let alpha = 0;
+    for (let i = k + 1; i < n; i++) alpha += h[i][k] * h[i][k];
+    alpha = Math.sqrt(alpha);
+    if (alpha === 0) continue;
+    if (h[k + 1][k] > 0) alpha = -alpha;
+    const u = Array(n).fill(0);
+    u[k + 1] = h[k + 1][k] - alpha;
+    for (let i = k + 2; i < n; i++) u[i] = h[i][k];
+    const uu = u.reduce((total, x) => total + x * x, 0);
+    if (uu === 0) continue;
+    for (let j = 0; j < n; j++) {
+      let dot = 0;
+      for (let i = k + 1; i < n; i++) dot += u[i] * h[i][j];
+      for (let i = k + 1; i < n; i++) h[i][j] -= (2 * u[i] * dot) / uu;
+    }
+    for (let i = 0; i < n; i++) {
+      let dot = 0;
+      for (let j = k + 1; j < n; j++) dot += h[i][j] * u[j];
+      for (let j = k + 1; j < n; j++) h[i][j] -= (2 * dot * u[j]) / uu;
+    }
+  }
+  const values = [];
+  const pair = (hi) => {
+    const a = h[hi - 1][hi - 1];
+    const b = h[hi - 1][hi];
+    const c = h[hi][hi - 1];
+    const d = h[hi][hi];
+    const mean = (a + d) / 2;
+    const disc = ((a - d) / 2) ** 2 + b * c;
+    const root = Math.sqrt(Math.abs(disc));
+    return disc >= 0
+      ? [[mean + root, 0], [mean - root, 0]]
+      : [[mean, root], [mean, -root]];
+  };
+  const small = (r, c) => Math.abs(h[r][c]) <= 1e-14 * (Math.abs(h[r][r]) + Math.abs(h[c][c]) || 1);
+  let hi = n - 1;
+  let iterations = 0;
+  while (hi >= 0) {
+    if (hi === 0 || small(hi, hi - 1)) {
+      values.push([h[hi][hi], 0]);
+      hi -= 1;
+      iterations = 0;
+      continue;
+    }
+    if (hi === 1 || small(hi - 1, hi - 2) || iterations > 200) {
+      values.push(...pair(hi));
+      hi -= 2;
+      iterations = 0;
+      continue;
+    }
+    iterations += 1;
+    const [[l1], [l2]] = pair(hi);
+    const d = h[hi][hi];
+    const shift = Math.abs(l1 - d) < Math.abs(l2 - d) ? l1 : l2;
+    for (let i = 0; i <= hi; i++) h[i][i] -= shift;
+    const rotations = [];
+    for (let k = 0; k < hi; k++) {
+      const x = h[k][k];
+      const y = h[k + 1][k];
+      const r = Math.hypot(x, y);
+      const c = r === 0 ? 1 : x / r;
+      const s = r === 0 ? 0 : y / r;
+      rotations.push([c, s]);
+      for (let j = k; j <= hi; j++) {
+        const top = h[k][j];
+        const bottom = h[k + 1][j];
+        h[k][j] = c * top + s * bottom;
+        h[k + 1][j] = -s * top + c * bottom;
+      }
+    }
+    rotations.forEach(([c, s], k) => {
+      for (let i = 0; i <= Math.min(k + 2, hi); i++) {
+        const left = h[i][k];
+        const right = h[i][k + 1];
+        h[i][k] = c * left + s * right;
+        h[i][k + 1] = -s * left + c * right;
+      }
+    });
+    for (let i = 0; i <= hi; i++) h[i][i] += shift;
+  }
+  return values.sort((a, b) => b[0] - a[0] || b[1] - a[1]);
+};
+// Unit eigenvector of a general grid for a real eigenvalue, found by
+// inverse iteration with a slightly perturbed shift.
+const _matrixInverseIteration = (grid, value) => {
+  const n = grid.length;
+  const shift = value + 1e-10 * Math.max(1, Math.abs(value));
+  const decomposition = _matrixLu(
+    grid.map((row, r) => row.map((v, c) => _matrixNumber(v) - (r === c ? shift : 0))),
+  );
+  for (let i = 0; i < n; i++) {
+    if (decomposition.lu[i][i] === 0) decomposition.lu[i][i] = 1e-300;
+  }
+  let x = Array.from({ length: n }, (_, i) => 1 / Math.sqrt(n) + i * 1e-3);
+  for (let step = 0; step < 4; step++) {
+    const y = _matrixLuSolve(decomposition, x);
+    const norm = Math.hypot(...y);
+    if (!Number.isFinite(norm) || norm === 0) return Array(n).fill(NaN);
+    x = y.map((v) => v / norm);
+  }
+  return _matrixOrient(x);
+};
+const _matrixEigen = (m, fn, withVectors) => {
+  const n = _matrixRequireSquare(m, fn);
+  if (_matrixIsSymmetric(m)) return _matrixSymmetricEigen(m._rows);
+  const roots = _matrixGeneralEigenvalues(m._rows);
+  return {
+    values: roots.map(([re]) => re),
+    vectors: withVectors
+      ? roots.map(([re, im]) =>
+          im === 0 ? _matrixInverseIteration(m._rows, re) : Array(n).fill(NaN),
+        )
+      : [],
+  };
+};
+const _matrixEigenvalues = (m) => {
+  if (!_matrixIsMatrix(m)) return _arrayNew(0);
+  return _arrayEnsurePineMethods(_matrixEigen(m, 'eigenvalues', false).values);
+};
+const _matrixEigenvectors = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const { vectors } = _matrixEigen(m, 'eigenvectors', true);
+  return _matrixOf(vectors.length, vectors.length, (r, c) => vectors[c][r]);
+};
+// Singular values of a grid: square roots of the eigenvalues of A^T A,
+// with the right singular vectors. Squaring costs half the digits, so
+// values below 1e-7 of the largest count as zero.
+const _matrixSingular = (m) => {
+  const gram = _matrixProduct(_matrixTranspose(m), m);
+  const { values, vectors } = _matrixSymmetricEigen(gram._rows);
+  const sigma = values.map((v) => Math.sqrt(Math.max(0, v)));
+  const tolerance = Math.max(m._rows.length, m._columns) * (sigma[0] ?? 0) * 1e-7;
+  return { sigma, vectors, tolerance };
+};
+const _matrixRank = (m) => {
+  if (!_matrixIsMatrix(m) || m._columns === 0) return 0;
+  const { sigma, tolerance } = _matrixSingular(m);
+  return sigma.filter((s) => s > tolerance).length;
+};
+const _matrixPinv = (m) => {
+  if (!_matrixIsMatrix(m)) return m;
+  const n = m._columns;
+  if (n === 0) return _matrixNew(0, m._rows.length);
+  // pinv(A) = V S^-2 V^T A^T over the non-zero singular values S.
+  const { sigma, vectors, tolerance } = _matrixSingular(m);
+  const inverseGram = _matrixOf(n, n, (r, c) =>
+    sigma.reduce(
+      (total, s, i) => (s > tolerance ? total + (vectors[i][r] * vectors[i][c]) / (s * s) : total),
+      0,
+    ),
+  );
+  return _matrixProduct(inverseGram, _matrixTranspose(m));
+};
+const _matrixTrace = (m) => {
+  if (!_matrixIsMatrix(m)) return NaN;
+  const n = _matrixRequireSquare(m, 'trace');
+  let total = 0;
+  for (let i = 0; i < n; i++) total += _matrixNumber(m._rows[i][i]);
+  return total;
+};
+const _matrixEvery = (m, test) =>
+  _matrixIsMatrix(m) && m._rows.every((row, r) => row.every((v, c) => test(v, r, c)));
+const _matrixIsSquare = (m) => _matrixIsMatrix(m) && m._rows.length === m._columns;
+const _matrixIsZero = (m) => _matrixEvery(m, (v) => v === 0);
+const _matrixIsBinary = (m) => _matrixEvery(m, (v) => v === 0 || v === 1);
+const _matrixIsIdentity = (m) =>
+  _matrixIsSquare(m) && _matrixEvery(m, (v, r, c) => v === (r === c ? 1 : 0));
+const _matrixIsSymmetric = (m) =>
+  _matrixIsSquare(m) && _matrixEvery(m, (v, r, c) => v === m._rows[c][r]);
+const _matrixIsAntisymmetric = (m) =>
+  _matrixIsSquare(m) && _matrixEvery(m, (v, r, c) => v === -m._rows[c][r]);
+const _matrixIsDiagonal = (m) =>
+  _matrixIsSquare(m) && _matrixEvery(m, (v, r, c) => r === c || v === 0);
+const _matrixIsAntidiagonal = (m) =>
+  _matrixIsSquare(m) && _matrixEvery(m, (v, r, c) => r + c === m._columns - 1 || v === 0);
+const _matrixIsTriangular = (m) =>
+  _matrixIsSquare(m) &&
+  (_matrixEvery(m, (v, r, c) => r <= c || v === 0) ||
+    _matrixEvery(m, (v, r, c) => r >= c || v === 0));
+const _matrixIsStochastic = (m) =>
+  _matrixEvery(m, (v) => v >= 0) &&
+  m._rows.every((row) => Math.abs(row.reduce((total, v) => total + v, 0) - 1) < 1e-10);
+const _matrixMethods = Object.entries({
+  rows: _matrixRows,
+  columns: _matrixColumns,
+  elements_count: _matrixElementsCount,
+  get: _matrixGet,
+  set: _matrixSet,
+  row: _matrixRow,
+  col: _matrixCol,
+  add_row: _matrixAddRow,
+  add_col: _matrixAddCol,
+  remove_row: _matrixRemoveRow,
+  remove_col: _matrixRemoveCol,
+  swap_rows: _matrixSwapRows,
+  swap_columns: _matrixSwapColumns,
+  fill: _matrixFill,
+  copy: _matrixCopy,
+  submatrix: _matrixSubmatrix,
+  reverse: _matrixReverse,
+  reshape: _matrixReshape,
+  concat: _matrixConcat,
+  sort: _matrixSort,
+  transpose: _matrixTranspose,
+  avg: _matrixAvg,
+  sum: _matrixSum,
+  diff: _matrixDiff,
+  max: _matrixMax,
+  min: _matrixMin,
+  median: _matrixMedian,
+  mode: _matrixMode,
+  mult: _matrixMult,
+  pow: _matrixPow,
+  kron: _matrixKron,
+  det: _matrixDet,
+  inv: _matrixInv,
+  pinv: _matrixPinv,
+  rank: _matrixRank,
+  trace: _matrixTrace,
+  eigenvalues: _matrixEigenvalues,
+  eigenvectors: _matrixEigenvectors,
+  is_square: _matrixIsSquare,
+  is_zero: _matrixIsZero,
+  is_identity: _matrixIsIdentity,
+  is_binary: _matrixIsBinary,
+  is_symmetric: _matrixIsSymmetric,
+  is_antisymmetric: _matrixIsAntisymmetric,
+  is_diagonal: _matrixIsDiagonal,
+  is_antidiagonal: _matrixIsAntidiagonal,
+  is_triangular: _matrixIsTriangular,
+  is_stochastic: _matrixIsStochastic,
+});
 `;
@@ -55,30 +55,60 @@ export const STRING_FUNCTION_MAPPINGS: Record<
     stdName: '_strFormat',
     description: 'Format string with placeholders',
   },
+  'str.format_time': {
+    stdName: '_strFormatTime',
+    description: 'Format a timestamp with a date pattern',
+  },
+  'str.tostring': {
+    stdName: '_strToString',
+    description: 'Convert to string, optionally with a number format',
+  },
+  'str.tonumber': {
+    stdName: '_strToNumber',
+    description: 'Parse a number',
+  },
+  'str.trim': {
+    stdName: '_strTrim',
+    description: 'Strip surrounding whitespace',
+  },
+  'str.pos': {
+    stdName: '_strPos',
+    description: 'Position of the first occurrence',
+  },
+  'str.match': {
+    stdName: '_strMatch',
+    description: 'First match of a regular expression',
+  },
+  'str.repeat': {
+    stdName: '_strRepeat',
+    description: 'Repeat a string',
+  },
 };
 
 /**
- * String helper function implementations
- *
- * Pine string operations need to be defensive: at runtime the input
- * may be undefined / NaN / a non-string when a transpiler stub or
- * upstream Std fallback returns a non-string sentinel. Coerce to
- * string before each operation so a missing input doesn't crash the
- * whole indicator (it'll just produce empty / default output for
- * that call).
+ * String helper function implementations. They forward to the runtime
+ * `str` namespace (`src/runtime/strings.ts`), which coerces `na` and
+ * other non-string inputs; resolving it here keeps the calls working
+ * in functions that take a parameter named `str`.
  */
 export const STRING_HELPER_FUNCTIONS = `
 // String helpers
-const _strCoerce = (s) => (s == null ? '' : String(s));
-const _strLength = (s) => _strCoerce(s).length;
-const _strContains = (s, sub) => _strCoerce(s).includes(_strCoerce(sub));
-const _strStartsWith = (s, prefix) => _strCoerce(s).startsWith(_strCoerce(prefix));
-const _strEndsWith = (s, suffix) => _strCoerce(s).endsWith(_strCoerce(suffix));
-const _strSubstring = (s, start, end) => _strCoerce(s).substring(start, end);
-const _strReplace = (s, old, rep) => _strCoerce(s).replace(_strCoerce(old), _strCoerce(rep));
-const _strReplaceAll = (s, old, rep) => _strCoerce(s).replaceAll(_strCoerce(old), _strCoerce(rep));
-const _strLower = (s) => _strCoerce(s).toLowerCase();
-const _strUpper = (s) => _strCoerce(s).toUpperCase();
-const _strSplit = (s, sep) => _strCoerce(s).split(_strCoerce(sep));
-const _strFormat = (fmt, ...args) => _strCoerce(fmt).replace(/{(\\d+)}/g, (m, i) => args[i] ?? m);
+const _strLength = (s) => str.length(s);
+const _strContains = (s, sub) => str.contains(s, sub);
+const _strStartsWith = (s, prefix) => str.startswith(s, prefix);
+const _strEndsWith = (s, suffix) => str.endswith(s, suffix);
+const _strSubstring = (s, start, end) => str.substring(s, start, end);
+const _strReplace = (s, old, rep, occurrence) => str.replace(s, old, rep, occurrence);
+const _strReplaceAll = (s, old, rep) => str.replace_all(s, old, rep);
+const _strLower = (s) => str.lower(s);
+const _strUpper = (s) => str.upper(s);
+const _strSplit = (s, sep) => str.split(s, sep);
+const _strFormat = (fmt, ...args) => str.format(fmt, ...args);
+const _strFormatTime = (t, fmt, tz) => str.format_time(t, fmt, tz);
+const _strToString = (value, fmt) => str.tostring(value, fmt);
+const _strToNumber = (s) => str.tonumber(s);
+const _strTrim = (s) => str.trim(s);
+const _strPos = (s, sub) => str.pos(s, sub);
+const _strMatch = (s, regex) => str.match(s, regex);
+const _strRepeat = (s, n, sep) => str.repeat(s, n, sep);
 `;
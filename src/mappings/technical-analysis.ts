@@ -195,6 +195,20 @@ export const OSCILLATOR_MAPPINGS: Record<string, TAFunctionMapping> = {
     argCount: 0,
     description: 'Awesome Oscillator (Bill Williams)',
   },
+  'ta.rci': {
+    stdName: 'StdPlus.rci',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 2,
+    description: 'Ranked Correlation Index (source, length)',
+  },
+  'ta.cog': {
+    stdName: 'StdPlus.cog',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 2,
+    description: 'Center of Gravity (source, length)',
+  },
 };
 
 // ============================================================================
@@ -292,6 +306,43 @@ export const RANGE_MAPPINGS: Record<string, TAFunctionMapping> = {
     argCount: 2,
     description: 'Mode value over length bars',
   },
+  'ta.range': {
+    stdName: 'StdPlus.range',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 2,
+    description: 'Highest minus lowest value over length bars',
+  },
+  'ta.percentile_linear_interpolation': {
+    stdName: 'StdPlus.percentile_linear_interpolation',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 3,
+    description:
+      'Percentile over length bars, interpolated (source, length, percentage)',
+  },
+  'ta.percentile_nearest_rank': {
+    stdName: 'StdPlus.percentile_nearest_rank',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 3,
+    description:
+      'Percentile over length bars, nearest rank (source, length, percentage)',
+  },
+  'ta.max': {
+    stdName: 'StdPlus.max',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 1,
+    description: 'All-time high of source',
+  },
+  'ta.min': {
+    stdName: 'StdPlus.min',
+    needsSeries: true,
+    contextArg: true,
+    argCount: 1,
+    description: 'All-time low of source',
+  },
 };
 
 // ============================================================================
@@ -337,6 +388,13 @@ export const TREND_MAPPINGS: Record<string, TAFunctionMapping> = {
     argCount: 3,
     description: 'Pivot Low (series, leftbars, rightbars)',
   },
+  'ta.pivot_point_levels': {
+    stdName: 'StdPlus.pivot_point_levels',
+    needsSeries: false,
+    contextArg: true,
+    argCount: 3,
+    description: 'Pivot point levels array (type, anchor, developing)',
+  },
 };
 
 // ============================================================================
@@ -165,10 +165,6 @@ export const TYPE_FUNCTION_MAPPINGS: Record<
     stdName: 'Number',
     description: 'Convert to float',
   },
-  'str.tostring': {
-    stdName: 'String',
-    description: 'Convert to string',
-  },
 };
 
 // ============================================================================
@@ -176,12 +172,14 @@ export const TYPE_FUNCTION_MAPPINGS: Record<
 // ============================================================================
 
 /**
- * Runtime error function
+ * Runtime error function. Neither factory path forwards `Std.error` to
+ * the host: their Std proxies resolve it to a thrower the per-bar catch
+ * reports as a `PINE9001` PineRuntimeError.
  */
 export const RUNTIME_ERROR_MAPPING = {
   'runtime.error': {
     stdName: 'Std.error',
-    description: 'Display runtime error',
+    description: 'Halt the script with a runtime error',
   },
 };
 
@@ -0,0 +1,9 @@
+/**
+ * Node Entry
+ *
+ * Helpers that need the Node standard library, kept out of the main
+ * entry so it stays usable in browsers.
+ */
+
+export { createFileSystemLibraryResolver } from '../library/file-system-resolver';
+export type { LibraryResolver } from '../library/resolver';
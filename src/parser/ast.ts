@@ -28,20 +28,39 @@ export type NodeType =
   | 'SwitchExpression'
   | 'SwitchCase'
   | 'TypeDefinition'
+  | 'EnumDeclaration'
+  | 'EnumMember'
   | 'Identifier'
   | 'Literal'
   | 'TypeAnnotation'
   | 'ArrayExpression'
   | 'ImportStatement';
 
+/** 1-based line / column position in the original source. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Source range of a node. `end` is exclusive: it points one column
+ * past the node's last character.
+ */
+export interface SourceLocation {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * Every Statement and Expression produced by the parser carries
+ * `start` / `end` / `loc`. They stay optional in the type because the
+ * generator and tests also build synthetic nodes.
+ */
 export interface ASTNode {
   type: NodeType;
   start?: number; // Character index start
-  end?: number; // Character index end
-  loc?: {
-    start: { line: number; column: number };
-    end: { line: number; column: number };
-  };
+  end?: number; // Character index end (exclusive)
+  loc?: SourceLocation;
 }
 
 // ============================================================================
@@ -51,6 +70,7 @@ export interface ASTNode {
 export interface Program extends ASTNode {
   type: 'Program';
   body: Statement[];
+  /** From the `//@version=N` directive; `DEFAULT_PINE_VERSION` without one. */
   version: number;
 }
 
@@ -68,6 +88,7 @@ export type Statement =
   | ContinueStatement
   | SwitchStatement
   | TypeDefinition
+  | EnumDeclaration
   | ImportStatement;
 
 export interface VariableDeclaration extends ASTNode {
@@ -83,6 +104,8 @@ export interface FunctionDeclaration extends ASTNode {
   type: 'FunctionDeclaration';
   id: Identifier;
   params: Identifier[];
+  /** Parameter defaults by index (`len = 14`); only set when one has a default. */
+  defaults?: (Expression | null)[];
   body: BlockStatement | Expression; // Multi-line or single-line
   export?: boolean;
   isMethod?: boolean;
@@ -158,6 +181,20 @@ export interface TypeDefinition extends ASTNode {
   export?: boolean;
 }
 
+/** Pine v6 `enum Name` block. */
+export interface EnumDeclaration extends ASTNode {
+  type: 'EnumDeclaration';
+  name: string;
+  members: EnumMember[];
+  export?: boolean;
+}
+
+export interface EnumMember extends ASTNode {
+  type: 'EnumMember';
+  id: Identifier;
+  title?: Literal; // `fast = "Fast"`; the title defaults to the member name
+}
+
 export interface ImportStatement extends ASTNode {
   type: 'ImportStatement';
   source: string; // "username/repo/version"
@@ -254,5 +291,6 @@ export interface TypeAnnotation extends ASTNode {
   type: 'TypeAnnotation';
   name: string; // int, float, bool, array, etc.
   arguments?: TypeAnnotation[]; // For generic types like array<int>
-  isArray?: boolean; // Deprecated/Legacy
+  isArray?: boolean; // `float[]` shorthand for `array<float>`
+  qualifier?: 'simple' | 'series'; // `const` lives on VariableDeclaration.kind
 }
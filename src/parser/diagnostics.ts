@@ -0,0 +1,79 @@
+/**
+ * Structured Diagnostics
+ *
+ * Located, coded problem reports produced by the lexer and parser in
+ * recovering mode, by the v4 upgrader, and by the type checker and
+ * scope resolver. Editors and the CLI consume these directly so every
+ * problem in a file can be shown at once instead of one thrown error
+ * at a time.
+ */
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Stable diagnostic codes. The numeric part is the contract — messages
+ * may be reworded between releases, codes may not.
+ *
+ * - `PINE1xxx` — lexical errors
+ * - `PINE2xxx` — syntax errors
+ * - `PINE3xxx` — type errors and version-dependent semantics (reported
+ *   by the type checker)
+ * - `PINE4xxx` — name resolution problems (reported by the scope resolver)
+ * - `PINE5xxx` — v4 code rewritten to v5 (reported by the upgrader)
+ */
+export const DiagnosticCode = {
+  UnexpectedCharacter: 'PINE1001',
+  UnterminatedString: 'PINE1002',
+  UnterminatedComment: 'PINE1003',
+  InconsistentIndentation: 'PINE1004',
+  SyntaxError: 'PINE2001',
+  ExpectedToken: 'PINE2002',
+  ExpectedExpression: 'PINE2003',
+  ExpectedNewline: 'PINE2004',
+  UnexpectedIndentation: 'PINE2005',
+  TypeMismatch: 'PINE3001',
+  QualifierMismatch: 'PINE3002',
+  UnknownField: 'PINE3003',
+  VersionDependentBehavior: 'PINE3004',
+  MissingArgument: 'PINE3005',
+  TooManyArguments: 'PINE3006',
+  UnknownArgument: 'PINE3007',
+  UndeclaredIdentifier: 'PINE4001',
+  UsedBeforeDeclaration: 'PINE4002',
+  AlreadyDeclared: 'PINE4003',
+  ShadowedBuiltin: 'PINE4004',
+  ShadowedVariable: 'PINE4005',
+  RenamedV4Builtin: 'PINE5001',
+  RewrittenV4Call: 'PINE5002',
+} as const;
+
+export type DiagnosticCodeValue =
+  (typeof DiagnosticCode)[keyof typeof DiagnosticCode];
+
+/**
+ * A single located problem. Lines and columns are 1-based; the end
+ * position is exclusive and equals the start for zero-width tokens
+ * (INDENT / DEDENT / EOF).
+ */
+export interface Diagnostic {
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * Render a diagnostic as a single human-readable line, e.g.
+ * `3:7 error PINE2003 Expect expression.`
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  return `${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.code} ${diagnostic.message}`;
+}
+
+/** True when any diagnostic in the list has `error` severity. */
+export function hasErrorDiagnostics(diagnostics: Diagnostic[]): boolean {
+  return diagnostics.some((d) => d.severity === 'error');
+}
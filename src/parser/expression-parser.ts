@@ -12,7 +12,7 @@ import type {
   TypeAnnotation,
 } from './ast';
 import { MAX_RECURSION_DEPTH, ParserBase } from './parser-base';
-import { TokenType } from './token-types';
+import { type Token, TokenType } from './token-types';
 
 /**
  * Mixin that provides expression parsing capabilities.
@@ -58,12 +58,15 @@ export abstract class ExpressionParser extends ParserBase {
         throw this.error(this.peek(), 'Expected : in ternary.');
       }
       const alternate = this.parseExpression();
-      return {
-        type: 'ConditionalExpression',
-        test: expr,
-        consequent,
-        alternate,
-      } as ConditionalExpression;
+      return this.withLocationFrom(
+        {
+          type: 'ConditionalExpression',
+          test: expr,
+          consequent,
+          alternate,
+        } as ConditionalExpression,
+        expr,
+      );
     }
     return expr;
   }
@@ -76,7 +79,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('or')) {
       const operator = 'or';
       const right = this.parseLogicalAnd();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -89,7 +95,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('and')) {
       const operator = 'and';
       const right = this.parseEquality();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -102,7 +111,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('==', '!=')) {
       const operator = this.previous().value;
       const right = this.parseComparison();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -115,7 +127,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('>', '<', '>=', '<=')) {
       const operator = this.previous().value;
       const right = this.parseTerm();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -128,7 +143,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('+', '-')) {
       const operator = this.previous().value;
       const right = this.parseFactor();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -141,7 +159,10 @@ export abstract class ExpressionParser extends ParserBase {
     while (this.matchOperator('*', '/', '%')) {
       const operator = this.previous().value;
       const right = this.parseUnary();
-      expr = { type: 'BinaryExpression', operator, left: expr, right };
+      expr = this.withLocationFrom(
+        { type: 'BinaryExpression' as const, operator, left: expr, right },
+        expr,
+      );
     }
     return expr;
   }
@@ -151,9 +172,17 @@ export abstract class ExpressionParser extends ParserBase {
    */
   protected parseUnary(): Expression {
     if (this.matchOperator('not', '-', '+')) {
-      const operator = this.previous().value;
+      const operatorToken = this.previous();
       const argument = this.parseUnary();
-      return { type: 'UnaryExpression', operator, argument, prefix: true };
+      return this.withLocation(
+        {
+          type: 'UnaryExpression' as const,
+          operator: operatorToken.value,
+          argument,
+          prefix: true,
+        },
+        operatorToken,
+      );
     }
     return this.parseCallOrMember();
   }
@@ -171,21 +200,30 @@ export abstract class ExpressionParser extends ParserBase {
         const name = this.consumeIdentifierLike(
           'Expected property name after .',
         );
-        expr = {
-          type: 'MemberExpression',
-          object: expr,
-          property: { type: 'Identifier', name: name.value },
-          computed: false,
-        };
+        expr = this.withLocationFrom(
+          {
+            type: 'MemberExpression' as const,
+            object: expr,
+            property: this.withLocation(
+              { type: 'Identifier' as const, name: name.value },
+              name,
+            ),
+            computed: false,
+          },
+          expr,
+        );
       } else if (this.match(TokenType.LBRACKET)) {
         const index = this.parseExpression();
         this.consume(TokenType.RBRACKET, 'Expected ]');
-        expr = {
-          type: 'MemberExpression',
-          object: expr,
-          property: index,
-          computed: true,
-        };
+        expr = this.withLocationFrom(
+          {
+            type: 'MemberExpression' as const,
+            object: expr,
+            property: index,
+            computed: true,
+          },
+          expr,
+        );
       } else if (this.isGenericCallStart()) {
         // Potential generic type arguments: f<int>() or obj.method<int>()
         this.advance(); // eat <
@@ -224,17 +262,26 @@ export abstract class ExpressionParser extends ParserBase {
           (this.check(TokenType.IDENTIFIER) || this.check(TokenType.KEYWORD)) &&
           this.peekNext()?.value === '='
         ) {
-          const name = this.consumeIdentifierLike(
+          const nameToken = this.consumeIdentifierLike(
             'Expected argument name.',
-          ).value;
+          );
           this.advance();
           const value = this.parseExpression();
-          args.push({
-            type: 'AssignmentExpression',
-            operator: '=',
-            left: { type: 'Identifier', name },
-            right: value,
-          });
+          args.push(
+            this.withLocation(
+              {
+                type: 'AssignmentExpression' as const,
+                operator: '=',
+                left: this.withLocation(
+                  { type: 'Identifier' as const, name: nameToken.value },
+                  nameToken,
+                  nameToken,
+                ),
+                right: value,
+              },
+              nameToken,
+            ),
+          );
         } else {
           args.push(this.parseExpression());
         }
@@ -242,12 +289,15 @@ export abstract class ExpressionParser extends ParserBase {
     }
     this.consume(TokenType.RPAREN, 'Expected ) after arguments.');
 
-    return {
-      type: 'CallExpression',
+    return this.withLocationFrom(
+      {
+        type: 'CallExpression' as const,
+        callee,
+        arguments: args,
+        typeArguments,
+      },
       callee,
-      arguments: args,
-      typeArguments,
-    };
+    );
   }
 
   /**
@@ -265,7 +315,7 @@ export abstract class ExpressionParser extends ParserBase {
    * stream (e.g. `syminfo.type`, `foo(type=...)`), so callers need a
    * broader "identifier-like" consume helper.
    */
-  protected consumeIdentifierLike(message: string): { value: string } {
+  protected consumeIdentifierLike(message: string): Token {
     if (this.check(TokenType.IDENTIFIER) || this.check(TokenType.KEYWORD)) {
       return this.advance();
     }
@@ -306,6 +356,7 @@ export abstract class ExpressionParser extends ParserBase {
         const allowed =
           token.type === TokenType.IDENTIFIER ||
           token.type === TokenType.KEYWORD ||
+          token.type === TokenType.DOT ||
           token.type === TokenType.COMMA ||
           token.type === TokenType.LBRACKET ||
           token.type === TokenType.RBRACKET;
@@ -5,22 +5,45 @@
  */
 
 export * from './ast';
+export {
+  type Diagnostic,
+  DiagnosticCode,
+  type DiagnosticCodeValue,
+  type DiagnosticSeverity,
+  formatDiagnostic,
+  hasErrorDiagnostics,
+} from './diagnostics';
 
 export { ExpressionParser } from './expression-parser';
-export { Lexer } from './lexer';
-export { type ParseResult, Parser } from './parser';
+export { Lexer, type LexerOptions } from './lexer';
+export { type ParseResult, Parser, type ParserOptions } from './parser';
 export {
   MAX_RECURSION_DEPTH,
   MAX_TOKEN_COUNT,
   ParseError,
   ParserBase,
   TYPE_KEYWORDS,
+  TYPE_QUALIFIERS,
 } from './parser-base';
-
 export {
+  type Comment,
   KEYWORDS,
   OPERATORS,
   SORTED_SYMBOL_OPERATORS,
   type Token,
   TokenType,
 } from './token-types';
+export {
+  DEFAULT_PINE_VERSION,
+  type VersionSemantics,
+  versionSemantics,
+} from './version';
+export {
+  type AnyNode,
+  type AstVisitor,
+  getChildNodes,
+  type NodeOfType,
+  replaceNode,
+  type VisitorCallback,
+  walk,
+} from './walker';
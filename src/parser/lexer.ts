@@ -5,7 +5,9 @@
  * Handles indentation-sensitive parsing for Python-like block structures.
  */
 
+import { type Diagnostic, DiagnosticCode } from './diagnostics';
 import {
+  type Comment,
   KEYWORDS,
   OPERATORS,
   SORTED_SYMBOL_OPERATORS,
@@ -14,7 +16,18 @@ import {
 } from './token-types';
 
 // Re-export for backward compatibility
-export { type Token, TokenType } from './token-types';
+export { type Comment, type Token, TokenType } from './token-types';
+
+export interface LexerOptions {
+  /**
+   * Record lexical errors as diagnostics and keep tokenizing instead
+   * of throwing on the first one. Used by the recovering parse.
+   */
+  recover?: boolean;
+}
+
+/** `//@version=N`, the compiler directive that selects the Pine version. */
+const VERSION_DIRECTIVE = /\/\/\s*@version\s*=\s*(\d+)/y;
 
 export class Lexer {
   private code: string;
@@ -29,10 +42,33 @@ export class Lexer {
    *  pairs out as top-level statements. The Python lexer uses the same
    *  rule (PEP 8 line continuation inside brackets). */
   private bracketDepth = 0;
+  private recover: boolean;
+  private diagnostics: Diagnostic[] = [];
+  private version: number | undefined;
+  private comments: Comment[] = [];
 
-  constructor(code: string) {
+  constructor(code: string, options: LexerOptions = {}) {
     // Normalize line endings
     this.code = code.replace(/\r\n/g, '\n');
+    this.recover = options.recover ?? false;
+  }
+
+  /** Lexical errors recorded while tokenizing in `recover` mode. */
+  public getDiagnostics(): Diagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  /**
+   * The `N` of the script's `//@version=N` directive, once tokenized;
+   * `undefined` when the script has none. Pass it on to the parser.
+   */
+  public getVersion(): number | undefined {
+    return this.version;
+  }
+
+  /** The script's comments in source order, once tokenized. */
+  public getComments(): Comment[] {
+    return [...this.comments];
   }
 
   public tokenize(): Token[] {
@@ -101,9 +137,15 @@ export class Lexer {
       }
 
       // Unknown character
-      throw new Error(
+      this.fail(
         `Unexpected character: '${char}' at ${this.line}:${this.column}`,
+        `Unexpected character '${char}'.`,
+        DiagnosticCode.UnexpectedCharacter,
+        this.line,
+        this.column,
+        1,
       );
+      this.advance();
     }
 
     // Emit remaining DEDENTs at EOF
@@ -116,6 +158,33 @@ export class Lexer {
     return this.tokens;
   }
 
+  /**
+   * Report a lexical error: throw `legacyMessage` in the default mode,
+   * or record a diagnostic and let the caller continue in `recover`
+   * mode.
+   */
+  private fail(
+    legacyMessage: string,
+    message: string,
+    code: string,
+    line: number,
+    column: number,
+    width: number,
+  ): void {
+    if (!this.recover) {
+      throw new Error(legacyMessage);
+    }
+    this.diagnostics.push({
+      code,
+      severity: 'error',
+      message,
+      line,
+      column,
+      endLine: line,
+      endColumn: column + width,
+    });
+  }
+
   private advance(count = 1): void {
     for (let i = 0; i < count; i++) {
       if (this.code[this.pos] === '\n') {
@@ -278,20 +347,41 @@ export class Lexer {
         this.addToken(TokenType.DEDENT, '', 0);
       }
       // Safety check: indentLevel should match a previous level now
-      if (indentLevel !== this.indentStack[this.indentStack.length - 1]) {
-        throw new Error(
-          `Indentation error at ${this.line}:${this.column}. Expected ${this.indentStack[this.indentStack.length - 1]}, got ${indentLevel}`,
+      const expected = this.indentStack[this.indentStack.length - 1];
+      if (indentLevel !== expected) {
+        this.fail(
+          `Indentation error at ${this.line}:${this.column}. Expected ${expected}, got ${indentLevel}`,
+          `Inconsistent indentation: expected ${expected} spaces, got ${indentLevel}.`,
+          DiagnosticCode.InconsistentIndentation,
+          this.line,
+          1,
+          indentLevel,
         );
       }
     }
   }
 
   private skipLineComment(): void {
+    if (this.version === undefined) {
+      VERSION_DIRECTIVE.lastIndex = this.pos;
+      const directive = VERSION_DIRECTIVE.exec(this.code);
+      if (directive) this.version = Number(directive[1]);
+    }
+    const start = this.pos;
+    const column = this.column;
     while (this.pos < this.code.length && this.code[this.pos] !== '\n') {
       this.pos++;
       // Don't advance column/line here, just skip chars until newline
       // Newline handler will pick up from here
     }
+    this.comments.push({
+      kind: 'line',
+      text: this.code.slice(start, this.pos),
+      line: this.line,
+      column,
+      start,
+      end: this.pos,
+    });
     // Don't consume the newline, let handleNewline take it
   }
 
@@ -300,6 +390,9 @@ export class Lexer {
    * Handles nested block comments and multi-line comments.
    */
   private skipBlockComment(): void {
+    const start = this.pos;
+    const startLine = this.line;
+    const startColumn = this.column;
     this.advance(); // Skip /
     this.advance(); // Skip *
 
@@ -329,10 +422,23 @@ export class Lexer {
     }
 
     if (depth > 0) {
-      throw new Error(
+      this.fail(
         `Unterminated block comment at ${this.line}:${this.column}`,
+        'Unterminated block comment.',
+        DiagnosticCode.UnterminatedComment,
+        startLine,
+        startColumn,
+        2,
       );
     }
+    this.comments.push({
+      kind: 'block',
+      text: this.code.slice(start, this.pos),
+      line: startLine,
+      column: startColumn,
+      start,
+      end: this.pos,
+    });
   }
 
   private readNumber(): void {
@@ -386,18 +492,34 @@ export class Lexer {
     while (this.pos < this.code.length && this.code[this.pos] !== quote) {
       // Check for unescaped newline (unterminated string on this line)
       if (this.code[this.pos] === '\n') {
-        throw new Error(
+        this.fail(
           `Unterminated string literal at ${startLine}:${startColumn}. String contains unescaped newline.`,
+          'Unterminated string literal.',
+          DiagnosticCode.UnterminatedString,
+          startLine,
+          startColumn,
+          this.pos - start,
         );
+        // Recovering: end the literal at the line break so the
+        // NEWLINE still separates statements.
+        this.pushStringToken(value, start, startLine, startColumn);
+        return;
       }
 
       if (this.code[this.pos] === '\\') {
         this.advance(); // Skip backslash
         // Check if we hit EOF after backslash
         if (this.pos >= this.code.length) {
-          throw new Error(
+          this.fail(
             `Unterminated string literal at ${startLine}:${startColumn}. Unexpected end of input after escape character.`,
+            'Unterminated string literal.',
+            DiagnosticCode.UnterminatedString,
+            startLine,
+            startColumn,
+            this.pos - start,
           );
+          this.pushStringToken(value, start, startLine, startColumn);
+          return;
         }
         // Handle escape sequences properly
         const escapeChar = this.code[this.pos];
@@ -480,18 +602,38 @@ export class Lexer {
 
     // Check for unterminated string (reached EOF without closing quote)
     if (this.pos >= this.code.length) {
-      throw new Error(
+      this.fail(
         `Unterminated string literal at ${startLine}:${startColumn}. Missing closing quote.`,
+        'Unterminated string literal.',
+        DiagnosticCode.UnterminatedString,
+        startLine,
+        startColumn,
+        this.pos - start,
       );
+      this.pushStringToken(value, start, startLine, startColumn);
+      return;
     }
 
     this.advance(); // Skip closing quote
 
+    this.pushStringToken(value, start, startLine, startColumn);
+  }
+
+  /**
+   * Emit a STRING token positioned at its opening quote. Also used for
+   * the partial token of an unterminated literal in `recover` mode.
+   */
+  private pushStringToken(
+    value: string,
+    start: number,
+    line: number,
+    column: number,
+  ): void {
     this.tokens.push({
       type: TokenType.STRING,
       value,
-      line: this.line,
-      column: this.column - value.length - 2,
+      line,
+      column,
       start,
       end: this.pos,
     });
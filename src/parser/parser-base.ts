@@ -5,6 +5,8 @@
  * token matching, error handling, and recovery mechanisms.
  */
 
+import type { ASTNode, SourceLocation } from './ast';
+import { type Diagnostic, DiagnosticCode } from './diagnostics';
 import { type Token, TokenType } from './lexer';
 
 /**
@@ -14,18 +16,41 @@ export class ParseError extends Error {
   public readonly line: number;
   public readonly column: number;
   public readonly tokenValue: string;
+  public readonly code: string;
+  public readonly endLine: number;
+  public readonly endColumn: number;
+  /** The message without the `[line:col] Error at` prefix. */
+  public readonly detail: string;
 
   constructor(
     message: string,
     line: number,
     column: number,
     tokenValue: string,
+    code: string = DiagnosticCode.SyntaxError,
+    endColumn: number = column + Math.max(tokenValue.length, 0),
   ) {
     super(`[line ${line}:${column}] Error at '${tokenValue}': ${message}`);
     this.name = 'ParseError';
     this.line = line;
     this.column = column;
     this.tokenValue = tokenValue;
+    this.code = code;
+    this.endLine = line;
+    this.endColumn = endColumn;
+    this.detail = message;
+  }
+
+  public toDiagnostic(): Diagnostic {
+    return {
+      code: this.code,
+      severity: 'error',
+      message: this.detail,
+      line: this.line,
+      column: this.column,
+      endLine: this.endLine,
+      endColumn: this.endColumn,
+    };
   }
 }
 
@@ -51,6 +76,13 @@ export const TYPE_KEYWORDS = [
   'matrix',
 ] as const;
 
+/**
+ * Qualifier keywords that may prefix a type annotation (`simple int
+ * len`, `series float src`). `const` is a statement keyword and is
+ * carried by `VariableDeclaration.kind` instead.
+ */
+export const TYPE_QUALIFIERS = ['simple', 'series'] as const;
+
 /**
  * Base class providing common parser operations
  */
@@ -59,6 +91,12 @@ export abstract class ParserBase {
   protected current = 0;
   protected errors: ParseError[] = [];
   protected recursionDepth = 0;
+  /**
+   * When set, blocks recover statement-by-statement (see
+   * {@link synchronizeStatement}) instead of letting the first error
+   * unwind to the top-level loop.
+   */
+  protected recovering = false;
 
   constructor(tokens: Token[]) {
     if (tokens.length > MAX_TOKEN_COUNT) {
@@ -121,15 +159,43 @@ export abstract class ParserBase {
 
   protected consume(type: TokenType, message: string): Token {
     if (this.check(type)) return this.advance();
-    throw this.error(this.peek(), message);
+    throw this.error(this.peek(), message, DiagnosticCode.ExpectedToken);
   }
 
   // ==========================================================================
   // Error Handling
   // ==========================================================================
 
-  protected error(token: Token, message: string): ParseError {
-    return new ParseError(message, token.line, token.column, token.value);
+  protected error(
+    token: Token,
+    message: string,
+    code: string = DiagnosticCode.SyntaxError,
+  ): ParseError {
+    // NEWLINE tokens carry '\n' as their value; report them as a
+    // one-column span rather than a line-spanning one.
+    const width =
+      token.type === TokenType.NEWLINE ? 1 : token.end - token.start;
+    return new ParseError(
+      message,
+      token.line,
+      token.column,
+      token.value,
+      code,
+      token.column + Math.max(width, 0),
+    );
+  }
+
+  /**
+   * Record an error in recovering mode. A second error at the exact
+   * position of the previous one is a cascade of the same problem and
+   * is dropped.
+   */
+  protected recordError(error: ParseError): void {
+    const last = this.errors[this.errors.length - 1];
+    if (last && last.line === error.line && last.column === error.column) {
+      return;
+    }
+    this.errors.push(error);
   }
 
   /**
@@ -150,6 +216,40 @@ export abstract class ParserBase {
     }
   }
 
+  /**
+   * Statement-level synchronization used in recovering mode. Skips to
+   * the next NEWLINE or DEDENT at the current block depth, swallowing
+   * any indented block that belongs to the broken statement (e.g. the
+   * body of an `if` whose condition failed to parse) and any `else`
+   * arm that follows it. Leaves a block-closing DEDENT unconsumed so
+   * the enclosing `parseBlock` can close normally.
+   */
+  protected synchronizeStatement(): void {
+    let depth = 0;
+    while (!this.isAtEnd()) {
+      const type = this.peek().type;
+      if (type === TokenType.INDENT) {
+        depth++;
+      } else if (type === TokenType.DEDENT) {
+        if (depth === 0) return;
+        depth--;
+        this.advance();
+        if (depth === 0 && !this.continuesBrokenStatement()) return;
+        continue;
+      } else if (type === TokenType.NEWLINE && depth === 0) {
+        this.advance();
+        if (!this.continuesBrokenStatement()) return;
+        continue;
+      }
+      this.advance();
+    }
+  }
+
+  private continuesBrokenStatement(): boolean {
+    if (this.check(TokenType.INDENT)) return true;
+    return this.check(TokenType.KEYWORD) && this.peek().value === 'else';
+  }
+
   // ==========================================================================
   // Type Annotations
   // ==========================================================================
@@ -160,6 +260,16 @@ export abstract class ParserBase {
     return TYPE_KEYWORDS.includes(val as (typeof TYPE_KEYWORDS)[number]);
   }
 
+  /** A qualifier keyword followed by the type it qualifies. */
+  protected checkQualifiedTypeAnnotation(): boolean {
+    if (!this.check(TokenType.IDENTIFIER)) return false;
+    return (
+      TYPE_QUALIFIERS.includes(
+        this.peek().value as (typeof TYPE_QUALIFIERS)[number],
+      ) && this.peekNext()?.type === TokenType.IDENTIFIER
+    );
+  }
+
   protected checkTypeAnnotationWithToken(token: Token): boolean {
     return TYPE_KEYWORDS.includes(
       token.value as (typeof TYPE_KEYWORDS)[number],
@@ -171,29 +281,77 @@ export abstract class ParserBase {
   // ==========================================================================
 
   /**
-   * Add location information to an AST node
+   * Add location information to an AST node. The range runs from the
+   * start of `startToken` to the end of `endToken`, which defaults to
+   * the last significant token consumed so far.
    */
   protected withLocation<T extends object>(
     node: T,
     startToken: Token,
     endToken?: Token,
-  ): T & {
-    start: number;
-    end: number;
-    loc: {
-      start: { line: number; column: number };
-      end: { line: number; column: number };
-    };
-  } {
-    const end = endToken || this.previous();
+  ): T & LocatedNode {
+    const end = endToken || this.lastSignificantToken();
     return {
       ...node,
       start: startToken.start,
       end: end.end,
       loc: {
         start: { line: startToken.line, column: startToken.column },
-        end: { line: end.line, column: end.column },
+        end: { line: end.line, column: tokenEndColumn(end) },
       },
     };
   }
+
+  /**
+   * Add location information spanning from an already-located child
+   * node (e.g. the left operand of a binary expression) to the last
+   * significant token consumed.
+   */
+  protected withLocationFrom<T extends object>(
+    node: T,
+    from: ASTNode,
+  ): T & Partial<LocatedNode> {
+    if (!from.loc || from.start === undefined) return node;
+    const end = this.lastSignificantToken();
+    return {
+      ...node,
+      start: from.start,
+      end: end.end,
+      loc: {
+        start: { ...from.loc.start },
+        end: { line: end.line, column: tokenEndColumn(end) },
+      },
+    };
+  }
+
+  /**
+   * The most recently consumed token that isn't layout (NEWLINE /
+   * INDENT / DEDENT), so statement ranges stop at their last real
+   * character rather than at the line break or block close.
+   */
+  protected lastSignificantToken(): Token {
+    for (let i = this.current - 1; i >= 0; i--) {
+      const type = this.tokens[i].type;
+      if (
+        type !== TokenType.NEWLINE &&
+        type !== TokenType.INDENT &&
+        type !== TokenType.DEDENT
+      ) {
+        return this.tokens[i];
+      }
+    }
+    return this.tokens[0];
+  }
+}
+
+interface LocatedNode {
+  start: number;
+  end: number;
+  loc: SourceLocation;
+}
+
+/** Exclusive end column of a (single-line) token. */
+function tokenEndColumn(token: Token): number {
+  if (token.type === TokenType.NEWLINE) return token.column + 1;
+  return token.column + Math.max(token.end - token.start, 0);
 }
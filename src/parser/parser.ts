@@ -8,9 +8,12 @@
 
 import type {
   BlockStatement,
+  EnumDeclaration,
+  EnumMember,
   Expression,
   FunctionDeclaration,
   Identifier,
+  Literal,
   MemberExpression,
   Program,
   Statement,
@@ -20,9 +23,11 @@ import type {
   TypeDefinition,
   VariableDeclaration,
 } from './ast';
+import { type Diagnostic, DiagnosticCode } from './diagnostics';
 import { ExpressionParser } from './expression-parser';
-import { TokenType } from './lexer';
+import { type Token, TokenType } from './lexer';
 import { ParseError } from './parser-base';
+import { DEFAULT_PINE_VERSION } from './version';
 
 /**
  * Result of parsing with collected errors
@@ -31,9 +36,23 @@ export interface ParseResult {
   program: Program;
   errors: ParseError[];
   hasErrors: boolean;
+  /** `errors` as structured diagnostics, in source order. */
+  diagnostics: Diagnostic[];
+}
+
+export interface ParserOptions {
+  /** The script's `//@version` directive, from `Lexer.getVersion()`. */
+  version?: number | undefined;
 }
 
 export class Parser extends ExpressionParser {
+  private readonly version: number;
+
+  constructor(tokens: Token[], options: ParserOptions = {}) {
+    super(tokens);
+    this.version = options.version ?? DEFAULT_PINE_VERSION;
+  }
+
   /**
    * Parse tokens into an AST Program node
    * Legacy method for backward compatibility
@@ -42,18 +61,43 @@ export class Parser extends ExpressionParser {
     return this.parseWithErrors().program;
   }
 
+  /**
+   * Error-recovering parse. Every statement that fails to parse is
+   * reported and skipped up to the next NEWLINE/DEDENT boundary at its
+   * own block depth, so one bad line inside a function body doesn't
+   * discard the rest of the function. The returned `program` is
+   * partial: broken statements are omitted, everything else is kept.
+   */
+  public parseRecovering(): ParseResult {
+    this.recovering = true;
+    try {
+      return this.parseWithErrors();
+    } finally {
+      this.recovering = false;
+    }
+  }
+
   /**
    * Parse tokens and return both the AST and any collected errors
    */
   public parseWithErrors(): ParseResult {
     this.errors = [];
     const body: Statement[] = [];
-    const version = 5; // Default
 
     while (!this.isAtEnd()) {
       // Skip empty newlines at top level
       if (this.match(TokenType.NEWLINE)) continue;
 
+      if (this.recovering) {
+        // A DEDENT can only surface here when an earlier broken
+        // statement unbalanced the block structure; it carries no
+        // information of its own.
+        if (this.match(TokenType.DEDENT)) continue;
+        const stmt = this.parseStatementRecovering();
+        if (stmt) body.push(stmt);
+        continue;
+      }
+
       try {
         const stmt = this.parseStatement();
         if (stmt) body.push(stmt);
@@ -79,13 +123,17 @@ export class Parser extends ExpressionParser {
     const program: Program = {
       type: 'Program',
       body,
-      version,
+      version: this.version,
     };
 
+    const errors = [...this.errors].sort(
+      (a, b) => a.line - b.line || a.column - b.column,
+    );
     return {
       program,
-      errors: this.errors,
-      hasErrors: this.errors.length > 0,
+      errors,
+      hasErrors: errors.length > 0,
+      diagnostics: errors.map((e) => e.toDiagnostic()),
     };
   }
 
@@ -100,7 +148,57 @@ export class Parser extends ExpressionParser {
   // Statement Parsing
   // ==========================================================================
 
+  /**
+   * Parse one statement, converting any failure into a recorded error
+   * and resynchronizing at the next statement boundary.
+   */
+  private parseStatementRecovering(): Statement | null {
+    if (this.check(TokenType.INDENT)) {
+      this.recordError(
+        this.error(
+          this.peek(),
+          'Unexpected indentation.',
+          DiagnosticCode.UnexpectedIndentation,
+        ),
+      );
+      this.synchronizeStatement();
+      return null;
+    }
+    const before = this.current;
+    try {
+      return this.parseStatement();
+    } catch (error) {
+      if (error instanceof ParseError) {
+        this.recordError(error);
+      } else if (error instanceof Error) {
+        const token = this.peek();
+        this.recordError(
+          new ParseError(error.message, token.line, token.column, token.value),
+        );
+      }
+      this.synchronizeStatement();
+      // Guarantee forward progress when the failure sat on a boundary
+      // token the synchronizer deliberately leaves in place.
+      if (this.current === before && !this.check(TokenType.DEDENT)) {
+        this.advance();
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Parse one statement and stamp it with the source range running
+   * from its first token (including any `export` / qualifier keyword)
+   * to its last significant token.
+   */
   private parseStatement(): Statement | null {
+    const startToken = this.peek();
+    const stmt = this.parseStatementNode();
+    if (!stmt) return null;
+    return this.withLocation(stmt, startToken);
+  }
+
+  private parseStatementNode(): Statement | null {
     if (this.match(TokenType.KEYWORD)) {
       const keyword = this.previous().value;
       switch (keyword) {
@@ -129,6 +227,8 @@ export class Parser extends ExpressionParser {
           return this.parseSwitchStatement();
         case 'type':
           return this.parseTypeDefinition();
+        case 'enum':
+          return this.parseEnumDeclaration();
         case 'import':
           return this.parseImportStatement();
         case 'export':
@@ -148,14 +248,19 @@ export class Parser extends ExpressionParser {
       }
     }
 
+    let declarationError: ParseError | undefined;
     if (
       this.check(TokenType.IDENTIFIER) ||
       this.check(TokenType.LBRACKET) ||
       this.checkTypeAnnotation()
     ) {
       const start = this.current;
+      const errorCount = this.errors.length;
       try {
-        const first = this.parseVariableOrAssignment();
+        const first = this.withLocation(
+          this.parseVariableOrAssignment(),
+          this.tokens[start],
+        );
         // Pine permits comma-separated declarations on one line:
         //   `bool a = false, bool b = true`
         //   `int prev_ph_bi = na, int prev_pl_bi = na`
@@ -173,7 +278,10 @@ export class Parser extends ExpressionParser {
         }
         const decls: Statement[] = [first];
         while (this.match(TokenType.COMMA)) {
-          decls.push(this.parseVariableOrAssignment());
+          const itemStart = this.peek();
+          decls.push(
+            this.withLocation(this.parseVariableOrAssignment(), itemStart),
+          );
         }
         return { type: 'BlockStatement', body: decls };
       } catch (e) {
@@ -188,19 +296,52 @@ export class Parser extends ExpressionParser {
           throw e;
         }
         this.current = start;
+        // Errors recovered inside the abandoned attempt (recovering
+        // mode only) describe a parse we're discarding.
+        this.errors.length = errorCount;
+        declarationError = e;
       }
     }
 
+    if (!declarationError) {
+      return this.parseExpressionStatement();
+    }
+    try {
+      return this.parseExpressionStatement();
+    } catch (e) {
+      // Neither reading parsed. Report the one that got further: for
+      // `a = 1 +* 2` the declaration attempt fails at `*`, while the
+      // expression fallback gives up at `=` with a misleading
+      // "expected newline".
+      if (
+        e instanceof ParseError &&
+        (e.line < declarationError.line ||
+          (e.line === declarationError.line &&
+            e.column < declarationError.column))
+      ) {
+        throw declarationError;
+      }
+      throw e;
+    }
+  }
+
+  private parseExpressionStatement(): Statement {
     const expr = this.parseExpression();
     if (this.check(TokenType.COMMA)) {
       const items: Statement[] = [
-        { type: 'ExpressionStatement', expression: expr },
+        this.withLocationFrom(
+          { type: 'ExpressionStatement' as const, expression: expr },
+          expr,
+        ),
       ];
       while (this.match(TokenType.COMMA)) {
-        items.push({
-          type: 'ExpressionStatement',
-          expression: this.parseExpression(),
-        });
+        const item = this.parseExpression();
+        items.push(
+          this.withLocationFrom(
+            { type: 'ExpressionStatement' as const, expression: item },
+            item,
+          ),
+        );
       }
       if (
         this.match(TokenType.NEWLINE) ||
@@ -209,7 +350,11 @@ export class Parser extends ExpressionParser {
       ) {
         return { type: 'BlockStatement', body: items };
       }
-      throw this.error(this.peek(), 'Expected newline after statement.');
+      throw this.error(
+        this.peek(),
+        'Expected newline after statement.',
+        DiagnosticCode.ExpectedNewline,
+      );
     }
 
     if (
@@ -220,7 +365,11 @@ export class Parser extends ExpressionParser {
       return { type: 'ExpressionStatement', expression: expr };
     }
 
-    throw this.error(this.peek(), 'Expected newline after statement.');
+    throw this.error(
+      this.peek(),
+      'Expected newline after statement.',
+      DiagnosticCode.ExpectedNewline,
+    );
   }
 
   private parseBlock(): BlockStatement {
@@ -235,17 +384,26 @@ export class Parser extends ExpressionParser {
     while (this.match(TokenType.NEWLINE)) {
       // skip
     }
-    this.consume(TokenType.INDENT, 'Expected indentation for block.');
+    // INDENT is zero-width and sits at the first statement's column.
+    const indentToken = this.consume(
+      TokenType.INDENT,
+      'Expected indentation for block.',
+    );
 
     const body: Statement[] = [];
     while (!this.check(TokenType.DEDENT) && !this.isAtEnd()) {
       if (this.match(TokenType.NEWLINE)) continue;
-      const stmt = this.parseStatement();
+      const stmt = this.recovering
+        ? this.parseStatementRecovering()
+        : this.parseStatement();
       if (stmt) body.push(stmt);
     }
 
     this.consume(TokenType.DEDENT, 'Expected end of block (dedent).');
-    return { type: 'BlockStatement', body };
+    return this.withLocation(
+      { type: 'BlockStatement' as const, body },
+      indentToken,
+    );
   }
 
   // ==========================================================================
@@ -253,6 +411,7 @@ export class Parser extends ExpressionParser {
   // ==========================================================================
 
   private parseIfStatement(): Statement {
+    const ifToken = this.previous();
     const condition = this.parseExpression();
 
     let consequent: BlockStatement | Statement;
@@ -285,7 +444,10 @@ export class Parser extends ExpressionParser {
       }
     }
 
-    return { type: 'IfStatement', test: condition, consequent, alternate };
+    return this.withLocation(
+      { type: 'IfStatement' as const, test: condition, consequent, alternate },
+      ifToken,
+    );
   }
 
   private parseWhileStatement(): Statement {
@@ -302,16 +464,7 @@ export class Parser extends ExpressionParser {
     let id: Identifier | Identifier[];
 
     if (this.match(TokenType.LBRACKET)) {
-      const ids: Identifier[] = [];
-      do {
-        const name = this.consume(
-          TokenType.IDENTIFIER,
-          'Expected identifier in tuple.',
-        ).value;
-        ids.push({ type: 'Identifier', name });
-      } while (this.match(TokenType.COMMA));
-      this.consume(TokenType.RBRACKET, 'Expected ]');
-      id = ids;
+      id = this.parseTupleIdentifiers();
 
       if (this.check(TokenType.KEYWORD) && this.peek().value === 'in') {
         this.advance();
@@ -330,11 +483,14 @@ export class Parser extends ExpressionParser {
       return { type: 'ForInStatement', left: id, right, body };
     }
 
-    const name = this.consume(
+    const nameToken = this.consume(
       TokenType.IDENTIFIER,
       'Expected variable name after for.',
-    ).value;
-    const idNode: Identifier = { type: 'Identifier', name };
+    );
+    const idNode: Identifier = this.withLocation(
+      { type: 'Identifier' as const, name: nameToken.value },
+      nameToken,
+    );
 
     if (this.check(TokenType.KEYWORD) && this.peek().value === 'in') {
       this.advance();
@@ -351,6 +507,15 @@ export class Parser extends ExpressionParser {
     if (this.check(TokenType.OPERATOR) && this.peek().value === '=') {
       this.advance();
       const startExpr = this.parseExpression();
+      const init = this.withLocation(
+        {
+          type: 'AssignmentExpression' as const,
+          operator: '=',
+          left: idNode,
+          right: startExpr,
+        },
+        nameToken,
+      );
 
       const toToken = this.consume(
         TokenType.IDENTIFIER,
@@ -359,6 +524,17 @@ export class Parser extends ExpressionParser {
       if (toToken.value !== 'to') throw this.error(toToken, 'Expected "to".');
 
       const endExpr = this.parseExpression();
+      // The loop bound is synthesized as `counter <= end`; it spans
+      // the `counter = start to end` header.
+      const test = this.withLocation(
+        {
+          type: 'BinaryExpression' as const,
+          operator: '<=',
+          left: idNode,
+          right: endExpr,
+        },
+        nameToken,
+      );
 
       let step: Expression | undefined;
       if (this.check(TokenType.IDENTIFIER) && this.peek().value === 'by') {
@@ -370,18 +546,8 @@ export class Parser extends ExpressionParser {
         const body = this.parseBlock();
         return {
           type: 'ForStatement',
-          init: {
-            type: 'AssignmentExpression',
-            operator: '=',
-            left: idNode,
-            right: startExpr,
-          },
-          test: {
-            type: 'BinaryExpression',
-            operator: '<=',
-            left: idNode,
-            right: endExpr,
-          },
+          init,
+          test,
           update: step,
           body,
         };
@@ -401,6 +567,7 @@ export class Parser extends ExpressionParser {
   }
 
   private parseSwitchStatement(): SwitchStatement {
+    const switchToken = this.previous();
     let discriminant: Expression | undefined;
 
     if (!this.match(TokenType.NEWLINE)) {
@@ -417,6 +584,7 @@ export class Parser extends ExpressionParser {
     while (!this.check(TokenType.DEDENT) && !this.isAtEnd()) {
       if (this.match(TokenType.NEWLINE)) continue;
 
+      const caseToken = this.peek();
       // Switch case can start with either `=>` (default arm, no test
       // expression) or `<test> =>`. Peek-then-conditional-advance to
       // avoid eating an unrelated operator: the previous form
@@ -444,12 +612,20 @@ export class Parser extends ExpressionParser {
         consequent = this.parseExpression();
       }
 
-      cases.push({ type: 'SwitchCase', test, consequent });
+      cases.push(
+        this.withLocation(
+          { type: 'SwitchCase' as const, test, consequent },
+          caseToken,
+        ),
+      );
       this.match(TokenType.NEWLINE);
     }
 
     this.consume(TokenType.DEDENT, 'Expected dedent after switch.');
-    return { type: 'SwitchStatement', discriminant, cases };
+    return this.withLocation(
+      { type: 'SwitchStatement' as const, discriminant, cases },
+      switchToken,
+    );
   }
 
   // ==========================================================================
@@ -469,29 +645,22 @@ export class Parser extends ExpressionParser {
     while (!this.check(TokenType.DEDENT) && !this.isAtEnd()) {
       if (this.match(TokenType.NEWLINE)) continue;
 
+      const fieldToken = this.peek();
       let typeAnnotation: TypeAnnotation | undefined;
       if (this.checkTypeAnnotation()) {
         typeAnnotation = this.parseTypeAnnotation();
       } else if (this.isUserTypeFieldPrefix()) {
         // Pine v6 type fields can themselves be user-defined types or
         // arrays of them: `Imbalance[] imbalance`,
-        // `Imbalance_Settings settings`. Discard the type identifier
-        // (and optional `[]`) so the field-name parse below succeeds;
-        // we don't enforce field types at codegen.
-        this.advance();
-        while (
-          this.check(TokenType.LBRACKET) &&
-          this.peekNext()?.type === TokenType.RBRACKET
-        ) {
-          this.advance();
-          this.advance();
-        }
+        // `Imbalance_Settings settings`. Codegen ignores field types;
+        // the type checker resolves them against the declared UDTs.
+        typeAnnotation = this.parseTypeAnnotation();
       }
 
-      const fieldName = this.consume(
+      const fieldNameToken = this.consume(
         TokenType.IDENTIFIER,
         'Expected field name.',
-      ).value;
+      );
 
       let init: Expression | null = null;
       if (this.check(TokenType.OPERATOR) && this.peek().value === '=') {
@@ -499,13 +668,18 @@ export class Parser extends ExpressionParser {
         init = this.parseExpression();
       }
 
-      fields.push({
-        type: 'VariableDeclaration',
-        id: { type: 'Identifier', name: fieldName },
-        init,
-        kind: 'let',
-        typeAnnotation,
-      });
+      fields.push(
+        this.withLocation(
+          {
+            type: 'VariableDeclaration' as const,
+            id: this.identifierFrom(fieldNameToken),
+            init,
+            kind: 'let' as const,
+            typeAnnotation,
+          },
+          fieldToken,
+        ),
+      );
 
       this.match(TokenType.NEWLINE);
     }
@@ -514,14 +688,72 @@ export class Parser extends ExpressionParser {
     return { type: 'TypeDefinition', name, fields };
   }
 
-  private parseFunctionDeclaration(): FunctionDeclaration {
+  /**
+   * `enum Name` followed by an indented member list; each member may
+   * carry a display title (`fast = "Fast MA"`).
+   */
+  private parseEnumDeclaration(): EnumDeclaration {
     const name = this.consume(
       TokenType.IDENTIFIER,
-      'Expected function name.',
+      'Expected enum name.',
     ).value;
+    this.consume(TokenType.NEWLINE, 'Expected newline after enum name.');
+    this.consume(TokenType.INDENT, 'Expected indentation for enum members.');
+
+    const members: EnumMember[] = [];
+
+    while (!this.check(TokenType.DEDENT) && !this.isAtEnd()) {
+      if (this.match(TokenType.NEWLINE)) continue;
+
+      const memberToken = this.consume(
+        TokenType.IDENTIFIER,
+        'Expected enum member name.',
+      );
+      let title: Literal | undefined;
+      if (this.check(TokenType.OPERATOR) && this.peek().value === '=') {
+        this.advance();
+        const titleToken = this.consume(
+          TokenType.STRING,
+          'Expected string title for enum member.',
+        );
+        title = this.withLocation(
+          {
+            type: 'Literal' as const,
+            value: titleToken.value,
+            raw: titleToken.value,
+            kind: 'string' as const,
+          },
+          titleToken,
+        );
+      }
+
+      members.push(
+        this.withLocation(
+          {
+            type: 'EnumMember' as const,
+            id: this.identifierFrom(memberToken),
+            ...(title ? { title } : {}),
+          },
+          memberToken,
+        ),
+      );
+
+      this.match(TokenType.NEWLINE);
+    }
+
+    this.consume(TokenType.DEDENT, 'Expected dedent after enum declaration.');
+    return { type: 'EnumDeclaration', name, members };
+  }
+
+  private parseFunctionDeclaration(): FunctionDeclaration {
+    const nameToken = this.consume(
+      TokenType.IDENTIFIER,
+      'Expected function name.',
+    );
     this.consume(TokenType.LPAREN, 'Expected ( after function name.');
 
     const params: Identifier[] = [];
+    const defaults: (Expression | null)[] = [];
     if (!this.check(TokenType.RPAREN)) {
       do {
         let typeAnnotation: TypeAnnotation | undefined;
@@ -529,11 +761,13 @@ export class Parser extends ExpressionParser {
           const next = this.peekNext();
           if (
             next?.type === TokenType.IDENTIFIER ||
+            next?.type === TokenType.DOT ||
             next?.value === '<' ||
             this.checkTypeAnnotation()
           ) {
             if (
               this.checkTypeAnnotation() ||
+              next?.type === TokenType.DOT ||
               (next?.type === TokenType.IDENTIFIER &&
                 !['=', ',', ')'].includes(next.value))
             ) {
@@ -551,20 +785,27 @@ export class Parser extends ExpressionParser {
           }
         }
 
-        const paramName = this.consume(
+        const paramToken = this.consume(
           TokenType.IDENTIFIER,
           'Expected parameter name.',
-        ).value;
-        params.push({
-          type: 'Identifier',
-          name: paramName,
-          typeAnnotation,
-        });
+        );
+        params.push(
+          this.withLocation(
+            {
+              type: 'Identifier' as const,
+              name: paramToken.value,
+              typeAnnotation,
+            },
+            paramToken,
+          ),
+        );
 
+        let defaultValue: Expression | null = null;
         if (this.check(TokenType.OPERATOR) && this.peek().value === '=') {
           this.advance();
-          this.parseExpression();
+          defaultValue = this.parseExpression();
         }
+        defaults.push(defaultValue);
       } while (this.match(TokenType.COMMA));
     }
     this.consume(TokenType.RPAREN, 'Expected ) after parameters.');
@@ -582,8 +823,9 @@ export class Parser extends ExpressionParser {
 
     return {
       type: 'FunctionDeclaration',
-      id: { type: 'Identifier', name },
+      id: this.identifierFrom(nameToken),
       params,
+      ...(defaults.some(Boolean) ? { defaults } : {}),
       body,
     };
   }
@@ -597,7 +839,7 @@ export class Parser extends ExpressionParser {
    */
   private isUserTypeFieldPrefix(): boolean {
     if (!this.check(TokenType.IDENTIFIER)) return false;
-    let lookahead = this.current + 1;
+    let lookahead = this.skipDottedName(this.current);
     while (
       this.tokens[lookahead]?.type === TokenType.LBRACKET &&
       this.tokens[lookahead + 1]?.type === TokenType.RBRACKET
@@ -616,7 +858,7 @@ export class Parser extends ExpressionParser {
    */
   private isUserTypePrefix(): boolean {
     if (!this.check(TokenType.IDENTIFIER)) return false;
-    let lookahead = this.current + 1;
+    let lookahead = this.skipDottedName(this.current);
     // Skip any `[]` after the first identifier.
     while (
       this.tokens[lookahead]?.type === TokenType.LBRACKET &&
@@ -631,38 +873,48 @@ export class Parser extends ExpressionParser {
     return ['=', ':=', '+=', '-=', '*=', '/=', '%='].includes(after.value);
   }
 
+  /**
+   * The token index just past the name starting at `index`, which may
+   * be qualified by a library alias (`Geo.Point`).
+   */
+  private skipDottedName(index: number): number {
+    let end = index + 1;
+    while (
+      this.tokens[end]?.type === TokenType.DOT &&
+      this.tokens[end + 1]?.type === TokenType.IDENTIFIER
+    ) {
+      end += 2;
+    }
+    return end;
+  }
+
   private parseVariableOrAssignment(): Statement {
+    const startToken = this.peek();
     const typeAnnotation = this.tryParseLeadingTypeAnnotation();
 
     let id: Identifier | Expression | Identifier[];
     if (this.match(TokenType.LBRACKET)) {
-      const ids: Identifier[] = [];
-      do {
-        const name = this.consume(
-          TokenType.IDENTIFIER,
-          'Expected identifier in tuple.',
-        ).value;
-        ids.push({ type: 'Identifier', name });
-      } while (this.match(TokenType.COMMA));
-      this.consume(TokenType.RBRACKET, 'Expected ]');
-      id = ids;
+      id = this.parseTupleIdentifiers();
     } else {
-      const name = this.consume(
+      const nameToken = this.consume(
         TokenType.IDENTIFIER,
         'Expected identifier.',
-      ).value;
-      let expr: Expression = { type: 'Identifier', name };
+      );
+      let expr: Expression = this.identifierFrom(nameToken);
 
       while (this.match(TokenType.DOT)) {
         const prop = this.consumeIdentifierLike(
           'Expected property name after .',
-        ).value;
-        expr = {
-          type: 'MemberExpression',
-          object: expr,
-          property: { type: 'Identifier', name: prop },
-          computed: false,
-        };
+        );
+        expr = this.withLocation<MemberExpression>(
+          {
+            type: 'MemberExpression',
+            object: expr,
+            property: this.identifierFrom(prop),
+            computed: false,
+          },
+          nameToken,
+        );
       }
       id = expr;
     }
@@ -698,13 +950,16 @@ export class Parser extends ExpressionParser {
     ) {
       return {
         type: 'ExpressionStatement',
-        expression: {
-          type: 'AssignmentExpression',
-          operator:
-            operator === ':=' ? ':=' : operator === '=' ? '=' : operator,
-          left: id as Identifier | MemberExpression,
-          right: init,
-        },
+        expression: this.withLocation(
+          {
+            type: 'AssignmentExpression' as const,
+            operator:
+              operator === ':=' ? ':=' : operator === '=' ? '=' : operator,
+            left: id as Identifier | MemberExpression,
+            right: init,
+          },
+          startToken,
+        ),
       };
     }
 
@@ -731,23 +986,27 @@ export class Parser extends ExpressionParser {
   }
 
   private parseVariableDeclaration(kind: string): VariableDeclaration {
+    const startToken = this.peek();
     const typeAnnotation = this.tryParseLeadingTypeAnnotation();
 
-    const name = this.consume(
+    const nameToken = this.consume(
       TokenType.IDENTIFIER,
       'Expected variable name.',
-    ).value;
+    );
     this.consume(TokenType.OPERATOR, 'Expected =');
 
     const init = this.parseExpression();
 
-    return {
-      type: 'VariableDeclaration',
-      id: { type: 'Identifier', name },
-      init,
-      kind: kind as 'var' | 'varip' | 'const' | 'let',
-      typeAnnotation,
-    };
+    return this.withLocation(
+      {
+        type: 'VariableDeclaration' as const,
+        id: this.identifierFrom(nameToken),
+        init,
+        kind: kind as 'var' | 'varip' | 'const' | 'let',
+        typeAnnotation,
+      },
+      startToken,
+    );
   }
 
   /**
@@ -764,14 +1023,19 @@ export class Parser extends ExpressionParser {
 
     const items: Statement[] = [first];
     while (this.match(TokenType.COMMA)) {
-      let itemKind = kind;
+      // The qualifier binds to its own declaration only: in
+      // `var a = 0, b = a` the second one is a plain declaration.
+      let itemKind = 'let';
       if (
         this.check(TokenType.KEYWORD) &&
         ['var', 'varip', 'const', 'let'].includes(this.peek().value)
       ) {
         itemKind = this.advance().value;
       }
-      items.push(this.parseQualifiedListItem(itemKind));
+      const itemStart = this.peek();
+      items.push(
+        this.withLocation(this.parseQualifiedListItem(itemKind), itemStart),
+      );
     }
 
     return { type: 'BlockStatement', body: items };
@@ -783,12 +1047,13 @@ export class Parser extends ExpressionParser {
    * (`x := ...`, `x += ...`).
    */
   private parseQualifiedListItem(kind: string): Statement {
+    const startToken = this.peek();
     const typeAnnotation = this.tryParseLeadingTypeAnnotation();
 
-    const name = this.consume(
+    const nameToken = this.consume(
       TokenType.IDENTIFIER,
       'Expected variable name.',
-    ).value;
+    );
     const operatorToken = this.consume(TokenType.OPERATOR, 'Expected = or :=');
     const operator = operatorToken.value;
     const COMPOUND_ASSIGN = new Set(['+=', '-=', '*=', '/=', '%=']);
@@ -804,29 +1069,45 @@ export class Parser extends ExpressionParser {
     if (operator === ':=' || COMPOUND_ASSIGN.has(operator)) {
       return {
         type: 'ExpressionStatement',
-        expression: {
-          type: 'AssignmentExpression',
-          operator: operator === ':=' ? ':=' : operator,
-          left: { type: 'Identifier', name },
-          right: init,
-        },
+        expression: this.withLocation(
+          {
+            type: 'AssignmentExpression' as const,
+            operator: operator === ':=' ? ':=' : operator,
+            left: this.identifierFrom(nameToken),
+            right: init,
+          },
+          startToken,
+        ),
       };
     }
 
     return {
       type: 'VariableDeclaration',
-      id: { type: 'Identifier', name },
+      id: this.identifierFrom(nameToken),
       init,
       kind: kind as 'var' | 'varip' | 'const' | 'let',
       typeAnnotation,
     };
   }
 
+  /**
+   * `import user/lib/1 as Lib`. The path may also be quoted; unquoted,
+   * it is lexed as identifiers, `/` operators and a version number.
+   */
   private parseImportStatement(): Statement {
-    const source = this.consume(
-      TokenType.STRING,
-      'Expected library path string.',
-    ).value;
+    let source = '';
+    if (this.check(TokenType.STRING)) {
+      source = this.advance().value;
+    } else {
+      while (
+        !this.check(TokenType.NEWLINE) &&
+        !this.isAtEnd() &&
+        this.peek().value !== 'as'
+      ) {
+        source += this.advance().value;
+      }
+      if (!source) throw this.error(this.peek(), 'Expected library path.');
+    }
     let as: string | undefined;
     if (
       (this.check(TokenType.KEYWORD) || this.check(TokenType.IDENTIFIER)) &&
@@ -847,6 +1128,12 @@ export class Parser extends ExpressionParser {
         node.export = true;
         return node;
       }
+      if (keyword === 'enum') {
+        this.advance();
+        const node = this.parseEnumDeclaration();
+        node.export = true;
+        return node;
+      }
       if (['var', 'varip', 'const', 'let'].includes(keyword)) {
         this.advance();
         const node = this.parseVariableDeclaration(keyword);
@@ -886,10 +1173,20 @@ export class Parser extends ExpressionParser {
   // ==========================================================================
 
   protected parseTypeAnnotation(): TypeAnnotation {
-    const name = this.consume(
-      TokenType.IDENTIFIER,
-      'Expected type name.',
-    ).value;
+    const startToken = this.peek();
+    let qualifier: TypeAnnotation['qualifier'];
+    if (this.checkQualifiedTypeAnnotation()) {
+      qualifier = this.advance().value as TypeAnnotation['qualifier'];
+    }
+    let name = this.consume(TokenType.IDENTIFIER, 'Expected type name.').value;
+    // Library types are qualified by the import alias: `Geo.Point`.
+    while (
+      this.check(TokenType.DOT) &&
+      this.peekNext()?.type === TokenType.IDENTIFIER
+    ) {
+      this.advance();
+      name += `.${this.advance().value}`;
+    }
     let args: TypeAnnotation[] | undefined;
 
     if (this.matchOperator('<')) {
@@ -904,18 +1201,29 @@ export class Parser extends ExpressionParser {
 
     // Pine v6 array type suffix: `float[]`, `int[]`, etc. Consume the
     // empty brackets so downstream parsing doesn't see them as the
-    // start of a destructure/subscript. The type info is informational
-    // only for the runtime — the array.* mappings handle the actual
-    // operations regardless of the declared element type.
+    // start of a destructure/subscript. Only the type checker reads
+    // `isArray` — the array.* mappings handle the actual operations
+    // regardless of the declared element type.
+    let isArray: true | undefined;
     while (
       this.check(TokenType.LBRACKET) &&
       this.peekNext()?.type === TokenType.RBRACKET
     ) {
       this.advance(); // [
       this.advance(); // ]
+      isArray = true;
     }
 
-    return { type: 'TypeAnnotation', name, arguments: args };
+    return this.withLocation(
+      {
+        type: 'TypeAnnotation' as const,
+        name,
+        arguments: args,
+        ...(isArray ? { isArray } : {}),
+        ...(qualifier ? { qualifier } : {}),
+      },
+      startToken,
+    );
   }
 
   /**
@@ -925,7 +1233,11 @@ export class Parser extends ExpressionParser {
    * (e.g. `var matrix = ...`, `box = ...`) as declarations-with-type.
    */
   private tryParseLeadingTypeAnnotation(): TypeAnnotation | undefined {
-    if (!this.checkTypeAnnotation() && !this.isUserTypePrefix()) {
+    if (
+      !this.checkQualifiedTypeAnnotation() &&
+      !this.checkTypeAnnotation() &&
+      !this.isUserTypePrefix()
+    ) {
       return undefined;
     }
 
@@ -949,17 +1261,20 @@ export class Parser extends ExpressionParser {
 
   protected parsePrimary(): Expression {
     if (this.check(TokenType.KEYWORD) && this.peek().value === 'if') {
-      this.advance();
-      return this.parseIfExpression();
+      const ifToken = this.advance();
+      return this.withLocation(this.parseIfExpression(), ifToken);
     }
     if (this.check(TokenType.KEYWORD) && this.peek().value === 'switch') {
-      this.advance();
+      const switchToken = this.advance();
       const stmt = this.parseSwitchStatement();
-      return {
-        type: 'SwitchExpression',
-        discriminant: stmt.discriminant,
-        cases: stmt.cases,
-      };
+      return this.withLocation(
+        {
+          type: 'SwitchExpression' as const,
+          discriminant: stmt.discriminant,
+          cases: stmt.cases,
+        },
+        switchToken,
+      );
     }
 
     if (this.match(TokenType.NUMBER)) {
@@ -1050,7 +1365,11 @@ export class Parser extends ExpressionParser {
       );
     }
 
-    throw this.error(this.peek(), 'Expect expression.');
+    throw this.error(
+      this.peek(),
+      'Expect expression.',
+      DiagnosticCode.ExpectedExpression,
+    );
   }
 
   /**
@@ -1067,24 +1386,39 @@ export class Parser extends ExpressionParser {
 
     const firstTest = this.parseExpression();
     const firstConsequent = this.parseIfExpressionConsequent();
-    cases.push({
-      type: 'SwitchCase',
-      test: firstTest,
-      consequent: firstConsequent,
-    });
+    cases.push(
+      this.withLocationFrom(
+        {
+          type: 'SwitchCase' as const,
+          test: firstTest,
+          consequent: firstConsequent,
+        },
+        firstTest,
+      ),
+    );
 
     while (this.check(TokenType.KEYWORD) && this.peek().value === 'else') {
-      this.advance(); // else
+      const elseToken = this.advance();
       if (this.check(TokenType.KEYWORD) && this.peek().value === 'if') {
         this.advance(); // if
         const test = this.parseExpression();
         const consequent = this.parseIfExpressionConsequent();
-        cases.push({ type: 'SwitchCase', test, consequent });
+        cases.push(
+          this.withLocation(
+            { type: 'SwitchCase' as const, test, consequent },
+            elseToken,
+          ),
+        );
         continue;
       }
 
       const consequent = this.parseIfExpressionConsequent();
-      cases.push({ type: 'SwitchCase', test: null, consequent });
+      cases.push(
+        this.withLocation(
+          { type: 'SwitchCase' as const, test: null, consequent },
+          elseToken,
+        ),
+      );
       break;
     }
 
@@ -1106,6 +1440,31 @@ export class Parser extends ExpressionParser {
   // Helpers
   // ==========================================================================
 
+  private identifierFrom(token: Token): Identifier {
+    return this.withLocation(
+      { type: 'Identifier' as const, name: token.value },
+      token,
+      token,
+    );
+  }
+
+  /**
+   * Parse `a, b, c]` after a consumed `[` — the identifier list of a
+   * tuple declaration, reassignment or `for [i, x] in` loop.
+   */
+  private parseTupleIdentifiers(): Identifier[] {
+    const ids: Identifier[] = [];
+    do {
+      ids.push(
+        this.identifierFrom(
+          this.consume(TokenType.IDENTIFIER, 'Expected identifier in tuple.'),
+        ),
+      );
+    } while (this.match(TokenType.COMMA));
+    this.consume(TokenType.RBRACKET, 'Expected ]');
+    return ids;
+  }
+
   private isFunctionDeclaration(): boolean {
     let temp = this.current + 1;
     if (this.tokens[temp].type !== TokenType.LPAREN) return false;
@@ -46,6 +46,21 @@ export interface Token {
   end: number;
 }
 
+/**
+ * A `// line` or block comment. Comments never reach the token
+ * stream; the lexer keeps them on the side for tools that reprint
+ * the source, like the formatter.
+ */
+export interface Comment {
+  kind: 'line' | 'block';
+  /** Source text, including the comment markers. */
+  text: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+}
+
 /**
  * Pine Script keywords
  */
@@ -66,6 +81,7 @@ export const KEYWORDS = new Set([
   'export',
   'import',
   'type',
+  'enum',
   'method',
   'in',
 ]);
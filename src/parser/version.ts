@@ -0,0 +1,82 @@
+/**
+ * Pine Version Semantics
+ *
+ * The language rules that changed between Pine versions, keyed off the
+ * script's `//@version=N` directive. The parser records the version on
+ * `Program.version`; the type checker and the code generator consult
+ * {@link versionSemantics} rather than comparing version numbers, so
+ * every version-dependent rule is listed here.
+ */
+
+import type { Expression } from './ast';
+import { walk } from './walker';
+
+/** Assumed when a script has no `//@version` directive. */
+export const DEFAULT_PINE_VERSION = 5;
+
+export interface VersionSemantics {
+  /**
+   * `and` / `or` skip their right operand once the left one decides
+   * the result (v6). Before v6 both operands are always evaluated.
+   */
+  lazyBooleanOperators: boolean;
+  /** `const int / const int` truncates to an `int` (before v6). */
+  constIntDivisionTruncates: boolean;
+  /** `bool` values may be `na` (before v6); v6 reads `na` as `false`. */
+  naBooleans: boolean;
+  /**
+   * `strategy.*` order calls declare a `when` condition (before v6).
+   * Only the checker reads this: v6 reports `when` as an unknown
+   * parameter, but code generation keeps gating the call on it in
+   * every version, so a script not yet migrated never places orders
+   * its condition rules out.
+   */
+  whenParameter: boolean;
+}
+
+export function versionSemantics(version: number): VersionSemantics {
+  const v6 = version >= 6;
+  return {
+    lazyBooleanOperators: v6,
+    constIntDivisionTruncates: !v6,
+    naBooleans: !v6,
+    whenParameter: !v6,
+  };
+}
+
+/** Built-in namespaces whose calls keep per-call-site history. */
+const STATEFUL_NAMESPACES = new Set(['ta', 'request']);
+
+/**
+ * Whether evaluating `expr` calls something that keeps history
+ * (`ta.*`, `request.*`, or a name in `userFunctions`), i.e. whether
+ * skipping it on some bars — as v6 `and` / `or` may — is observable.
+ */
+export function callsStatefulFunction(
+  expr: Expression,
+  userFunctions: { has(name: string): boolean },
+): boolean {
+  let found = false;
+  walk(expr, {
+    CallExpression: (call) => {
+      const name = calleeName(call.callee);
+      found ||=
+        STATEFUL_NAMESPACES.has(name.split('.')[0] ?? '') ||
+        userFunctions.has(name);
+      return found ? false : undefined;
+    },
+  });
+  return found;
+}
+
+function calleeName(expr: Expression): string {
+  if (expr.type === 'Identifier') return expr.name;
+  if (
+    expr.type === 'MemberExpression' &&
+    !expr.computed &&
+    expr.property.type === 'Identifier'
+  ) {
+    return `${calleeName(expr.object)}.${expr.property.name}`;
+  }
+  return '';
+}
@@ -0,0 +1,188 @@
+/**
+ * AST Walker
+ *
+ * Typed traversal over the Pine AST so tooling (linters, editor
+ * integrations, later compiler passes) doesn't have to hand-roll a
+ * switch over every {@link NodeType}.
+ */
+
+import type {
+  ASTNode,
+  EnumMember,
+  Expression,
+  NodeType,
+  Program,
+  Statement,
+  SwitchCase,
+  TypeAnnotation,
+} from './ast';
+
+/** Any node reachable from a {@link Program}. */
+export type AnyNode =
+  | Program
+  | Statement
+  | Expression
+  | SwitchCase
+  | EnumMember
+  | TypeAnnotation;
+
+/** The node interface for a given `type` tag. */
+export type NodeOfType<K extends NodeType> = Extract<AnyNode, { type: K }>;
+
+/**
+ * Callback invoked for a node. Returning `false` from an enter-phase
+ * callback skips the node's children (the `leave` callback still
+ * runs).
+ */
+export type VisitorCallback<N extends AnyNode = AnyNode> = (
+  node: N,
+  parent: AnyNode | null,
+) => boolean | undefined;
+
+/**
+ * Per-node-type callbacks plus generic `enter` / `leave` hooks. The
+ * per-type callback runs in the enter phase, after `enter`.
+ */
+export type AstVisitor = {
+  [K in NodeType]?: VisitorCallback<NodeOfType<K>>;
+} & {
+  enter?: VisitorCallback;
+  leave?: (node: AnyNode, parent: AnyNode | null) => void;
+};
+
+/**
+ * The direct children of a node, in source order. Tuple targets
+ * (`[a, b] = f()`) are flattened into their identifiers; type
+ * annotations on declarations, parameters and generic calls are
+ * included.
+ */
+export function getChildNodes(node: AnyNode): AnyNode[] {
+  const children: (AnyNode | null | undefined)[] = [];
+  switch (node.type) {
+    case 'Program':
+    case 'BlockStatement':
+      children.push(...node.body);
+      break;
+    case 'VariableDeclaration':
+      children.push(node.typeAnnotation);
+      children.push(...(Array.isArray(node.id) ? node.id : [node.id]));
+      children.push(node.init);
+      break;
+    case 'FunctionDeclaration':
+      children.push(
+        node.id,
+        ...node.params.flatMap((param, i) => [param, node.defaults?.[i]]),
+        node.body,
+      );
+      break;
+    case 'ExpressionStatement':
+      children.push(node.expression);
+      break;
+    case 'IfStatement':
+      children.push(node.test, node.consequent, node.alternate);
+      break;
+    case 'ForStatement':
+      children.push(node.init, node.test, node.update, node.body);
+      break;
+    case 'ForInStatement':
+      children.push(...(Array.isArray(node.left) ? node.left : [node.left]));
+      children.push(node.right, node.body);
+      break;
+    case 'WhileStatement':
+      children.push(node.test, node.body);
+      break;
+    case 'ReturnStatement':
+      children.push(node.argument);
+      break;
+    case 'SwitchStatement':
+    case 'SwitchExpression':
+      children.push(node.discriminant, ...node.cases);
+      break;
+    case 'SwitchCase':
+      children.push(node.test, node.consequent);
+      break;
+    case 'TypeDefinition':
+      children.push(...node.fields);
+      break;
+    case 'EnumDeclaration':
+      children.push(...node.members);
+      break;
+    case 'EnumMember':
+      children.push(node.id, node.title);
+      break;
+    case 'BinaryExpression':
+      children.push(node.left, node.right);
+      break;
+    case 'UnaryExpression':
+      children.push(node.argument);
+      break;
+    case 'CallExpression':
+      children.push(node.callee, ...(node.typeArguments ?? []));
+      children.push(...node.arguments);
+      break;
+    case 'MemberExpression':
+      children.push(node.object, node.property);
+      break;
+    case 'ConditionalExpression':
+      children.push(node.test, node.consequent, node.alternate);
+      break;
+    case 'AssignmentExpression':
+      children.push(...(Array.isArray(node.left) ? node.left : [node.left]));
+      children.push(node.right);
+      break;
+    case 'ArrayExpression':
+      children.push(...node.elements);
+      break;
+    case 'Identifier':
+      children.push(node.typeAnnotation);
+      break;
+    case 'TypeAnnotation':
+      children.push(...(node.arguments ?? []));
+      break;
+    case 'Literal':
+    case 'BreakStatement':
+    case 'ContinueStatement':
+    case 'ImportStatement':
+      break;
+  }
+  return children.filter((child): child is AnyNode => child != null);
+}
+
+/**
+ * Depth-first walk over `root` and every descendant. The `for x = a
+ * to b` loop counter identifier is shared between the synthesized
+ * `init` and `test` nodes, so it is visited once per occurrence.
+ */
+export function walk(root: AnyNode, visitor: AstVisitor): void {
+  visitNode(root, null, visitor);
+}
+
+function visitNode(
+  node: AnyNode,
+  parent: AnyNode | null,
+  visitor: AstVisitor,
+): void {
+  let descend = visitor.enter?.(node, parent) !== false;
+  const typed = visitor[node.type] as VisitorCallback | undefined;
+  if (typed && typed(node, parent) === false) {
+    descend = false;
+  }
+  if (descend) {
+    for (const child of getChildNodes(node)) {
+      visitNode(child, node, visitor);
+    }
+  }
+  visitor.leave?.(node, parent);
+}
+
+/**
+ * Turn `node` into `replacement` in place, keeping its location, so
+ * the parent's reference to it needs no patching.
+ */
+export function replaceNode(node: ASTNode, replacement: Expression): void {
+  const { start, end, loc } = node;
+  for (const key of Object.keys(node)) {
+    delete (node as unknown as Record<string, unknown>)[key];
+  }
+  Object.assign(node, replacement, { start, end, loc });
+}
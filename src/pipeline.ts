@@ -1,6 +1,7 @@
 /**
  * Transpilation pipeline — the canonical wiring of
- * Lexer → Parser → MetadataVisitor → ASTGenerator → buildIndicatorFactory.
+ * Lexer → Parser → upgradeToV5 → TypeChecker → ScopeResolver →
+ * linkLibraries → MetadataVisitor → ASTGenerator → buildIndicatorFactory.
  *
  * Exposed so callers (the library's own `transpileToPineJS` /
  * `transpileToStandaloneFactory`, the CLI, and any third-party
@@ -13,13 +14,66 @@
  * `./index.ts`, not here.
  */
 
-import { buildIndicatorFactory, generateStandaloneFactory } from './factory';
+import {
+  checkTypes,
+  resolveScopes,
+  type ScopeResolution,
+  type TypeCheckResult,
+} from './checker';
+import {
+  buildIndicatorFactory,
+  type FactorySourceMapOptions,
+  generateStandaloneFactoryWithSourceMap,
+  sanitizeIndicatorId,
+} from './factory';
 import { ASTGenerator } from './generator/ast-generator';
 import { HelperUsage, type HelperUsageRecord } from './generator/helper-usage';
 import { MetadataVisitor } from './generator/metadata-visitor';
-import { Lexer, Parser } from './parser';
+import type { SourceMapping } from './generator/source-map';
+import {
+  type LibraryResolver,
+  type LinkResult,
+  linkLibraries,
+} from './library';
+import { type Diagnostic, Lexer, Parser } from './parser';
 import type { Program } from './parser/ast';
-import type { IndicatorFactory } from './types';
+import type { IndicatorFactory, PineSourceMap } from './types';
+import { type UpgradeResult, upgradeToV5 } from './upgrade';
+
+// The semantic stages never throw: PINE3xxx / PINE4xxx problems come
+// back as diagnostics alongside the inferred types and symbol table.
+export {
+  checkTypes,
+  resolveScopes,
+  type ScopeResolution,
+  type TypeCheckResult,
+} from './checker';
+
+// Imports are linked after the semantic stages, so their diagnostics
+// only ever point into the script being compiled. A `library()` script
+// is emitted as an ES module of its exports instead of a factory.
+export {
+  emitLibraryModule,
+  type LibraryModule,
+  type LibraryResolver,
+  type LinkResult,
+  linkLibraries,
+} from './library';
+
+// AST traversal lives with the parser; re-exported here so tooling
+// gets `parse` and `walk` from the same module.
+export {
+  type AnyNode,
+  type AstVisitor,
+  getChildNodes,
+  type NodeOfType,
+  type VisitorCallback,
+  walk,
+} from './parser/walker';
+
+// v4 scripts are rewritten to v5 right after parsing; every later
+// stage assumes v5 built-in names.
+export { type UpgradeResult, upgradeToV5 } from './upgrade';
 
 /** Maximum input size in characters to prevent DoS attacks. */
 export const MAX_INPUT_SIZE = 1_000_000;
@@ -39,8 +93,36 @@ export function validateInputSize(code: string): void {
  */
 export function parse(code: string): Program {
   validateInputSize(code);
-  const tokens = new Lexer(code).tokenize();
-  return new Parser(tokens).parse();
+  const lexer = new Lexer(code);
+  const tokens = lexer.tokenize();
+  return new Parser(tokens, { version: lexer.getVersion() }).parse();
+}
+
+export interface ParseWithDiagnosticsResult {
+  /** Partial AST: statements that failed to parse are omitted. */
+  program: Program;
+  /** Every lexical and syntax problem found, in source order. */
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Error-recovering parse. Never throws on malformed Pine: lexical and
+ * syntax errors are collected as located {@link Diagnostic}s and the
+ * parser resynchronizes at the next statement boundary, so editors
+ * can show every problem in the file at once. Still throws when the
+ * input exceeds {@link MAX_INPUT_SIZE}.
+ */
+export function parseWithDiagnostics(code: string): ParseWithDiagnosticsResult {
+  validateInputSize(code);
+  const lexer = new Lexer(code, { recover: true });
+  const tokens = lexer.tokenize();
+  const result = new Parser(tokens, {
+    version: lexer.getVersion(),
+  }).parseRecovering();
+  const diagnostics = [...lexer.getDiagnostics(), ...result.diagnostics].sort(
+    (a, b) => a.line - b.line || a.column - b.column,
+  );
+  return { program: result.program, diagnostics };
 }
 
 /**
@@ -66,14 +148,64 @@ export function extractMetadata(ast: Program): MetadataVisitor {
  * to record which preamble helpers were emitted. When omitted, an
  * internal tracker is used and discarded — useful when the caller
  * only wants the body string (e.g. the legacy `transpile()` helper).
+ * Pass `typeCheck` when `ast` has already been through
+ * {@link checkTypes}; otherwise the generator checks it itself.
  */
 export function generateBody(
   ast: Program,
   historicalAccess: Set<string>,
   helperUsage?: HelperUsage,
+  typeCheck?: TypeCheckResult,
 ): string {
   const generator = new ASTGenerator(historicalAccess, helperUsage);
-  return generator.generate(ast);
+  return generator.generate(ast, typeCheck);
+}
+
+export interface GeneratedBody {
+  /** Same string {@link generateBody} returns. */
+  code: string;
+  /** 0-based mappings from `code` back to Pine statements. */
+  mappings: SourceMapping[];
+}
+
+/**
+ * {@link generateBody} plus the mappings the factory builders need to
+ * locate runtime errors and emit source maps (their `mappings` option).
+ */
+export function generateBodyWithMappings(
+  ast: Program,
+  historicalAccess: Set<string>,
+  helperUsage?: HelperUsage,
+  typeCheck?: TypeCheckResult,
+): GeneratedBody {
+  const generator = new ASTGenerator(historicalAccess, helperUsage);
+  return generator.generateWithMappings(ast, typeCheck);
+}
+
+/**
+ * Source-map request accepted by {@link compile} and the public
+ * transpile entry points: `true` returns the map alongside the output,
+ * `'inline'` also embeds it in the generated code as a
+ * `sourceMappingURL` data-URL comment.
+ */
+export type SourceMapOption = boolean | 'inline';
+
+/**
+ * Factory-builder source-map options for a script compiled from
+ * `source`. The map lists the Pine file as `<indicatorId>.pine`.
+ */
+export function factorySourceMapOptions(
+  source: string,
+  indicatorId: string,
+  sourceMap: SourceMapOption,
+): FactorySourceMapOptions {
+  const baseName = sanitizeIndicatorId(indicatorId);
+  return {
+    sourceFileName: `${baseName}.pine`,
+    sourceContent: source,
+    file: `${baseName}.js`,
+    inline: sourceMap === 'inline',
+  };
 }
 
 /**
@@ -94,6 +226,11 @@ export function buildFactory(
     helperUsage?: HelperUsage;
     autoBgColorerForBoxes?: boolean;
     includeStandaloneFields?: boolean;
+    /** Parsed program, used to name user functions in error stacks. */
+    ast?: Program;
+    /** Mappings for `mainBody` from {@link generateBodyWithMappings}. */
+    mappings?: SourceMapping[];
+    sourceMap?: FactorySourceMapOptions;
   },
 ): IndicatorFactory {
   return buildIndicatorFactory({
@@ -105,11 +242,15 @@ export function buildFactory(
     plots: metadata.plots,
     inputs: metadata.inputs,
     bgcolors: metadata.bgcolors,
+    alertConditions: metadata.alertConditions,
     usedSources: metadata.usedSources,
     historicalAccess: metadata.historicalAccess,
     mainBody,
     helperUsage: options.helperUsage?.toRecord(),
     autoBgColorerForBoxes: options.autoBgColorerForBoxes ?? false,
+    programAst: options.ast,
+    mainBodyMappings: options.mappings,
+    sourceMap: options.sourceMap,
     ...(options.includeStandaloneFields
       ? {
           sessionVariables: metadata.sessionVariables,
@@ -122,6 +263,17 @@ export function buildFactory(
   });
 }
 
+export interface StandaloneFactoryBuildOptions {
+  indicatorId: string;
+  indicatorName?: string;
+  autoBgColorerForBoxes?: boolean;
+  ast?: Program;
+  helperUsage?: HelperUsage | HelperUsageRecord;
+  /** Mappings for `mainBody` from {@link generateBodyWithMappings}. */
+  mappings?: SourceMapping[];
+  sourceMap?: FactorySourceMapOptions;
+}
+
 /**
  * Build the standalone-factory source string (the form used by
  * `transpileToStandaloneFactory`). Wraps `generateStandaloneFactory`
@@ -130,20 +282,26 @@ export function buildFactory(
 export function buildStandaloneFactoryCode(
   metadata: MetadataVisitor,
   mainBody: string,
-  options: {
-    indicatorId: string;
-    indicatorName?: string;
-    autoBgColorerForBoxes?: boolean;
-    ast?: Program;
-    helperUsage?: HelperUsage | HelperUsageRecord;
-  },
+  options: StandaloneFactoryBuildOptions,
 ): string {
+  return buildStandaloneFactoryWithSourceMap(metadata, mainBody, options).code;
+}
+
+/**
+ * {@link buildStandaloneFactoryCode}, also returning the source map
+ * when `options.sourceMap` is set.
+ */
+export function buildStandaloneFactoryWithSourceMap(
+  metadata: MetadataVisitor,
+  mainBody: string,
+  options: StandaloneFactoryBuildOptions,
+): { code: string; sourceMap?: PineSourceMap } {
   const helperUsageRecord =
     options.helperUsage instanceof HelperUsage
       ? options.helperUsage.toRecord()
       : options.helperUsage;
 
-  return generateStandaloneFactory({
+  return generateStandaloneFactoryWithSourceMap({
     indicatorId: options.indicatorId,
     indicatorName: options.indicatorName,
     name: metadata.name,
@@ -152,6 +310,7 @@ export function buildStandaloneFactoryCode(
     plots: metadata.plots,
     inputs: metadata.inputs,
     bgcolors: metadata.bgcolors,
+    alertConditions: metadata.alertConditions,
     usedSources: metadata.usedSources,
     historicalAccess: metadata.historicalAccess,
     mainBody,
@@ -163,15 +322,34 @@ export function buildStandaloneFactoryCode(
     computedVariables: metadata.computedVariables,
     inputVariableMap: metadata.inputVariableMap,
     programAst: options.ast,
+    mainBodyMappings: options.mappings,
+    sourceMap: options.sourceMap,
   });
 }
 
 export interface CompileResult {
+  /**
+   * The parsed program, upgraded to v5 for v4 scripts, with its
+   * imported libraries linked in.
+   */
   ast: Program;
+  /** v4 → v5 rewrites; `upgrade.program` is the program as checked. */
+  upgrade: UpgradeResult;
+  /**
+   * Inferred types and type diagnostics. Type errors are reported
+   * here but do not stop compilation.
+   */
+  typeCheck: TypeCheckResult;
+  /** Symbol table and name-resolution diagnostics; also non-fatal. */
+  scopes: ScopeResolution;
+  /** Linked libraries; `link.program` is `ast`. */
+  link: LinkResult;
   metadata: MetadataVisitor;
   mainBody: string;
   helperUsage: HelperUsage;
   factory: IndicatorFactory;
+  /** Present when `options.sourceMap` was set. */
+  sourceMap?: PineSourceMap;
 }
 
 /**
@@ -186,15 +364,45 @@ export function compile(
     indicatorName?: string;
     autoBgColorerForBoxes?: boolean;
     includeStandaloneFields?: boolean;
+    sourceMap?: SourceMapOption;
+    /** Supplies the source of every library the script imports. */
+    libraryResolver?: LibraryResolver;
   },
 ): CompileResult {
-  const ast = parse(code);
+  const { sourceMap = false, libraryResolver, ...factoryOptions } = options;
+  const upgrade = upgradeToV5(parse(code));
+  const typeCheck = checkTypes(upgrade.program);
+  const scopes = resolveScopes(upgrade.program, typeCheck);
+  const link = linkLibraries(upgrade.program, libraryResolver);
+  const ast = link.program;
   const metadata = extractMetadata(ast);
   const helperUsage = new HelperUsage();
-  const mainBody = generateBody(ast, metadata.historicalAccess, helperUsage);
+  const { code: mainBody, mappings } = generateBodyWithMappings(
+    ast,
+    metadata.historicalAccess,
+    helperUsage,
+    // Linking copies the program, whose nodes `typeCheck` does not know.
+    ast === upgrade.program ? typeCheck : undefined,
+  );
   const factory = buildFactory(metadata, mainBody, {
-    ...options,
+    ...factoryOptions,
     helperUsage,
+    ast,
+    mappings,
+    sourceMap: sourceMap
+      ? factorySourceMapOptions(code, options.indicatorId, sourceMap)
+      : undefined,
   });
-  return { ast, metadata, mainBody, helperUsage, factory };
+  return {
+    ast,
+    upgrade,
+    typeCheck,
+    scopes,
+    link,
+    metadata,
+    mainBody,
+    helperUsage,
+    factory,
+    ...(factory.__pineSourceMap ? { sourceMap: factory.__pineSourceMap } : {}),
+  };
 }
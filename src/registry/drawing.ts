@@ -53,6 +53,18 @@ const LABEL_NEW_ARGS = [
 
 const LINEFILL_NEW_ARGS = ['line1', 'line2', 'color'] as const;
 
+const POLYLINE_NEW_ARGS = [
+  'points',
+  'curved',
+  'closed',
+  'xloc',
+  'line_color',
+  'fill_color',
+  'line_style',
+  'line_width',
+  'force_overlay',
+] as const;
+
 const TABLE_NEW_ARGS = [
   'position',
   'columns',
@@ -245,6 +257,42 @@ export const DRAWING_REGISTRY = {
     },
     constants: [],
   },
+  polyline: {
+    name: 'polyline',
+    functions: {
+      new: {
+        canonicalArgs: POLYLINE_NEW_ARGS,
+        handleFields: {
+          points: 'points',
+          curved: 'curved',
+          closed: 'closed',
+          xloc: 'xloc',
+          line_color: 'line_color',
+          fill_color: 'fill_color',
+          line_style: 'line_style',
+          line_width: 'line_width',
+          force_overlay: 'force_overlay',
+        },
+        // `points` is emitted resolved to `{ x, y }` on the polyline's xloc
+        visualEventArgs: POLYLINE_NEW_ARGS,
+      },
+      delete: { canonicalArgs: ['id'] },
+    },
+    constants: [],
+  },
+  // Not a drawing: the coordinates polylines are built from. Points are
+  // plain `{ time, index, price }` values and emit no events.
+  'chart.point': {
+    name: 'chart.point',
+    functions: {
+      new: { canonicalArgs: ['time', 'index', 'price'] },
+      from_index: { canonicalArgs: ['index', 'price'] },
+      from_time: { canonicalArgs: ['time', 'price'] },
+      now: { canonicalArgs: ['price'] },
+      copy: { canonicalArgs: ['id'] },
+    },
+    constants: [],
+  },
   table: {
     name: 'table',
     functions: {
@@ -1,23 +1,28 @@
 import { DRAWING_REGISTRY } from './drawing';
 import { INPUT_REGISTRY } from './inputs';
+import { STRATEGY_REGISTRY } from './strategy';
 import type {
   DrawingFnSpec,
   DrawingNamespaceSpec,
   InputFnSpec,
   NamespaceConstant,
+  StrategyFnSpec,
 } from './types';
 
 export { DRAWING_REGISTRY } from './drawing';
 export { INPUT_REGISTRY } from './inputs';
+export { STRATEGY_REGISTRY } from './strategy';
 export type {
   DrawingFnSpec,
   DrawingNamespaceSpec,
   InputFnSpec,
   NamespaceConstant,
+  StrategyFnSpec,
 } from './types';
 
 export type DrawingNamespaceName = keyof typeof DRAWING_REGISTRY;
 export type InputFunctionName = keyof typeof INPUT_REGISTRY;
+export type StrategyFunctionName = keyof typeof STRATEGY_REGISTRY;
 
 export function getDrawingNamespace(
   namespace: string,
@@ -55,3 +60,7 @@ export function getInputFn(name: string): InputFnSpec | undefined {
 export function listInputFunctionNames(): InputFunctionName[] {
   return Object.keys(INPUT_REGISTRY).sort() as InputFunctionName[];
 }
+
+export function getStrategyFn(name: string): StrategyFnSpec | undefined {
+  return STRATEGY_REGISTRY[name as StrategyFunctionName];
+}
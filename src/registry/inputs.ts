@@ -162,4 +162,16 @@ export const INPUT_REGISTRY = {
       'confirm',
     ],
   },
+  'input.enum': {
+    canonicalArgs: [
+      'defval',
+      'title',
+      'options',
+      'tooltip',
+      'inline',
+      'group',
+      'display',
+      'confirm',
+    ],
+  },
 } as const satisfies Readonly<Record<string, InputFnSpec>>;
@@ -0,0 +1,97 @@
+import type { StrategyFnSpec } from './types';
+
+const ORDER_ARGS = [
+  'id',
+  'direction',
+  'qty',
+  'limit',
+  'stop',
+  'oca_name',
+  'oca_type',
+  'comment',
+  'alert_message',
+  'disable_alert',
+] as const;
+
+export const STRATEGY_REGISTRY = {
+  strategy: {
+    canonicalArgs: [
+      'title',
+      'shorttitle',
+      'overlay',
+      'format',
+      'precision',
+      'scale',
+      'pyramiding',
+      'calc_on_order_fills',
+      'calc_on_every_tick',
+      'max_bars_back',
+      'backtest_fill_limits_assumption',
+      'default_qty_type',
+      'default_qty_value',
+      'initial_capital',
+      'currency',
+      'slippage',
+      'commission_type',
+      'commission_value',
+      'process_orders_on_close',
+      'close_entries_rule',
+      'margin_long',
+      'margin_short',
+      'explicit_plot_zorder',
+      'max_lines_count',
+      'max_labels_count',
+      'max_boxes_count',
+      'calc_bars_count',
+      'risk_free_rate',
+      'use_bar_magnifier',
+      'fill_orders_on_standard_ohlc',
+      'max_polylines_count',
+      'dynamic_requests',
+      'behind_chart',
+    ],
+  },
+  'strategy.entry': { canonicalArgs: ORDER_ARGS },
+  'strategy.order': { canonicalArgs: ORDER_ARGS },
+  'strategy.exit': {
+    canonicalArgs: [
+      'id',
+      'from_entry',
+      'qty',
+      'qty_percent',
+      'profit',
+      'limit',
+      'loss',
+      'stop',
+      'trail_price',
+      'trail_points',
+      'trail_offset',
+      'oca_name',
+      'comment',
+      'comment_profit',
+      'comment_loss',
+      'comment_trailing',
+      'alert_message',
+      'alert_profit',
+      'alert_loss',
+      'alert_trailing',
+      'disable_alert',
+    ],
+  },
+  'strategy.close': {
+    canonicalArgs: [
+      'id',
+      'comment',
+      'qty',
+      'qty_percent',
+      'alert_message',
+      'immediately',
+      'disable_alert',
+    ],
+  },
+  'strategy.close_all': {
+    canonicalArgs: ['comment', 'alert_message', 'immediately', 'disable_alert'],
+  },
+  'strategy.cancel': { canonicalArgs: ['id'] },
+  'strategy.cancel_all': { canonicalArgs: [] },
+} as const satisfies Readonly<Record<string, StrategyFnSpec>>;
@@ -8,6 +8,10 @@ export interface InputFnSpec {
   canonicalArgs: readonly string[];
 }
 
+export interface StrategyFnSpec {
+  canonicalArgs: readonly string[];
+}
+
 export interface NamespaceConstant {
   name: string;
   value: string | number;
@@ -0,0 +1,21 @@
+/**
+ * Runner Module
+ *
+ * Headless execution of scripts over OHLCV bars.
+ */
+
+export { parseOhlcv, parseOhlcvCsv, parseOhlcvJson } from './ohlcv';
+export {
+  formatRunLogs,
+  formatRunOutput,
+  RUN_OUTPUT_FORMATS,
+} from './output';
+export { runScript } from './run-script';
+export type {
+  OhlcvBar,
+  RunBarRecord,
+  RunError,
+  RunOutputFormat,
+  RunScriptOptions,
+  RunScriptResult,
+} from './types';
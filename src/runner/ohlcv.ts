@@ -0,0 +1,195 @@
+/**
+ * OHLCV Loading
+ *
+ * Reads bars from CSV or JSON. Both accept a `time` column (also
+ * `timestamp`, `date` or `datetime`) holding epoch seconds, epoch
+ * milliseconds or a date string, plus `open`, `high`, `low`, `close`
+ * and an optional `volume`. Column names are case-insensitive.
+ *
+ * - CSV needs a header row; fields may be double-quoted
+ * - JSON is an array of objects with those keys, or of
+ *   `[time, open, high, low, close, volume?]` arrays
+ *
+ * Bars must be in ascending time order. Malformed input throws with
+ * the offending line (CSV) or array index (JSON).
+ */
+
+import type { OhlcvBar } from './types';
+
+const TIME_KEYS = ['time', 'timestamp', 'date', 'datetime'];
+const PRICE_KEYS = ['open', 'high', 'low', 'close'] as const;
+
+/** Epoch values below this are taken as seconds (year 5138 in ms). */
+const MAX_EPOCH_SECONDS = 1e11;
+
+/** Parse OHLCV text, as JSON when it starts with `[`, else as CSV. */
+export function parseOhlcv(text: string): OhlcvBar[] {
+  return stripBom(text).trimStart().startsWith('[')
+    ? parseOhlcvJson(text)
+    : parseOhlcvCsv(text);
+}
+
+export function parseOhlcvCsv(text: string): OhlcvBar[] {
+  const lines = stripBom(text).split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex === -1) throw new Error('OHLCV CSV is empty.');
+
+  const header = splitCsvLine(lines[headerIndex]).map((name) =>
+    name.trim().toLowerCase(),
+  );
+  const column = (name: string) => header.indexOf(name);
+  const timeColumn = TIME_KEYS.map(column).find((i) => i !== -1);
+  if (timeColumn === undefined) {
+    throw new Error(`OHLCV CSV needs a time column (${TIME_KEYS.join(', ')}).`);
+  }
+  for (const key of PRICE_KEYS) {
+    if (column(key) === -1) {
+      throw new Error(`OHLCV CSV needs a '${key}' column.`);
+    }
+  }
+
+  const bars: OhlcvBar[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const cells = splitCsvLine(lines[i]);
+    const where = `OHLCV CSV line ${i + 1}`;
+    const field = (name: string) => {
+      const index = column(name);
+      return index === -1 ? undefined : cells[index]?.trim();
+    };
+    bars.push(
+      toBar(
+        {
+          time: cells[timeColumn]?.trim(),
+          open: field('open'),
+          high: field('high'),
+          low: field('low'),
+          close: field('close'),
+          volume: field('volume'),
+        },
+        where,
+      ),
+    );
+  }
+  return checkOrder(bars, (i) => `OHLCV CSV bar ${i + 1}`);
+}
+
+export function parseOhlcvJson(text: string): OhlcvBar[] {
+  let rows: unknown;
+  try {
+    rows = JSON.parse(stripBom(text));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`OHLCV JSON is invalid: ${message}`);
+  }
+  if (!Array.isArray(rows)) {
+    throw new Error('OHLCV JSON must be an array of bars.');
+  }
+
+  const bars = rows.map((row: unknown, i) => {
+    const where = `OHLCV JSON bar ${i}`;
+    if (Array.isArray(row)) {
+      const [time, open, high, low, close, volume] = row;
+      return toBar({ time, open, high, low, close, volume }, where);
+    }
+    if (typeof row !== 'object' || row === null) {
+      throw new Error(`${where}: expected an object or an array.`);
+    }
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(row)) {
+      fields[key.toLowerCase()] = value;
+    }
+    const timeKey = TIME_KEYS.find((key) => fields[key] !== undefined);
+    return toBar({ ...fields, time: timeKey && fields[timeKey] }, where);
+  });
+  return checkOrder(bars, (i) => `OHLCV JSON bar ${i}`);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/** Split one CSV record, honouring double quotes and `""` escapes. */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function toBar(fields: Record<string, unknown>, where: string): OhlcvBar {
+  const bar: OhlcvBar = {
+    time: toTime(fields.time, where),
+    open: Number.NaN,
+    high: Number.NaN,
+    low: Number.NaN,
+    close: Number.NaN,
+    volume: Number.NaN,
+  };
+  for (const key of PRICE_KEYS) {
+    bar[key] = toNumber(fields[key], key, where);
+  }
+  if (fields.volume !== undefined && fields.volume !== '') {
+    bar.volume = toNumber(fields.volume, 'volume', where);
+  }
+  return bar;
+}
+
+function toNumber(value: unknown, key: string, where: string): number {
+  const n = typeof value === 'string' && value !== '' ? Number(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) {
+    throw new Error(`${where}: invalid ${key} '${String(value)}'.`);
+  }
+  return n;
+}
+
+function toTime(value: unknown, where: string): number {
+  if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
+    return toTime(Number(value), where);
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value < MAX_EPOCH_SECONDS ? value * 1000 : value;
+  }
+  const parsed = typeof value === 'string' ? Date.parse(value) : Number.NaN;
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${where}: invalid time '${String(value)}'.`);
+  }
+  return parsed;
+}
+
+function checkOrder(
+  bars: OhlcvBar[],
+  describe: (index: number) => string,
+): OhlcvBar[] {
+  for (let i = 1; i < bars.length; i++) {
+    if (bars[i].time <= bars[i - 1].time) {
+      throw new Error(`${describe(i)}: bars must be in ascending time order.`);
+    }
+  }
+  return bars;
+}
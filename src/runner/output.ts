@@ -0,0 +1,99 @@
+/**
+ * Run Output
+ *
+ * Serializes a `runScript` result:
+ *
+ * - `csv`: a `time,bar_index,<plot titles…>,events` header and one row
+ *   per bar; `na` plots are empty cells and the events column holds
+ *   the bar's events as JSON
+ * - `json`: `{ plots, bars, errors }` in one document, plus `strategy`
+ *   with the backtest report of a strategy
+ * - `ndjson`: one bar record per line
+ *
+ * Times are ISO-8601 UTC strings and `na` plots are `null` in the JSON
+ * formats, whose bar records also carry the bar's logs.
+ * `formatRunLogs` lists the logs of every bar as Pine's Logs panel
+ * does.
+ */
+
+import type { RunBarRecord, RunOutputFormat, RunScriptResult } from './types';
+
+export const RUN_OUTPUT_FORMATS: readonly RunOutputFormat[] = [
+  'csv',
+  'json',
+  'ndjson',
+];
+
+/** `result` as `format`, ending in a newline. */
+export function formatRunOutput(
+  result: RunScriptResult,
+  format: RunOutputFormat,
+): string {
+  switch (format) {
+    case 'csv':
+      return toCsv(result);
+    case 'json':
+      return `${JSON.stringify(
+        {
+          plots: result.plots,
+          bars: result.bars.map(toJsonRecord),
+          errors: result.errors,
+          strategy: result.strategy,
+        },
+        null,
+        2,
+      )}\n`;
+    case 'ndjson':
+      return result.bars
+        .map((bar) => `${JSON.stringify(toJsonRecord(bar))}\n`)
+        .join('');
+  }
+}
+
+function toJsonRecord(bar: RunBarRecord) {
+  const plots: Record<string, number | null> = {};
+  for (const [title, value] of Object.entries(bar.plots)) {
+    plots[title] = Number.isFinite(value) ? value : null;
+  }
+  return {
+    time: new Date(bar.time).toISOString(),
+    bar_index: bar.barIndex,
+    plots,
+    events: bar.events,
+    logs: bar.logs.map(({ level, message }) => ({ level, message })),
+  };
+}
+
+/** One `[time] LEVEL: message` line per log record, oldest first. */
+export function formatRunLogs(result: RunScriptResult): string {
+  return result.bars
+    .flatMap((bar) => bar.logs)
+    .map((record) => {
+      const time = Number.isFinite(record.time)
+        ? new Date(record.time).toISOString()
+        : `bar ${record.barIndex}`;
+      return `[${time}] ${record.level.toUpperCase()}: ${record.message}\n`;
+    })
+    .join('');
+}
+
+function toCsv(result: RunScriptResult): string {
+  const header = ['time', 'bar_index', ...result.plots, 'events'];
+  const rows = result.bars.map((bar) => [
+    new Date(bar.time).toISOString(),
+    String(bar.barIndex),
+    ...result.plots.map((title) => {
+      const value = bar.plots[title];
+      return Number.isFinite(value) ? String(value) : '';
+    }),
+    bar.events.length > 0 ? JSON.stringify(bar.events) : '',
+  ]);
+  return [header, ...rows]
+    .map((cells) => `${cells.map(csvCell).join(',')}\n`)
+    .join('');
+}
+
+/** Quote a cell holding a comma, quote or line break. */
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
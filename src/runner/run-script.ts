@@ -0,0 +1,176 @@
+/**
+ * Headless Script Runner
+ *
+ * Executes a script bar by bar over caller-supplied OHLCV bars, outside
+ * any Chart Host, and records every plot value by title together with
+ * the visual events and log records of each bar, plus the backtest
+ * report of a strategy. The runtime is the test harness's; built-ins it does not
+ * implement evaluate to `na`.
+ */
+
+import { transpileToPineJS } from '../index';
+import type { DrawingVisualEvent, LogRecord, StrategyReport } from '../runtime';
+import { createHarnessRuntime } from '../test-harness/runtime';
+import type {
+  CustomIndicator,
+  IndicatorConstructor,
+  InputCallback,
+} from '../types';
+import type {
+  OhlcvBar,
+  RunBarRecord,
+  RunError,
+  RunScriptOptions,
+  RunScriptResult,
+} from './types';
+
+type BarOutput = unknown[] & {
+  __visualEvents?: DrawingVisualEvent[];
+  __logs?: LogRecord[];
+  __caughtError?: unknown;
+  __strategyReport?: StrategyReport;
+};
+
+/**
+ * Run `source` over `bars` and collect its plots, visual events and
+ * logs.
+ * Errors thrown on a bar are recorded in `errors`, and make the run
+ * unsuccessful, but execution goes on with the next bar, as it does on
+ * a chart.
+ */
+export function runScript(
+  source: string,
+  bars: OhlcvBar[],
+  options: RunScriptOptions = {},
+): RunScriptResult {
+  const indicatorId = options.indicatorId ?? 'run';
+  const failed = (error: string): RunScriptResult => ({
+    success: false,
+    error,
+    plots: [],
+    bars: [],
+    errors: [],
+  });
+
+  const transpiled = transpileToPineJS(source, indicatorId, indicatorId, {
+    libraryResolver: options.libraryResolver,
+  });
+  if (!transpiled.success || !transpiled.indicatorFactory) {
+    return failed(transpiled.error ?? 'Transpilation failed');
+  }
+
+  const runtime = createHarnessRuntime({
+    barCount: bars.length,
+    barIndexStart: 0,
+    bars,
+  });
+  let indicator: CustomIndicator;
+  let instance: IndicatorConstructor;
+  let inputCallback: InputCallback;
+  try {
+    indicator = transpiled.indicatorFactory(runtime.pineJs, {
+      securityDataProvider: options.securityDataProvider,
+      // Each bar's error comes back as its `__caughtError`.
+      onError: () => undefined,
+    });
+    inputCallback = buildInputCallback(indicator, options.inputs ?? {});
+    const ctor = indicator.constructor as new () => IndicatorConstructor;
+    instance = new ctor();
+    instance.init?.(runtime.context, inputCallback);
+  } catch (error) {
+    return failed(`Could not instantiate the script: ${toMessage(error)}`);
+  }
+
+  const columns = plotColumns(indicator);
+  const records: RunBarRecord[] = [];
+  const errors: RunError[] = [];
+  let lastOutput: BarOutput | undefined;
+
+  for (let i = 0; i < bars.length; i++) {
+    runtime.resetBarState();
+    let output: BarOutput | undefined;
+    try {
+      output = instance.main(runtime.context, inputCallback) as BarOutput;
+    } catch (error) {
+      errors.push({ barIndex: i, message: toMessage(error) });
+    }
+    lastOutput = output ?? lastOutput;
+    if (output?.__caughtError != null) {
+      errors.push({ barIndex: i, message: toMessage(output.__caughtError) });
+    }
+
+    const plots: Record<string, number> = {};
+    for (const { title, slot } of columns) {
+      const value = output?.[slot];
+      plots[title] = typeof value === 'number' ? value : Number.NaN;
+    }
+    records.push({
+      barIndex: i,
+      time: bars[i].time,
+      plots,
+      events: output?.__visualEvents ?? [],
+      logs: output?.__logs ?? [],
+    });
+    runtime.advanceBar();
+  }
+
+  const strategy = lastOutput?.__strategyReport;
+  return {
+    success: errors.length === 0,
+    plots: columns.map((column) => column.title),
+    bars: records,
+    errors,
+    ...(strategy ? { strategy } : {}),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The script's input defaults, with `overrides` matched by input title
+ * or id.
+ */
+function buildInputCallback(
+  indicator: CustomIndicator,
+  overrides: Record<string, number | boolean | string>,
+): InputCallback {
+  const defaults = indicator.metainfo?.defaults?.inputs ?? {};
+  const values = (indicator.metainfo?.inputs ?? []).map(
+    (input) =>
+      overrides[input.name] ??
+      overrides[input.id] ??
+      defaults[input.id] ??
+      input.defval,
+  );
+  return (index: number) => values[index];
+}
+
+/**
+ * Output slot and title of every plotted series. Background colourers
+ * carry palette slots rather than values, so they are left out;
+ * repeated titles get a ` #2`, ` #3`… suffix.
+ */
+function plotColumns(
+  indicator: CustomIndicator,
+): { title: string; slot: number }[] {
+  const styles = (indicator.metainfo?.styles ?? {}) as Record<
+    string,
+    { title?: string } | undefined
+  >;
+  const seen = new Map<string, number>();
+  const columns: { title: string; slot: number }[] = [];
+  (indicator.metainfo?.plots ?? []).forEach((plot, slot) => {
+    if (plot.type === 'bg_colorer') return;
+    const base = styles[plot.id]?.title ?? plot.id;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    columns.push({ title: count > 1 ? `${base} #${count}` : base, slot });
+  });
+  return columns;
+}
@@ -0,0 +1,67 @@
+/**
+ * Runner Types
+ *
+ * Types for executing a script headlessly over OHLCV bars.
+ */
+
+import type { LibraryResolver } from '../library';
+import type { DrawingVisualEvent, LogRecord, StrategyReport } from '../runtime';
+import type { SecurityDataProvider } from '../types';
+
+/** One OHLCV bar. `time` is the bar's open time in UTC milliseconds. */
+export interface OhlcvBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type RunOutputFormat = 'csv' | 'json' | 'ndjson';
+
+export interface RunScriptOptions {
+  /** Indicator ID handed to the transpiler (default: `run`). */
+  indicatorId?: string;
+  /**
+   * Input values by input title or id, replacing the script's
+   * defaults.
+   */
+  inputs?: Record<string, number | boolean | string>;
+  /** Supplies the libraries the script imports, as for `transpileToPineJS`. */
+  libraryResolver?: LibraryResolver;
+  /** Bars of the other symbols the script's `request.security()` asks for. */
+  securityDataProvider?: SecurityDataProvider;
+}
+
+/** The plot values, visual events and log records of one bar. */
+export interface RunBarRecord {
+  /** Position of the bar in the input, from 0. */
+  barIndex: number;
+  time: number;
+  /** Plot values by plot title; `NaN` where the plot is `na`. */
+  plots: Record<string, number>;
+  /** `plot*()`, `bgcolor()` and drawing calls made on the bar. */
+  events: DrawingVisualEvent[];
+  /** `log.info()`, `log.warning()` and `log.error()` records of the bar. */
+  logs: LogRecord[];
+}
+
+export interface RunError {
+  barIndex: number;
+  message: string;
+}
+
+export interface RunScriptResult {
+  /** `false` when the script could not run or a bar threw. */
+  success: boolean;
+  /** Why the script could not be transpiled or instantiated. */
+  error?: string;
+  /** Plot titles, in declaration order. */
+  plots: string[];
+  bars: RunBarRecord[];
+  /** Bars whose execution threw; they are recorded with `NaN` plots. */
+  errors: RunError[];
+  /** The backtest over all bars, for scripts that declare a strategy. */
+  strategy?: StrategyReport;
+}
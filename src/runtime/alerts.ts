@@ -0,0 +1,119 @@
+/**
+ * Alert Runtime
+ *
+ * Pine's `alert()` and `alertcondition()` for both factory paths. Each
+ * execution of a bar collects the alerts that fire into a fresh array,
+ * which the factory hands out as the non-enumerable `__alerts` of the
+ * bar's output. Frequencies follow Pine:
+ *
+ * - `alert.freq_all`: every call fires, on every execution of the bar
+ * - `alert.freq_once_per_bar` (the default): only the first such call
+ *   of a bar fires, however often a realtime bar re-executes
+ * - `alert.freq_once_per_bar_close`: fires only once the bar is
+ *   confirmed, which every historical bar is
+ *
+ * An `alertcondition()` fires once per bar while its condition holds,
+ * as a chart alert created from it does by default.
+ */
+
+export type AlertFrequency = 'all' | 'once_per_bar' | 'once_per_bar_close';
+
+export interface AlertEvent {
+  kind: 'alert' | 'alertcondition';
+  message: string;
+  frequency: AlertFrequency;
+  /** The `alertcondition()` title. */
+  title?: string;
+  barIndex: number;
+}
+
+export type AlertFunction = ((message: unknown, frequency?: unknown) => void) &
+  Record<`freq_${string}`, AlertFrequency>;
+
+export interface AlertRuntime {
+  /** The Pine `alert` function, carrying the `alert.freq_*` constants. */
+  alert: AlertFunction;
+  alertcondition: (
+    condition: unknown,
+    title?: unknown,
+    message?: unknown,
+  ) => void;
+  /** Start an execution of `barIndex`; the alerts it fires land in the result. */
+  beginBar: (barIndex: number, confirmed: boolean) => AlertEvent[];
+}
+
+const FREQUENCIES: readonly AlertFrequency[] = [
+  'all',
+  'once_per_bar',
+  'once_per_bar_close',
+];
+
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isNaN(value)) return '';
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function createAlertRuntime(): AlertRuntime {
+  let events: AlertEvent[] = [];
+  let barIndex = -1;
+  let confirmed = true;
+  // Bar index at which each once-per-bar rule last fired.
+  let oncePerBarFired = -1;
+  let onCloseFired = -1;
+  const conditionsFired = new Map<string, number>();
+
+  const alert = ((message: unknown, frequency?: unknown) => {
+    const requested = FREQUENCIES.find((name) => name === frequency);
+    const resolved = requested ?? 'once_per_bar';
+    if (resolved === 'once_per_bar') {
+      if (oncePerBarFired === barIndex) return;
+      oncePerBarFired = barIndex;
+    } else if (resolved === 'once_per_bar_close') {
+      if (!confirmed || onCloseFired === barIndex) return;
+      onCloseFired = barIndex;
+    }
+    events.push({
+      kind: 'alert',
+      message: textOf(message),
+      frequency: resolved,
+      barIndex,
+    });
+  }) as AlertFunction;
+  alert.freq_all = 'all';
+  alert.freq_once_per_bar = 'once_per_bar';
+  alert.freq_once_per_bar_close = 'once_per_bar_close';
+
+  const alertcondition = (
+    condition: unknown,
+    title?: unknown,
+    message?: unknown,
+  ) => {
+    // A numeric condition holds when it is neither zero nor na.
+    const holds =
+      condition === true ||
+      (typeof condition === 'number' &&
+        condition !== 0 &&
+        !Number.isNaN(condition));
+    if (!holds) return;
+    const name = textOf(title);
+    if (conditionsFired.get(name) === barIndex) return;
+    conditionsFired.set(name, barIndex);
+    events.push({
+      kind: 'alertcondition',
+      message: textOf(message),
+      frequency: 'once_per_bar',
+      title: name,
+      barIndex,
+    });
+  };
+
+  const beginBar = (index: number, isConfirmed: boolean): AlertEvent[] => {
+    barIndex = index;
+    confirmed = isConfirmed;
+    events = [];
+    return events;
+  };
+
+  return { alert, alertcondition, beginBar };
+}
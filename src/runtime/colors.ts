@@ -0,0 +1,155 @@
+/**
+ * Color Runtime
+ *
+ * Pine's `color` namespace for both factory paths and library modules:
+ * the built-in color constants, `color.rgb()`, `color.new()`, the
+ * `color.r/g/b/t()` accessors and `color.from_gradient()`. Colors are
+ * strings in the normalized form of `formatColor()` (`#RRGGBB` when
+ * opaque, `rgba(r, g, b, a)` otherwise) and `na` is `NaN`, so whatever
+ * a script builds reaches visual events the way a literal does.
+ *
+ * `normalizeColor()` and `colorTransparency()` are what the visual
+ * event styles read colors with.
+ */
+
+import {
+  alphaFromTransparency,
+  clampTransparency,
+  formatColor,
+  type ParsedColorChannels,
+  parseColorString,
+} from '../colors';
+import { COLOR_MAP } from '../types';
+
+export interface ColorFunctions {
+  rgb: (
+    red: unknown,
+    green: unknown,
+    blue: unknown,
+    transp?: unknown,
+  ) => unknown;
+  new: (color: unknown, transp?: unknown) => unknown;
+  r: (color: unknown) => number;
+  g: (color: unknown) => number;
+  b: (color: unknown) => number;
+  t: (color: unknown) => number;
+  from_gradient: (
+    value: unknown,
+    bottomValue: unknown,
+    topValue: unknown,
+    bottomColor: unknown,
+    topColor: unknown,
+  ) => unknown;
+}
+
+/**
+ * The Pine `color` namespace. Calling it returns its argument, which is
+ * what `color(x)` casts compile to.
+ */
+export type ColorNamespace = ((value: unknown) => unknown) &
+  ColorFunctions & { readonly [name: string]: unknown };
+
+function parse(value: unknown): ParsedColorChannels | null {
+  return typeof value === 'string' ? parseColorString(value) : null;
+}
+
+function opacity(color: ParsedColorChannels): number {
+  return color.alpha ?? 1;
+}
+
+function transparencyOf(color: ParsedColorChannels): number {
+  return Number(((1 - opacity(color)) * 100).toFixed(2));
+}
+
+/** `value` in the normalized color form, or null when it is no color. */
+export function normalizeColor(value: unknown): string | null {
+  const parsed = parse(value);
+  return parsed ? formatColor(parsed, parsed.alpha) : null;
+}
+
+/**
+ * Transparency (0-100) a color carries in its alpha, or null when it
+ * is opaque or no color.
+ */
+export function colorTransparency(value: unknown): number | null {
+  const parsed = parse(value);
+  if (!parsed || opacity(parsed) >= 1) return null;
+  return transparencyOf(parsed);
+}
+
+function channel(color: unknown, name: 'red' | 'green' | 'blue'): number {
+  const parsed = parse(color);
+  return parsed ? parsed[name] : Number.NaN;
+}
+
+const rgb: ColorFunctions['rgb'] = (red, green, blue, transp = 0) => {
+  const channels = [red, green, blue].map(Number);
+  if (!channels.every(Number.isFinite)) return Number.NaN;
+  const [r, g, b] = channels.map((v) =>
+    Math.max(0, Math.min(255, Math.round(v))),
+  );
+  return formatColor(
+    { red: r, green: g, blue: b },
+    alphaFromTransparency(Number(transp)),
+  );
+};
+
+const withTransparency: ColorFunctions['new'] = (color, transp = 0) => {
+  const parsed = parse(color);
+  if (!parsed) return color;
+  return formatColor(parsed, alphaFromTransparency(Number(transp)));
+};
+
+/**
+ * The color at `value` on the gradient from `bottomColor` at
+ * `bottomValue` to `topColor` at `topValue`. Channels and transparency
+ * are interpolated linearly; values outside the range take the color
+ * at its nearer end.
+ */
+const fromGradient: ColorFunctions['from_gradient'] = (
+  value,
+  bottomValue,
+  topValue,
+  bottomColor,
+  topColor,
+) => {
+  const at = Number(value);
+  const bottom = Number(bottomValue);
+  const top = Number(topValue);
+  const from = parse(bottomColor);
+  const to = parse(topColor);
+  if (!from || !to || ![at, bottom, top].every(Number.isFinite)) {
+    return Number.NaN;
+  }
+  const span = top - bottom;
+  const position =
+    span === 0
+      ? Number(at >= top)
+      : Math.max(0, Math.min(1, (at - bottom) / span));
+  const mix = (a: number, b: number) => a + (b - a) * position;
+  const transparency = mix(transparencyOf(from), transparencyOf(to));
+  return formatColor(
+    {
+      red: Math.round(mix(from.red, to.red)),
+      green: Math.round(mix(from.green, to.green)),
+      blue: Math.round(mix(from.blue, to.blue)),
+    },
+    alphaFromTransparency(clampTransparency(transparency)),
+  );
+};
+
+export function createColorNamespace(): ColorNamespace {
+  const functions: ColorFunctions = {
+    rgb,
+    new: withTransparency,
+    r: (color) => channel(color, 'red'),
+    g: (color) => channel(color, 'green'),
+    b: (color) => channel(color, 'blue'),
+    t: (color) => {
+      const parsed = parse(color);
+      return parsed ? transparencyOf(parsed) : Number.NaN;
+    },
+    from_gradient: fromGradient,
+  };
+  return Object.assign((value: unknown) => value, COLOR_MAP, functions);
+}
@@ -50,12 +50,37 @@ export interface DrawingBoxNamespaceInstance extends DrawingNamespaceInstance {
   __getActiveBgcolor: () => unknown;
 }
 
+export interface DrawingPolylineNamespaceInstance
+  extends DrawingNamespaceInstance {
+  /** Event args of a call: `new` carries its points resolved to `{ x, y }`. */
+  __visualArgs: (fnName: string, args: unknown[], result: unknown) => unknown[];
+}
+
+/** A Pine `chart.point`; coordinates it was not given are `NaN`. */
+export interface ChartPoint {
+  time: number;
+  index: number;
+  price: number;
+}
+
+export interface ChartPointNamespace {
+  new: (time: unknown, index: unknown, price: unknown) => ChartPoint;
+  from_index: (index: unknown, price: unknown) => ChartPoint;
+  from_time: (time: unknown, price: unknown) => ChartPoint;
+  now: (price: unknown) => ChartPoint;
+  copy: (point: unknown) => ChartPoint | undefined;
+  /** The bar `chart.point.now()` reads its time and index from. */
+  __setBar: (index: unknown, time: unknown) => void;
+}
+
 export interface DrawingRuntime {
   line: DrawingNamespaceInstance;
   box: DrawingBoxNamespaceInstance;
   label: DrawingNamespaceInstance;
   linefill: DrawingNamespaceInstance;
+  polyline: DrawingPolylineNamespaceInstance;
   table: DrawingNamespaceInstance;
+  chartPoint: ChartPointNamespace;
 }
 
 const NUMBER_VALUE_NAMES = new Set([
@@ -76,6 +101,7 @@ const INTEGER_VALUE_NAMES = new Set([
   'height',
   'border_width',
   'frame_width',
+  'line_width',
   'column',
   'row',
   'start_column',
@@ -92,6 +118,7 @@ const ONE_DEFAULT_INTEGER_NAMES = new Set([
   'width',
   'border_width',
   'frame_width',
+  'line_width',
 ]);
 
 function toFiniteNumber(value: unknown, fallback = Number.NaN): number {
@@ -150,7 +177,43 @@ function resolveHandle<T extends DrawingHandle>(
   return resolved;
 }
 
+/**
+ * A copy of `value` when it is a chart point, so later changes to the
+ * point do not move a polyline built from it.
+ */
+function toChartPoint(value: unknown): ChartPoint | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const point = value as Partial<Record<keyof ChartPoint, unknown>>;
+  if (!('price' in point)) return undefined;
+  return createChartPoint(point.time, point.index, point.price);
+}
+
+function createChartPoint(
+  time: unknown,
+  index: unknown,
+  price: unknown,
+): ChartPoint {
+  const point: ChartPoint = {
+    time: toFiniteNumber(time),
+    index: toFiniteNumber(index),
+    price: toFiniteNumber(price),
+  };
+  // `point.copy()`, kept off the enumerable fields events serialize.
+  Object.defineProperty(point, 'copy', {
+    value: () => createChartPoint(point.time, point.index, point.price),
+    enumerable: false,
+  });
+  return point;
+}
+
 function normalizeValue(name: string, value: unknown): unknown {
+  if (name === 'points') {
+    if (!Array.isArray(value)) return [];
+    return value
+      .map(toChartPoint)
+      .filter((point): point is ChartPoint => point !== undefined);
+  }
+
   if (STRING_VALUE_NAMES.has(name)) {
     return value == null ? '' : String(value);
   }
@@ -306,14 +369,18 @@ export function createDrawingNamespace(
     store.set(handle.__id, handle);
 
     if (newSpec.visualEventArgs) {
+      const eventArgs = buildProjectedArgs(
+        newSpec.visualEventArgs,
+        normalizedArgsByName,
+        args.length,
+      );
+      const visualArgs = base.__visualArgs;
       emit(
         `${descriptor.name}.new`,
         handle.__id,
-        buildProjectedArgs(
-          newSpec.visualEventArgs,
-          normalizedArgsByName,
-          args.length,
-        ),
+        typeof visualArgs === 'function'
+          ? visualArgs('new', eventArgs, handle)
+          : eventArgs,
       );
     }
 
@@ -566,6 +633,26 @@ export function createDrawingNamespace(
     };
   }
 
+  if (descriptor.name === 'polyline') {
+    base.__visualArgs = (
+      fnName: string,
+      args: unknown[],
+      result: unknown,
+    ): unknown[] => {
+      const handle = fnName === 'new' ? asHandle(result) : undefined;
+      if (!handle) return args;
+      const points = (handle.points ?? []) as ChartPoint[];
+      const byTime = handle.xloc === 'bar_time';
+      return [
+        points.map((point) => ({
+          x: byTime ? point.time : point.index,
+          y: point.price,
+        })),
+        ...args.slice(1),
+      ];
+    };
+  }
+
   for (const constant of descriptor.constants) {
     base[constant.name] = constant.value;
   }
@@ -576,6 +663,22 @@ export function createDrawingNamespace(
   ) as DrawingNamespaceInstance;
 }
 
+export function createChartPointNamespace(): ChartPointNamespace {
+  let barIndex = Number.NaN;
+  let barTime = Number.NaN;
+  return {
+    new: (time, index, price) => createChartPoint(time, index, price),
+    from_index: (index, price) => createChartPoint(Number.NaN, index, price),
+    from_time: (time, price) => createChartPoint(time, Number.NaN, price),
+    now: (price) => createChartPoint(barTime, barIndex, price),
+    copy: (point) => toChartPoint(point),
+    __setBar: (index, time) => {
+      barIndex = toFiniteNumber(index);
+      barTime = toFiniteNumber(time);
+    },
+  };
+}
+
 export function createDrawingRuntime(sink: DrawingEventSink): DrawingRuntime {
   return {
     line: createDrawingNamespace(DRAWING_REGISTRY.line, sink),
@@ -585,6 +688,11 @@ export function createDrawingRuntime(sink: DrawingEventSink): DrawingRuntime {
     ) as DrawingBoxNamespaceInstance,
     label: createDrawingNamespace(DRAWING_REGISTRY.label, sink),
     linefill: createDrawingNamespace(DRAWING_REGISTRY.linefill, sink),
+    polyline: createDrawingNamespace(
+      DRAWING_REGISTRY.polyline,
+      sink,
+    ) as DrawingPolylineNamespaceInstance,
     table: createDrawingNamespace(DRAWING_REGISTRY.table, sink),
+    chartPoint: createChartPointNamespace(),
   };
 }
@@ -1,9 +1,17 @@
+import { createAlertRuntime } from '../alerts';
+import { createLogRuntime } from '../logs';
+import { createStrategyRuntime } from '../strategy';
 import { createDrawingRuntime, type DrawingEventSink } from './index';
 import { STANDALONE_DRAWING_BUNDLE_GLOBAL } from './standalone-bundle.constants';
 
+// The strategy, alert and log runtimes ride along: they are the other
+// stateful runtimes standalone factories share with the live one.
 interface StandaloneDrawingBundleApi {
   createDrawingRuntime: typeof createDrawingRuntime;
   createDrawingStubNamespaces: () => ReturnType<typeof createDrawingRuntime>;
+  createStrategyRuntime: typeof createStrategyRuntime;
+  createAlertRuntime: typeof createAlertRuntime;
+  createLogRuntime: typeof createLogRuntime;
 }
 
 type StandaloneDrawingBundleGlobal = typeof globalThis & {
@@ -26,6 +34,9 @@ function createDrawingStubNamespaces(): ReturnType<
 const standaloneDrawingBundle: StandaloneDrawingBundleApi = {
   createDrawingRuntime,
   createDrawingStubNamespaces,
+  createStrategyRuntime,
+  createAlertRuntime,
+  createLogRuntime,
 };
 
 const standaloneDrawingGlobal = globalThis as StandaloneDrawingBundleGlobal;
@@ -1,4 +1,13 @@
 // Generated by `bun scripts/build-drawing-bundle.ts`. Do not edit by hand.
 // biome-ignore format: generated bundle literal
 // biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal
-export const STANDALONE_DRAWING_BUNDLE = "// src/registry/drawing.ts\nvar BOX_NEW_ARGS = [\n  \"left\",\n  \"top\",\n  \"right\",\n  \"bottom\",\n  \"border_color\",\n  \"border_width\",\n  \"border_style\",\n  \"extend\",\n  \"xloc\",\n  \"bgcolor\",\n  \"text\",\n  \"text_size\",\n  \"text_color\",\n  \"text_halign\",\n  \"text_valign\",\n  \"text_wrap\",\n  \"force_overlay\",\n  \"text_font_family\"\n];\nvar LINE_NEW_ARGS = [\n  \"x1\",\n  \"y1\",\n  \"x2\",\n  \"y2\",\n  \"xloc\",\n  \"extend\",\n  \"color\",\n  \"style\",\n  \"width\",\n  \"force_overlay\"\n];\nvar LABEL_NEW_ARGS = [\n  \"x\",\n  \"y\",\n  \"text\",\n  \"xloc\",\n  \"yloc\",\n  \"color\",\n  \"style\",\n  \"textcolor\",\n  \"size\",\n  \"textalign\",\n  \"tooltip\",\n  \"text_font_family\",\n  \"force_overlay\",\n  \"text_formatting\"\n];\nvar LINEFILL_NEW_ARGS = [\"line1\", \"line2\", \"color\"];\nvar TABLE_NEW_ARGS = [\n  \"position\",\n  \"columns\",\n  \"rows\",\n  \"bgcolor\",\n  \"frame_color\",\n  \"frame_width\",\n  \"border_color\",\n  \"border_width\",\n  \"force_overlay\"\n];\nvar TABLE_CELL_ARGS = [\n  \"table_id\",\n  \"column\",\n  \"row\",\n  \"text\",\n  \"width\",\n  \"height\",\n  \"text_color\",\n  \"text_halign\",\n  \"text_valign\",\n  \"text_size\",\n  \"bgcolor\",\n  \"tooltip\",\n  \"text_font_family\",\n  \"text_formatting\"\n];\nvar DRAWING_REGISTRY = {\n  box: {\n    name: \"box\",\n    functions: {\n      new: {\n        canonicalArgs: BOX_NEW_ARGS,\n        handleFields: {\n          left: \"left\",\n          top: \"top\",\n          right: \"right\",\n          bottom: \"bottom\",\n          border_color: \"border_color\",\n          border_width: \"border_width\",\n          border_style: \"border_style\",\n          extend: \"extend\",\n          xloc: \"xloc\",\n          bgcolor: \"bgcolor\",\n          text: \"text\",\n          text_size: \"text_size\",\n          text_color: \"text_color\",\n          text_halign: \"text_halign\",\n          text_valign: \"text_valign\",\n          text_wrap: \"text_wrap\",\n          force_overlay: \"force_overlay\",\n          text_font_family: \"text_font_family\"\n        },\n        visualEventArgs: BOX_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_left: { canonicalArgs: [\"id\", \"left\"] },\n      set_right: { canonicalArgs: [\"id\", \"right\"] },\n      set_top: { canonicalArgs: [\"id\", \"top\"] },\n      set_bottom: { canonicalArgs: [\"id\", \"bottom\"] },\n      set_extend: { canonicalArgs: [\"id\", \"extend\"] },\n      set_bgcolor: { canonicalArgs: [\"id\", \"color\"] },\n      set_border_color: { canonicalArgs: [\"id\", \"color\"] },\n      set_border_width: { canonicalArgs: [\"id\", \"width\"] },\n      set_text_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_left: { canonicalArgs: [\"id\"] },\n      get_right: { canonicalArgs: [\"id\"] },\n      get_top: { canonicalArgs: [\"id\"] },\n      get_bottom: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  line: {\n    name: \"line\",\n    functions: {\n      new: {\n        canonicalArgs: LINE_NEW_ARGS,\n        handleFields: {\n          x1: \"x1\",\n          y1: \"y1\",\n          x2: \"x2\",\n          y2: \"y2\",\n          xloc: \"xloc\",\n          extend: \"extend\",\n          color: \"color\",\n          style: \"style\",\n          width: \"width\",\n          force_overlay: \"force_overlay\"\n        },\n        visualEventArgs: LINE_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_x2: { canonicalArgs: [\"id\", \"x2\"] },\n      set_xy1: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_xy2: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_x2: { canonicalArgs: [\"id\"] },\n      get_y1: { canonicalArgs: [\"id\"] },\n      get_y2: { canonicalArgs: [\"id\"] }\n    },\n    constants: [\n      { name: \"style_solid\", value: \"solid\" },\n      { name: \"style_dashed\", value: \"dashed\" },\n      { name: \"style_dotted\", value: \"dotted\" },\n      { name: \"style_arrow_left\", value: \"arrow_left\" },\n      { name: \"style_arrow_right\", value: \"arrow_right\" },\n      { name: \"style_arrow_both\", value: \"arrow_both\" }\n    ]\n  },\n  label: {\n    name: \"label\",\n    functions: {\n      new: {\n        canonicalArgs: LABEL_NEW_ARGS,\n        handleFields: {\n          x: \"x\",\n          y: \"y\",\n          text: \"text\",\n          xloc: \"xloc\",\n          yloc: \"yloc\",\n          color: \"color\",\n          style: \"style\",\n          textcolor: \"textcolor\",\n          size: \"size\",\n          textalign: \"textalign\",\n          tooltip: \"tooltip\",\n          text_font_family: \"text_font_family\",\n          force_overlay: \"force_overlay\",\n          text_formatting: \"text_formatting\"\n        },\n        visualEventArgs: LABEL_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_text: { canonicalArgs: [\"id\", \"text\"] },\n      get_text: { canonicalArgs: [\"id\"] },\n      set_tooltip: { canonicalArgs: [\"id\", \"tooltip\"] },\n      set_textcolor: { canonicalArgs: [\"id\", \"color\"] },\n      set_style: { canonicalArgs: [\"id\", \"style\"] },\n      set_xy: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_x: { canonicalArgs: [\"id\", \"x\"] },\n      set_y: { canonicalArgs: [\"id\", \"y\"] },\n      get_y: { canonicalArgs: [\"id\"] }\n    },\n    constants: [\n      { name: \"style_none\", value: \"none\" },\n      { name: \"style_xcross\", value: \"xcross\" },\n      { name: \"style_cross\", value: \"cross\" },\n      { name: \"style_triangleup\", value: \"triangleup\" },\n      { name: \"style_triangledown\", value: \"triangledown\" },\n      { name: \"style_flag\", value: \"flag\" },\n      { name: \"style_circle\", value: \"circle\" },\n      { name: \"style_arrowup\", value: \"arrowup\" },\n      { name: \"style_arrowdown\", value: \"arrowdown\" },\n      { name: \"style_square\", value: \"square\" },\n      { name: \"style_diamond\", value: \"diamond\" },\n      { name: \"style_label_up\", value: \"label_up\" },\n      { name: \"style_label_down\", value: \"label_down\" },\n      { name: \"style_label_left\", value: \"label_left\" },\n      { name: \"style_label_right\", value: \"label_right\" },\n      { name: \"style_label_lower_left\", value: \"label_lower_left\" },\n      { name: \"style_label_lower_right\", value: \"label_lower_right\" },\n      { name: \"style_label_upper_left\", value: \"label_upper_left\" },\n      { name: \"style_label_upper_right\", value: \"label_upper_right\" },\n      { name: \"style_label_center\", value: \"label_center\" }\n    ]\n  },\n  linefill: {\n    name: \"linefill\",\n    functions: {\n      new: {\n        canonicalArgs: LINEFILL_NEW_ARGS,\n        handleFields: {\n          line1: \"line1\",\n          line2: \"line2\",\n          color: \"color\"\n        },\n        visualEventArgs: LINEFILL_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_line1: { canonicalArgs: [\"id\"] },\n      get_line2: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  table: {\n    name: \"table\",\n    functions: {\n      new: {\n        canonicalArgs: TABLE_NEW_ARGS,\n        handleFields: {\n          position: \"position\",\n          columns: \"columns\",\n          rows: \"rows\",\n          bgcolor: \"bgcolor\",\n          frame_color: \"frame_color\",\n          frame_width: \"frame_width\",\n          border_color: \"border_color\",\n          border_width: \"border_width\",\n          force_overlay: \"force_overlay\"\n        },\n        visualEventArgs: TABLE_NEW_ARGS\n      },\n      cell: {\n        canonicalArgs: TABLE_CELL_ARGS,\n        visualEventArgs: TABLE_CELL_ARGS\n      },\n      clear: {\n        canonicalArgs: [\n          \"table_id\",\n          \"start_column\",\n          \"start_row\",\n          \"end_column\",\n          \"end_row\"\n        ]\n      },\n      merge_cells: {\n        canonicalArgs: [\n          \"table_id\",\n          \"start_column\",\n          \"start_row\",\n          \"end_column\",\n          \"end_row\"\n        ]\n      }\n    },\n    constants: []\n  }\n};\n// src/runtime/drawing/index.ts\nvar NUMBER_VALUE_NAMES = new Set([\n  \"x\",\n  \"y\",\n  \"x1\",\n  \"y1\",\n  \"x2\",\n  \"y2\",\n  \"left\",\n  \"top\",\n  \"right\",\n  \"bottom\"\n]);\nvar INTEGER_VALUE_NAMES = new Set([\n  \"width\",\n  \"height\",\n  \"border_width\",\n  \"frame_width\",\n  \"column\",\n  \"row\",\n  \"start_column\",\n  \"start_row\",\n  \"end_column\",\n  \"end_row\"\n]);\nvar NONNEGATIVE_INTEGER_VALUE_NAMES = new Set([\"columns\", \"rows\"]);\nvar STRING_VALUE_NAMES = new Set([\"text\", \"tooltip\"]);\nvar HANDLE_OWNER = Symbol(\"drawingHandleOwner\");\nvar ONE_DEFAULT_INTEGER_NAMES = new Set([\n  \"width\",\n  \"border_width\",\n  \"frame_width\"\n]);\nfunction toFiniteNumber(value, fallback = Number.NaN) {\n  const candidate = Number(value);\n  return Number.isFinite(candidate) ? candidate : fallback;\n}\nfunction toInteger(value, fallback = 0) {\n  const candidate = Number(value);\n  return Number.isFinite(candidate) ? Math.trunc(candidate) : fallback;\n}\nfunction isColorLike(value) {\n  if (typeof value !== \"string\" || value.length === 0)\n    return false;\n  if (value === \"NaN\" || value === \"na\")\n    return false;\n  return value.startsWith(\"#\") || value.startsWith(\"rgb\") || value.startsWith(\"hsl\");\n}\nfunction asHandle(value) {\n  if (typeof value !== \"object\" || value === null)\n    return;\n  const candidate = value;\n  if (typeof candidate.__id !== \"number\")\n    return;\n  return candidate;\n}\nfunction withConstantFallback(base, prefix) {\n  return new Proxy(base, {\n    get(target, prop, receiver) {\n      const value = Reflect.get(target, prop, receiver);\n      if (value !== undefined || typeof prop !== \"string\")\n        return value;\n      return `${prefix}.${prop}`;\n    }\n  });\n}\nfunction resolveHandle(value, store, ownerToken) {\n  const handle = asHandle(value);\n  if (!handle)\n    return;\n  const handleOwner = handle[HANDLE_OWNER];\n  if (handleOwner !== ownerToken) {\n    return;\n  }\n  const resolved = store.get(handle.__id);\n  if (!resolved || resolved.__deleted)\n    return;\n  return resolved;\n}\nfunction normalizeValue(name, value) {\n  if (STRING_VALUE_NAMES.has(name)) {\n    return value == null ? \"\" : String(value);\n  }\n  if (NONNEGATIVE_INTEGER_VALUE_NAMES.has(name)) {\n    return Math.max(0, toInteger(value, 0));\n  }\n  if (INTEGER_VALUE_NAMES.has(name)) {\n    const fallback = value == null && ONE_DEFAULT_INTEGER_NAMES.has(name) ? 1 : 0;\n    return toInteger(value, fallback);\n  }\n  if (NUMBER_VALUE_NAMES.has(name)) {\n    return toFiniteNumber(value);\n  }\n  return value;\n}\nfunction getterFallback(name) {\n  if (STRING_VALUE_NAMES.has(name))\n    return \"\";\n  if (NUMBER_VALUE_NAMES.has(name) || INTEGER_VALUE_NAMES.has(name) || NONNEGATIVE_INTEGER_VALUE_NAMES.has(name)) {\n    return Number.NaN;\n  }\n  return;\n}\nfunction keyForCell(column, row) {\n  return `${column}:${row}`;\n}\nfunction parseAccessorFields(fnName) {\n  const suffix = fnName.replace(/^(set|get)_/, \"\");\n  if (suffix === \"xy\")\n    return [\"x\", \"y\"];\n  const xyMatch = /^xy(\\d+)$/.exec(suffix);\n  if (xyMatch) {\n    return [`x${xyMatch[1]}`, `y${xyMatch[1]}`];\n  }\n  return [suffix];\n}\nfunction buildProjectedArgs(projection, valuesByName, length) {\n  const projected = [];\n  const cappedLength = Math.min(length, projection.length);\n  for (let index = 0;index < cappedLength; index++) {\n    projected.push(valuesByName[projection[index] ?? \"\"]);\n  }\n  return projected;\n}\nfunction createTableCellData(valuesByName) {\n  return {\n    text: valuesByName.text,\n    width: valuesByName.width,\n    height: valuesByName.height,\n    textColor: valuesByName.text_color,\n    textHalign: valuesByName.text_halign,\n    textValign: valuesByName.text_valign,\n    textSize: valuesByName.text_size,\n    bgcolor: valuesByName.bgcolor,\n    tooltip: valuesByName.tooltip,\n    textFontFamily: valuesByName.text_font_family,\n    textFormatting: valuesByName.text_formatting\n  };\n}\nfunction createDrawingNamespace(descriptor, sink) {\n  let nextId = 1;\n  const ownerToken = {};\n  const store = new Map;\n  const base = {};\n  const emit = (call, pineHandleId, args) => {\n    sink.pushEvent({\n      call,\n      args,\n      barIndex: sink.barIndex,\n      pineHandleId\n    });\n  };\n  const hasHandle = (value) => resolveHandle(value, store, ownerToken) !== undefined;\n  const attachHandleMethods = (handle) => {\n    for (const fnName of Object.keys(descriptor.functions)) {\n      if (fnName === \"new\")\n        continue;\n      if (typeof handle[fnName] === \"function\")\n        continue;\n      handle[fnName] = (...args) => {\n        const method = base[fnName];\n        if (typeof method !== \"function\")\n          return;\n        return method(handle, ...args);\n      };\n    }\n  };\n  const createHandle = (...args) => {\n    const newSpec = descriptor.functions.new;\n    const canonicalArgs = newSpec.canonicalArgs;\n    const handleFields = newSpec.handleFields ?? {};\n    const normalizedArgsByName = {};\n    for (let index = 0;index < args.length && index < canonicalArgs.length; index++) {\n      const argName = canonicalArgs[index];\n      if (!argName)\n        continue;\n      const fieldName = handleFields[argName] ?? argName;\n      normalizedArgsByName[argName] = normalizeValue(fieldName, args[index]);\n    }\n    const handle = {\n      __id: nextId++,\n      __deleted: false\n    };\n    Object.defineProperty(handle, HANDLE_OWNER, {\n      value: ownerToken,\n      enumerable: false,\n      configurable: false,\n      writable: false\n    });\n    for (const [argName, fieldName] of Object.entries(handleFields)) {\n      handle[fieldName] = normalizedArgsByName[argName];\n    }\n    if (descriptor.name === \"table\") {\n      const tableHandle = handle;\n      tableHandle.cells = new Map;\n      tableHandle.merges = [];\n    }\n    attachHandleMethods(handle);\n    store.set(handle.__id, handle);\n    if (newSpec.visualEventArgs) {\n      emit(`${descriptor.name}.new`, handle.__id, buildProjectedArgs(newSpec.visualEventArgs, normalizedArgsByName, args.length));\n    }\n    return handle;\n  };\n  const getValue = (handle, fieldName) => {\n    const value = handle[fieldName];\n    if (value === undefined)\n      return getterFallback(fieldName);\n    if (NUMBER_VALUE_NAMES.has(fieldName) || INTEGER_VALUE_NAMES.has(fieldName) || NONNEGATIVE_INTEGER_VALUE_NAMES.has(fieldName)) {\n      return toFiniteNumber(value);\n    }\n    if (STRING_VALUE_NAMES.has(fieldName)) {\n      return value == null ? \"\" : String(value);\n    }\n    return value;\n  };\n  for (const [fnName, fnSpec] of Object.entries(descriptor.functions)) {\n    if (fnName === \"new\") {\n      base.new = createHandle;\n      continue;\n    }\n    if (fnName === \"delete\") {\n      base.delete = (handleLike) => {\n        const handle = resolveHandle(handleLike, store, ownerToken);\n        if (!handle)\n          return;\n        handle.__deleted = true;\n        store.delete(handle.__id);\n        emit(`${descriptor.name}.delete`, handle.__id, []);\n      };\n      continue;\n    }\n    if (fnName.startsWith(\"get_\")) {\n      const [fieldName = \"\"] = parseAccessorFields(fnName);\n      base[fnName] = (handleLike) => {\n        const handle = resolveHandle(handleLike, store, ownerToken);\n        if (!handle)\n          return getterFallback(fieldName);\n        return getValue(handle, fieldName);\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"cell\") {\n      base.cell = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {\n          table_id: table\n        };\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        const column = normalizedArgsByName.column;\n        const row = normalizedArgsByName.row;\n        table.cells.set(keyForCell(column, row), createTableCellData(normalizedArgsByName));\n        const projection = fnSpec.visualEventArgs ?? fnSpec.canonicalArgs;\n        emit(\"table.cell\", table.__id, buildProjectedArgs(projection, normalizedArgsByName, args.length));\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"clear\") {\n      base.clear = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        if (args.length <= 1) {\n          table.cells.clear();\n          table.merges = [];\n        } else {\n          const startColumn = normalizedArgsByName.start_column;\n          const startRow = normalizedArgsByName.start_row;\n          const endColumn = typeof normalizedArgsByName.end_column === \"number\" ? normalizedArgsByName.end_column : table.columns - 1;\n          const endRow = typeof normalizedArgsByName.end_row === \"number\" ? normalizedArgsByName.end_row : table.rows - 1;\n          for (const key of [...table.cells.keys()]) {\n            const [columnText = \"\", rowText = \"\"] = key.split(\":\");\n            const column = Number(columnText);\n            const row = Number(rowText);\n            if (column >= startColumn && column <= endColumn && row >= startRow && row <= endRow) {\n              table.cells.delete(key);\n            }\n          }\n        }\n        emit(\"table.clear\", table.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"merge_cells\") {\n      base.merge_cells = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        const startColumn = normalizedArgsByName.start_column;\n        const startRow = normalizedArgsByName.start_row;\n        const endColumn = typeof normalizedArgsByName.end_column === \"number\" ? normalizedArgsByName.end_column : startColumn;\n        const endRow = typeof normalizedArgsByName.end_row === \"number\" ? normalizedArgsByName.end_row : startRow;\n        table.merges.push([startColumn, startRow, endColumn, endRow]);\n        emit(\"table.merge_cells\", table.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n      continue;\n    }\n    if (fnName.startsWith(\"set_\")) {\n      const fieldNames = parseAccessorFields(fnName);\n      base[fnName] = (...args) => {\n        const handle = resolveHandle(args[0], store, ownerToken);\n        if (!handle)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          const fieldName = fieldNames[index - 1] ?? argName ?? \"\";\n          if (!argName)\n            continue;\n          const normalizedValue = normalizeValue(fieldName, args[index]);\n          normalizedArgsByName[argName] = normalizedValue;\n          handle[fieldName] = normalizedValue;\n        }\n        emit(`${descriptor.name}.${fnName}`, handle.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n    }\n  }\n  base.__hasHandle = hasHandle;\n  if (descriptor.name === \"box\") {\n    let currentBarTime = Number.NaN;\n    base.__setBarTime = (time) => {\n      const value = Number(time);\n      if (Number.isFinite(value)) {\n        currentBarTime = value;\n      }\n    };\n    base.__getActiveBgcolor = () => {\n      if (!Number.isFinite(currentBarTime))\n        return null;\n      let active = null;\n      for (const handle of store.values()) {\n        if (typeof handle.right === \"number\" && handle.right === currentBarTime) {\n          active = handle;\n        }\n      }\n      if (!active)\n        return null;\n      if (isColorLike(active.bgcolor))\n        return active.bgcolor;\n      if (isColorLike(active.border_color))\n        return active.border_color;\n      return null;\n    };\n  }\n  for (const constant of descriptor.constants) {\n    base[constant.name] = constant.value;\n  }\n  return withConstantFallback(base, descriptor.name);\n}\nfunction createDrawingRuntime(sink) {\n  return {\n    line: createDrawingNamespace(DRAWING_REGISTRY.line, sink),\n    box: createDrawingNamespace(DRAWING_REGISTRY.box, sink),\n    label: createDrawingNamespace(DRAWING_REGISTRY.label, sink),\n    linefill: createDrawingNamespace(DRAWING_REGISTRY.linefill, sink),\n    table: createDrawingNamespace(DRAWING_REGISTRY.table, sink)\n  };\n}\n\n// src/runtime/drawing/standalone-bundle.constants.ts\nvar STANDALONE_DRAWING_BUNDLE_GLOBAL = \"__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__\";\n\n// src/runtime/drawing/standalone-bundle.entry.ts\nfunction createNoopDrawingSink() {\n  return {\n    barIndex: -1,\n    pushEvent: () => {\n      return;\n    }\n  };\n}\nfunction createDrawingStubNamespaces() {\n  return createDrawingRuntime(createNoopDrawingSink());\n}\nvar standaloneDrawingBundle = {\n  createDrawingRuntime,\n  createDrawingStubNamespaces\n};\nvar standaloneDrawingGlobal = globalThis;\nstandaloneDrawingGlobal[STANDALONE_DRAWING_BUNDLE_GLOBAL] = standaloneDrawingBundle;\n\nvar __createDrawingRuntime =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createDrawingRuntime;\nvar __createDrawingStubNamespaces =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createDrawingStubNamespaces;";
+export const STANDALONE_DRAWING_BUNDLE = "// src/runtime/alerts.ts\nvar FREQUENCIES = [\n  \"all\",\n  \"once_per_bar\",\n  \"once_per_bar_close\"\n];\nfunction textOf(value) {\n  if (typeof value === \"string\")\n    return value;\n  if (typeof value === \"number\" && Number.isNaN(value))\n    return \"\";\n  return value === undefined || value === null ? \"\" : String(value);\n}\nfunction createAlertRuntime() {\n  let events = [];\n  let barIndex = -1;\n  let confirmed = true;\n  let oncePerBarFired = -1;\n  let onCloseFired = -1;\n  const conditionsFired = new Map;\n  const alert = (message, frequency) => {\n    const requested = FREQUENCIES.find((name) => name === frequency);\n    const resolved = requested ?? \"once_per_bar\";\n    if (resolved === \"once_per_bar\") {\n      if (oncePerBarFired === barIndex)\n        return;\n      oncePerBarFired = barIndex;\n    } else if (resolved === \"once_per_bar_close\") {\n      if (!confirmed || onCloseFired === barIndex)\n        return;\n      onCloseFired = barIndex;\n    }\n    events.push({\n      kind: \"alert\",\n      message: textOf(message),\n      frequency: resolved,\n      barIndex\n    });\n  };\n  alert.freq_all = \"all\";\n  alert.freq_once_per_bar = \"once_per_bar\";\n  alert.freq_once_per_bar_close = \"once_per_bar_close\";\n  const alertcondition = (condition, title, message) => {\n    const holds = condition === true || typeof condition === \"number\" && condition !== 0 && !Number.isNaN(condition);\n    if (!holds)\n      return;\n    const name = textOf(title);\n    if (conditionsFired.get(name) === barIndex)\n      return;\n    conditionsFired.set(name, barIndex);\n    events.push({\n      kind: \"alertcondition\",\n      message: textOf(message),\n      frequency: \"once_per_bar\",\n      title: name,\n      barIndex\n    });\n  };\n  const beginBar = (index, isConfirmed) => {\n    barIndex = index;\n    confirmed = isConfirmed;\n    events = [];\n    return events;\n  };\n  return { alert, alertcondition, beginBar };\n}\n\n// src/runtime/text-format.ts\nvar numberPatterns = new Map;\nfunction toFixedHalfUp(abs, digits) {\n  const shifted = Number((abs * 10 ** digits).toPrecision(15));\n  if (shifted >= Number.MAX_SAFE_INTEGER)\n    return abs.toFixed(digits);\n  const whole = String(Math.round(shifted)).padStart(digits + 1, \"0\");\n  return digits === 0 ? whole : `${whole.slice(0, -digits)}.${whole.slice(-digits)}`;\n}\nfunction readAffix(pattern, start, stop, onMultiplier) {\n  let text = \"\";\n  let i = start;\n  while (i < pattern.length && !stop.includes(pattern[i])) {\n    const ch = pattern[i];\n    if (ch === \"'\") {\n      if (pattern[i + 1] === \"'\") {\n        text += \"'\";\n        i += 2;\n        continue;\n      }\n      const close = pattern.indexOf(\"'\", i + 1);\n      const end = close === -1 ? pattern.length : close;\n      text += pattern.slice(i + 1, end).replace(/''/g, \"'\");\n      i = end + 1;\n      continue;\n    }\n    if (ch === \"%\")\n      onMultiplier(100);\n    if (ch === \"‰\")\n      onMultiplier(1000);\n    text += ch === \"¤\" ? \"$\" : ch;\n    i++;\n  }\n  return [text, i];\n}\nfunction parseNumberPattern(pattern) {\n  let multiplier = 1;\n  const setMultiplier = (value) => {\n    multiplier = value;\n  };\n  const [prefix, numberStart] = readAffix(pattern, 0, \"#0,.\", setMultiplier);\n  let numberEnd = numberStart;\n  while (numberEnd < pattern.length && \"#0,.\".includes(pattern[numberEnd])) {\n    numberEnd++;\n  }\n  const [suffix, suffixEnd] = readAffix(pattern, numberEnd, \";\", setMultiplier);\n  let negativePrefix = `-${prefix}`;\n  let negativeSuffix = suffix;\n  if (pattern[suffixEnd] === \";\") {\n    const ignore = () => {\n      return;\n    };\n    const [negPrefix, negNumberStart] = readAffix(pattern, suffixEnd + 1, \"#0,.\", ignore);\n    let negNumberEnd = negNumberStart;\n    while (negNumberEnd < pattern.length && \"#0,.\".includes(pattern[negNumberEnd])) {\n      negNumberEnd++;\n    }\n    negativePrefix = negPrefix;\n    negativeSuffix = readAffix(pattern, negNumberEnd, \"\", ignore)[0];\n  }\n  const digits = pattern.slice(numberStart, numberEnd);\n  const point = digits.indexOf(\".\");\n  const integerPart = point === -1 ? digits : digits.slice(0, point);\n  const fractionPart = point === -1 ? \"\" : digits.slice(point + 1);\n  const lastComma = integerPart.lastIndexOf(\",\");\n  return {\n    positivePrefix: prefix,\n    positiveSuffix: suffix,\n    negativePrefix,\n    negativeSuffix,\n    multiplier,\n    minInteger: Math.max(1, integerPart.split(\"0\").length - 1),\n    minFraction: fractionPart.split(\"0\").length - 1,\n    maxFraction: fractionPart.replace(/,/g, \"\").length,\n    grouping: lastComma === -1 ? 0 : integerPart.length - lastComma - 1\n  };\n}\nfunction readNumberPattern(pattern) {\n  let parsed = numberPatterns.get(pattern);\n  if (!parsed) {\n    parsed = parseNumberPattern(pattern);\n    numberPatterns.set(pattern, parsed);\n  }\n  return parsed;\n}\nfunction groupDigits(digits, size) {\n  if (size <= 0 || digits.length <= size)\n    return digits;\n  const groups = [];\n  for (let end = digits.length;end > 0; end -= size) {\n    groups.unshift(digits.slice(Math.max(0, end - size), end));\n  }\n  return groups.join(\",\");\n}\nfunction formatNumber(value, pattern) {\n  if (Number.isNaN(value))\n    return \"NaN\";\n  const format = readNumberPattern(pattern);\n  const scaled = Math.abs(value) * format.multiplier;\n  if (!Number.isFinite(scaled)) {\n    return value < 0 ? `${format.negativePrefix}∞${format.negativeSuffix}` : `${format.positivePrefix}∞${format.positiveSuffix}`;\n  }\n  const [rawInteger, rawFraction = \"\"] = toFixedHalfUp(scaled, format.maxFraction).split(\".\");\n  let fraction = rawFraction;\n  while (fraction.length > format.minFraction && fraction.endsWith(\"0\")) {\n    fraction = fraction.slice(0, -1);\n  }\n  const integer = groupDigits(rawInteger.replace(/^0+/, \"\").padStart(format.minInteger, \"0\"), format.grouping);\n  const body = fraction ? `${integer}.${fraction}` : integer;\n  const negative = value < 0 && /[1-9]/.test(rawInteger + rawFraction);\n  return negative ? `${format.negativePrefix}${body}${format.negativeSuffix}` : `${format.positivePrefix}${body}${format.positiveSuffix}`;\n}\nvar MONTHS = [\n  \"January\",\n  \"February\",\n  \"March\",\n  \"April\",\n  \"May\",\n  \"June\",\n  \"July\",\n  \"August\",\n  \"September\",\n  \"October\",\n  \"November\",\n  \"December\"\n];\nvar WEEKDAYS = [\n  \"Sunday\",\n  \"Monday\",\n  \"Tuesday\",\n  \"Wednesday\",\n  \"Thursday\",\n  \"Friday\",\n  \"Saturday\"\n];\nvar clockFormatters = new Map;\nfunction clockFormatter(timezone) {\n  if (!clockFormatters.has(timezone)) {\n    let formatter = null;\n    try {\n      formatter = new Intl.DateTimeFormat(\"en-US\", {\n        timeZone: timezone,\n        hourCycle: \"h23\",\n        year: \"numeric\",\n        month: \"numeric\",\n        day: \"numeric\",\n        hour: \"numeric\",\n        minute: \"numeric\",\n        second: \"numeric\"\n      });\n    } catch {}\n    clockFormatters.set(timezone, formatter);\n  }\n  return clockFormatters.get(timezone) ?? null;\n}\nfunction fixedOffsetMinutes(timezone) {\n  const normalized = timezone.trim().toUpperCase();\n  if (normalized === \"UTC\" || normalized === \"GMT\")\n    return 0;\n  const match = /^(?:GMT|UTC)([+-])(\\d{1,2})(?::?(\\d{2}))?$/.exec(normalized);\n  if (!match)\n    return null;\n  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);\n  return match[1] === \"-\" ? -minutes : minutes;\n}\nfunction utcClock(timestamp, offset) {\n  const d = new Date(timestamp + offset * 60000);\n  return {\n    year: d.getUTCFullYear(),\n    month: d.getUTCMonth() + 1,\n    day: d.getUTCDate(),\n    hour: d.getUTCHours(),\n    minute: d.getUTCMinutes(),\n    second: d.getUTCSeconds(),\n    millisecond: d.getUTCMilliseconds(),\n    weekday: d.getUTCDay(),\n    offset\n  };\n}\nfunction readClockAt(timestamp, timezone = \"\") {\n  if (!timezone.trim())\n    return utcClock(timestamp, 0);\n  const fixed = fixedOffsetMinutes(timezone);\n  if (fixed !== null)\n    return utcClock(timestamp, fixed);\n  const formatter = clockFormatter(timezone);\n  if (!formatter)\n    return utcClock(timestamp, 0);\n  const fields = {};\n  for (const part of formatter.formatToParts(new Date(timestamp))) {\n    fields[part.type] = Number(part.value);\n  }\n  const wholeSeconds = Math.floor(timestamp / 1000) * 1000;\n  const wallTime = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);\n  return utcClock(timestamp, Math.round((wallTime - wholeSeconds) / 60000));\n}\nfunction formatOffset(offset, separator) {\n  const abs = Math.abs(offset);\n  const hours = String(Math.floor(abs / 60)).padStart(2, \"0\");\n  const minutes = String(abs % 60).padStart(2, \"0\");\n  return `${offset < 0 ? \"-\" : \"+\"}${hours}${separator}${minutes}`;\n}\nfunction timezoneName(timestamp, timezone, offset, style) {\n  if (offset === 0 && fixedOffsetMinutes(timezone || \"UTC\") === 0) {\n    return style === \"short\" ? \"UTC\" : \"Coordinated Universal Time\";\n  }\n  try {\n    const name = new Intl.DateTimeFormat(\"en-US\", {\n      timeZone: timezone,\n      timeZoneName: style\n    }).formatToParts(new Date(timestamp)).find((part) => part.type === \"timeZoneName\")?.value;\n    if (name)\n      return name;\n  } catch {}\n  return `GMT${formatOffset(offset, \":\")}`;\n}\nfunction dateField(letter, count, clock, timestamp, timezone) {\n  const pad = (value) => String(value).padStart(count, \"0\");\n  switch (letter) {\n    case \"G\":\n      return clock.year > 0 ? \"AD\" : \"BC\";\n    case \"y\":\n    case \"Y\":\n      return count === 2 ? String(clock.year % 100).padStart(2, \"0\") : pad(clock.year);\n    case \"M\":\n    case \"L\":\n      if (count >= 4)\n        return MONTHS[clock.month - 1];\n      if (count === 3)\n        return MONTHS[clock.month - 1].slice(0, 3);\n      return pad(clock.month);\n    case \"d\":\n      return pad(clock.day);\n    case \"D\": {\n      const dayOfYear = (Date.UTC(clock.year, clock.month - 1, clock.day) - Date.UTC(clock.year, 0, 1)) / 86400000 + 1;\n      return pad(dayOfYear);\n    }\n    case \"E\":\n      return count >= 4 ? WEEKDAYS[clock.weekday] : WEEKDAYS[clock.weekday].slice(0, 3);\n    case \"u\":\n      return pad(clock.weekday === 0 ? 7 : clock.weekday);\n    case \"a\":\n      return clock.hour < 12 ? \"AM\" : \"PM\";\n    case \"H\":\n      return pad(clock.hour);\n    case \"k\":\n      return pad(clock.hour === 0 ? 24 : clock.hour);\n    case \"K\":\n      return pad(clock.hour % 12);\n    case \"h\":\n      return pad((clock.hour + 11) % 12 + 1);\n    case \"m\":\n      return pad(clock.minute);\n    case \"s\":\n      return pad(clock.second);\n    case \"S\":\n      return pad(clock.millisecond);\n    case \"z\":\n      return timezoneName(timestamp, timezone, clock.offset, count >= 4 ? \"long\" : \"short\");\n    case \"Z\":\n      return formatOffset(clock.offset, \"\");\n    case \"X\":\n      if (clock.offset === 0)\n        return \"Z\";\n      return count === 1 ? formatOffset(clock.offset, \"\").slice(0, 3) : formatOffset(clock.offset, count >= 3 ? \":\" : \"\");\n    default:\n      return null;\n  }\n}\nfunction formatDate(timestamp, pattern, timezone = \"\") {\n  const clock = readClockAt(timestamp, timezone);\n  let out = \"\";\n  let i = 0;\n  while (i < pattern.length) {\n    const ch = pattern[i];\n    if (ch === \"'\") {\n      if (pattern[i + 1] === \"'\") {\n        out += \"'\";\n        i += 2;\n        continue;\n      }\n      const close = pattern.indexOf(\"'\", i + 1);\n      const end = close === -1 ? pattern.length : close;\n      out += pattern.slice(i + 1, end);\n      i = end + 1;\n      continue;\n    }\n    if (!/[A-Za-z]/.test(ch)) {\n      out += ch;\n      i++;\n      continue;\n    }\n    let count = 1;\n    while (pattern[i + count] === ch)\n      count++;\n    out += dateField(ch, count, clock, timestamp, timezone) ?? pattern.slice(i, i + count);\n    i += count;\n  }\n  return out;\n}\nvar NUMBER_STYLES = {\n  \"\": \"#,##0.###\",\n  integer: \"#,##0\",\n  percent: \"#,##0%\",\n  currency: \"¤#,##0.00\"\n};\nvar DATE_STYLES = {\n  \"\": \"MMM d, yyyy\",\n  short: \"M/d/yy\",\n  medium: \"MMM d, yyyy\",\n  long: \"MMMM d, yyyy\",\n  full: \"EEEE, MMMM d, yyyy\"\n};\nvar TIME_STYLES = {\n  \"\": \"h:mm:ss a\",\n  short: \"h:mm a\",\n  medium: \"h:mm:ss a\",\n  long: \"h:mm:ss a z\",\n  full: \"h:mm:ss a zzzz\"\n};\nfunction textOf2(value) {\n  return value === undefined || value === null ? \"\" : String(value);\n}\nfunction numberArgument(value) {\n  if (typeof value === \"number\")\n    return value;\n  if (typeof value === \"boolean\")\n    return null;\n  const text = textOf2(value).trim();\n  return text !== \"\" && Number.isFinite(Number(text)) ? Number(text) : null;\n}\nfunction formatChoice(value, style, args) {\n  let chosen = \"\";\n  for (const [index, option] of style.split(\"|\").entries()) {\n    const match = /^\\s*([^#<≤]*?)\\s*([#<≤])(.*)$/s.exec(option);\n    if (!match)\n      continue;\n    const limit = match[1].replace(\"∞\", \"Infinity\");\n    const bound = Number(limit);\n    const reached = match[2] === \"<\" ? value > bound : value >= bound;\n    if (index === 0 || reached)\n      chosen = match[3];\n    if (!reached && index > 0)\n      break;\n  }\n  return formatMessage(chosen, args);\n}\nfunction formatArgument(value, type, style, args) {\n  const keyword = style.trim().toLowerCase();\n  const number = numberArgument(value);\n  switch (type) {\n    case \"\":\n      return typeof value === \"number\" ? formatNumber(value, NUMBER_STYLES[\"\"]) : textOf2(value);\n    case \"number\":\n      if (number === null)\n        return textOf2(value);\n      return formatNumber(number, NUMBER_STYLES[keyword] ?? style);\n    case \"date\":\n    case \"time\": {\n      if (number === null || !Number.isFinite(number))\n        return textOf2(value);\n      const styles = type === \"date\" ? DATE_STYLES : TIME_STYLES;\n      return formatDate(number, styles[keyword] ?? style);\n    }\n    case \"choice\":\n      return number === null ? textOf2(value) : formatChoice(number, style, args);\n    default:\n      return textOf2(value);\n  }\n}\nfunction splitPlaceholder(inner) {\n  const first = inner.indexOf(\",\");\n  if (first === -1)\n    return [inner.trim(), \"\", \"\"];\n  const second = inner.indexOf(\",\", first + 1);\n  if (second === -1) {\n    return [inner.slice(0, first).trim(), inner.slice(first + 1).trim(), \"\"];\n  }\n  return [\n    inner.slice(0, first).trim(),\n    inner.slice(first + 1, second).trim().toLowerCase(),\n    inner.slice(second + 1)\n  ];\n}\nfunction placeholderEnd(pattern, start) {\n  let depth = 0;\n  let quoted = false;\n  for (let i = start;i < pattern.length; i++) {\n    const ch = pattern[i];\n    if (ch === \"'\")\n      quoted = !quoted;\n    else if (quoted)\n      continue;\n    else if (ch === \"{\")\n      depth++;\n    else if (ch === \"}\" && --depth === 0)\n      return i;\n  }\n  return -1;\n}\nfunction formatMessage(pattern, args) {\n  let out = \"\";\n  let i = 0;\n  while (i < pattern.length) {\n    const ch = pattern[i];\n    if (ch === \"'\") {\n      if (pattern[i + 1] === \"'\") {\n        out += \"'\";\n        i += 2;\n        continue;\n      }\n      const close = pattern.indexOf(\"'\", i + 1);\n      const end = close === -1 ? pattern.length : close;\n      out += pattern.slice(i + 1, end);\n      i = end + 1;\n      continue;\n    }\n    const end = ch === \"{\" ? placeholderEnd(pattern, i) : -1;\n    if (end === -1) {\n      out += ch;\n      i++;\n      continue;\n    }\n    const [index, type, style] = splitPlaceholder(pattern.slice(i + 1, end));\n    const position = /^\\d+$/.test(index) ? Number(index) : -1;\n    out += position >= 0 && position < args.length ? formatArgument(args[position], type, style, args) : pattern.slice(i, end + 1);\n    i = end + 1;\n  }\n  return out;\n}\n\n// src/runtime/logs.ts\nfunction textOf3(value) {\n  return value === undefined || value === null ? \"\" : String(value);\n}\nfunction createLogRuntime() {\n  let records = [];\n  let barIndex = -1;\n  let time = Number.NaN;\n  const logAt = (level) => (message, ...args) => {\n    const text = textOf3(message);\n    records.push({\n      level,\n      message: args.length > 0 ? formatMessage(text, args) : text,\n      barIndex,\n      time\n    });\n  };\n  const log = {\n    info: logAt(\"info\"),\n    warning: logAt(\"warning\"),\n    error: logAt(\"error\")\n  };\n  const beginBar = (index, barTime) => {\n    barIndex = index;\n    time = Number.isFinite(barTime) ? barTime : Number.NaN;\n    records = [];\n    return records;\n  };\n  return { log, beginBar };\n}\n\n// src/runtime/strategy/report.ts\nfunction emptyTotals() {\n  return { grossProfit: 0, grossLoss: 0, wins: 0, losses: 0, evens: 0 };\n}\nfunction tallyTrade(totals, profit) {\n  if (profit > 0) {\n    totals.grossProfit += profit;\n    totals.wins++;\n  } else if (profit < 0) {\n    totals.grossLoss -= profit;\n    totals.losses++;\n  } else {\n    totals.evens++;\n  }\n}\nfunction startingExtremes(capital) {\n  return {\n    peak: capital,\n    trough: capital,\n    maxDrawdown: 0,\n    maxDrawdownPercent: 0,\n    maxRunup: 0,\n    maxRunupPercent: 0\n  };\n}\nfunction trackEquity(extremes, equity) {\n  if (Number.isNaN(equity))\n    return;\n  extremes.peak = Math.max(extremes.peak, equity);\n  extremes.trough = Math.min(extremes.trough, equity);\n  const drawdown = extremes.peak - equity;\n  const runup = equity - extremes.trough;\n  extremes.maxDrawdown = Math.max(extremes.maxDrawdown, drawdown);\n  extremes.maxRunup = Math.max(extremes.maxRunup, runup);\n  if (extremes.peak > 0) {\n    extremes.maxDrawdownPercent = Math.max(extremes.maxDrawdownPercent, drawdown / extremes.peak * 100);\n  }\n  if (extremes.trough > 0) {\n    extremes.maxRunupPercent = Math.max(extremes.maxRunupPercent, runup / extremes.trough * 100);\n  }\n}\nfunction ratio(part, whole) {\n  return whole === 0 ? Number.NaN : part / whole;\n}\nfunction tradePercent(trade, amount) {\n  return ratio(amount * 100, trade.entryPrice * Math.abs(trade.size));\n}\n\n// src/runtime/strategy/index.ts\nvar QTY_EPSILON = 0.000000001;\nvar DECLARATION_ARGS = {\n  pyramiding: 6,\n  defaultQtyType: 11,\n  defaultQtyValue: 12,\n  initialCapital: 13,\n  currency: 14,\n  slippage: 15,\n  commissionType: 16,\n  commissionValue: 17,\n  processOrdersOnClose: 18\n};\nfunction numberOr(value, fallback) {\n  const number = typeof value === \"number\" ? value : Number.NaN;\n  return Number.isFinite(number) ? number : fallback;\n}\nfunction optional(value) {\n  return typeof value === \"number\" ? value : Number.NaN;\n}\nfunction textOf4(value) {\n  return typeof value === \"string\" ? value : \"\";\n}\nfunction sideOf(direction) {\n  return Number(direction) < 0 || direction === \"short\" ? -1 : 1;\n}\nfunction limitReach(side, level, from, to) {\n  if (Number.isNaN(level))\n    return;\n  if (side * (from - level) <= 0)\n    return from;\n  if (side * (to - level) <= 0)\n    return level;\n  return;\n}\nfunction stopReach(side, level, from, to) {\n  if (Number.isNaN(level))\n    return;\n  if (side * (from - level) >= 0)\n    return from;\n  if (side * (to - level) >= 0)\n    return level;\n  return;\n}\nfunction pricePath(bar) {\n  const highFirst = bar.high - bar.open < bar.open - bar.low;\n  return highFirst ? [bar.open, bar.high, bar.low, bar.close] : [bar.open, bar.low, bar.high, bar.close];\n}\nfunction createStrategyRuntime() {\n  const settings = {\n    pyramiding: 1,\n    defaultQtyType: \"fixed\",\n    defaultQtyValue: 1,\n    initialCapital: 1e6,\n    currency: \"USD\",\n    slippage: 0,\n    commissionType: \"percent\",\n    commissionValue: 0,\n    processOrdersOnClose: false\n  };\n  let declared = false;\n  let lots = [];\n  const orders = new Map;\n  const exits = new Map;\n  let serial = 0;\n  let netProfit = 0;\n  let commissionPaid = 0;\n  const totals = emptyTotals();\n  const closedTrades = [];\n  const equityCurve = [];\n  let extremes;\n  let bar;\n  let barIndex = -1;\n  let tick = 0.01;\n  const positionSize = () => lots.reduce((size, lot) => size + lot.direction * lot.qty, 0);\n  const quantity = (group) => group.reduce((total, lot) => total + lot.qty, 0);\n  const averagePrice = (group) => {\n    const qty = quantity(group);\n    if (qty === 0)\n      return Number.NaN;\n    return group.reduce((total, lot) => total + lot.price * lot.qty, 0) / qty;\n  };\n  const openTrade = (lot) => {\n    const close = bar?.close ?? Number.NaN;\n    return {\n      entryId: lot.entryId,\n      entryComment: lot.comment,\n      entryPrice: lot.price,\n      entryBarIndex: lot.barIndex,\n      entryTime: lot.time,\n      exitId: \"\",\n      exitComment: \"\",\n      exitPrice: Number.NaN,\n      exitBarIndex: Number.NaN,\n      exitTime: Number.NaN,\n      size: lot.direction * lot.qty,\n      commission: lot.commission,\n      profit: (close - lot.price) * lot.qty * lot.direction - lot.commission,\n      maxRunup: lot.runup * lot.qty,\n      maxDrawdown: lot.drawdown * lot.qty\n    };\n  };\n  const openProfit = () => {\n    if (Number.isNaN(bar?.close ?? Number.NaN))\n      return 0;\n    return lots.reduce((total, lot) => total + openTrade(lot).profit, 0);\n  };\n  const equity = () => settings.initialCapital + netProfit + openProfit();\n  const defaultQty = () => {\n    const close = bar?.close ?? Number.NaN;\n    const value = settings.defaultQtyValue;\n    switch (settings.defaultQtyType) {\n      case \"cash\":\n        return value / close;\n      case \"percent_of_equity\":\n        return equity() * value / 100 / close;\n      default:\n        return value;\n    }\n  };\n  const commissionRate = (price, qty) => {\n    if (!(qty > QTY_EPSILON))\n      return 0;\n    const value = settings.commissionValue;\n    switch (settings.commissionType) {\n      case \"cash_per_contract\":\n        return value;\n      case \"cash_per_order\":\n        return value / qty;\n      default:\n        return price * value / 100;\n    }\n  };\n  const slip = (side, price) => price + side * settings.slippage * tick;\n  const closeLots = (group, qty, price, exit, rate) => {\n    let remaining = qty;\n    for (const lot of group) {\n      if (remaining <= QTY_EPSILON)\n        break;\n      const taken = Math.min(lot.qty, remaining);\n      const entryCommission = lot.commission * taken / lot.qty;\n      const commission = entryCommission + rate * taken;\n      const profit = (price - lot.price) * taken * lot.direction - commission;\n      lot.qty -= taken;\n      lot.commission -= entryCommission;\n      remaining -= taken;\n      netProfit += profit;\n      tallyTrade(totals, profit);\n      closedTrades.push({\n        entryId: lot.entryId,\n        entryComment: lot.comment,\n        entryPrice: lot.price,\n        entryBarIndex: lot.barIndex,\n        entryTime: lot.time,\n        exitId: exit.id,\n        exitComment: exit.comment,\n        exitPrice: price,\n        exitBarIndex: barIndex,\n        exitTime: bar?.time ?? Number.NaN,\n        size: lot.direction * taken,\n        commission,\n        profit,\n        maxRunup: lot.runup * taken,\n        maxDrawdown: lot.drawdown * taken\n      });\n    }\n    lots = lots.filter((lot) => lot.qty > QTY_EPSILON);\n  };\n  const trade = (price, group, closeQty, exit, open) => {\n    const closing = Math.min(Math.max(closeQty, 0), quantity(group));\n    const opening = open && open.qty > QTY_EPSILON && bar ? open.qty : 0;\n    const rate = commissionRate(price, closing + opening);\n    commissionPaid += rate * (closing + opening);\n    closeLots(group, closing, price, exit, rate);\n    if (!open || opening === 0 || !bar)\n      return;\n    lots.push({\n      ...open,\n      price,\n      barIndex,\n      time: bar.time,\n      commission: rate * opening,\n      runup: 0,\n      drawdown: 0,\n      exits: new Set\n    });\n  };\n  const exitLots = (rule) => lots.filter((lot) => (rule.fromEntry === \"\" || lot.entryId === rule.fromEntry) && !lot.exits.has(rule.id));\n  const updateExits = () => {\n    for (const [id, rule] of exits) {\n      if (exitLots(rule).length > 0)\n        rule.attached = true;\n      else if (rule.attached)\n        exits.delete(id);\n    }\n  };\n  const applyOca = (filled, qty) => {\n    if (filled.ocaName === \"\" || filled.ocaType === \"none\")\n      return;\n    for (const [key, order] of orders) {\n      if (order.ocaName !== filled.ocaName)\n        continue;\n      if (filled.ocaType === \"cancel\") {\n        orders.delete(key);\n      } else if (filled.ocaType === \"reduce\") {\n        order.qty -= qty;\n        if (!(order.qty > QTY_EPSILON))\n          orders.delete(key);\n      }\n    }\n  };\n  const fillOrder = (key, order, price) => {\n    orders.delete(key);\n    const size = positionSize();\n    const opened = {\n      entryId: order.id,\n      direction: order.side,\n      qty: order.qty,\n      comment: order.comment\n    };\n    const exit = { id: order.id, comment: order.comment };\n    if (order.kind === \"close\") {\n      const group = lots.filter((lot) => order.id === \"\" || lot.entryId === order.id);\n      const qty = Number.isNaN(order.qty) ? quantity(group) * order.qtyPercent / 100 : order.qty;\n      trade(price, group, qty, {\n        id: order.id === \"\" ? \"Close position order\" : `Close entry(s) order ${order.id}`,\n        comment: order.comment\n      });\n    } else if (order.kind === \"entry\") {\n      if (size !== 0 && Math.sign(size) === order.side) {\n        const open = lots.filter((lot) => lot.direction === order.side);\n        if (open.length >= Math.max(1, settings.pyramiding))\n          return;\n      }\n      applyOca(order, order.qty);\n      const reversing = size !== 0 && Math.sign(size) !== order.side;\n      trade(price, [...lots], reversing ? Math.abs(size) : 0, exit, opened);\n    } else {\n      applyOca(order, order.qty);\n      const opposite = lots.filter((lot) => lot.direction !== order.side);\n      const closing = Math.min(order.qty, quantity(opposite));\n      trade(price, opposite, closing, exit, {\n        ...opened,\n        qty: order.qty - closing\n      });\n    }\n    updateExits();\n  };\n  const fillExit = (rule, group, price) => {\n    const qty = Number.isNaN(rule.qty) ? quantity(group) * rule.qtyPercent / 100 : rule.qty;\n    trade(price, group, qty, { id: rule.id, comment: rule.comment });\n    for (const lot of group)\n      lot.exits.add(rule.id);\n    rule.trails.delete(group[0].entryId);\n    updateExits();\n  };\n  const orderReach = (order, from, to) => {\n    const hasLimit = !Number.isNaN(order.limit);\n    const hasStop = !Number.isNaN(order.stop);\n    if (!hasLimit && !hasStop)\n      return from;\n    if (!hasStop || order.stopTriggered) {\n      return limitReach(order.side, order.limit, from, to);\n    }\n    const stopped = stopReach(order.side, order.stop, from, to);\n    if (stopped === undefined || !hasLimit)\n      return stopped;\n    return limitReach(order.side, order.limit, stopped, to);\n  };\n  const exitGroups = (rule) => {\n    const groups = new Map;\n    for (const lot of exitLots(rule)) {\n      const group = groups.get(lot.entryId);\n      if (group)\n        group.push(lot);\n      else\n        groups.set(lot.entryId, [lot]);\n    }\n    return groups;\n  };\n  const trailLevels = (rule, group) => {\n    const direction = group[0].direction;\n    const average = averagePrice(group);\n    const activation = !Number.isNaN(rule.trailPrice) ? rule.trailPrice : average + direction * rule.trailPoints * tick;\n    return { direction, activation, offset: rule.trailOffset * tick };\n  };\n  const exitReach = (rule, group, from, to) => {\n    const direction = group[0].direction;\n    const side = direction === 1 ? -1 : 1;\n    const average = averagePrice(group);\n    const target = !Number.isNaN(rule.limit) ? rule.limit : average + direction * rule.profit * tick;\n    const stop = !Number.isNaN(rule.stop) ? rule.stop : average - direction * rule.loss * tick;\n    const reaches = [\n      [limitReach(side, target, from, to), false],\n      [stopReach(side, stop, from, to), true]\n    ];\n    const trail = rule.trails.get(group[0].entryId);\n    if (trail?.active) {\n      const { offset } = trailLevels(rule, group);\n      reaches.push([\n        stopReach(side, trail.extreme - direction * offset, from, to),\n        true\n      ]);\n    }\n    let nearest;\n    for (const [price, slippage] of reaches) {\n      if (price === undefined)\n        continue;\n      if (nearest === undefined || Math.abs(price - from) < Math.abs(nearest.price - from)) {\n        nearest = { price, slippage };\n      }\n    }\n    return nearest;\n  };\n  const nextFill = (from, to) => {\n    let next;\n    const consider = (fill) => {\n      const distance = Math.abs(fill.price - from);\n      const best = next ? Math.abs(next.price - from) : Number.POSITIVE_INFINITY;\n      if (distance < best || next && distance === best && fill.serial < next.serial) {\n        next = fill;\n      }\n    };\n    for (const [key, order] of orders) {\n      const price = orderReach(order, from, to);\n      if (price === undefined)\n        continue;\n      consider({\n        price,\n        serial: order.serial,\n        side: order.side,\n        slippage: Number.isNaN(order.limit),\n        execute: (at) => fillOrder(key, order, at)\n      });\n    }\n    for (const rule of exits.values()) {\n      for (const group of exitGroups(rule).values()) {\n        const reach = exitReach(rule, group, from, to);\n        if (reach === undefined)\n          continue;\n        consider({\n          ...reach,\n          serial: rule.serial,\n          side: group[0].direction === 1 ? -1 : 1,\n          execute: (at) => fillExit(rule, group, at)\n        });\n      }\n    }\n    return next;\n  };\n  const advance = (from, to) => {\n    for (const lot of lots) {\n      const best = lot.direction * Math.max(lot.direction * from, lot.direction * to);\n      const worst = lot.direction * Math.min(lot.direction * from, lot.direction * to);\n      lot.runup = Math.max(lot.runup, lot.direction * (best - lot.price));\n      lot.drawdown = Math.max(lot.drawdown, lot.direction * (lot.price - worst));\n    }\n    for (const order of orders.values()) {\n      if (!Number.isNaN(order.stop) && !Number.isNaN(order.limit) && stopReach(order.side, order.stop, from, to) !== undefined) {\n        order.stopTriggered = true;\n      }\n    }\n    for (const rule of exits.values()) {\n      if (Number.isNaN(rule.trailOffset))\n        continue;\n      if (Number.isNaN(rule.trailPrice) && Number.isNaN(rule.trailPoints)) {\n        continue;\n      }\n      for (const [entryId, group] of exitGroups(rule)) {\n        const { direction, activation } = trailLevels(rule, group);\n        const best = direction * Math.max(direction * from, direction * to);\n        const trail = rule.trails.get(entryId) ?? {\n          active: false,\n          extreme: Number.NaN\n        };\n        if (trail.active) {\n          trail.extreme = direction * Math.max(direction * trail.extreme, direction * best);\n        } else if (direction * (best - activation) >= 0) {\n          trail.active = true;\n          trail.extreme = best;\n        }\n        rule.trails.set(entryId, trail);\n      }\n    }\n  };\n  const walk = (from, to) => {\n    let price = from;\n    for (let fill = nextFill(price, to);fill; fill = nextFill(price, to)) {\n      advance(price, fill.price);\n      fill.execute(fill.slippage ? slip(fill.side, fill.price) : fill.price);\n      price = fill.price;\n    }\n    advance(price, to);\n  };\n  const beginBar = (next, index, mintick) => {\n    if (index === barIndex) {\n      bar = next;\n      return;\n    }\n    bar = next;\n    barIndex = index;\n    if (mintick > 0)\n      tick = mintick;\n    updateExits();\n    const path = pricePath(next);\n    if (path.some((price) => Number.isNaN(price)))\n      return;\n    walk(path[0], path[0]);\n    for (let i = 1;i < path.length; i++)\n      walk(path[i - 1], path[i]);\n  };\n  const recordEquity = (time) => {\n    const point = { barIndex, time, equity: equity() };\n    if (equityCurve[equityCurve.length - 1]?.barIndex === barIndex) {\n      equityCurve.pop();\n    }\n    equityCurve.push(point);\n    extremes ??= startingExtremes(settings.initialCapital);\n    trackEquity(extremes, point.equity);\n  };\n  const endBar = () => {\n    if (!bar)\n      return;\n    if (settings.processOrdersOnClose) {\n      const close = bar.close;\n      const market = [...orders].filter(([, order]) => Number.isNaN(order.limit) && Number.isNaN(order.stop));\n      market.sort(([, a], [, b]) => a.serial - b.serial);\n      for (const [key, order] of market) {\n        if (orders.get(key) === order) {\n          fillOrder(key, order, slip(order.side, close));\n        }\n      }\n    }\n    if (declared)\n      recordEquity(bar.time);\n  };\n  const place = (key, order) => {\n    const existing = orders.get(key);\n    orders.set(key, {\n      ...order,\n      serial: existing?.serial ?? serial++,\n      stopTriggered: existing?.stopTriggered === true && existing.stop === order.stop\n    });\n  };\n  const declare = (...args) => {\n    if (declared)\n      return;\n    declared = true;\n    const at = (index) => args[index];\n    settings.pyramiding = numberOr(at(DECLARATION_ARGS.pyramiding), 1);\n    settings.defaultQtyType = textOf4(at(DECLARATION_ARGS.defaultQtyType)) || \"fixed\";\n    settings.defaultQtyValue = numberOr(at(DECLARATION_ARGS.defaultQtyValue), 1);\n    settings.initialCapital = numberOr(at(DECLARATION_ARGS.initialCapital), 1e6);\n    const currency = textOf4(at(DECLARATION_ARGS.currency));\n    settings.currency = currency === \"\" || currency === \"NONE\" ? \"USD\" : currency;\n    settings.slippage = numberOr(at(DECLARATION_ARGS.slippage), 0);\n    settings.commissionType = textOf4(at(DECLARATION_ARGS.commissionType)) || \"percent\";\n    settings.commissionValue = numberOr(at(DECLARATION_ARGS.commissionValue), 0);\n    settings.processOrdersOnClose = at(DECLARATION_ARGS.processOrdersOnClose) === true;\n  };\n  const entry = (id, direction, qty, limit, stop, ocaName, ocaType, comment) => {\n    place(String(id), {\n      kind: \"entry\",\n      id: String(id),\n      side: sideOf(direction),\n      qty: numberOr(qty, defaultQty()),\n      qtyPercent: 100,\n      limit: optional(limit),\n      stop: optional(stop),\n      ocaName: textOf4(ocaName),\n      ocaType: textOf4(ocaType) || \"none\",\n      comment: textOf4(comment)\n    });\n  };\n  const order = (id, direction, qty, limit, stop, ocaName, ocaType, comment) => {\n    place(String(id), {\n      kind: \"order\",\n      id: String(id),\n      side: sideOf(direction),\n      qty: numberOr(qty, defaultQty()),\n      qtyPercent: 100,\n      limit: optional(limit),\n      stop: optional(stop),\n      ocaName: textOf4(ocaName),\n      ocaType: textOf4(ocaType) || \"none\",\n      comment: textOf4(comment)\n    });\n  };\n  const closeOrder = (entryId, comment, qty, qtyPercent, immediately) => {\n    const group = lots.filter((lot) => entryId === \"\" || lot.entryId === entryId);\n    if (group.length === 0)\n      return;\n    const key = `\\x00close:${entryId}`;\n    place(key, {\n      kind: \"close\",\n      id: entryId,\n      side: group[0].direction === 1 ? -1 : 1,\n      qty: optional(qty),\n      qtyPercent: numberOr(qtyPercent, 100),\n      limit: Number.NaN,\n      stop: Number.NaN,\n      ocaName: \"\",\n      ocaType: \"none\",\n      comment: textOf4(comment)\n    });\n    const pending = orders.get(key);\n    if (immediately === true && bar && pending) {\n      fillOrder(key, pending, slip(pending.side, bar.close));\n    }\n  };\n  const exit = (id, fromEntry, qty, qtyPercent, profit, limit, loss, stop, trailPrice, trailPoints, trailOffset, _ocaName, comment) => {\n    const levels = [profit, limit, loss, stop, trailPrice, trailPoints].map(optional);\n    if (levels.every((level) => Number.isNaN(level)))\n      return;\n    const key = String(id);\n    const existing = exits.get(key);\n    exits.set(key, {\n      id: key,\n      fromEntry: textOf4(fromEntry),\n      qty: optional(qty),\n      qtyPercent: numberOr(qtyPercent, 100),\n      profit: levels[0],\n      limit: levels[1],\n      loss: levels[2],\n      stop: levels[3],\n      trailPrice: levels[4],\n      trailPoints: levels[5],\n      trailOffset: optional(trailOffset),\n      comment: textOf4(comment),\n      serial: existing?.serial ?? serial++,\n      attached: existing?.attached ?? false,\n      trails: existing?.trails ?? new Map\n    });\n    updateExits();\n  };\n  const cancel = (id) => {\n    const key = String(id);\n    orders.delete(key);\n    exits.delete(key);\n  };\n  const report = () => {\n    if (!declared)\n      return;\n    const closed = closedTrades.length;\n    const drawdowns = extremes ?? startingExtremes(settings.initialCapital);\n    return {\n      currency: settings.currency,\n      initialCapital: settings.initialCapital,\n      netProfit,\n      netProfitPercent: ratio(netProfit * 100, settings.initialCapital),\n      grossProfit: totals.grossProfit,\n      grossLoss: totals.grossLoss,\n      openProfit: openProfit(),\n      commissionPaid,\n      maxDrawdown: drawdowns.maxDrawdown,\n      maxDrawdownPercent: drawdowns.maxDrawdownPercent,\n      maxRunup: drawdowns.maxRunup,\n      maxRunupPercent: drawdowns.maxRunupPercent,\n      closedTradeCount: closed,\n      winningTrades: totals.wins,\n      losingTrades: totals.losses,\n      evenTrades: totals.evens,\n      percentProfitable: ratio(totals.wins * 100, closed),\n      profitFactor: ratio(totals.grossProfit, totals.grossLoss),\n      avgTrade: ratio(netProfit, closed),\n      avgWinningTrade: ratio(totals.grossProfit, totals.wins),\n      avgLosingTrade: ratio(totals.grossLoss, totals.losses),\n      closedTrades: closedTrades.map((record) => ({ ...record })),\n      openTrades: lots.map(openTrade),\n      equity: equityCurve.map((point) => ({ ...point }))\n    };\n  };\n  const tradeAccessors = (list, withExit) => {\n    const number = (read) => (index) => {\n      const record = list()[Number(index)];\n      return record ? read(record) : Number.NaN;\n    };\n    const text = (read) => (index) => {\n      const record = list()[Number(index)];\n      return record ? read(record) : \"\";\n    };\n    const accessors = {\n      entry_id: text((record) => record.entryId),\n      entry_comment: text((record) => record.entryComment),\n      entry_price: number((record) => record.entryPrice),\n      entry_bar_index: number((record) => record.entryBarIndex),\n      entry_time: number((record) => record.entryTime),\n      size: number((record) => record.size),\n      commission: number((record) => record.commission),\n      profit: number((record) => record.profit),\n      profit_percent: number((record) => tradePercent(record, record.profit)),\n      max_runup: number((record) => record.maxRunup),\n      max_runup_percent: number((record) => tradePercent(record, record.maxRunup)),\n      max_drawdown: number((record) => record.maxDrawdown),\n      max_drawdown_percent: number((record) => tradePercent(record, record.maxDrawdown))\n    };\n    if (withExit) {\n      Object.assign(accessors, {\n        exit_id: text((record) => record.exitId),\n        exit_comment: text((record) => record.exitComment),\n        exit_price: number((record) => record.exitPrice),\n        exit_bar_index: number((record) => record.exitBarIndex),\n        exit_time: number((record) => record.exitTime),\n        first_index: 0\n      });\n    }\n    Object.defineProperty(accessors, \"count\", {\n      get: () => list().length,\n      enumerable: true\n    });\n    return accessors;\n  };\n  const namespace = declare;\n  Object.assign(namespace, {\n    entry,\n    order,\n    exit,\n    close: (id, comment, qty, qtyPercent, _alertMessage, immediately) => closeOrder(String(id), comment, qty, qtyPercent, immediately),\n    close_all: (comment, _alertMessage, immediately) => closeOrder(\"\", comment, Number.NaN, 100, immediately),\n    cancel,\n    cancel_all: () => {\n      orders.clear();\n      exits.clear();\n    },\n    closedtrades: tradeAccessors(() => closedTrades, true),\n    opentrades: tradeAccessors(() => lots.map(openTrade), false),\n    risk: new Proxy({}, { get: () => () => {\n      return;\n    } }),\n    long: 1,\n    short: -1,\n    fixed: \"fixed\",\n    cash: \"cash\",\n    percent_of_equity: \"percent_of_equity\",\n    oca: { cancel: \"cancel\", reduce: \"reduce\", none: \"none\" },\n    commission: {\n      percent: \"percent\",\n      cash_per_contract: \"cash_per_contract\",\n      cash_per_order: \"cash_per_order\"\n    },\n    direction: { all: \"all\", long: \"long\", short: \"short\" }\n  });\n  const drawdowns = () => extremes ?? startingExtremes(settings.initialCapital);\n  const getters = {\n    position_size: positionSize,\n    position_avg_price: () => averagePrice(lots),\n    position_entry_name: () => lots[0]?.entryId ?? \"\",\n    initial_capital: () => settings.initialCapital,\n    account_currency: () => settings.currency,\n    equity,\n    netprofit: () => netProfit,\n    netprofit_percent: () => ratio(netProfit * 100, settings.initialCapital),\n    openprofit: openProfit,\n    openprofit_percent: () => ratio(openProfit() * 100, settings.initialCapital + netProfit),\n    grossprofit: () => totals.grossProfit,\n    grossprofit_percent: () => ratio(totals.grossProfit * 100, settings.initialCapital),\n    grossloss: () => totals.grossLoss,\n    grossloss_percent: () => ratio(totals.grossLoss * 100, settings.initialCapital),\n    wintrades: () => totals.wins,\n    losstrades: () => totals.losses,\n    eventrades: () => totals.evens,\n    max_drawdown: () => drawdowns().maxDrawdown,\n    max_drawdown_percent: () => drawdowns().maxDrawdownPercent,\n    max_runup: () => drawdowns().maxRunup,\n    max_runup_percent: () => drawdowns().maxRunupPercent,\n    avg_trade: () => ratio(netProfit, closedTrades.length),\n    avg_winning_trade: () => ratio(totals.grossProfit, totals.wins),\n    avg_losing_trade: () => ratio(totals.grossLoss, totals.losses)\n  };\n  for (const [name, get] of Object.entries(getters)) {\n    Object.defineProperty(namespace, name, { get, enumerable: true });\n  }\n  return { namespace, beginBar, endBar, report };\n}\n\n// src/registry/drawing.ts\nvar BOX_NEW_ARGS = [\n  \"left\",\n  \"top\",\n  \"right\",\n  \"bottom\",\n  \"border_color\",\n  \"border_width\",\n  \"border_style\",\n  \"extend\",\n  \"xloc\",\n  \"bgcolor\",\n  \"text\",\n  \"text_size\",\n  \"text_color\",\n  \"text_halign\",\n  \"text_valign\",\n  \"text_wrap\",\n  \"force_overlay\",\n  \"text_font_family\"\n];\nvar LINE_NEW_ARGS = [\n  \"x1\",\n  \"y1\",\n  \"x2\",\n  \"y2\",\n  \"xloc\",\n  \"extend\",\n  \"color\",\n  \"style\",\n  \"width\",\n  \"force_overlay\"\n];\nvar LABEL_NEW_ARGS = [\n  \"x\",\n  \"y\",\n  \"text\",\n  \"xloc\",\n  \"yloc\",\n  \"color\",\n  \"style\",\n  \"textcolor\",\n  \"size\",\n  \"textalign\",\n  \"tooltip\",\n  \"text_font_family\",\n  \"force_overlay\",\n  \"text_formatting\"\n];\nvar LINEFILL_NEW_ARGS = [\"line1\", \"line2\", \"color\"];\nvar POLYLINE_NEW_ARGS = [\n  \"points\",\n  \"curved\",\n  \"closed\",\n  \"xloc\",\n  \"line_color\",\n  \"fill_color\",\n  \"line_style\",\n  \"line_width\",\n  \"force_overlay\"\n];\nvar TABLE_NEW_ARGS = [\n  \"position\",\n  \"columns\",\n  \"rows\",\n  \"bgcolor\",\n  \"frame_color\",\n  \"frame_width\",\n  \"border_color\",\n  \"border_width\",\n  \"force_overlay\"\n];\nvar TABLE_CELL_ARGS = [\n  \"table_id\",\n  \"column\",\n  \"row\",\n  \"text\",\n  \"width\",\n  \"height\",\n  \"text_color\",\n  \"text_halign\",\n  \"text_valign\",\n  \"text_size\",\n  \"bgcolor\",\n  \"tooltip\",\n  \"text_font_family\",\n  \"text_formatting\"\n];\nvar DRAWING_REGISTRY = {\n  box: {\n    name: \"box\",\n    functions: {\n      new: {\n        canonicalArgs: BOX_NEW_ARGS,\n        handleFields: {\n          left: \"left\",\n          top: \"top\",\n          right: \"right\",\n          bottom: \"bottom\",\n          border_color: \"border_color\",\n          border_width: \"border_width\",\n          border_style: \"border_style\",\n          extend: \"extend\",\n          xloc: \"xloc\",\n          bgcolor: \"bgcolor\",\n          text: \"text\",\n          text_size: \"text_size\",\n          text_color: \"text_color\",\n          text_halign: \"text_halign\",\n          text_valign: \"text_valign\",\n          text_wrap: \"text_wrap\",\n          force_overlay: \"force_overlay\",\n          text_font_family: \"text_font_family\"\n        },\n        visualEventArgs: BOX_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_left: { canonicalArgs: [\"id\", \"left\"] },\n      set_right: { canonicalArgs: [\"id\", \"right\"] },\n      set_top: { canonicalArgs: [\"id\", \"top\"] },\n      set_bottom: { canonicalArgs: [\"id\", \"bottom\"] },\n      set_extend: { canonicalArgs: [\"id\", \"extend\"] },\n      set_bgcolor: { canonicalArgs: [\"id\", \"color\"] },\n      set_border_color: { canonicalArgs: [\"id\", \"color\"] },\n      set_border_width: { canonicalArgs: [\"id\", \"width\"] },\n      set_text_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_left: { canonicalArgs: [\"id\"] },\n      get_right: { canonicalArgs: [\"id\"] },\n      get_top: { canonicalArgs: [\"id\"] },\n      get_bottom: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  line: {\n    name: \"line\",\n    functions: {\n      new: {\n        canonicalArgs: LINE_NEW_ARGS,\n        handleFields: {\n          x1: \"x1\",\n          y1: \"y1\",\n          x2: \"x2\",\n          y2: \"y2\",\n          xloc: \"xloc\",\n          extend: \"extend\",\n          color: \"color\",\n          style: \"style\",\n          width: \"width\",\n          force_overlay: \"force_overlay\"\n        },\n        visualEventArgs: LINE_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_x2: { canonicalArgs: [\"id\", \"x2\"] },\n      set_xy1: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_xy2: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_x2: { canonicalArgs: [\"id\"] },\n      get_y1: { canonicalArgs: [\"id\"] },\n      get_y2: { canonicalArgs: [\"id\"] }\n    },\n    constants: [\n      { name: \"style_solid\", value: \"solid\" },\n      { name: \"style_dashed\", value: \"dashed\" },\n      { name: \"style_dotted\", value: \"dotted\" },\n      { name: \"style_arrow_left\", value: \"arrow_left\" },\n      { name: \"style_arrow_right\", value: \"arrow_right\" },\n      { name: \"style_arrow_both\", value: \"arrow_both\" }\n    ]\n  },\n  label: {\n    name: \"label\",\n    functions: {\n      new: {\n        canonicalArgs: LABEL_NEW_ARGS,\n        handleFields: {\n          x: \"x\",\n          y: \"y\",\n          text: \"text\",\n          xloc: \"xloc\",\n          yloc: \"yloc\",\n          color: \"color\",\n          style: \"style\",\n          textcolor: \"textcolor\",\n          size: \"size\",\n          textalign: \"textalign\",\n          tooltip: \"tooltip\",\n          text_font_family: \"text_font_family\",\n          force_overlay: \"force_overlay\",\n          text_formatting: \"text_formatting\"\n        },\n        visualEventArgs: LABEL_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_text: { canonicalArgs: [\"id\", \"text\"] },\n      get_text: { canonicalArgs: [\"id\"] },\n      set_tooltip: { canonicalArgs: [\"id\", \"tooltip\"] },\n      set_textcolor: { canonicalArgs: [\"id\", \"color\"] },\n      set_style: { canonicalArgs: [\"id\", \"style\"] },\n      set_xy: { canonicalArgs: [\"id\", \"x\", \"y\"] },\n      set_x: { canonicalArgs: [\"id\", \"x\"] },\n      set_y: { canonicalArgs: [\"id\", \"y\"] },\n      get_y: { canonicalArgs: [\"id\"] }\n    },\n    constants: [\n      { name: \"style_none\", value: \"none\" },\n      { name: \"style_xcross\", value: \"xcross\" },\n      { name: \"style_cross\", value: \"cross\" },\n      { name: \"style_triangleup\", value: \"triangleup\" },\n      { name: \"style_triangledown\", value: \"triangledown\" },\n      { name: \"style_flag\", value: \"flag\" },\n      { name: \"style_circle\", value: \"circle\" },\n      { name: \"style_arrowup\", value: \"arrowup\" },\n      { name: \"style_arrowdown\", value: \"arrowdown\" },\n      { name: \"style_square\", value: \"square\" },\n      { name: \"style_diamond\", value: \"diamond\" },\n      { name: \"style_label_up\", value: \"label_up\" },\n      { name: \"style_label_down\", value: \"label_down\" },\n      { name: \"style_label_left\", value: \"label_left\" },\n      { name: \"style_label_right\", value: \"label_right\" },\n      { name: \"style_label_lower_left\", value: \"label_lower_left\" },\n      { name: \"style_label_lower_right\", value: \"label_lower_right\" },\n      { name: \"style_label_upper_left\", value: \"label_upper_left\" },\n      { name: \"style_label_upper_right\", value: \"label_upper_right\" },\n      { name: \"style_label_center\", value: \"label_center\" }\n    ]\n  },\n  linefill: {\n    name: \"linefill\",\n    functions: {\n      new: {\n        canonicalArgs: LINEFILL_NEW_ARGS,\n        handleFields: {\n          line1: \"line1\",\n          line2: \"line2\",\n          color: \"color\"\n        },\n        visualEventArgs: LINEFILL_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] },\n      set_color: { canonicalArgs: [\"id\", \"color\"] },\n      get_line1: { canonicalArgs: [\"id\"] },\n      get_line2: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  polyline: {\n    name: \"polyline\",\n    functions: {\n      new: {\n        canonicalArgs: POLYLINE_NEW_ARGS,\n        handleFields: {\n          points: \"points\",\n          curved: \"curved\",\n          closed: \"closed\",\n          xloc: \"xloc\",\n          line_color: \"line_color\",\n          fill_color: \"fill_color\",\n          line_style: \"line_style\",\n          line_width: \"line_width\",\n          force_overlay: \"force_overlay\"\n        },\n        visualEventArgs: POLYLINE_NEW_ARGS\n      },\n      delete: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  \"chart.point\": {\n    name: \"chart.point\",\n    functions: {\n      new: { canonicalArgs: [\"time\", \"index\", \"price\"] },\n      from_index: { canonicalArgs: [\"index\", \"price\"] },\n      from_time: { canonicalArgs: [\"time\", \"price\"] },\n      now: { canonicalArgs: [\"price\"] },\n      copy: { canonicalArgs: [\"id\"] }\n    },\n    constants: []\n  },\n  table: {\n    name: \"table\",\n    functions: {\n      new: {\n        canonicalArgs: TABLE_NEW_ARGS,\n        handleFields: {\n          position: \"position\",\n          columns: \"columns\",\n          rows: \"rows\",\n          bgcolor: \"bgcolor\",\n          frame_color: \"frame_color\",\n          frame_width: \"frame_width\",\n          border_color: \"border_color\",\n          border_width: \"border_width\",\n          force_overlay: \"force_overlay\"\n        },\n        visualEventArgs: TABLE_NEW_ARGS\n      },\n      cell: {\n        canonicalArgs: TABLE_CELL_ARGS,\n        visualEventArgs: TABLE_CELL_ARGS\n      },\n      clear: {\n        canonicalArgs: [\n          \"table_id\",\n          \"start_column\",\n          \"start_row\",\n          \"end_column\",\n          \"end_row\"\n        ]\n      },\n      merge_cells: {\n        canonicalArgs: [\n          \"table_id\",\n          \"start_column\",\n          \"start_row\",\n          \"end_column\",\n          \"end_row\"\n        ]\n      }\n    },\n    constants: []\n  }\n};\n// src/runtime/drawing/index.ts\nvar NUMBER_VALUE_NAMES = new Set([\n  \"x\",\n  \"y\",\n  \"x1\",\n  \"y1\",\n  \"x2\",\n  \"y2\",\n  \"left\",\n  \"top\",\n  \"right\",\n  \"bottom\"\n]);\nvar INTEGER_VALUE_NAMES = new Set([\n  \"width\",\n  \"height\",\n  \"border_width\",\n  \"frame_width\",\n  \"line_width\",\n  \"column\",\n  \"row\",\n  \"start_column\",\n  \"start_row\",\n  \"end_column\",\n  \"end_row\"\n]);\nvar NONNEGATIVE_INTEGER_VALUE_NAMES = new Set([\"columns\", \"rows\"]);\nvar STRING_VALUE_NAMES = new Set([\"text\", \"tooltip\"]);\nvar HANDLE_OWNER = Symbol(\"drawingHandleOwner\");\nvar ONE_DEFAULT_INTEGER_NAMES = new Set([\n  \"width\",\n  \"border_width\",\n  \"frame_width\",\n  \"line_width\"\n]);\nfunction toFiniteNumber(value, fallback = Number.NaN) {\n  const candidate = Number(value);\n  return Number.isFinite(candidate) ? candidate : fallback;\n}\nfunction toInteger(value, fallback = 0) {\n  const candidate = Number(value);\n  return Number.isFinite(candidate) ? Math.trunc(candidate) : fallback;\n}\nfunction isColorLike(value) {\n  if (typeof value !== \"string\" || value.length === 0)\n    return false;\n  if (value === \"NaN\" || value === \"na\")\n    return false;\n  return value.startsWith(\"#\") || value.startsWith(\"rgb\") || value.startsWith(\"hsl\");\n}\nfunction asHandle(value) {\n  if (typeof value !== \"object\" || value === null)\n    return;\n  const candidate = value;\n  if (typeof candidate.__id !== \"number\")\n    return;\n  return candidate;\n}\nfunction withConstantFallback(base, prefix) {\n  return new Proxy(base, {\n    get(target, prop, receiver) {\n      const value = Reflect.get(target, prop, receiver);\n      if (value !== undefined || typeof prop !== \"string\")\n        return value;\n      return `${prefix}.${prop}`;\n    }\n  });\n}\nfunction resolveHandle(value, store, ownerToken) {\n  const handle = asHandle(value);\n  if (!handle)\n    return;\n  const handleOwner = handle[HANDLE_OWNER];\n  if (handleOwner !== ownerToken) {\n    return;\n  }\n  const resolved = store.get(handle.__id);\n  if (!resolved || resolved.__deleted)\n    return;\n  return resolved;\n}\nfunction toChartPoint(value) {\n  if (typeof value !== \"object\" || value === null)\n    return;\n  const point = value;\n  if (!(\"price\" in point))\n    return;\n  return createChartPoint(point.time, point.index, point.price);\n}\nfunction createChartPoint(time, index, price) {\n  const point = {\n    time: toFiniteNumber(time),\n    index: toFiniteNumber(index),\n    price: toFiniteNumber(price)\n  };\n  Object.defineProperty(point, \"copy\", {\n    value: () => createChartPoint(point.time, point.index, point.price),\n    enumerable: false\n  });\n  return point;\n}\nfunction normalizeValue(name, value) {\n  if (name === \"points\") {\n    if (!Array.isArray(value))\n      return [];\n    return value.map(toChartPoint).filter((point) => point !== undefined);\n  }\n  if (STRING_VALUE_NAMES.has(name)) {\n    return value == null ? \"\" : String(value);\n  }\n  if (NONNEGATIVE_INTEGER_VALUE_NAMES.has(name)) {\n    return Math.max(0, toInteger(value, 0));\n  }\n  if (INTEGER_VALUE_NAMES.has(name)) {\n    const fallback = value == null && ONE_DEFAULT_INTEGER_NAMES.has(name) ? 1 : 0;\n    return toInteger(value, fallback);\n  }\n  if (NUMBER_VALUE_NAMES.has(name)) {\n    return toFiniteNumber(value);\n  }\n  return value;\n}\nfunction getterFallback(name) {\n  if (STRING_VALUE_NAMES.has(name))\n    return \"\";\n  if (NUMBER_VALUE_NAMES.has(name) || INTEGER_VALUE_NAMES.has(name) || NONNEGATIVE_INTEGER_VALUE_NAMES.has(name)) {\n    return Number.NaN;\n  }\n  return;\n}\nfunction keyForCell(column, row) {\n  return `${column}:${row}`;\n}\nfunction parseAccessorFields(fnName) {\n  const suffix = fnName.replace(/^(set|get)_/, \"\");\n  if (suffix === \"xy\")\n    return [\"x\", \"y\"];\n  const xyMatch = /^xy(\\d+)$/.exec(suffix);\n  if (xyMatch) {\n    return [`x${xyMatch[1]}`, `y${xyMatch[1]}`];\n  }\n  return [suffix];\n}\nfunction buildProjectedArgs(projection, valuesByName, length) {\n  const projected = [];\n  const cappedLength = Math.min(length, projection.length);\n  for (let index = 0;index < cappedLength; index++) {\n    projected.push(valuesByName[projection[index] ?? \"\"]);\n  }\n  return projected;\n}\nfunction createTableCellData(valuesByName) {\n  return {\n    text: valuesByName.text,\n    width: valuesByName.width,\n    height: valuesByName.height,\n    textColor: valuesByName.text_color,\n    textHalign: valuesByName.text_halign,\n    textValign: valuesByName.text_valign,\n    textSize: valuesByName.text_size,\n    bgcolor: valuesByName.bgcolor,\n    tooltip: valuesByName.tooltip,\n    textFontFamily: valuesByName.text_font_family,\n    textFormatting: valuesByName.text_formatting\n  };\n}\nfunction createDrawingNamespace(descriptor, sink) {\n  let nextId = 1;\n  const ownerToken = {};\n  const store = new Map;\n  const base = {};\n  const emit = (call, pineHandleId, args) => {\n    sink.pushEvent({\n      call,\n      args,\n      barIndex: sink.barIndex,\n      pineHandleId\n    });\n  };\n  const hasHandle = (value) => resolveHandle(value, store, ownerToken) !== undefined;\n  const attachHandleMethods = (handle) => {\n    for (const fnName of Object.keys(descriptor.functions)) {\n      if (fnName === \"new\")\n        continue;\n      if (typeof handle[fnName] === \"function\")\n        continue;\n      handle[fnName] = (...args) => {\n        const method = base[fnName];\n        if (typeof method !== \"function\")\n          return;\n        return method(handle, ...args);\n      };\n    }\n  };\n  const createHandle = (...args) => {\n    const newSpec = descriptor.functions.new;\n    const canonicalArgs = newSpec.canonicalArgs;\n    const handleFields = newSpec.handleFields ?? {};\n    const normalizedArgsByName = {};\n    for (let index = 0;index < args.length && index < canonicalArgs.length; index++) {\n      const argName = canonicalArgs[index];\n      if (!argName)\n        continue;\n      const fieldName = handleFields[argName] ?? argName;\n      normalizedArgsByName[argName] = normalizeValue(fieldName, args[index]);\n    }\n    const handle = {\n      __id: nextId++,\n      __deleted: false\n    };\n    Object.defineProperty(handle, HANDLE_OWNER, {\n      value: ownerToken,\n      enumerable: false,\n      configurable: false,\n      writable: false\n    });\n    for (const [argName, fieldName] of Object.entries(handleFields)) {\n      handle[fieldName] = normalizedArgsByName[argName];\n    }\n    if (descriptor.name === \"table\") {\n      const tableHandle = handle;\n      tableHandle.cells = new Map;\n      tableHandle.merges = [];\n    }\n    attachHandleMethods(handle);\n    store.set(handle.__id, handle);\n    if (newSpec.visualEventArgs) {\n      const eventArgs = buildProjectedArgs(newSpec.visualEventArgs, normalizedArgsByName, args.length);\n      const visualArgs = base.__visualArgs;\n      emit(`${descriptor.name}.new`, handle.__id, typeof visualArgs === \"function\" ? visualArgs(\"new\", eventArgs, handle) : eventArgs);\n    }\n    return handle;\n  };\n  const getValue = (handle, fieldName) => {\n    const value = handle[fieldName];\n    if (value === undefined)\n      return getterFallback(fieldName);\n    if (NUMBER_VALUE_NAMES.has(fieldName) || INTEGER_VALUE_NAMES.has(fieldName) || NONNEGATIVE_INTEGER_VALUE_NAMES.has(fieldName)) {\n      return toFiniteNumber(value);\n    }\n    if (STRING_VALUE_NAMES.has(fieldName)) {\n      return value == null ? \"\" : String(value);\n    }\n    return value;\n  };\n  for (const [fnName, fnSpec] of Object.entries(descriptor.functions)) {\n    if (fnName === \"new\") {\n      base.new = createHandle;\n      continue;\n    }\n    if (fnName === \"delete\") {\n      base.delete = (handleLike) => {\n        const handle = resolveHandle(handleLike, store, ownerToken);\n        if (!handle)\n          return;\n        handle.__deleted = true;\n        store.delete(handle.__id);\n        emit(`${descriptor.name}.delete`, handle.__id, []);\n      };\n      continue;\n    }\n    if (fnName.startsWith(\"get_\")) {\n      const [fieldName = \"\"] = parseAccessorFields(fnName);\n      base[fnName] = (handleLike) => {\n        const handle = resolveHandle(handleLike, store, ownerToken);\n        if (!handle)\n          return getterFallback(fieldName);\n        return getValue(handle, fieldName);\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"cell\") {\n      base.cell = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {\n          table_id: table\n        };\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        const column = normalizedArgsByName.column;\n        const row = normalizedArgsByName.row;\n        table.cells.set(keyForCell(column, row), createTableCellData(normalizedArgsByName));\n        const projection = fnSpec.visualEventArgs ?? fnSpec.canonicalArgs;\n        emit(\"table.cell\", table.__id, buildProjectedArgs(projection, normalizedArgsByName, args.length));\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"clear\") {\n      base.clear = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        if (args.length <= 1) {\n          table.cells.clear();\n          table.merges = [];\n        } else {\n          const startColumn = normalizedArgsByName.start_column;\n          const startRow = normalizedArgsByName.start_row;\n          const endColumn = typeof normalizedArgsByName.end_column === \"number\" ? normalizedArgsByName.end_column : table.columns - 1;\n          const endRow = typeof normalizedArgsByName.end_row === \"number\" ? normalizedArgsByName.end_row : table.rows - 1;\n          for (const key of [...table.cells.keys()]) {\n            const [columnText = \"\", rowText = \"\"] = key.split(\":\");\n            const column = Number(columnText);\n            const row = Number(rowText);\n            if (column >= startColumn && column <= endColumn && row >= startRow && row <= endRow) {\n              table.cells.delete(key);\n            }\n          }\n        }\n        emit(\"table.clear\", table.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n      continue;\n    }\n    if (descriptor.name === \"table\" && fnName === \"merge_cells\") {\n      base.merge_cells = (...args) => {\n        const table = resolveHandle(args[0], store, ownerToken);\n        if (!table)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          if (!argName)\n            continue;\n          normalizedArgsByName[argName] = normalizeValue(argName, args[index]);\n        }\n        const startColumn = normalizedArgsByName.start_column;\n        const startRow = normalizedArgsByName.start_row;\n        const endColumn = typeof normalizedArgsByName.end_column === \"number\" ? normalizedArgsByName.end_column : startColumn;\n        const endRow = typeof normalizedArgsByName.end_row === \"number\" ? normalizedArgsByName.end_row : startRow;\n        table.merges.push([startColumn, startRow, endColumn, endRow]);\n        emit(\"table.merge_cells\", table.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n      continue;\n    }\n    if (fnName.startsWith(\"set_\")) {\n      const fieldNames = parseAccessorFields(fnName);\n      base[fnName] = (...args) => {\n        const handle = resolveHandle(args[0], store, ownerToken);\n        if (!handle)\n          return;\n        const normalizedArgsByName = {};\n        for (let index = 1;index < args.length && index < fnSpec.canonicalArgs.length; index++) {\n          const argName = fnSpec.canonicalArgs[index];\n          const fieldName = fieldNames[index - 1] ?? argName ?? \"\";\n          if (!argName)\n            continue;\n          const normalizedValue = normalizeValue(fieldName, args[index]);\n          normalizedArgsByName[argName] = normalizedValue;\n          handle[fieldName] = normalizedValue;\n        }\n        emit(`${descriptor.name}.${fnName}`, handle.__id, buildProjectedArgs(fnSpec.canonicalArgs.slice(1), normalizedArgsByName, Math.max(0, args.length - 1)));\n      };\n    }\n  }\n  base.__hasHandle = hasHandle;\n  if (descriptor.name === \"box\") {\n    let currentBarTime = Number.NaN;\n    base.__setBarTime = (time) => {\n      const value = Number(time);\n      if (Number.isFinite(value)) {\n        currentBarTime = value;\n      }\n    };\n    base.__getActiveBgcolor = () => {\n      if (!Number.isFinite(currentBarTime))\n        return null;\n      let active = null;\n      for (const handle of store.values()) {\n        if (typeof handle.right === \"number\" && handle.right === currentBarTime) {\n          active = handle;\n        }\n      }\n      if (!active)\n        return null;\n      if (isColorLike(active.bgcolor))\n        return active.bgcolor;\n      if (isColorLike(active.border_color))\n        return active.border_color;\n      return null;\n    };\n  }\n  if (descriptor.name === \"polyline\") {\n    base.__visualArgs = (fnName, args, result) => {\n      const handle = fnName === \"new\" ? asHandle(result) : undefined;\n      if (!handle)\n        return args;\n      const points = handle.points ?? [];\n      const byTime = handle.xloc === \"bar_time\";\n      return [\n        points.map((point) => ({\n          x: byTime ? point.time : point.index,\n          y: point.price\n        })),\n        ...args.slice(1)\n      ];\n    };\n  }\n  for (const constant of descriptor.constants) {\n    base[constant.name] = constant.value;\n  }\n  return withConstantFallback(base, descriptor.name);\n}\nfunction createChartPointNamespace() {\n  let barIndex = Number.NaN;\n  let barTime = Number.NaN;\n  return {\n    new: (time, index, price) => createChartPoint(time, index, price),\n    from_index: (index, price) => createChartPoint(Number.NaN, index, price),\n    from_time: (time, price) => createChartPoint(time, Number.NaN, price),\n    now: (price) => createChartPoint(barTime, barIndex, price),\n    copy: (point) => toChartPoint(point),\n    __setBar: (index, time) => {\n      barIndex = toFiniteNumber(index);\n      barTime = toFiniteNumber(time);\n    }\n  };\n}\nfunction createDrawingRuntime(sink) {\n  return {\n    line: createDrawingNamespace(DRAWING_REGISTRY.line, sink),\n    box: createDrawingNamespace(DRAWING_REGISTRY.box, sink),\n    label: createDrawingNamespace(DRAWING_REGISTRY.label, sink),\n    linefill: createDrawingNamespace(DRAWING_REGISTRY.linefill, sink),\n    polyline: createDrawingNamespace(DRAWING_REGISTRY.polyline, sink),\n    table: createDrawingNamespace(DRAWING_REGISTRY.table, sink),\n    chartPoint: createChartPointNamespace()\n  };\n}\n\n// src/runtime/drawing/standalone-bundle.constants.ts\nvar STANDALONE_DRAWING_BUNDLE_GLOBAL = \"__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__\";\n\n// src/runtime/drawing/standalone-bundle.entry.ts\nfunction createNoopDrawingSink() {\n  return {\n    barIndex: -1,\n    pushEvent: () => {\n      return;\n    }\n  };\n}\nfunction createDrawingStubNamespaces() {\n  return createDrawingRuntime(createNoopDrawingSink());\n}\nvar standaloneDrawingBundle = {\n  createDrawingRuntime,\n  createDrawingStubNamespaces,\n  createStrategyRuntime,\n  createAlertRuntime,\n  createLogRuntime\n};\nvar standaloneDrawingGlobal = globalThis;\nstandaloneDrawingGlobal[STANDALONE_DRAWING_BUNDLE_GLOBAL] = standaloneDrawingBundle;\n\nvar __createDrawingRuntime =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createDrawingRuntime;\nvar __createDrawingStubNamespaces =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createDrawingStubNamespaces;\nvar __createStrategyRuntime =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createStrategyRuntime;\nvar __createAlertRuntime =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createAlertRuntime;\nvar __createLogRuntime =\n  globalThis.__PINE_TRANSPILER_STANDALONE_DRAWING_BUNDLE__.createLogRuntime;";
+// biome-ignore format: generated bundle literal
+// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal
+export const STANDALONE_COLOR_BUNDLE = "var {\n  createColorNamespace: __createColorNamespace,\n  normalizeColor: __normalizeColor,\n  colorTransparency: __colorTransparency,\n} = (() => {\n  // src/colors.ts\n  function clampByte(value) {\n    return Math.max(0, Math.min(255, Math.round(value)));\n  }\n  function toHexByte(value) {\n    return clampByte(value).toString(16).padStart(2, \"0\").toUpperCase();\n  }\n  function roundAlpha(value) {\n    return Number(Math.max(0, Math.min(1, value)).toFixed(4));\n  }\n  function clampTransparency(value) {\n    if (!Number.isFinite(value))\n      return 0;\n    return Math.max(0, Math.min(100, value));\n  }\n  function alphaFromTransparency(transparency) {\n    return roundAlpha(1 - clampTransparency(transparency) / 100);\n  }\n  function normalizeHexColor(value) {\n    const hex = value.match(/^#([0-9a-fA-F]{3,4}|[0-9a-fA-F]{6}(?:[0-9a-fA-F]{2})?)$/);\n    if (!hex)\n      return null;\n    const digits = hex[1];\n    const expanded = digits.length === 3 || digits.length === 4 ? [...digits].map((digit) => `${digit}${digit}`).join(\"\") : digits;\n    return `#${expanded.toUpperCase()}`;\n  }\n  function parseColorString(value) {\n    const normalizedHex = normalizeHexColor(value);\n    if (normalizedHex) {\n      const digits = normalizedHex.slice(1);\n      const red = parseInt(digits.slice(0, 2), 16);\n      const green = parseInt(digits.slice(2, 4), 16);\n      const blue = parseInt(digits.slice(4, 6), 16);\n      const alpha = digits.length === 8 ? roundAlpha(parseInt(digits.slice(6, 8), 16) / 255) : null;\n      return { red, green, blue, alpha };\n    }\n    const rgba = value.trim().match(/^rgba?\\(([^)]+)\\)$/i);\n    if (!rgba)\n      return null;\n    const parts = rgba[1].split(\",\").map((part) => part.trim()).filter((part) => part.length > 0);\n    if (parts.length !== 3 && parts.length !== 4)\n      return null;\n    const red = Number(parts[0]);\n    const green = Number(parts[1]);\n    const blue = Number(parts[2]);\n    if (![red, green, blue].every(Number.isFinite))\n      return null;\n    if (parts.length === 3) {\n      return {\n        red: clampByte(red),\n        green: clampByte(green),\n        blue: clampByte(blue),\n        alpha: null\n      };\n    }\n    const alpha = Number(parts[3]);\n    if (!Number.isFinite(alpha))\n      return null;\n    return {\n      red: clampByte(red),\n      green: clampByte(green),\n      blue: clampByte(blue),\n      alpha: roundAlpha(alpha)\n    };\n  }\n  function formatHexColor(color) {\n    return `#${toHexByte(color.red)}${toHexByte(color.green)}${toHexByte(color.blue)}`;\n  }\n  function formatRgbaColor(color, alpha) {\n    return `rgba(${color.red}, ${color.green}, ${color.blue}, ${roundAlpha(alpha)})`;\n  }\n  function formatColor(color, alpha) {\n    if (alpha === null || roundAlpha(alpha) >= 1)\n      return formatHexColor(color);\n    return formatRgbaColor(color, alpha);\n  }\n\n  // src/types/index.ts\n  var COLOR_MAP = {\n    blue: \"#2962FF\",\n    red: \"#FF5252\",\n    green: \"#4CAF50\",\n    yellow: \"#FFEB3B\",\n    orange: \"#FF9800\",\n    purple: \"#9C27B0\",\n    white: \"#FFFFFF\",\n    black: \"#000000\",\n    gray: \"#9E9E9E\",\n    grey: \"#9E9E9E\",\n    teal: \"#009688\",\n    aqua: \"#00BCD4\",\n    lime: \"#CDDC39\",\n    pink: \"#E91E63\",\n    navy: \"#1A237E\",\n    maroon: \"#B71C1C\",\n    olive: \"#827717\",\n    fuchsia: \"#F50057\",\n    silver: \"#BDBDBD\"\n  };\n\n  // src/runtime/colors.ts\n  function parse(value) {\n    return typeof value === \"string\" ? parseColorString(value) : null;\n  }\n  function opacity(color) {\n    return color.alpha ?? 1;\n  }\n  function transparencyOf(color) {\n    return Number(((1 - opacity(color)) * 100).toFixed(2));\n  }\n  function normalizeColor(value) {\n    const parsed = parse(value);\n    return parsed ? formatColor(parsed, parsed.alpha) : null;\n  }\n  function colorTransparency(value) {\n    const parsed = parse(value);\n    if (!parsed || opacity(parsed) >= 1)\n      return null;\n    return transparencyOf(parsed);\n  }\n  function channel(color, name) {\n    const parsed = parse(color);\n    return parsed ? parsed[name] : Number.NaN;\n  }\n  var rgb = (red, green, blue, transp = 0) => {\n    const channels = [red, green, blue].map(Number);\n    if (!channels.every(Number.isFinite))\n      return Number.NaN;\n    const [r, g, b] = channels.map((v) => Math.max(0, Math.min(255, Math.round(v))));\n    return formatColor({ red: r, green: g, blue: b }, alphaFromTransparency(Number(transp)));\n  };\n  var withTransparency = (color, transp = 0) => {\n    const parsed = parse(color);\n    if (!parsed)\n      return color;\n    return formatColor(parsed, alphaFromTransparency(Number(transp)));\n  };\n  var fromGradient = (value, bottomValue, topValue, bottomColor, topColor) => {\n    const at = Number(value);\n    const bottom = Number(bottomValue);\n    const top = Number(topValue);\n    const from = parse(bottomColor);\n    const to = parse(topColor);\n    if (!from || !to || ![at, bottom, top].every(Number.isFinite)) {\n      return Number.NaN;\n    }\n    const span = top - bottom;\n    const position = span === 0 ? Number(at >= top) : Math.max(0, Math.min(1, (at - bottom) / span));\n    const mix = (a, b) => a + (b - a) * position;\n    const transparency = mix(transparencyOf(from), transparencyOf(to));\n    return formatColor({\n      red: Math.round(mix(from.red, to.red)),\n      green: Math.round(mix(from.green, to.green)),\n      blue: Math.round(mix(from.blue, to.blue))\n    }, alphaFromTransparency(clampTransparency(transparency)));\n  };\n  function createColorNamespace() {\n    const functions = {\n      rgb,\n      new: withTransparency,\n      r: (color) => channel(color, \"red\"),\n      g: (color) => channel(color, \"green\"),\n      b: (color) => channel(color, \"blue\"),\n      t: (color) => {\n        const parsed = parse(color);\n        return parsed ? transparencyOf(parsed) : Number.NaN;\n      },\n      from_gradient: fromGradient\n    };\n    return Object.assign((value) => value, COLOR_MAP, functions);\n  }\n\nreturn { createColorNamespace, normalizeColor, colorTransparency };\n})();";
+// biome-ignore format: generated bundle literal
+// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal
+export const STANDALONE_STRING_BUNDLE = "var {\n  createStrNamespace: __createStrNamespace,\n  PINE_FORMAT: __PINE_FORMAT,\n} = (() => {\n  // src/runtime/text-format.ts\n  var DEFAULT_NUMBER_PATTERN = \"#.##########\";\n  var numberPatterns = new Map;\n  function toFixedHalfUp(abs, digits) {\n    const shifted = Number((abs * 10 ** digits).toPrecision(15));\n    if (shifted >= Number.MAX_SAFE_INTEGER)\n      return abs.toFixed(digits);\n    const whole = String(Math.round(shifted)).padStart(digits + 1, \"0\");\n    return digits === 0 ? whole : `${whole.slice(0, -digits)}.${whole.slice(-digits)}`;\n  }\n  function readAffix(pattern, start, stop, onMultiplier) {\n    let text = \"\";\n    let i = start;\n    while (i < pattern.length && !stop.includes(pattern[i])) {\n      const ch = pattern[i];\n      if (ch === \"'\") {\n        if (pattern[i + 1] === \"'\") {\n          text += \"'\";\n          i += 2;\n          continue;\n        }\n        const close = pattern.indexOf(\"'\", i + 1);\n        const end = close === -1 ? pattern.length : close;\n        text += pattern.slice(i + 1, end).replace(/''/g, \"'\");\n        i = end + 1;\n        continue;\n      }\n      if (ch === \"%\")\n        onMultiplier(100);\n      if (ch === \"‰\")\n        onMultiplier(1000);\n      text += ch === \"¤\" ? \"$\" : ch;\n      i++;\n    }\n    return [text, i];\n  }\n  function parseNumberPattern(pattern) {\n    let multiplier = 1;\n    const setMultiplier = (value) => {\n      multiplier = value;\n    };\n    const [prefix, numberStart] = readAffix(pattern, 0, \"#0,.\", setMultiplier);\n    let numberEnd = numberStart;\n    while (numberEnd < pattern.length && \"#0,.\".includes(pattern[numberEnd])) {\n      numberEnd++;\n    }\n    const [suffix, suffixEnd] = readAffix(pattern, numberEnd, \";\", setMultiplier);\n    let negativePrefix = `-${prefix}`;\n    let negativeSuffix = suffix;\n    if (pattern[suffixEnd] === \";\") {\n      const ignore = () => {\n        return;\n      };\n      const [negPrefix, negNumberStart] = readAffix(pattern, suffixEnd + 1, \"#0,.\", ignore);\n      let negNumberEnd = negNumberStart;\n      while (negNumberEnd < pattern.length && \"#0,.\".includes(pattern[negNumberEnd])) {\n        negNumberEnd++;\n      }\n      negativePrefix = negPrefix;\n      negativeSuffix = readAffix(pattern, negNumberEnd, \"\", ignore)[0];\n    }\n    const digits = pattern.slice(numberStart, numberEnd);\n    const point = digits.indexOf(\".\");\n    const integerPart = point === -1 ? digits : digits.slice(0, point);\n    const fractionPart = point === -1 ? \"\" : digits.slice(point + 1);\n    const lastComma = integerPart.lastIndexOf(\",\");\n    return {\n      positivePrefix: prefix,\n      positiveSuffix: suffix,\n      negativePrefix,\n      negativeSuffix,\n      multiplier,\n      minInteger: Math.max(1, integerPart.split(\"0\").length - 1),\n      minFraction: fractionPart.split(\"0\").length - 1,\n      maxFraction: fractionPart.replace(/,/g, \"\").length,\n      grouping: lastComma === -1 ? 0 : integerPart.length - lastComma - 1\n    };\n  }\n  function readNumberPattern(pattern) {\n    let parsed = numberPatterns.get(pattern);\n    if (!parsed) {\n      parsed = parseNumberPattern(pattern);\n      numberPatterns.set(pattern, parsed);\n    }\n    return parsed;\n  }\n  function groupDigits(digits, size) {\n    if (size <= 0 || digits.length <= size)\n      return digits;\n    const groups = [];\n    for (let end = digits.length;end > 0; end -= size) {\n      groups.unshift(digits.slice(Math.max(0, end - size), end));\n    }\n    return groups.join(\",\");\n  }\n  function formatNumber(value, pattern) {\n    if (Number.isNaN(value))\n      return \"NaN\";\n    const format = readNumberPattern(pattern);\n    const scaled = Math.abs(value) * format.multiplier;\n    if (!Number.isFinite(scaled)) {\n      return value < 0 ? `${format.negativePrefix}∞${format.negativeSuffix}` : `${format.positivePrefix}∞${format.positiveSuffix}`;\n    }\n    const [rawInteger, rawFraction = \"\"] = toFixedHalfUp(scaled, format.maxFraction).split(\".\");\n    let fraction = rawFraction;\n    while (fraction.length > format.minFraction && fraction.endsWith(\"0\")) {\n      fraction = fraction.slice(0, -1);\n    }\n    const integer = groupDigits(rawInteger.replace(/^0+/, \"\").padStart(format.minInteger, \"0\"), format.grouping);\n    const body = fraction ? `${integer}.${fraction}` : integer;\n    const negative = value < 0 && /[1-9]/.test(rawInteger + rawFraction);\n    return negative ? `${format.negativePrefix}${body}${format.negativeSuffix}` : `${format.positivePrefix}${body}${format.positiveSuffix}`;\n  }\n  var MONTHS = [\n    \"January\",\n    \"February\",\n    \"March\",\n    \"April\",\n    \"May\",\n    \"June\",\n    \"July\",\n    \"August\",\n    \"September\",\n    \"October\",\n    \"November\",\n    \"December\"\n  ];\n  var WEEKDAYS = [\n    \"Sunday\",\n    \"Monday\",\n    \"Tuesday\",\n    \"Wednesday\",\n    \"Thursday\",\n    \"Friday\",\n    \"Saturday\"\n  ];\n  var clockFormatters = new Map;\n  function clockFormatter(timezone) {\n    if (!clockFormatters.has(timezone)) {\n      let formatter = null;\n      try {\n        formatter = new Intl.DateTimeFormat(\"en-US\", {\n          timeZone: timezone,\n          hourCycle: \"h23\",\n          year: \"numeric\",\n          month: \"numeric\",\n          day: \"numeric\",\n          hour: \"numeric\",\n          minute: \"numeric\",\n          second: \"numeric\"\n        });\n      } catch {}\n      clockFormatters.set(timezone, formatter);\n    }\n    return clockFormatters.get(timezone) ?? null;\n  }\n  function fixedOffsetMinutes(timezone) {\n    const normalized = timezone.trim().toUpperCase();\n    if (normalized === \"UTC\" || normalized === \"GMT\")\n      return 0;\n    const match = /^(?:GMT|UTC)([+-])(\\d{1,2})(?::?(\\d{2}))?$/.exec(normalized);\n    if (!match)\n      return null;\n    const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);\n    return match[1] === \"-\" ? -minutes : minutes;\n  }\n  function utcClock(timestamp, offset) {\n    const d = new Date(timestamp + offset * 60000);\n    return {\n      year: d.getUTCFullYear(),\n      month: d.getUTCMonth() + 1,\n      day: d.getUTCDate(),\n      hour: d.getUTCHours(),\n      minute: d.getUTCMinutes(),\n      second: d.getUTCSeconds(),\n      millisecond: d.getUTCMilliseconds(),\n      weekday: d.getUTCDay(),\n      offset\n    };\n  }\n  function readClockAt(timestamp, timezone = \"\") {\n    if (!timezone.trim())\n      return utcClock(timestamp, 0);\n    const fixed = fixedOffsetMinutes(timezone);\n    if (fixed !== null)\n      return utcClock(timestamp, fixed);\n    const formatter = clockFormatter(timezone);\n    if (!formatter)\n      return utcClock(timestamp, 0);\n    const fields = {};\n    for (const part of formatter.formatToParts(new Date(timestamp))) {\n      fields[part.type] = Number(part.value);\n    }\n    const wholeSeconds = Math.floor(timestamp / 1000) * 1000;\n    const wallTime = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);\n    return utcClock(timestamp, Math.round((wallTime - wholeSeconds) / 60000));\n  }\n  function formatOffset(offset, separator) {\n    const abs = Math.abs(offset);\n    const hours = String(Math.floor(abs / 60)).padStart(2, \"0\");\n    const minutes = String(abs % 60).padStart(2, \"0\");\n    return `${offset < 0 ? \"-\" : \"+\"}${hours}${separator}${minutes}`;\n  }\n  function timezoneName(timestamp, timezone, offset, style) {\n    if (offset === 0 && fixedOffsetMinutes(timezone || \"UTC\") === 0) {\n      return style === \"short\" ? \"UTC\" : \"Coordinated Universal Time\";\n    }\n    try {\n      const name = new Intl.DateTimeFormat(\"en-US\", {\n        timeZone: timezone,\n        timeZoneName: style\n      }).formatToParts(new Date(timestamp)).find((part) => part.type === \"timeZoneName\")?.value;\n      if (name)\n        return name;\n    } catch {}\n    return `GMT${formatOffset(offset, \":\")}`;\n  }\n  function dateField(letter, count, clock, timestamp, timezone) {\n    const pad = (value) => String(value).padStart(count, \"0\");\n    switch (letter) {\n      case \"G\":\n        return clock.year > 0 ? \"AD\" : \"BC\";\n      case \"y\":\n      case \"Y\":\n        return count === 2 ? String(clock.year % 100).padStart(2, \"0\") : pad(clock.year);\n      case \"M\":\n      case \"L\":\n        if (count >= 4)\n          return MONTHS[clock.month - 1];\n        if (count === 3)\n          return MONTHS[clock.month - 1].slice(0, 3);\n        return pad(clock.month);\n      case \"d\":\n        return pad(clock.day);\n      case \"D\": {\n        const dayOfYear = (Date.UTC(clock.year, clock.month - 1, clock.day) - Date.UTC(clock.year, 0, 1)) / 86400000 + 1;\n        return pad(dayOfYear);\n      }\n      case \"E\":\n        return count >= 4 ? WEEKDAYS[clock.weekday] : WEEKDAYS[clock.weekday].slice(0, 3);\n      case \"u\":\n        return pad(clock.weekday === 0 ? 7 : clock.weekday);\n      case \"a\":\n        return clock.hour < 12 ? \"AM\" : \"PM\";\n      case \"H\":\n        return pad(clock.hour);\n      case \"k\":\n        return pad(clock.hour === 0 ? 24 : clock.hour);\n      case \"K\":\n        return pad(clock.hour % 12);\n      case \"h\":\n        return pad((clock.hour + 11) % 12 + 1);\n      case \"m\":\n        return pad(clock.minute);\n      case \"s\":\n        return pad(clock.second);\n      case \"S\":\n        return pad(clock.millisecond);\n      case \"z\":\n        return timezoneName(timestamp, timezone, clock.offset, count >= 4 ? \"long\" : \"short\");\n      case \"Z\":\n        return formatOffset(clock.offset, \"\");\n      case \"X\":\n        if (clock.offset === 0)\n          return \"Z\";\n        return count === 1 ? formatOffset(clock.offset, \"\").slice(0, 3) : formatOffset(clock.offset, count >= 3 ? \":\" : \"\");\n      default:\n        return null;\n    }\n  }\n  function formatDate(timestamp, pattern, timezone = \"\") {\n    const clock = readClockAt(timestamp, timezone);\n    let out = \"\";\n    let i = 0;\n    while (i < pattern.length) {\n      const ch = pattern[i];\n      if (ch === \"'\") {\n        if (pattern[i + 1] === \"'\") {\n          out += \"'\";\n          i += 2;\n          continue;\n        }\n        const close = pattern.indexOf(\"'\", i + 1);\n        const end = close === -1 ? pattern.length : close;\n        out += pattern.slice(i + 1, end);\n        i = end + 1;\n        continue;\n      }\n      if (!/[A-Za-z]/.test(ch)) {\n        out += ch;\n        i++;\n        continue;\n      }\n      let count = 1;\n      while (pattern[i + count] === ch)\n        count++;\n      out += dateField(ch, count, clock, timestamp, timezone) ?? pattern.slice(i, i + count);\n      i += count;\n    }\n    return out;\n  }\n  var NUMBER_STYLES = {\n    \"\": \"#,##0.###\",\n    integer: \"#,##0\",\n    percent: \"#,##0%\",\n    currency: \"¤#,##0.00\"\n  };\n  var DATE_STYLES = {\n    \"\": \"MMM d, yyyy\",\n    short: \"M/d/yy\",\n    medium: \"MMM d, yyyy\",\n    long: \"MMMM d, yyyy\",\n    full: \"EEEE, MMMM d, yyyy\"\n  };\n  var TIME_STYLES = {\n    \"\": \"h:mm:ss a\",\n    short: \"h:mm a\",\n    medium: \"h:mm:ss a\",\n    long: \"h:mm:ss a z\",\n    full: \"h:mm:ss a zzzz\"\n  };\n  function textOf(value) {\n    return value === undefined || value === null ? \"\" : String(value);\n  }\n  function numberArgument(value) {\n    if (typeof value === \"number\")\n      return value;\n    if (typeof value === \"boolean\")\n      return null;\n    const text = textOf(value).trim();\n    return text !== \"\" && Number.isFinite(Number(text)) ? Number(text) : null;\n  }\n  function formatChoice(value, style, args) {\n    let chosen = \"\";\n    for (const [index, option] of style.split(\"|\").entries()) {\n      const match = /^\\s*([^#<≤]*?)\\s*([#<≤])(.*)$/s.exec(option);\n      if (!match)\n        continue;\n      const limit = match[1].replace(\"∞\", \"Infinity\");\n      const bound = Number(limit);\n      const reached = match[2] === \"<\" ? value > bound : value >= bound;\n      if (index === 0 || reached)\n        chosen = match[3];\n      if (!reached && index > 0)\n        break;\n    }\n    return formatMessage(chosen, args);\n  }\n  function formatArgument(value, type, style, args) {\n    const keyword = style.trim().toLowerCase();\n    const number = numberArgument(value);\n    switch (type) {\n      case \"\":\n        return typeof value === \"number\" ? formatNumber(value, NUMBER_STYLES[\"\"]) : textOf(value);\n      case \"number\":\n        if (number === null)\n          return textOf(value);\n        return formatNumber(number, NUMBER_STYLES[keyword] ?? style);\n      case \"date\":\n      case \"time\": {\n        if (number === null || !Number.isFinite(number))\n          return textOf(value);\n        const styles = type === \"date\" ? DATE_STYLES : TIME_STYLES;\n        return formatDate(number, styles[keyword] ?? style);\n      }\n      case \"choice\":\n        return number === null ? textOf(value) : formatChoice(number, style, args);\n      default:\n        return textOf(value);\n    }\n  }\n  function splitPlaceholder(inner) {\n    const first = inner.indexOf(\",\");\n    if (first === -1)\n      return [inner.trim(), \"\", \"\"];\n    const second = inner.indexOf(\",\", first + 1);\n    if (second === -1) {\n      return [inner.slice(0, first).trim(), inner.slice(first + 1).trim(), \"\"];\n    }\n    return [\n      inner.slice(0, first).trim(),\n      inner.slice(first + 1, second).trim().toLowerCase(),\n      inner.slice(second + 1)\n    ];\n  }\n  function placeholderEnd(pattern, start) {\n    let depth = 0;\n    let quoted = false;\n    for (let i = start;i < pattern.length; i++) {\n      const ch = pattern[i];\n      if (ch === \"'\")\n        quoted = !quoted;\n      else if (quoted)\n        continue;\n      else if (ch === \"{\")\n        depth++;\n      else if (ch === \"}\" && --depth === 0)\n        return i;\n    }\n    return -1;\n  }\n  function formatMessage(pattern, args) {\n    let out = \"\";\n    let i = 0;\n    while (i < pattern.length) {\n      const ch = pattern[i];\n      if (ch === \"'\") {\n        if (pattern[i + 1] === \"'\") {\n          out += \"'\";\n          i += 2;\n          continue;\n        }\n        const close = pattern.indexOf(\"'\", i + 1);\n        const end = close === -1 ? pattern.length : close;\n        out += pattern.slice(i + 1, end);\n        i = end + 1;\n        continue;\n      }\n      const end = ch === \"{\" ? placeholderEnd(pattern, i) : -1;\n      if (end === -1) {\n        out += ch;\n        i++;\n        continue;\n      }\n      const [index, type, style] = splitPlaceholder(pattern.slice(i + 1, end));\n      const position = /^\\d+$/.test(index) ? Number(index) : -1;\n      out += position >= 0 && position < args.length ? formatArgument(args[position], type, style, args) : pattern.slice(i, end + 1);\n      i = end + 1;\n    }\n    return out;\n  }\n\n  // src/runtime/strings.ts\n  var PINE_FORMAT = Object.freeze({\n    inherit: \"inherit\",\n    price: \"price\",\n    volume: \"volume\",\n    percent: \"percent\",\n    mintick: \"mintick\"\n  });\n  var DEFAULT_TIME_PATTERN = \"yyyy-MM-dd'T'HH:mm:ssZ\";\n  var VOLUME_UNITS = [\n    [1000000000000, \"T\"],\n    [1e9, \"B\"],\n    [1e6, \"M\"],\n    [1000, \"K\"]\n  ];\n  var DECIMAL_NUMBER = /^[+-]?(\\d+\\.?\\d*|\\.\\d+)(e[+-]?\\d+)?$/i;\n  function isMatrix(value) {\n    return typeof value === \"object\" && value !== null && Array.isArray(value._rows);\n  }\n  function textOf2(value) {\n    return value === undefined || value === null ? \"\" : String(value);\n  }\n  function tickDecimals(mintick) {\n    let decimals = 0;\n    while (decimals < 10 && Math.abs(Math.round(mintick * 10 ** decimals) - mintick * 10 ** decimals) > 0.000000001) {\n      decimals++;\n    }\n    return decimals;\n  }\n  function formatVolume(value) {\n    const abs = Math.abs(value);\n    for (const [size, unit] of VOLUME_UNITS) {\n      if (abs >= size)\n        return `${formatNumber(value / size, \"#.###\")}${unit}`;\n    }\n    return formatNumber(value, \"#.###\");\n  }\n  function compileRegex(source, cache) {\n    let regex = cache.get(source);\n    if (!regex) {\n      const inline = /^\\(\\?([ims]+)\\)/.exec(source);\n      try {\n        regex = inline ? new RegExp(source.slice(inline[0].length), inline[1]) : new RegExp(source);\n      } catch {\n        return null;\n      }\n      cache.set(source, regex);\n    }\n    return regex;\n  }\n  function createStrNamespace(readSymbol = () => ({})) {\n    const regexes = new Map;\n    const formatNumberAs = (value, format) => {\n      switch (format) {\n        case undefined:\n        case null:\n        case \"\":\n        case PINE_FORMAT.inherit:\n        case PINE_FORMAT.price:\n          return formatNumber(value, DEFAULT_NUMBER_PATTERN);\n        case PINE_FORMAT.percent:\n          return formatNumber(value, \"0.00'%'\");\n        case PINE_FORMAT.volume:\n          return formatVolume(value);\n        case PINE_FORMAT.mintick: {\n          const mintick = Number(readSymbol().mintick);\n          if (!(mintick > 0) || Number.isNaN(value)) {\n            return formatNumber(value, DEFAULT_NUMBER_PATTERN);\n          }\n          const decimals = tickDecimals(mintick);\n          const ticks = Math.round(Number((value / mintick).toPrecision(12))) * mintick;\n          return formatNumber(ticks, `0${decimals > 0 ? \".\" : \"\"}${\"0\".repeat(decimals)}`);\n        }\n        default:\n          return formatNumber(value, textOf2(format));\n      }\n    };\n    const tostring = (value, format) => {\n      if (typeof value === \"number\")\n        return formatNumberAs(value, format);\n      if (Array.isArray(value)) {\n        return `[${value.map((item) => tostring(item, format)).join(\", \")}]`;\n      }\n      if (isMatrix(value)) {\n        return value._rows.map((row) => tostring(row, format)).join(`\n  `);\n      }\n      return textOf2(value);\n    };\n    return {\n      tostring,\n      tonumber: (value) => {\n        if (typeof value === \"number\")\n          return value;\n        const text = textOf2(value).trim();\n        return DECIMAL_NUMBER.test(text) ? Number(text) : Number.NaN;\n      },\n      length: (source) => textOf2(source).length,\n      contains: (source, str) => textOf2(source).includes(textOf2(str)),\n      startswith: (source, str) => textOf2(source).startsWith(textOf2(str)),\n      endswith: (source, str) => textOf2(source).endsWith(textOf2(str)),\n      upper: (source) => textOf2(source).toUpperCase(),\n      lower: (source) => textOf2(source).toLowerCase(),\n      trim: (source) => textOf2(source).trim(),\n      pos: (source, str) => {\n        const index = textOf2(source).indexOf(textOf2(str));\n        return index === -1 ? Number.NaN : index;\n      },\n      substring: (source, begin, end) => {\n        const text = textOf2(source);\n        const from = Number(begin);\n        const to = end === undefined ? text.length : Number(end);\n        return text.substring(Number.isFinite(from) ? from : 0, Number.isFinite(to) ? to : text.length);\n      },\n      replace: (source, target, replacement, occurrence = 0) => {\n        const text = textOf2(source);\n        const find = textOf2(target);\n        if (!find)\n          return text;\n        let index = -1;\n        for (let n = Math.trunc(Number(occurrence)) || 0;n >= 0; n--) {\n          index = text.indexOf(find, index + 1);\n          if (index === -1)\n            return text;\n        }\n        return text.slice(0, index) + textOf2(replacement) + text.slice(index + find.length);\n      },\n      replace_all: (source, target, replacement) => {\n        const text = textOf2(source);\n        const find = textOf2(target);\n        return find ? text.split(find).join(textOf2(replacement)) : text;\n      },\n      split: (source, separator) => textOf2(source).split(textOf2(separator)),\n      match: (source, regex) => {\n        const compiled = compileRegex(textOf2(regex), regexes);\n        return compiled?.exec(textOf2(source))?.[0] ?? \"\";\n      },\n      repeat: (source, repeat, separator = \"\") => {\n        const count = Math.trunc(Number(repeat));\n        if (!(count > 0))\n          return \"\";\n        return new Array(count).fill(textOf2(source)).join(textOf2(separator));\n      },\n      format: (formatString, ...args) => formatMessage(textOf2(formatString), args),\n      format_time: (time, format, timezone) => {\n        const timestamp = Number(time);\n        if (!Number.isFinite(timestamp))\n          return \"\";\n        return formatDate(timestamp, textOf2(format) || DEFAULT_TIME_PATTERN, timezone === undefined || timezone === null ? textOf2(readSymbol().timezone) : textOf2(timezone));\n      }\n    };\n  }\n\nreturn { createStrNamespace, PINE_FORMAT };\n})();";
+// biome-ignore format: generated bundle literal
+// biome-ignore lint/suspicious/noTemplateCurlyInString: generated bundle literal
+export const STANDALONE_SECURITY_BUNDLE = "var {\n  createSecurityRequest: __createSecurityRequest,\n} = (() => {\n  // src/runtime/security.ts\n  var PRICE_FIELDS = {\n    open: (bar) => bar.open,\n    high: (bar) => bar.high,\n    low: (bar) => bar.low,\n    close: (bar) => bar.close,\n    volume: (bar) => bar.volume,\n    hl2: (bar) => (bar.high + bar.low) / 2,\n    hlc3: (bar) => (bar.high + bar.low + bar.close) / 3,\n    ohlc4: (bar) => (bar.open + bar.high + bar.low + bar.close) / 4,\n    hlcc4: (bar) => (bar.high + bar.low + 2 * bar.close) / 4,\n    time: (bar) => bar.time\n  };\n  var UNIT_MS = {\n    \"\": 60000,\n    S: 1000,\n    H: 3600000,\n    D: 86400000,\n    W: 604800000,\n    M: 31 * 86400000,\n    Y: 366 * 86400000\n  };\n  function timeframeSpan(timeframe) {\n    const match = /^(\\d*)([SHDWMY]?)$/i.exec(timeframe.trim());\n    if (!match || !(match[1] || match[2]))\n      return Number.POSITIVE_INFINITY;\n    const amount = Number(match[1] || 1);\n    return amount > 0 ? amount * (UNIT_MS[match[2].toUpperCase()] ?? 60000) : Number.POSITIVE_INFINITY;\n  }\n  function createRequestContext(base, symbol) {\n    const slots = [];\n    let pointer = 0;\n    const context = Object.create(base);\n    context.symbol = { ...base.symbol, tickerid: symbol };\n    context.new_var = (value) => {\n      slots[pointer] ??= [];\n      const history = slots[pointer++];\n      history.push(value);\n      return {\n        get: (offset) => Number.isInteger(offset) && offset >= 0 && offset < history.length ? history[history.length - 1 - offset] : Number.NaN,\n        set: (next) => {\n          history[history.length - 1] = next;\n        }\n      };\n    };\n    return {\n      context,\n      beginBar(index) {\n        pointer = 0;\n        context.barIndex = index;\n      }\n    };\n  }\n  function sourcesAt(bars, index) {\n    const sources = { bar_index: index };\n    for (const [name, read] of Object.entries(PRICE_FIELDS)) {\n      const at = (offset) => {\n        const bar = Number.isInteger(offset) && offset >= 0 ? bars[index - offset] : null;\n        return bar ? Number(read(bar)) : Number.NaN;\n      };\n      sources[name] = at(0);\n      sources[`_series_${name}`] = { get: at, set: () => {\n        return;\n      } };\n      sources[`_getHistorical_${name}`] = at;\n    }\n    return sources;\n  }\n  function createSecurityRequest(options) {\n    const { merge } = options;\n    const span = timeframeSpan(options.timeframe);\n    const requestContext = createRequestContext(options.context, options.symbol);\n    const values = [];\n    let selected = -1;\n    let shownIndex = -1;\n    let shownAt = Number.NaN;\n    const closeOf = (bars, index) => Math.min(bars[index + 1]?.time ?? Number.POSITIVE_INFINITY, bars[index].time + span);\n    return {\n      read(evaluate, bars, time, closeTime, na) {\n        while (selected + 1 < bars.length && (merge.lookahead ? bars[selected + 1].time <= time : closeOf(bars, selected + 1) <= closeTime)) {\n          selected++;\n        }\n        while (values.length <= selected) {\n          requestContext.beginBar(values.length);\n          values.push(evaluate(requestContext.context, sourcesAt(bars, values.length)));\n        }\n        if (selected !== shownIndex) {\n          shownIndex = selected;\n          shownAt = time;\n        }\n        if (selected < 0 || merge.gaps && shownAt !== time)\n          return na;\n        const value = values[selected];\n        return Array.isArray(value) ? [...value] : value;\n      }\n    };\n  }\n\nreturn { createSecurityRequest };\n})();";
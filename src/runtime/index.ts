@@ -1,10 +1,27 @@
 /**
  * Runtime Module
  *
- * Re-exports all runtime mock factories, stub namespaces, and helper functions.
+ * Re-exports all runtime mock factories, stub namespaces, helper functions,
+ * the reference Std library, and the strategy, alert, log, color,
+ * string and security runtimes.
  */
 
 export {
+  type AlertEvent,
+  type AlertFrequency,
+  type AlertFunction,
+  type AlertRuntime,
+  createAlertRuntime,
+} from './alerts';
+export {
+  type ColorFunctions,
+  type ColorNamespace,
+  colorTransparency,
+  createColorNamespace,
+  normalizeColor,
+} from './colors';
+export {
+  type ChartPoint,
   createDrawingNamespace,
   createDrawingRuntime,
   type DrawingEventSink,
@@ -25,6 +42,13 @@ export {
   toDegrees,
   toRadians,
 } from './helpers';
+export {
+  createLogRuntime,
+  type LogFunction,
+  type LogLevel,
+  type LogRecord,
+  type LogRuntime,
+} from './logs';
 export {
   createInputMock,
   createMathMock,
@@ -44,6 +68,50 @@ export {
   type SyminfoMock,
   type TimeframeMock,
 } from './mock-factories';
+export {
+  classifyRuntimeError,
+  collectScriptFunctionNames,
+  isPineRuntimeError,
+  PINE_ERROR_CODE_PROPERTY,
+  PineRuntimeError,
+  type PineRuntimeErrorInit,
+  type PineStackFrame,
+  RuntimeErrorCode,
+  type RuntimeErrorCodeValue,
+  raiseScriptRuntimeError,
+  resolvePineStack,
+  type ScriptLocations,
+  toPineRuntimeError,
+} from './pine-runtime-error';
+export {
+  createSecurityRequest,
+  type SecurityEvaluator,
+  type SecurityMerge,
+  type SecurityRequest,
+  type SecurityRequestOptions,
+} from './security';
+export {
+  createStd,
+  type StdBar,
+  type StdBarFeed,
+  type StdTimeframe,
+  timeframeOf,
+} from './std';
+export {
+  createStrategyRuntime,
+  type StrategyBar,
+  type StrategyEquityPoint,
+  type StrategyNamespace,
+  type StrategyReport,
+  type StrategyRuntime,
+  type StrategyTrade,
+} from './strategy';
+export {
+  createStrNamespace,
+  PINE_FORMAT,
+  type StrNamespace,
+  type StrSymbolInfo,
+} from './strings';
 export {
   type BarstateContext,
   type BarstateStub,
@@ -0,0 +1,68 @@
+/**
+ * Log Runtime
+ *
+ * Pine's `log.info()`, `log.warning()` and `log.error()` for both
+ * factory paths. Each execution of a bar collects its log records into
+ * a fresh array, which the factory hands out as the non-enumerable
+ * `__logs` of the bar's output: the Pine Logs panel, one bar at a time.
+ *
+ * Like Pine, a call with arguments after the message treats the message
+ * as a `str.format()` pattern; a lone message is logged as it is.
+ */
+
+import { formatMessage } from './text-format';
+
+export type LogLevel = 'info' | 'warning' | 'error';
+
+export interface LogRecord {
+  level: LogLevel;
+  message: string;
+  barIndex: number;
+  /** Bar open time in UTC milliseconds; `NaN` when the host has none. */
+  time: number;
+}
+
+export type LogFunction = (message: unknown, ...args: unknown[]) => void;
+
+export interface LogRuntime {
+  /** The Pine `log` namespace. */
+  log: Record<LogLevel, LogFunction>;
+  /** Start an execution of `barIndex`; its log records land in the result. */
+  beginBar: (barIndex: number, time: number) => LogRecord[];
+}
+
+function textOf(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+export function createLogRuntime(): LogRuntime {
+  let records: LogRecord[] = [];
+  let barIndex = -1;
+  let time = Number.NaN;
+
+  const logAt =
+    (level: LogLevel): LogFunction =>
+    (message, ...args) => {
+      const text = textOf(message);
+      records.push({
+        level,
+        message: args.length > 0 ? formatMessage(text, args) : text,
+        barIndex,
+        time,
+      });
+    };
+  const log = {
+    info: logAt('info'),
+    warning: logAt('warning'),
+    error: logAt('error'),
+  };
+
+  const beginBar = (index: number, barTime: number): LogRecord[] => {
+    barIndex = index;
+    time = Number.isFinite(barTime) ? barTime : Number.NaN;
+    records = [];
+    return records;
+  };
+
+  return { log, beginBar };
+}
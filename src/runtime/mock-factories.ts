@@ -89,6 +89,19 @@ export interface InputFunction {
   session: (defval: InputValue, title?: string) => InputValue;
   text_area: (defval: InputValue, title?: string) => InputValue;
   price: (defval: InputValue, title?: string) => InputValue;
+  /** `defval` is an enum member; the callback answers with a member title. */
+  enum: <T extends EnumMemberValue>(
+    defval: T,
+    title?: string,
+    options?: T[],
+  ) => T;
+}
+
+/** The runtime shape of a transpiled enum member. */
+export interface EnumMemberValue {
+  name: string;
+  title: string;
+  readonly members: EnumMemberValue[];
 }
 
 /**
@@ -159,6 +172,15 @@ export function createInputMock(
     if (val === 'ohlc4') return Std.ohlc4(context);
     return Std.close(context);
   };
+  input.enum = <T extends EnumMemberValue>(
+    defval: T,
+    _title?: string,
+    options?: T[],
+  ): T => {
+    const raw = inputCallback(_inputIndex++);
+    const members = (options ?? defval?.members ?? []) as T[];
+    return members.find((m) => m.title === raw || m.name === raw) ?? defval;
+  };
 
   return input;
 }
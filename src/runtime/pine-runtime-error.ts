@@ -0,0 +1,272 @@
+/**
+ * Pine Runtime Errors
+ *
+ * Structured errors for scripts that fail mid-run. Both factory paths
+ * catch whatever the compiled script throws and turn it into a
+ * {@link PineRuntimeError} carrying a stable code, the bar index, and
+ * the Pine position and call stack recovered from the JS stack trace
+ * through the body's source mappings.
+ *
+ * The standalone factory cannot import this module (its output is a
+ * self-contained ESM string), so `STANDALONE_RUNTIME_HELPERS` carries a
+ * JavaScript port of the same logic. Keep the message format, codes
+ * and frame resolution in lockstep with it — the standalone parity
+ * tests compare error messages across both paths.
+ */
+
+import { sanitizeIdentifier } from '../generator/generator-utils';
+import { lookupMapping, type SourceMapping } from '../generator/source-map';
+import type { Program, SourcePosition } from '../parser/ast';
+
+/**
+ * Stable runtime error codes. As with the parser's `DiagnosticCode`,
+ * the code is the contract — messages may be reworded between
+ * releases, codes may not.
+ *
+ * - `PINE9xxx` — errors raised while a script runs
+ */
+export const RuntimeErrorCode = {
+  ScriptError: 'PINE9000',
+  RuntimeError: 'PINE9001',
+  /** An `array.*` index outside the array, or `pop()` on an empty one. */
+  IndexOutOfBounds: 'PINE9002',
+  LoopLimitExceeded: 'PINE9003',
+  StackOverflow: 'PINE9004',
+} as const;
+
+export type RuntimeErrorCodeValue =
+  (typeof RuntimeErrorCode)[keyof typeof RuntimeErrorCode];
+
+/**
+ * Property runtime helpers set on a thrown error to declare its
+ * {@link RuntimeErrorCode} (e.g. `runtime.error()` sets `PINE9001`).
+ * Errors without it are classified by shape.
+ */
+export const PINE_ERROR_CODE_PROPERTY = '__pineErrorCode' as const;
+
+/**
+ * One entry of a Pine call stack, innermost first. Lines and columns
+ * are 1-based Pine positions.
+ */
+export interface PineStackFrame {
+  /** User function the position is in; absent at the script's top level. */
+  function?: string;
+  line: number;
+  column: number;
+}
+
+export interface PineRuntimeErrorInit {
+  code: string;
+  /** What went wrong, without the location prefix. */
+  detail: string;
+  barIndex: number;
+  pineStack?: PineStackFrame[];
+  /** The error the compiled script originally threw. */
+  cause?: unknown;
+}
+
+/**
+ * A script failure located in Pine terms. The message reads
+ * `line 42, bar 1873: array index 5 out of bounds`; the location
+ * prefix is dropped when the failing position could not be mapped.
+ */
+export class PineRuntimeError extends Error {
+  public readonly code: string;
+  public readonly detail: string;
+  public readonly barIndex: number;
+  /** Pine line of the innermost frame, when it could be mapped. */
+  public readonly line?: number;
+  public readonly column?: number;
+  public readonly pineStack: PineStackFrame[];
+  public readonly cause?: unknown;
+
+  constructor(init: PineRuntimeErrorInit) {
+    const pineStack = init.pineStack ?? [];
+    const top = pineStack[0];
+    const where = top
+      ? `line ${top.line}, bar ${init.barIndex}`
+      : `bar ${init.barIndex}`;
+    super(`${where}: ${init.detail}`);
+    this.name = 'PineRuntimeError';
+    this.code = init.code;
+    this.detail = init.detail;
+    this.barIndex = init.barIndex;
+    this.line = top?.line;
+    this.column = top?.column;
+    this.pineStack = pineStack;
+    this.cause = init.cause;
+  }
+}
+
+/**
+ * True for a {@link PineRuntimeError} from either factory path. The
+ * standalone module defines its own class, so this checks the shape
+ * rather than `instanceof`.
+ */
+export function isPineRuntimeError(value: unknown): value is PineRuntimeError {
+  return (
+    value instanceof Error &&
+    value.name === 'PineRuntimeError' &&
+    typeof (value as { code?: unknown }).code === 'string' &&
+    typeof (value as { barIndex?: unknown }).barIndex === 'number'
+  );
+}
+
+/**
+ * Code and detail for an error thrown by compiled code: the
+ * {@link PINE_ERROR_CODE_PROPERTY} tag when present, otherwise the
+ * loop guard's message, engine stack overflows, and a generic
+ * `ScriptError` for everything else (keeping the JS error name, since
+ * `undefined is not a function` means little without it).
+ */
+export function classifyRuntimeError(error: unknown): {
+  code: string;
+  detail: string;
+} {
+  const message = error instanceof Error ? error.message : String(error);
+  const tagged =
+    typeof error === 'object' && error !== null
+      ? (error as Record<string, unknown>)[PINE_ERROR_CODE_PROPERTY]
+      : undefined;
+  if (typeof tagged === 'string') {
+    return { code: tagged, detail: message };
+  }
+  // Emitted by the statement generator's `for` / `while` guards.
+  if (message.startsWith('Loop limit exceeded')) {
+    return { code: RuntimeErrorCode.LoopLimitExceeded, detail: message };
+  }
+  if (error instanceof RangeError && /call stack/i.test(message)) {
+    return {
+      code: RuntimeErrorCode.StackOverflow,
+      detail: 'maximum call stack size exceeded',
+    };
+  }
+  return {
+    code: RuntimeErrorCode.ScriptError,
+    detail: error instanceof Error ? `${error.name}: ${message}` : message,
+  };
+}
+
+// ============================================================================
+// Stack resolution
+// ============================================================================
+
+/**
+ * Where the compiled script lives, as seen from its own stack frames.
+ */
+export interface ScriptLocations {
+  /** File name frames in the compiled script report (its `sourceURL`). */
+  file: string;
+  /** Mappings against the lines and columns those frames report. */
+  mappings: SourceMapping[];
+  /** Generated function name → Pine name, for user-declared functions. */
+  functions: ReadonlyMap<string, string>;
+}
+
+interface StackFrameLocation {
+  name: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+// `    at name (file:line:col)` / `    at file:line:col` (V8, JSC in Bun)
+const V8_FRAME = /^\s*at (?:(.*?) \()?(.*):(\d+):(\d+)\)?$/;
+// `name@file:line:col` (SpiderMonkey, Safari)
+const GECKO_FRAME = /^(.*?)@(.*):(\d+):(\d+)$/;
+
+function parseStackFrames(stack: string): StackFrameLocation[] {
+  const frames: StackFrameLocation[] = [];
+  for (const text of stack.split('\n')) {
+    const match = V8_FRAME.exec(text) ?? GECKO_FRAME.exec(text);
+    if (!match) continue;
+    frames.push({
+      name: match[1] ?? '',
+      file: match[2],
+      line: Number(match[3]),
+      column: Number(match[4]),
+    });
+  }
+  return frames;
+}
+
+/**
+ * Map a JS stack trace to a Pine call stack, innermost first. Frames
+ * outside the compiled script, or in the unmapped preamble, are
+ * skipped. Anonymous frames (IIFEs the generator emits for block
+ * expressions) fold into the user function enclosing them, keeping
+ * the innermost position; whatever is left over when the trace
+ * leaves the script is the top-level frame.
+ */
+export function resolvePineStack(
+  stack: string,
+  locations: ScriptLocations,
+): PineStackFrame[] {
+  const pineStack: PineStackFrame[] = [];
+  let pending: SourcePosition | null = null;
+  for (const frame of parseStackFrames(stack)) {
+    if (frame.file !== locations.file) continue;
+    const position = lookupMapping(locations.mappings, frame);
+    if (!position) continue;
+    if (!pending) pending = position;
+    const pineName = locations.functions.get(frame.name);
+    if (pineName !== undefined) {
+      pineStack.push({ function: pineName, ...pending });
+      pending = null;
+    }
+  }
+  if (pending) pineStack.push({ ...pending });
+  return pineStack;
+}
+
+/**
+ * Wrap whatever the compiled script threw on `barIndex`. Already
+ * wrapped errors pass through; without `locations` the error carries
+ * a code and bar index but no Pine position.
+ */
+export function toPineRuntimeError(
+  error: unknown,
+  barIndex: number,
+  locations?: ScriptLocations,
+): PineRuntimeError {
+  if (error instanceof PineRuntimeError) return error;
+  const { code, detail } = classifyRuntimeError(error);
+  const stack = error instanceof Error ? error.stack : undefined;
+  return new PineRuntimeError({
+    code,
+    detail,
+    barIndex,
+    pineStack: stack && locations ? resolvePineStack(stack, locations) : [],
+    cause: error,
+  });
+}
+
+/**
+ * Generated → Pine names of the functions a program declares. The
+ * statement generator emits each as `function <sanitized name>`, which
+ * is the name engines report in stack frames.
+ */
+export function collectScriptFunctionNames(
+  program: Program | undefined,
+): Map<string, string> {
+  const names = new Map<string, string>();
+  for (const stmt of program?.body ?? []) {
+    if (stmt.type === 'FunctionDeclaration') {
+      names.set(sanitizeIdentifier(stmt.id.name), stmt.id.name);
+    }
+  }
+  return names;
+}
+
+/**
+ * `runtime.error(message)`: throw an error tagged so the factory
+ * reports it as {@link RuntimeErrorCode.RuntimeError}.
+ */
+export function raiseScriptRuntimeError(message: unknown): never {
+  const error = new Error(String(message));
+  Object.defineProperty(error, PINE_ERROR_CODE_PROPERTY, {
+    value: RuntimeErrorCode.RuntimeError,
+    enumerable: false,
+  });
+  throw error;
+}
@@ -0,0 +1,189 @@
+/**
+ * Security Runtime
+ *
+ * `request.security()` on another symbol, over bars the host supplies
+ * through a `SecurityDataProvider`. The generated code passes an
+ * evaluator alongside the expression: the same expression, taking the
+ * context and the price series it reads as parameters. Each call site
+ * runs it once per bar of the requested symbol, in a context of its
+ * own so `ta.*` state never mixes with the chart's, and merges the
+ * results onto chart bars as `barmerge.gaps_*` and
+ * `barmerge.lookahead_*` ask.
+ */
+
+import type { RuntimeContext, SecurityBar } from '../types';
+
+/** Runs a requested expression on one bar of the requested symbol. */
+export type SecurityEvaluator = (
+  context: RuntimeContext,
+  sources: Record<string, unknown>,
+) => unknown;
+
+export interface SecurityMerge {
+  gaps: boolean;
+  lookahead: boolean;
+}
+
+export interface SecurityRequestOptions {
+  /** The chart's context, which the request's own context extends. */
+  context: RuntimeContext;
+  symbol: string;
+  timeframe: string;
+  merge: SecurityMerge;
+}
+
+export interface SecurityRequest {
+  /**
+   * The value for the chart bar open from `time` to `closeTime`, given
+   * the requested symbol's bars so far. `evaluate` is the current chart
+   * bar's evaluator, so script variables it reads hold their values on
+   * this bar. `na` stands in before the first bar of the symbol is
+   * available and, with gaps, on chart bars that bring no new one.
+   */
+  read(
+    evaluate: SecurityEvaluator,
+    bars: readonly SecurityBar[],
+    time: number,
+    closeTime: number,
+    na: unknown,
+  ): unknown;
+}
+
+/** The built-in series an evaluator takes in place of the chart's. */
+const PRICE_FIELDS: Record<string, (bar: SecurityBar) => number> = {
+  open: (bar) => bar.open,
+  high: (bar) => bar.high,
+  low: (bar) => bar.low,
+  close: (bar) => bar.close,
+  volume: (bar) => bar.volume,
+  hl2: (bar) => (bar.high + bar.low) / 2,
+  hlc3: (bar) => (bar.high + bar.low + bar.close) / 3,
+  ohlc4: (bar) => (bar.open + bar.high + bar.low + bar.close) / 4,
+  hlcc4: (bar) => (bar.high + bar.low + 2 * bar.close) / 4,
+  time: (bar) => bar.time,
+};
+
+const UNIT_MS: Record<string, number> = {
+  '': 60_000,
+  S: 1000,
+  H: 3_600_000,
+  D: 86_400_000,
+  W: 604_800_000,
+  M: 31 * 86_400_000,
+  Y: 366 * 86_400_000,
+};
+
+/**
+ * The longest a bar of `timeframe` lasts: calendar units take their
+ * longest month or year. `Infinity` when the timeframe is unreadable.
+ */
+function timeframeSpan(timeframe: string): number {
+  const match = /^(\d*)([SHDWMY]?)$/i.exec(timeframe.trim());
+  if (!match || !(match[1] || match[2])) return Number.POSITIVE_INFINITY;
+  const amount = Number(match[1] || 1);
+  return amount > 0
+    ? amount * (UNIT_MS[match[2].toUpperCase()] ?? 60_000)
+    : Number.POSITIVE_INFINITY;
+}
+
+/** A context whose `new_var` slots belong to one request. */
+function createRequestContext(base: RuntimeContext, symbol: string) {
+  const slots: unknown[][] = [];
+  let pointer = 0;
+  const context = Object.create(base) as RuntimeContext;
+  context.symbol = { ...base.symbol, tickerid: symbol };
+  context.new_var = (value: unknown) => {
+    slots[pointer] ??= [];
+    const history = slots[pointer++] as unknown[];
+    history.push(value);
+    return {
+      get: (offset: number) =>
+        Number.isInteger(offset) && offset >= 0 && offset < history.length
+          ? history[history.length - 1 - offset]
+          : Number.NaN,
+      set: (next: unknown) => {
+        history[history.length - 1] = next;
+      },
+    };
+  };
+  return {
+    context,
+    beginBar(index: number) {
+      pointer = 0;
+      context.barIndex = index;
+    },
+  };
+}
+
+/** The price series of `bars` as seen from bar `index`. */
+function sourcesAt(
+  bars: readonly SecurityBar[],
+  index: number,
+): Record<string, unknown> {
+  const sources: Record<string, unknown> = { bar_index: index };
+  for (const [name, read] of Object.entries(PRICE_FIELDS)) {
+    const at = (offset: number): number => {
+      const bar =
+        Number.isInteger(offset) && offset >= 0 ? bars[index - offset] : null;
+      return bar ? Number(read(bar)) : Number.NaN;
+    };
+    sources[name] = at(0);
+    sources[`_series_${name}`] = { get: at, set: () => undefined };
+    sources[`_getHistorical_${name}`] = at;
+  }
+  return sources;
+}
+
+/**
+ * One `request.security()` call site on another symbol.
+ *
+ * With `lookahead_off` a chart bar sees the last bar of the symbol that
+ * closed by the time the chart bar closes; with `lookahead_on`, the bar
+ * open at the chart bar's open, whose close is not yet due. A bar
+ * closes at the earlier of the next bar's open and its timeframe's
+ * span. Each bar is evaluated once, the first time a chart bar reaches
+ * it.
+ */
+export function createSecurityRequest(
+  options: SecurityRequestOptions,
+): SecurityRequest {
+  const { merge } = options;
+  const span = timeframeSpan(options.timeframe);
+  const requestContext = createRequestContext(options.context, options.symbol);
+  const values: unknown[] = [];
+  let selected = -1;
+  let shownIndex = -1;
+  let shownAt = Number.NaN;
+
+  const closeOf = (bars: readonly SecurityBar[], index: number): number =>
+    Math.min(
+      bars[index + 1]?.time ?? Number.POSITIVE_INFINITY,
+      bars[index].time + span,
+    );
+
+  return {
+    read(evaluate, bars, time, closeTime, na) {
+      while (
+        selected + 1 < bars.length &&
+        (merge.lookahead
+          ? bars[selected + 1].time <= time
+          : closeOf(bars, selected + 1) <= closeTime)
+      ) {
+        selected++;
+      }
+      while (values.length <= selected) {
+        requestContext.beginBar(values.length);
+        values.push(
+          evaluate(requestContext.context, sourcesAt(bars, values.length)),
+        );
+      }
+      if (selected !== shownIndex) {
+        shownIndex = selected;
+        shownAt = time;
+      }
+      if (selected < 0 || (merge.gaps && shownAt !== time)) return na;
+      const value = values[selected];
+      return Array.isArray(value) ? [...value] : value;
+    },
+  };
+}
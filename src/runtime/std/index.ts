@@ -0,0 +1,311 @@
+/**
+ * Reference Std Library
+ *
+ * A self-contained implementation of the Host's `PineJS.Std` library,
+ * so transpiled factories run without a charting host: headless runs,
+ * CI and server-side evaluation.
+ *
+ * Std functions take the runtime context as their last argument; the
+ * modules here take it first, along with the bar feed where they read
+ * prices. {@link createStd} adapts one calling convention to the other.
+ * Plotting is left to the caller: the library computes values only.
+ */
+
+import type { PineJSStdLibrary, RuntimeContext } from '../../types';
+import * as momentum from './momentum';
+import * as averages from './moving-averages';
+import { type StdBar, type StdBarFeed, seriesOf, toNumber } from './series';
+import * as statistics from './statistics';
+import * as time from './time';
+import * as trend from './trend';
+import * as volatility from './volatility';
+import * as volume from './volume';
+
+export type { StdBar, StdBarFeed } from './series';
+export { type StdTimeframe, timeframeOf } from './time';
+
+/** Tolerance of the epsilon comparisons (`greater`, `equal`…). */
+const EPSILON = 1e-10;
+
+function isContext(value: unknown): value is RuntimeContext {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RuntimeContext).new_var === 'function'
+  );
+}
+
+/** The trailing context, if any, and the arguments before it. */
+function split(args: unknown[]): {
+  ctx: RuntimeContext | undefined;
+  rest: unknown[];
+} {
+  const last = args[args.length - 1];
+  return isContext(last)
+    ? { ctx: last, rest: args.slice(0, -1) }
+    : { ctx: undefined, rest: args };
+}
+
+function requireContext(name: string, args: unknown[]): RuntimeContext {
+  const { ctx } = split(args);
+  if (!ctx) {
+    throw new TypeError(`Std.${name}: the context must be the last argument`);
+  }
+  return ctx;
+}
+
+/**
+ * A window function over a series. A plain first argument is recorded
+ * as a series of its own when there is a context to hold it.
+ */
+function overSeries<A extends unknown[], R>(
+  fn: (series: unknown, ...args: A) => R,
+): (...args: unknown[]) => R {
+  return (...args) => {
+    const { ctx, rest } = split(args);
+    const [source, ...more] = rest;
+    const series = ctx ? seriesOf(ctx, source) : source;
+    return fn(series, ...(more as A));
+  };
+}
+
+/** A stateful function that takes the context first. */
+function withContext<A extends unknown[], R>(
+  name: string,
+  fn: (ctx: RuntimeContext, ...args: A) => R,
+): (...args: unknown[]) => R {
+  return (...args) =>
+    fn(requireContext(name, args), ...(split(args).rest as A));
+}
+
+function toBool(value: unknown): boolean {
+  const n = toNumber(value);
+  return !Number.isNaN(n) && n !== 0;
+}
+
+function numbers(values: unknown[]): number[] {
+  return values.map(toNumber);
+}
+
+/**
+ * Create a `Std` library that reads prices from `feed`.
+ *
+ * Stateful functions keep their state in `context.new_var` slots, so
+ * each call site must run on every bar, as the Host requires.
+ */
+export function createStd(feed: StdBarFeed): PineJSStdLibrary {
+  const price = (read: (bar: StdBar) => number) => (): number => {
+    const bar = feed.bar();
+    return bar ? read(bar) : Number.NaN;
+  };
+  const withFeed =
+    <A extends unknown[], R>(
+      name: string,
+      fn: (ctx: RuntimeContext, feed: StdBarFeed, ...args: A) => R,
+    ) =>
+    (...args: unknown[]): R =>
+      fn(requireContext(name, args), feed, ...(split(args).rest as A));
+  const timeOf = (value: unknown): number =>
+    isContext(value) ? time.time(feed) : toNumber(value);
+  const calendar =
+    (read: (time: number, timezone?: unknown) => number) =>
+    (value: unknown, timezone?: unknown): number =>
+      read(timeOf(value), isContext(timezone) ? undefined : timezone);
+  const timeframe = () => time.timeframeOf(feed.barDuration());
+
+  const pivot =
+    (name: string, find: typeof trend.pivothigh) =>
+    (...args: unknown[]): number => {
+      const ctx = requireContext(name, args);
+      const { rest } = split(args);
+      // The two-argument form reads the high (or low) of each bar.
+      if (rest.length === 2) {
+        const bar = feed.bar();
+        const source =
+          name === 'pivothigh' ? toNumber(bar?.high) : toNumber(bar?.low);
+        return find(ctx, source, rest[0], rest[1]);
+      }
+      return find(ctx, rest[0], rest[1], rest[2]);
+    };
+
+  const library: PineJSStdLibrary = {
+    // Price data
+    close: price((bar) => bar.close),
+    open: price((bar) => bar.open),
+    high: price((bar) => bar.high),
+    low: price((bar) => bar.low),
+    volume: price((bar) => bar.volume),
+    hl2: price((bar) => (bar.high + bar.low) / 2),
+    hlc3: price((bar) => (bar.high + bar.low + bar.close) / 3),
+    ohlc4: price((bar) => (bar.open + bar.high + bar.low + bar.close) / 4),
+    hlcc4: price((bar) => (bar.high + bar.low + 2 * bar.close) / 4),
+
+    // Moving averages
+    sma: overSeries(averages.sma),
+    ema: withContext('ema', averages.ema),
+    rma: withContext('rma', averages.rma),
+    smma: withContext('smma', averages.rma),
+    wma: overSeries(averages.wma),
+    vwma: (...args: unknown[]) =>
+      averages.vwma(
+        requireContext('vwma', args),
+        args[0],
+        args[1],
+        toNumber(feed.bar()?.volume),
+      ),
+    swma: overSeries(averages.swma),
+    alma: overSeries(averages.alma),
+    linreg: overSeries(averages.linreg),
+
+    // Momentum
+    rsi: withContext('rsi', momentum.rsi),
+    macd: withContext('macd', momentum.macd),
+    stoch: withContext('stoch', momentum.stoch),
+    cci: withContext('cci', momentum.cci),
+    mfi: withFeed('mfi', momentum.mfi),
+    roc: overSeries(momentum.roc),
+    mom: overSeries(momentum.mom),
+    change: overSeries(momentum.change),
+    tsi: withContext('tsi', momentum.tsi),
+
+    // Volatility
+    tr: (...args: unknown[]) =>
+      volatility.tr(feed, toBool(split(args).rest[0])),
+    atr: withFeed('atr', volatility.atr),
+    stdev: overSeries(volatility.stdev),
+    variance: overSeries(volatility.variance),
+    dev: overSeries(volatility.dev),
+    bb: withContext('bb', volatility.bb),
+    bbw: withContext('bbw', volatility.bbw),
+    kc: withFeed('kc', volatility.kc),
+    kcw: withFeed('kcw', volatility.kcw),
+    donchian: withFeed('donchian', volatility.donchian),
+
+    // Trend
+    dmi: withFeed('dmi', trend.dmi),
+    adx: withFeed('adx', trend.adx),
+    supertrend: withFeed('supertrend', trend.supertrend),
+    sar: withFeed('sar', trend.sar),
+    pivothigh: pivot('pivothigh', trend.pivothigh),
+    pivotlow: pivot('pivotlow', trend.pivotlow),
+
+    // Crosses
+    cross: withContext('cross', statistics.cross),
+    crossover: withContext('crossover', statistics.crossover),
+    crossunder: withContext('crossunder', statistics.crossunder),
+    rising: overSeries(statistics.rising),
+    falling: overSeries(statistics.falling),
+
+    // Volume
+    obv: withFeed('obv', volume.obv),
+    accdist: withFeed('accdist', volume.accdist),
+    vwap: withFeed('vwap', volume.vwap),
+
+    // Utilities and statistics
+    na: (value: unknown) => Number.isNaN(toNumber(value)),
+    nz: (value: unknown, replacement?: unknown) => {
+      const n = toNumber(value);
+      if (!Number.isNaN(n)) return n;
+      return isContext(replacement) || replacement === undefined
+        ? 0
+        : toNumber(replacement);
+    },
+    fixnan: (...args: unknown[]) => {
+      const { ctx, rest } = split(args);
+      return ctx ? statistics.fixnan(ctx, rest[0]) : toNumber(rest[0]);
+    },
+    cum: withContext('cum', statistics.cum),
+    sum: overSeries(averages.sum),
+    percentrank: overSeries(statistics.percentrank),
+    highest: overSeries(statistics.highest),
+    lowest: overSeries(statistics.lowest),
+    highestbars: overSeries(statistics.highestbars),
+    lowestbars: overSeries(statistics.lowestbars),
+    median: overSeries(statistics.median),
+    mode: overSeries(statistics.mode),
+    correlation: withContext('correlation', statistics.correlation),
+    cov: withContext('cov', statistics.cov),
+    valuewhen: withContext('valuewhen', statistics.valuewhen),
+    barssince: withContext('barssince', statistics.barssince),
+
+    // Time
+    time: () => time.time(feed),
+    time_close: () => time.time_close(feed),
+    n: () => feed.index(),
+    year: calendar(time.year),
+    month: calendar(time.month),
+    weekofyear: calendar(time.weekofyear),
+    dayofmonth: calendar(time.dayofmonth),
+    dayofweek: calendar(time.dayofweek),
+    hour: calendar(time.hour),
+    minute: calendar(time.minute),
+    second: calendar(time.second),
+    period: () => timeframe().period,
+    interval: () => timeframe().interval,
+    isdwm: () => ['D', 'W', 'M'].includes(timeframe().unit),
+    isintraday: () => !['D', 'W', 'M'].includes(timeframe().unit),
+    isdaily: () => timeframe().unit === 'D',
+    isweekly: () => timeframe().unit === 'W',
+    ismonthly: () => timeframe().unit === 'M',
+
+    // Symbol
+    tickerid: (ctx: RuntimeContext) => ctx.symbol.tickerid,
+    ticker: (ctx: RuntimeContext) => {
+      const id = ctx.symbol.tickerid;
+      return id.slice(id.indexOf(':') + 1);
+    },
+    currencyCode: (ctx: RuntimeContext) => ctx.symbol.currency ?? '',
+
+    // Math
+    abs: (value: unknown) => Math.abs(toNumber(value)),
+    ceil: (value: unknown) => Math.ceil(toNumber(value)),
+    floor: (value: unknown) => Math.floor(toNumber(value)),
+    round: (value: unknown, precision?: unknown) => {
+      const digits = isContext(precision) ? 0 : toNumber(precision ?? 0);
+      const scale = 10 ** (Number.isNaN(digits) ? 0 : digits);
+      return Math.round(toNumber(value) * scale) / scale;
+    },
+    max: (...values: unknown[]) => Math.max(...numbers(split(values).rest)),
+    min: (...values: unknown[]) => Math.min(...numbers(split(values).rest)),
+    avg: (...values: unknown[]) => {
+      const xs = numbers(split(values).rest);
+      return xs.reduce((a, b) => a + b, 0) / xs.length;
+    },
+    pow: (base: unknown, exponent: unknown) =>
+      toNumber(base) ** toNumber(exponent),
+    sqrt: (value: unknown) => Math.sqrt(toNumber(value)),
+    exp: (value: unknown) => Math.exp(toNumber(value)),
+    log: (value: unknown) => Math.log(toNumber(value)),
+    log10: (value: unknown) => Math.log10(toNumber(value)),
+    sin: (value: unknown) => Math.sin(toNumber(value)),
+    cos: (value: unknown) => Math.cos(toNumber(value)),
+    tan: (value: unknown) => Math.tan(toNumber(value)),
+    sign: (value: unknown) => Math.sign(toNumber(value)),
+
+    // Comparisons: the short forms return 1 or 0
+    gt: (a: unknown, b: unknown) => Number(toNumber(a) > toNumber(b)),
+    lt: (a: unknown, b: unknown) => Number(toNumber(a) < toNumber(b)),
+    ge: (a: unknown, b: unknown) => Number(toNumber(a) >= toNumber(b)),
+    le: (a: unknown, b: unknown) => Number(toNumber(a) <= toNumber(b)),
+    eq: (a: unknown, b: unknown) => Number(toNumber(a) === toNumber(b)),
+    neq: (a: unknown, b: unknown) => Number(toNumber(a) !== toNumber(b)),
+    eps: () => EPSILON,
+    isZero: (value: unknown) => Math.abs(toNumber(value)) < EPSILON,
+    greater: (a: unknown, b: unknown) => toNumber(a) - toNumber(b) > EPSILON,
+    less: (a: unknown, b: unknown) => toNumber(b) - toNumber(a) > EPSILON,
+    equal: (a: unknown, b: unknown) =>
+      Math.abs(toNumber(a) - toNumber(b)) < EPSILON,
+    greaterOrEqual: (a: unknown, b: unknown) =>
+      toNumber(a) - toNumber(b) > -EPSILON,
+    lessOrEqual: (a: unknown, b: unknown) =>
+      toNumber(b) - toNumber(a) > -EPSILON,
+    compare: (a: unknown, b: unknown) => {
+      const d = toNumber(a) - toNumber(b);
+      return Math.abs(d) < EPSILON ? 0 : Math.sign(d);
+    },
+    iff: (condition: unknown, then: unknown, otherwise: unknown) =>
+      toBool(condition) ? then : otherwise,
+    toBool,
+  };
+  return library;
+}
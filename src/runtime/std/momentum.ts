@@ -0,0 +1,113 @@
+/**
+ * Momentum Oscillators
+ *
+ * RSI, MACD, stochastics and the other oscillators built on price
+ * changes. Each follows the Pine reference formula, including which
+ * bars are `na` while the underlying averages warm up.
+ */
+
+import type { RuntimeContext } from '../../types';
+import { ema, rma, sma, sum } from './moving-averages';
+import { type StdBarFeed, seriesOf, toNumber, valueAt } from './series';
+import { highest, lowest } from './statistics';
+import { dev } from './volatility';
+
+/** `source - source[length]`; `length` defaults to 1. */
+export function change(series: unknown, length: unknown = 1): number {
+  const n = Math.trunc(toNumber(length));
+  return valueAt(series, 0) - valueAt(series, n);
+}
+
+export function mom(series: unknown, length: unknown): number {
+  return change(series, length);
+}
+
+export function roc(series: unknown, length: unknown): number {
+  const previous = valueAt(series, Math.trunc(toNumber(length)));
+  return (100 * (valueAt(series, 0) - previous)) / previous;
+}
+
+export function rsi(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+): number {
+  const series = seriesOf(ctx, source);
+  const delta = change(series);
+  const up = rma(ctx, Math.max(delta, 0), length);
+  const down = rma(ctx, Math.max(-delta, 0), length);
+  if (down === 0) return 100;
+  if (up === 0) return 0;
+  return 100 - 100 / (1 + up / down);
+}
+
+/** `[macd, signal, histogram]`. */
+export function macd(
+  ctx: RuntimeContext,
+  source: unknown,
+  fast: unknown,
+  slow: unknown,
+  signal: unknown,
+): [number, number, number] {
+  const line = ema(ctx, source, fast) - ema(ctx, source, slow);
+  const signalLine = ema(ctx, line, signal);
+  return [line, signalLine, line - signalLine];
+}
+
+/** `100 * (source - lowest(low)) / (highest(high) - lowest(low))`. */
+export function stoch(
+  ctx: RuntimeContext,
+  source: unknown,
+  high: unknown,
+  low: unknown,
+  length: unknown,
+): number {
+  const highs = seriesOf(ctx, high);
+  const lows = seriesOf(ctx, low);
+  const hh = highest(highs, length);
+  const ll = lowest(lows, length);
+  if (hh === ll) return Number.NaN;
+  return (100 * (toNumber(source) - ll)) / (hh - ll);
+}
+
+export function cci(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+): number {
+  const series = seriesOf(ctx, source);
+  return (
+    (valueAt(series, 0) - sma(series, length)) / (0.015 * dev(series, length))
+  );
+}
+
+/** Money flow index of `source`, weighted by the feed's volume. */
+export function mfi(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  source: unknown,
+  length: unknown,
+): number {
+  const series = seriesOf(ctx, source);
+  const flow = toNumber(feed.bar()?.volume) * valueAt(series, 0);
+  const delta = change(series);
+  // A comparison with `na` is false, so the first bar counts both ways.
+  const upper = ctx.new_var(delta <= 0 ? 0 : flow);
+  const lower = ctx.new_var(delta >= 0 ? 0 : flow);
+  const up = sum(upper, length);
+  const down = sum(lower, length);
+  return 100 - 100 / (1 + up / down);
+}
+
+/** True strength index, between -1 and 1. */
+export function tsi(
+  ctx: RuntimeContext,
+  source: unknown,
+  short: unknown,
+  long: unknown,
+): number {
+  const delta = change(seriesOf(ctx, source));
+  const smoothed = ema(ctx, ema(ctx, delta, long), short);
+  const absolute = ema(ctx, ema(ctx, Math.abs(delta), long), short);
+  return smoothed / absolute;
+}
@@ -0,0 +1,151 @@
+/**
+ * Moving Averages
+ *
+ * Window averages read the last `length` values of their source and
+ * are `na` until the window is full or while it holds an `na`. The
+ * recursive ones (`ema`, `rma`) start from the SMA of their first
+ * full window and carry their value over bars where the source is
+ * `na`.
+ */
+
+import type { RuntimeContext } from '../../types';
+import {
+  meanOf,
+  type StdSeries,
+  seriesOf,
+  stateOf,
+  sumOf,
+  toLength,
+  valueAt,
+  windowOf,
+} from './series';
+
+export function sma(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  return values ? meanOf(values) : Number.NaN;
+}
+
+export function sum(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  return values ? sumOf(values) : Number.NaN;
+}
+
+/** Exponential smoothing with weight `alpha`, seeded with an SMA. */
+function smooth(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: number,
+  alpha: number,
+): number {
+  const series = seriesOf(ctx, source);
+  const state = stateOf(ctx);
+  const x = valueAt(series, 0);
+  if (Number.isNaN(x) || Number.isNaN(length)) return Number.NaN;
+  const value = Number.isNaN(state.previous)
+    ? sma(series, length)
+    : alpha * x + (1 - alpha) * state.previous;
+  state.set(value);
+  return value;
+}
+
+export function ema(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+): number {
+  const n = toLength(length);
+  return smooth(ctx, source, n, 2 / (n + 1));
+}
+
+/** Wilder's moving average, as used by RSI and ATR. */
+export function rma(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+): number {
+  const n = toLength(length);
+  return smooth(ctx, source, n, 1 / n);
+}
+
+export function wma(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  let total = 0;
+  let weights = 0;
+  values.forEach((v, i) => {
+    const weight = values.length - i;
+    total += v * weight;
+    weights += weight;
+  });
+  return total / weights;
+}
+
+export function vwma(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+  volume: number,
+): number {
+  const weighted = ctx.new_var(valueAt(source, 0) * volume) as StdSeries;
+  const volumes = ctx.new_var(volume) as StdSeries;
+  return sma(weighted, length) / sma(volumes, length);
+}
+
+/** Symmetrically weighted over four bars: 1/6, 2/6, 2/6, 1/6. */
+export function swma(series: unknown): number {
+  const values = windowOf(series, 4);
+  if (!values) return Number.NaN;
+  return (values[0] + 2 * values[1] + 2 * values[2] + values[3]) / 6;
+}
+
+/** Arnaud Legoux: Gaussian weights centred at `offset` of the window. */
+export function alma(
+  series: unknown,
+  length: unknown,
+  offset: unknown,
+  sigma: unknown,
+): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const n = values.length;
+  const m = Number(offset) * (n - 1);
+  const s = n / Number(sigma);
+  let total = 0;
+  let weights = 0;
+  for (let i = 0; i < n; i++) {
+    const weight = Math.exp(-((i - m) ** 2) / (2 * s * s));
+    total += values[n - 1 - i] * weight;
+    weights += weight;
+  }
+  return total / weights;
+}
+
+/**
+ * The least-squares line through the window, evaluated `offset` bars
+ * back from its newest point.
+ */
+export function linreg(
+  series: unknown,
+  length: unknown,
+  offset: unknown,
+): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const n = values.length;
+  // x runs 0..n-1 from the oldest value to the newest.
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  for (let x = 0; x < n; x++) {
+    const y = values[n - 1 - x];
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+  }
+  const denominator = n * sumXX - sumX * sumX;
+  const slope = denominator === 0 ? 0 : (n * sumXY - sumX * sumY) / denominator;
+  const intercept = (sumY - slope * sumX) / n;
+  return intercept + slope * (n - 1 - Number(offset));
+}
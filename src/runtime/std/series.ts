@@ -0,0 +1,122 @@
+/**
+ * Series Access
+ *
+ * Reading values out of the series objects transpiled code passes to
+ * `Std`, and keeping per-call-site state with `context.new_var`.
+ *
+ * A call site allocates the same `new_var` slots in the same order on
+ * every bar, so a function that needs history or state asks for them
+ * with {@link seriesOf} and {@link stateOf} unconditionally, before any
+ * early return.
+ */
+
+import type { RuntimeContext } from '../../types';
+
+/** The series shape `context.new_var` returns. */
+export interface StdSeries {
+  get(offset: number): unknown;
+  set(value: unknown): void;
+}
+
+/** A bar as the reference `Std` reads it. */
+export interface StdBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Where the reference `Std` reads prices from: the bar `offset` bars
+ * back from the one being executed (0 is the current bar), or
+ * `undefined` before the first bar.
+ */
+export interface StdBarFeed {
+  bar(offset?: number): StdBar | undefined;
+  /** Zero-based position of the current bar. */
+  index(): number;
+  /** Length of one bar in milliseconds, which sets the timeframe. */
+  barDuration(): number;
+}
+
+export function isSeries(value: unknown): value is StdSeries {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as StdSeries).get === 'function'
+  );
+}
+
+/** A number for `value`: `NaN` for `na`, 1/0 for booleans. */
+export function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isSeries(value)) return toNumber(value.get(0));
+  if (value === null || value === undefined) return Number.NaN;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : Number.NaN;
+}
+
+/** `series[offset]`; a plain value only has offset 0. */
+export function valueAt(series: unknown, offset: number): number {
+  if (isSeries(series)) return toNumber(series.get(offset));
+  return offset === 0 ? toNumber(series) : Number.NaN;
+}
+
+/** A whole, positive length, or `NaN`. */
+export function toLength(value: unknown): number {
+  const n = Math.trunc(toNumber(value));
+  return n >= 1 ? n : Number.NaN;
+}
+
+/**
+ * `source` as a series with history. Transpiled code passes plain
+ * values for some arguments; those are recorded in a `new_var` of
+ * their own.
+ */
+export function seriesOf(ctx: RuntimeContext, source: unknown): StdSeries {
+  return isSeries(source)
+    ? source
+    : (ctx.new_var(toNumber(source)) as StdSeries);
+}
+
+/** A state slot whose value is carried over from the previous bar. */
+export function stateOf(ctx: RuntimeContext): {
+  previous: number;
+  set(value: number): void;
+} {
+  const slot = ctx.new_var(Number.NaN) as StdSeries;
+  const previous = toNumber(slot.get(1));
+  slot.set(previous);
+  return { previous, set: (value) => slot.set(value) };
+}
+
+/**
+ * The last `length` values of `series`, newest first, or `undefined`
+ * when the window is not full or holds an `na`.
+ */
+export function windowOf(
+  series: unknown,
+  length: number,
+): number[] | undefined {
+  if (!(length >= 1)) return undefined;
+  const values: number[] = [];
+  for (let i = 0; i < length; i++) {
+    const v = valueAt(series, i);
+    if (Number.isNaN(v)) return undefined;
+    values.push(v);
+  }
+  return values;
+}
+
+export function sumOf(values: number[]): number {
+  let total = 0;
+  for (const v of values) total += v;
+  return total;
+}
+
+export function meanOf(values: number[]): number {
+  return sumOf(values) / values.length;
+}
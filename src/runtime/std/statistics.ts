@@ -0,0 +1,232 @@
+/**
+ * Statistics and Conditions
+ *
+ * Window extremes and statistics, cross detection and the functions
+ * that look back for a condition. Plain values passed where a series
+ * is expected are recorded with {@link seriesOf} so they gain history.
+ */
+
+import type { RuntimeContext } from '../../types';
+import {
+  meanOf,
+  type StdSeries,
+  seriesOf,
+  stateOf,
+  toLength,
+  toNumber,
+  valueAt,
+  windowOf,
+} from './series';
+
+export function highest(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  return values ? Math.max(...values) : Number.NaN;
+}
+
+export function lowest(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  return values ? Math.min(...values) : Number.NaN;
+}
+
+/** Offset to the newest highest value, as a negative number of bars. */
+export function highestbars(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  let best = 0;
+  values.forEach((v, i) => {
+    if (v > values[best]) best = i;
+  });
+  return -best;
+}
+
+/** Offset to the newest lowest value, as a negative number of bars. */
+export function lowestbars(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  let best = 0;
+  values.forEach((v, i) => {
+    if (v < values[best]) best = i;
+  });
+  return -best;
+}
+
+export function median(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/** The most frequent value; the smallest one on a tie. */
+export function mode(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let result = Number.NaN;
+  let most = 0;
+  for (const [v, count] of counts) {
+    if (count > most || (count === most && v < result)) {
+      result = v;
+      most = count;
+    }
+  }
+  return result;
+}
+
+/** Percentage of the previous `length` values at or below the current one. */
+export function percentrank(series: unknown, length: unknown): number {
+  const n = toLength(length);
+  const values = windowOf(series, n + 1);
+  if (!values) return Number.NaN;
+  let count = 0;
+  for (let i = 1; i <= n; i++) {
+    if (values[i] <= values[0]) count++;
+  }
+  return (100 * count) / n;
+}
+
+/** Population covariance of two series over `length` bars. */
+export function cov(
+  ctx: RuntimeContext,
+  source1: unknown,
+  source2: unknown,
+  length: unknown,
+): number {
+  const n = toLength(length);
+  const xs = windowOf(seriesOf(ctx, source1), n);
+  const ys = windowOf(seriesOf(ctx, source2), n);
+  if (!xs || !ys) return Number.NaN;
+  const meanX = meanOf(xs);
+  const meanY = meanOf(ys);
+  let total = 0;
+  for (let i = 0; i < n; i++) total += (xs[i] - meanX) * (ys[i] - meanY);
+  return total / n;
+}
+
+/** Pearson correlation of two series over `length` bars. */
+export function correlation(
+  ctx: RuntimeContext,
+  source1: unknown,
+  source2: unknown,
+  length: unknown,
+): number {
+  const n = toLength(length);
+  const xs = windowOf(seriesOf(ctx, source1), n);
+  const ys = windowOf(seriesOf(ctx, source2), n);
+  if (!xs || !ys) return Number.NaN;
+  const meanX = meanOf(xs);
+  const meanY = meanOf(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    sxx += (xs[i] - meanX) ** 2;
+    syy += (ys[i] - meanY) ** 2;
+  }
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+// ============================================================================
+// Crosses and Direction
+// ============================================================================
+
+/** `a` and `b` on the current and the previous bar. */
+function sides(ctx: RuntimeContext, a: unknown, b: unknown): number[] {
+  const x = seriesOf(ctx, a);
+  const y = seriesOf(ctx, b);
+  return [valueAt(x, 0), valueAt(y, 0), valueAt(x, 1), valueAt(y, 1)];
+}
+
+/** Whether `a` and `b` changed sides since the previous bar. */
+export function cross(ctx: RuntimeContext, a: unknown, b: unknown): boolean {
+  const [x, y, px, py] = sides(ctx, a, b);
+  return (x > y && px <= py) || (x < y && px >= py);
+}
+
+export function crossover(
+  ctx: RuntimeContext,
+  a: unknown,
+  b: unknown,
+): boolean {
+  const [x, y, px, py] = sides(ctx, a, b);
+  return x > y && px <= py;
+}
+
+export function crossunder(
+  ctx: RuntimeContext,
+  a: unknown,
+  b: unknown,
+): boolean {
+  const [x, y, px, py] = sides(ctx, a, b);
+  return x < y && px >= py;
+}
+
+/** Whether the current value is above each of the previous `length`. */
+export function rising(series: unknown, length: unknown): boolean {
+  const values = windowOf(series, toLength(length) + 1);
+  return !!values && values.slice(1).every((v) => values[0] > v);
+}
+
+/** Whether the current value is below each of the previous `length`. */
+export function falling(series: unknown, length: unknown): boolean {
+  const values = windowOf(series, toLength(length) + 1);
+  return !!values && values.slice(1).every((v) => values[0] < v);
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/** Bars since `condition` was last true; `na` until it first is. */
+export function barssince(ctx: RuntimeContext, condition: unknown): number {
+  const state = stateOf(ctx);
+  const value = toNumber(condition) ? 0 : state.previous + 1;
+  state.set(value);
+  return value;
+}
+
+/**
+ * `source` on the bar where `condition` was true for the
+ * `occurrence + 1`-th time counting back from the current bar.
+ */
+export function valuewhen(
+  ctx: RuntimeContext,
+  condition: unknown,
+  source: unknown,
+  occurrence: unknown,
+): number {
+  const sources = seriesOf(ctx, source);
+  // Each bar records the bars since the condition, so the walk back
+  // hops from one occurrence to the one before it.
+  const since = ctx.new_var(barssince(ctx, condition)) as StdSeries;
+  let offset = valueAt(since, 0);
+  for (let i = Math.trunc(toNumber(occurrence)); i > 0; i--) {
+    offset += 1 + valueAt(since, offset + 1);
+  }
+  return Number.isNaN(offset) ? Number.NaN : valueAt(sources, offset);
+}
+
+/** Running total, treating `na` as 0. */
+export function cum(ctx: RuntimeContext, source: unknown): number {
+  const state = stateOf(ctx);
+  const x = toNumber(source);
+  const value =
+    (Number.isNaN(state.previous) ? 0 : state.previous) +
+    (Number.isNaN(x) ? 0 : x);
+  state.set(value);
+  return value;
+}
+
+/** `source`, or its last non-`na` value. */
+export function fixnan(ctx: RuntimeContext, source: unknown): number {
+  const state = stateOf(ctx);
+  const x = toNumber(source);
+  if (Number.isNaN(x)) return state.previous;
+  state.set(x);
+  return x;
+}
@@ -0,0 +1,136 @@
+/**
+ * Time
+ *
+ * Calendar fields of a UNIX time in milliseconds, and the chart
+ * timeframe derived from the feed's bar duration.
+ *
+ * Calendar functions read UTC unless given a timezone: `UTC`/`GMT`
+ * with an optional `±hh[:mm]` offset, or an IANA name such as
+ * `America/New_York`. An unknown timezone reads as UTC.
+ */
+
+import type { StdBarFeed } from './series';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+const OFFSET_ZONE = /^(?:UTC|GMT)(?:([+-])(\d{1,2})(?::?(\d{2}))?)?$/i;
+
+/** Milliseconds `timezone` is ahead of UTC at `time`. */
+function zoneOffset(time: number, timezone: unknown): number {
+  if (typeof timezone !== 'string' || timezone === '') return 0;
+  const match = OFFSET_ZONE.exec(timezone.trim());
+  if (match) {
+    const sign = match[1] === '-' ? -1 : 1;
+    return (
+      sign * (Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0)) * MINUTE_MS
+    );
+  }
+  try {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    }).formatToParts(new Date(time));
+    const part = (type: string) =>
+      Number(parts.find((p) => p.type === type)?.value);
+    const local = Date.UTC(
+      part('year'),
+      part('month') - 1,
+      part('day'),
+      part('hour'),
+      part('minute'),
+      part('second'),
+    );
+    return local - Math.floor(time / 1000) * 1000;
+  } catch {
+    return 0;
+  }
+}
+
+/** `time` as a `Date` whose UTC fields are the wall clock in `timezone`. */
+function wallClock(time: number, timezone: unknown): Date | undefined {
+  if (!Number.isFinite(time)) return undefined;
+  return new Date(time + zoneOffset(time, timezone));
+}
+
+function field(
+  read: (date: Date) => number,
+): (time: number, timezone?: unknown) => number {
+  return (time, timezone) => {
+    const date = wallClock(time, timezone);
+    return date ? read(date) : Number.NaN;
+  };
+}
+
+export const year = field((d) => d.getUTCFullYear());
+export const month = field((d) => d.getUTCMonth() + 1);
+export const dayofmonth = field((d) => d.getUTCDate());
+/** 1 is Sunday, as in `dayofweek.sunday`. */
+export const dayofweek = field((d) => d.getUTCDay() + 1);
+export const hour = field((d) => d.getUTCHours());
+export const minute = field((d) => d.getUTCMinutes());
+export const second = field((d) => d.getUTCSeconds());
+
+/** ISO-8601 week number: weeks start on Monday, week 1 holds a Thursday. */
+export const weekofyear = field((d) => {
+  const day = (d.getUTCDay() + 6) % 7;
+  const thursday = Date.UTC(
+    d.getUTCFullYear(),
+    d.getUTCMonth(),
+    d.getUTCDate() - day + 3,
+  );
+  const firstThursday = new Date(thursday);
+  const yearStart = Date.UTC(firstThursday.getUTCFullYear(), 0, 1);
+  return Math.floor((thursday - yearStart) / (7 * DAY_MS)) + 1;
+});
+
+// ============================================================================
+// Timeframe
+// ============================================================================
+
+export interface StdTimeframe {
+  /** `'1S'`, `'5'`, `'60'`, `'D'`, `'3D'`, `'W'`, `'M'`… */
+  period: string;
+  /** The multiplier: 5 for `'5'`, 3 for `'3D'`. */
+  interval: number;
+  unit: 'S' | '' | 'D' | 'W' | 'M';
+}
+
+/** The timeframe whose bars last `duration` milliseconds. */
+export function timeframeOf(duration: number): StdTimeframe {
+  const units: Array<[StdTimeframe['unit'], number]> = [
+    ['M', 30 * DAY_MS],
+    ['W', 7 * DAY_MS],
+    ['D', DAY_MS],
+    ['', MINUTE_MS],
+  ];
+  for (const [unit, size] of units) {
+    // Months vary in length, so anything from four weeks counts as one.
+    if (duration >= (unit === 'M' ? 28 * DAY_MS : size)) {
+      const interval = Math.max(1, Math.round(duration / size));
+      const period =
+        unit === ''
+          ? String(interval)
+          : interval === 1
+            ? unit
+            : `${interval}${unit}`;
+      return { period, interval, unit };
+    }
+  }
+  const interval = Math.max(1, Math.round(duration / 1000));
+  return { period: `${interval}S`, interval, unit: 'S' };
+}
+
+export function time(feed: StdBarFeed): number {
+  return feed.bar()?.time ?? Number.NaN;
+}
+
+export function time_close(feed: StdBarFeed): number {
+  return time(feed) + feed.barDuration();
+}
@@ -0,0 +1,230 @@
+/**
+ * Trend
+ *
+ * Directional movement, Supertrend, parabolic SAR and pivot points,
+ * following the Pine reference implementations bar for bar.
+ */
+
+import type { RuntimeContext } from '../../types';
+import { rma } from './moving-averages';
+import {
+  type StdBarFeed,
+  type StdSeries,
+  seriesOf,
+  stateOf,
+  toLength,
+  toNumber,
+  valueAt,
+  windowOf,
+} from './series';
+import { fixnan } from './statistics';
+import { atr, tr } from './volatility';
+
+function nz(value: number): number {
+  return Number.isNaN(value) ? 0 : value;
+}
+
+/** `[plusDI, minusDI, dx, adx, adxr]`. */
+export function dmi(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  diLength: unknown,
+  adxSmoothing: unknown,
+): [number, number, number, number, number] {
+  const bar = feed.bar();
+  const previous = feed.bar(1);
+  const up = toNumber(bar?.high) - toNumber(previous?.high);
+  const down = toNumber(previous?.low) - toNumber(bar?.low);
+  const plusDM = Number.isNaN(up) ? Number.NaN : up > down && up > 0 ? up : 0;
+  const minusDM = Number.isNaN(down)
+    ? Number.NaN
+    : down > up && down > 0
+      ? down
+      : 0;
+
+  const range = rma(ctx, tr(feed, false), diLength);
+  const plus = fixnan(ctx, (100 * rma(ctx, plusDM, diLength)) / range);
+  const minus = fixnan(ctx, (100 * rma(ctx, minusDM, diLength)) / range);
+  const total = plus + minus;
+  const dx = (100 * Math.abs(plus - minus)) / total;
+  const adx =
+    100 *
+    rma(ctx, Math.abs(plus - minus) / (total === 0 ? 1 : total), adxSmoothing);
+  const adxs = ctx.new_var(adx) as StdSeries;
+  const adxr = (adx + valueAt(adxs, toLength(adxSmoothing))) / 2;
+  return [plus, minus, dx, adx, adxr];
+}
+
+export function adx(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  diLength: unknown,
+  adxSmoothing: unknown,
+): number {
+  return dmi(ctx, feed, diLength, adxSmoothing)[3];
+}
+
+/**
+ * `[supertrend, direction]`: the trailing band below price while the
+ * trend is up (direction -1) and above it while it is down (1).
+ */
+export function supertrend(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  factor: unknown,
+  atrPeriod: unknown,
+): [number, number] {
+  const range = atr(ctx, feed, atrPeriod);
+  const ranges = ctx.new_var(range) as StdSeries;
+  const lowerState = stateOf(ctx);
+  const upperState = stateOf(ctx);
+  const trendState = stateOf(ctx);
+
+  const bar = feed.bar();
+  const close = toNumber(bar?.close);
+  const previousClose = toNumber(feed.bar(1)?.close);
+  const src = (toNumber(bar?.high) + toNumber(bar?.low)) / 2;
+  const f = toNumber(factor);
+
+  const previousLower = nz(lowerState.previous);
+  const previousUpper = nz(upperState.previous);
+  let lower = src - f * range;
+  let upper = src + f * range;
+  lower =
+    lower > previousLower || previousClose < previousLower
+      ? lower
+      : previousLower;
+  upper =
+    upper < previousUpper || previousClose > previousUpper
+      ? upper
+      : previousUpper;
+
+  let direction: number;
+  if (Number.isNaN(valueAt(ranges, 1))) direction = 1;
+  else if (trendState.previous === previousUpper)
+    direction = close > upper ? -1 : 1;
+  else direction = close < lower ? 1 : -1;
+  const value = direction === -1 ? lower : upper;
+
+  lowerState.set(lower);
+  upperState.set(upper);
+  trendState.set(value);
+  return [value, direction];
+}
+
+/** Parabolic stop and reverse. */
+export function sar(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  start: unknown,
+  increment: unknown,
+  maximum: unknown,
+): number {
+  const resultState = stateOf(ctx);
+  const extremeState = stateOf(ctx);
+  const accelerationState = stateOf(ctx);
+  const belowState = stateOf(ctx);
+
+  const bar = feed.bar();
+  const previous = feed.bar(1);
+  const high = toNumber(bar?.high);
+  const low = toNumber(bar?.low);
+  const step = toNumber(increment);
+  const limit = toNumber(maximum);
+  let result = resultState.previous;
+  let extreme = extremeState.previous;
+  let acceleration = accelerationState.previous;
+  let isBelow = belowState.previous === 1;
+  let isFirstTrendBar = false;
+
+  if (feed.index() === 1 && previous) {
+    isBelow = toNumber(bar?.close) > previous.close;
+    extreme = isBelow ? high : low;
+    result = isBelow ? previous.low : previous.high;
+    isFirstTrendBar = true;
+    acceleration = toNumber(start);
+  }
+
+  result += acceleration * (extreme - result);
+  if (isBelow && result > low) {
+    isFirstTrendBar = true;
+    isBelow = false;
+    result = Math.max(high, extreme);
+    extreme = low;
+    acceleration = toNumber(start);
+  } else if (!isBelow && result < high) {
+    isFirstTrendBar = true;
+    isBelow = true;
+    result = Math.min(low, extreme);
+    extreme = high;
+    acceleration = toNumber(start);
+  }
+
+  if (!isFirstTrendBar) {
+    if (isBelow ? high > extreme : low < extreme) {
+      extreme = isBelow ? high : low;
+      acceleration = Math.min(acceleration + step, limit);
+    }
+  }
+
+  const twoBack = feed.index() > 1 ? feed.bar(2) : undefined;
+  if (isBelow) {
+    result = Math.min(result, toNumber(previous?.low));
+    if (twoBack) result = Math.min(result, twoBack.low);
+  } else {
+    result = Math.max(result, toNumber(previous?.high));
+    if (twoBack) result = Math.max(result, twoBack.high);
+  }
+
+  resultState.set(result);
+  extremeState.set(extreme);
+  accelerationState.set(acceleration);
+  belowState.set(isBelow ? 1 : 0);
+  return result;
+}
+
+/**
+ * The value `rightbars` back when it is a pivot: above the `leftbars`
+ * values before it and not below the `rightbars` values after it.
+ */
+function pivot(
+  ctx: RuntimeContext,
+  source: unknown,
+  leftbars: unknown,
+  rightbars: unknown,
+  beats: (candidate: number, other: number, strict: boolean) => boolean,
+): number {
+  const right = Math.trunc(toNumber(rightbars));
+  const left = Math.trunc(toNumber(leftbars));
+  const values = windowOf(seriesOf(ctx, source), left + right + 1);
+  if (!values) return Number.NaN;
+  const candidate = values[right];
+  for (let i = 0; i < values.length; i++) {
+    if (i !== right && !beats(candidate, values[i], i > right)) {
+      return Number.NaN;
+    }
+  }
+  return candidate;
+}
+
+export function pivothigh(
+  ctx: RuntimeContext,
+  source: unknown,
+  leftbars: unknown,
+  rightbars: unknown,
+): number {
+  return pivot(ctx, source, leftbars, rightbars, (candidate, other, strict) =>
+    strict ? candidate > other : candidate >= other,
+  );
+}
+
+export function pivotlow(
+  ctx: RuntimeContext,
+  source: unknown,
+  leftbars: unknown,
+  rightbars: unknown,
+): number {
+  return pivot(ctx, source, leftbars, rightbars, (candidate, other, strict) =>
+    strict ? candidate < other : candidate <= other,
+  );
+}
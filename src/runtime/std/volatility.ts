@@ -0,0 +1,149 @@
+/**
+ * Volatility
+ *
+ * True range, dispersion statistics and the channel indicators built
+ * on them. Channels return `[basis, upper, lower]`.
+ */
+
+import type { RuntimeContext } from '../../types';
+import { ema, rma, sma } from './moving-averages';
+import {
+  meanOf,
+  type StdBarFeed,
+  seriesOf,
+  toLength,
+  toNumber,
+  windowOf,
+} from './series';
+import { highest, lowest } from './statistics';
+
+/**
+ * The true range of the current bar. The first bar has no previous
+ * close: it is `high - low` with `handleNa`, else `na`.
+ */
+export function tr(feed: StdBarFeed, handleNa: boolean): number {
+  const bar = feed.bar();
+  if (!bar) return Number.NaN;
+  const previous = feed.bar(1);
+  if (!previous || Number.isNaN(previous.close)) {
+    return handleNa ? bar.high - bar.low : Number.NaN;
+  }
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previous.close),
+    Math.abs(bar.low - previous.close),
+  );
+}
+
+export function atr(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  length: unknown,
+): number {
+  return rma(ctx, tr(feed, true), length);
+}
+
+/** Population variance, or the sample variance when `biased` is false. */
+export function variance(
+  series: unknown,
+  length: unknown,
+  biased: unknown = true,
+): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const mean = meanOf(values);
+  let squares = 0;
+  for (const v of values) squares += (v - mean) ** 2;
+  const divisor = biased === false ? values.length - 1 : values.length;
+  return squares / divisor;
+}
+
+export function stdev(
+  series: unknown,
+  length: unknown,
+  biased: unknown = true,
+): number {
+  return Math.sqrt(variance(series, length, biased));
+}
+
+/** Mean absolute deviation from the window's mean. */
+export function dev(series: unknown, length: unknown): number {
+  const values = windowOf(series, toLength(length));
+  if (!values) return Number.NaN;
+  const mean = meanOf(values);
+  let total = 0;
+  for (const v of values) total += Math.abs(v - mean);
+  return total / values.length;
+}
+
+export function bb(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+  mult: unknown,
+): [number, number, number] {
+  const series = seriesOf(ctx, source);
+  const basis = sma(series, length);
+  const width = toNumber(mult) * stdev(series, length);
+  return [basis, basis + width, basis - width];
+}
+
+export function bbw(
+  ctx: RuntimeContext,
+  source: unknown,
+  length: unknown,
+  mult: unknown,
+): number {
+  const [basis, upper, lower] = bb(ctx, source, length, mult);
+  return (upper - lower) / basis;
+}
+
+/** Keltner channels around an EMA, sized by the EMA of the range. */
+export function kc(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  source: unknown,
+  length: unknown,
+  mult: unknown,
+  useTrueRange: unknown = true,
+): [number, number, number] {
+  const basis = ema(ctx, source, length);
+  const bar = feed.bar();
+  const range =
+    useTrueRange === false
+      ? toNumber(bar?.high) - toNumber(bar?.low)
+      : tr(feed, true);
+  const width = toNumber(mult) * ema(ctx, range, length);
+  return [basis, basis + width, basis - width];
+}
+
+export function kcw(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  source: unknown,
+  length: unknown,
+  mult: unknown,
+  useTrueRange?: unknown,
+): number {
+  const [basis, upper, lower] = kc(
+    ctx,
+    feed,
+    source,
+    length,
+    mult,
+    useTrueRange,
+  );
+  return (upper - lower) / basis;
+}
+
+/** Donchian channels: the midpoint of the highest high and lowest low. */
+export function donchian(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  length: unknown,
+): [number, number, number] {
+  const bar = feed.bar();
+  const upper = highest(ctx.new_var(toNumber(bar?.high)), length);
+  const lower = lowest(ctx.new_var(toNumber(bar?.low)), length);
+  return [(upper + lower) / 2, upper, lower];
+}
@@ -0,0 +1,76 @@
+/**
+ * Volume
+ *
+ * Cumulative volume indicators and the session VWAP, reading volume
+ * from the bar feed.
+ */
+
+import type { RuntimeContext } from '../../types';
+import { type StdBarFeed, stateOf, toNumber } from './series';
+import { cum } from './statistics';
+
+const DAY_MS = 86_400_000;
+
+/** On-balance volume. */
+export function obv(ctx: RuntimeContext, feed: StdBarFeed): number {
+  const bar = feed.bar();
+  const previous = feed.bar(1);
+  const direction = Math.sign(toNumber(bar?.close) - toNumber(previous?.close));
+  return cum(ctx, direction * toNumber(bar?.volume));
+}
+
+/** Accumulation/distribution. */
+export function accdist(ctx: RuntimeContext, feed: StdBarFeed): number {
+  const bar = feed.bar();
+  if (!bar) return cum(ctx, Number.NaN);
+  const range = bar.high - bar.low;
+  const flow =
+    range === 0
+      ? 0
+      : ((2 * bar.close - bar.low - bar.high) / range) * bar.volume;
+  return cum(ctx, flow);
+}
+
+/**
+ * Volume-weighted average price since the last anchor: a truthy
+ * `anchor`, or the start of each UTC day when none is given. With
+ * `stdevMult` it is `[vwap, upper, lower]`, bands that many standard
+ * deviations away.
+ */
+export function vwap(
+  ctx: RuntimeContext,
+  feed: StdBarFeed,
+  source: unknown,
+  anchor: unknown,
+  stdevMult: unknown,
+): number | [number, number, number] {
+  const weightedState = stateOf(ctx);
+  const squaresState = stateOf(ctx);
+  const volumeState = stateOf(ctx);
+
+  const bar = feed.bar();
+  const previous = feed.bar(1);
+  const reset =
+    anchor === undefined
+      ? !previous ||
+        Math.floor(toNumber(bar?.time) / DAY_MS) !==
+          Math.floor(previous.time / DAY_MS)
+      : !!toNumber(anchor);
+
+  const x = toNumber(source);
+  const volume = toNumber(bar?.volume);
+  const carry = (total: number) => (reset || Number.isNaN(total) ? 0 : total);
+  const weighted = carry(weightedState.previous) + x * volume;
+  const squares = carry(squaresState.previous) + x * x * volume;
+  const volumes = carry(volumeState.previous) + volume;
+  weightedState.set(weighted);
+  squaresState.set(squares);
+  volumeState.set(volumes);
+
+  const value = weighted / volumes;
+  if (stdevMult === undefined) return value;
+  const deviation =
+    toNumber(stdevMult) *
+    Math.sqrt(Math.max(0, squares / volumes - value * value));
+  return [value, value + deviation, value - deviation];
+}
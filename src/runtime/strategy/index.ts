@@ -0,0 +1,1032 @@
+/**
+ * Strategy Runtime
+ *
+ * The order and position engine behind Pine's `strategy.*` namespace.
+ * Orders the script places while it runs on a bar are filled on the
+ * next one by `beginBar`, which walks that bar's prices in the order
+ * Pine assumes: the open, then whichever of high and low is nearer to
+ * it, then the other, then the close. Market orders fill at the open;
+ * limit and stop orders fill at their price once the walk reaches it,
+ * or at the current price when the bar gaps through it.
+ *
+ * Every fill of `strategy.entry` or `strategy.order` opens a lot. Lots
+ * close first-in first-out, and `strategy.exit` brackets each entry id
+ * with the average price of its open lots. Each closed part of a lot
+ * becomes a trade record. Market, stop and trailing-stop fills slip by
+ * the declared number of ticks against the order; limit fills do not.
+ * A fill's commission is shared among the lots it opens or closes.
+ */
+
+import {
+  type EquityExtremes,
+  emptyTotals,
+  ratio,
+  type StrategyEquityPoint,
+  type StrategyReport,
+  type StrategyTrade,
+  startingExtremes,
+  tallyTrade,
+  trackEquity,
+  tradePercent,
+} from './report';
+
+export type {
+  StrategyEquityPoint,
+  StrategyReport,
+  StrategyTrade,
+} from './report';
+
+export interface StrategyBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type StrategyNamespace = ((...args: unknown[]) => void) &
+  Record<string, unknown>;
+
+export interface StrategyRuntime {
+  /** The Pine `strategy` value: the declaration and its namespace. */
+  namespace: StrategyNamespace;
+  /** Fill the pending orders against `bar`, before the script runs on it. */
+  beginBar: (bar: StrategyBar, barIndex: number, mintick: number) => void;
+  /**
+   * Fill market orders at the close when `process_orders_on_close` is
+   * set, then record the bar's equity.
+   */
+  endBar: () => void;
+  /** The performance so far; `undefined` until `strategy()` is declared. */
+  report: () => StrategyReport | undefined;
+}
+
+type Side = 1 | -1;
+
+interface Lot {
+  entryId: string;
+  direction: Side;
+  qty: number;
+  price: number;
+  barIndex: number;
+  time: number;
+  comment: string;
+  /** The part of the entry commission not yet charged to a trade. */
+  commission: number;
+  /** Largest favourable and adverse price moves so far, per contract. */
+  runup: number;
+  drawdown: number;
+  /** Ids of the exits that already filled against this lot. */
+  exits: Set<string>;
+}
+
+/** The order that closes a trade, as the trade list names it. */
+interface TradeExit {
+  id: string;
+  comment: string;
+}
+
+interface PendingOrder {
+  kind: 'entry' | 'order' | 'close';
+  id: string;
+  side: Side;
+  /** NaN closes everything `qtyPercent` allows. */
+  qty: number;
+  qtyPercent: number;
+  limit: number;
+  stop: number;
+  /** A stop-limit order becomes a limit order once its stop is reached. */
+  stopTriggered: boolean;
+  ocaName: string;
+  ocaType: string;
+  comment: string;
+  serial: number;
+}
+
+interface TrailState {
+  active: boolean;
+  extreme: number;
+}
+
+interface ExitRule {
+  id: string;
+  /** `''` applies to every entry. */
+  fromEntry: string;
+  qty: number;
+  qtyPercent: number;
+  profit: number;
+  limit: number;
+  loss: number;
+  stop: number;
+  trailPrice: number;
+  trailPoints: number;
+  trailOffset: number;
+  comment: string;
+  serial: number;
+  /** Set once the rule has covered a lot; it is dropped when none remain. */
+  attached: boolean;
+  trails: Map<string, TrailState>;
+}
+
+interface Fill {
+  price: number;
+  serial: number;
+  side: Side;
+  /** Market and stop fills slip; limit fills do not. */
+  slippage: boolean;
+  execute: (price: number) => void;
+}
+
+interface Reach {
+  price: number;
+  slippage: boolean;
+}
+
+interface StrategySettings {
+  pyramiding: number;
+  defaultQtyType: string;
+  defaultQtyValue: number;
+  initialCapital: number;
+  currency: string;
+  /** In ticks. */
+  slippage: number;
+  commissionType: string;
+  commissionValue: number;
+  processOrdersOnClose: boolean;
+}
+
+const QTY_EPSILON = 1e-9;
+
+// Argument positions in `strategy()`, as laid out by the registry.
+const DECLARATION_ARGS = {
+  pyramiding: 6,
+  defaultQtyType: 11,
+  defaultQtyValue: 12,
+  initialCapital: 13,
+  currency: 14,
+  slippage: 15,
+  commissionType: 16,
+  commissionValue: 17,
+  processOrdersOnClose: 18,
+} as const;
+
+function numberOr(value: unknown, fallback: number): number {
+  const number = typeof value === 'number' ? value : Number.NaN;
+  return Number.isFinite(number) ? number : fallback;
+}
+
+/** An optional numeric argument: NaN when `na` or omitted. */
+function optional(value: unknown): number {
+  return typeof value === 'number' ? value : Number.NaN;
+}
+
+function textOf(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+function sideOf(direction: unknown): Side {
+  return Number(direction) < 0 || direction === 'short' ? -1 : 1;
+}
+
+/** The fill price of a limit order moving from `from` to `to`. */
+function limitReach(
+  side: Side,
+  level: number,
+  from: number,
+  to: number,
+): number | undefined {
+  if (Number.isNaN(level)) return undefined;
+  if (side * (from - level) <= 0) return from;
+  if (side * (to - level) <= 0) return level;
+  return undefined;
+}
+
+/** The fill price of a stop order moving from `from` to `to`. */
+function stopReach(
+  side: Side,
+  level: number,
+  from: number,
+  to: number,
+): number | undefined {
+  if (Number.isNaN(level)) return undefined;
+  if (side * (from - level) >= 0) return from;
+  if (side * (to - level) >= 0) return level;
+  return undefined;
+}
+
+/** Open, nearer extreme, farther extreme, close. */
+function pricePath(bar: StrategyBar): number[] {
+  const highFirst = bar.high - bar.open < bar.open - bar.low;
+  return highFirst
+    ? [bar.open, bar.high, bar.low, bar.close]
+    : [bar.open, bar.low, bar.high, bar.close];
+}
+
+export function createStrategyRuntime(): StrategyRuntime {
+  const settings: StrategySettings = {
+    pyramiding: 1,
+    defaultQtyType: 'fixed',
+    defaultQtyValue: 1,
+    initialCapital: 1_000_000,
+    currency: 'USD',
+    slippage: 0,
+    commissionType: 'percent',
+    commissionValue: 0,
+    processOrdersOnClose: false,
+  };
+  let declared = false;
+  let lots: Lot[] = [];
+  const orders = new Map<string, PendingOrder>();
+  const exits = new Map<string, ExitRule>();
+  let serial = 0;
+  let netProfit = 0;
+  let commissionPaid = 0;
+  const totals = emptyTotals();
+  const closedTrades: StrategyTrade[] = [];
+  const equityCurve: StrategyEquityPoint[] = [];
+  let extremes: EquityExtremes | undefined;
+  let bar: StrategyBar | undefined;
+  let barIndex = -1;
+  let tick = 0.01;
+
+  // ==========================================================================
+  // Position
+  // ==========================================================================
+
+  const positionSize = (): number =>
+    lots.reduce((size, lot) => size + lot.direction * lot.qty, 0);
+
+  const quantity = (group: Lot[]): number =>
+    group.reduce((total, lot) => total + lot.qty, 0);
+
+  const averagePrice = (group: Lot[]): number => {
+    const qty = quantity(group);
+    if (qty === 0) return Number.NaN;
+    return group.reduce((total, lot) => total + lot.price * lot.qty, 0) / qty;
+  };
+
+  /** `lot` as an open trade, marked to the current close. */
+  const openTrade = (lot: Lot): StrategyTrade => {
+    const close = bar?.close ?? Number.NaN;
+    return {
+      entryId: lot.entryId,
+      entryComment: lot.comment,
+      entryPrice: lot.price,
+      entryBarIndex: lot.barIndex,
+      entryTime: lot.time,
+      exitId: '',
+      exitComment: '',
+      exitPrice: Number.NaN,
+      exitBarIndex: Number.NaN,
+      exitTime: Number.NaN,
+      size: lot.direction * lot.qty,
+      commission: lot.commission,
+      profit: (close - lot.price) * lot.qty * lot.direction - lot.commission,
+      maxRunup: lot.runup * lot.qty,
+      maxDrawdown: lot.drawdown * lot.qty,
+    };
+  };
+
+  const openProfit = (): number => {
+    if (Number.isNaN(bar?.close ?? Number.NaN)) return 0;
+    return lots.reduce((total, lot) => total + openTrade(lot).profit, 0);
+  };
+
+  const equity = (): number =>
+    settings.initialCapital + netProfit + openProfit();
+
+  /** The quantity of an order placed without `qty`, at the current close. */
+  const defaultQty = (): number => {
+    const close = bar?.close ?? Number.NaN;
+    const value = settings.defaultQtyValue;
+    switch (settings.defaultQtyType) {
+      case 'cash':
+        return value / close;
+      case 'percent_of_equity':
+        return (equity() * value) / 100 / close;
+      default:
+        return value;
+    }
+  };
+
+  /** The commission per contract of a fill of `qty` contracts. */
+  const commissionRate = (price: number, qty: number): number => {
+    if (!(qty > QTY_EPSILON)) return 0;
+    const value = settings.commissionValue;
+    switch (settings.commissionType) {
+      case 'cash_per_contract':
+        return value;
+      case 'cash_per_order':
+        return value / qty;
+      default:
+        return (price * value) / 100;
+    }
+  };
+
+  const slip = (side: Side, price: number): number =>
+    price + side * settings.slippage * tick;
+
+  /** Close up to `qty` of `group`, oldest lot first, recording trades. */
+  const closeLots = (
+    group: Lot[],
+    qty: number,
+    price: number,
+    exit: TradeExit,
+    rate: number,
+  ) => {
+    let remaining = qty;
+    for (const lot of group) {
+      if (remaining <= QTY_EPSILON) break;
+      const taken = Math.min(lot.qty, remaining);
+      const entryCommission = (lot.commission * taken) / lot.qty;
+      const commission = entryCommission + rate * taken;
+      const profit = (price - lot.price) * taken * lot.direction - commission;
+      lot.qty -= taken;
+      lot.commission -= entryCommission;
+      remaining -= taken;
+      netProfit += profit;
+      tallyTrade(totals, profit);
+      closedTrades.push({
+        entryId: lot.entryId,
+        entryComment: lot.comment,
+        entryPrice: lot.price,
+        entryBarIndex: lot.barIndex,
+        entryTime: lot.time,
+        exitId: exit.id,
+        exitComment: exit.comment,
+        exitPrice: price,
+        exitBarIndex: barIndex,
+        exitTime: bar?.time ?? Number.NaN,
+        size: lot.direction * taken,
+        commission,
+        profit,
+        maxRunup: lot.runup * taken,
+        maxDrawdown: lot.drawdown * taken,
+      });
+    }
+    lots = lots.filter((lot) => lot.qty > QTY_EPSILON);
+  };
+
+  /**
+   * One fill at `price`: close up to `closeQty` of `group`, then open
+   * `open`, charging the fill's commission to both in proportion.
+   */
+  const trade = (
+    price: number,
+    group: Lot[],
+    closeQty: number,
+    exit: TradeExit,
+    open?: Pick<Lot, 'entryId' | 'direction' | 'qty' | 'comment'>,
+  ) => {
+    const closing = Math.min(Math.max(closeQty, 0), quantity(group));
+    const opening = open && open.qty > QTY_EPSILON && bar ? open.qty : 0;
+    const rate = commissionRate(price, closing + opening);
+    commissionPaid += rate * (closing + opening);
+    closeLots(group, closing, price, exit, rate);
+    if (!open || opening === 0 || !bar) return;
+    lots.push({
+      ...open,
+      price,
+      barIndex,
+      time: bar.time,
+      commission: rate * opening,
+      runup: 0,
+      drawdown: 0,
+      exits: new Set(),
+    });
+  };
+
+  const exitLots = (rule: ExitRule): Lot[] =>
+    lots.filter(
+      (lot) =>
+        (rule.fromEntry === '' || lot.entryId === rule.fromEntry) &&
+        !lot.exits.has(rule.id),
+    );
+
+  /** Attach exits to new lots and drop those whose lots have all closed. */
+  const updateExits = () => {
+    for (const [id, rule] of exits) {
+      if (exitLots(rule).length > 0) rule.attached = true;
+      else if (rule.attached) exits.delete(id);
+    }
+  };
+
+  // ==========================================================================
+  // Fills
+  // ==========================================================================
+
+  const applyOca = (filled: PendingOrder, qty: number) => {
+    if (filled.ocaName === '' || filled.ocaType === 'none') return;
+    for (const [key, order] of orders) {
+      if (order.ocaName !== filled.ocaName) continue;
+      if (filled.ocaType === 'cancel') {
+        orders.delete(key);
+      } else if (filled.ocaType === 'reduce') {
+        order.qty -= qty;
+        if (!(order.qty > QTY_EPSILON)) orders.delete(key);
+      }
+    }
+  };
+
+  const fillOrder = (key: string, order: PendingOrder, price: number) => {
+    orders.delete(key);
+    const size = positionSize();
+    const opened = {
+      entryId: order.id,
+      direction: order.side,
+      qty: order.qty,
+      comment: order.comment,
+    };
+    const exit = { id: order.id, comment: order.comment };
+    if (order.kind === 'close') {
+      const group = lots.filter(
+        (lot) => order.id === '' || lot.entryId === order.id,
+      );
+      const qty = Number.isNaN(order.qty)
+        ? (quantity(group) * order.qtyPercent) / 100
+        : order.qty;
+      trade(price, group, qty, {
+        id:
+          order.id === ''
+            ? 'Close position order'
+            : `Close entry(s) order ${order.id}`,
+        comment: order.comment,
+      });
+    } else if (order.kind === 'entry') {
+      if (size !== 0 && Math.sign(size) === order.side) {
+        const open = lots.filter((lot) => lot.direction === order.side);
+        if (open.length >= Math.max(1, settings.pyramiding)) return;
+      }
+      applyOca(order, order.qty);
+      const reversing = size !== 0 && Math.sign(size) !== order.side;
+      trade(price, [...lots], reversing ? Math.abs(size) : 0, exit, opened);
+    } else {
+      applyOca(order, order.qty);
+      const opposite = lots.filter((lot) => lot.direction !== order.side);
+      const closing = Math.min(order.qty, quantity(opposite));
+      trade(price, opposite, closing, exit, {
+        ...opened,
+        qty: order.qty - closing,
+      });
+    }
+    updateExits();
+  };
+
+  const fillExit = (rule: ExitRule, group: Lot[], price: number) => {
+    const qty = Number.isNaN(rule.qty)
+      ? (quantity(group) * rule.qtyPercent) / 100
+      : rule.qty;
+    trade(price, group, qty, { id: rule.id, comment: rule.comment });
+    for (const lot of group) lot.exits.add(rule.id);
+    rule.trails.delete(group[0].entryId);
+    updateExits();
+  };
+
+  const orderReach = (
+    order: PendingOrder,
+    from: number,
+    to: number,
+  ): number | undefined => {
+    const hasLimit = !Number.isNaN(order.limit);
+    const hasStop = !Number.isNaN(order.stop);
+    if (!hasLimit && !hasStop) return from;
+    if (!hasStop || order.stopTriggered) {
+      return limitReach(order.side, order.limit, from, to);
+    }
+    const stopped = stopReach(order.side, order.stop, from, to);
+    if (stopped === undefined || !hasLimit) return stopped;
+    return limitReach(order.side, order.limit, stopped, to);
+  };
+
+  /** Entry id → the open lots `rule` still covers. */
+  const exitGroups = (rule: ExitRule): Map<string, Lot[]> => {
+    const groups = new Map<string, Lot[]>();
+    for (const lot of exitLots(rule)) {
+      const group = groups.get(lot.entryId);
+      if (group) group.push(lot);
+      else groups.set(lot.entryId, [lot]);
+    }
+    return groups;
+  };
+
+  const trailLevels = (rule: ExitRule, group: Lot[]) => {
+    const direction = group[0].direction;
+    const average = averagePrice(group);
+    const activation = !Number.isNaN(rule.trailPrice)
+      ? rule.trailPrice
+      : average + direction * rule.trailPoints * tick;
+    return { direction, activation, offset: rule.trailOffset * tick };
+  };
+
+  const exitReach = (
+    rule: ExitRule,
+    group: Lot[],
+    from: number,
+    to: number,
+  ): Reach | undefined => {
+    const direction = group[0].direction;
+    const side: Side = direction === 1 ? -1 : 1;
+    const average = averagePrice(group);
+    const target = !Number.isNaN(rule.limit)
+      ? rule.limit
+      : average + direction * rule.profit * tick;
+    const stop = !Number.isNaN(rule.stop)
+      ? rule.stop
+      : average - direction * rule.loss * tick;
+    const reaches: Array<[number | undefined, boolean]> = [
+      [limitReach(side, target, from, to), false],
+      [stopReach(side, stop, from, to), true],
+    ];
+    const trail = rule.trails.get(group[0].entryId);
+    if (trail?.active) {
+      const { offset } = trailLevels(rule, group);
+      reaches.push([
+        stopReach(side, trail.extreme - direction * offset, from, to),
+        true,
+      ]);
+    }
+    let nearest: Reach | undefined;
+    for (const [price, slippage] of reaches) {
+      if (price === undefined) continue;
+      if (
+        nearest === undefined ||
+        Math.abs(price - from) < Math.abs(nearest.price - from)
+      ) {
+        nearest = { price, slippage };
+      }
+    }
+    return nearest;
+  };
+
+  /** The next fill on the way from `from` to `to`, if any. */
+  const nextFill = (from: number, to: number): Fill | undefined => {
+    let next: Fill | undefined;
+    const consider = (fill: Fill) => {
+      const distance = Math.abs(fill.price - from);
+      const best = next
+        ? Math.abs(next.price - from)
+        : Number.POSITIVE_INFINITY;
+      if (
+        distance < best ||
+        (next && distance === best && fill.serial < next.serial)
+      ) {
+        next = fill;
+      }
+    };
+    for (const [key, order] of orders) {
+      const price = orderReach(order, from, to);
+      if (price === undefined) continue;
+      consider({
+        price,
+        serial: order.serial,
+        side: order.side,
+        slippage: Number.isNaN(order.limit),
+        execute: (at) => fillOrder(key, order, at),
+      });
+    }
+    for (const rule of exits.values()) {
+      for (const group of exitGroups(rule).values()) {
+        const reach = exitReach(rule, group, from, to);
+        if (reach === undefined) continue;
+        consider({
+          ...reach,
+          serial: rule.serial,
+          side: group[0].direction === 1 ? -1 : 1,
+          execute: (at) => fillExit(rule, group, at),
+        });
+      }
+    }
+    return next;
+  };
+
+  /** Track excursions, trailing stops and stop-limit triggers as price moves. */
+  const advance = (from: number, to: number) => {
+    for (const lot of lots) {
+      const best =
+        lot.direction * Math.max(lot.direction * from, lot.direction * to);
+      const worst =
+        lot.direction * Math.min(lot.direction * from, lot.direction * to);
+      lot.runup = Math.max(lot.runup, lot.direction * (best - lot.price));
+      lot.drawdown = Math.max(
+        lot.drawdown,
+        lot.direction * (lot.price - worst),
+      );
+    }
+    for (const order of orders.values()) {
+      if (
+        !Number.isNaN(order.stop) &&
+        !Number.isNaN(order.limit) &&
+        stopReach(order.side, order.stop, from, to) !== undefined
+      ) {
+        order.stopTriggered = true;
+      }
+    }
+    for (const rule of exits.values()) {
+      if (Number.isNaN(rule.trailOffset)) continue;
+      if (Number.isNaN(rule.trailPrice) && Number.isNaN(rule.trailPoints)) {
+        continue;
+      }
+      for (const [entryId, group] of exitGroups(rule)) {
+        const { direction, activation } = trailLevels(rule, group);
+        const best = direction * Math.max(direction * from, direction * to);
+        const trail = rule.trails.get(entryId) ?? {
+          active: false,
+          extreme: Number.NaN,
+        };
+        if (trail.active) {
+          trail.extreme =
+            direction * Math.max(direction * trail.extreme, direction * best);
+        } else if (direction * (best - activation) >= 0) {
+          trail.active = true;
+          trail.extreme = best;
+        }
+        rule.trails.set(entryId, trail);
+      }
+    }
+  };
+
+  /** Fill everything reachable on the way from `from` to `to`. */
+  const walk = (from: number, to: number) => {
+    let price = from;
+    for (let fill = nextFill(price, to); fill; fill = nextFill(price, to)) {
+      advance(price, fill.price);
+      fill.execute(fill.slippage ? slip(fill.side, fill.price) : fill.price);
+      price = fill.price;
+    }
+    advance(price, to);
+  };
+
+  const beginBar = (next: StrategyBar, index: number, mintick: number) => {
+    // A realtime update of the bar the orders were already filled on.
+    if (index === barIndex) {
+      bar = next;
+      return;
+    }
+    bar = next;
+    barIndex = index;
+    if (mintick > 0) tick = mintick;
+    updateExits();
+    const path = pricePath(next);
+    if (path.some((price) => Number.isNaN(price))) return;
+    walk(path[0], path[0]);
+    for (let i = 1; i < path.length; i++) walk(path[i - 1], path[i]);
+  };
+
+  const recordEquity = (time: number) => {
+    const point = { barIndex, time, equity: equity() };
+    // A realtime update replaces the reading of the bar it updates.
+    if (equityCurve[equityCurve.length - 1]?.barIndex === barIndex) {
+      equityCurve.pop();
+    }
+    equityCurve.push(point);
+    extremes ??= startingExtremes(settings.initialCapital);
+    trackEquity(extremes, point.equity);
+  };
+
+  const endBar = () => {
+    if (!bar) return;
+    if (settings.processOrdersOnClose) {
+      const close = bar.close;
+      const market = [...orders].filter(
+        ([, order]) => Number.isNaN(order.limit) && Number.isNaN(order.stop),
+      );
+      market.sort(([, a], [, b]) => a.serial - b.serial);
+      for (const [key, order] of market) {
+        if (orders.get(key) === order) {
+          fillOrder(key, order, slip(order.side, close));
+        }
+      }
+    }
+    if (declared) recordEquity(bar.time);
+  };
+
+  // ==========================================================================
+  // Pine API
+  // ==========================================================================
+
+  const place = (
+    key: string,
+    order: Omit<PendingOrder, 'serial' | 'stopTriggered'>,
+  ) => {
+    const existing = orders.get(key);
+    orders.set(key, {
+      ...order,
+      serial: existing?.serial ?? serial++,
+      stopTriggered:
+        existing?.stopTriggered === true && existing.stop === order.stop,
+    });
+  };
+
+  const declare = (...args: unknown[]) => {
+    if (declared) return;
+    declared = true;
+    const at = (index: number) => args[index];
+    settings.pyramiding = numberOr(at(DECLARATION_ARGS.pyramiding), 1);
+    settings.defaultQtyType =
+      textOf(at(DECLARATION_ARGS.defaultQtyType)) || 'fixed';
+    settings.defaultQtyValue = numberOr(
+      at(DECLARATION_ARGS.defaultQtyValue),
+      1,
+    );
+    settings.initialCapital = numberOr(
+      at(DECLARATION_ARGS.initialCapital),
+      1_000_000,
+    );
+    const currency = textOf(at(DECLARATION_ARGS.currency));
+    settings.currency =
+      currency === '' || currency === 'NONE' ? 'USD' : currency;
+    settings.slippage = numberOr(at(DECLARATION_ARGS.slippage), 0);
+    settings.commissionType =
+      textOf(at(DECLARATION_ARGS.commissionType)) || 'percent';
+    settings.commissionValue = numberOr(
+      at(DECLARATION_ARGS.commissionValue),
+      0,
+    );
+    settings.processOrdersOnClose =
+      at(DECLARATION_ARGS.processOrdersOnClose) === true;
+  };
+
+  const entry = (
+    id: unknown,
+    direction: unknown,
+    qty?: unknown,
+    limit?: unknown,
+    stop?: unknown,
+    ocaName?: unknown,
+    ocaType?: unknown,
+    comment?: unknown,
+  ) => {
+    place(String(id), {
+      kind: 'entry',
+      id: String(id),
+      side: sideOf(direction),
+      qty: numberOr(qty, defaultQty()),
+      qtyPercent: 100,
+      limit: optional(limit),
+      stop: optional(stop),
+      ocaName: textOf(ocaName),
+      ocaType: textOf(ocaType) || 'none',
+      comment: textOf(comment),
+    });
+  };
+
+  const order = (
+    id: unknown,
+    direction: unknown,
+    qty?: unknown,
+    limit?: unknown,
+    stop?: unknown,
+    ocaName?: unknown,
+    ocaType?: unknown,
+    comment?: unknown,
+  ) => {
+    place(String(id), {
+      kind: 'order',
+      id: String(id),
+      side: sideOf(direction),
+      qty: numberOr(qty, defaultQty()),
+      qtyPercent: 100,
+      limit: optional(limit),
+      stop: optional(stop),
+      ocaName: textOf(ocaName),
+      ocaType: textOf(ocaType) || 'none',
+      comment: textOf(comment),
+    });
+  };
+
+  const closeOrder = (
+    entryId: string,
+    comment: unknown,
+    qty: unknown,
+    qtyPercent: unknown,
+    immediately: unknown,
+  ) => {
+    const group = lots.filter(
+      (lot) => entryId === '' || lot.entryId === entryId,
+    );
+    if (group.length === 0) return;
+    const key = `\0close:${entryId}`;
+    place(key, {
+      kind: 'close',
+      id: entryId,
+      side: group[0].direction === 1 ? -1 : 1,
+      qty: optional(qty),
+      qtyPercent: numberOr(qtyPercent, 100),
+      limit: Number.NaN,
+      stop: Number.NaN,
+      ocaName: '',
+      ocaType: 'none',
+      comment: textOf(comment),
+    });
+    const pending = orders.get(key);
+    if (immediately === true && bar && pending) {
+      fillOrder(key, pending, slip(pending.side, bar.close));
+    }
+  };
+
+  const exit = (
+    id: unknown,
+    fromEntry?: unknown,
+    qty?: unknown,
+    qtyPercent?: unknown,
+    profit?: unknown,
+    limit?: unknown,
+    loss?: unknown,
+    stop?: unknown,
+    trailPrice?: unknown,
+    trailPoints?: unknown,
+    trailOffset?: unknown,
+    _ocaName?: unknown,
+    comment?: unknown,
+  ) => {
+    const levels = [profit, limit, loss, stop, trailPrice, trailPoints].map(
+      optional,
+    );
+    // Without a price to exit at, Pine places nothing.
+    if (levels.every((level) => Number.isNaN(level))) return;
+    const key = String(id);
+    const existing = exits.get(key);
+    exits.set(key, {
+      id: key,
+      fromEntry: textOf(fromEntry),
+      qty: optional(qty),
+      qtyPercent: numberOr(qtyPercent, 100),
+      profit: levels[0],
+      limit: levels[1],
+      loss: levels[2],
+      stop: levels[3],
+      trailPrice: levels[4],
+      trailPoints: levels[5],
+      trailOffset: optional(trailOffset),
+      comment: textOf(comment),
+      serial: existing?.serial ?? serial++,
+      attached: existing?.attached ?? false,
+      trails: existing?.trails ?? new Map(),
+    });
+    updateExits();
+  };
+
+  const cancel = (id: unknown) => {
+    const key = String(id);
+    orders.delete(key);
+    exits.delete(key);
+  };
+
+  const report = (): StrategyReport | undefined => {
+    if (!declared) return undefined;
+    const closed = closedTrades.length;
+    const drawdowns = extremes ?? startingExtremes(settings.initialCapital);
+    return {
+      currency: settings.currency,
+      initialCapital: settings.initialCapital,
+      netProfit,
+      netProfitPercent: ratio(netProfit * 100, settings.initialCapital),
+      grossProfit: totals.grossProfit,
+      grossLoss: totals.grossLoss,
+      openProfit: openProfit(),
+      commissionPaid,
+      maxDrawdown: drawdowns.maxDrawdown,
+      maxDrawdownPercent: drawdowns.maxDrawdownPercent,
+      maxRunup: drawdowns.maxRunup,
+      maxRunupPercent: drawdowns.maxRunupPercent,
+      closedTradeCount: closed,
+      winningTrades: totals.wins,
+      losingTrades: totals.losses,
+      evenTrades: totals.evens,
+      percentProfitable: ratio(totals.wins * 100, closed),
+      profitFactor: ratio(totals.grossProfit, totals.grossLoss),
+      avgTrade: ratio(netProfit, closed),
+      avgWinningTrade: ratio(totals.grossProfit, totals.wins),
+      avgLosingTrade: ratio(totals.grossLoss, totals.losses),
+      closedTrades: closedTrades.map((record) => ({ ...record })),
+      openTrades: lots.map(openTrade),
+      equity: equityCurve.map((point) => ({ ...point })),
+    };
+  };
+
+  /** `strategy.closedtrades.*` and `strategy.opentrades.*` over `list`. */
+  const tradeAccessors = (list: () => StrategyTrade[], withExit: boolean) => {
+    const number =
+      (read: (record: StrategyTrade) => number) =>
+      (index: unknown): number => {
+        const record = list()[Number(index)];
+        return record ? read(record) : Number.NaN;
+      };
+    const text =
+      (read: (record: StrategyTrade) => string) =>
+      (index: unknown): string => {
+        const record = list()[Number(index)];
+        return record ? read(record) : '';
+      };
+    const accessors: Record<string, unknown> = {
+      entry_id: text((record) => record.entryId),
+      entry_comment: text((record) => record.entryComment),
+      entry_price: number((record) => record.entryPrice),
+      entry_bar_index: number((record) => record.entryBarIndex),
+      entry_time: number((record) => record.entryTime),
+      size: number((record) => record.size),
+      commission: number((record) => record.commission),
+      profit: number((record) => record.profit),
+      profit_percent: number((record) => tradePercent(record, record.profit)),
+      max_runup: number((record) => record.maxRunup),
+      max_runup_percent: number((record) =>
+        tradePercent(record, record.maxRunup),
+      ),
+      max_drawdown: number((record) => record.maxDrawdown),
+      max_drawdown_percent: number((record) =>
+        tradePercent(record, record.maxDrawdown),
+      ),
+    };
+    if (withExit) {
+      Object.assign(accessors, {
+        exit_id: text((record) => record.exitId),
+        exit_comment: text((record) => record.exitComment),
+        exit_price: number((record) => record.exitPrice),
+        exit_bar_index: number((record) => record.exitBarIndex),
+        exit_time: number((record) => record.exitTime),
+        first_index: 0,
+      });
+    }
+    // Transpiled code reads a bare `strategy.closedtrades` as `.count`.
+    Object.defineProperty(accessors, 'count', {
+      get: () => list().length,
+      enumerable: true,
+    });
+    return accessors;
+  };
+
+  const namespace = declare as StrategyNamespace;
+  Object.assign(namespace, {
+    entry,
+    order,
+    exit,
+    close: (
+      id: unknown,
+      comment?: unknown,
+      qty?: unknown,
+      qtyPercent?: unknown,
+      _alertMessage?: unknown,
+      immediately?: unknown,
+    ) => closeOrder(String(id), comment, qty, qtyPercent, immediately),
+    close_all: (
+      comment?: unknown,
+      _alertMessage?: unknown,
+      immediately?: unknown,
+    ) => closeOrder('', comment, Number.NaN, 100, immediately),
+    cancel,
+    cancel_all: () => {
+      orders.clear();
+      exits.clear();
+    },
+    closedtrades: tradeAccessors(() => closedTrades, true),
+    opentrades: tradeAccessors(() => lots.map(openTrade), false),
+    risk: new Proxy({}, { get: () => () => undefined }),
+    long: 1,
+    short: -1,
+    fixed: 'fixed',
+    cash: 'cash',
+    percent_of_equity: 'percent_of_equity',
+    oca: { cancel: 'cancel', reduce: 'reduce', none: 'none' },
+    commission: {
+      percent: 'percent',
+      cash_per_contract: 'cash_per_contract',
+      cash_per_order: 'cash_per_order',
+    },
+    direction: { all: 'all', long: 'long', short: 'short' },
+  });
+  const drawdowns = () => extremes ?? startingExtremes(settings.initialCapital);
+  const getters: Record<string, () => unknown> = {
+    position_size: positionSize,
+    position_avg_price: () => averagePrice(lots),
+    position_entry_name: () => lots[0]?.entryId ?? '',
+    initial_capital: () => settings.initialCapital,
+    account_currency: () => settings.currency,
+    equity,
+    netprofit: () => netProfit,
+    netprofit_percent: () => ratio(netProfit * 100, settings.initialCapital),
+    openprofit: openProfit,
+    openprofit_percent: () =>
+      ratio(openProfit() * 100, settings.initialCapital + netProfit),
+    grossprofit: () => totals.grossProfit,
+    grossprofit_percent: () =>
+      ratio(totals.grossProfit * 100, settings.initialCapital),
+    grossloss: () => totals.grossLoss,
+    grossloss_percent: () =>
+      ratio(totals.grossLoss * 100, settings.initialCapital),
+    wintrades: () => totals.wins,
+    losstrades: () => totals.losses,
+    eventrades: () => totals.evens,
+    max_drawdown: () => drawdowns().maxDrawdown,
+    max_drawdown_percent: () => drawdowns().maxDrawdownPercent,
+    max_runup: () => drawdowns().maxRunup,
+    max_runup_percent: () => drawdowns().maxRunupPercent,
+    avg_trade: () => ratio(netProfit, closedTrades.length),
+    avg_winning_trade: () => ratio(totals.grossProfit, totals.wins),
+    avg_losing_trade: () => ratio(totals.grossLoss, totals.losses),
+  };
+  for (const [name, get] of Object.entries(getters)) {
+    Object.defineProperty(namespace, name, { get, enumerable: true });
+  }
+
+  return { namespace, beginBar, endBar, report };
+}
@@ -0,0 +1,146 @@
+/**
+ * Strategy Report
+ *
+ * The trade records and performance figures of a backtest. The runtime
+ * keeps the running totals up to date as trades close and bars end, so
+ * Pine accessors like `strategy.wintrades` read them in constant time;
+ * `StrategyReport` is the JSON-friendly snapshot of all of it.
+ */
+
+/** One closed or open trade. Open trades have no exit: `NaN` and `''`. */
+export interface StrategyTrade {
+  entryId: string;
+  entryComment: string;
+  entryPrice: number;
+  entryBarIndex: number;
+  entryTime: number;
+  exitId: string;
+  exitComment: string;
+  exitPrice: number;
+  exitBarIndex: number;
+  exitTime: number;
+  /** Contracts traded; negative for a short trade. */
+  size: number;
+  /** Entry and exit commission of the trade. */
+  commission: number;
+  /** Profit after commission; open trades are marked to the close. */
+  profit: number;
+  /** Largest favourable move while open, in account currency. */
+  maxRunup: number;
+  /** Largest adverse move while open, as a positive amount. */
+  maxDrawdown: number;
+}
+
+export interface StrategyEquityPoint {
+  barIndex: number;
+  time: number;
+  /** Initial capital plus net and open profit at the bar's close. */
+  equity: number;
+}
+
+export interface StrategyReport {
+  currency: string;
+  initialCapital: number;
+  netProfit: number;
+  netProfitPercent: number;
+  grossProfit: number;
+  grossLoss: number;
+  openProfit: number;
+  commissionPaid: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  maxRunup: number;
+  maxRunupPercent: number;
+  closedTradeCount: number;
+  winningTrades: number;
+  losingTrades: number;
+  evenTrades: number;
+  percentProfitable: number;
+  /** Gross profit over gross loss; `NaN` without a losing trade. */
+  profitFactor: number;
+  avgTrade: number;
+  avgWinningTrade: number;
+  avgLosingTrade: number;
+  closedTrades: StrategyTrade[];
+  openTrades: StrategyTrade[];
+  equity: StrategyEquityPoint[];
+}
+
+export interface TradeTotals {
+  grossProfit: number;
+  /** Positive: the sum of the losing trades' losses. */
+  grossLoss: number;
+  wins: number;
+  losses: number;
+  evens: number;
+}
+
+/** Peak-to-trough figures of the equity curve. */
+export interface EquityExtremes {
+  peak: number;
+  trough: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  maxRunup: number;
+  maxRunupPercent: number;
+}
+
+export function emptyTotals(): TradeTotals {
+  return { grossProfit: 0, grossLoss: 0, wins: 0, losses: 0, evens: 0 };
+}
+
+export function tallyTrade(totals: TradeTotals, profit: number): void {
+  if (profit > 0) {
+    totals.grossProfit += profit;
+    totals.wins++;
+  } else if (profit < 0) {
+    totals.grossLoss -= profit;
+    totals.losses++;
+  } else {
+    totals.evens++;
+  }
+}
+
+export function startingExtremes(capital: number): EquityExtremes {
+  return {
+    peak: capital,
+    trough: capital,
+    maxDrawdown: 0,
+    maxDrawdownPercent: 0,
+    maxRunup: 0,
+    maxRunupPercent: 0,
+  };
+}
+
+/** Fold one equity reading into the drawdown and run-up extremes. */
+export function trackEquity(extremes: EquityExtremes, equity: number): void {
+  if (Number.isNaN(equity)) return;
+  extremes.peak = Math.max(extremes.peak, equity);
+  extremes.trough = Math.min(extremes.trough, equity);
+  const drawdown = extremes.peak - equity;
+  const runup = equity - extremes.trough;
+  extremes.maxDrawdown = Math.max(extremes.maxDrawdown, drawdown);
+  extremes.maxRunup = Math.max(extremes.maxRunup, runup);
+  if (extremes.peak > 0) {
+    extremes.maxDrawdownPercent = Math.max(
+      extremes.maxDrawdownPercent,
+      (drawdown / extremes.peak) * 100,
+    );
+  }
+  if (extremes.trough > 0) {
+    extremes.maxRunupPercent = Math.max(
+      extremes.maxRunupPercent,
+      (runup / extremes.trough) * 100,
+    );
+  }
+}
+
+/** `part / whole`, or `NaN` when `whole` is zero. */
+export function ratio(part: number, whole: number): number {
+  return whole === 0 ? Number.NaN : part / whole;
+}
+
+/** `amount` as a percentage of what the trade put in. */
+export function tradePercent(trade: StrategyTrade, amount: number): number {
+  return ratio(amount * 100, trade.entryPrice * Math.abs(trade.size));
+}
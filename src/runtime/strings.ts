@@ -0,0 +1,259 @@
+/**
+ * String Runtime
+ *
+ * Pine's `str` namespace and the `format.*` constants for both factory
+ * paths and library modules. Inputs are coerced the way Pine does, so a
+ * `na` reaching a string function yields an empty or `NaN` result
+ * instead of stopping the script.
+ *
+ * `str.tostring()` writes numbers with Pine's default `#.##########`
+ * pattern unless it is given a `format.*` constant or a number pattern
+ * of its own; `str.format()` understands the full message syntax of
+ * `text-format.ts`.
+ */
+
+import {
+  DEFAULT_NUMBER_PATTERN,
+  formatDate,
+  formatMessage,
+  formatNumber,
+} from './text-format';
+
+/** The Pine `format.*` constants. */
+export const PINE_FORMAT = Object.freeze({
+  inherit: 'inherit',
+  price: 'price',
+  volume: 'volume',
+  percent: 'percent',
+  mintick: 'mintick',
+});
+
+/** The symbol fields `format.mintick` and `str.format_time()` read. */
+export interface StrSymbolInfo {
+  mintick: number;
+  timezone: string;
+}
+
+export interface StrNamespace {
+  tostring: (value: unknown, format?: unknown) => string;
+  tonumber: (value: unknown) => number;
+  length: (source: unknown) => number;
+  contains: (source: unknown, str: unknown) => boolean;
+  startswith: (source: unknown, str: unknown) => boolean;
+  endswith: (source: unknown, str: unknown) => boolean;
+  upper: (source: unknown) => string;
+  lower: (source: unknown) => string;
+  trim: (source: unknown) => string;
+  pos: (source: unknown, str: unknown) => number;
+  substring: (source: unknown, begin: unknown, end?: unknown) => string;
+  replace: (
+    source: unknown,
+    target: unknown,
+    replacement: unknown,
+    occurrence?: unknown,
+  ) => string;
+  replace_all: (
+    source: unknown,
+    target: unknown,
+    replacement: unknown,
+  ) => string;
+  split: (source: unknown, separator: unknown) => string[];
+  match: (source: unknown, regex: unknown) => string;
+  repeat: (source: unknown, repeat: unknown, separator?: unknown) => string;
+  format: (formatString: unknown, ...args: unknown[]) => string;
+  format_time: (time: unknown, format?: unknown, timezone?: unknown) => string;
+}
+
+/** Pine's default `str.format_time()` pattern. */
+const DEFAULT_TIME_PATTERN = "yyyy-MM-dd'T'HH:mm:ssZ";
+
+const VOLUME_UNITS: [number, string][] = [
+  [1e12, 'T'],
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'K'],
+];
+
+const DECIMAL_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+/** A Pine matrix as the `matrix.*` helpers build it. */
+function isMatrix(value: unknown): value is { _rows: unknown[][] } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as { _rows?: unknown })._rows)
+  );
+}
+
+function textOf(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/** Decimals a tick size shows, e.g. 2 for `0.25` and 5 for `0.00001`. */
+function tickDecimals(mintick: number): number {
+  let decimals = 0;
+  while (
+    decimals < 10 &&
+    Math.abs(Math.round(mintick * 10 ** decimals) - mintick * 10 ** decimals) >
+      1e-9
+  ) {
+    decimals++;
+  }
+  return decimals;
+}
+
+function formatVolume(value: number): string {
+  const abs = Math.abs(value);
+  for (const [size, unit] of VOLUME_UNITS) {
+    if (abs >= size) return `${formatNumber(value / size, '#.###')}${unit}`;
+  }
+  return formatNumber(value, '#.###');
+}
+
+/**
+ * A Pine regex as a JS one. Leading inline flags (`(?i)`, `(?s)`,
+ * `(?m)`) become regex flags; JS has no inline form for them.
+ */
+function compileRegex(
+  source: string,
+  cache: Map<string, RegExp>,
+): RegExp | null {
+  let regex = cache.get(source);
+  if (!regex) {
+    const inline = /^\(\?([ims]+)\)/.exec(source);
+    try {
+      regex = inline
+        ? new RegExp(source.slice(inline[0].length), inline[1])
+        : new RegExp(source);
+    } catch {
+      return null;
+    }
+    cache.set(source, regex);
+  }
+  return regex;
+}
+
+/**
+ * Create the Pine `str` namespace. `readSymbol` supplies the chart
+ * symbol of the bar being executed; without it `format.mintick` falls
+ * back to the default pattern and times are written in UTC.
+ */
+export function createStrNamespace(
+  readSymbol: () => Partial<StrSymbolInfo> = () => ({}),
+): StrNamespace {
+  const regexes = new Map<string, RegExp>();
+
+  const formatNumberAs = (value: number, format: unknown): string => {
+    switch (format) {
+      case undefined:
+      case null:
+      case '':
+      case PINE_FORMAT.inherit:
+      case PINE_FORMAT.price:
+        return formatNumber(value, DEFAULT_NUMBER_PATTERN);
+      case PINE_FORMAT.percent:
+        return formatNumber(value, "0.00'%'");
+      case PINE_FORMAT.volume:
+        return formatVolume(value);
+      case PINE_FORMAT.mintick: {
+        const mintick = Number(readSymbol().mintick);
+        if (!(mintick > 0) || Number.isNaN(value)) {
+          return formatNumber(value, DEFAULT_NUMBER_PATTERN);
+        }
+        const decimals = tickDecimals(mintick);
+        // The precision cap keeps `1.005 / 0.01` on its tie.
+        const ticks =
+          Math.round(Number((value / mintick).toPrecision(12))) * mintick;
+        return formatNumber(
+          ticks,
+          `0${decimals > 0 ? '.' : ''}${'0'.repeat(decimals)}`,
+        );
+      }
+      default:
+        return formatNumber(value, textOf(format));
+    }
+  };
+
+  const tostring = (value: unknown, format?: unknown): string => {
+    if (typeof value === 'number') return formatNumberAs(value, format);
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => tostring(item, format)).join(', ')}]`;
+    }
+    if (isMatrix(value)) {
+      return value._rows.map((row) => tostring(row, format)).join('\n');
+    }
+    return textOf(value);
+  };
+
+  return {
+    tostring,
+    tonumber: (value) => {
+      if (typeof value === 'number') return value;
+      const text = textOf(value).trim();
+      return DECIMAL_NUMBER.test(text) ? Number(text) : Number.NaN;
+    },
+    length: (source) => textOf(source).length,
+    contains: (source, str) => textOf(source).includes(textOf(str)),
+    startswith: (source, str) => textOf(source).startsWith(textOf(str)),
+    endswith: (source, str) => textOf(source).endsWith(textOf(str)),
+    upper: (source) => textOf(source).toUpperCase(),
+    lower: (source) => textOf(source).toLowerCase(),
+    trim: (source) => textOf(source).trim(),
+    pos: (source, str) => {
+      const index = textOf(source).indexOf(textOf(str));
+      return index === -1 ? Number.NaN : index;
+    },
+    substring: (source, begin, end) => {
+      const text = textOf(source);
+      const from = Number(begin);
+      const to = end === undefined ? text.length : Number(end);
+      return text.substring(
+        Number.isFinite(from) ? from : 0,
+        Number.isFinite(to) ? to : text.length,
+      );
+    },
+    replace: (source, target, replacement, occurrence = 0) => {
+      const text = textOf(source);
+      const find = textOf(target);
+      if (!find) return text;
+      let index = -1;
+      for (let n = Math.trunc(Number(occurrence)) || 0; n >= 0; n--) {
+        index = text.indexOf(find, index + 1);
+        if (index === -1) return text;
+      }
+      return (
+        text.slice(0, index) +
+        textOf(replacement) +
+        text.slice(index + find.length)
+      );
+    },
+    replace_all: (source, target, replacement) => {
+      const text = textOf(source);
+      const find = textOf(target);
+      return find ? text.split(find).join(textOf(replacement)) : text;
+    },
+    split: (source, separator) => textOf(source).split(textOf(separator)),
+    match: (source, regex) => {
+      const compiled = compileRegex(textOf(regex), regexes);
+      return compiled?.exec(textOf(source))?.[0] ?? '';
+    },
+    repeat: (source, repeat, separator = '') => {
+      const count = Math.trunc(Number(repeat));
+      if (!(count > 0)) return '';
+      return new Array(count).fill(textOf(source)).join(textOf(separator));
+    },
+    format: (formatString, ...args) =>
+      formatMessage(textOf(formatString), args),
+    format_time: (time, format, timezone) => {
+      const timestamp = Number(time);
+      if (!Number.isFinite(timestamp)) return '';
+      return formatDate(
+        timestamp,
+        textOf(format) || DEFAULT_TIME_PATTERN,
+        timezone === undefined || timezone === null
+          ? textOf(readSymbol().timezone)
+          : textOf(timezone),
+      );
+    },
+  };
+}
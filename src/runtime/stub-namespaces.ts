@@ -7,11 +7,17 @@
  */
 
 import {
+  type ChartPointNamespace,
   createDrawingRuntime,
   type DrawingEventSink,
   type DrawingHandle as SharedDrawingHandle,
   type DrawingTableHandle as SharedDrawingTableHandle,
 } from './drawing';
+import {
+  createStrNamespace,
+  type StrNamespace,
+  type StrSymbolInfo,
+} from './strings';
 
 // ============================================================================
 // Namespace Interfaces
@@ -69,6 +75,15 @@ export interface LinefillStub {
   [key: string]: unknown;
 }
 
+/** Namespace for polyline drawing functions */
+export interface PolylineStub {
+  new: (...args: unknown[]) => DrawingHandle;
+  delete: (polylineObj: unknown) => void;
+  __hasHandle: (value: unknown) => boolean;
+  __visualArgs: (fnName: string, args: unknown[], result: unknown) => unknown[];
+  [key: string]: unknown;
+}
+
 /** Namespace for label functions */
 export interface LabelStub {
   new: (...args: unknown[]) => DrawingHandle;
@@ -96,28 +111,8 @@ export interface TableStub {
   [key: string]: unknown;
 }
 
-/** Namespace for string functions */
-export interface StrStub {
-  tostring: (v: unknown, format?: unknown) => string;
-  tonumber: (v: unknown) => number;
-  length: (v: unknown) => number;
-  contains: (s: unknown, sub: unknown) => boolean;
-  startswith: (s: unknown, prefix: unknown) => boolean;
-  endswith: (s: unknown, suffix: unknown) => boolean;
-  upper: (s: unknown) => string;
-  lower: (s: unknown) => string;
-  replace_all: (s: unknown, target: unknown, replacement: unknown) => string;
-  trim: (s: unknown) => string;
-  split: (s: unknown, sep: unknown) => string[];
-  pos: (s: unknown, sub: unknown) => number;
-  substring: (s: unknown, start: unknown, end?: unknown) => string;
-  format: (fmt: unknown, ...args: unknown[]) => string;
-  format_time: (
-    timestamp: unknown,
-    format: unknown,
-    timezone?: unknown,
-  ) => string;
-}
+/** Namespace for string functions, from `createStrNamespace`. */
+export type StrStub = StrNamespace;
 
 /** Namespace for bar state information */
 export interface BarstateStub {
@@ -150,7 +145,10 @@ export interface StubNamespaces {
   line: LineStub;
   linefill: LinefillStub;
   label: LabelStub;
+  polyline: PolylineStub;
   table: TableStub;
+  /** `chart.point`, reached through the `chart` namespace. */
+  chartPoint: ChartPointNamespace;
   str: StrStub;
   barstate: BarstateStub;
 }
@@ -182,9 +180,12 @@ export function resetStubWarnings(): void {}
 
 /**
  * Create runtime compatibility namespaces.
- * Drawing/table namespaces are stateful no-op objects.
+ * Drawing/table namespaces are stateful no-op objects. `readSymbol`
+ * gives `str` the symbol of the bar being executed.
  */
-export function createStubNamespaces(): StubNamespaces {
+export function createStubNamespaces(
+  readSymbol?: () => Partial<StrSymbolInfo>,
+): StubNamespaces {
   const drawing = createDrawingRuntime(createNoopDrawingSink());
 
   return {
@@ -192,135 +193,10 @@ export function createStubNamespaces(): StubNamespaces {
     line: drawing.line as LineStub,
     linefill: drawing.linefill as LinefillStub,
     label: drawing.label as LabelStub,
+    polyline: drawing.polyline as PolylineStub,
     table: drawing.table as TableStub,
-    str: ((): StrStub => {
-      // Coerce arbitrary inputs to strings safely — Pine `str.X` calls
-      // can be fed numbers, NaN, undefined (e.g. when an upstream Std
-      // function returned NaN). Real PineJS coerces; mirror that so a
-      // missing input doesn't take down the whole indicator.
-      const c = (v: unknown): string => (v == null ? '' : String(v));
-      const two = (n: number): string => String(Math.trunc(n)).padStart(2, '0');
-      const readClockAt = (
-        timestamp: number,
-        timezone?: unknown,
-      ): {
-        year: number;
-        month: number;
-        day: number;
-        hour: number;
-        minute: number;
-        second: number;
-      } => {
-        if (typeof timezone === 'string' && timezone.trim()) {
-          try {
-            const parts = new Intl.DateTimeFormat('en-US', {
-              timeZone: timezone,
-              hour12: false,
-              year: 'numeric',
-              month: '2-digit',
-              day: '2-digit',
-              hour: '2-digit',
-              minute: '2-digit',
-              second: '2-digit',
-            }).formatToParts(new Date(timestamp));
-            const year = Number(
-              parts.find((p) => p.type === 'year')?.value ?? Number.NaN,
-            );
-            const month = Number(
-              parts.find((p) => p.type === 'month')?.value ?? Number.NaN,
-            );
-            const day = Number(
-              parts.find((p) => p.type === 'day')?.value ?? Number.NaN,
-            );
-            const hour = Number(
-              parts.find((p) => p.type === 'hour')?.value ?? Number.NaN,
-            );
-            const minute = Number(
-              parts.find((p) => p.type === 'minute')?.value ?? Number.NaN,
-            );
-            const second = Number(
-              parts.find((p) => p.type === 'second')?.value ?? Number.NaN,
-            );
-            if (
-              Number.isFinite(year) &&
-              Number.isFinite(month) &&
-              Number.isFinite(day) &&
-              Number.isFinite(hour) &&
-              Number.isFinite(minute) &&
-              Number.isFinite(second)
-            ) {
-              return {
-                year,
-                month,
-                day,
-                hour,
-                minute,
-                second,
-              };
-            }
-          } catch {
-            // Fall through to UTC below.
-          }
-        }
-        const d = new Date(timestamp);
-        return {
-          year: d.getUTCFullYear(),
-          month: d.getUTCMonth() + 1,
-          day: d.getUTCDate(),
-          hour: d.getUTCHours(),
-          minute: d.getUTCMinutes(),
-          second: d.getUTCSeconds(),
-        };
-      };
-      const formatTime = (
-        timestamp: unknown,
-        fmt: unknown,
-        timezone?: unknown,
-      ): string => {
-        const tsNum = Number(timestamp);
-        if (!Number.isFinite(tsNum)) return '';
-        const formatStr = c(fmt) || 'yyyy-MM-dd HH:mm:ss';
-        const clock = readClockAt(tsNum, timezone);
-        const twelveHour = ((clock.hour + 11) % 12) + 1;
-        return formatStr
-          .replace(/yyyy/g, String(clock.year))
-          .replace(/yy/g, String(clock.year % 100).padStart(2, '0'))
-          .replace(/MM/g, two(clock.month))
-          .replace(/dd/g, two(clock.day))
-          .replace(/HH/g, two(clock.hour))
-          .replace(/hh/g, two(twelveHour))
-          .replace(/mm/g, two(clock.minute))
-          .replace(/ss/g, two(clock.second));
-      };
-      return {
-        tostring: (v) => c(v),
-        tonumber: (v) => {
-          const n = Number(c(v));
-          return Number.isFinite(n) ? n : Number.NaN;
-        },
-        length: (v) => c(v).length,
-        contains: (s, sub) => c(s).includes(c(sub)),
-        startswith: (s, prefix) => c(s).startsWith(c(prefix)),
-        endswith: (s, suffix) => c(s).endsWith(c(suffix)),
-        upper: (s) => c(s).toUpperCase(),
-        lower: (s) => c(s).toLowerCase(),
-        replace_all: (s, target, replacement) =>
-          c(s).split(c(target)).join(c(replacement)),
-        trim: (s) => c(s).trim(),
-        split: (s, sep) => c(s).split(c(sep)),
-        pos: (s, sub) => c(s).indexOf(c(sub)),
-        substring: (s, start, end) => {
-          const str = c(s);
-          const startIdx = typeof start === 'number' ? start : 0;
-          const endIdx = typeof end === 'number' ? end : str.length;
-          return str.substring(startIdx, endIdx);
-        },
-        format: (fmt, ...args) =>
-          c(fmt).replace(/{(\d+)}/g, (m, i) => c(args[Number(i)] ?? m)),
-        format_time: (timestamp, format, timezone) =>
-          formatTime(timestamp, format, timezone),
-      };
-    })(),
+    chartPoint: drawing.chartPoint,
+    str: createStrNamespace(readSymbol),
     barstate: createBarstate(),
   };
 }
@@ -0,0 +1,605 @@
+/**
+ * Text Formatting
+ *
+ * The pattern languages behind Pine's string output, which follows
+ * Java's:
+ *
+ * - number patterns (`#,##0.00`, `0.###%`, `'$'#;('$'#)`) for
+ *   `str.tostring(value, pattern)` and `{0,number,...}`;
+ * - date patterns (`yyyy-MM-dd'T'HH:mm:ssZ`) for `str.format_time()`
+ *   and `{0,date,...}` / `{0,time,...}`;
+ * - message patterns (`{0}`, `{1,number,percent}`, `'{'quoted'}'`) for
+ *   `str.format()` and the log functions.
+ *
+ * Ties round away from zero, and digits are always written with the
+ * en-US symbols.
+ */
+
+// ============================================================================
+// Numbers
+// ============================================================================
+
+interface NumberPattern {
+  positivePrefix: string;
+  positiveSuffix: string;
+  negativePrefix: string;
+  negativeSuffix: string;
+  multiplier: number;
+  minInteger: number;
+  minFraction: number;
+  maxFraction: number;
+  /** Digits per group, or 0 without grouping. */
+  grouping: number;
+}
+
+/** Pine's default number format, which `str.tostring()` uses. */
+export const DEFAULT_NUMBER_PATTERN = '#.##########';
+
+const numberPatterns = new Map<string, NumberPattern>();
+
+/** `abs` (non-negative) with `digits` decimals, ties rounded up. */
+function toFixedHalfUp(abs: number, digits: number): string {
+  const shifted = Number((abs * 10 ** digits).toPrecision(15));
+  if (shifted >= Number.MAX_SAFE_INTEGER) return abs.toFixed(digits);
+  const whole = String(Math.round(shifted)).padStart(digits + 1, '0');
+  return digits === 0
+    ? whole
+    : `${whole.slice(0, -digits)}.${whole.slice(-digits)}`;
+}
+
+/**
+ * Read the literal text of a pattern affix up to the first character
+ * of `stop`. Quotes escape text (`''` is a quote); `%`, `‰` and `¤`
+ * also set the multiplier or stand for the currency sign.
+ */
+function readAffix(
+  pattern: string,
+  start: number,
+  stop: string,
+  onMultiplier: (multiplier: number) => void,
+): [text: string, end: number] {
+  let text = '';
+  let i = start;
+  while (i < pattern.length && !stop.includes(pattern[i])) {
+    const ch = pattern[i];
+    if (ch === "'") {
+      if (pattern[i + 1] === "'") {
+        text += "'";
+        i += 2;
+        continue;
+      }
+      const close = pattern.indexOf("'", i + 1);
+      const end = close === -1 ? pattern.length : close;
+      text += pattern.slice(i + 1, end).replace(/''/g, "'");
+      i = end + 1;
+      continue;
+    }
+    if (ch === '%') onMultiplier(100);
+    if (ch === '‰') onMultiplier(1000);
+    text += ch === '¤' ? '$' : ch;
+    i++;
+  }
+  return [text, i];
+}
+
+function parseNumberPattern(pattern: string): NumberPattern {
+  let multiplier = 1;
+  const setMultiplier = (value: number) => {
+    multiplier = value;
+  };
+  const [prefix, numberStart] = readAffix(pattern, 0, '#0,.', setMultiplier);
+  let numberEnd = numberStart;
+  while (numberEnd < pattern.length && '#0,.'.includes(pattern[numberEnd])) {
+    numberEnd++;
+  }
+  const [suffix, suffixEnd] = readAffix(pattern, numberEnd, ';', setMultiplier);
+  let negativePrefix = `-${prefix}`;
+  let negativeSuffix = suffix;
+  if (pattern[suffixEnd] === ';') {
+    const ignore = () => undefined;
+    const [negPrefix, negNumberStart] = readAffix(
+      pattern,
+      suffixEnd + 1,
+      '#0,.',
+      ignore,
+    );
+    let negNumberEnd = negNumberStart;
+    while (
+      negNumberEnd < pattern.length &&
+      '#0,.'.includes(pattern[negNumberEnd])
+    ) {
+      negNumberEnd++;
+    }
+    negativePrefix = negPrefix;
+    negativeSuffix = readAffix(pattern, negNumberEnd, '', ignore)[0];
+  }
+
+  const digits = pattern.slice(numberStart, numberEnd);
+  const point = digits.indexOf('.');
+  const integerPart = point === -1 ? digits : digits.slice(0, point);
+  const fractionPart = point === -1 ? '' : digits.slice(point + 1);
+  const lastComma = integerPart.lastIndexOf(',');
+  return {
+    positivePrefix: prefix,
+    positiveSuffix: suffix,
+    negativePrefix,
+    negativeSuffix,
+    multiplier,
+    // Pine keeps the leading zero of `0.5` even under `#.##`.
+    minInteger: Math.max(1, integerPart.split('0').length - 1),
+    minFraction: fractionPart.split('0').length - 1,
+    maxFraction: fractionPart.replace(/,/g, '').length,
+    grouping: lastComma === -1 ? 0 : integerPart.length - lastComma - 1,
+  };
+}
+
+function readNumberPattern(pattern: string): NumberPattern {
+  let parsed = numberPatterns.get(pattern);
+  if (!parsed) {
+    parsed = parseNumberPattern(pattern);
+    numberPatterns.set(pattern, parsed);
+  }
+  return parsed;
+}
+
+function groupDigits(digits: string, size: number): string {
+  if (size <= 0 || digits.length <= size) return digits;
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= size) {
+    groups.unshift(digits.slice(Math.max(0, end - size), end));
+  }
+  return groups.join(',');
+}
+
+/** `value` written with a number pattern such as `#,##0.00`. */
+export function formatNumber(value: number, pattern: string): string {
+  if (Number.isNaN(value)) return 'NaN';
+  const format = readNumberPattern(pattern);
+  const scaled = Math.abs(value) * format.multiplier;
+  if (!Number.isFinite(scaled)) {
+    return value < 0
+      ? `${format.negativePrefix}∞${format.negativeSuffix}`
+      : `${format.positivePrefix}∞${format.positiveSuffix}`;
+  }
+  const [rawInteger, rawFraction = ''] = toFixedHalfUp(
+    scaled,
+    format.maxFraction,
+  ).split('.');
+  let fraction = rawFraction;
+  while (fraction.length > format.minFraction && fraction.endsWith('0')) {
+    fraction = fraction.slice(0, -1);
+  }
+  const integer = groupDigits(
+    rawInteger.replace(/^0+/, '').padStart(format.minInteger, '0'),
+    format.grouping,
+  );
+  const body = fraction ? `${integer}.${fraction}` : integer;
+  const negative = value < 0 && /[1-9]/.test(rawInteger + rawFraction);
+  return negative
+    ? `${format.negativePrefix}${body}${format.negativeSuffix}`
+    : `${format.positivePrefix}${body}${format.positiveSuffix}`;
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/** Wall-clock fields of a timestamp in a timezone. */
+interface ClockFields {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** 0 for Sunday through 6 for Saturday. */
+  weekday: number;
+  /** Minutes the timezone is ahead of UTC. */
+  offset: number;
+}
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const clockFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function clockFormatter(timezone: string): Intl.DateTimeFormat | null {
+  if (!clockFormatters.has(timezone)) {
+    let formatter: Intl.DateTimeFormat | null = null;
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      });
+    } catch {
+      // Unknown timezone: read the clock in UTC.
+    }
+    clockFormatters.set(timezone, formatter);
+  }
+  return clockFormatters.get(timezone) ?? null;
+}
+
+/** `UTC+5`, `GMT-03:30` and the like, in minutes ahead of UTC. */
+function fixedOffsetMinutes(timezone: string): number | null {
+  const normalized = timezone.trim().toUpperCase();
+  if (normalized === 'UTC' || normalized === 'GMT') return 0;
+  const match = /^(?:GMT|UTC)([+-])(\d{1,2})(?::?(\d{2}))?$/.exec(normalized);
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3] ?? 0);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function utcClock(timestamp: number, offset: number): ClockFields {
+  const d = new Date(timestamp + offset * 60_000);
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    second: d.getUTCSeconds(),
+    millisecond: d.getUTCMilliseconds(),
+    weekday: d.getUTCDay(),
+    offset,
+  };
+}
+
+/**
+ * Wall-clock fields of `timestamp` in an IANA or `UTC±h` timezone; UTC
+ * when the timezone is empty or unknown.
+ */
+function readClockAt(timestamp: number, timezone = ''): ClockFields {
+  if (!timezone.trim()) return utcClock(timestamp, 0);
+  const fixed = fixedOffsetMinutes(timezone);
+  if (fixed !== null) return utcClock(timestamp, fixed);
+  const formatter = clockFormatter(timezone);
+  if (!formatter) return utcClock(timestamp, 0);
+  const fields: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    fields[part.type] = Number(part.value);
+  }
+  const wholeSeconds = Math.floor(timestamp / 1000) * 1000;
+  const wallTime = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second,
+  );
+  return utcClock(timestamp, Math.round((wallTime - wholeSeconds) / 60_000));
+}
+
+function formatOffset(offset: number, separator: string): string {
+  const abs = Math.abs(offset);
+  const hours = String(Math.floor(abs / 60)).padStart(2, '0');
+  const minutes = String(abs % 60).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${hours}${separator}${minutes}`;
+}
+
+function timezoneName(
+  timestamp: number,
+  timezone: string,
+  offset: number,
+  style: 'short' | 'long',
+): string {
+  if (offset === 0 && fixedOffsetMinutes(timezone || 'UTC') === 0) {
+    return style === 'short' ? 'UTC' : 'Coordinated Universal Time';
+  }
+  try {
+    const name = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      timeZoneName: style,
+    })
+      .formatToParts(new Date(timestamp))
+      .find((part) => part.type === 'timeZoneName')?.value;
+    if (name) return name;
+  } catch {
+    // Offset timezones have no name; write the offset instead.
+  }
+  return `GMT${formatOffset(offset, ':')}`;
+}
+
+function dateField(
+  letter: string,
+  count: number,
+  clock: ClockFields,
+  timestamp: number,
+  timezone: string,
+): string | null {
+  const pad = (value: number) => String(value).padStart(count, '0');
+  switch (letter) {
+    case 'G':
+      return clock.year > 0 ? 'AD' : 'BC';
+    case 'y':
+    case 'Y':
+      return count === 2
+        ? String(clock.year % 100).padStart(2, '0')
+        : pad(clock.year);
+    case 'M':
+    case 'L':
+      if (count >= 4) return MONTHS[clock.month - 1];
+      if (count === 3) return MONTHS[clock.month - 1].slice(0, 3);
+      return pad(clock.month);
+    case 'd':
+      return pad(clock.day);
+    case 'D': {
+      const dayOfYear =
+        (Date.UTC(clock.year, clock.month - 1, clock.day) -
+          Date.UTC(clock.year, 0, 1)) /
+          86_400_000 +
+        1;
+      return pad(dayOfYear);
+    }
+    case 'E':
+      return count >= 4
+        ? WEEKDAYS[clock.weekday]
+        : WEEKDAYS[clock.weekday].slice(0, 3);
+    case 'u':
+      return pad(clock.weekday === 0 ? 7 : clock.weekday);
+    case 'a':
+      return clock.hour < 12 ? 'AM' : 'PM';
+    case 'H':
+      return pad(clock.hour);
+    case 'k':
+      return pad(clock.hour === 0 ? 24 : clock.hour);
+    case 'K':
+      return pad(clock.hour % 12);
+    case 'h':
+      return pad(((clock.hour + 11) % 12) + 1);
+    case 'm':
+      return pad(clock.minute);
+    case 's':
+      return pad(clock.second);
+    case 'S':
+      return pad(clock.millisecond);
+    case 'z':
+      return timezoneName(
+        timestamp,
+        timezone,
+        clock.offset,
+        count >= 4 ? 'long' : 'short',
+      );
+    case 'Z':
+      return formatOffset(clock.offset, '');
+    case 'X':
+      if (clock.offset === 0) return 'Z';
+      return count === 1
+        ? formatOffset(clock.offset, '').slice(0, 3)
+        : formatOffset(clock.offset, count >= 3 ? ':' : '');
+    default:
+      return null;
+  }
+}
+
+/**
+ * `timestamp` (UTC milliseconds) written with a date pattern such as
+ * `yyyy-MM-dd'T'HH:mm:ssZ`, on the clock of `timezone`.
+ */
+export function formatDate(
+  timestamp: number,
+  pattern: string,
+  timezone = '',
+): string {
+  const clock = readClockAt(timestamp, timezone);
+  let out = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (ch === "'") {
+      if (pattern[i + 1] === "'") {
+        out += "'";
+        i += 2;
+        continue;
+      }
+      const close = pattern.indexOf("'", i + 1);
+      const end = close === -1 ? pattern.length : close;
+      out += pattern.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+    if (!/[A-Za-z]/.test(ch)) {
+      out += ch;
+      i++;
+      continue;
+    }
+    let count = 1;
+    while (pattern[i + count] === ch) count++;
+    out +=
+      dateField(ch, count, clock, timestamp, timezone) ??
+      pattern.slice(i, i + count);
+    i += count;
+  }
+  return out;
+}
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+const NUMBER_STYLES: Record<string, string> = {
+  '': '#,##0.###',
+  integer: '#,##0',
+  percent: '#,##0%',
+  currency: '¤#,##0.00',
+};
+const DATE_STYLES: Record<string, string> = {
+  '': 'MMM d, yyyy',
+  short: 'M/d/yy',
+  medium: 'MMM d, yyyy',
+  long: 'MMMM d, yyyy',
+  full: 'EEEE, MMMM d, yyyy',
+};
+const TIME_STYLES: Record<string, string> = {
+  '': 'h:mm:ss a',
+  short: 'h:mm a',
+  medium: 'h:mm:ss a',
+  long: 'h:mm:ss a z',
+  full: 'h:mm:ss a zzzz',
+};
+
+function textOf(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function numberArgument(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return null;
+  const text = textOf(value).trim();
+  return text !== '' && Number.isFinite(Number(text)) ? Number(text) : null;
+}
+
+/**
+ * A `choice` style: `limit#text` options split by `|`, where `<` in
+ * place of `#` makes the limit exclusive. The last option whose limit
+ * `value` reaches wins, and its text is a message pattern itself.
+ */
+function formatChoice(value: number, style: string, args: unknown[]): string {
+  let chosen = '';
+  for (const [index, option] of style.split('|').entries()) {
+    const match = /^\s*([^#<≤]*?)\s*([#<≤])(.*)$/s.exec(option);
+    if (!match) continue;
+    const limit = match[1].replace('∞', 'Infinity');
+    const bound = Number(limit);
+    const reached = match[2] === '<' ? value > bound : value >= bound;
+    if (index === 0 || reached) chosen = match[3];
+    if (!reached && index > 0) break;
+  }
+  return formatMessage(chosen, args);
+}
+
+function formatArgument(
+  value: unknown,
+  type: string,
+  style: string,
+  args: unknown[],
+): string {
+  const keyword = style.trim().toLowerCase();
+  const number = numberArgument(value);
+  switch (type) {
+    case '':
+      return typeof value === 'number'
+        ? formatNumber(value, NUMBER_STYLES[''])
+        : textOf(value);
+    case 'number':
+      if (number === null) return textOf(value);
+      return formatNumber(number, NUMBER_STYLES[keyword] ?? style);
+    case 'date':
+    case 'time': {
+      if (number === null || !Number.isFinite(number)) return textOf(value);
+      const styles = type === 'date' ? DATE_STYLES : TIME_STYLES;
+      return formatDate(number, styles[keyword] ?? style);
+    }
+    case 'choice':
+      return number === null
+        ? textOf(value)
+        : formatChoice(number, style, args);
+    default:
+      return textOf(value);
+  }
+}
+
+/**
+ * Split the inside of a `{...}` placeholder into its index, type and
+ * style. Only the first two commas separate; the style keeps the rest.
+ */
+function splitPlaceholder(inner: string): [string, string, string] {
+  const first = inner.indexOf(',');
+  if (first === -1) return [inner.trim(), '', ''];
+  const second = inner.indexOf(',', first + 1);
+  if (second === -1) {
+    return [inner.slice(0, first).trim(), inner.slice(first + 1).trim(), ''];
+  }
+  return [
+    inner.slice(0, first).trim(),
+    inner
+      .slice(first + 1, second)
+      .trim()
+      .toLowerCase(),
+    inner.slice(second + 1),
+  ];
+}
+
+/** Index of the `}` closing the placeholder that opens at `start`. */
+function placeholderEnd(pattern: string, start: number): number {
+  let depth = 0;
+  let quoted = false;
+  for (let i = start; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === "'") quoted = !quoted;
+    else if (quoted) continue;
+    else if (ch === '{') depth++;
+    else if (ch === '}' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * `pattern` with its `{index[,type[,style]]}` placeholders replaced by
+ * the formatted arguments. Types are `number` (styles `integer`,
+ * `percent`, `currency` or a number pattern), `date` and `time` (styles
+ * `short`, `medium`, `long`, `full` or a date pattern, on the UTC
+ * clock) and `choice`. Quotes escape braces, `''` is a quote, and a
+ * placeholder without its argument is kept as written.
+ */
+export function formatMessage(pattern: string, args: unknown[]): string {
+  let out = '';
+  let i = 0;
+  while (i < pattern.length) {
+    const ch = pattern[i];
+    if (ch === "'") {
+      if (pattern[i + 1] === "'") {
+        out += "'";
+        i += 2;
+        continue;
+      }
+      const close = pattern.indexOf("'", i + 1);
+      const end = close === -1 ? pattern.length : close;
+      out += pattern.slice(i + 1, end);
+      i = end + 1;
+      continue;
+    }
+    const end = ch === '{' ? placeholderEnd(pattern, i) : -1;
+    if (end === -1) {
+      out += ch;
+      i++;
+      continue;
+    }
+    const [index, type, style] = splitPlaceholder(pattern.slice(i + 1, end));
+    const position = /^\d+$/.test(index) ? Number(index) : -1;
+    out +=
+      position >= 0 && position < args.length
+        ? formatArgument(args[position], type, style, args)
+        : pattern.slice(i, end + 1);
+    i = end + 1;
+  }
+  return out;
+}
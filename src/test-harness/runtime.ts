@@ -1,3 +1,4 @@
+import { createStd } from '../runtime/std';
 import type {
   InputCallback,
   PineJSRuntime,
@@ -7,10 +8,6 @@ import type {
 import { generateSyntheticBars } from './bars';
 import type { SyntheticBar } from './types';
 
-interface SeriesLike {
-  get?: (offset: number) => unknown;
-}
-
 class HarnessSeries {
   private values: number[] = [];
 
@@ -78,14 +75,6 @@ class HarnessContext implements RuntimeContext {
   }
 }
 
-function isSeriesLike(value: unknown): value is SeriesLike {
-  return (
-    typeof value === 'object' &&
-    value !== null &&
-    typeof (value as SeriesLike).get === 'function'
-  );
-}
-
 function coerceNumber(value: unknown): number {
   if (typeof value === 'number')
     return Number.isFinite(value) ? value : Number.NaN;
@@ -104,61 +93,11 @@ function coerceNumber(value: unknown): number {
   return Number.NaN;
 }
 
-function readSeries(value: unknown, offset = 0): number {
-  if (isSeriesLike(value)) return coerceNumber(value.get?.(offset));
-  if (offset === 0) return coerceNumber(value);
-  return Number.NaN;
-}
-
-function seriesHistory(value: unknown, max = 512): number[] {
-  const xs: number[] = [];
-  for (let i = 0; i < max; i++) {
-    const v = readSeries(value, i);
-    if (!Number.isFinite(v)) break;
-    xs.push(v);
-  }
-  return xs;
-}
-
-function sma(series: unknown, length: number): number {
-  const n = Math.max(1, Math.trunc(Number(length) || 1));
-  const hist = seriesHistory(series, n);
-  if (hist.length < n) return Number.NaN;
-  const slice = hist.slice(0, n);
-  return slice.reduce((a, b) => a + b, 0) / n;
-}
-
-function ema(series: unknown, length: number): number {
-  const n = Math.max(1, Math.trunc(Number(length) || 1));
-  const hist = seriesHistory(series, Math.max(n * 6, 30));
-  if (hist.length === 0) return Number.NaN;
-  const alpha = 2 / (n + 1);
-  let acc = hist[hist.length - 1];
-  for (let i = hist.length - 2; i >= 0; i--) {
-    acc = hist[i] * alpha + acc * (1 - alpha);
-  }
-  return acc;
-}
-
-function rsi(series: unknown, length: number): number {
-  const n = Math.max(1, Math.trunc(Number(length) || 14));
-  const hist = seriesHistory(series, n + 1);
-  if (hist.length < n + 1) return Number.NaN;
-  let gain = 0;
-  let loss = 0;
-  for (let i = 0; i < n; i++) {
-    const delta = hist[i] - hist[i + 1];
-    if (delta >= 0) gain += delta;
-    else loss += -delta;
-  }
-  if (loss === 0) return 100;
-  const rs = gain / loss;
-  return 100 - 100 / (1 + rs);
-}
-
 interface CreateHarnessRuntimeOptions {
   barCount: number;
   barIndexStart: number;
+  /** Bars to replay; synthetic bars are generated when omitted. */
+  bars?: SyntheticBar[];
 }
 
 export interface HarnessRuntime {
@@ -179,42 +118,22 @@ export interface HarnessRuntime {
 export function createHarnessRuntime(
   options: CreateHarnessRuntimeOptions,
 ): HarnessRuntime {
-  const bars = generateSyntheticBars(options.barCount);
+  const bars = options.bars ?? generateSyntheticBars(options.barCount);
+  // Bar duration from the first two bars, for `time_close`.
+  const barDuration = bars.length > 1 ? bars[1].time - bars[0].time : 60_000;
   const context = new HarnessContext(options.barCount);
   context.barIndex = options.barIndexStart;
   const unimplementedStdCalls = new Set<string>();
 
   let pointer = 0;
-  const currentBar = (): SyntheticBar | undefined => bars[pointer];
-  const resolveTimestamp = (...args: unknown[]): number => {
-    for (const arg of args) {
-      if (typeof arg === 'number' && Number.isFinite(arg)) return arg;
-      if (isSeriesLike(arg)) {
-        const v = arg.get?.(0);
-        if (typeof v === 'number' && Number.isFinite(v)) return v;
-      }
-    }
-    return currentBar()?.time ?? 0;
-  };
+  const std = createStd({
+    bar: (offset = 0) => bars[pointer - offset],
+    index: () => pointer,
+    barDuration: () => barDuration,
+  });
 
   const stdBase: Record<string, unknown> = {
-    close: () => currentBar()?.close ?? Number.NaN,
-    open: () => currentBar()?.open ?? Number.NaN,
-    high: () => currentBar()?.high ?? Number.NaN,
-    low: () => currentBar()?.low ?? Number.NaN,
-    volume: () => currentBar()?.volume ?? Number.NaN,
-    hl2: () => {
-      const b = currentBar();
-      return b ? (b.high + b.low) / 2 : Number.NaN;
-    },
-    hlc3: () => {
-      const b = currentBar();
-      return b ? (b.high + b.low + b.close) / 3 : Number.NaN;
-    },
-    ohlc4: () => {
-      const b = currentBar();
-      return b ? (b.open + b.high + b.low + b.close) / 4 : Number.NaN;
-    },
+    ...std,
     plot: () => {},
     plotshape: () => {},
     plotchar: () => {},
@@ -223,53 +142,6 @@ export function createHarnessRuntime(
     bgcolor: () => {},
     fill: () => {},
     barcolor: () => {},
-    time: () => currentBar()?.time ?? 0,
-    time_close: () => (currentBar()?.time ?? 0) + 60_000,
-    period: () => '1',
-    interval: () => 1,
-    isdwm: () => false,
-    isintraday: () => true,
-    isdaily: () => false,
-    isweekly: () => false,
-    ismonthly: () => false,
-    na: (value: unknown) => Number.isNaN(coerceNumber(value)),
-    nz: (value: unknown, replacement = 0) => {
-      const n = coerceNumber(value);
-      return Number.isFinite(n) ? n : coerceNumber(replacement);
-    },
-    fixnan: (value: unknown) => {
-      const n = coerceNumber(value);
-      return Number.isFinite(n) ? n : Number.NaN;
-    },
-    toBool: (value: unknown) => coerceNumber(value) !== 0,
-    sma: (series: unknown, length: number, _ctx: RuntimeContext) =>
-      sma(series, length),
-    ema: (series: unknown, length: number, _ctx: RuntimeContext) =>
-      ema(series, length),
-    rsi: (series: unknown, length: number, _ctx: RuntimeContext) =>
-      rsi(series, length),
-    tr: (..._args: unknown[]) => {
-      const b = currentBar();
-      return b ? b.high - b.low : Number.NaN;
-    },
-    atr: (_length: number, _ctx: RuntimeContext) => {
-      const b = currentBar();
-      return b ? b.high - b.low : Number.NaN;
-    },
-    hour: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCHours(),
-    minute: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCMinutes(),
-    second: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCSeconds(),
-    year: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCFullYear(),
-    month: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCMonth() + 1,
-    dayofmonth: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCDate(),
-    dayofweek: (...args: unknown[]) =>
-      new Date(resolveTimestamp(...args)).getUTCDay() + 1,
   };
 
   const Std = new Proxy(stdBase as PineJSStdLibrary, {
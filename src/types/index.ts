@@ -13,15 +13,20 @@ export type {
   IndicatorConstructor,
   IndicatorConstructorFactory,
   IndicatorFactory,
+  IndicatorRuntimeOptions,
   InputCallback,
   PineJSRuntime,
   PineJSStdLibrary,
+  PineSourceMap,
   PlotStyle,
   RuntimeContext,
+  SecurityBar,
+  SecurityDataProvider,
   StudyInputInfo,
   // Metadata types
   StudyMetaInfo,
   StudyPlotInfo,
+  TranspileToLibraryModuleResult,
   TranspileToPineJSResult,
   TranspileToStandaloneFactoryResult,
 } from './runtime';
@@ -142,6 +147,17 @@ export interface ParsedPlot {
   palette?: string | undefined;
 }
 
+/**
+ * Parsed alertcondition() call from Pine Script
+ */
+export interface ParsedAlertCondition {
+  id: string;
+  /** Empty when the title is not a string literal */
+  title: string;
+  /** Message template; `{{…}}` placeholders are left for the host */
+  message: string;
+}
+
 /**
  * Parsed bgcolor() call from Pine Script
  */
@@ -198,7 +214,10 @@ export interface TAFunctionMapping {
   needsSeries: boolean;
   /** Whether to append context as the last argument */
   contextArg: boolean;
-  /** Number of expected arguments (for validation) */
+  /**
+   * Number of expected arguments. Informational: the type checker
+   * enforces arity from the signatures in `src/checker/builtins.ts`.
+   */
   argCount?: number;
   /** Description for documentation */
   description?: string;
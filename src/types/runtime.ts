@@ -356,6 +356,51 @@ export interface PineJSRuntime {
   [key: string]: unknown;
 }
 
+/**
+ * One bar of another symbol, as a {@link SecurityDataProvider} returns
+ * it. `time` is the bar's open time in milliseconds.
+ */
+export interface SecurityBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Market data for `request.security()` calls on symbols other than the
+ * chart's. The runtime asks for a symbol's bars synchronously, on each
+ * chart bar a call site runs, so the host can hand out bars it already
+ * holds and let the list grow in realtime.
+ */
+export interface SecurityDataProvider {
+  /**
+   * Bars of `symbol` on `timeframe`, oldest first, or `undefined` when
+   * the host has none; the call then falls back to the chart's data.
+   * `timeframe` is the one the script asked for, with `""` resolved to
+   * the chart's.
+   */
+  getBars(
+    symbol: string,
+    timeframe: string,
+  ): readonly SecurityBar[] | undefined;
+}
+
+/**
+ * Options an indicator factory takes along with the PineJS runtime.
+ */
+export interface IndicatorRuntimeOptions {
+  /** Bars for `request.security()` on other symbols. */
+  securityDataProvider?: SecurityDataProvider;
+  /**
+   * Receives compile and runtime errors in place of `console.error`.
+   * A failing bar still returns its `__caughtError`.
+   */
+  onError?: (error: unknown) => void;
+}
+
 // ============================================================================
 // Indicator Metadata Types
 // ============================================================================
@@ -516,6 +561,9 @@ export interface StudyMetaInfo {
 
   /** Array of input definitions */
   inputs: StudyInputInfo[];
+
+  /** `alertcondition()` calls, for the host's alert-creation dialog */
+  alertConditions?: { id: string; title: string; message: string }[];
 }
 
 // ============================================================================
@@ -606,10 +654,28 @@ export interface CustomIndicator {
  * ```
  */
 export interface IndicatorFactory {
-  (PineJS: PineJSRuntime): CustomIndicator;
+  (PineJS: PineJSRuntime, options?: IndicatorRuntimeOptions): CustomIndicator;
   /** Literal transpiled JS body (Pine path) or the user's PineJS
    *  source after export-stripping (PineJS path). Non-enumerable. */
   readonly __pineJsBody?: string;
+  /** Source map from the compiled body back to the Pine source, present
+   *  when the factory was built with `sourceMap` enabled.
+   *  Non-enumerable. */
+  readonly __pineSourceMap?: PineSourceMap;
+}
+
+/**
+ * A source map (revision 3) from generated JavaScript back to the Pine
+ * source. Plain JSON, so it can be written next to a standalone
+ * factory as a `.map` file or handed to any v3 consumer.
+ */
+export interface PineSourceMap {
+  version: 3;
+  file?: string;
+  sources: string[];
+  sourcesContent?: string[];
+  names: string[];
+  mappings: string;
 }
 
 /**
@@ -632,6 +698,26 @@ export interface TranspileToPineJSResult {
   errorColumn?: number | undefined;
 }
 
+/**
+ * Result of compiling a `library()` script to an ES module.
+ */
+export interface TranspileToLibraryModuleResult {
+  /** Whether transpilation succeeded */
+  success: boolean;
+
+  /** ES module source exporting the library's exports (if successful) */
+  moduleCode?: string | undefined;
+
+  /** `.d.ts` declarations for `moduleCode` (if successful) */
+  typings?: string | undefined;
+
+  /** Names the module exports for the Pine `export`s, in source order */
+  exports?: string[] | undefined;
+
+  /** Error message (if failed) */
+  error?: string | undefined;
+}
+
 /**
  * Result of transpiling Pine Script to standalone factory module code.
  *
@@ -645,6 +731,9 @@ export interface TranspileToStandaloneFactoryResult {
   /** Standalone ESM factory source code (if successful) */
   factoryCode?: string | undefined;
 
+  /** Source map for `factoryCode`, when requested via `sourceMap` */
+  sourceMap?: PineSourceMap | undefined;
+
   /** Error message (if failed) */
   error?: string | undefined;
 
@@ -0,0 +1,7 @@
+/**
+ * Upgrade Index
+ *
+ * Re-exports the Pine v4 → v5 AST rewrite
+ */
+
+export { type UpgradeResult, upgradeToV5 } from './v4-upgrade';
@@ -0,0 +1,214 @@
+/**
+ * Pine v4 → v5 Name Tables
+ *
+ * The built-ins Pine v5 moved into namespaces or replaced, as the
+ * upgrader needs them. Names not listed here are spelled the same in
+ * both versions.
+ */
+
+const TA_FUNCTIONS = [
+  'alma',
+  'atr',
+  'barssince',
+  'bb',
+  'bbw',
+  'cci',
+  'change',
+  'cmo',
+  'cog',
+  'correlation',
+  'cross',
+  'crossover',
+  'crossunder',
+  'cum',
+  'dev',
+  'dmi',
+  'ema',
+  'falling',
+  'highest',
+  'highestbars',
+  'hma',
+  'kc',
+  'kcw',
+  'linreg',
+  'lowest',
+  'lowestbars',
+  'macd',
+  'median',
+  'mfi',
+  'mode',
+  'mom',
+  'percentile_linear_interpolation',
+  'percentile_nearest_rank',
+  'percentrank',
+  'pivothigh',
+  'pivotlow',
+  'range',
+  'rising',
+  'rma',
+  'roc',
+  'rsi',
+  'sar',
+  'sma',
+  'stdev',
+  'stoch',
+  'supertrend',
+  'swma',
+  'tr',
+  'tsi',
+  'valuewhen',
+  'variance',
+  'vwap',
+  'vwma',
+  'wma',
+  'wpr',
+];
+
+const MATH_FUNCTIONS = [
+  'abs',
+  'acos',
+  'asin',
+  'atan',
+  'avg',
+  'ceil',
+  'cos',
+  'exp',
+  'floor',
+  'log',
+  'log10',
+  'max',
+  'min',
+  'pow',
+  'random',
+  'round',
+  'round_to_mintick',
+  'sign',
+  'sin',
+  'sqrt',
+  'sum',
+  'tan',
+  'todegrees',
+  'toradians',
+];
+
+const REQUEST_FUNCTIONS = [
+  'dividends',
+  'earnings',
+  'financial',
+  'quandl',
+  'security',
+  'splits',
+];
+
+const TICKER_FUNCTIONS = [
+  'heikinashi',
+  'kagi',
+  'linebreak',
+  'pointfigure',
+  'renko',
+];
+
+function namespaced(namespace: string, names: string[]): [string, string][] {
+  return names.map((name) => [name, `${namespace}.${name}`]);
+}
+
+/** v4 function name → v5 callee. */
+export const V4_FUNCTION_RENAMES: ReadonlyMap<string, string> = new Map([
+  ...namespaced('ta', TA_FUNCTIONS),
+  ...namespaced('math', MATH_FUNCTIONS),
+  ...namespaced('request', REQUEST_FUNCTIONS),
+  ...namespaced('ticker', TICKER_FUNCTIONS),
+  ['study', 'indicator'],
+  ['tickerid', 'ticker.new'],
+  ['tostring', 'str.tostring'],
+  ['tonumber', 'str.tonumber'],
+]);
+
+/** v4 built-in variable → v5 name. */
+export const V4_VARIABLE_RENAMES: ReadonlyMap<string, string> = new Map([
+  ...namespaced('ta', [
+    'accdist',
+    'iii',
+    'nvi',
+    'obv',
+    'pvi',
+    'pvt',
+    'tr',
+    'vwap',
+    'wad',
+    'wvad',
+  ]),
+  ['period', 'timeframe.period'],
+  ['interval', 'timeframe.multiplier'],
+  ['isintraday', 'timeframe.isintraday'],
+  ['isdaily', 'timeframe.isdaily'],
+  ['isweekly', 'timeframe.isweekly'],
+  ['ismonthly', 'timeframe.ismonthly'],
+  ['isdwm', 'timeframe.isdwm'],
+  ['isminutes', 'timeframe.isminutes'],
+  ['isseconds', 'timeframe.isseconds'],
+]);
+
+/** `input(type = input.X)` constant → v5 `input.*` function. */
+export const V4_INPUT_TYPES: ReadonlyMap<string, string> = new Map([
+  ['integer', 'input.int'],
+  ['float', 'input.float'],
+  ['bool', 'input.bool'],
+  ['string', 'input.string'],
+  ['symbol', 'input.symbol'],
+  ['resolution', 'input.timeframe'],
+  ['session', 'input.session'],
+  ['source', 'input.source'],
+  ['time', 'input.time'],
+  ['color', 'input.color'],
+]);
+
+/** Positional parameters of v4 `input()`. */
+export const V4_INPUT_PARAMS = [
+  'defval',
+  'title',
+  'type',
+  'minval',
+  'maxval',
+  'confirm',
+  'step',
+  'options',
+  'tooltip',
+  'inline',
+  'group',
+];
+
+/**
+ * Calls whose v4 `transp` argument v5 folds into their colors, with
+ * each color parameter's name and position.
+ */
+export const V4_TRANSP_COLORS: ReadonlyMap<string, [string, number][]> =
+  new Map([
+    ['plot', [['color', 2]]],
+    ['plotshape', [['color', 4]]],
+    ['plotchar', [['color', 4]]],
+    [
+      'plotarrow',
+      [
+        ['colorup', 2],
+        ['colordown', 3],
+      ],
+    ],
+    ['plotcandle', [['color', 5]]],
+    ['plotbar', [['color', 5]]],
+    ['bgcolor', [['color', 0]]],
+    ['fill', [['color', 2]]],
+  ]);
+
+/** Price series a bare `input(close)` offers as a source input. */
+export const SOURCE_DEFAULTS = new Set([
+  'open',
+  'high',
+  'low',
+  'close',
+  'volume',
+  'hl2',
+  'hlc3',
+  'ohlc4',
+  'hlcc4',
+]);
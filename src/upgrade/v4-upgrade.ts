@@ -0,0 +1,346 @@
+/**
+ * Pine v4 → v5 Upgrade
+ *
+ * Rewrites a v4 program into its v5 equivalent before any later stage
+ * sees it, so the checker, metadata extraction and codegen only deal
+ * with v5 built-ins:
+ *
+ * - un-namespaced built-ins move into their namespace (`sma` →
+ *   `ta.sma`, `security` → `request.security`, `tr` → `ta.tr`)
+ * - `study(...)` becomes `indicator(...)`
+ * - `iff(c, a, b)` becomes `c ? a : b`
+ * - `input(..., type = input.integer)` becomes `input.int(...)`; an
+ *   untyped `input` is typed from its default value
+ * - `transp = N` is folded into the call's colors as `color.new(c, N)`
+ *
+ * Names the script declares itself are left alone. Every rewrite is
+ * reported as an `info` diagnostic at the code it changed.
+ */
+
+import type {
+  AnyNode,
+  ASTNode,
+  AssignmentExpression,
+  CallExpression,
+  Diagnostic,
+  DiagnosticCodeValue,
+  Expression,
+  Identifier,
+  Program,
+} from '../parser';
+import { DiagnosticCode, replaceNode, walk } from '../parser';
+import {
+  SOURCE_DEFAULTS,
+  V4_FUNCTION_RENAMES,
+  V4_INPUT_PARAMS,
+  V4_INPUT_TYPES,
+  V4_TRANSP_COLORS,
+  V4_VARIABLE_RENAMES,
+} from './v4-names';
+
+export interface UpgradeResult {
+  /**
+   * The v5 program. A copy when anything was upgraded; the input
+   * program itself for v5 and later scripts.
+   */
+  program: Program;
+  /** One `info` diagnostic per rewrite, in source order. */
+  diagnostics: Diagnostic[];
+}
+
+/** Upgrade a program written for Pine v4 or earlier to v5. */
+export function upgradeToV5(program: Program): UpgradeResult {
+  if (program.version >= 5) return { program, diagnostics: [] };
+  return new V4Upgrader().upgrade(structuredClone(program));
+}
+
+type NamedArgument = AssignmentExpression & { left: Identifier };
+
+class V4Upgrader {
+  private readonly diagnostics: Diagnostic[] = [];
+  /** Names the script declares, which shadow v4 built-ins. */
+  private readonly declared = new Set<string>();
+
+  upgrade(program: Program): UpgradeResult {
+    this.collectDeclarations(program);
+    walk(program, {
+      CallExpression: (call) => {
+        this.upgradeCall(call);
+        return undefined;
+      },
+      Identifier: (id, parent) => {
+        this.upgradeVariable(id, parent);
+        return undefined;
+      },
+    });
+    program.version = 5;
+    const diagnostics = this.diagnostics.sort(
+      (a, b) => a.line - b.line || a.column - b.column,
+    );
+    return { program, diagnostics };
+  }
+
+  private collectDeclarations(program: Program): void {
+    const declare = (ids: Identifier | Identifier[]) => {
+      for (const id of Array.isArray(ids) ? ids : [ids]) {
+        this.declared.add(id.name);
+      }
+    };
+    walk(program, {
+      VariableDeclaration: (decl) => {
+        declare(decl.id);
+        return undefined;
+      },
+      FunctionDeclaration: (fn) => {
+        declare([fn.id, ...fn.params]);
+        return undefined;
+      },
+      ForInStatement: (loop) => {
+        declare(loop.left);
+        return undefined;
+      },
+    });
+  }
+
+  private upgradeCall(call: CallExpression): void {
+    if (call.callee.type !== 'Identifier') return;
+    const name = call.callee.name;
+    if (this.declared.has(name)) return;
+
+    const colors = V4_TRANSP_COLORS.get(name);
+    if (colors) this.foldTransp(call, colors);
+
+    if (name === 'iff' && call.arguments.length === 3) {
+      const [test, consequent, alternate] = call.arguments;
+      this.report(
+        call,
+        DiagnosticCode.RewrittenV4Call,
+        "'iff' is Pine v4; upgraded to a '?:' expression.",
+      );
+      replaceNode(call, {
+        type: 'ConditionalExpression',
+        test,
+        consequent,
+        alternate,
+      });
+      return;
+    }
+    if (name === 'input') {
+      this.upgradeInput(call);
+      return;
+    }
+
+    const renamed = V4_FUNCTION_RENAMES.get(name);
+    if (renamed) {
+      this.report(
+        call.callee,
+        DiagnosticCode.RenamedV4Builtin,
+        `'${name}' is Pine v4; upgraded to '${renamed}'.`,
+      );
+      call.callee = dottedName(renamed, call.callee);
+    }
+  }
+
+  /**
+   * `input(defval, title, type, minval, ...)` → `input.<type>(defval,
+   * title, minval = ..., ...)`. The v5 functions order their optional
+   * parameters differently, so everything after `title` is passed by
+   * name.
+   */
+  private upgradeInput(call: CallExpression): void {
+    const typeArg = findArgument(call.arguments, 'type', 2);
+    const v4Type = typeArg && v4InputType(typeArg);
+    const target = v4Type
+      ? V4_INPUT_TYPES.get(v4Type)
+      : inferInputFunction(call.arguments[0]);
+    if (!target) return;
+
+    const args: Expression[] = [];
+    call.arguments.forEach((arg, index) => {
+      if (arg === typeArg) return;
+      const name = V4_INPUT_PARAMS[index];
+      if (isNamedArgument(arg) || index < 2 || !name) {
+        args.push(arg);
+      } else {
+        args.push(namedArgument(name, arg));
+      }
+    });
+
+    const from = v4Type ? `input(type = input.${v4Type})` : 'input';
+    this.report(
+      call.callee,
+      DiagnosticCode.RewrittenV4Call,
+      `'${from}' is Pine v4; upgraded to '${target}'.`,
+    );
+    call.callee = dottedName(target, call.callee);
+    call.arguments = args;
+  }
+
+  /** `plot(x, color = c, transp = 50)` → `plot(x, color = color.new(c, 50))`. */
+  private foldTransp(call: CallExpression, colors: [string, number][]): void {
+    const transp = call.arguments.find(
+      (arg): arg is NamedArgument =>
+        isNamedArgument(arg) && arg.left.name === 'transp',
+    );
+    if (!transp) return;
+
+    call.arguments = call.arguments.filter((arg) => arg !== transp);
+    let folded = false;
+    for (const [name, position] of colors) {
+      const color = findArgument(call.arguments, name, position);
+      if (!color) continue;
+      const slot = isNamedArgument(color) ? color : undefined;
+      const value = slot ? slot.right : color;
+      const wrapped: CallExpression = {
+        type: 'CallExpression',
+        callee: dottedName('color.new', value),
+        arguments: [value, transp.right],
+        start: value.start,
+        end: value.end,
+        loc: value.loc,
+      };
+      if (slot) slot.right = wrapped;
+      else call.arguments[call.arguments.indexOf(color)] = wrapped;
+      folded = true;
+    }
+    this.report(
+      transp,
+      DiagnosticCode.RewrittenV4Call,
+      folded
+        ? "'transp' is Pine v4; upgraded to 'color.new(color, transp)'."
+        : "'transp' is Pine v4 and the call sets no color to fold it into; dropped.",
+    );
+  }
+
+  private upgradeVariable(id: Identifier, parent: AnyNode | null): void {
+    const renamed = V4_VARIABLE_RENAMES.get(id.name);
+    if (!renamed || this.declared.has(id.name)) return;
+    // Only value positions: not a callee, a field name, or the name
+    // half of a named argument.
+    if (parent?.type === 'CallExpression' && parent.callee === id) return;
+    if (parent?.type === 'MemberExpression' && parent.property === id) return;
+    if (parent?.type === 'AssignmentExpression' && parent.left === id) return;
+
+    this.report(
+      id,
+      DiagnosticCode.RenamedV4Builtin,
+      `'${id.name}' is Pine v4; upgraded to '${renamed}'.`,
+    );
+    replaceNode(id, dottedName(renamed, id));
+  }
+
+  private report(
+    node: ASTNode,
+    code: DiagnosticCodeValue,
+    message: string,
+  ): void {
+    const loc = node.loc;
+    this.diagnostics.push({
+      code,
+      severity: 'info',
+      message,
+      line: loc?.start.line ?? 1,
+      column: loc?.start.column ?? 1,
+      endLine: loc?.end.line ?? loc?.start.line ?? 1,
+      endColumn: loc?.end.column ?? loc?.start.column ?? 1,
+    });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isNamedArgument(arg: Expression): arg is NamedArgument {
+  return (
+    arg.type === 'AssignmentExpression' &&
+    arg.operator === '=' &&
+    !Array.isArray(arg.left) &&
+    arg.left.type === 'Identifier'
+  );
+}
+
+/** The argument for parameter `name`, passed by name or at `position`. */
+function findArgument(
+  args: Expression[],
+  name: string,
+  position: number,
+): Expression | undefined {
+  const named = args.find(
+    (arg) => isNamedArgument(arg) && arg.left.name === name,
+  );
+  if (named) return named;
+  const positional = args[position];
+  return positional && !isNamedArgument(positional) ? positional : undefined;
+}
+
+/** `integer` for `input.integer`, positional or `type = input.integer`. */
+function v4InputType(arg: Expression): string | undefined {
+  const value = isNamedArgument(arg) ? arg.right : arg;
+  if (
+    value.type !== 'MemberExpression' ||
+    value.computed ||
+    value.object.type !== 'Identifier' ||
+    value.object.name !== 'input' ||
+    value.property.type !== 'Identifier'
+  ) {
+    return undefined;
+  }
+  return V4_INPUT_TYPES.has(value.property.name)
+    ? value.property.name
+    : undefined;
+}
+
+/** The v5 `input.*` function an untyped `input(defval)` stands for. */
+function inferInputFunction(
+  defval: Expression | undefined,
+): string | undefined {
+  if (!defval) return undefined;
+  if (defval.type === 'UnaryExpression' && defval.operator === '-') {
+    return inferInputFunction(defval.argument);
+  }
+  if (defval.type === 'Identifier' && SOURCE_DEFAULTS.has(defval.name)) {
+    return 'input.source';
+  }
+  if (defval.type !== 'Literal') return undefined;
+  switch (defval.kind) {
+    case 'number':
+      return /[.eE]/.test(defval.raw) ? 'input.float' : 'input.int';
+    case 'boolean':
+      return 'input.bool';
+    case 'string':
+      return 'input.string';
+    case 'color':
+      return 'input.color';
+    default:
+      return undefined;
+  }
+}
+
+function namedArgument(name: string, value: Expression): NamedArgument {
+  const at = { start: value.start, end: value.end, loc: value.loc };
+  return {
+    type: 'AssignmentExpression',
+    operator: '=',
+    left: { type: 'Identifier', name, ...at },
+    right: value,
+    ...at,
+  };
+}
+
+/** `ta.sma` as a member-expression chain, located at `at`. */
+function dottedName(path: string, at: ASTNode): Identifier | Expression {
+  const location = { start: at.start, end: at.end, loc: at.loc };
+  const [first, ...rest] = path.split('.');
+  let expr: Expression = { type: 'Identifier', name: first, ...location };
+  for (const name of rest) {
+    expr = {
+      type: 'MemberExpression',
+      object: expr,
+      property: { type: 'Identifier', name, ...location },
+      computed: false,
+      ...location,
+    };
+  }
+  return expr;
+}
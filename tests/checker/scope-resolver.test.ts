@@ -0,0 +1,220 @@
+/**
+ * Scope Resolver Tests
+ *
+ * Tests for name resolution: undeclared and not-yet-declared names,
+ * `=` used where `:=` was meant, shadowing warnings, and the symbol
+ * table editor tooling reads definitions and references from.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { checkTypes, resolveScopes } from '../../src/checker';
+import { parse } from '../utils';
+
+function resolve(code: string) {
+  const program = parse(`//@version=5\n${code}`);
+  return resolveScopes(program, checkTypes(program));
+}
+
+/** `code line:column` for each diagnostic; lines count from the snippet. */
+function problems(code: string): string[] {
+  return resolve(code).diagnostics.map(
+    (d) => `${d.code} ${d.line - 1}:${d.column}`,
+  );
+}
+
+describe('Scope Resolver', () => {
+  describe('Diagnostics', () => {
+    it('should report undeclared identifiers', () => {
+      const { diagnostics } = resolve('a = close + offset');
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        code: 'PINE4001',
+        severity: 'error',
+        column: 13,
+      });
+      expect(diagnostics[0].message).toBe("Undeclared identifier 'offset'.");
+    });
+
+    it('should accept built-in variables, functions and namespaces', () => {
+      const code = `indicator("x")
+a = ta.sma(close, 14) + nz(volume) + bar_index
+plot(a, color = color.red, style = plot.style_line)`;
+
+      expect(problems(code)).toEqual([]);
+    });
+
+    it('should report uses above the declaration', () => {
+      const code = `a = b + 1
+b = 2`;
+      const { diagnostics } = resolve(code);
+
+      expect(problems(code)).toEqual(['PINE4002 1:5']);
+      expect(diagnostics[0].message).toBe(
+        "'b' is used before its declaration on line 3.",
+      );
+    });
+
+    it('should not hoist functions', () => {
+      const code = `g() => h()
+h() => 1`;
+
+      expect(problems(code)).toEqual(['PINE4002 1:8']);
+    });
+
+    it('should report redeclaration with = in the same scope', () => {
+      const code = `x = 1
+x = 2
+x := 3`;
+      const { diagnostics } = resolve(code);
+
+      expect(problems(code)).toEqual(['PINE4003 2:1']);
+      expect(diagnostics[0].message).toContain("use ':=' to reassign it");
+    });
+
+    it('should report := on an undeclared variable', () => {
+      expect(problems('total := 1')).toEqual(['PINE4001 1:1']);
+    });
+
+    it('should keep block locals out of the enclosing scope', () => {
+      const code = `if close > open
+    k = 1
+k2 = k`;
+
+      expect(problems(code)).toEqual(['PINE4001 3:6']);
+    });
+
+    it('should scope for-loop counters to the loop', () => {
+      const code = `sum = 0
+for i = 0 to 9
+    sum += i
+last = i`;
+
+      expect(problems(code)).toEqual(['PINE4001 4:8']);
+    });
+
+    it('should report unknown type names', () => {
+      expect(problems('Foo f = na')).toEqual(['PINE4001 1:1']);
+    });
+
+    it('should warn when a block redeclares an outer variable', () => {
+      const code = `x = 1
+if close > open
+    x = 2`;
+      const { diagnostics } = resolve(code);
+
+      expect(problems(code)).toEqual(['PINE4005 3:5']);
+      expect(diagnostics[0].severity).toBe('warning');
+    });
+
+    it('should not warn when a function local hides a global', () => {
+      const code = `x = 1
+f() =>
+    x = 2
+    x`;
+
+      expect(problems(code)).toEqual([]);
+    });
+
+    it('should warn when a declaration shadows a built-in', () => {
+      const code = `var matrix = matrix.new<float>(2, 2)
+f(color) => color`;
+      const { diagnostics } = resolve(code);
+
+      expect(problems(code)).toEqual(['PINE4004 1:5', 'PINE4004 2:3']);
+      expect(diagnostics.every((d) => d.severity === 'warning')).toBe(true);
+    });
+
+    it('should not flag unprefixed built-ins of older versions', () => {
+      const program = parse('//@version=4\na = sma(close, 14)');
+
+      expect(resolveScopes(program).diagnostics).toEqual([]);
+    });
+  });
+
+  describe('Symbol table', () => {
+    const code = `import "user/lib/1" as Lib
+type Pivot
+    float price = 0.0
+    Pivot prev
+method bump(Pivot this) => this.price + 1
+f(len) => ta.sma(close, len)
+p = Pivot.new(price = 1.0)
+q = p.price
+r = f(len = 14) + p.bump()
+v = Lib.fn(q)`;
+
+    it('should record symbols with their kind and scope', () => {
+      const { table } = resolve(code);
+      const kinds = table.symbols.map((s) => `${s.kind} ${s.name}`);
+
+      expect(kinds).toContain('import Lib');
+      expect(kinds).toContain('type Pivot');
+      expect(kinds).toContain('field price');
+      expect(kinds).toContain('method bump');
+      expect(kinds).toContain('parameter len');
+      expect(table.global.symbols.has('price')).toBe(false);
+    });
+
+    it('should link fields to their type', () => {
+      const { table } = resolve(code);
+      const price = table.symbols.find((s) => s.name === 'price');
+
+      expect(price?.owner?.name).toBe('Pivot');
+      expect(price?.scope.kind).toBe('type');
+    });
+
+    it('should collect references in source order', () => {
+      const { table } = resolve(code);
+      const lines = (name: string) =>
+        table.symbols
+          .find((s) => s.name === name)
+          ?.references.map((ref) => (ref.loc?.start.line ?? 0) - 1);
+
+      // Annotation, method receiver, `.new`, named argument, field access.
+      expect(lines('Pivot')).toEqual([4, 5, 7]);
+      expect(lines('price')).toEqual([5, 7, 8]);
+      expect(lines('len')).toEqual([6, 9]);
+      expect(lines('bump')).toEqual([9]);
+      expect(lines('Lib')).toEqual([10]);
+    });
+
+    it('should resolve enum members through the enum', () => {
+      const { table, diagnostics } = resolve(`enum Mode
+    fast = "Fast MA"
+    slow
+Mode m = input.enum(Mode.fast, "Mode")
+x = m == Mode.slow ? 1 : 2`);
+      const fast = table.symbols.find((s) => s.name === 'fast');
+
+      expect(diagnostics).toEqual([]);
+      expect(table.symbols.find((s) => s.name === 'Mode')?.kind).toBe('enum');
+      expect(fast?.kind).toBe('field');
+      expect(fast?.owner?.name).toBe('Mode');
+      expect(fast?.references).toHaveLength(1);
+    });
+
+    it('should find the symbol under a position', () => {
+      const { table } = resolve(code);
+
+      // `q = p.price` on snippet line 8
+      expect(table.symbolAt(9, 1)?.name).toBe('q');
+      expect(table.symbolAt(9, 5)?.name).toBe('p');
+      expect(table.symbolAt(9, 8)?.kind).toBe('field');
+      expect(table.symbolAt(9, 4)).toBeUndefined();
+    });
+
+    it('should resolve a reference to its definition', () => {
+      const program = parse('//@version=5\nlen = 14\nx = len * 2');
+      const { table } = resolveScopes(program);
+      const decl = program.body[1];
+      const init = decl.type === 'VariableDeclaration' ? decl.init : null;
+      const ref = init?.type === 'BinaryExpression' ? init.left : undefined;
+
+      expect(ref && table.definitionOf(ref as never)?.id?.loc?.start).toEqual({
+        line: 2,
+        column: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Type Checker Tests
+ *
+ * Tests for the static checker that runs between parsing and code
+ * generation: qualifier checks on built-in and user-defined calls,
+ * assignment compatibility, UDT field lookups, and the inferred
+ * types it reports for expressions.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { checkTypes, formatQualifiedType } from '../../src/checker';
+import type {
+  Expression,
+  Identifier,
+  VariableDeclaration,
+} from '../../src/parser/ast';
+import { parse } from '../utils';
+
+function check(code: string) {
+  return checkTypes(parse(code));
+}
+
+function codes(code: string): string[] {
+  return check(code).diagnostics.map((d) => d.code);
+}
+
+/** Inferred type of the initializer of the top-level variable `name`. */
+function typeOf(code: string, name: string): string | undefined {
+  const program = parse(code);
+  const result = checkTypes(program);
+  for (const stmt of program.body) {
+    if (stmt.type !== 'VariableDeclaration') continue;
+    const decl = stmt as VariableDeclaration;
+    if (decl.id.type === 'Identifier' && decl.id.name === name && decl.init) {
+      const type = result.types.get(decl.init as Expression);
+      return type && formatQualifiedType(type);
+    }
+  }
+  return undefined;
+}
+
+describe('Type Checker', () => {
+  describe('Qualifiers', () => {
+    it('should reject a series length for ta.sma', () => {
+      const { diagnostics } = check('a = ta.sma(close, bar_index)');
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        code: 'PINE3002',
+        severity: 'error',
+        line: 1,
+        column: 19,
+      });
+      expect(diagnostics[0].message).toBe(
+        "Argument 'length' of 'ta.sma' expects 'simple int', got 'series int'.",
+      );
+    });
+
+    it('should accept input and const lengths', () => {
+      const code = `len = input.int(14, "Length")
+a = ta.sma(close, len)
+b = ta.sma(close, 20)`;
+
+      expect(codes(code)).toEqual([]);
+    });
+
+    it('should reject a series value declared simple', () => {
+      expect(codes('simple int s = bar_index')).toEqual(['PINE3002']);
+    });
+
+    it('should check qualified parameters of user functions', () => {
+      const code = `f(simple int n) => ta.ema(close, n)
+a = f(14)
+b = f(bar_index)`;
+      const { diagnostics } = check(code);
+
+      expect(diagnostics.map((d) => [d.code, d.line])).toEqual([
+        ['PINE3002', 3],
+      ]);
+    });
+
+    it('should treat variables reassigned in local blocks as series', () => {
+      const code = `len = 14
+if close > open
+    len := 20
+a = ta.sma(close, len)`;
+
+      expect(codes(code)).toEqual(['PINE3002']);
+    });
+  });
+
+  describe('Assignments', () => {
+    it('should reject a string stored in a float declaration', () => {
+      const { diagnostics } = check('float x = "abc"');
+
+      expect(diagnostics[0].code).toBe('PINE3001');
+      expect(diagnostics[0].message).toContain("'x'");
+    });
+
+    it('should reject reassignment with an incompatible type', () => {
+      const code = `y = 1.5
+y := "s"`;
+
+      expect(codes(code)).toEqual(['PINE3001']);
+    });
+
+    it('should widen int to float', () => {
+      const code = `float x = 1
+x := bar_index`;
+
+      expect(codes(code)).toEqual([]);
+    });
+
+    it('should reject ternary branches of different types', () => {
+      expect(codes('c = close > open ? 1 : "a"')).toEqual(['PINE3001']);
+    });
+
+    it('should reject arithmetic on strings', () => {
+      expect(codes('z = "a" - 1')).toEqual(['PINE3001']);
+    });
+  });
+
+  describe('Arguments', () => {
+    it('should report missing arguments to user functions', () => {
+      const { diagnostics } = check(`f(a, b) => a + b
+x = f(1)`);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ code: 'PINE3005', line: 2 });
+      expect(diagnostics[0].message).toBe("'f' is missing argument 'b'.");
+    });
+
+    it('should not require parameters with defaults', () => {
+      expect(
+        codes(`f(a, b = 2) => a + b
+x = f(1)`),
+      ).toEqual([]);
+    });
+
+    it('should report extra arguments to user functions', () => {
+      const { diagnostics } = check(`f(a) => a
+x = f(1, 2, 3)`);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({ code: 'PINE3006', column: 10 });
+      expect(diagnostics[0].message).toBe("'f' takes at most 1 argument.");
+    });
+
+    it('should report missing arguments to methods', () => {
+      const code = `method scale(float this, float k) => this * k
+x = close
+y = x.scale()`;
+
+      expect(codes(code)).toEqual(['PINE3005']);
+    });
+
+    it('should report missing arguments to built-ins', () => {
+      const { diagnostics } = check('a = ta.sma(close)');
+
+      expect(diagnostics.map((d) => d.code)).toEqual(['PINE3005']);
+      expect(diagnostics[0].message).toBe(
+        "'ta.sma' is missing argument 'length'.",
+      );
+    });
+
+    it('should report extra arguments to built-ins', () => {
+      expect(codes('a = ta.sma(close, 1, 2)')).toEqual(['PINE3006']);
+    });
+
+    it('should check the arity of the window statistics', () => {
+      expect(codes('a = ta.rci(close)')).toEqual(['PINE3005']);
+      expect(codes('b = ta.max(close, 3)')).toEqual(['PINE3006']);
+      expect(codes('c = ta.percentile_nearest_rank(close, 10)')).toEqual([
+        'PINE3005',
+      ]);
+      expect(codes('d = ta.pivot_point_levels("Traditional")')).toEqual([
+        'PINE3005',
+      ]);
+      expect(
+        codes(`e = ta.rci(close, 10)
+f = ta.max(close)
+g = ta.pivot_point_levels("Traditional", timeframe.change("D"), false)`),
+      ).toEqual([]);
+    });
+
+    it('should report unknown named arguments to built-ins', () => {
+      expect(codes('a = ta.sma(close, lenn = 3)')).toEqual([
+        'PINE3005',
+        'PINE3007',
+      ]);
+
+      const { diagnostics } = check('plot(close, colr = color.red)');
+      expect(diagnostics.map((d) => d.code)).toEqual(['PINE3007']);
+      expect(diagnostics[0].message).toBe("'plot' has no parameter 'colr'.");
+    });
+
+    it('should report extra constructor arguments', () => {
+      const code = `type Pivot
+    float price
+p = Pivot.new(1.0, 2)`;
+
+      expect(codes(code)).toEqual(['PINE3006']);
+    });
+
+    it('should accept named and defaulted arguments', () => {
+      const code = `f(src, int n = 2) => src * n
+a = f(close)
+b = f(n = 3, src = close)
+plot(a, title = "A", color = color.red, linewidth = 2)
+plot(ta.sma(source = b, length = 5))`;
+
+      expect(codes(code)).toEqual([]);
+    });
+  });
+
+  describe('User-defined types', () => {
+    const pivot = `type Pivot
+    float price = 0.0
+    int idx
+p = Pivot.new(1.0, 2)
+`;
+
+    it('should report unknown fields', () => {
+      const { diagnostics } = check(`${pivot}q = p.prise`);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe('PINE3003');
+      expect(diagnostics[0].message).toBe("Type 'Pivot' has no field 'prise'.");
+    });
+
+    it('should report unknown constructor arguments', () => {
+      expect(codes(`${pivot}r = Pivot.new(pricee = 1.0)`)).toEqual([
+        'PINE3003',
+      ]);
+    });
+
+    it('should report unknown methods', () => {
+      expect(codes(`${pivot}p.foo()`)).toEqual(['PINE3003']);
+    });
+
+    it('should check field assignments against the field type', () => {
+      expect(codes(`${pivot}p.price := "x"`)).toEqual(['PINE3001']);
+    });
+
+    it('should resolve methods declared on the type', () => {
+      const code = `${pivot}method upd(Pivot this, float px) =>
+    this.price := px
+p.upd(close)`;
+
+      expect(codes(code)).toEqual([]);
+    });
+  });
+
+  describe('Enums', () => {
+    const mode = `enum Mode
+    fast = "Fast MA"
+    slow
+`;
+
+    it('should report unknown members', () => {
+      const { diagnostics } = check(`${mode}m = Mode.medium`);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].code).toBe('PINE3003');
+      expect(diagnostics[0].message).toBe("Enum 'Mode' has no field 'medium'.");
+    });
+
+    it('should type members and enum inputs', () => {
+      expect(typeOf(`${mode}m = Mode.fast`, 'm')).toBe('const Mode');
+      expect(typeOf(`${mode}m = input.enum(Mode.slow, "Mode")`, 'm')).toBe(
+        'input Mode',
+      );
+    });
+
+    it('should reject storing a member where another type is declared', () => {
+      expect(codes(`${mode}Mode a = Mode.fast\nfloat b = Mode.slow`)).toEqual([
+        'PINE3001',
+      ]);
+    });
+  });
+
+  describe('Version semantics', () => {
+    it('should reject na for bool in v6 only', () => {
+      expect(codes('//@version=6\nbool b = na\nc = na(b)')).toEqual([
+        'PINE3001',
+        'PINE3001',
+      ]);
+      expect(codes('//@version=5\nbool b = na\nc = na(b)')).toEqual([]);
+    });
+
+    it('should flag the removed when parameter', () => {
+      const call = 'strategy.entry("L", strategy.long, when = close > open)';
+      const v5 = check(`//@version=5\n${call}`).diagnostics;
+      const v6 = check(`//@version=6\n${call}`).diagnostics;
+
+      expect(v5.map((d) => [d.code, d.severity])).toEqual([
+        ['PINE3004', 'warning'],
+      ]);
+      expect(v6.map((d) => [d.code, d.severity])).toEqual([
+        ['PINE3003', 'error'],
+      ]);
+      expect(v6[0].message).toContain('the call still only runs when it holds');
+    });
+
+    it('should type int division by version', () => {
+      expect(typeOf('//@version=5\nn = 7 / 2', 'n')).toBe('const int');
+      expect(codes('//@version=5\nn = 7 / 2')).toEqual(['PINE3004']);
+      expect(typeOf('//@version=6\nn = 7 / 2', 'n')).toBe('const float');
+      expect(codes('//@version=6\nn = 7 / 2')).toEqual([]);
+    });
+
+    it('should warn when v5 and evaluates a stateful right side', () => {
+      const code = 'c = close > open and ta.crossover(close, open)';
+
+      expect(codes(`//@version=5\n${code}`)).toEqual(['PINE3004']);
+      expect(codes(`//@version=5\nc = close > open and open > 1`)).toEqual([]);
+      expect(codes(`//@version=6\n${code}`)).toEqual([]);
+    });
+  });
+
+  describe('Collections', () => {
+    it('should reject pushing the wrong element type', () => {
+      const code = `arr = array.new_float(0)
+arr.push("a")`;
+
+      expect(codes(code)).toEqual(['PINE3001']);
+    });
+
+    it('should infer element types from collection getters', () => {
+      const code = `arr = array.new_float(0)
+v = arr.get(0)`;
+
+      expect(typeOf(code, 'v')).toBe('series float');
+    });
+
+    it('should type array search and sort results', () => {
+      const code = `arr = array.new_float(0)
+at = arr.binary_search(1.5)
+order = arr.sort_indices()
+all = arr.every()`;
+
+      expect(typeOf(code, 'at')).toBe('series int');
+      expect(typeOf(code, 'order')).toBe('series array<int>');
+      expect(typeOf(code, 'all')).toBe('series bool');
+    });
+
+    it('should type the levels of ta.pivot_point_levels', () => {
+      const code = `levels = ta.pivot_point_levels("Traditional", timeframe.change("D"))
+p = levels.get(0)`;
+
+      expect(typeOf(code, 'levels')).toBe('series array<float>');
+      expect(typeOf(code, 'p')).toBe('series float');
+    });
+  });
+
+  describe('Inferred types', () => {
+    it('should infer qualifiers from built-ins', () => {
+      expect(typeOf('len = input.int(14, "Length")', 'len')).toBe('input int');
+      expect(typeOf('k = math.max(1, 2)', 'k')).toBe('const int');
+      expect(typeOf('s = ta.sma(close, 14)', 's')).toBe('series float');
+    });
+
+    it('should type tuple results element by element', () => {
+      const program = parse('[m, sig, h] = ta.macd(close, 12, 26, 9)');
+      const result = checkTypes(program);
+      const names = new Map<string, string>();
+      for (const [expr, type] of result.types) {
+        if (expr.type === 'Identifier') {
+          names.set((expr as Identifier).name, formatQualifiedType(type));
+        }
+      }
+
+      expect(names.get('m')).toBe('series float');
+      expect(names.get('h')).toBe('series float');
+    });
+
+    it('should collect user-defined types', () => {
+      const { udts } = check(`type Pivot
+    float price
+    Pivot[] history`);
+      const info = udts.get('Pivot');
+
+      expect(info?.fields.get('price')).toEqual({
+        kind: 'primitive',
+        name: 'float',
+      });
+      expect(info?.fields.get('history')).toEqual({
+        kind: 'array',
+        element: { kind: 'udt', name: 'Pivot' },
+      });
+    });
+  });
+
+  it('should report nothing for a well-typed script', () => {
+    const code = `//@version=5
+indicator("Clean")
+length = input.int(20, "Length", minval = 1)
+src = input.source(close, "Source")
+basis = ta.sma(src, length)
+dev = 2.0 * ta.stdev(src, length)
+[middle, upper, lower] = ta.bb(src, length, 2.0)
+var float peak = na
+peak := math.max(nz(peak), high)
+plot(basis, "Basis", color = color.new(color.blue, 0))
+plot(upper)`;
+
+    expect(check(code).diagnostics).toEqual([]);
+  });
+});
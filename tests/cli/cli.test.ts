@@ -194,7 +194,8 @@ else
     });
 
     it('should validate loops', () => {
-      const code = `for i = 0 to 10
+      const code = `sum = 0
+for i = 0 to 10
     sum := sum + i`;
 
       const result = canTranspilePineScript(code);
@@ -1,7 +1,7 @@
 /**
  * CLI command tests.
  *
- * Exercises the actual `src/cli/commands/{transpile,validate,info}.ts`
+ * Exercises the actual `src/cli/commands/{transpile,validate,fmt,run,info}.ts`
  * paths by importing and invoking them with a temp file. Stubs
  * `process.exit` to throw a sentinel so we can assert exit codes
  * without terminating the test runner, and spies on `console.log` /
@@ -12,7 +12,9 @@ import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
 import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { commandFmt } from '../../src/cli/commands/fmt';
 import { commandInfo } from '../../src/cli/commands/info';
+import { commandRun } from '../../src/cli/commands/run';
 import { commandTranspile } from '../../src/cli/commands/transpile';
 import { commandValidate } from '../../src/cli/commands/validate';
 
@@ -146,6 +148,31 @@ describe('commandTranspile', () => {
     expect(written).toContain('metainfo');
   });
 
+  it('format=library writes an ES module and its typings', () => {
+    const file = writeFixture(
+      'geo.pine',
+      'library("Geo")\nexport double(float v) => v * 2\n',
+    );
+    const out = join(workDir, 'geo.js');
+    const result = captured.run(() =>
+      commandTranspile(file, { output: out, format: 'library' }),
+    );
+    expect(result.code).toBeNull();
+    expect(readFileSync(out, 'utf-8')).toContain('export function double(v)');
+    expect(readFileSync(join(workDir, 'geo.d.ts'), 'utf-8')).toContain(
+      'export declare function double(v: number): number;',
+    );
+  });
+
+  it('format=library rejects scripts that are not libraries', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const result = captured.run(() =>
+      commandTranspile(file, { format: 'library' }),
+    );
+    expect(result.code).toBe(1);
+    expect(result.errors.some((e) => e.includes('library()'))).toBe(true);
+  });
+
   it('exits with error on unknown format', () => {
     const file = writeFixture('sma.pine', SMA_SOURCE);
     const result = captured.run(() =>
@@ -204,15 +231,152 @@ describe('commandValidate', () => {
   });
 
   it('exits 1 with a reason when the parser rejects the input', () => {
-    // canTranspilePineScript skips the pipeline's input-size check
-    // (it calls Lexer/Parser directly). MAX_TOKEN_COUNT (100k) in the
-    // parser is the next reliable failure mode — a script of repeated
-    // assignments easily exceeds it.
+    // The input stays under the pipeline's 1M-character size check;
+    // MAX_TOKEN_COUNT (100k) in the parser is the next reliable
+    // failure mode — a script of repeated assignments easily exceeds
+    // it.
     const file = writeFixture('huge.pine', 'x = 1\n'.repeat(60_000));
     const result = captured.run(() => commandValidate(file, {}));
     expect(result.code).toBe(1);
     expect(result.errors.some((e) => e.includes('syntax errors'))).toBe(true);
   });
+
+  it('lists every diagnostic with file:line:column', () => {
+    const file = writeFixture('broken.pine', 'a = )\nb = 1\nc = (]\n');
+    const result = captured.run(() => commandValidate(file, {}));
+    expect(result.code).toBe(1);
+    expect(result.errors.filter((e) => e.includes(`${file}:1:5`))).toHaveLength(
+      1,
+    );
+    expect(result.errors.filter((e) => e.includes(`${file}:3:`))).toHaveLength(
+      1,
+    );
+  });
+});
+
+describe('commandFmt', () => {
+  const FORMATTED = `//@version=5
+indicator("SMA Basic", overlay = true)
+length = input.int(20, "Length")
+plot(ta.sma(close, length), "SMA", color = color.blue)
+`;
+
+  it('prints the formatted script to stdout', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const result = captured.run(() => commandFmt(file, {}));
+    expect(result.code).toBeNull();
+    expect(`${result.logs.join('\n')}\n`).toBe(FORMATTED);
+  });
+
+  it('writes the formatted script to --output', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const result = captured.run(() => commandFmt(file, { output: file }));
+    expect(result.code).toBeNull();
+    expect(readFileSync(file, 'utf-8')).toBe(FORMATTED);
+  });
+
+  it('--check exits 1 for an unformatted file and 0 once formatted', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const unformatted = captured.run(() => commandFmt(file, { check: true }));
+    expect(unformatted.code).toBe(1);
+    expect(unformatted.errors.some((e) => e.includes('is not formatted'))).toBe(
+      true,
+    );
+
+    writeFileSync(file, FORMATTED, 'utf-8');
+    const formatted = captured.run(() => commandFmt(file, { check: true }));
+    expect(formatted.code).toBe(0);
+  });
+
+  it('exits 1 on a syntax error', () => {
+    const file = writeFixture('broken.pine', 'a = )\n');
+    const result = captured.run(() => commandFmt(file, {}));
+    expect(result.code).toBe(1);
+    expect(result.errors[0]).toStartWith('Error: ');
+  });
+});
+
+describe('commandRun', () => {
+  const BARS = `time,open,high,low,close,volume
+1704205800,10,11,9,10,100
+1704205860,10,12,10,12,120
+`;
+
+  it('exits with error when no data file is given', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const result = captured.run(() => commandRun(file, {}));
+    expect(result.code).toBe(1);
+    expect(result.errors[0]).toBe('Error: No OHLCV data file specified');
+  });
+
+  it('prints one CSV row per bar with a column per plot', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const data = writeFixture('bars.csv', BARS);
+    const result = captured.run(() =>
+      commandRun(file, { data, format: 'csv' }),
+    );
+    expect(result.code).toBeNull();
+    const lines = result.logs.join('\n').split('\n');
+    expect(lines[0]).toBe('time,bar_index,SMA,events');
+    expect(lines[1]).toStartWith('2024-01-02T14:30:00.000Z,0,,');
+    expect(lines).toHaveLength(3);
+  });
+
+  it('writes NDJSON to --output', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const data = writeFixture('bars.csv', BARS);
+    const out = join(workDir, 'out.ndjson');
+    const result = captured.run(() =>
+      commandRun(file, { data, format: 'ndjson', output: out }),
+    );
+    expect(result.code).toBeNull();
+    const records = readFileSync(out, 'utf-8')
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(records.map((record) => record.bar_index)).toEqual([0, 1]);
+  });
+
+  it('prints the script logs to stderr', () => {
+    const file = writeFixture(
+      'logs.pine',
+      'indicator("Logs")\nlog.warning("close {0}", close)\nplot(close)\n',
+    );
+    const data = writeFixture('bars.csv', BARS);
+    const result = captured.run(() => commandRun(file, { data }));
+    expect(result.code).toBeNull();
+    expect(result.errors).toEqual([
+      '[2024-01-02T14:30:00.000Z] WARNING: close 10\n[2024-01-02T14:31:00.000Z] WARNING: close 12',
+    ]);
+  });
+
+  it('writes the output and exits 1 after a runtime error', () => {
+    const file = writeFixture(
+      'boom.pine',
+      'indicator("Boom")\nif bar_index == 1\n    runtime.error("bad bar")\nplot(close)\n',
+    );
+    const data = writeFixture('bars.csv', BARS);
+    const result = captured.run(() => commandRun(file, { data }));
+    expect(result.code).toBe(1);
+    expect(result.logs.join('\n').split('\n')).toHaveLength(3);
+    expect(result.errors).toEqual(['Runtime error: line 3, bar 1: bad bar']);
+  });
+
+  it('exits 1 on malformed bars or an unknown format', () => {
+    const file = writeFixture('sma.pine', SMA_SOURCE);
+    const data = writeFixture('bars.csv', 'time,open,high,low\n1,2,3,4\n');
+    const malformed = captured.run(() => commandRun(file, { data }));
+    expect(malformed.code).toBe(1);
+    expect(malformed.errors[0]).toBe(
+      "Error: OHLCV CSV needs a 'close' column.",
+    );
+
+    const unknown = captured.run(() =>
+      commandRun(file, { data, format: 'xml' }),
+    );
+    expect(unknown.code).toBe(1);
+    expect(unknown.errors[0]).toContain("Unknown format 'xml'");
+  });
 });
 
 describe('commandInfo', () => {
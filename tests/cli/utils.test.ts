@@ -118,6 +118,14 @@ describe('parseArguments', () => {
     expect(parsed.options.format).toBe('js');
   });
 
+  it('defaults format to "csv" for the run command', () => {
+    const parsed = withArgv(['run', 'x.pine', '-d', 'bars.csv'], () =>
+      parseArguments(),
+    );
+    expect(parsed.options.format).toBe('csv');
+    expect(parsed.options.data).toBe('bars.csv');
+  });
+
   it('returns an empty command when no positionals are given', () => {
     const parsed = withArgv([], () => parseArguments());
     expect(parsed.command).toBe('');
@@ -112,6 +112,31 @@ plot(close)
     expect(typeof args[8]).toBe('string'); // size resolved to chart size constant
   });
 
+  it('polyline.new: named args reorder to (points, curved, closed, xloc, line_color, fill_color, line_style, line_width, ...)', () => {
+    const source = `//@version=6
+indicator("polyline-canonical", overlay=true)
+points = array.from(chart.point.new(price = low, index = bar_index, time = time), chart.point.from_index(bar_index + 1, high))
+polyline.new(points, line_width = 2, xloc = xloc.bar_index, line_color = #AABBCC, closed = true)
+plot(close)
+`;
+    const events = runOneBarAndCollect(source);
+    const newEvent = events.find((e) => e.call === 'polyline.new');
+    if (!newEvent) throw new Error('polyline.new event not emitted');
+    const args = newEvent.args;
+    const points = args[0] as Array<{ x: number; y: number }>;
+    expect(points).toHaveLength(2);
+    expect(points[0]?.x).toBe(0); // chart.point.new index, by name
+    expect(points[1]?.x).toBe(1);
+    expect(points[0]!.y).toBeLessThan(points[1]!.y); // low, then high
+    expect(args[1]).toBeNaN(); // curved (padded)
+    expect(args[2]).toBe(true); // closed
+    expect(args[3]).toBe('bar_index'); // xloc
+    expect(args[4]).toBe('#AABBCC'); // line_color
+    expect(args[5]).toBeNaN(); // fill_color (padded)
+    expect(args[6]).toBeNaN(); // line_style (padded)
+    expect(args[7]).toBe(2); // line_width
+  });
+
   it('positional-only calls pass through unchanged', () => {
     const source = `//@version=6
 indicator("box-positional", overlay=true)
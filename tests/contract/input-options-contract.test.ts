@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'bun:test';
-import { transpileToPineJS } from '../../src/index';
+import {
+  transpileToPineJS,
+  transpileToStandaloneFactory,
+} from '../../src/index';
+import { createMockRuntime } from '../corpus/mock-runtime';
+import { loadCreateIndicator } from '../regression/standalone-test-utils';
 
 function buildInputs(source: string) {
   const result = transpileToPineJS(source, 'input_options_contract', 'Input Options Contract');
@@ -33,4 +38,45 @@ plot(len)
     expect(lenInput).toBeDefined();
     expect(lenInput?.options).toEqual([]);
   });
+
+  describe('input.enum', () => {
+    const source = `//@version=6
+indicator("Enum input")
+enum Mode
+    fast = "Fast MA"
+    slow = "Slow MA"
+mode = input.enum(Mode.fast, "Mode")
+plot(mode == Mode.slow ? 2 : 1)
+`;
+
+    type Main = (context: unknown, inputCallback: () => unknown) => unknown;
+
+    function firstPlot(indicator: unknown, answer: unknown): unknown {
+      const runtime = createMockRuntime({ barCount: 1 });
+      const ctor = (indicator as { constructor: new () => { main: Main } })
+        .constructor;
+      const output = new ctor().main(runtime.context, () => answer);
+      return (output as unknown[])[0];
+    }
+
+    it('offers the member titles as options', () => {
+      const modeInput = buildInputs(source).find((x) => x.name === 'Mode');
+      expect(modeInput?.defval).toBe('Fast MA');
+      expect(modeInput?.options).toEqual(['Fast MA', 'Slow MA']);
+    });
+
+    it('resolves the chosen title to its member on both factory paths', () => {
+      const live = transpileToPineJS(source, 'enum_input');
+      const standalone = transpileToStandaloneFactory(source, 'enum_input');
+      const runtime = createMockRuntime({ barCount: 1 });
+      const indicators = [
+        live.indicatorFactory?.(runtime.pineJs),
+        loadCreateIndicator(standalone.factoryCode ?? '')(runtime.pineJs),
+      ];
+      for (const indicator of indicators) {
+        expect(firstPlot(indicator, 'Slow MA')).toBe(2);
+        expect(firstPlot(indicator, 'unknown')).toBe(1);
+      }
+    });
+  });
 });
@@ -267,6 +267,212 @@ const StdPlus = {
         return sma5 - sma34;
     },
     
+    /**
+     * The last length values of source, newest first, or null while
+     * fewer than length bars have been seen (Pine's warm-up).
+     */
+    _window: function(ctx, source, length) {
+        const n = Math.trunc(Number(length));
+        const seen = ctx.new_var(NaN);
+        const count = (Number.isFinite(seen.get(1)) ? seen.get(1) : 0) + 1;
+        seen.set(count);
+        if (!(n >= 1) || count < n) return null;
+        const values = [];
+        for (let i = 0; i < n; i++) {
+            values.push(typeof source === 'number' ? (i === 0 ? source : NaN) : Number(source.get(i)));
+        }
+        return values;
+    },
+
+    /**
+     * Ranked Correlation Index: Spearman's correlation between the
+     * order of the bars and the rank of their values, times 100.
+     * Equal values share their average rank.
+     */
+    rci: function(ctx, source, length) {
+        const values = StdPlus._window(ctx, source, length);
+        if (!values || values.length < 2 || values.some((v) => isNaN(v))) return NaN;
+
+        const n = values.length;
+        let sumSquares = 0;
+        for (let i = 0; i < n; i++) {
+            let above = 0;
+            let equal = 0;
+            for (const v of values) {
+                if (v > values[i]) above++;
+                else if (v === values[i]) equal++;
+            }
+            const d = (i + 1) - (above + (equal + 1) / 2);
+            sumSquares += d * d;
+        }
+        return (1 - (6 * sumSquares) / (n * (n * n - 1))) * 100;
+    },
+
+    /**
+     * Center of Gravity
+     * Formula: -sum(source[i] * (i + 1)) / sum(source[i]), i < length
+     */
+    cog: function(ctx, source, length) {
+        const values = StdPlus._window(ctx, source, length);
+        if (!values || values.some((v) => isNaN(v))) return NaN;
+
+        let sum = 0;
+        let weighted = 0;
+        values.forEach((v, i) => {
+            sum += v;
+            weighted += v * (i + 1);
+        });
+        return sum === 0 ? NaN : -weighted / sum;
+    },
+
+    /**
+     * Difference between the highest and lowest value over length bars
+     */
+    range: function(ctx, source, length) {
+        const values = StdPlus._window(ctx, source, length);
+        const xs = values ? values.filter((v) => !isNaN(v)) : [];
+        if (xs.length === 0) return NaN;
+        return Math.max(...xs) - Math.min(...xs);
+    },
+
+    /**
+     * Percentile over length bars, interpolating between the two
+     * nearest ranks. Same definition as array.percentile_linear_interpolation.
+     */
+    percentile_linear_interpolation: function(ctx, source, length, percentage) {
+        const values = StdPlus._window(ctx, source, length);
+        const xs = values ? values.filter((v) => !isNaN(v)).sort((a, b) => a - b) : [];
+        if (xs.length === 0) return NaN;
+        const position = Math.min(1, Math.max(0, Number(percentage) / 100)) * (xs.length - 1);
+        const lower = Math.floor(position);
+        const upper = Math.min(lower + 1, xs.length - 1);
+        return xs[lower] + (xs[upper] - xs[lower]) * (position - lower);
+    },
+
+    /**
+     * Percentile over length bars using the nearest rank, so the
+     * result is always one of the values. Same definition as
+     * array.percentile_nearest_rank.
+     */
+    percentile_nearest_rank: function(ctx, source, length, percentage) {
+        const values = StdPlus._window(ctx, source, length);
+        const xs = values ? values.filter((v) => !isNaN(v)).sort((a, b) => a - b) : [];
+        if (xs.length === 0) return NaN;
+        const rank = Math.ceil((Number(percentage) / 100) * xs.length);
+        return xs[Math.min(xs.length - 1, Math.max(0, rank - 1))];
+    },
+
+    /**
+     * All-time high of source up to the current bar, skipping na
+     */
+    max: function(ctx, source) {
+        const value = typeof source === 'number' ? source : Number(source.get(0));
+        const best = ctx.new_var(NaN);
+        const previous = best.get(1);
+        const next = isNaN(previous) ? value : isNaN(value) ? previous : Math.max(previous, value);
+        best.set(next);
+        return next;
+    },
+
+    /**
+     * All-time low of source up to the current bar, skipping na
+     */
+    min: function(ctx, source) {
+        const value = typeof source === 'number' ? source : Number(source.get(0));
+        const best = ctx.new_var(NaN);
+        const previous = best.get(1);
+        const next = isNaN(previous) ? value : isNaN(value) ? previous : Math.min(previous, value);
+        best.set(next);
+        return next;
+    },
+
+    /**
+     * Pivot point levels [P, R1, S1, R2, S2, R3, S3, R4, S4, R5, S5] of
+     * the period that ended at the last anchor bar, or of the current
+     * period when developing. Levels the type does not define are na,
+     * as is everything before the first period completes.
+     */
+    pivot_point_levels: function(ctx, type, anchor, developing) {
+        const open = Std.open(ctx);
+        const high = Std.high(ctx);
+        const low = Std.low(ctx);
+        const close = Std.close(ctx);
+
+        // Running open/high/low/close of the current period, then of
+        // the last completed one.
+        const state = [];
+        for (let i = 0; i < 8; i++) state.push(ctx.new_var(NaN));
+        const current = state.slice(0, 4).map((s) => s.get(1));
+        let completed = state.slice(4).map((s) => s.get(1));
+        const restart = Boolean(anchor) || isNaN(current[0]);
+        if (Boolean(anchor) && !isNaN(current[0])) completed = current;
+        const period = restart
+            ? [open, high, low, close]
+            : [current[0], Math.max(current[1], high), Math.min(current[2], low), close];
+        period.forEach((v, i) => state[i].set(v));
+        completed.forEach((v, i) => state[4 + i].set(v));
+
+        const levels = developing
+            ? StdPlus._pivotLevels(type, period, close)
+            : StdPlus._pivotLevels(type, completed, period[0]);
+        return _arrayFrom(...levels);
+    },
+
+    /**
+     * Pivot levels from a period's [open, high, low, close]; nextOpen is
+     * the open of the period that follows (Woodie).
+     */
+    _pivotLevels: function(type, period, nextOpen) {
+        const [o, h, l, c] = period;
+        const levels = Array(11).fill(NaN);
+        if ([o, h, l, c].some((v) => isNaN(v))) return levels;
+
+        const r = h - l;
+        const p = (h + l + c) / 3;
+        const set = (values) => values.forEach((v, i) => { levels[i] = v; });
+        switch (String(type)) {
+            case 'Traditional':
+                set([
+                    p, 2 * p - l, 2 * p - h, p + r, p - r,
+                    2 * p + (h - 2 * l), 2 * p - (2 * h - l),
+                    3 * p + (h - 3 * l), 3 * p - (3 * h - l),
+                    4 * p + (h - 4 * l), 4 * p - (4 * h - l),
+                ]);
+                break;
+            case 'Fibonacci':
+                set([p, p + 0.382 * r, p - 0.382 * r, p + 0.618 * r, p - 0.618 * r, p + r, p - r]);
+                break;
+            case 'Woodie': {
+                const w = (h + l + 2 * nextOpen) / 4;
+                const r3 = h + 2 * (w - l);
+                const s3 = l - 2 * (h - w);
+                set([w, 2 * w - l, 2 * w - h, w + r, w - r, r3, s3, r3 + r, s3 - r]);
+                break;
+            }
+            case 'Classic':
+                set([p, 2 * p - l, 2 * p - h, p + r, p - r, p + 2 * r, p - 2 * r, p + 3 * r, p - 3 * r]);
+                break;
+            case 'DM': {
+                const x = c < o ? h + 2 * l + c : c > o ? 2 * h + l + c : h + l + 2 * c;
+                set([x / 4, x / 2 - l, x / 2 - h]);
+                break;
+            }
+            case 'Camarilla': {
+                const k = 1.1 * r;
+                const r4 = c + k / 2;
+                const s4 = c - k / 2;
+                const r3 = c + k / 4;
+                const s3 = c - k / 4;
+                set([
+                    p, c + k / 12, c - k / 12, c + k / 6, c - k / 6,
+                    r3, s3, r4, s4, r4 + 1.168 * (r4 - r3), s4 - 1.168 * (s3 - s4),
+                ]);
+                break;
+            }
+        }
+        return levels;
+    },
+
     /**
      * Cleanup cached series to free memory
      */
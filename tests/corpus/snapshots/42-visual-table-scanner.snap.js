@@ -2,83 +2,35 @@ const _series_close = context.new_var(close);
 const _getHistorical_close = (offset) => _series_close.get(offset);
 
 // Color helpers
-const __colorClampByte = (value) => Math.max(0, Math.min(255, Math.round(Number(value) || 0)));
-const __colorClampTransparency = (value) => {
-  const n = Number(value);
-  if (!Number.isFinite(n)) return 0;
-  return Math.max(0, Math.min(100, n));
-};
-const __colorRoundAlpha = (value) => Number(Math.max(0, Math.min(1, value)).toFixed(4));
-const __colorFormatRgba = (r, g, b, a) => `rgba(${r}, ${g}, ${b}, ${__colorRoundAlpha(a)})`;
-const __colorParse = (color) => {
-  if (typeof color !== 'string') return null;
-  const token = color.trim();
-  const hex = token.match(/^#([0-9a-fA-F]{6})$/);
-  if (hex) {
-    const digits = hex[1];
-    return {
-      r: parseInt(digits.slice(0, 2), 16),
-      g: parseInt(digits.slice(2, 4), 16),
-      b: parseInt(digits.slice(4, 6), 16),
-      a: null,
-    };
-  }
-  const rgba = token.match(/^rgba?\(([^)]+)\)$/i);
-  if (!rgba) return null;
-  const parts = rgba[1]
-    .split(',')
-    .map((part) => part.trim())
-    .filter((part) => part.length > 0);
-  if (parts.length !== 3 && parts.length !== 4) return null;
-  const r = Number(parts[0]);
-  const g = Number(parts[1]);
-  const b = Number(parts[2]);
-  if (![r, g, b].every(Number.isFinite)) return null;
-  const parsed = {
-    r: __colorClampByte(r),
-    g: __colorClampByte(g),
-    b: __colorClampByte(b),
-    a: null,
-  };
-  if (parts.length === 3) return parsed;
-  const alpha = Number(parts[3]);
-  if (!Number.isFinite(alpha)) return null;
-  parsed.a = __colorRoundAlpha(alpha);
-  return parsed;
-};
-const _colorRgb = (r, g, b, t = 0) => __colorFormatRgba(
-  __colorClampByte(r),
-  __colorClampByte(g),
-  __colorClampByte(b),
-  1 - __colorClampTransparency(t) / 100,
-);
-const _colorNew = (color, t) => {
-  const parsed = __colorParse(color);
-  if (!parsed) return color;
-  return __colorFormatRgba(
-    parsed.r,
-    parsed.g,
-    parsed.b,
-    1 - __colorClampTransparency(t) / 100,
-  );
-};
-const _colorR = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.r : Number.NaN;
-};
-const _colorG = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.g : Number.NaN;
-};
-const _colorB = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.b : Number.NaN;
-};
-const _colorT = (color) => {
-  const parsed = __colorParse(color);
-  if (!parsed) return 0;
-  return Math.round((1 - (parsed.a === null ? 1 : parsed.a)) * 100);
-};
+const _colorRgb = (r, g, b, t) => color.rgb(r, g, b, t);
+const _colorNew = (c, t) => color.new(c, t);
+const _colorR = (c) => color.r(c);
+const _colorG = (c) => color.g(c);
+const _colorB = (c) => color.b(c);
+const _colorT = (c) => color.t(c);
+const _colorFromGradient = (value, bottom, top, bottomColor, topColor) =>
+  color.from_gradient(value, bottom, top, bottomColor, topColor);
+
+
+// String helpers
+const _strLength = (s) => str.length(s);
+const _strContains = (s, sub) => str.contains(s, sub);
+const _strStartsWith = (s, prefix) => str.startswith(s, prefix);
+const _strEndsWith = (s, suffix) => str.endswith(s, suffix);
+const _strSubstring = (s, start, end) => str.substring(s, start, end);
+const _strReplace = (s, old, rep, occurrence) => str.replace(s, old, rep, occurrence);
+const _strReplaceAll = (s, old, rep) => str.replace_all(s, old, rep);
+const _strLower = (s) => str.lower(s);
+const _strUpper = (s) => str.upper(s);
+const _strSplit = (s, sep) => str.split(s, sep);
+const _strFormat = (fmt, ...args) => str.format(fmt, ...args);
+const _strFormatTime = (t, fmt, tz) => str.format_time(t, fmt, tz);
+const _strToString = (value, fmt) => str.tostring(value, fmt);
+const _strToNumber = (s) => str.tonumber(s);
+const _strTrim = (s) => str.trim(s);
+const _strPos = (s, sub) => str.pos(s, sub);
+const _strMatch = (s, regex) => str.match(s, regex);
+const _strRepeat = (s, n, sep) => str.repeat(s, n, sep);
 
 
 const _pineState = (() => {
@@ -162,6 +114,6 @@ var t = _pineVar("t", () => (table.new(position.top_right, 2, 2)));
 table.cell(t, 0, 0, "Trend", NaN, NaN, color.white, NaN, NaN, NaN, _colorNew(color.blue, 70));
 table.cell(t, 1, 0, (trend ? "UP" : "DN"), NaN, NaN, (trend ? color.lime : color.red), NaN, NaN, NaN, _colorNew(color.black, 0));
 table.cell(t, 0, 1, "Score", NaN, NaN, color.white, NaN, NaN, NaN, _colorNew(color.gray, 70));
-table.cell(t, 1, 1, String(score), NaN, NaN, color.yellow, NaN, NaN, NaN, _colorNew(color.black, 0));
+table.cell(t, 1, 1, _strToString(score), NaN, NaN, color.yellow, NaN, NaN, NaN, _colorNew(color.black, 0));
 Std.plot(score, "Score", (trend ? color.lime : color.red), 1, 10, display.none, 0);
 Std.bgcolor((trend ? _colorNew(color.green, 90) : _colorNew(color.red, 90)));
\ No newline at end of file
@@ -35,7 +35,7 @@ const _arrayMissingDrawingHandle = new Proxy({}, {
     return () => undefined;
   },
 });
-const _arrayDrawingKinds = new Set(['line', 'box', 'label', 'table']);
+const _arrayDrawingKinds = new Set(['line', 'box', 'label', 'table', 'linefill']);
 const _arrayMarkKind = (arr, kind) => {
   if (!Array.isArray(arr)) return arr;
   if (typeof kind === 'string' && kind) {
@@ -50,79 +50,56 @@ const _arrayMarkKind = (arr, kind) => {
 };
 const _arrayEnsurePineMethods = (arr) => {
   if (!Array.isArray(arr)) return arr;
-  if (typeof arr.size !== 'function') {
-    Object.defineProperty(arr, 'size', {
-      value: function() { return this.length; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.get !== 'function') {
-    Object.defineProperty(arr, 'get', {
-      value: function(i) {
-        const idx = Math.floor(Number(i));
-        if (Number.isFinite(idx) && idx >= 0 && idx < this.length) {
-          return this[idx];
+  for (const [name, fn] of _arrayMethods) {
+    if (Object.prototype.hasOwnProperty.call(arr, name)) continue;
+    const native = Array.prototype[name];
+    Object.defineProperty(arr, name, {
+      value: function(first, ...rest) {
+        if (typeof first === 'function' && typeof native === 'function') {
+          return native.call(this, first, ...rest);
         }
-        const kind = this.__pineKind;
-        if (typeof kind === 'string' && _arrayDrawingKinds.has(kind)) {
-          return _arrayMissingDrawingHandle;
-        }
-        return NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.set !== 'function') {
-    Object.defineProperty(arr, 'set', {
-      value: function(i, v) { this[i] = v; return this; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.remove !== 'function') {
-    Object.defineProperty(arr, 'remove', {
-      value: function(i) {
-        const idx = Math.floor(Number(i));
-        if (!Number.isFinite(idx) || idx < 0 || idx >= this.length) return NaN;
-        const removed = this.splice(idx, 1);
-        return removed.length > 0 ? removed[0] : NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.clear !== 'function') {
-    Object.defineProperty(arr, 'clear', {
-      value: function() { this.length = 0; return this; },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.first !== 'function') {
-    Object.defineProperty(arr, 'first', {
-      value: function() {
-        return this.length > 0 ? this[0] : NaN;
-      },
-      enumerable: false,
-    });
-  }
-  if (typeof arr.last !== 'function') {
-    Object.defineProperty(arr, 'last', {
-      value: function() {
-        return this.length > 0 ? this[this.length - 1] : NaN;
+        return fn(this, first, ...rest);
       },
       enumerable: false,
+      configurable: true,
+      writable: true,
     });
   }
   return arr;
 };
+const _arrayFail = (message) => {
+  const error = new Error(message);
+  Object.defineProperty(error, '__pineErrorCode', { value: 'PINE9002', enumerable: false });
+  throw error;
+};
 const _arrayAsArray = (arr) => Array.isArray(arr) ? arr : [];
 const _arrayNumeric = (arr) => _arrayAsArray(arr).filter((v) => typeof v === 'number' && Number.isFinite(v));
+// Resolve a Pine index (negative counts from the end); `extra` lets
+// `insert` address the slot just past the last element.
+const _arrayIndex = (arr, index, extra = 0) => {
+  const size = _arrayAsArray(arr).length;
+  const n = Math.trunc(Number(index));
+  const resolved = n < 0 ? n + size : n;
+  if (!Number.isFinite(n) || resolved < 0 || resolved >= size + extra) {
+    _arrayFail('Index ' + (Number.isFinite(n) ? n : 'na') + ' is out of bounds. Array size is ' + size + '.');
+  }
+  return resolved;
+};
+const _arrayRequireElements = (arr, fn) => {
+  if (_arrayAsArray(arr).length === 0) {
+    _arrayFail('Cannot call array.' + fn + '() on an empty array.');
+  }
+  return arr;
+};
 const _arrayNew = (size = 0, val = NaN) => _arrayEnsurePineMethods(Array(_arraySafeSize(size)).fill(val));
 const _arrayNewAny = (size = 0, val = NaN) => _arrayNew(size, val);
 const _arrayNewLine = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'line');
 const _arrayNewBox = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'box');
 const _arrayNewLabel = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'label');
 const _arrayNewTable = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'table');
+const _arrayNewLinefill = (size = 0, val = NaN) => _arrayMarkKind(_arrayNewAny(size, val), 'linefill');
 const _arrayNewFloat = (size = 0, val = NaN) => _arrayNew(size, val);
-const _arrayNewInt = (size = 0, val = 0) => _arrayNew(size, val);
+const _arrayNewInt = (size = 0, val = NaN) => _arrayNew(size, val);
 const _arrayNewBool = (size = 0, val = false) => _arrayNew(size, val);
 const _arrayNewString = (size = 0, val = '') => _arrayNew(size, val);
 const _arrayFrom = (...values) => _arrayEnsurePineMethods([...values]);
@@ -134,25 +111,32 @@ const _arrayUnshift = (arr, val) => {
   if (Array.isArray(arr)) arr.unshift(val);
   return arr;
 };
-const _arrayPop = (arr) => (Array.isArray(arr) ? arr.pop() : NaN);
-const _arrayShift = (arr) => (Array.isArray(arr) ? arr.shift() : NaN);
+const _arrayInsert = (arr, i, val) => {
+  if (!Array.isArray(arr)) return arr;
+  arr.splice(_arrayIndex(arr, i, 1), 0, val);
+  return arr;
+};
+const _arrayPop = (arr) => Array.prototype.pop.call(_arrayRequireElements(arr, 'pop'));
+const _arrayShift = (arr) => Array.prototype.shift.call(_arrayRequireElements(arr, 'shift'));
 const _arrayRemove = (arr, i) => {
-  if (!Array.isArray(arr)) return NaN;
-  const idx = Math.floor(Number(i));
-  if (!Number.isFinite(idx) || idx < 0 || idx >= arr.length) return NaN;
-  const removed = arr.splice(idx, 1);
-  return removed.length > 0 ? removed[0] : NaN;
+  const idx = _arrayIndex(arr, i);
+  return arr.splice(idx, 1)[0];
 };
 const _arrayGet = (arr, i) => {
-  if (!Array.isArray(arr)) return NaN;
-  if (typeof arr.get === 'function') return arr.get(i);
-  const idx = Math.floor(Number(i));
-  return Number.isFinite(idx) ? arr[idx] : NaN;
+  const kind = arr?.__pineKind;
+  if (typeof kind === 'string' && _arrayDrawingKinds.has(kind)) {
+    const idx = Math.trunc(Number(i));
+    const resolved = idx < 0 ? idx + arr.length : idx;
+    return resolved >= 0 && resolved < arr.length ? arr[resolved] : _arrayMissingDrawingHandle;
+  }
+  return arr[_arrayIndex(arr, i)];
 };
 const _arraySet = (arr, i, val) => {
-  if (Array.isArray(arr)) arr[i] = val;
+  arr[_arrayIndex(arr, i)] = val;
   return arr;
 };
+const _arrayFirst = (arr) => _arrayRequireElements(arr, 'first')[0];
+const _arrayLast = (arr) => _arrayRequireElements(arr, 'last')[arr.length - 1];
 const _arraySize = (arr) => {
   if (Array.isArray(arr)) return arr.length;
   if (arr && typeof arr.size === 'function') return Number(arr.size()) || 0;
@@ -164,144 +148,253 @@ const _arrayAvg = (arr) => {
   return xs.reduce((a, b) => a + b, 0) / xs.length;
 };
 const _arraySum = (arr) => _arrayNumeric(arr).reduce((a, b) => a + b, 0);
-const _arrayMin = (arr) => {
-  const xs = _arrayNumeric(arr);
-  return xs.length === 0 ? NaN : Math.min(...xs);
+// The nth largest (`max`) or smallest (`min`) element.
+const _arrayMin = (arr, nth = 0) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  const value = xs[Math.trunc(Number(nth)) || 0];
+  return value === undefined ? NaN : value;
 };
-const _arrayMax = (arr) => {
-  const xs = _arrayNumeric(arr);
-  return xs.length === 0 ? NaN : Math.max(...xs);
+const _arrayMax = (arr, nth = 0) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => b - a);
+  const value = xs[Math.trunc(Number(nth)) || 0];
+  return value === undefined ? NaN : value;
 };
-const _arrayStdev = (arr) => {
-  const avg = _arrayAvg(arr);
-  if (isNaN(avg)) return NaN;
+const _arrayRange = (arr) => _arrayMax(arr) - _arrayMin(arr);
+const _arrayMedian = (arr) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const mid = Math.floor(xs.length / 2);
+  return xs.length % 2 === 1 ? xs[mid] : (xs[mid - 1] + xs[mid]) / 2;
+};
+// The most frequent element; the smallest one on a tie.
+const _arrayMode = (arr) => {
+  const counts = new Map();
+  for (const v of _arrayNumeric(arr)) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best = NaN;
+  let bestCount = 0;
+  for (const [v, count] of counts) {
+    if (count > bestCount || (count === bestCount && v < best)) {
+      best = v;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+// Population (biased) statistics by default, sample ones otherwise.
+const _arrayVariance = (arr, biased = true) => {
   const xs = _arrayNumeric(arr);
-  const sqDiffs = xs.map(v => Math.pow(v - avg, 2));
-  return Math.sqrt(_arrayAvg(sqDiffs));
+  const divisor = biased === false ? xs.length - 1 : xs.length;
+  if (xs.length === 0 || divisor <= 0) return NaN;
+  const avg = xs.reduce((a, b) => a + b, 0) / xs.length;
+  return xs.reduce((total, v) => total + (v - avg) * (v - avg), 0) / divisor;
+};
+const _arrayStdev = (arr, biased = true) => Math.sqrt(_arrayVariance(arr, biased));
+const _arrayCovariance = (arr1, arr2, biased = true) => {
+  const a = _arrayAsArray(arr1);
+  const b = _arrayAsArray(arr2);
+  if (a.length !== b.length) return NaN;
+  const pairs = a
+    .map((v, i) => [v, b[i]])
+    .filter(([x, y]) => typeof x === 'number' && Number.isFinite(x) && typeof y === 'number' && Number.isFinite(y));
+  const divisor = biased === false ? pairs.length - 1 : pairs.length;
+  if (pairs.length === 0 || divisor <= 0) return NaN;
+  const meanX = pairs.reduce((total, [x]) => total + x, 0) / pairs.length;
+  const meanY = pairs.reduce((total, [, y]) => total + y, 0) / pairs.length;
+  return pairs.reduce((total, [x, y]) => total + (x - meanX) * (y - meanY), 0) / divisor;
 };
-const _arrayVariance = (arr) => {
+const _arrayStandardize = (arr) => {
   const avg = _arrayAvg(arr);
-  if (isNaN(avg)) return NaN;
-  const xs = _arrayNumeric(arr);
-  const sqDiffs = xs.map(v => Math.pow(v - avg, 2));
-  return _arrayAvg(sqDiffs);
+  const stdev = _arrayStdev(arr);
+  return _arrayEnsurePineMethods(_arrayAsArray(arr).map((v) => (Number(v) - avg) / stdev));
+};
+const _arrayAbs = (arr) => _arrayEnsurePineMethods(_arrayAsArray(arr).map((v) => Math.abs(v)));
+const _arrayPercentileNearestRank = (arr, percentage) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const rank = Math.ceil((Number(percentage) / 100) * xs.length);
+  return xs[Math.min(xs.length - 1, Math.max(0, rank - 1))];
+};
+const _arrayPercentileLinearInterpolation = (arr, percentage) => {
+  const xs = _arrayNumeric(arr).sort((a, b) => a - b);
+  if (xs.length === 0) return NaN;
+  const position = Math.min(1, Math.max(0, Number(percentage) / 100)) * (xs.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, xs.length - 1);
+  return xs[lower] + (xs[upper] - xs[lower]) * (position - lower);
+};
+// Percentage of the other elements at or below the element at `i`.
+const _arrayPercentRank = (arr, i) => {
+  const value = arr[_arrayIndex(arr, i)];
+  const others = _arrayNumeric(arr).length - 1;
+  if (others <= 0 || typeof value !== 'number' || !Number.isFinite(value)) return NaN;
+  const atOrBelow = _arrayNumeric(arr).filter((v) => v <= value).length - 1;
+  return (100 * atOrBelow) / others;
+};
+// Pine `order.ascending` is `true`; `na` elements sort last.
+const _arrayCompare = (ascending) => (a, b) => {
+  const aNa = typeof a === 'number' && Number.isNaN(a);
+  const bNa = typeof b === 'number' && Number.isNaN(b);
+  if (aNa || bNa) return aNa === bNa ? 0 : aNa ? 1 : -1;
+  const order = a < b ? -1 : a > b ? 1 : 0;
+  return ascending === false ? -order : order;
 };
 const _arraySort = (arr, asc = true) => {
   if (!Array.isArray(arr)) return arr;
-  arr.sort((a, b) => asc ? a - b : b - a);
+  Array.prototype.sort.call(arr, _arrayCompare(asc));
   return arr;
 };
+const _arraySortIndices = (arr, asc = true) => {
+  const values = _arrayAsArray(arr);
+  const compare = _arrayCompare(asc);
+  return _arrayEnsurePineMethods(
+    values.map((_, i) => i).sort((i, j) => compare(values[i], values[j])),
+  );
+};
+// First index whose element is not below `val` in an ascending array.
+const _arrayLowerBound = (arr, val) => {
+  const xs = _arrayAsArray(arr);
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] < val) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+const _arrayBinarySearch = (arr, val) => {
+  const at = _arrayLowerBound(arr, val);
+  return _arrayAsArray(arr)[at] === val ? at : -1;
+};
+const _arrayBinarySearchLeftmost = (arr, val) => {
+  const at = _arrayLowerBound(arr, val);
+  return _arrayAsArray(arr)[at] === val ? at : at - 1;
+};
+const _arrayBinarySearchRightmost = (arr, val) => {
+  const xs = _arrayAsArray(arr);
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (xs[mid] <= val) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && xs[lo - 1] === val ? lo - 1 : lo;
+};
 const _arrayReverse = (arr) => {
   if (!Array.isArray(arr)) return arr;
   arr.reverse();
   return arr;
 };
-const _arraySlice = (arr, start, end) => _arrayEnsurePineMethods(_arrayAsArray(arr).slice(start, end));
-const _arrayConcat = (arr1, arr2) => _arrayEnsurePineMethods(_arrayAsArray(arr1).concat(_arrayAsArray(arr2)));
-const _arrayCopy = (arr) => _arrayEnsurePineMethods([..._arrayAsArray(arr)]);
+const _arrayCheckRange = (arr, from, to) => {
+  const size = _arrayAsArray(arr).length;
+  if (!(from >= 0 && from <= size)) _arrayIndex(arr, from, 1);
+  if (!(to >= from && to <= size)) _arrayIndex(arr, to, 1);
+};
+const _arraySlice = (arr, start = 0, end) => {
+  const from = Math.trunc(Number(start));
+  const to = end === undefined ? _arrayAsArray(arr).length : Math.trunc(Number(end));
+  _arrayCheckRange(arr, from, to);
+  return _arrayMarkKind(
+    _arrayEnsurePineMethods(Array.prototype.slice.call(arr, from, to)),
+    arr.__pineKind,
+  );
+};
+const _arrayFill = (arr, val, start = 0, end) => {
+  if (!Array.isArray(arr)) return arr;
+  Array.prototype.fill.call(arr, val, Math.trunc(Number(start)) || 0, end === undefined ? arr.length : Math.trunc(Number(end)));
+  return arr;
+};
+// Pine appends the second array to the first in place.
+const _arrayConcat = (arr1, arr2) => {
+  if (!Array.isArray(arr1)) return arr1;
+  for (const value of _arrayAsArray(arr2)) arr1.push(value);
+  return arr1;
+};
+const _arrayCopy = (arr) =>
+  _arrayMarkKind(_arrayEnsurePineMethods([..._arrayAsArray(arr)]), arr?.__pineKind);
 const _arrayClear = (arr) => {
   if (Array.isArray(arr)) arr.length = 0;
   return arr;
 };
+const _arrayEvery = (arr) => _arrayAsArray(arr).every((v) => Boolean(v));
+const _arraySome = (arr) => _arrayAsArray(arr).some((v) => Boolean(v));
+const _arraySame = (a, b) => a === b || (Number.isNaN(a) && Number.isNaN(b));
 const _arrayIncludes = (arr, val) => _arrayAsArray(arr).includes(val);
-const _arrayIndexOf = (arr, val) => _arrayAsArray(arr).indexOf(val);
-const _arrayLastIndexOf = (arr, val) => _arrayAsArray(arr).lastIndexOf(val);
+const _arrayIndexOf = (arr, val) => _arrayAsArray(arr).findIndex((v) => _arraySame(v, val));
+const _arrayLastIndexOf = (arr, val) => _arrayAsArray(arr).findLastIndex((v) => _arraySame(v, val));
 const _arrayJoin = (arr, sep = ',') => _arrayAsArray(arr).join(sep);
+const _arrayMethods = Object.entries({
+  size: _arraySize,
+  get: _arrayGet,
+  set: _arraySet,
+  insert: _arrayInsert,
+  remove: _arrayRemove,
+  pop: _arrayPop,
+  shift: _arrayShift,
+  first: _arrayFirst,
+  last: _arrayLast,
+  clear: _arrayClear,
+  slice: _arraySlice,
+  concat: _arrayConcat,
+  copy: _arrayCopy,
+  sort: _arraySort,
+  sort_indices: _arraySortIndices,
+  every: _arrayEvery,
+  some: _arraySome,
+  indexof: _arrayIndexOf,
+  lastindexof: _arrayLastIndexOf,
+  binary_search: _arrayBinarySearch,
+  binary_search_leftmost: _arrayBinarySearchLeftmost,
+  binary_search_rightmost: _arrayBinarySearchRightmost,
+  avg: _arrayAvg,
+  sum: _arraySum,
+  min: _arrayMin,
+  max: _arrayMax,
+  range: _arrayRange,
+  median: _arrayMedian,
+  mode: _arrayMode,
+  variance: _arrayVariance,
+  stdev: _arrayStdev,
+  covariance: _arrayCovariance,
+  standardize: _arrayStandardize,
+  abs: _arrayAbs,
+  percentile_linear_interpolation: _arrayPercentileLinearInterpolation,
+  percentile_nearest_rank: _arrayPercentileNearestRank,
+  percentrank: _arrayPercentRank,
+});
 
 
 // Color helpers
-const __colorClampByte = (value) => Math.max(0, Math.min(255, Math.round(Number(value) || 0)));
-const __colorClampTransparency = (value) => {
-  const n = Number(value);
-  if (!Number.isFinite(n)) return 0;
-  return Math.max(0, Math.min(100, n));
-};
-const __colorRoundAlpha = (value) => Number(Math.max(0, Math.min(1, value)).toFixed(4));
-const __colorFormatRgba = (r, g, b, a) => `rgba(${r}, ${g}, ${b}, ${__colorRoundAlpha(a)})`;
-const __colorParse = (color) => {
-  if (typeof color !== 'string') return null;
-  const token = color.trim();
-  const hex = token.match(/^#([0-9a-fA-F]{6})$/);
-  if (hex) {
-    const digits = hex[1];
-    return {
-      r: parseInt(digits.slice(0, 2), 16),
-      g: parseInt(digits.slice(2, 4), 16),
-      b: parseInt(digits.slice(4, 6), 16),
-      a: null,
-    };
-  }
-  const rgba = token.match(/^rgba?\(([^)]+)\)$/i);
-  if (!rgba) return null;
-  const parts = rgba[1]
-    .split(',')
-    .map((part) => part.trim())
-    .filter((part) => part.length > 0);
-  if (parts.length !== 3 && parts.length !== 4) return null;
-  const r = Number(parts[0]);
-  const g = Number(parts[1]);
-  const b = Number(parts[2]);
-  if (![r, g, b].every(Number.isFinite)) return null;
-  const parsed = {
-    r: __colorClampByte(r),
-    g: __colorClampByte(g),
-    b: __colorClampByte(b),
-    a: null,
-  };
-  if (parts.length === 3) return parsed;
-  const alpha = Number(parts[3]);
-  if (!Number.isFinite(alpha)) return null;
-  parsed.a = __colorRoundAlpha(alpha);
-  return parsed;
-};
-const _colorRgb = (r, g, b, t = 0) => __colorFormatRgba(
-  __colorClampByte(r),
-  __colorClampByte(g),
-  __colorClampByte(b),
-  1 - __colorClampTransparency(t) / 100,
-);
-const _colorNew = (color, t) => {
-  const parsed = __colorParse(color);
-  if (!parsed) return color;
-  return __colorFormatRgba(
-    parsed.r,
-    parsed.g,
-    parsed.b,
-    1 - __colorClampTransparency(t) / 100,
-  );
-};
-const _colorR = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.r : Number.NaN;
-};
-const _colorG = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.g : Number.NaN;
-};
-const _colorB = (color) => {
-  const parsed = __colorParse(color);
-  return parsed ? parsed.b : Number.NaN;
-};
-const _colorT = (color) => {
-  const parsed = __colorParse(color);
-  if (!parsed) return 0;
-  return Math.round((1 - (parsed.a === null ? 1 : parsed.a)) * 100);
-};
+const _colorRgb = (r, g, b, t) => color.rgb(r, g, b, t);
+const _colorNew = (c, t) => color.new(c, t);
+const _colorR = (c) => color.r(c);
+const _colorG = (c) => color.g(c);
+const _colorB = (c) => color.b(c);
+const _colorT = (c) => color.t(c);
+const _colorFromGradient = (value, bottom, top, bottomColor, topColor) =>
+  color.from_gradient(value, bottom, top, bottomColor, topColor);
 
 
 // String helpers
-const _strCoerce = (s) => (s == null ? '' : String(s));
-const _strLength = (s) => _strCoerce(s).length;
-const _strContains = (s, sub) => _strCoerce(s).includes(_strCoerce(sub));
-const _strStartsWith = (s, prefix) => _strCoerce(s).startsWith(_strCoerce(prefix));
-const _strEndsWith = (s, suffix) => _strCoerce(s).endsWith(_strCoerce(suffix));
-const _strSubstring = (s, start, end) => _strCoerce(s).substring(start, end);
-const _strReplace = (s, old, rep) => _strCoerce(s).replace(_strCoerce(old), _strCoerce(rep));
-const _strReplaceAll = (s, old, rep) => _strCoerce(s).replaceAll(_strCoerce(old), _strCoerce(rep));
-const _strLower = (s) => _strCoerce(s).toLowerCase();
-const _strUpper = (s) => _strCoerce(s).toUpperCase();
-const _strSplit = (s, sep) => _strCoerce(s).split(_strCoerce(sep));
-const _strFormat = (fmt, ...args) => _strCoerce(fmt).replace(/{(\d+)}/g, (m, i) => args[i] ?? m);
+const _strLength = (s) => str.length(s);
+const _strContains = (s, sub) => str.contains(s, sub);
+const _strStartsWith = (s, prefix) => str.startswith(s, prefix);
+const _strEndsWith = (s, suffix) => str.endswith(s, suffix);
+const _strSubstring = (s, start, end) => str.substring(s, start, end);
+const _strReplace = (s, old, rep, occurrence) => str.replace(s, old, rep, occurrence);
+const _strReplaceAll = (s, old, rep) => str.replace_all(s, old, rep);
+const _strLower = (s) => str.lower(s);
+const _strUpper = (s) => str.upper(s);
+const _strSplit = (s, sep) => str.split(s, sep);
+const _strFormat = (fmt, ...args) => str.format(fmt, ...args);
+const _strFormatTime = (t, fmt, tz) => str.format_time(t, fmt, tz);
+const _strToString = (value, fmt) => str.tostring(value, fmt);
+const _strToNumber = (s) => str.tonumber(s);
+const _strTrim = (s) => str.trim(s);
+const _strPos = (s, sub) => str.pos(s, sub);
+const _strMatch = (s, regex) => str.match(s, regex);
+const _strRepeat = (s, n, sep) => str.repeat(s, n, sep);
 
 
 const _pineState = (() => {
@@ -981,8 +1074,8 @@ function del_kz(k) {
 }
 function update_price_string(L, P) {
   var S = L.get_text();
-  var pre = _strSubstring(S, 0, str.pos(S, " "));
-  str.trim(pre);
+  var pre = _strSubstring(S, 0, _strPos(S, " "));
+  _strTrim(pre);
   return L.set_text(_strFormat("{0} ({1})", pre, P));
 }
 function adjust_in_kz(kz, t) {
@@ -1188,9 +1281,9 @@ function get_min_days_stored() {
 }
 function set_table(tbl, kz, row, txt, t, col) {
   table.cell(tbl, 0, row, txt, NaN, NaN, txt_color, NaN, NaN, range_size, get_box_color(col));
-  table.cell(tbl, 1, row, String(kz._range_current), NaN, NaN, txt_color, NaN, NaN, range_size, (t ? get_box_color(col) : NaN));
+  table.cell(tbl, 1, row, _strToString(kz._range_current), NaN, NaN, txt_color, NaN, NaN, range_size, (t ? get_box_color(col) : NaN));
   if (show_range_avg) {
-    table.cell(tbl, 2, row, String(kz._range_store.avg()), NaN, NaN, txt_color, NaN, NaN, range_size);
+    table.cell(tbl, 2, row, _strToString(kz._range_store.avg()), NaN, NaN, txt_color, NaN, NaN, range_size);
   }
 }
 const _pineMethodProto_23 = (typeof table === 'function' && table.prototype) ? table.prototype : null;
@@ -1208,7 +1301,7 @@ if ((show_range && barstate.islast)) {
   table.cell(tbl, 0, 0, "Killzone", NaN, NaN, txt_color, NaN, NaN, range_size);
   table.cell(tbl, 1, 0, "Range", NaN, NaN, txt_color, NaN, NaN, range_size);
   if (show_range_avg) {
-    table.cell(tbl, 2, 0, (("Avg (" + String(get_min_days_stored())) + ")"), NaN, NaN, txt_color, NaN, NaN, range_size);
+    table.cell(tbl, 2, 0, (("Avg (" + _strToString(get_min_days_stored())) + ")"), NaN, NaN, txt_color, NaN, NaN, range_size);
   }
   for (const [index, value] of _kz.entries()) {
     set_table(tbl, value._kz, (index + 1), value.box_txt, !Std.na(Std.time("", value.session, gmt_tz)), value.c);
@@ -20,7 +20,7 @@ describe('generateStandaloneFactory', () => {
         bgcolors: [],
       });
 
-      expect(result).toContain('function createIndicator(PineJS)');
+      expect(result).toContain('function createIndicator(PineJS, options)');
       expect(result).toContain("name: 'User_test_indicator'");
       expect(result).toContain('description: "Test Indicator"');
       expect(result).toContain('is_price_study: true');
@@ -0,0 +1,196 @@
+/**
+ * Formatter Tests
+ *
+ * Tests for `formatPineScript`: indentation, operator spacing, blank
+ * lines and argument wrapping, comment placement, and that formatting
+ * the corpus keeps every script's AST and comments and is idempotent.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { formatPineScript } from '../../src';
+import { Lexer, Parser } from '../../src/parser';
+import {
+  FIXTURES_DIR,
+  listCommunityFixtures,
+  listCuratedFixtures,
+} from '../corpus/list-fixtures';
+
+/** `code` parsed, with source positions dropped, plus its comments. */
+function shape(code: string) {
+  const lexer = new Lexer(code);
+  const { program } = new Parser(lexer.tokenize(), {
+    version: lexer.getVersion(),
+  }).parseWithErrors();
+  const ast = JSON.stringify(program, (key, value) =>
+    key === 'start' || key === 'end' || key === 'loc' ? undefined : value,
+  );
+  const comments = lexer.getComments().map((comment) => comment.text.trim());
+  return { ast, comments };
+}
+
+describe('formatPineScript', () => {
+  it('should normalize indentation, spacing and blank lines', () => {
+    const code = `//@version=6
+indicator("Demo",overlay=true)
+
+
+
+len=input.int(14,"Length",minval=1)
+f(src,int n=2)=>
+  s=ta.sma(src,n)
+
+
+  s*-1
+if close>open and not na(close)
+	plot(close[1])
+else if(close<open)
+  x=(close+open)/2*(high-low)
+var int count=0, count:=count+1
+`;
+
+    expect(formatPineScript(code)).toBe(`//@version=6
+indicator("Demo", overlay = true)
+
+len = input.int(14, "Length", minval = 1)
+f(src, int n = 2) =>
+    s = ta.sma(src, n)
+
+    s * -1
+if close > open and not na(close)
+    plot(close[1])
+else if close < open
+    x = (close + open) / 2 * (high - low)
+var int count = 0, count := count + 1
+`);
+  });
+
+  it('should print switch and if values, types and enums', () => {
+    const code = `type Point
+  float x=0
+  float y
+export enum Side
+  left
+  right="Right side"
+x=switch
+  close>open=>1
+  =>-(-1)
+y=if close>open
+  1
+else
+  2
+for [i,v] in array.from(1,2)
+  for j=0 to i by 2
+    continue`;
+
+    expect(formatPineScript(code)).toBe(`type Point
+    float x = 0
+    float y
+export enum Side
+    left
+    right = "Right side"
+x = switch
+    close > open => 1
+    => -(-1)
+y = if close > open
+    1
+else
+    2
+for [i, v] in array.from(1, 2)
+    for j = 0 to i by 2
+        continue
+`);
+  });
+
+  it('should print the qualifier of each declaration in a list', () => {
+    expect(formatPineScript('var a=0,var b=1,c=a\nvarip d=0,e=d')).toBe(
+      'var a = 0, var b = 1, c = a\nvarip d = 0, e = d\n',
+    );
+  });
+
+  it('should wrap long argument lists one per line', () => {
+    const code =
+      'plot(ta.sma(close, 20), title="Twenty-bar simple moving average of the close", color=color.new(color.blue, 50))';
+
+    expect(formatPineScript(code)).toBe(`plot(
+  ta.sma(close, 20),
+  title = "Twenty-bar simple moving average of the close",
+  color = color.new(color.blue, 50))
+`);
+    expect(formatPineScript(code, { lineWidth: 200 })).not.toContain('\n  ');
+  });
+
+  it('should keep every comment in place', () => {
+    const code = `// header
+
+// before len
+len = 14 // trailing
+if close > open // up
+    // inside
+    x = 1
+    // end of block
+else
+    // flat
+    x = 0
+// after if
+plot(close, // moved above
+     len)
+/* block
+   comment */`;
+
+    expect(formatPineScript(code)).toBe(`// header
+
+// before len
+len = 14 // trailing
+if close > open // up
+    // inside
+    x = 1
+    // end of block
+else
+    // flat
+    x = 0
+// after if
+// moved above
+plot(close, len)
+/* block
+   comment */
+`);
+  });
+
+  it('should reprint strings as written', () => {
+    const code = `label.new(bar_index, high, 'it\\'s', textcolor=#FF000080)`;
+
+    expect(formatPineScript(code)).toBe(
+      `label.new(bar_index, high, 'it\\'s', textcolor = #FF000080)\n`,
+    );
+  });
+
+  it('should reject scripts with syntax errors', () => {
+    expect(() => formatPineScript('x = (1 +\ny = 2')).toThrow();
+  });
+
+  it('should keep the AST and comments of the corpus, idempotently', () => {
+    const paths = [
+      ...listCuratedFixtures().map((name) => join(FIXTURES_DIR, name)),
+      ...listCommunityFixtures().map((fixture) => fixture.path),
+    ];
+    const changed: string[] = [];
+    for (const path of paths) {
+      const code = readFileSync(path, 'utf-8').replace(/\r\n/g, '\n');
+      const formatted = formatPineScript(code);
+      const before = shape(code);
+      const after = shape(formatted);
+      if (
+        after.ast !== before.ast ||
+        after.comments.join('\n') !== before.comments.join('\n') ||
+        formatPineScript(formatted) !== formatted
+      ) {
+        changed.push(path);
+      }
+    }
+
+    expect(paths.length).toBeGreaterThan(0);
+    expect(changed).toEqual([]);
+  });
+});
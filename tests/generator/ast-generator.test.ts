@@ -6,12 +6,17 @@
  */
 
 import { describe, expect, it } from 'bun:test';
+import { checkTypes } from '../../src/checker';
+import { ASTGenerator } from '../../src/generator/ast-generator';
+import { STRING_HELPER_FUNCTIONS } from '../../src/mappings';
+import { createStrNamespace } from '../../src/runtime';
 import {
   assertTranspiles,
   codeContainsAll,
   countOccurrences,
   generateCode,
   generateCodeWithHistory,
+  parse,
 } from '../utils';
 
 describe('AST Generator', () => {
@@ -265,6 +270,113 @@ export type MyType
     });
   });
 
+  describe('Enum Declaration Generation', () => {
+    it('should generate enum as frozen object of titled members', () => {
+      const code = `
+enum Mode
+    fast = "Fast MA"
+    slow
+`;
+      const js = generateCode(code);
+      expect(js).toContain('var Mode = Object.freeze({');
+      expect(js).toContain(
+        'fast: Object.freeze({ name: "fast", title: "Fast MA"',
+      );
+      expect(js).toContain('slow: Object.freeze({ name: "slow", title: "slow"');
+    });
+
+    it('should stringify members to their title', () => {
+      const code = `
+enum Mode
+    fast = "Fast MA"
+    slow
+a = str.tostring(Mode.fast)
+b = str.tostring(Mode.slow)
+`;
+      const js = generateCode(code);
+      const run = new Function(
+        'str',
+        `${STRING_HELPER_FUNCTIONS}\n${js}\nreturn [a, b];`,
+      );
+      expect(run(createStrNamespace())).toEqual(['Fast MA', 'slow']);
+    });
+
+    it('should generate exported enum', () => {
+      const code = `
+export enum Side
+    long
+    short
+`;
+      const js = generateCode(code);
+      expect(js).toContain('export var Side = Object.freeze({');
+    });
+  });
+
+  describe('Version Semantics', () => {
+    it('should evaluate both operands of v5 and/or with stateful calls', () => {
+      const code = `//@version=5
+a = close > open and ta.crossover(close, open)
+b = close > open or ta.crossunder(close, open)
+c = close > open and open > 1`;
+      const js = generateCode(code);
+      expect(js).toContain(
+        'var a = [(close > open), StdPlus.crossover(context, close, open)].every(Boolean);',
+      );
+      expect(js).toContain('].some(Boolean);');
+      expect(js).toContain('var c = ((close > open) && (open > 1));');
+    });
+
+    it('should short-circuit and/or in v6', () => {
+      const js = generateCode(
+        '//@version=6\na = close > open and ta.crossover(close, open)',
+      );
+      expect(js).toContain('&& StdPlus.crossover(');
+    });
+
+    it('should truncate const int division before v6', () => {
+      const code = 'n = 7 / 2\nm = 7.0 / 2';
+      expect(generateCode(`//@version=5\n${code}`)).toContain(
+        'var n = Math.trunc(7 / 2);',
+      );
+      expect(generateCode(`//@version=5\n${code}`)).toContain(
+        'var m = (7 / 2);',
+      );
+      expect(generateCode(`//@version=6\n${code}`)).toContain(
+        'var n = (7 / 2);',
+      );
+    });
+
+    it('should read types from the check it is given', () => {
+      const ast = parse('//@version=5\nn = 7 / 2');
+      const typeCheck = checkTypes(ast);
+
+      expect(new ASTGenerator().generate(ast, typeCheck)).toContain(
+        'var n = Math.trunc(7 / 2);',
+      );
+      expect(
+        new ASTGenerator().generate(ast, { ...typeCheck, types: new Map() }),
+      ).toContain('var n = (7 / 2);');
+    });
+
+    it('should read bool history as false in v6', () => {
+      const code = 'b = close > open\nc = b[1]\nd = close[1]';
+      const v6 = generateCodeWithHistory(`//@version=6\n${code}`, new Set());
+      const v5 = generateCodeWithHistory(`//@version=5\n${code}`, new Set());
+      expect(v6).toContain('var c = !!_getHistorical_b(1);');
+      expect(v6).toContain('var d = _getHistorical_close(1);');
+      expect(v5).toContain('var c = _getHistorical_b(1);');
+    });
+
+    it('should lower when= to a condition in v5 and v6', () => {
+      const code = 'strategy.entry("L", strategy.long, when = close > open)';
+      for (const version of [5, 6]) {
+        expect(generateCode(`//@version=${version}\n${code}`)).toContain(
+          '((close > open) ? strategy.entry("L", strategy.long) : undefined);',
+        );
+      }
+    });
+  });
+
   describe('Import Statement Generation', () => {
     it('should generate import statement', () => {
       const code = 'import "library/path"';
@@ -326,8 +438,12 @@ counter() =>
 plot(counter())
 `;
       const js = generateCode(code);
-      expect(js).toContain('const _pineFnScope_0 = _pineScopeKey("counter#0");');
-      expect(js).toContain('var x = _pineVar(_pineFnScope_0 + "::x", () => (0));');
+      expect(js).toContain(
+        'const _pineFnScope_0 = _pineScopeKey("counter#0");',
+      );
+      expect(js).toContain(
+        'var x = _pineVar(_pineFnScope_0 + "::x", () => (0));',
+      );
       expect(js).toContain('x = _pineSetVar(_pineFnScope_0 + "::x", (x + 1))');
     });
   });
@@ -397,6 +513,15 @@ plot(counter())
         const js = generateCode(code);
         expect(js).toContain('context.new_var((high + low)).get(1)');
       });
+
+      it('should read strategy trade namespaces as counts on their own', () => {
+        const code =
+          'x = strategy.closedtrades > 0 ? strategy.closedtrades.profit(strategy.closedtrades - 1) : strategy.opentrades';
+        const js = generateCode(code);
+        expect(js).toContain(
+          '((strategy.closedtrades.count > 0) ? strategy.closedtrades.profit((strategy.closedtrades.count - 1)) : strategy.opentrades.count)',
+        );
+      });
     });
 
     describe('Call Expressions', () => {
@@ -153,6 +153,14 @@ describe('HelperUsage', () => {
     expect(usage.has('array')).toBe(true);
   });
 
+  it('markByName() also marks the helpers a StdPlus result is built with', () => {
+    const usage = new HelperUsage();
+    usage.markByName('StdPlus.pivot_point_levels');
+    expect(usage.has('stdplus')).toBe(true);
+    expect(usage.has('array')).toBe(true);
+    expect(HelperUsage.fromBody('StdPlus.pivot_point_levels(context, "DM", a)').has('array')).toBe(true);
+  });
+
   it('markByName() returns false for non-helpers and leaves state untouched', () => {
     const usage = new HelperUsage();
     expect(usage.markByName('Std.sma')).toBe(false);
@@ -150,7 +150,7 @@ describe('MetadataVisitor', () => {
         const metadata = extractMetadata(code);
         expect(metadata.inputs[0]).toMatchObject({
           type: 'color',
-          defval: 'rgba(255, 255, 255, 1)',
+          defval: '#FFFFFF',
           name: 'Session color',
         });
       });
@@ -229,6 +229,32 @@ sessionColor = input.color(red, "Session color")
         });
       });
 
+      it('should extract input.enum() as member-title options', () => {
+        const code = `enum Mode
+    fast = "Fast MA"
+    slow = "Slow MA"
+    off
+mode = input.enum(Mode.slow, "Mode")`;
+        const metadata = extractMetadata(code);
+        expect(metadata.inputs[0].type).toBe('string');
+        expect(metadata.inputs[0].defval).toBe('Slow MA');
+        expect(metadata.inputs[0].options).toEqual([
+          'Fast MA',
+          'Slow MA',
+          'off',
+        ]);
+      });
+
+      it('should limit input.enum() options to the listed members', () => {
+        const code = `enum Mode
+    fast = "Fast MA"
+    slow = "Slow MA"
+    off
+mode = input.enum(Mode.fast, "Mode", options=[Mode.fast, Mode.off])`;
+        const metadata = extractMetadata(code);
+        expect(metadata.inputs[0].options).toEqual(['Fast MA', 'off']);
+      });
+
       it('should extract input.time()', () => {
         const code = 'startTime = input.time(0, "Start Time")';
         const metadata = extractMetadata(code);
@@ -415,6 +441,18 @@ plot(high, "High")
     });
   });
 
+  describe('Alert Condition Extraction', () => {
+    it('should extract titles and message templates', () => {
+      const code = `alertcondition(close > open, title="Up", message="Up at {{close}}")
+alertcondition(close < open, "Down")`;
+      const metadata = extractMetadata(code);
+      expect(metadata.alertConditions).toEqual([
+        { id: 'alertcondition_0', title: 'Up', message: 'Up at {{close}}' },
+        { id: 'alertcondition_1', title: 'Down', message: '' },
+      ]);
+    });
+  });
+
   describe('Source Usage Tracking', () => {
     it('should track close usage', () => {
       const code = 'x = close';
@@ -516,12 +554,24 @@ z = high[3]
       expect(metadata.warnings.some((w) => w.type === 'partial')).toBe(true);
     });
 
-    it('should warn on unsupported function alert', () => {
-      const code = 'alert("Test alert")';
+    it('should warn on unsupported function request.financial', () => {
+      const code = 'x = request.financial("AAPL", "EBITDA", "FQ")';
       const metadata = extractMetadata(code);
-      expect(metadata.warnings.some((w) => w.functionName === 'alert')).toBe(
-        true,
-      );
+      expect(
+        metadata.warnings.some((w) => w.functionName === 'request.financial'),
+      ).toBe(true);
+    });
+
+    it('should not warn on alert and alertcondition', () => {
+      const code = 'alert("Test alert")\nalertcondition(close > open, "Up")';
+      const metadata = extractMetadata(code);
+      expect(metadata.warnings).toEqual([]);
+    });
+
+    it('should not warn on log.info, log.warning and log.error', () => {
+      const code = 'log.info("a")\nlog.warning("b {0}", close)\nlog.error("c")';
+      const metadata = extractMetadata(code);
+      expect(metadata.warnings).toEqual([]);
     });
 
     it('should warn on partially supported function plotshape', () => {
@@ -544,15 +594,15 @@ z = high[3]
 
     it('should not duplicate warnings for same function', () => {
       const code = `
-alert("Test 1")
-alert("Test 2")
-alert("Test 3")
+a = request.financial("AAPL", "EBITDA", "FQ")
+b = request.financial("AAPL", "EBIT", "FQ")
+c = request.financial("AAPL", "EPS", "FQ")
 `;
       const metadata = extractMetadata(code);
-      const alertWarnings = metadata.warnings.filter(
-        (w) => w.functionName === 'alert',
+      const financialWarnings = metadata.warnings.filter(
+        (w) => w.functionName === 'request.financial',
       );
-      expect(alertWarnings.length).toBe(1);
+      expect(financialWarnings.length).toBe(1);
     });
   });
 
@@ -0,0 +1,167 @@
+/**
+ * Source Map Tests
+ *
+ * Tests for the v3 source maps emitted alongside generated bodies and
+ * both Factory paths, and for resolving generated positions back to
+ * Pine lines.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  decodeMappings,
+  encodeMappings,
+  originalPositionFor,
+  type SourceMapping,
+} from '../../src/generator/source-map';
+import {
+  generateBody,
+  generateBodyWithMappings,
+  transpileToPineJS,
+  transpileToStandaloneFactory,
+} from '../../src/index';
+import { parse } from '../../src/pipeline';
+import type { PineSourceMap } from '../../src/types';
+
+const SOURCE = [
+  '//@version=5',
+  'indicator("Map")',
+  'len = 14',
+  'f(x) =>',
+  '    y = x * 2',
+  '    y + 1',
+  'if close > open',
+  '    v = f(close)',
+  'plot(len)',
+].join('\n');
+
+/** 1-based line of the first generated line containing `needle`. */
+function lineOf(code: string, needle: string): number {
+  const index = code.split('\n').findIndex((line) => line.includes(needle));
+  expect(index).toBeGreaterThanOrEqual(0);
+  return index + 1;
+}
+
+function decodeInlineMap(code: string): PineSourceMap {
+  const match = code.match(
+    /\/\/# sourceMappingURL=data:application\/json;charset=utf-8;base64,(\S+)/,
+  );
+  expect(match).not.toBeNull();
+  return JSON.parse(Buffer.from(match?.[1] ?? '', 'base64').toString('utf8'));
+}
+
+describe('Source maps', () => {
+  describe('mappings encoding', () => {
+    it('round-trips through the v3 VLQ encoding', () => {
+      const mappings: SourceMapping[] = [
+        { generatedLine: 0, generatedColumn: 0, sourceLine: 2, sourceColumn: 0 },
+        { generatedLine: 0, generatedColumn: 17, sourceLine: 40, sourceColumn: 3 },
+        { generatedLine: 3, generatedColumn: 4, sourceLine: 1, sourceColumn: 70 },
+      ];
+      const encoded = encodeMappings(mappings);
+      expect(encoded.split(';')).toHaveLength(4);
+      expect(decodeMappings(encoded)).toEqual(mappings);
+    });
+  });
+
+  describe('generateBodyWithMappings', () => {
+    it('returns the same code as generateBody', () => {
+      const ast = parse(SOURCE);
+      const plain = generateBody(ast, new Set());
+      const mapped = generateBodyWithMappings(parse(SOURCE), new Set());
+      expect(mapped.code).toBe(plain);
+      expect(mapped.code).not.toContain('\u0000');
+    });
+
+    it('maps every line of a statement expansion to its Pine line', () => {
+      const { code, mappings } = generateBodyWithMappings(
+        parse(SOURCE),
+        new Set(),
+      );
+      // Pine line of the segment covering the first non-blank column.
+      const pineLine = (needle: string) => {
+        const line = lineOf(code, needle) - 1;
+        const column = code.split('\n')[line].search(/\S/);
+        const covering = mappings.filter(
+          (m) => m.generatedLine === line && m.generatedColumn <= column,
+        );
+        return (covering[covering.length - 1]?.sourceLine ?? -1) + 1;
+      };
+      expect(pineLine('len = 14')).toBe(3);
+      expect(pineLine('y = (x * 2)')).toBe(5);
+      expect(pineLine('return (y + 1)')).toBe(6);
+      expect(pineLine('if ((close > open))')).toBe(7);
+      expect(pineLine('v = f(close)')).toBe(8);
+      expect(pineLine('plot(')).toBe(9);
+    });
+  });
+
+  describe('transpileToPineJS', () => {
+    it('attaches no source map by default', () => {
+      const result = transpileToPineJS(SOURCE, 'map-test');
+      expect(result.indicatorFactory?.__pineSourceMap).toBeUndefined();
+    });
+
+    it('attaches a v3 map that resolves compiled-script frames', () => {
+      const result = transpileToPineJS(SOURCE, 'map-test', 'Map', {
+        sourceMap: true,
+      });
+      const factory = result.indicatorFactory;
+      const map = factory?.__pineSourceMap;
+      expect(map).toMatchObject({
+        version: 3,
+        file: 'map_test.js',
+        sources: ['map_test.pine'],
+        sourcesContent: [SOURCE],
+      });
+      expect(Object.keys(factory ?? {})).not.toContain('__pineSourceMap');
+
+      // Frames report positions against `function anonymous(…\n) {\n`
+      // + body, so body line N is script line N + 2.
+      const body = factory?.__pineJsBody ?? '';
+      const bodyLine = lineOf(body, 'v = f(close)');
+      const column = body.split('\n')[bodyLine - 1].indexOf('v = f') + 1;
+      expect(
+        originalPositionFor(map as PineSourceMap, {
+          line: bodyLine + 2,
+          column,
+        }),
+      ).toEqual({ line: 8, column: 5 });
+    });
+  });
+
+  describe('transpileToStandaloneFactory', () => {
+    it('returns the map alongside factoryCode', () => {
+      const plain = transpileToStandaloneFactory(SOURCE, 'map-test');
+      const result = transpileToStandaloneFactory(SOURCE, 'map-test', 'Map', {
+        sourceMap: true,
+      });
+      expect(plain.sourceMap).toBeUndefined();
+      expect(result.factoryCode).toBe(plain.factoryCode);
+
+      const code = result.factoryCode ?? '';
+      const line = lineOf(code, 'v = f(close)');
+      const column = code.split('\n')[line - 1].indexOf('v = f') + 1;
+      expect(
+        originalPositionFor(result.sourceMap as PineSourceMap, {
+          line,
+          column,
+        }),
+      ).toEqual({ line: 8, column: 5 });
+      expect(
+        originalPositionFor(result.sourceMap as PineSourceMap, {
+          line: 1,
+          column: 1,
+        }),
+      ).toBeNull();
+    });
+
+    it('embeds the map as a data-URL comment when inline', () => {
+      const result = transpileToStandaloneFactory(SOURCE, 'map-test', 'Map', {
+        sourceMap: 'inline',
+      });
+      expect(decodeInlineMap(result.factoryCode ?? '')).toEqual(
+        result.sourceMap as PineSourceMap,
+      );
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'bun:test';
+import { ARRAY_HELPER_FUNCTIONS } from '../../src/mappings';
 import { STD_PLUS_LIBRARY } from '../../src/runtime/helpers';
 import {
   createMockRuntime,
@@ -34,6 +35,7 @@ interface StdPlusHost {
   stdev(series: SeriesLike, length: number, ctx: StdPlusContext): number;
   atr(length: number, ctx: StdPlusContext): number;
   change(series: SeriesLike, length: number, ctx: StdPlusContext): number;
+  open(ctx: StdPlusContext): number;
   high(ctx: StdPlusContext): number;
   low(ctx: StdPlusContext): number;
   close(ctx: StdPlusContext): number;
@@ -80,6 +82,29 @@ interface StdPlusLibrary {
   ): [number, number, number];
   wpr(ctx: StdPlusContext, length: number): number;
   ao(ctx: StdPlusContext): number;
+  rci(ctx: StdPlusContext, series: SeriesLike, length: number): number;
+  cog(ctx: StdPlusContext, series: SeriesLike, length: number): number;
+  range(ctx: StdPlusContext, series: SeriesLike, length: number): number;
+  percentile_linear_interpolation(
+    ctx: StdPlusContext,
+    series: SeriesLike,
+    length: number,
+    percentage: number,
+  ): number;
+  percentile_nearest_rank(
+    ctx: StdPlusContext,
+    series: SeriesLike,
+    length: number,
+    percentage: number,
+  ): number;
+  max(ctx: StdPlusContext, series: SeriesLike): number;
+  min(ctx: StdPlusContext, series: SeriesLike): number;
+  pivot_point_levels(
+    ctx: StdPlusContext,
+    type: string,
+    anchor: boolean,
+    developing?: boolean,
+  ): number[];
 }
 
 const TOLERANCE = 1e-9;
@@ -94,6 +119,9 @@ const STD_PLUS_BARS: readonly TestBar[] = [
   { open: 16, high: 16.5, low: 14, close: 15, volume: 160 },
   { open: 15, high: 18, low: 14, close: 17, volume: 170 },
 ];
+const GAPPED_BARS: readonly TestBar[] = STD_PLUS_BARS.map((bar, index) =>
+  index === 2 ? { ...bar, close: Number.NaN } : bar,
+);
 const AO_BARS: readonly TestBar[] = Array.from({ length: 34 }, (_, index) => {
   const close = index + 1;
   return {
@@ -492,6 +520,9 @@ function createReferenceStd(bars: readonly TestBar[]): StdPlusHost {
       if (history.length <= n) return Number.NaN;
       return history[history.length - 1] - history[history.length - 1 - n];
     },
+    open(ctx) {
+      return currentBar(bars, ctx).open;
+    },
     high(ctx) {
       return currentBar(bars, ctx).high;
     },
@@ -521,9 +552,11 @@ function createReferenceStd(bars: readonly TestBar[]): StdPlusHost {
 }
 
 function instantiateStdPlus(std: StdPlusHost): StdPlusLibrary {
+  // The array helpers ride along, as in the preamble: pivot levels
+  // come back as a Pine array.
   const load = new Function(
     'Std',
-    `${STD_PLUS_LIBRARY}\nreturn StdPlus;`,
+    `${ARRAY_HELPER_FUNCTIONS}\n${STD_PLUS_LIBRARY}\nreturn StdPlus;`,
   ) as (stdLibrary: StdPlusHost) => StdPlusLibrary;
   return load(std);
 }
@@ -867,5 +900,110 @@ describe('TA math goldens', () => {
       expectNumberClose(actual[32] ?? Number.NaN, expected[32] ?? Number.NaN);
       expectNumberClose(actual[33] ?? Number.NaN, expected[33] ?? Number.NaN);
     });
+
+    it('matches Ranked Correlation Index reference values', () => {
+      // Formula: RCI = (1 - 6 * sum(d^2) / (n * (n^2 - 1))) * 100, d the
+      // gap between a bar's age rank and its value rank.
+      const actual = runStdPlusSeries(STD_PLUS_BARS, (stdPlus, ctx, source) =>
+        stdPlus.rci(ctx, source, 3),
+      );
+
+      expectNumberClose(actual[1] ?? Number.NaN, Number.NaN);
+      expectNumberClose(actual[2] ?? Number.NaN, 100);
+      expectNumberClose(actual[3] ?? Number.NaN, 50);
+      expectNumberClose(actual[6] ?? Number.NaN, 50);
+    });
+
+    it('matches Center of Gravity reference values', () => {
+      // Formula: COG = -sum(source[i] * (i + 1)) / sum(source[i]).
+      const actual = runStdPlusSeries(STD_PLUS_BARS, (stdPlus, ctx, source) =>
+        stdPlus.cog(ctx, source, 3),
+      );
+      const gapped = runStdPlusSeries(GAPPED_BARS, (stdPlus, ctx, source) =>
+        stdPlus.cog(ctx, source, 3),
+      );
+
+      expectNumberClose(actual[1] ?? Number.NaN, Number.NaN);
+      expectNumberClose(actual[3] ?? Number.NaN, -71 / 36);
+      expectNumberClose(gapped[3] ?? Number.NaN, Number.NaN);
+    });
+
+    it('matches range reference values, skipping na', () => {
+      const actual = runStdPlusSeries(STD_PLUS_BARS, (stdPlus, ctx, source) =>
+        stdPlus.range(ctx, source, 3),
+      );
+      const gapped = runStdPlusSeries(GAPPED_BARS, (stdPlus, ctx, source) =>
+        stdPlus.range(ctx, source, 3),
+      );
+
+      expectNumberClose(actual[1] ?? Number.NaN, Number.NaN);
+      expectNumberClose(actual[2] ?? Number.NaN, 3);
+      expectNumberClose(actual[7] ?? Number.NaN, 2);
+      expectNumberClose(gapped[3] ?? Number.NaN, 1);
+    });
+
+    it('matches percentile reference values', () => {
+      // Linear: position p/100 * (n - 1) in the sorted window.
+      // Nearest rank: the ceil(p/100 * n)-th smallest value.
+      const actual = runStdPlusSeries(STD_PLUS_BARS, (stdPlus, ctx, source) => [
+        stdPlus.percentile_linear_interpolation(ctx, source, 4, 50),
+        stdPlus.percentile_nearest_rank(ctx, source, 4, 50),
+        stdPlus.percentile_linear_interpolation(ctx, source, 4, 25),
+        stdPlus.percentile_nearest_rank(ctx, source, 4, 25),
+        stdPlus.percentile_nearest_rank(ctx, source, 4, 100),
+      ]);
+
+      expectTupleClose(actual[2] ?? [], Array(5).fill(Number.NaN));
+      expectTupleClose(actual[3] ?? [], [11.5, 11, 10.75, 10, 13]);
+      expectTupleClose(actual[7] ?? [], [15.5, 15, 14.75, 14, 17]);
+    });
+
+    it('tracks all-time max and min, skipping na', () => {
+      const actual = runStdPlusSeries(GAPPED_BARS, (stdPlus, ctx, source) => [
+        stdPlus.max(ctx, source),
+        stdPlus.min(ctx, source),
+      ]);
+
+      expect(actual.map(([max]) => max)).toEqual([
+        10, 11, 11, 12, 14, 16, 16, 17,
+      ]);
+      expect(actual.map(([, min]) => min)).toEqual(Array(8).fill(10));
+    });
+
+    it('matches pivot point levels of the last completed period', () => {
+      // Periods start at bars 0, 3 and 6; bars 0-2 span O=9 H=14 L=8 C=13.
+      const anchors = [true, false, false, true, false, false, true, false];
+      const levels = (type: string, developing = false) =>
+        runStdPlusBars(STD_PLUS_BARS, (stdPlus, ctx) => [
+          ...stdPlus.pivot_point_levels(
+            ctx,
+            type,
+            anchors[ctx.barIndex] ?? false,
+            developing,
+          ),
+        ]);
+      const na = Number.NaN;
+      const p = 35 / 3;
+
+      const traditional = levels('Traditional');
+      expectTupleClose(traditional[2] ?? [], Array(11).fill(na));
+      expectTupleClose((traditional[3] ?? []).slice(0, 5), [
+        p,
+        2 * p - 8,
+        2 * p - 14,
+        p + 6,
+        p - 6,
+      ]);
+      expectTupleClose(traditional[5] ?? [], traditional[3] ?? []);
+      expectNumberClose(traditional[6]?.[0] ?? na, 44 / 3);
+
+      const dm = levels('DM');
+      expectTupleClose(dm[3] ?? [], [12.25, 16.5, 10.5, ...Array(8).fill(na)]);
+
+      // Bars 3-4 so far: H=15 L=11 C=14.
+      const developing = levels('Classic', true);
+      expectNumberClose(developing[4]?.[0] ?? na, 40 / 3);
+      expectNumberClose(developing[4]?.[7] ?? na, 40 / 3 + 12);
+    });
   });
 });
@@ -5,6 +5,7 @@
  */
 
 import { describe, expect, it } from 'bun:test';
+import { Lexer } from '../../src/parser/lexer';
 import { lexTokens } from '../utils';
 
 describe('Lexer - Tokens', () => {
@@ -351,4 +352,47 @@ describe('Lexer - Tokens', () => {
       expect(tokens[0].type).toBe('IDENTIFIER');
     });
   });
+
+  describe('Version Directive', () => {
+    it('should record the //@version directive', () => {
+      const lexer = new Lexer('//@version=6\nindicator("x")');
+      lexer.tokenize();
+
+      expect(lexer.getVersion()).toBe(6);
+    });
+
+    it('should keep only the first directive', () => {
+      const lexer = new Lexer('// @version = 4\n//@version=6\nx = 1');
+      lexer.tokenize();
+
+      expect(lexer.getVersion()).toBe(4);
+    });
+
+    it('should report no version without a directive', () => {
+      const lexer = new Lexer('// version 6\nx = 1');
+      lexer.tokenize();
+
+      expect(lexer.getVersion()).toBeUndefined();
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep line and block comments out of the token stream', () => {
+      const lexer = new Lexer('x = 1 // one\n/* two\n   lines */\ny = 2');
+      const tokens = lexer.tokenize();
+
+      expect(tokens.some((t) => t.value.includes('one'))).toBe(false);
+      expect(lexer.getComments()).toEqual([
+        { kind: 'line', text: '// one', line: 1, column: 7, start: 6, end: 12 },
+        {
+          kind: 'block',
+          text: '/* two\n   lines */',
+          line: 2,
+          column: 1,
+          start: 13,
+          end: 31,
+        },
+      ]);
+    });
+  });
 });
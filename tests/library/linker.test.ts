@@ -0,0 +1,230 @@
+/**
+ * Library Linking Tests
+ *
+ * Tests for resolving `import user/lib/N as Lib` through a
+ * `libraryResolver` and linking the library into the generated body:
+ * exported functions, types, enums and methods across the import
+ * boundary, on both factory paths, plus the linker's errors and the
+ * file-system resolver.
+ */
+
+import { afterEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  type LibraryResolver,
+  linkLibraries,
+  transpileToPineJS,
+  transpileToStandaloneFactory,
+} from '../../src';
+import { createFileSystemLibraryResolver } from '../../src/node';
+import { createMockRuntime } from '../corpus/mock-runtime';
+import { loadCreateIndicator } from '../regression/standalone-test-utils';
+import { parse } from '../utils';
+
+const GEO = `//@version=6
+// @description Points and distances.
+library("Geo")
+
+export type Point
+    float x
+    float y
+
+const float FACTOR = 2.0
+scale(float v) => v * FACTOR
+
+export method len(Point p) => math.sqrt(p.x * p.x + p.y * p.y)
+
+export double(float v) => scale(v)
+
+export enum Side
+    left
+    right = "Right side"
+
+plot(close)`;
+
+const USES_GEO = `//@version=6
+indicator("Uses Geo")
+import alice/Geo/1 as Geo
+scale(float v) => v * 1000
+Geo.Point p = Geo.Point.new(3, 4)
+Geo.Side s = Geo.Side.right
+plot(p.len() + Geo.double(1) + (s == Geo.Side.right ? 100 : 0))`;
+
+function resolverFor(libraries: Record<string, string>): LibraryResolver {
+  return (path) => libraries[path];
+}
+
+type Main = (context: unknown, inputCallback: () => number) => unknown;
+
+function firstPlot(descriptor: unknown, runtime = createMockRuntime({})) {
+  const ctor = (descriptor as { constructor: new () => { main: Main } })
+    .constructor;
+  const output = new ctor().main(runtime.context, () => 0) as number[];
+  return output[0];
+}
+
+describe('Library Linking', () => {
+  const libraryResolver = resolverFor({ 'alice/Geo/1': GEO });
+
+  it('should link exported functions, types, enums and methods', () => {
+    const result = transpileToPineJS(USES_GEO, 'uses-geo', undefined, {
+      libraryResolver,
+    });
+
+    expect(result.error).toBeUndefined();
+    const runtime = createMockRuntime({ barCount: 1 });
+    expect(firstPlot(result.indicatorFactory?.(runtime.pineJs), runtime)).toBe(
+      107,
+    );
+  });
+
+  it('should link libraries into standalone factories', () => {
+    const result = transpileToStandaloneFactory(
+      USES_GEO,
+      'uses-geo',
+      undefined,
+      { libraryResolver },
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.factoryCode).not.toContain('import * as Geo');
+    const runtime = createMockRuntime({ barCount: 1 });
+    const createIndicator = loadCreateIndicator(result.factoryCode ?? '');
+    expect(firstPlot(createIndicator(runtime.pineJs), runtime)).toBe(107);
+  });
+
+  it('should prefix library globals and drop top-level library code', () => {
+    const { program, libraries } = linkLibraries(
+      parse(USES_GEO),
+      libraryResolver,
+    );
+    const names = program.body.map((stmt) =>
+      stmt.type === 'FunctionDeclaration'
+        ? stmt.id.name
+        : stmt.type === 'TypeDefinition' || stmt.type === 'EnumDeclaration'
+          ? stmt.name
+          : stmt.type,
+    );
+
+    expect(libraries).toEqual(['alice/Geo/1']);
+    expect(names.slice(0, 6)).toEqual([
+      'alice_Geo_1__Point',
+      'VariableDeclaration',
+      'alice_Geo_1__scale',
+      'len',
+      'alice_Geo_1__double',
+      'alice_Geo_1__Side',
+    ]);
+    expect(names).toContain('scale');
+    expect(program.body.some((stmt) => stmt.type === 'ImportStatement')).toBe(
+      false,
+    );
+  });
+
+  it('should compile each library once across the import graph', () => {
+    const requested: string[] = [];
+    const libraries: Record<string, string> = {
+      'alice/Base/1': 'library("Base")\nexport one() => 1',
+      'alice/Left/1':
+        'library("Left")\nimport alice/Base/1 as B\nexport two() => B.one() + 1',
+      'alice/Right/1':
+        'library("Right")\nimport alice/Base/1 as B\nexport three() => B.one() + 2',
+    };
+    const code = `indicator("Diamond")
+import alice/Left/1 as L
+import alice/Right/1 as R
+plot(L.two() + R.three())`;
+
+    const { program, libraries: linked } = linkLibraries(
+      parse(code),
+      (path) => {
+        requested.push(path);
+        return libraries[path];
+      },
+    );
+
+    expect(requested.sort()).toEqual([
+      'alice/Base/1',
+      'alice/Left/1',
+      'alice/Right/1',
+    ]);
+    expect(linked).toEqual(['alice/Base/1', 'alice/Left/1', 'alice/Right/1']);
+    expect(program.body.slice(0, 3).map((stmt) => stmt.type)).toEqual([
+      'FunctionDeclaration',
+      'FunctionDeclaration',
+      'FunctionDeclaration',
+    ]);
+  });
+
+  it('should drop unused imports without resolving them', () => {
+    const code = 'import user/lib/1 as Lib\nindicator("x")\nplot(close)';
+    const { program, libraries } = linkLibraries(parse(code));
+
+    expect(libraries).toEqual([]);
+    expect(program.body.map((stmt) => stmt.type)).toEqual([
+      'ExpressionStatement',
+      'ExpressionStatement',
+    ]);
+  });
+
+  it('should reject libraries that cannot be linked', () => {
+    const link = (code: string, resolver?: LibraryResolver) => () =>
+      linkLibraries(parse(`import alice/Geo/1 as Geo\n${code}`), resolver);
+
+    expect(link('x = Geo.double(1)')).toThrow(
+      "Cannot import 'alice/Geo/1': no library resolver was provided.",
+    );
+    expect(link('x = Geo.double(1)', () => undefined)).toThrow(
+      "Library 'alice/Geo/1' could not be resolved.",
+    );
+    expect(link('x = Geo.scale(1)', libraryResolver)).toThrow(
+      "Library 'alice/Geo/1' does not export 'scale'.",
+    );
+    expect(
+      link(
+        'x = Geo.f()',
+        resolverFor({
+          'alice/Geo/1': 'import alice/Geo/1 as Self\nexport f() => Self.f()',
+        }),
+      ),
+    ).toThrow('Library import cycle: alice/Geo/1 → alice/Geo/1.');
+  });
+
+  it('should report the library when its source fails to parse', () => {
+    const result = transpileToPineJS(USES_GEO, 'uses-geo', undefined, {
+      libraryResolver: resolverFor({ 'alice/Geo/1': 'export f(' }),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toStartWith("In library 'alice/Geo/1': ");
+  });
+});
+
+describe('createFileSystemLibraryResolver', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) rmSync(root, { recursive: true, force: true });
+    root = undefined;
+  });
+
+  it('should read user/lib/version from <root>/user/lib/version.pine', () => {
+    root = mkdtempSync(join(tmpdir(), 'pine-libraries-'));
+    mkdirSync(join(root, 'alice', 'Geo'), { recursive: true });
+    writeFileSync(join(root, 'alice', 'Geo', '1.pine'), GEO);
+    const resolver = createFileSystemLibraryResolver(root);
+
+    expect(resolver('alice/Geo/1')).toBe(GEO);
+    expect(resolver('alice/Geo/2')).toBeUndefined();
+    expect(() => resolver('../Geo/1')).toThrow(
+      "Invalid library path '../Geo/1'; expected 'user/library/version'.",
+    );
+    expect(
+      transpileToPineJS(USES_GEO, 'uses-geo', undefined, {
+        libraryResolver: resolver,
+      }).success,
+    ).toBe(true);
+  });
+});
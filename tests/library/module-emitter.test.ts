@@ -0,0 +1,211 @@
+/**
+ * Library Module Tests
+ *
+ * Tests for compiling `library()` scripts to ES modules with
+ * `transpileToLibraryModule`: the exported functions, methods, types
+ * and enums, runtime binding for chart built-ins, linked imports, and
+ * the generated `.d.ts`.
+ */
+
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { extractMetadata, transpileToLibraryModule } from '../../src';
+import { createMockRuntime } from '../corpus/mock-runtime';
+import { parse } from '../utils';
+
+const GEO = `//@version=6
+library("Geo")
+
+export type Point
+    float x
+    float y = 0
+
+const float FACTOR = 2.0
+scale(float v) => v * FACTOR
+
+export method len(Point p) => math.sqrt(p.x * p.x + p.y * p.y)
+
+export double(float v) => scale(v)
+
+export avg(series float src, simple int n) => ta.sma(src, n)
+
+export enum Side
+    left
+    right = "Right side"
+
+plot(close)`;
+
+const root = mkdtempSync(join(tmpdir(), 'pine-library-modules-'));
+let moduleCount = 0;
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+interface GeoModule {
+  Point: { new: (x: number, y: number) => { len(): number } };
+  len(p: unknown): number;
+  double(v: number): number;
+  avg(src: number, n: number): number;
+  Side: Record<string, unknown>;
+  bindRuntime(PineJS: unknown, context: unknown): void;
+}
+
+/** Write `code` to a fresh file and import it as an ES module. */
+async function importModule<T = GeoModule>(code: string): Promise<T> {
+  const path = join(root, `library-${moduleCount++}.mjs`);
+  writeFileSync(path, code);
+  return import(path);
+}
+
+function compileLibrary(code: string) {
+  const result = transpileToLibraryModule(code);
+  expect(result.error).toBeUndefined();
+  return result;
+}
+
+describe('transpileToLibraryModule', () => {
+  it('should export the library exports and nothing else', async () => {
+    const result = compileLibrary(GEO);
+    const geo = await importModule(result.moduleCode ?? '');
+
+    expect(result.exports).toEqual(['Point', 'len', 'double', 'avg', 'Side']);
+    expect(Object.keys(geo).sort()).toEqual([
+      'Point',
+      'Side',
+      'avg',
+      'bindRuntime',
+      'double',
+      'len',
+    ]);
+    const point = geo.Point.new(3, 4);
+    expect(point.len()).toBe(5);
+    expect(geo.len(point)).toBe(5);
+    expect(geo.double(2)).toBe(4);
+    expect(String(geo.Side.right)).toBe('Right side');
+    expect(result.moduleCode).not.toContain('Std.plot');
+  });
+
+  it('should call chart built-ins through the bound runtime', async () => {
+    const geo = await importModule(compileLibrary(GEO).moduleCode ?? '');
+
+    expect(() => geo.avg(1, 2)).toThrow(
+      'Pine library "Geo" needs a chart runtime for sma; call bindRuntime(PineJS, context) first.',
+    );
+    const runtime = createMockRuntime({ barCount: 1 });
+    geo.bindRuntime(runtime.pineJs, runtime.context);
+    expect(geo.avg(5, 1)).toBe(5);
+  });
+
+  it('should build colors without a chart runtime', async () => {
+    const code = `library("Heat")
+export heat(float v) => color.from_gradient(v, 0, 100, color.new(color.blue, 50), color.red)
+export rgb(int r) => color.rgb(r, 0, 0)`;
+    const heat = await importModule<{
+      heat(v: number): string;
+      rgb(r: number): string;
+    }>(compileLibrary(code).moduleCode ?? '');
+
+    expect(heat.heat(100)).toBe('#FF5252');
+    expect(heat.heat(0)).toBe('rgba(41, 98, 255, 0.5)');
+    expect(heat.rgb(255)).toBe('#FF0000');
+  });
+
+  it('should format strings without a chart runtime', async () => {
+    const code = `library("Text")
+export price(float v) => str.format("{0,number,#.00} {1}", v, str.repeat("*", 2))
+export ticks(float v) => str.tostring(v, format.mintick)`;
+    const text = await importModule<{
+      price(v: number): string;
+      ticks(v: number): string;
+      bindRuntime(PineJS: unknown, context: unknown): void;
+    }>(compileLibrary(code).moduleCode ?? '');
+
+    expect(text.price(3.14159)).toBe('3.14 **');
+    expect(text.ticks(1.23456)).toBe('1.23456');
+    text.bindRuntime({}, { symbol: { minmov: 1, pricescale: 100 } });
+    expect(text.ticks(1.23456)).toBe('1.23');
+  });
+
+  it('should link the libraries a library imports without exporting them', async () => {
+    const code = `library("Area")
+import alice/Geo/1 as Geo
+export area(float w, float h) => Geo.double(w * h) / 2`;
+    const result = transpileToLibraryModule(code, {
+      libraryResolver: (path) => (path === 'alice/Geo/1' ? GEO : undefined),
+    });
+    const area = await importModule<{ area(w: number, h: number): number }>(
+      result.moduleCode ?? '',
+    );
+
+    expect(result.exports).toEqual(['area']);
+    expect(area.area(2, 3)).toBe(6);
+    expect(Object.keys(area)).not.toContain('alice_Geo_1__double');
+  });
+
+  it('should generate typings from the Pine types', () => {
+    const { typings } = compileLibrary(`library("Types")
+export type Bar
+    float value
+    string label = "x"
+export method scaled(Bar b, float k) => b.value * k
+export enum Mode
+    fast
+    slow
+export pick(Mode m, array<float> xs) => m == Mode.fast ? xs : array.new<float>()
+export both(int a) => [a, a > 1]
+export untyped(x) => x`);
+
+    expect(typings).toContain(`export declare class Bar {
+  constructor(value?: number, label?: string);
+  static new(value?: number, label?: string): Bar;
+  value: number;
+  label: string;
+  scaled(k: number): number;
+}`);
+    expect(typings).toContain(
+      'export declare function scaled(b: Bar, k: number): number;',
+    );
+    expect(typings).toContain(
+      'export type Mode = (typeof Mode)[keyof typeof Mode];',
+    );
+    expect(typings).toContain(
+      'export declare function pick(m: Mode, xs: number[]): number[];',
+    );
+    expect(typings).toContain(
+      'export declare function both(a: number): [number, boolean];',
+    );
+    expect(typings).toContain(
+      'export declare function untyped(x: any): unknown;',
+    );
+    expect(typings).toContain('export interface PineEnumMember {');
+    expect(typings).toContain('export declare function bindRuntime(');
+  });
+
+  it('should declare PineEnumMember only for libraries that use enums', () => {
+    const { typings } = compileLibrary(`library("Plain")
+export double(float x) => x * 2`);
+
+    expect(typings).not.toContain('PineEnumMember');
+    expect(typings).toContain(
+      'Do not edit.\n\nexport declare function double(x: number): number;',
+    );
+  });
+
+  it('should reject scripts that are not libraries', () => {
+    const result = transpileToLibraryModule('indicator("x")\nplot(close)');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      'Script does not declare library(); use transpileToPineJS for indicators and strategies.',
+    );
+  });
+
+  it('should read the library title as the script name', () => {
+    const metadata = extractMetadata(parse('library("Geo", overlay = true)'));
+
+    expect(metadata.scriptType).toBe('library');
+    expect(metadata.name).toBe('Geo');
+    expect(metadata.overlay).toBe(true);
+  });
+});
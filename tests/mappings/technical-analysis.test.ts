@@ -5,6 +5,7 @@
  */
 
 import { describe, expect, it } from 'bun:test';
+import { getBuiltinSignatures } from '../../src/checker/builtins';
 import { transpile } from '../../src/index';
 import {
   BAND_MAPPINGS,
@@ -275,6 +276,22 @@ describe('Technical Analysis Mappings', () => {
         ).toBeGreaterThanOrEqual(0);
       }
     });
+
+    it('should keep argCount within the checked signature', () => {
+      for (const [name, mapping] of Object.entries(TA_FUNCTION_MAPPINGS)) {
+        const signatures = getBuiltinSignatures(name);
+        const argCount = mapping.argCount;
+        if (!signatures || argCount === undefined) continue;
+        expect(
+          signatures.some(
+            ({ params }) =>
+              params.filter((p) => !p.optional).length <= argCount &&
+              argCount <= params.length,
+          ),
+          `${name} argCount ${argCount} fits no signature`,
+        ).toBe(true);
+      }
+    });
   });
 });
 
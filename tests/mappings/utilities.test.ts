@@ -116,11 +116,6 @@ describe('Utility Mappings', () => {
       expect(TYPE_FUNCTION_MAPPINGS.float).toBeDefined();
       expect(TYPE_FUNCTION_MAPPINGS.float.stdName).toBe('Number');
     });
-
-    it('should have str.tostring mapping', () => {
-      expect(TYPE_FUNCTION_MAPPINGS['str.tostring']).toBeDefined();
-      expect(TYPE_FUNCTION_MAPPINGS['str.tostring'].stdName).toBe('String');
-    });
   });
 
   describe('Syminfo Mappings', () => {
@@ -251,6 +246,20 @@ describe('Utility Mappings', () => {
     it('should have str.format mapping', () => {
       expect(STRING_FUNCTION_MAPPINGS['str.format']).toBeDefined();
     });
+
+    it('should route str.tostring through the string runtime', () => {
+      expect(STRING_FUNCTION_MAPPINGS['str.tostring'].stdName).toBe(
+        '_strToString',
+      );
+      expect(TYPE_FUNCTION_MAPPINGS['str.tostring']).toBeUndefined();
+    });
+
+    it('should have str.match and str.repeat mappings', () => {
+      expect(STRING_FUNCTION_MAPPINGS['str.match'].stdName).toBe('_strMatch');
+      expect(STRING_FUNCTION_MAPPINGS['str.repeat'].stdName).toBe(
+        '_strRepeat',
+      );
+    });
   });
 
   describe('Array Function Mappings', () => {
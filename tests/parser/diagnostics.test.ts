@@ -0,0 +1,160 @@
+/**
+ * Parser Diagnostics Tests
+ *
+ * Tests for the error-recovering parse mode and the structured
+ * diagnostics it reports.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type { FunctionDeclaration } from '../../src/parser/ast';
+import { DiagnosticCode, formatDiagnostic } from '../../src/parser/diagnostics';
+import { Lexer } from '../../src/parser/lexer';
+import { Parser } from '../../src/parser/parser';
+import { parseWithDiagnostics } from '../../src/pipeline';
+import { canTranspilePineScript } from '../utils';
+
+describe('Parser - Diagnostics', () => {
+  describe('parseWithDiagnostics', () => {
+    it('returns no diagnostics for valid code', () => {
+      const { program, diagnostics } = parseWithDiagnostics(
+        'indicator("x")\nplot(close)',
+      );
+      expect(diagnostics).toEqual([]);
+      expect(program.body).toHaveLength(2);
+    });
+
+    it('reports every broken statement and keeps the rest', () => {
+      const code = [
+        'indicator("x")',
+        'a = 1 +* 2',
+        'b = close',
+        'c = )',
+        'plot(b)',
+      ].join('\n');
+      const { program, diagnostics } = parseWithDiagnostics(code);
+
+      expect(diagnostics.map((d) => d.line)).toEqual([2, 4]);
+      expect(diagnostics.every((d) => d.severity === 'error')).toBe(true);
+      expect(program.body).toHaveLength(3);
+    });
+
+    it('carries start and end positions plus a stable code', () => {
+      const { diagnostics } = parseWithDiagnostics('a = 1 +* 2');
+      expect(diagnostics).toEqual([
+        {
+          code: DiagnosticCode.ExpectedExpression,
+          severity: 'error',
+          message: 'Expect expression.',
+          line: 1,
+          column: 8,
+          endLine: 1,
+          endColumn: 9,
+        },
+      ]);
+    });
+
+    it('recovers inside a block without dropping the enclosing function', () => {
+      const code = [
+        'f(x) =>',
+        '    y = )',
+        '    z = x * 2',
+        '    z',
+        'plot(f(close))',
+      ].join('\n');
+      const { program, diagnostics } = parseWithDiagnostics(code);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].line).toBe(2);
+      const fn = program.body[0] as FunctionDeclaration;
+      expect(fn.type).toBe('FunctionDeclaration');
+      expect(fn.body.type).toBe('BlockStatement');
+      expect(program.body).toHaveLength(2);
+    });
+
+    it('skips the body and else arm of a statement whose header failed', () => {
+      const code = [
+        'if close > )',
+        '    x = 1',
+        'else',
+        '    x = 2',
+        'plot(close)',
+      ].join('\n');
+      const { program, diagnostics } = parseWithDiagnostics(code);
+
+      expect(diagnostics).toHaveLength(1);
+      expect(program.body).toHaveLength(1);
+      expect(program.body[0].type).toBe('ExpressionStatement');
+    });
+
+    it('reports unexpected indentation', () => {
+      const { diagnostics } = parseWithDiagnostics(
+        'x = 1\n    y = 2\nplot(x)',
+      );
+      expect(diagnostics.map((d) => d.code)).toEqual([
+        DiagnosticCode.UnexpectedIndentation,
+      ]);
+    });
+
+    it('collects lexical errors alongside syntax errors', () => {
+      const code = ['a = 1 $', "b = 'oops", 'c = )'].join('\n');
+      const { diagnostics } = parseWithDiagnostics(code);
+
+      expect(diagnostics.map((d) => d.code)).toEqual([
+        DiagnosticCode.UnexpectedCharacter,
+        DiagnosticCode.UnterminatedString,
+        DiagnosticCode.ExpectedExpression,
+      ]);
+      expect(diagnostics.map((d) => d.line)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('Lexer recover mode', () => {
+    it('still throws by default', () => {
+      expect(() => new Lexer('x = $').tokenize()).toThrow(
+        'Unexpected character',
+      );
+    });
+
+    it('records the error and keeps tokenizing', () => {
+      const lexer = new Lexer('x = $ 1', { recover: true });
+      const tokens = lexer.tokenize();
+      expect(tokens.map((t) => t.value)).toContain('1');
+      expect(lexer.getDiagnostics()).toHaveLength(1);
+      expect(lexer.getDiagnostics()[0].column).toBe(5);
+    });
+  });
+
+  describe('Parser.parseRecovering', () => {
+    it('exposes ParseErrors with codes and diagnostics', () => {
+      const tokens = new Lexer('x = )\ny = (').tokenize();
+      const result = new Parser(tokens).parseRecovering();
+      expect(result.hasErrors).toBe(true);
+      expect(result.errors[0].code).toBe(DiagnosticCode.ExpectedExpression);
+      expect(result.diagnostics).toHaveLength(result.errors.length);
+    });
+  });
+
+  describe('canTranspilePineScript', () => {
+    it('returns every diagnostic and the first as reason', () => {
+      const result = canTranspilePineScript('a = )\nb = 1\nc = (]');
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics).toHaveLength(2);
+      expect(result.reason).toBe(formatDiagnostic(result.diagnostics![0]));
+    });
+
+    it('includes type errors alongside syntax errors', () => {
+      const result = canTranspilePineScript('float x = "a"\ny = (]');
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics!.map((d) => d.code)).toEqual([
+        'PINE3001',
+        'PINE2003',
+      ]);
+    });
+
+    it('reports undeclared identifiers once the file parses', () => {
+      const result = canTranspilePineScript('a = close + offset');
+      expect(result.valid).toBe(false);
+      expect(result.diagnostics!.map((d) => d.code)).toEqual(['PINE4001']);
+    });
+  });
+});
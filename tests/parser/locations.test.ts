@@ -0,0 +1,112 @@
+/**
+ * Parser Source Location Tests
+ *
+ * Every Statement and Expression carries a `loc` range after parsing;
+ * these tests pin the ranges of representative constructs.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type {
+  BinaryExpression,
+  CallExpression,
+  ExpressionStatement,
+  ForStatement,
+  FunctionDeclaration,
+  IfStatement,
+  SourceLocation,
+  VariableDeclaration,
+} from '../../src/parser/ast';
+import { walk } from '../../src/pipeline';
+import { parse } from '../utils';
+
+function span(loc: SourceLocation | undefined): string {
+  if (!loc) return 'missing';
+  return `${loc.start.line}:${loc.start.column}-${loc.end.line}:${loc.end.column}`;
+}
+
+describe('Parser - Source Locations', () => {
+  it('spans a declaration from its first token to the end of its init', () => {
+    const ast = parse('var float x = ta.sma(close, 14)');
+    const decl = ast.body[0] as VariableDeclaration;
+
+    expect(span(decl.loc)).toBe('1:1-1:32');
+    expect(span(decl.typeAnnotation?.loc)).toBe('1:5-1:10');
+    expect(span((decl.init as CallExpression).loc)).toBe('1:15-1:32');
+  });
+
+  it('locates binary operands and the whole binary expression', () => {
+    const ast = parse('y = a + b * 2');
+    const init = (ast.body[0] as VariableDeclaration).init as BinaryExpression;
+
+    expect(span(init.loc)).toBe('1:5-1:14');
+    expect(span(init.left.loc)).toBe('1:5-1:6');
+    expect(span(init.right.loc)).toBe('1:9-1:14');
+  });
+
+  it('ends block statements at their last significant token', () => {
+    const code = ['if close > open', '    x = 1', 'else', '    x = 2'].join(
+      '\n',
+    );
+    const stmt = parse(code).body[0] as IfStatement;
+
+    expect(span(stmt.loc)).toBe('1:1-4:10');
+    expect(span(stmt.consequent.loc)).toBe('2:5-2:10');
+    expect(span(stmt.alternate?.loc)).toBe('4:5-4:10');
+  });
+
+  it('includes the export keyword in exported declarations', () => {
+    const fn = parse('export f(x) => x * 2').body[0] as FunctionDeclaration;
+
+    expect(span(fn.loc)).toBe('1:1-1:21');
+    expect(span(fn.id.loc)).toBe('1:8-1:9');
+    expect(span(fn.params[0].loc)).toBe('1:10-1:11');
+  });
+
+  it('locates the synthesized parts of a for loop header', () => {
+    const loop = parse('for i = 0 to 10\n    x = i').body[0] as ForStatement;
+
+    expect(span(loop.init.loc)).toBe('1:5-1:10');
+    expect(span(loop.test.loc)).toBe('1:5-1:16');
+  });
+
+  it('positions string literals at their opening quote', () => {
+    const stmt = parse('s = "a\\tb"').body[0] as VariableDeclaration;
+    expect(span(stmt.init?.loc)).toBe('1:5-1:11');
+  });
+
+  it('leaves no statement or expression without a range', () => {
+    const code = [
+      '//@version=6',
+      'indicator("Locations", overlay=true)',
+      'type Pivot',
+      '    float price = na',
+      '    int idx',
+      'len = input.int(14, "Length")',
+      '[lo, hi] = f()',
+      'm = switch',
+      '    close > open => 1',
+      '    => -1',
+      'v = if m > 0',
+      '    1',
+      'else',
+      '    0',
+      'for [i, x] in array.from(1, 2)',
+      '    a = x > 0 ? i : -i',
+      'plot(ta.sma(close, len)[1], color=color.new(#ff0000, 50))',
+    ].join('\n');
+    const missing: string[] = [];
+    walk(parse(code), {
+      enter(node) {
+        if (node.type !== 'Program' && !node.loc) missing.push(node.type);
+        return undefined;
+      },
+    });
+    expect(missing).toEqual([]);
+  });
+
+  it('keeps expression statement ranges on their own line', () => {
+    const ast = parse('plot(close)\nplot(open)');
+    const second = ast.body[1] as ExpressionStatement;
+    expect(span(second.loc)).toBe('2:1-2:11');
+  });
+});
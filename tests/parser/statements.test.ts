@@ -8,6 +8,7 @@ import { describe, expect, it } from 'bun:test';
 import type {
   BinaryExpression,
   BlockStatement,
+  EnumDeclaration,
   ForInStatement,
   ForStatement,
   FunctionDeclaration,
@@ -105,6 +106,31 @@ describe('Parser - Statements', () => {
       expect(decl.export).toBe(true);
     });
 
+    it('should parse qualified type annotations', () => {
+      const ast = parse('simple int len = 14\nseries float src = close');
+      const len = ast.body[0] as VariableDeclaration;
+      const src = ast.body[1] as VariableDeclaration;
+
+      expect(len.typeAnnotation).toMatchObject({
+        name: 'int',
+        qualifier: 'simple',
+      });
+      expect(src.typeAnnotation).toMatchObject({
+        name: 'float',
+        qualifier: 'series',
+      });
+    });
+
+    it('should mark array-suffixed type annotations', () => {
+      const ast = parse('float[] levels = array.new_float()');
+      const decl = ast.body[0] as VariableDeclaration;
+
+      expect(decl.typeAnnotation).toMatchObject({
+        name: 'float',
+        isArray: true,
+      });
+    });
+
     it('should parse var with type and keyword', () => {
       const ast = parse('var int x = 42');
       const decl = ast.body[0] as VariableDeclaration;
@@ -122,6 +148,16 @@ describe('Parser - Statements', () => {
       expect(block.body[1]?.type).toBe('ExpressionStatement');
     });
 
+    it('should bind a qualifier to its own comma-chained declaration only', () => {
+      const ast = parse('var a = 0, var b = 1, c = a');
+      const block = ast.body[0] as BlockStatement;
+      const kinds = block.body.map(
+        (decl) => (decl as VariableDeclaration).kind,
+      );
+
+      expect(kinds).toEqual(['var', 'var', 'let']);
+    });
+
     it('should not treat `matrix` identifier as a built-in type annotation', () => {
       const result = parseWithErrors('var matrix = matrix.new<string>(0, 5, na)');
       expect(result.hasErrors).toBe(false);
@@ -329,6 +365,31 @@ else
       expect(func.params[1].typeAnnotation?.name).toBe('float');
     });
 
+    it('should parse qualified parameters', () => {
+      const code = 'f(simple int len, series float src) => ta.sma(src, len)';
+      const ast = parse(code);
+      const func = ast.body[0] as FunctionDeclaration;
+
+      expect(func.params.map((p) => p.name)).toEqual(['len', 'src']);
+      expect(func.params[0].typeAnnotation?.qualifier).toBe('simple');
+      expect(func.params[1].typeAnnotation?.qualifier).toBe('series');
+    });
+
+    it('should keep parameter defaults by index', () => {
+      const code = 'f(src, int len = 14, mult = 2.0) => src * len * mult';
+      const ast = parse(code);
+      const func = ast.body[0] as FunctionDeclaration;
+
+      expect(func.defaults?.map((value) => value?.type ?? null)).toEqual([
+        null,
+        'Literal',
+        'Literal',
+      ]);
+      expect(
+        (parse('f(x) => x').body[0] as FunctionDeclaration).defaults,
+      ).toBeUndefined();
+    });
+
     it('should parse exported function', () => {
       const code = 'export f(x) => x * 2';
       const ast = parse(code);
@@ -426,6 +487,53 @@ else
 
       expect(typeDef.fields.length).toBe(4);
     });
+
+    it('should keep user-defined field types', () => {
+      const code = `type Zone
+    Pivot top
+    Pivot[] history`;
+      const ast = parse(code);
+      const typeDef = ast.body[0] as TypeDefinition;
+
+      expect(typeDef.fields[0].typeAnnotation?.name).toBe('Pivot');
+      expect(typeDef.fields[1].typeAnnotation).toMatchObject({
+        name: 'Pivot',
+        isArray: true,
+      });
+    });
+  });
+
+  describe('Enum Declarations', () => {
+    it('should parse enum members with optional titles', () => {
+      const code = `enum Mode
+    fast = "Fast MA"
+    slow`;
+      const ast = parse(code);
+      const enumDecl = ast.body[0] as EnumDeclaration;
+
+      expect(enumDecl.type).toBe('EnumDeclaration');
+      expect(enumDecl.name).toBe('Mode');
+      expect(enumDecl.members.map((m) => m.id.name)).toEqual(['fast', 'slow']);
+      expect(enumDecl.members[0].title?.value).toBe('Fast MA');
+      expect(enumDecl.members[1].title).toBeUndefined();
+    });
+
+    it('should parse exported enum', () => {
+      const code = `export enum Side
+    long
+    short`;
+      const ast = parse(code);
+      const enumDecl = ast.body[0] as EnumDeclaration;
+
+      expect(enumDecl.export).toBe(true);
+      expect(enumDecl.members.length).toBe(2);
+    });
+
+    it('should reject a non-string title', () => {
+      const result = parseWithErrors(`enum Mode
+    fast = 1`);
+      expect(result.hasErrors).toBe(true);
+    });
   });
 
   describe('Import Statements', () => {
@@ -451,6 +559,39 @@ else
       expect(stmt.source).toBe('user/library/1');
       expect(stmt.as).toBe('Lib');
     });
+
+    it('should parse an unquoted library path', () => {
+      const ast = parse('import alice/Geo_Tools/12 as Geo');
+      const stmt = ast.body[0] as ImportStatement;
+
+      expect(stmt.source).toBe('alice/Geo_Tools/12');
+      expect(stmt.as).toBe('Geo');
+    });
+
+    it('should parse library-qualified type annotations', () => {
+      const ast = parse(`Geo.Point p = Geo.Point.new(1, 2)
+var Geo.Point q = na
+f(Geo.Point a, int b) => a.x + b
+pts = array.new<Geo.Point>()
+type Holder
+    Geo.Point[] points`);
+      const [p, q, f, pts, holder] = ast.body as [
+        VariableDeclaration,
+        VariableDeclaration,
+        FunctionDeclaration,
+        VariableDeclaration,
+        TypeDefinition,
+      ];
+
+      expect(p.typeAnnotation?.name).toBe('Geo.Point');
+      expect(q.typeAnnotation?.name).toBe('Geo.Point');
+      expect(f.params[0].typeAnnotation?.name).toBe('Geo.Point');
+      expect(pts.init?.type).toBe('CallExpression');
+      expect(holder.fields[0].typeAnnotation).toMatchObject({
+        name: 'Geo.Point',
+        isArray: true,
+      });
+    });
   });
 
   describe('Method Declarations', () => {
@@ -543,6 +684,11 @@ plot(smaValue)`;
       expect(ast.body.length).toBe(4);
     });
 
+    it('should take the program version from the directive', () => {
+      expect(parse('//@version=6\nx = 1').version).toBe(6);
+      expect(parse('x = 1').version).toBe(5);
+    });
+
     it('should parse nested blocks', () => {
       const code = `if a > 0
     if b > 0
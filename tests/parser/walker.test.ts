@@ -0,0 +1,96 @@
+/**
+ * AST Walker Tests
+ *
+ * Tests for the public `walk` / `getChildNodes` traversal API.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import type { AnyNode } from '../../src/pipeline';
+import { getChildNodes, walk } from '../../src/pipeline';
+import { parse } from '../utils';
+
+describe('AST walker', () => {
+  const code = [
+    'f(x) =>',
+    '    y = x * 2',
+    '    y',
+    'v = f(close)',
+    'if v > 0',
+    '    plot(v)',
+  ].join('\n');
+
+  it('visits nodes depth-first in source order', () => {
+    const names: string[] = [];
+    walk(parse(code), {
+      Identifier(node) {
+        names.push(node.name);
+        return undefined;
+      },
+    });
+    expect(names).toEqual([
+      'f',
+      'x',
+      'y',
+      'x',
+      'y',
+      'v',
+      'f',
+      'close',
+      'v',
+      'plot',
+      'v',
+    ]);
+  });
+
+  it('passes the parent to typed callbacks', () => {
+    const calleeParents: string[] = [];
+    walk(parse(code), {
+      CallExpression(node, parent) {
+        calleeParents.push(`${parent?.type}`);
+        expect(node.arguments.length).toBeGreaterThan(0);
+        return undefined;
+      },
+    });
+    expect(calleeParents).toEqual([
+      'VariableDeclaration',
+      'ExpressionStatement',
+    ]);
+  });
+
+  it('skips children when enter returns false but still calls leave', () => {
+    const entered: string[] = [];
+    const left: string[] = [];
+    walk(parse(code), {
+      enter(node) {
+        entered.push(node.type);
+        return node.type === 'FunctionDeclaration' ? false : undefined;
+      },
+      leave(node) {
+        left.push(node.type);
+      },
+    });
+    // Only the `if` body is entered; the function body is skipped.
+    expect(entered.filter((t) => t === 'BlockStatement')).toHaveLength(1);
+    expect(left).toContain('FunctionDeclaration');
+    expect(left[left.length - 1]).toBe('Program');
+  });
+
+  it('flattens tuple targets and includes type annotations', () => {
+    const decl = parse('[a, b] = f()').body[0];
+    expect(getChildNodes(decl).map((n: AnyNode) => n.type)).toEqual([
+      'Identifier',
+      'Identifier',
+      'CallExpression',
+    ]);
+
+    const typed = parse('array<float> xs = array.new<float>()').body[0];
+    const kinds: string[] = [];
+    walk(typed, {
+      TypeAnnotation(node) {
+        kinds.push(node.name);
+        return undefined;
+      },
+    });
+    expect(kinds).toEqual(['array', 'float', 'float']);
+  });
+});
@@ -229,4 +229,23 @@ plot(counter)
     const result = compile(code, { indicatorId: 'state' });
     expect(result.helperUsage.has('state')).toBe(true);
   });
+
+  it('reports type errors without stopping compilation', () => {
+    const code = `
+//@version=5
+indicator("typed")
+plot(ta.sma(close, bar_index))
+`;
+    const result = compile(code, { indicatorId: 'typed' });
+    expect(result.typeCheck.diagnostics.map((d) => d.code)).toEqual([
+      'PINE3002',
+    ]);
+    expect(typeof result.factory).toBe('function');
+  });
+
+  it('returns the symbol table for the compiled script', () => {
+    const result = compile(SIMPLE_INDICATOR, { indicatorId: 'symbols' });
+    expect(result.scopes.diagnostics).toEqual([]);
+    expect(result.scopes.table.global.kind).toBe('global');
+  });
 });
@@ -1,7 +1,7 @@
 import { readFileSync } from 'node:fs';
 import { describe, expect, it } from 'bun:test';
 import { transpileToPineJS } from '../../src/index';
-import { getDrawingFn, getInputFn } from '../../src/registry';
+import { getDrawingFn, getInputFn, getStrategyFn } from '../../src/registry';
 
 const EXPRESSION_GENERATOR_SOURCE = readFileSync(
   new URL('../../src/generator/expression-generator.ts', import.meta.url),
@@ -127,6 +127,39 @@ plot(close)
   },
 ];
 
+const STRATEGY_CASES: CanonicalCallCase[] = [
+  {
+    callee: 'strategy.exit',
+    source: `//@version=6
+strategy("exit-live", overlay=true)
+strategy.exit("TP", "Long", loss = 50, profit = 100, trail_offset = 5, trail_points = 20, comment = "g")
+plot(close)
+`,
+    positionalArgs: ['"TP"', '"Long"'],
+    namedArgs: {
+      profit: '100',
+      loss: '50',
+      trail_points: '20',
+      trail_offset: '5',
+      comment: '"g"',
+    },
+  },
+  {
+    callee: 'strategy.order',
+    source: `//@version=6
+strategy("order-live", overlay=true)
+strategy.order("O", strategy.short, stop = low - 1, oca_type = strategy.oca.cancel, oca_name = "grp")
+plot(close)
+`,
+    positionalArgs: ['"O"', 'strategy.short'],
+    namedArgs: {
+      stop: '(low - 1)',
+      oca_name: '"grp"',
+      oca_type: 'strategy.oca.cancel',
+    },
+  },
+];
+
 function transpileBody(source: string): string {
   const result = transpileToPineJS(source, 'registry_live_source', 'Registry Live Source');
   if (!result.success || !result.indicatorFactory) {
@@ -140,6 +173,9 @@ function transpileBody(source: string): string {
 }
 
 function getCanonicalArgsForCall(callee: string): readonly string[] {
+  const strategySpec = getStrategyFn(callee);
+  if (strategySpec) return strategySpec.canonicalArgs;
+
   if (callee.startsWith('input')) {
     const inputSpec = getInputFn(callee);
     if (!inputSpec) {
@@ -211,4 +247,10 @@ describe('registry canonical equivalence — live source', () => {
       assertCanonicalCallEmission(testCase);
     });
   }
+
+  for (const testCase of STRATEGY_CASES) {
+    it(`${testCase.callee} emits registry-ordered canonical args in the live body`, () => {
+      assertCanonicalCallEmission(testCase);
+    });
+  }
 });
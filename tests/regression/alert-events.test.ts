@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'bun:test';
+import { transpileToPineJS, transpileToStandaloneFactory } from '../../src';
+import { createMockRuntime } from '../corpus/mock-runtime';
+import {
+  runRuntimePath,
+  runStandalonePath,
+} from './standalone-parity-test-utils';
+import { loadCreateIndicator } from './standalone-test-utils';
+
+const ALERT_SCRIPT = `//@version=6
+indicator("Alert Events", overlay=true)
+alertcondition(close > open, title="Up", message="Up at {{close}}")
+alert("Bar " + str.tostring(bar_index))
+alert("Ignored: once per bar already fired")
+alert("Every call", alert.freq_all)
+alert("On close", alert.freq_once_per_bar_close)
+plot(close)
+`;
+
+type MainOutput = number[] & {
+  __alerts?: Array<{ kind: string; message: string; barIndex: number }>;
+  __alertsVersion?: number;
+  __caughtError?: unknown;
+};
+
+interface Descriptor {
+  metainfo: { alertConditions?: unknown[] };
+  constructor: new () => {
+    main: (ctx: unknown, cb: (index: number) => number) => MainOutput;
+  };
+}
+
+const CONDITIONS = [
+  { id: 'alertcondition_0', title: 'Up', message: 'Up at {{close}}' },
+];
+
+describe('alert event channel', () => {
+  it('hands out the alerts of each bar in a non-enumerable __alerts', () => {
+    const transpiled = transpileToPineJS(ALERT_SCRIPT, 'alert_events_test');
+    expect(transpiled.success).toBe(true);
+
+    const runtime = createMockRuntime({ barCount: 5 });
+    const indicator = transpiled.indicatorFactory!(
+      runtime.pineJs,
+    ) as Descriptor;
+    const constructed = new indicator.constructor();
+    runtime.resetVarPointer();
+    runtime.resetCurrentBarPlots();
+    const output = constructed.main(runtime.context, () => 14);
+
+    expect(output.__caughtError).toBeUndefined();
+    expect(output.__alertsVersion).toBe(1);
+    expect(output.__alerts?.map((event) => event.message)).toEqual([
+      'Bar 0',
+      'Every call',
+      'On close',
+    ]);
+    expect(Object.prototype.propertyIsEnumerable.call(output, '__alerts')).toBe(
+      false,
+    );
+  });
+
+  it('emits the same alerts from the runtime and standalone paths', () => {
+    const runtimeTrace = runRuntimePath(ALERT_SCRIPT, 'alert-events', 10);
+    const standaloneTrace = runStandalonePath(ALERT_SCRIPT, 'alert-events', 10);
+
+    expect(runtimeTrace.errors).toEqual([]);
+    expect(standaloneTrace.errors).toEqual([]);
+    expect(runtimeTrace.alertsByBar.every((events) => events.length >= 3)).toBe(
+      true,
+    );
+    expect(standaloneTrace.alertsByBar).toEqual(runtimeTrace.alertsByBar);
+  });
+
+  it('lists alertcondition titles and messages in the metainfo', () => {
+    const runtime = createMockRuntime({ barCount: 1 });
+    const live = transpileToPineJS(ALERT_SCRIPT, 'alert_meta_runtime');
+    const standalone = transpileToStandaloneFactory(
+      ALERT_SCRIPT,
+      'alert_meta_standalone',
+    );
+    const liveIndicator = live.indicatorFactory!(runtime.pineJs) as Descriptor;
+    const standaloneIndicator = loadCreateIndicator(standalone.factoryCode!)(
+      runtime.pineJs,
+    ) as Descriptor;
+
+    expect(liveIndicator.metainfo.alertConditions).toEqual(CONDITIONS);
+    expect(standaloneIndicator.metainfo.alertConditions).toEqual(CONDITIONS);
+  });
+});
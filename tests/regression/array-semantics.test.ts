@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'bun:test';
+import { transpileToPineJS } from '../../src/index';
+import { createMockRuntime } from '../corpus/mock-runtime';
+
+function buildInstance(
+  source: string,
+  barCount = 5,
+): {
+  runtime: ReturnType<typeof createMockRuntime>;
+  main: (ctx: unknown, cb: (index: number) => number) => unknown;
+} {
+  const result = transpileToPineJS(
+    source,
+    'array_semantics_regression',
+    'Array',
+  );
+  if (!result.success || !result.indicatorFactory) {
+    throw new Error(result.error ?? 'transpile failed');
+  }
+
+  const runtime = createMockRuntime({ barCount });
+  const indicator = result.indicatorFactory(runtime.pineJs);
+  const ctor = indicator.constructor as new () => {
+    main: (ctx: unknown, cb: (index: number) => number) => unknown;
+  };
+  const instance = new ctor();
+
+  return {
+    runtime,
+    main: instance.main as (
+      ctx: unknown,
+      cb: (index: number) => number,
+    ) => unknown,
+  };
+}
+
+function runOneStep(
+  runtime: ReturnType<typeof createMockRuntime>,
+  main: (ctx: unknown, cb: (index: number) => number) => unknown,
+): number[] {
+  runtime.resetVarPointer();
+  runtime.resetCurrentBarPlots();
+
+  const returned = main(runtime.context, () => 14) as
+    | (unknown[] & { __caughtError?: unknown })
+    | unknown;
+  const caughtError = (
+    returned as { __caughtError?: unknown } | null | undefined
+  )?.__caughtError;
+  if (caughtError !== undefined && caughtError !== null) {
+    throw caughtError instanceof Error
+      ? caughtError
+      : new Error(String(caughtError));
+  }
+
+  if (returned !== undefined && !Array.isArray(returned)) {
+    throw new Error(
+      `main() returned non-array: ${typeof returned === 'object' ? 'object' : typeof returned}`,
+    );
+  }
+
+  const factoryPlots = Array.isArray(returned) ? returned : [];
+  const output =
+    factoryPlots.length > 0
+      ? factoryPlots
+      : [...runtime.currentBarPlots, ...factoryPlots];
+
+  const undefinedSlot = output.findIndex((v) => typeof v === 'undefined');
+  if (undefinedSlot >= 0) {
+    throw new Error(`undefined plot slot at index ${undefinedSlot}`);
+  }
+
+  return output;
+}
+
+function runBars(source: string, barCount = 5): number[][] {
+  const { runtime, main } = buildInstance(source, barCount);
+  const outputs: number[][] = [];
+
+  for (let i = 0; i < barCount; i++) {
+    outputs.push(runOneStep(runtime, main));
+    runtime.advanceBar();
+  }
+
+  return outputs;
+}
+
+function runOnce(source: string): number[] {
+  const [output] = runBars(source, 1);
+  return output ?? [];
+}
+
+describe('array element access', () => {
+  it('inserts, fills and reads from either end', () => {
+    const source = `//@version=6
+indicator("array-access")
+a = array.from(1.0, 2.0, 3.0)
+a.insert(1, 9.0)
+array.insert(a, 4, 5.0)
+b = array.new<float>(4, 0.0)
+b.fill(2.0, 1, 3)
+plot(a.first())
+plot(a.last())
+plot(a.get(1))
+plot(a.get(-2))
+plot(a.size())
+plot(b.sum())
+plot(array.get(b, 3))
+plot(a.remove(-1))
+`;
+
+    expect(runOnce(source)).toEqual([1, 5, 9, 3, 5, 4, 0, 5]);
+  });
+
+  it('creates typed arrays with array.new<type>', () => {
+    const source = `//@version=6
+indicator("array-new-generic")
+ints = array.new<int>(2)
+flags = array.new<bool>(1)
+names = array.new<string>(1, "x")
+lines = array.new<line>()
+lines.get(0).delete()
+plot(na(ints.get(0)) ? 1 : 0)
+plot(flags.get(0) ? 1 : 0)
+plot(str.length(names.get(0)))
+plot(lines.size())
+`;
+
+    expect(runOnce(source)).toEqual([1, 0, 1, 0]);
+  });
+
+  it('raises an index error outside the array', () => {
+    const source = `//@version=6
+indicator("array-out-of-bounds")
+a = array.new<float>(2, 1.0)
+plot(a.get(5))
+`;
+
+    expect(() => runOnce(source)).toThrow(
+      'line 4, bar 0: Index 5 is out of bounds. Array size is 2.',
+    );
+  });
+
+  it('raises an error when popping or reading an empty array', () => {
+    const pop = `//@version=6
+indicator("array-empty-pop")
+a = array.new<float>()
+plot(a.pop())
+`;
+    const first = `//@version=6
+indicator("array-empty-first")
+a = array.new<float>()
+plot(array.first(a))
+`;
+
+    expect(() => runOnce(pop)).toThrow(/Cannot call array\.pop\(\)/);
+    expect(() => runOnce(first)).toThrow(/Cannot call array\.first\(\)/);
+  });
+});
+
+describe('array statistics', () => {
+  it('skips na elements', () => {
+    const source = `//@version=6
+indicator("array-stats")
+a = array.from(4.0, 1.0, na, 3.0, 1.0, 6.0)
+plot(a.median())
+plot(a.mode())
+plot(a.range())
+plot(a.min(1))
+plot(a.max(1))
+plot(a.avg())
+plot(a.variance())
+plot(a.variance(false))
+plot(a.stdev())
+`;
+
+    const output = runOnce(source);
+    expect(output.slice(0, 8)).toEqual([3, 1, 5, 1, 4, 3, 3.6, 4.5]);
+    expect(output[8]).toBeCloseTo(Math.sqrt(3.6), 12);
+  });
+
+  it('computes percentiles and percent ranks', () => {
+    const source = `//@version=6
+indicator("array-percentiles")
+a = array.from(4.0, 1.0, na, 3.0, 1.0, 6.0)
+plot(a.percentile_nearest_rank(50))
+plot(a.percentile_nearest_rank(90))
+plot(a.percentile_linear_interpolation(25))
+plot(a.percentile_linear_interpolation(60))
+plot(a.percentrank(0))
+`;
+
+    const output = runOnce(source);
+    expect(output.slice(0, 3)).toEqual([3, 6, 1]);
+    expect(output[3]).toBeCloseTo(3.4, 12);
+    expect(output[4]).toBe(75);
+  });
+
+  it('computes covariance, standardized and absolute values', () => {
+    const source = `//@version=6
+indicator("array-covariance")
+x = array.from(1.0, 2.0, 3.0)
+y = array.from(2.0, 4.0, 7.0)
+plot(array.covariance(x, y))
+plot(array.covariance(x, y, false))
+plot(x.standardize().first())
+plot(array.from(-1.0, 2.0, -3.0).abs().sum())
+`;
+
+    const output = runOnce(source);
+    expect(output[0]).toBeCloseTo(5 / 3, 12);
+    expect(output[1]).toBeCloseTo(2.5, 12);
+    expect(output[2]).toBeCloseTo(-1 / Math.sqrt(2 / 3), 12);
+    expect(output[3]).toBe(6);
+  });
+});
+
+describe('array ordering and search', () => {
+  it('sorts with na last and returns sort indices', () => {
+    const source = `//@version=6
+indicator("array-sort")
+a = array.from(5.0, na, 1.0, 3.0)
+idx = a.sort_indices()
+a.sort()
+b = array.copy(a)
+b.sort(order.descending)
+plot(idx.get(0))
+plot(idx.get(3))
+plot(a.get(0))
+plot(na(a.last()) ? 1 : 0)
+plot(b.first())
+`;
+
+    expect(runOnce(source)).toEqual([2, 1, 1, 1, 5]);
+  });
+
+  it('binary searches for present and missing values', () => {
+    const source = `//@version=6
+indicator("array-binary-search")
+s = array.from(1.0, 3.0, 5.0, 7.0)
+plot(s.binary_search(5))
+plot(s.binary_search(4))
+plot(s.binary_search_leftmost(4))
+plot(s.binary_search_rightmost(4))
+plot(s.binary_search_leftmost(0))
+plot(s.binary_search_rightmost(8))
+`;
+
+    expect(runOnce(source)).toEqual([2, -1, 1, 2, -1, 4]);
+  });
+
+  it('concatenates in place and tests every and some element', () => {
+    const source = `//@version=6
+indicator("array-concat")
+a = array.from(1.0, 2.0)
+array.concat(a, array.from(3.0))
+flags = array.from(true, true, false)
+plot(a.size())
+plot(a.indexof(3.0))
+plot(flags.every() ? 1 : 0)
+plot(array.some(flags) ? 1 : 0)
+`;
+
+    expect(runOnce(source)).toEqual([3, 2, 0, 1]);
+  });
+});
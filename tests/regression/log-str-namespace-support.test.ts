@@ -12,7 +12,9 @@ plot(str.length(formatted))
 
 const LOG_NAMESPACE_SCRIPT = `//@version=6
 indicator("Log Namespace Support", overlay=false)
-log.info("bar", bar_index, close)
+log.info("bar {0} close {1}", bar_index, close)
+if bar_index % 5 == 0
+    log.warning("fifth bar")
 plot(close)
 `;
 
@@ -32,7 +34,7 @@ describe('log/str namespace support', () => {
     expect(standaloneTrace.plotsByBar).toEqual(runtimeTrace.plotsByBar);
   });
 
-  it('supports log namespace without runtime errors', () => {
+  it('records the same log namespace output in both paths', () => {
     const fixtureId = 'log-namespace-support';
     const bars = 20;
     const runtimeTrace = runRuntimePath(LOG_NAMESPACE_SCRIPT, fixtureId, bars);
@@ -41,5 +43,16 @@ describe('log/str namespace support', () => {
     expect(runtimeTrace.errors).toEqual([]);
     expect(standaloneTrace.errors).toEqual([]);
     expect(standaloneTrace.plotsByBar).toEqual(runtimeTrace.plotsByBar);
+    expect(standaloneTrace.logsByBar).toEqual(runtimeTrace.logsByBar);
+    expect(runtimeTrace.logsByBar[0]).toMatchObject([
+      {
+        level: 'info',
+        message: expect.stringMatching(/^bar 10,000 close \d+\.\d{1,3}$/),
+        barIndex: 10000,
+        time: 1_700_000_000_000,
+      },
+      { level: 'warning', message: 'fifth bar', barIndex: 10000 },
+    ]);
+    expect(runtimeTrace.logsByBar[1]).toHaveLength(1);
   });
 });
@@ -124,3 +124,284 @@ plot(matrix.columns(mx))
     }
   });
 });
+
+function runOnce(source: string): number[] {
+  const [output] = runBars(source, 1);
+  return output ?? [];
+}
+
+function expectClose(actual: number[], expected: number[]): void {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((value, index) => {
+    expect(actual[index]).toBeCloseTo(value, 9);
+  });
+}
+
+const FILL_2X2 = `
+m = matrix.new<float>(2, 2, 0)
+m.set(0, 0, 2)
+m.set(0, 1, 4)
+m.set(1, 0, 6)
+m.set(1, 1, 8)
+`;
+
+describe('matrix linear algebra', () => {
+  it('computes det, trace, inv, rank and the identity product', () => {
+    const source = `//@version=6
+indicator("matrix-inv")
+${FILL_2X2}
+inv = m.inv()
+id = matrix.mult(m, inv)
+plot(m.det())
+plot(matrix.trace(m))
+plot(inv.get(0, 0))
+plot(inv.get(0, 1))
+plot(inv.get(1, 0))
+plot(inv.get(1, 1))
+plot(id.get(0, 0))
+plot(id.get(0, 1))
+plot(id.get(1, 1))
+plot(m.rank())
+`;
+
+    expectClose(runOnce(source), [-8, 10, -1, 0.5, 0.75, -0.25, 1, 0, 1, 2]);
+  });
+
+  it('returns the pseudoinverse and rank of a singular matrix', () => {
+    const source = `//@version=6
+indicator("matrix-pinv")
+m = matrix.new<float>(2, 2, 0)
+m.set(0, 0, 1)
+m.set(0, 1, 2)
+m.set(1, 0, 2)
+m.set(1, 1, 4)
+p = m.pinv()
+plot(m.det())
+plot(m.rank())
+plot(p.get(0, 0))
+plot(p.get(0, 1))
+plot(p.get(1, 1))
+plot(m.inv().get(0, 0))
+`;
+
+    const output = runOnce(source);
+    expectClose(output.slice(0, 5), [0, 1, 0.04, 0.08, 0.16]);
+    expect(output[5]).toBeNaN();
+  });
+
+  it('computes eigenvalues of symmetric, general and triangular matrices', () => {
+    const source = `//@version=6
+indicator("matrix-eigenvalues")
+${FILL_2X2}
+s = matrix.new<float>(2, 2, 1)
+s.set(0, 0, 2)
+s.set(1, 1, 2)
+t = matrix.new<float>(3, 3, 0)
+t.set(0, 0, 1)
+t.set(0, 1, 2)
+t.set(0, 2, 3)
+t.set(1, 1, 4)
+t.set(1, 2, 5)
+t.set(2, 2, 6)
+es = s.eigenvalues()
+eg = matrix.eigenvalues(m)
+et = t.eigenvalues()
+plot(es.get(0))
+plot(es.get(1))
+plot(eg.get(0))
+plot(eg.get(1))
+plot(et.get(0))
+plot(et.get(1))
+plot(et.get(2))
+plot(et.size())
+`;
+
+    const root = Math.sqrt(33);
+    expectClose(runOnce(source), [3, 1, 5 + root, 5 - root, 6, 4, 1, 3]);
+  });
+
+  it('returns unit eigenvectors as columns', () => {
+    const source = `//@version=6
+indicator("matrix-eigenvectors")
+${FILL_2X2}
+s = matrix.new<float>(2, 2, 1)
+s.set(0, 0, 2)
+s.set(1, 1, 2)
+vs = s.eigenvectors()
+vg = m.eigenvectors()
+lambda = m.eigenvalues().get(0)
+v = vg.col(0)
+av = m.mult(v)
+plot(vs.get(0, 0))
+plot(vs.get(1, 0))
+plot(vs.get(0, 1))
+plot(vs.get(1, 1))
+plot(av.get(0) - lambda * v.get(0))
+plot(av.get(1) - lambda * v.get(1))
+plot(math.sqrt(v.get(0) * v.get(0) + v.get(1) * v.get(1)))
+`;
+
+    const half = Math.SQRT1_2;
+    expectClose(runOnce(source), [half, half, half, -half, 0, 0, 1]);
+  });
+
+  it('reports the real parts of complex eigenvalues', () => {
+    const source = `//@version=6
+indicator("matrix-complex-eigenvalues")
+r = matrix.new<float>(2, 2, 0)
+r.set(0, 1, -1)
+r.set(1, 0, 1)
+ev = r.eigenvalues()
+plot(ev.get(0))
+plot(ev.get(1))
+plot(r.eigenvectors().get(0, 0))
+`;
+
+    const output = runOnce(source);
+    expectClose(output.slice(0, 2), [0, 0]);
+    expect(output[2]).toBeNaN();
+  });
+
+  it('multiplies by matrices, arrays and scalars and raises to powers', () => {
+    const source = `//@version=6
+indicator("matrix-mult")
+${FILL_2X2}
+sq = m.pow(2)
+byArray = m.mult(array.from(1.0, 1.0))
+scaled = matrix.mult(m, 0.5)
+k = matrix.kron(m, matrix.new<float>(1, 2, 1))
+plot(sq.get(0, 0))
+plot(sq.get(0, 1))
+plot(sq.get(1, 0))
+plot(sq.get(1, 1))
+plot(m.pow(0).get(1, 1))
+plot(byArray.get(0))
+plot(byArray.get(1))
+plot(scaled.get(1, 1))
+plot(k.columns())
+plot(k.get(1, 3))
+plot(m.sum(m).get(0, 1))
+plot(m.diff(1).get(1, 0))
+`;
+
+    expectClose(runOnce(source), [28, 40, 60, 88, 1, 6, 14, 4, 4, 8, 8, 5]);
+  });
+
+  it('raises a runtime error for mismatched dimensions', () => {
+    const source = `//@version=6
+indicator("matrix-mismatch")
+a = matrix.new<float>(2, 3, 1)
+b = matrix.new<float>(2, 3, 1)
+plot(a.mult(b).get(0, 0))
+`;
+
+    expect(() => runOnce(source)).toThrow(
+      'line 5, bar 0: matrix.mult: the first matrix has 3 columns but the second has 2 rows',
+    );
+  });
+});
+
+describe('matrix structure and statistics', () => {
+  it('adds, removes, swaps and copies rows and columns', () => {
+    const source = `//@version=6
+indicator("matrix-structure")
+${FILL_2X2}
+m.add_col(1, array.from(9.0, 10.0))
+c = m.col(1)
+m.swap_rows(0, 1)
+m.swap_columns(0, 2)
+removed = m.remove_col(0)
+sub = m.submatrix(0, 1, 0, 2)
+plot(m.columns())
+plot(c.get(1))
+plot(removed.get(0))
+plot(m.get(0, 0))
+plot(m.get(0, 1))
+plot(sub.rows())
+plot(sub.get(0, 1))
+plot(m.row(1).size())
+plot(m.elements_count())
+`;
+
+    expectClose(runOnce(source), [2, 10, 8, 10, 6, 1, 6, 2, 4]);
+  });
+
+  it('transposes, reshapes, reverses, concatenates, fills and sorts', () => {
+    const source = `//@version=6
+indicator("matrix-reshape")
+${FILL_2X2}
+t = m.transpose()
+r = matrix.copy(m)
+r.reshape(1, 4)
+v = m.copy()
+v.reverse()
+joined = matrix.concat(m.copy(), t)
+f = matrix.new<float>(3, 3, 0)
+f.fill(7, 1, 3, 0, 2)
+s = m.copy()
+s.sort(1, order.descending)
+plot(t.get(0, 1))
+plot(r.columns())
+plot(r.get(0, 2))
+plot(v.get(0, 0))
+plot(joined.rows())
+plot(joined.get(3, 0))
+plot(f.get(0, 0))
+plot(f.get(2, 1))
+plot(f.get(2, 2))
+plot(s.get(0, 0))
+`;
+
+    expectClose(runOnce(source), [6, 4, 6, 8, 4, 4, 0, 7, 0, 6]);
+  });
+
+  it('raises a runtime error when reshaping to another element count', () => {
+    const source = `//@version=6
+indicator("matrix-reshape-error")
+m = matrix.new<float>(2, 2, 0)
+m.reshape(3, 1)
+plot(m.rows())
+`;
+
+    expect(() => runOnce(source)).toThrow(/matrix\.reshape/);
+  });
+
+  it('computes avg, median, mode, min and max over the cells', () => {
+    const source = `//@version=6
+indicator("matrix-stats")
+m = matrix.new<float>(2, 3, 2)
+m.set(0, 0, 1)
+m.set(1, 2, 9)
+plot(m.avg())
+plot(m.median())
+plot(m.mode())
+plot(m.min())
+plot(matrix.max(m))
+`;
+
+    expectClose(runOnce(source), [3, 2, 2, 1, 9]);
+  });
+
+  it('classifies matrices with the is_* predicates', () => {
+    const source = `//@version=6
+indicator("matrix-predicates")
+id = matrix.new<float>(2, 2, 0)
+id.set(0, 0, 1)
+id.set(1, 1, 1)
+anti = matrix.new<float>(2, 2, 0)
+anti.set(0, 1, 2)
+anti.set(1, 0, -2)
+tri = matrix.new<float>(2, 2, 1)
+tri.set(1, 0, 0)
+st = matrix.new<float>(2, 2, 0.5)
+wide = matrix.new<float>(2, 3, 0)
+b(bool x) => x ? 1 : 0
+plot(b(id.is_identity()) + 2 * b(id.is_diagonal()) + 4 * b(id.is_symmetric()) + 8 * b(id.is_binary()))
+plot(b(anti.is_antisymmetric()) + 2 * b(anti.is_antidiagonal()) + 4 * b(anti.is_symmetric()))
+plot(b(tri.is_triangular()) + 2 * b(tri.is_diagonal()) + 4 * b(st.is_stochastic()))
+plot(b(wide.is_zero()) + 2 * b(wide.is_square()) + 4 * b(wide.is_diagonal()))
+`;
+
+    expect(runOnce(source)).toEqual([15, 3, 5, 1]);
+  });
+});
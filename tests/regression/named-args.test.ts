@@ -83,7 +83,7 @@ describe('named arguments — no closure-shadowing assignment emit', () => {
     expect(out).not.toContain('timeframe =');
     expect(out).not.toContain('expression =');
     expect(out).toContain(
-      'request.security(syminfo.tickerid, "60", close, barmerge.lookahead_on)',
+      'request.security(syminfo.tickerid, "60", close, barmerge.lookahead_on, (context, { close }) => close)',
     );
   });
 
@@ -92,7 +92,7 @@ describe('named arguments — no closure-shadowing assignment emit', () => {
       'x = request.security(expression=close, lookahead=barmerge.lookahead_on, timeframe="60", symbol=syminfo.tickerid)',
     );
     expect(out).toContain(
-      'request.security(syminfo.tickerid, "60", close, barmerge.lookahead_on)',
+      'request.security(syminfo.tickerid, "60", close, barmerge.lookahead_on, (context, { close }) => close)',
     );
   });
 
@@ -101,7 +101,7 @@ describe('named arguments — no closure-shadowing assignment emit', () => {
       'x = request.security(syminfo.tickerid, expression=close, timeframe="60", gaps=barmerge.gaps_on)',
     );
     expect(out).toContain(
-      'request.security(syminfo.tickerid, "60", close, barmerge.gaps_on)',
+      'request.security(syminfo.tickerid, "60", close, barmerge.gaps_on, (context, { close }) => close)',
     );
   });
 });
@@ -1,6 +1,20 @@
 import { describe, expect, it } from 'bun:test';
-import { transpileToPineJS } from '../../src/index';
+import {
+  type OhlcvBar,
+  runScript,
+  type SecurityBar,
+  type SecurityDataProvider,
+  transpileToPineJS,
+  transpileToStandaloneFactory,
+} from '../../src/index';
+import { createHarnessRuntime } from '../../src/test-harness/runtime';
+import type {
+  IndicatorConstructor,
+  IndicatorFactory,
+  PineJSRuntime,
+} from '../../src/types';
 import { createMockRuntime } from '../corpus/mock-runtime';
+import { loadCreateIndicator } from './standalone-test-utils';
 
 interface RuntimeDiagnostic {
   feature: 'request.security';
@@ -441,3 +455,216 @@ plot(b2)
     }
   });
 });
+
+const START = Date.UTC(2024, 0, 2, 14, 30);
+
+/** One-minute chart bars closing at 0, 1, 2… */
+const CHART_BARS: OhlcvBar[] = Array.from({ length: 12 }, (_, i) => ({
+  time: START + i * 60_000,
+  open: i,
+  high: i + 1,
+  low: i - 1,
+  close: i,
+  volume: 1,
+}));
+
+/** Five-minute bars of another symbol closing at 100, 200, 300. */
+const OTHER_BARS: SecurityBar[] = [100, 200, 300].map((close, i) => ({
+  time: START + i * 300_000,
+  open: close - 10,
+  high: close + 10,
+  low: close - 20,
+  close,
+  volume: 1000,
+}));
+
+function inMemoryProvider(
+  data: Record<string, readonly SecurityBar[]>,
+  requests: string[] = [],
+): SecurityDataProvider {
+  return {
+    getBars: (symbol, timeframe) => {
+      requests.push(`${symbol}@${timeframe}`);
+      return data[`${symbol}@${timeframe}`];
+    },
+  };
+}
+
+function plotColumn(
+  result: ReturnType<typeof runScript>,
+  title: string,
+): number[] {
+  expect(result.errors).toEqual([]);
+  return result.bars.map((bar) => bar.plots[title] as number);
+}
+
+/** Each chart bar's output of `source` as a standalone factory. */
+function runStandalone(
+  source: string,
+  securityDataProvider: SecurityDataProvider,
+): number[][] {
+  const standalone = transpileToStandaloneFactory(source, 'sec', 'sec');
+  const createIndicator = loadCreateIndicator(
+    standalone.factoryCode ?? '',
+  ) as unknown as IndicatorFactory;
+  const runtime = createHarnessRuntime({
+    barCount: CHART_BARS.length,
+    barIndexStart: 0,
+    bars: CHART_BARS,
+  });
+  const indicator = createIndicator(runtime.pineJs as PineJSRuntime, {
+    securityDataProvider,
+  });
+  const instance = new (
+    indicator.constructor as new () => IndicatorConstructor
+  )();
+  const rows: number[][] = [];
+  for (const _bar of CHART_BARS) {
+    runtime.resetBarState();
+    rows.push(instance.main(runtime.context, () => undefined) as number[]);
+    runtime.advanceBar();
+  }
+  return rows;
+}
+
+/** The non-`na` values of a column by bar index. */
+function emitted(values: number[]): Record<number, number> {
+  return Object.fromEntries(
+    values.flatMap((value, i) => (Number.isNaN(value) ? [] : [[i, value]])),
+  );
+}
+
+describe('request.security on other symbols with a data provider', () => {
+  const provider = inMemoryProvider({ 'NYSE:OTHER@5': OTHER_BARS });
+
+  it('merges closed bars without lookahead and open bars with it', () => {
+    const result = runScript(
+      `//@version=6
+indicator("other symbol")
+plot(request.security("NYSE:OTHER", "5", close), "off")
+plot(request.security("NYSE:OTHER", "5", close, lookahead = barmerge.lookahead_on), "on")`,
+      CHART_BARS,
+      { securityDataProvider: provider },
+    );
+
+    expect(emitted(plotColumn(result, 'off'))).toEqual({
+      4: 100,
+      5: 100,
+      6: 100,
+      7: 100,
+      8: 100,
+      9: 200,
+      10: 200,
+      11: 200,
+    });
+    expect(plotColumn(result, 'on')).toEqual([
+      100, 100, 100, 100, 100, 200, 200, 200, 200, 200, 300, 300,
+    ]);
+  });
+
+  it('evaluates the expression over the requested bars with its own state', () => {
+    const result = runScript(
+      `//@version=6
+indicator("other symbol state")
+[avg, prev, index] = request.security("NYSE:OTHER", "5", [ta.sma(close, 2), close[1], bar_index], barmerge.gaps_on)
+plot(avg, "avg")
+plot(prev, "prev")
+plot(index, "index")
+plot(ta.sma(close, 2), "chart avg")`,
+      CHART_BARS,
+      { securityDataProvider: provider },
+    );
+
+    expect(emitted(plotColumn(result, 'avg'))).toEqual({ 9: 150 });
+    expect(emitted(plotColumn(result, 'prev'))).toEqual({ 9: 100 });
+    expect(emitted(plotColumn(result, 'index'))).toEqual({ 4: 0, 9: 1 });
+    expect(plotColumn(result, 'chart avg')[11]).toBe(10.5);
+  });
+
+  it('reads script variables on the chart bar that evaluates', () => {
+    const result = runScript(
+      `//@version=6
+indicator("other symbol variable")
+v = close * 2
+plot(request.security("NYSE:OTHER", "5", v), "v")`,
+      CHART_BARS,
+      { securityDataProvider: provider },
+    );
+
+    expect(plotColumn(result, 'v').slice(4)).toEqual([
+      8, 8, 8, 8, 8, 18, 18, 18,
+    ]);
+  });
+
+  it('asks for the chart timeframe when the script gives none', () => {
+    const requests: string[] = [];
+    const result = runScript(
+      `//@version=6
+indicator("other symbol chart timeframe")
+plot(request.security("NYSE:OTHER", "", close), "same")`,
+      CHART_BARS.slice(0, 2),
+      {
+        securityDataProvider: inMemoryProvider(
+          { 'NYSE:OTHER@1': OTHER_BARS },
+          requests,
+        ),
+      },
+    );
+
+    expect(requests).toEqual(['NYSE:OTHER@1', 'NYSE:OTHER@1']);
+    expect(plotColumn(result, 'same')).toEqual([100, 100]);
+  });
+
+  it('falls back to the chart data for symbols the provider lacks', () => {
+    const result = runScript(
+      `//@version=6
+indicator("unknown symbol")
+plot(request.security("NYSE:MISSING", timeframe.period, close), "missing")`,
+      CHART_BARS.slice(0, 3),
+      { securityDataProvider: provider },
+    );
+
+    expect(plotColumn(result, 'missing')).toEqual([0, 1, 2]);
+  });
+
+  it('merges the same values in standalone factories', () => {
+    const source = `//@version=6
+indicator("other symbol standalone")
+a = request.security("NYSE:OTHER", "5", close)
+b = request.security("NYSE:OTHER", "5", ta.sma(close, 2))
+c = request.security("NYSE:OTHER", "5", high - low, barmerge.gaps_on, barmerge.lookahead_on)
+v = close * 2
+d = request.security("NYSE:OTHER", "5", v)
+plot(a, "a")
+plot(b, "b")
+plot(c, "c")
+plot(d, "d")`;
+    const rows = runStandalone(source, provider);
+
+    const result = runScript(source, CHART_BARS, {
+      securityDataProvider: provider,
+    });
+    for (const [slot, title] of ['a', 'b', 'c', 'd'].entries()) {
+      expect(rows.map((row) => row[slot])).toEqual(plotColumn(result, title));
+    }
+    expect(plotColumn(result, 'c')[5]).toBe(30);
+    expect(plotColumn(result, 'd')[9]).toBe(18);
+  });
+
+  it('keeps later call sites apart while the provider has no bars', () => {
+    const source = `//@version=6
+indicator("other symbol late bars")
+a = request.security("NYSE:OTHER", "5", close)
+b = request.security(syminfo.tickerid, "5", close)
+plot(a, "a")
+plot(b, "b")`;
+    let calls = 0;
+    const late: SecurityDataProvider = {
+      getBars: (symbol, timeframe) =>
+        ++calls > 6 ? provider.getBars(symbol, timeframe) : undefined,
+    };
+
+    const expected = runStandalone(source, provider).map((row) => row[1]);
+    expect(runStandalone(source, late).map((row) => row[1])).toEqual(expected);
+  });
+});
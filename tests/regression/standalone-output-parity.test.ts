@@ -46,6 +46,7 @@ describe('standalone/runtime output parity', () => {
       expect(runtimeTrace.plotsByBar.length).toBe(barCount);
       expect(standaloneTrace.plotsByBar.length).toBe(barCount);
       expect(standaloneTrace.plotsByBar).toEqual(runtimeTrace.plotsByBar);
+      expect(standaloneTrace.alertsByBar).toEqual(runtimeTrace.alertsByBar);
     });
   }
 });
@@ -23,12 +23,16 @@ interface IndicatorDescriptor {
 
 type MainOutput = unknown[] & {
   __visualEvents?: unknown[];
+  __alerts?: unknown[];
+  __logs?: unknown[];
   __caughtError?: unknown;
 };
 
 export interface ExecutionTrace {
   plotsByBar: unknown[][];
   visualEventsByBar: unknown[][];
+  alertsByBar: unknown[][];
+  logsByBar: unknown[][];
   errors: string[];
 }
 
@@ -109,7 +113,13 @@ function runDescriptor(
 ): ExecutionTrace {
   const instance = new descriptor.constructor();
   const inputCallback = buildInputCallback(descriptor);
-  const trace: ExecutionTrace = { plotsByBar: [], visualEventsByBar: [], errors: [] };
+  const trace: ExecutionTrace = {
+    plotsByBar: [],
+    visualEventsByBar: [],
+    alertsByBar: [],
+    logsByBar: [],
+    errors: [],
+  };
 
   for (let i = 0; i < barCount; i++) {
     runtime.resetVarPointer();
@@ -139,6 +149,12 @@ function runDescriptor(
       trace.visualEventsByBar.push(
         normalizeComparable(rawEvents.map((event) => canonicalizeVisualEvent(event))) as unknown[],
       );
+      trace.alertsByBar.push(
+        normalizeComparable(output.__alerts ?? []) as unknown[],
+      );
+      trace.logsByBar.push(
+        normalizeComparable(output.__logs ?? []) as unknown[],
+      );
     } catch (error) {
       trace.errors.push(`bar ${i}: ${normalizeThrowable(error)}`);
     } finally {
@@ -10,6 +10,7 @@ import {
 const VISUAL_FIXTURES = [
   join(process.cwd(), 'fixtures/ict-killzones.pine'),
   join(process.cwd(), 'fixtures/feature-matrix/method-on-builtin.pine'),
+  join(process.cwd(), 'fixtures/feature-matrix/polyline-zigzag.pine'),
   join(process.cwd(), 'fixtures/feature-matrix/table-cell-merge.pine'),
   join(FIXTURES_DIR, '16-plotshape-buy-sell.pine'),
   join(FIXTURES_DIR, '17-plotchar.pine'),
@@ -85,6 +85,23 @@ plot(counter)
     expect(outputs.map((row) => row[0])).toEqual([1, 2, 3, 4]);
   });
 
+  it('persists only the `var` declarations of a comma-separated list', () => {
+    // Each declaration in the list is its own statement, so `seen` is
+    // redeclared on every bar; it used to inherit `count`'s `var` and
+    // stay at its first-bar value.
+    const source = `//@version=5
+indicator("var-list")
+var count = 0, seen = count, var int total = 0
+count := count + 1
+total := total + seen
+plot(seen)
+plot(total)
+`;
+    const outputs = runBars(source, 4);
+    expect(outputs.map((row) => row[0])).toEqual([0, 1, 2, 3]);
+    expect(outputs.map((row) => row[1])).toEqual([0, 1, 3, 6]);
+  });
+
   it('resets `varip` on each new bar in bar-driven execution', () => {
     const source = `//@version=5
 indicator("varip-state")
@@ -0,0 +1,331 @@
+/**
+ * Runner Tests
+ *
+ * Tests for headless execution with `runScript`: loading OHLCV from
+ * CSV and JSON, per-bar plot values by title, visual events, logs,
+ * input overrides and runtime errors, and the CSV / JSON / NDJSON
+ * output.
+ */
+
+import { describe, expect, it, spyOn } from 'bun:test';
+import {
+  formatRunLogs,
+  formatRunOutput,
+  type OhlcvBar,
+  parseOhlcv,
+  parseOhlcvCsv,
+  parseOhlcvJson,
+  runScript,
+} from '../../src';
+
+const START = Date.UTC(2024, 0, 2, 14, 30);
+
+function bars(closes: number[]): OhlcvBar[] {
+  return closes.map((close, i) => ({
+    time: START + i * 60_000,
+    open: close - 1,
+    high: close + 1,
+    low: close - 2,
+    close,
+    volume: 100 + i,
+  }));
+}
+
+describe('parseOhlcv', () => {
+  it('should read CSV with any time format and column order', () => {
+    const csv = `Close,Time,Open,High,Low
+10,2024-01-02T14:30:00Z,9,11,8
+"11",1704205860,10,12,9
+
+12,1704205920000,11,13,10
+`;
+
+    expect(parseOhlcvCsv(csv)).toEqual([
+      { time: START, open: 9, high: 11, low: 8, close: 10, volume: Number.NaN },
+      {
+        time: START + 60_000,
+        open: 10,
+        high: 12,
+        low: 9,
+        close: 11,
+        volume: Number.NaN,
+      },
+      {
+        time: START + 120_000,
+        open: 11,
+        high: 13,
+        low: 10,
+        close: 12,
+        volume: Number.NaN,
+      },
+    ]);
+  });
+
+  it('should read JSON objects and arrays', () => {
+    const objects = parseOhlcv(
+      '[{"timestamp": 1704205800, "open": 1, "high": 2, "low": 0, "close": 1.5, "volume": 7}]',
+    );
+    const arrays = parseOhlcvJson('[[1704205800000, 1, 2, 0, 1.5, 7]]');
+
+    expect(objects).toEqual([
+      { time: START, open: 1, high: 2, low: 0, close: 1.5, volume: 7 },
+    ]);
+    expect(arrays).toEqual(objects);
+  });
+
+  it('should report malformed bars', () => {
+    expect(() => parseOhlcvCsv('time,open,high,low,close\n1,2,x,1,2')).toThrow(
+      "OHLCV CSV line 2: invalid high 'x'.",
+    );
+    expect(() => parseOhlcvCsv('open,high,low,close\n1,2,0,1')).toThrow(
+      'OHLCV CSV needs a time column (time, timestamp, date, datetime).',
+    );
+    expect(() => parseOhlcvJson('[[2, 1, 1, 1, 1], [1, 1, 1, 1, 1]]')).toThrow(
+      'OHLCV JSON bar 1: bars must be in ascending time order.',
+    );
+    expect(() => parseOhlcvJson('{}')).toThrow(
+      'OHLCV JSON must be an array of bars.',
+    );
+  });
+});
+
+describe('runScript', () => {
+  const SOURCE = `//@version=6
+indicator("Demo")
+len = input.int(2, "Length")
+plot(ta.sma(close, len), "SMA")
+plot(close, "Close")
+plot(open, "Close")
+plotshape(close > 11, title="Above")
+if bar_index == 1
+    label.new(bar_index, high, "one")`;
+
+  it('should record every plot by title on every bar', () => {
+    const result = runScript(SOURCE, bars([10, 11, 12]));
+
+    expect(result.success).toBe(true);
+    expect(result.plots).toEqual(['SMA', 'Close', 'Close #2', 'Above']);
+    expect(result.bars.map((bar) => bar.plots)).toEqual([
+      { SMA: Number.NaN, Close: 10, 'Close #2': 9, Above: Number.NaN },
+      { SMA: 10.5, Close: 11, 'Close #2': 10, Above: Number.NaN },
+      { SMA: 11.5, Close: 12, 'Close #2': 11, Above: 1 },
+    ]);
+    expect(result.bars[2].time).toBe(START + 120_000);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should record the visual events of each bar', () => {
+    const result = runScript(SOURCE, bars([10, 11, 12]));
+    const labels = result.bars.map((bar) =>
+      bar.events.filter((event) => event.call === 'label.new'),
+    );
+
+    expect(labels.map((events) => events.length)).toEqual([0, 1, 0]);
+    expect(labels[1][0].args).toEqual([1, 12, 'one']);
+  });
+
+  it('should record the logs of each bar', () => {
+    const result = runScript(
+      `indicator("Logs")
+log.info("close {0} on bar {1}", close, bar_index)
+if close > 11
+    log.error("too high")
+plot(close, "Close")`,
+      bars([10, 12]),
+    );
+
+    expect(result.bars.map((bar) => bar.logs)).toEqual([
+      [
+        {
+          level: 'info',
+          message: 'close 10 on bar 0',
+          barIndex: 0,
+          time: START,
+        },
+      ],
+      [
+        {
+          level: 'info',
+          message: 'close 12 on bar 1',
+          barIndex: 1,
+          time: START + 60_000,
+        },
+        {
+          level: 'error',
+          message: 'too high',
+          barIndex: 1,
+          time: START + 60_000,
+        },
+      ],
+    ]);
+    expect(formatRunLogs(result)).toBe(
+      `[2024-01-02T14:30:00.000Z] INFO: close 10 on bar 0
+[2024-01-02T14:31:00.000Z] INFO: close 12 on bar 1
+[2024-01-02T14:31:00.000Z] ERROR: too high
+`,
+    );
+  });
+
+  it('should apply input overrides by title', () => {
+    const result = runScript(SOURCE, bars([10, 11, 12]), {
+      inputs: { Length: 3 },
+    });
+
+    expect(result.bars.map((bar) => bar.plots.SMA)).toEqual([
+      Number.NaN,
+      Number.NaN,
+      11,
+    ]);
+  });
+
+  it('should compute ta functions with the reference Std', () => {
+    const result = runScript(
+      `indicator("TA")
+plot(ta.ema(close, 2), "EMA")
+plot(ta.rsi(close, 2), "RSI")
+plot(ta.crossover(close, 10.5) ? 1 : 0, "Cross")`,
+      bars([10, 11, 12, 12.25]),
+    );
+
+    expect(result.bars.map((bar) => bar.plots)).toEqual([
+      { EMA: Number.NaN, RSI: Number.NaN, Cross: 0 },
+      { EMA: 10.5, RSI: Number.NaN, Cross: 1 },
+      { EMA: 11.5, RSI: 100, Cross: 0 },
+      { EMA: 12, RSI: 100, Cross: 0 },
+    ]);
+  });
+
+  it('should fill strategy orders on the next bar', () => {
+    const result = runScript(
+      `strategy("Orders", overlay=true, pyramiding=2)
+if bar_index < 2
+    strategy.entry("Long", strategy.long, qty=2)
+strategy.exit("Stop", "Long", loss=150)
+plot(strategy.position_size, "Size")
+plot(strategy.position_avg_price, "Average")`,
+      bars([10, 11, 12, 10, 9]),
+    );
+
+    // Fills at the opens of 10 and 11; the fourth bar opens at 9, on
+    // the stop 150 ticks below their average of 10.5.
+    expect(result.bars.map((bar) => bar.plots)).toEqual([
+      { Size: 0, Average: Number.NaN },
+      { Size: 2, Average: 10 },
+      { Size: 4, Average: 10.5 },
+      { Size: 0, Average: Number.NaN },
+      { Size: 0, Average: Number.NaN },
+    ]);
+  });
+
+  it('should only place orders whose when= holds, in v6 too', () => {
+    const result = runScript(
+      `//@version=6
+strategy("When")
+strategy.entry("Long", strategy.long, when = bar_index == 2)
+plot(strategy.position_size, "Size")`,
+      bars([10, 11, 12, 13, 14]),
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.bars.map((bar) => bar.plots.Size)).toEqual([0, 0, 0, 1, 1]);
+    expect(result.strategy?.openTrades).toHaveLength(1);
+  });
+
+  it('should report the backtest of a strategy', () => {
+    const result = runScript(
+      `strategy("Report", commission_type=strategy.commission.cash_per_order, commission_value=1)
+if bar_index == 0
+    strategy.entry("Long", strategy.long, qty=2)
+if bar_index == 2
+    strategy.close("Long")
+plot(strategy.closedtrades, "Closed")
+plot(strategy.netprofit, "Net")`,
+      bars([10, 11, 12, 13]),
+    );
+
+    // In at 10, out at the open of 12, paying 1 each way.
+    expect(result.bars.map((bar) => bar.plots)).toEqual([
+      { Closed: 0, Net: 0 },
+      { Closed: 0, Net: 0 },
+      { Closed: 0, Net: 0 },
+      { Closed: 1, Net: 2 },
+    ]);
+    expect(result.strategy).toMatchObject({
+      netProfit: 2,
+      commissionPaid: 2,
+      closedTradeCount: 1,
+      winningTrades: 1,
+    });
+    expect(result.strategy?.equity).toHaveLength(4);
+    expect(runScript(SOURCE, bars([10])).strategy).toBeUndefined();
+  });
+
+  it('should keep running after a bar throws, without logging it', () => {
+    const consoleError = spyOn(console, 'error');
+    const result = runScript(
+      `indicator("Boom")
+if bar_index == 1
+    runtime.error("bad bar")
+plot(close, "Close")`,
+      bars([10, 11, 12]),
+    );
+
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].barIndex).toBe(1);
+    expect(result.errors[0].message).toContain('bad bar');
+    expect(result.bars.map((bar) => bar.plots.Close)).toEqual([
+      10,
+      Number.NaN,
+      12,
+    ]);
+  });
+
+  it('should fail on scripts that do not transpile', () => {
+    const result = runScript(
+      'import alice/Geo/1 as Geo\nplot(Geo.f())',
+      bars([1]),
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe(
+      "Cannot import 'alice/Geo/1': no library resolver was provided.",
+    );
+  });
+});
+
+describe('formatRunOutput', () => {
+  const result = runScript(
+    `indicator("Out")
+plot(close > 10 ? close : na, "Price, filtered")`,
+    bars([10, 11]),
+  );
+
+  it('should write CSV with a column per plot', () => {
+    expect(formatRunOutput(result, 'csv')).toBe(
+      `time,bar_index,"Price, filtered",events
+2024-01-02T14:30:00.000Z,0,,"[{""call"":""Std.plot"",""args"":[null,""Price, filtered""],""barIndex"":0,""style"":null}]"
+2024-01-02T14:31:00.000Z,1,11,"[{""call"":""Std.plot"",""args"":[11,""Price, filtered""],""barIndex"":1,""style"":null}]"
+`,
+    );
+  });
+
+  it('should write JSON and NDJSON with null for na', () => {
+    const json = JSON.parse(formatRunOutput(result, 'json'));
+    const lines = formatRunOutput(result, 'ndjson').trimEnd().split('\n');
+
+    expect(json.plots).toEqual(['Price, filtered']);
+    expect(json.bars[0].plots).toEqual({ 'Price, filtered': null });
+    expect(json.errors).toEqual([]);
+    expect(lines.map((line) => JSON.parse(line))).toEqual(json.bars);
+    expect(json.strategy).toBeUndefined();
+    expect(json.bars[1]).toMatchObject({
+      time: '2024-01-02T14:31:00.000Z',
+      bar_index: 1,
+      plots: { 'Price, filtered': 11 },
+      logs: [],
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Alert Runtime Tests
+ *
+ * Drives `createAlertRuntime` the way the factory does: `beginBar`
+ * opens an execution of a bar, the script calls `alert()` and
+ * `alertcondition()`, and the returned array holds what fired.
+ * Realtime bars execute several times before they are confirmed.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { createAlertRuntime } from '../../src';
+
+describe('alert runtime', () => {
+  it('should fire once per bar by default, across re-executions', () => {
+    const runtime = createAlertRuntime();
+    const { alert } = runtime;
+
+    const first = runtime.beginBar(5, false);
+    alert('a');
+    alert('b', alert.freq_once_per_bar);
+    const again = runtime.beginBar(5, false);
+    alert('a');
+    const next = runtime.beginBar(6, true);
+    alert('c');
+
+    expect(first).toEqual([
+      { kind: 'alert', message: 'a', frequency: 'once_per_bar', barIndex: 5 },
+    ]);
+    expect(again).toEqual([]);
+    expect(next.map((event) => event.message)).toEqual(['c']);
+  });
+
+  it('should fire freq_all on every call', () => {
+    const runtime = createAlertRuntime();
+    const { alert } = runtime;
+
+    const first = runtime.beginBar(0, false);
+    alert('x', alert.freq_all);
+    alert('y', alert.freq_all);
+    const again = runtime.beginBar(0, false);
+    alert('x', alert.freq_all);
+
+    expect(first.map((event) => event.message)).toEqual(['x', 'y']);
+    expect(again.map((event) => event.frequency)).toEqual(['all']);
+  });
+
+  it('should fire freq_once_per_bar_close only on the confirmed bar', () => {
+    const runtime = createAlertRuntime();
+    const { alert } = runtime;
+    const fired: number[] = [];
+
+    for (const confirmed of [false, false, true]) {
+      const events = runtime.beginBar(3, confirmed);
+      alert('close', alert.freq_once_per_bar_close);
+      alert('close again', alert.freq_once_per_bar_close);
+      fired.push(events.length);
+    }
+
+    expect(fired).toEqual([0, 0, 1]);
+  });
+
+  it('should fire an alertcondition once per bar while it holds', () => {
+    const runtime = createAlertRuntime();
+    const seen = [true, false, Number.NaN, 1, 0].map((condition, bar) => {
+      const events = runtime.beginBar(bar, true);
+      runtime.alertcondition(condition, 'Up', 'went up');
+      runtime.alertcondition(condition, 'Up', 'went up');
+      return events.length;
+    });
+
+    expect(seen).toEqual([1, 0, 0, 1, 0]);
+  });
+
+  it('should report na messages as empty text', () => {
+    const runtime = createAlertRuntime();
+    const events = runtime.beginBar(0, true);
+
+    runtime.alert(Number.NaN, 'all');
+    runtime.alertcondition(true, undefined, null);
+
+    expect(events).toEqual([
+      { kind: 'alert', message: '', frequency: 'all', barIndex: 0 },
+      {
+        kind: 'alertcondition',
+        message: '',
+        frequency: 'once_per_bar',
+        title: '',
+        barIndex: 0,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Color Runtime Tests
+ *
+ * The Pine `color` namespace from `createColorNamespace`, and the
+ * normalization the visual event styles read colors with.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  colorTransparency,
+  createColorNamespace,
+  normalizeColor,
+} from '../../src/runtime';
+
+describe('color runtime', () => {
+  const color = createColorNamespace();
+
+  it('should build colors in the normalized form', () => {
+    expect(color.rgb(255, 0, 0)).toBe('#FF0000');
+    expect(color.rgb(300, -5, 12.4, 50)).toBe('rgba(255, 0, 12, 0.5)');
+    expect(color.new(color.blue, 85)).toBe('rgba(41, 98, 255, 0.15)');
+    expect(color.new('#FF000080', 0)).toBe('#FF0000');
+    expect(color('#abc')).toBe('#abc');
+  });
+
+  it('should read channels and transparency, with alpha in hex', () => {
+    expect(color.r('#FF000080')).toBe(255);
+    expect(color.g('rgba(1, 2, 3, 0.5)')).toBe(2);
+    expect(color.b(color.blue)).toBe(255);
+    expect(color.t('#FF000080')).toBe(49.8);
+    expect(color.t(color.new(color.red, 30))).toBe(30);
+    expect(color.t(color.red)).toBe(0);
+  });
+
+  it('should interpolate channels and transparency along a gradient', () => {
+    const bottom = '#000000';
+    const top = color.new('#FF8000', 50);
+
+    expect(color.from_gradient(0, 0, 10, bottom, top)).toBe('#000000');
+    expect(color.from_gradient(5, 0, 10, bottom, top)).toBe(
+      'rgba(128, 64, 0, 0.75)',
+    );
+    expect(color.from_gradient(25, 0, 10, bottom, top)).toBe(
+      'rgba(255, 128, 0, 0.5)',
+    );
+    expect(color.from_gradient(-3, 0, 10, bottom, top)).toBe('#000000');
+    expect(color.from_gradient(4, 4, 4, bottom, '#FFFFFF')).toBe('#FFFFFF');
+  });
+
+  it('should return na for na inputs', () => {
+    expect(color.rgb(Number.NaN, 0, 0)).toBeNaN();
+    expect(color.new(Number.NaN, 50)).toBeNaN();
+    expect(color.r(Number.NaN)).toBeNaN();
+    expect(color.t(Number.NaN)).toBeNaN();
+    expect(color.from_gradient(Number.NaN, 0, 1, '#000', '#FFF')).toBeNaN();
+    expect(color.from_gradient(0.5, 0, 1, Number.NaN, '#FFF')).toBeNaN();
+  });
+
+  it('should normalize colors for visual styles', () => {
+    expect(normalizeColor('#2962ff')).toBe('#2962FF');
+    expect(normalizeColor('rgba(0, 0, 0, 1)')).toBe('#000000');
+    expect(normalizeColor('rgb(1,2,3)')).toBe('#010203');
+    expect(normalizeColor('#FF000080')).toBe('rgba(255, 0, 0, 0.502)');
+    expect(normalizeColor('red')).toBeNull();
+    expect(normalizeColor(Number.NaN)).toBeNull();
+    expect(colorTransparency('rgba(41, 98, 255, 0.15)')).toBe(85);
+    expect(colorTransparency('#2962FF')).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'bun:test';
 import { DRAWING_REGISTRY } from '../../../src/registry';
 import {
+  createChartPointNamespace,
   createDrawingNamespace,
   createDrawingRuntime,
   type DrawingEventSink,
@@ -256,6 +257,81 @@ describe('createDrawingNamespace', () => {
     expect(events[2]?.args).toEqual([]);
   });
 
+  it('polyline snapshots its points and emits them resolved on its xloc', () => {
+    const { events, sink } = createCollector(15);
+    const polyline = createDrawingNamespace(DRAWING_REGISTRY.polyline, sink);
+    const chartPoint = createChartPointNamespace();
+    const points = [
+      chartPoint.new(1_000, 3, 10),
+      chartPoint.from_index(4, 11),
+      { note: 'not a point' },
+    ];
+
+    const byIndex = polyline.new(points, true) as DrawingHandle;
+    const byTime = polyline.new(
+      points,
+      false,
+      true,
+      'bar_time',
+    ) as DrawingHandle;
+    points[0]!.price = 99;
+
+    expect(byIndex.points).toEqual([
+      { time: 1_000, index: 3, price: 10 },
+      { time: Number.NaN, index: 4, price: 11 },
+    ]);
+    expect(events[0]).toEqual({
+      call: 'polyline.new',
+      args: [
+        [
+          { x: 3, y: 10 },
+          { x: 4, y: 11 },
+        ],
+        true,
+      ],
+      barIndex: 15,
+      pineHandleId: 1,
+    });
+    expect(events[1]?.args).toEqual([
+      [
+        { x: 1_000, y: 10 },
+        { x: Number.NaN, y: 11 },
+      ],
+      false,
+      true,
+      'bar_time',
+    ]);
+
+    polyline.delete(byTime);
+    expect(byTime.__deleted).toBe(true);
+    expect(events[2]).toEqual({
+      call: 'polyline.delete',
+      args: [],
+      barIndex: 15,
+      pineHandleId: 2,
+    });
+  });
+
+  it('chart.point reads the current bar and copies points', () => {
+    const chartPoint = createChartPointNamespace();
+    chartPoint.__setBar(42, 5_000);
+
+    const now = chartPoint.now(7);
+    const copied = now.copy();
+    const fromNamespace = chartPoint.copy(now);
+    copied.price = 8;
+
+    expect(now).toEqual({ time: 5_000, index: 42, price: 7 });
+    expect(fromNamespace).toEqual({ time: 5_000, index: 42, price: 7 });
+    expect(copied.price).toBe(8);
+    expect(chartPoint.from_time(6_000, 1)).toEqual({
+      time: 6_000,
+      index: Number.NaN,
+      price: 1,
+    });
+    expect(chartPoint.copy(Number.NaN)).toBeUndefined();
+  });
+
   it('table keeps dense cell slots, supports region clears, and shares its handle methods', () => {
     const { events, sink } = createCollector(11);
     const table = createDrawingNamespace(DRAWING_REGISTRY.table, sink);
@@ -378,7 +454,9 @@ describe('createDrawingRuntime', () => {
       'box',
       'label',
       'linefill',
+      'polyline',
       'table',
+      'chartPoint',
     ]);
 
     const aLine = runtimeA.line.new(1, 2, 3, 4) as DrawingHandle;
@@ -1,13 +1,23 @@
 import { describe, expect, it } from 'bun:test';
-import { buildStandaloneDrawingBundle } from '../../../scripts/build-drawing-bundle';
-import { STANDALONE_DRAWING_BUNDLE } from '../../../src/runtime/drawing/standalone-bundle.generated';
-import { STANDALONE_DRAWING_BUNDLE_GLOBAL } from '../../../src/runtime/drawing/standalone-bundle.constants';
+import {
+  buildStandaloneColorBundle,
+  buildStandaloneDrawingBundle,
+  buildStandaloneSecurityBundle,
+  buildStandaloneStringBundle,
+} from '../../../scripts/build-drawing-bundle';
 import type {
   DrawingEventSink,
   DrawingHandle,
   DrawingRuntime,
   DrawingVisualEvent,
 } from '../../../src/runtime/drawing';
+import { STANDALONE_DRAWING_BUNDLE_GLOBAL } from '../../../src/runtime/drawing/standalone-bundle.constants';
+import {
+  STANDALONE_COLOR_BUNDLE,
+  STANDALONE_DRAWING_BUNDLE,
+  STANDALONE_SECURITY_BUNDLE,
+  STANDALONE_STRING_BUNDLE,
+} from '../../../src/runtime/drawing/standalone-bundle.generated';
 
 interface StandaloneDrawingBundleApi {
   createDrawingRuntime: (sink: DrawingEventSink) => DrawingRuntime;
@@ -73,11 +83,8 @@ describe('STANDALONE_DRAWING_BUNDLE', () => {
   });
 
   it('evaluates standalone, exposes aliases, and emits drawing events', () => {
-    const {
-      bundleApi,
-      createDrawingRuntime,
-      createDrawingStubNamespaces,
-    } = evaluateStandaloneDrawingBundle(STANDALONE_DRAWING_BUNDLE);
+    const { bundleApi, createDrawingRuntime, createDrawingStubNamespaces } =
+      evaluateStandaloneDrawingBundle(STANDALONE_DRAWING_BUNDLE);
 
     expect(bundleApi).toBeDefined();
     expect(bundleApi?.createDrawingRuntime).toBe(createDrawingRuntime);
@@ -169,4 +176,46 @@ describe('STANDALONE_DRAWING_BUNDLE', () => {
     ]);
     expect(events.every((event) => event.barIndex === 33)).toBe(true);
   });
+
+  it('ships the color runtime scoped behind its aliases', () => {
+    expect(buildStandaloneColorBundle()).toBe(STANDALONE_COLOR_BUNDLE);
+    expect(STANDALONE_COLOR_BUNDLE).not.toMatch(/\bexport\s/);
+
+    const color = new Function(
+      `const parse = 'declared by the host module';
+${STANDALONE_COLOR_BUNDLE}
+return __createColorNamespace();`,
+    )() as { from_gradient: (...args: unknown[]) => unknown };
+
+    expect(color.from_gradient(5, 0, 10, '#000000', '#FFFFFF')).toBe('#808080');
+  });
+
+  it('ships the string runtime scoped behind its aliases', () => {
+    expect(buildStandaloneStringBundle()).toBe(STANDALONE_STRING_BUNDLE);
+    expect(STANDALONE_STRING_BUNDLE).not.toMatch(/\bexport\s/);
+
+    const { str, format } = new Function(
+      `const formatNumber = 'declared by the host module';
+${STANDALONE_STRING_BUNDLE}
+return {
+  str: __createStrNamespace(() => ({ mintick: 0.01 })),
+  format: __PINE_FORMAT,
+};`,
+    )() as {
+      str: { tostring: (value: unknown, format?: unknown) => string };
+      format: { mintick: string };
+    };
+
+    expect(str.tostring(1.005, format.mintick)).toBe('1.01');
+  });
+
+  it('ships the security runtime scoped behind its alias', () => {
+    expect(buildStandaloneSecurityBundle()).toBe(STANDALONE_SECURITY_BUNDLE);
+    expect(STANDALONE_SECURITY_BUNDLE).not.toMatch(/\bexport\s/);
+    expect(
+      typeof new Function(
+        `${STANDALONE_SECURITY_BUNDLE}\nreturn __createSecurityRequest;`,
+      )(),
+    ).toBe('function');
+  });
 });
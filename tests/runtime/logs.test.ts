@@ -0,0 +1,43 @@
+/**
+ * Log Runtime Tests
+ *
+ * Drives `createLogRuntime` the way the factory does: `beginBar` opens
+ * an execution of a bar and the returned array collects the records
+ * of the `log.*` calls made during it.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { createLogRuntime } from '../../src';
+
+describe('log runtime', () => {
+  it('should record level, message, bar index and time', () => {
+    const runtime = createLogRuntime();
+    const first = runtime.beginBar(0, 1_000);
+    runtime.log.info('started');
+    runtime.log.warning('careful');
+    const second = runtime.beginBar(1, Number.NaN);
+    runtime.log.error('failed');
+
+    expect(first).toEqual([
+      { level: 'info', message: 'started', barIndex: 0, time: 1_000 },
+      { level: 'warning', message: 'careful', barIndex: 0, time: 1_000 },
+    ]);
+    expect(second).toEqual([
+      { level: 'error', message: 'failed', barIndex: 1, time: Number.NaN },
+    ]);
+  });
+
+  it('should format the message only when arguments follow it', () => {
+    const runtime = createLogRuntime();
+    const records = runtime.beginBar(0, 0);
+    runtime.log.info('{0} + {1} = {2}', 1, 2.5, Number.NaN);
+    runtime.log.info('missing {1}', 'a');
+    runtime.log.info('as is {0}');
+
+    expect(records.map((record) => record.message)).toEqual([
+      '1 + 2.5 = NaN',
+      'missing {1}',
+      'as is {0}',
+    ]);
+  });
+});
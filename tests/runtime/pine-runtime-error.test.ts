@@ -0,0 +1,154 @@
+/**
+ * Pine Runtime Error Tests
+ *
+ * Tests for the structured errors both factory paths raise when a
+ * script fails mid-run: code classification, the Pine position and
+ * call stack recovered from the JS stack, and the bar index.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  isPineRuntimeError,
+  PineRuntimeError,
+  RuntimeErrorCode,
+  transpileToPineJS,
+  transpileToStandaloneFactory,
+} from '../../src/index';
+import { toPineRuntimeError } from '../../src/runtime';
+import { createMockRuntime } from '../corpus/mock-runtime';
+import { loadCreateIndicator } from '../regression/standalone-test-utils';
+
+const RUNTIME_ERROR_SOURCE = [
+  '//@version=5',
+  'indicator("Errors")',
+  'f(x) =>',
+  '    y = x * 2',
+  '    if bar_index == 3',
+  '        runtime.error("bad value " + str.tostring(y))',
+  '    y',
+  'g(v) => f(v) + 1',
+  'z = g(2)',
+  'plot(z)',
+].join('\n');
+
+const LOOP_SOURCE = [
+  '//@version=5',
+  'indicator("Loop")',
+  'i = 0',
+  'while true',
+  '    i += 1',
+  'plot(i)',
+].join('\n');
+
+type Main = (context: unknown, inputCallback: () => number) => unknown;
+
+function instantiate(descriptor: unknown): Main {
+  const ctor = (descriptor as { constructor: new () => { main: Main } })
+    .constructor;
+  return new ctor().main;
+}
+
+/** First error the live factory reports via `__caughtError`. */
+function firstLiveError(source: string, barCount: number): unknown {
+  const result = transpileToPineJS(source, 'runtime-errors');
+  expect(result.success).toBe(true);
+  const runtime = createMockRuntime({ barCount });
+  const main = instantiate(result.indicatorFactory?.(runtime.pineJs));
+  const originalConsoleError = console.error;
+  console.error = () => undefined;
+  try {
+    for (let bar = 0; bar < barCount; bar++) {
+      const output = main(runtime.context, () => 14) as {
+        __caughtError?: unknown;
+      };
+      if (output.__caughtError) return output.__caughtError;
+      runtime.advanceBar();
+    }
+  } finally {
+    console.error = originalConsoleError;
+  }
+  return undefined;
+}
+
+/** First error the standalone module's `main()` throws. */
+function firstStandaloneError(source: string, barCount: number): unknown {
+  const result = transpileToStandaloneFactory(source, 'runtime-errors');
+  expect(result.success).toBe(true);
+  const runtime = createMockRuntime({ barCount });
+  const createIndicator = loadCreateIndicator(result.factoryCode ?? '');
+  const main = instantiate(createIndicator(runtime.pineJs));
+  for (let bar = 0; bar < barCount; bar++) {
+    try {
+      main(runtime.context, () => 14);
+    } catch (error) {
+      return error;
+    }
+    runtime.advanceBar();
+  }
+  return undefined;
+}
+
+describe('PineRuntimeError', () => {
+  describe('transpileToPineJS', () => {
+    it('reports runtime.error with line, bar and Pine call stack', () => {
+      const error = firstLiveError(RUNTIME_ERROR_SOURCE, 6);
+      expect(error).toBeInstanceOf(PineRuntimeError);
+      const runtimeError = error as PineRuntimeError;
+      expect(runtimeError.message).toBe('line 6, bar 3: bad value 4');
+      expect(runtimeError.code).toBe(RuntimeErrorCode.RuntimeError);
+      expect(runtimeError.barIndex).toBe(3);
+      expect(runtimeError.line).toBe(6);
+      expect(runtimeError.pineStack).toEqual([
+        { function: 'f', line: 6, column: 9 },
+        { function: 'g', line: 8, column: 9 },
+        { line: 9, column: 1 },
+      ]);
+      expect(runtimeError.cause).toBeInstanceOf(Error);
+    });
+
+    it('classifies the loop-iteration guard', () => {
+      const error = firstLiveError(LOOP_SOURCE, 1);
+      expect(isPineRuntimeError(error)).toBe(true);
+      expect(error).toMatchObject({
+        code: RuntimeErrorCode.LoopLimitExceeded,
+        barIndex: 0,
+        line: 4,
+      });
+    });
+  });
+
+  describe('transpileToStandaloneFactory', () => {
+    it('throws the same error the live factory reports', () => {
+      const live = firstLiveError(RUNTIME_ERROR_SOURCE, 6) as PineRuntimeError;
+      const standalone = firstStandaloneError(RUNTIME_ERROR_SOURCE, 6);
+      // The module defines its own class, so only the shape matches.
+      expect(standalone).not.toBeInstanceOf(PineRuntimeError);
+      expect(isPineRuntimeError(standalone)).toBe(true);
+      expect(standalone).toMatchObject({
+        message: live.message,
+        code: live.code,
+        barIndex: live.barIndex,
+        pineStack: live.pineStack,
+      });
+    });
+
+    it('classifies the loop-iteration guard', () => {
+      expect(firstStandaloneError(LOOP_SOURCE, 1)).toMatchObject({
+        message: 'line 4, bar 0: Loop limit exceeded (max 10000 iterations)',
+        code: RuntimeErrorCode.LoopLimitExceeded,
+      });
+    });
+  });
+
+  describe('toPineRuntimeError', () => {
+    it('keeps the JS error name for unclassified errors', () => {
+      const cause = new TypeError('x is not a function');
+      const error = toPineRuntimeError(cause, 12);
+      expect(error.code).toBe(RuntimeErrorCode.ScriptError);
+      expect(error.message).toBe('bar 12: TypeError: x is not a function');
+      expect(error.pineStack).toEqual([]);
+      expect(error.cause).toBe(cause);
+      expect(toPineRuntimeError(error, 13)).toBe(error);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Reference Std Tests
+ *
+ * Pins `createStd` against hand-computed values: each test replays a
+ * few bars through a minimal `new_var` context, calling Std the way
+ * transpiled code does, with the context last.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  createStd,
+  type PineJSStdLibrary,
+  type RuntimeContext,
+  type StdBar,
+} from '../../src';
+
+class Series {
+  values: number[] = [];
+
+  get(offset: number): number {
+    return this.values[this.values.length - 1 - offset] ?? Number.NaN;
+  }
+
+  set(value: number): void {
+    this.values[this.values.length - 1] = value;
+  }
+}
+
+const START = Date.UTC(2024, 0, 2, 14, 0);
+const HOUR = 3_600_000;
+
+function barsOf(closes: number[], spread = 1): StdBar[] {
+  return closes.map((close, i) => ({
+    time: START + i * HOUR,
+    open: close,
+    high: close + spread,
+    low: close - spread,
+    close,
+    volume: 10,
+  }));
+}
+
+/** Run `step` on every bar and collect what it returns. */
+function replay<T>(
+  bars: StdBar[],
+  step: (Std: PineJSStdLibrary, ctx: RuntimeContext) => T,
+): T[] {
+  const slots: Series[] = [];
+  let slot = 0;
+  let pointer = 0;
+  const ctx: RuntimeContext = {
+    symbol: { tickerid: 'TEST:ABC', currency: 'EUR' },
+    new_var: (value: unknown) => {
+      slots[slot] ??= new Series();
+      const series = slots[slot++];
+      series.values.push(Number(value));
+      return series;
+    },
+  };
+  const Std = createStd({
+    bar: (offset = 0) => bars[pointer - offset],
+    index: () => pointer,
+    barDuration: () => HOUR,
+  });
+  const results: T[] = [];
+  for (pointer = 0; pointer < bars.length; pointer++) {
+    slot = 0;
+    results.push(step(Std, ctx));
+  }
+  return results;
+}
+
+/** `close` as a series, the way transpiled code passes it. */
+function closeOf(Std: PineJSStdLibrary, ctx: RuntimeContext) {
+  return ctx.new_var(Std.close(ctx));
+}
+
+describe('moving averages', () => {
+  const bars = barsOf([1, 2, 3, 4, 5]);
+
+  it('computes sma and wma over full windows only', () => {
+    expect(
+      replay(bars, (Std, ctx) => Std.sma(closeOf(Std, ctx), 3, ctx)),
+    ).toEqual([Number.NaN, Number.NaN, 2, 3, 4]);
+    expect(
+      replay(bars, (Std, ctx) => Std.wma(closeOf(Std, ctx), 2, ctx)),
+    ).toEqual([Number.NaN, 5 / 3, 8 / 3, 11 / 3, 14 / 3]);
+  });
+
+  it('seeds ema and rma with the first sma', () => {
+    expect(
+      replay(bars, (Std, ctx) => Std.ema(closeOf(Std, ctx), 3, ctx)),
+    ).toEqual([Number.NaN, Number.NaN, 2, 3, 4]);
+    expect(
+      replay(bars.slice(0, 3), (Std, ctx) =>
+        Std.rma(closeOf(Std, ctx), 2, ctx),
+      ),
+    ).toEqual([Number.NaN, 1.5, 2.25]);
+  });
+
+  it('accepts plain values where a series is expected', () => {
+    expect(replay(bars, (Std, ctx) => Std.sma(Std.close(ctx), 2, ctx))).toEqual(
+      [Number.NaN, 1.5, 2.5, 3.5, 4.5],
+    );
+  });
+});
+
+describe('oscillators', () => {
+  it('computes rsi with Wilder smoothing', () => {
+    expect(
+      replay(barsOf([1, 2, 3, 2]), (Std, ctx) =>
+        Std.rsi(closeOf(Std, ctx), 2, ctx),
+      ),
+    ).toEqual([Number.NaN, Number.NaN, 100, 50]);
+  });
+
+  it('computes macd as [macd, signal, histogram]', () => {
+    const [last] = replay(barsOf([1, 2, 3, 4, 5]), (Std, ctx) =>
+      Std.macd(closeOf(Std, ctx), 2, 3, 2, ctx),
+    ).slice(-1);
+
+    // Both EMAs trail a linear series by (length - 1) / 2 bars.
+    expect(last[0]).toBeCloseTo(0.5);
+    expect(last[1]).toBeCloseTo(0.5);
+    expect(last[2]).toBeCloseTo(0);
+  });
+
+  it('computes change, roc and stoch', () => {
+    const [change, roc, stoch] = replay(barsOf([10, 12, 15]), (Std, ctx) => {
+      const close = closeOf(Std, ctx);
+      return [
+        Std.change(close),
+        Std.roc(close, 2, ctx),
+        Std.stoch(Std.close(ctx), Std.high(ctx), Std.low(ctx), 3, ctx),
+      ];
+    }).pop() as number[];
+
+    expect(change).toBe(3);
+    expect(roc).toBe(50);
+    expect(stoch).toBe((100 * (15 - 9)) / (16 - 9));
+  });
+});
+
+describe('volatility', () => {
+  it('computes population and sample stdev', () => {
+    const closes = [2, 4, 4, 4, 5, 5, 7, 9];
+    const [population, sample] = replay(barsOf(closes), (Std, ctx) => {
+      const close = closeOf(Std, ctx);
+      return [Std.stdev(close, 8, ctx), Std.stdev(close, 8, false, ctx)];
+    }).pop() as number[];
+
+    expect(population).toBe(2);
+    expect(sample).toBeCloseTo(Math.sqrt(32 / 7));
+  });
+
+  it('computes the true range and its rma', () => {
+    const bars: StdBar[] = [
+      { time: START, open: 10, high: 11, low: 9, close: 10, volume: 1 },
+      { time: START + HOUR, open: 10, high: 14, low: 12, close: 13, volume: 1 },
+      {
+        time: START + 2 * HOUR,
+        open: 13,
+        high: 13,
+        low: 12,
+        close: 12,
+        volume: 1,
+      },
+    ];
+
+    expect(replay(bars, (Std, ctx) => Std.tr(ctx))).toEqual([Number.NaN, 4, 1]);
+    expect(replay(bars, (Std, ctx) => Std.tr(true, ctx))).toEqual([2, 4, 1]);
+    expect(replay(bars, (Std, ctx) => Std.atr(2, ctx))).toEqual([
+      Number.NaN,
+      3,
+      2,
+    ]);
+  });
+});
+
+describe('extremes and pivots', () => {
+  const highs = [1, 3, 2, 5, 4, 4];
+  const bars = barsOf(highs, 0);
+
+  it('finds the highest value and its offset', () => {
+    const results = replay(bars, (Std, ctx) => {
+      const close = closeOf(Std, ctx);
+      return [Std.highest(close, 3, ctx), Std.highestbars(close, 3, ctx)];
+    });
+
+    expect(results[3]).toEqual([5, -0]);
+    expect(results[5]).toEqual([5, -2]);
+  });
+
+  it('reports a pivot once the right bars have closed', () => {
+    expect(
+      replay(bars, (Std, ctx) => Std.pivothigh(closeOf(Std, ctx), 1, 1, ctx)),
+    ).toEqual([Number.NaN, Number.NaN, 3, Number.NaN, 5, Number.NaN]);
+    expect(replay(bars, (Std, ctx) => Std.pivotlow(1, 1, ctx))).toEqual([
+      Number.NaN,
+      Number.NaN,
+      Number.NaN,
+      2,
+      Number.NaN,
+      4,
+    ]);
+  });
+});
+
+describe('conditions', () => {
+  const bars = barsOf([1, 3, 2, 4, 1]);
+
+  it('detects crosses of a series and a level', () => {
+    expect(
+      replay(bars, (Std, ctx) => [
+        Std.crossover(Std.close(ctx), 2.5, ctx),
+        Std.crossunder(Std.close(ctx), 2.5, ctx),
+      ]),
+    ).toEqual([
+      [false, false],
+      [true, false],
+      [false, true],
+      [true, false],
+      [false, true],
+    ]);
+  });
+
+  it('counts bars since and looks back to past occurrences', () => {
+    const results = replay(bars, (Std, ctx) => {
+      const up = Std.close(ctx) > 2;
+      return [
+        Std.barssince(up, ctx),
+        Std.valuewhen(up, Std.close(ctx), 0, ctx),
+        Std.valuewhen(up, Std.close(ctx), 1, ctx),
+      ];
+    });
+
+    expect(results.map((r) => r[0])).toEqual([Number.NaN, 0, 1, 0, 1]);
+    expect(results.map((r) => r[1])).toEqual([Number.NaN, 3, 3, 4, 4]);
+    expect(results.map((r) => r[2])).toEqual([
+      Number.NaN,
+      Number.NaN,
+      Number.NaN,
+      3,
+      3,
+    ]);
+  });
+
+  it('keeps a running total with cum', () => {
+    expect(replay(bars, (Std, ctx) => Std.cum(Std.close(ctx), ctx))).toEqual([
+      1, 4, 6, 10, 11,
+    ]);
+  });
+});
+
+describe('trend', () => {
+  it('flips supertrend direction when price crosses the band', () => {
+    const closes = [10, 11, 12, 13, 14, 15, 9, 8, 7, 6];
+    const directions = replay(
+      barsOf(closes),
+      (Std, ctx) => (Std.supertrend(1, 2, ctx) as [number, number])[1],
+    );
+
+    // Down (1) until the close clears the upper band, up (-1) until it
+    // drops through the lower one.
+    expect(directions).toEqual([1, 1, 1, 1, -1, -1, 1, 1, 1, 1]);
+  });
+
+  it('starts sar below a rising market', () => {
+    const values = replay(barsOf([10, 11, 12, 13]), (Std, ctx) =>
+      Std.sar(0.02, 0.02, 0.2, ctx),
+    );
+
+    expect(values[0]).toBeNaN();
+    expect(values[1]).toBe(9);
+    expect(values.slice(1).every((v) => v < 12)).toBe(true);
+  });
+});
+
+describe('time', () => {
+  const std = createStd({
+    bar: () => undefined,
+    index: () => 0,
+    barDuration: () => HOUR,
+  });
+
+  it('reads calendar fields in UTC or a given timezone', () => {
+    expect(std.hour(START)).toBe(14);
+    expect(std.hour(START, 'UTC+2')).toBe(16);
+    expect(std.hour(START, 'GMT-05:30')).toBe(8);
+    expect(std.hour(START, 'America/New_York')).toBe(9);
+    expect(std.dayofweek(START)).toBe(3);
+    expect(std.weekofyear(Date.UTC(2021, 0, 1))).toBe(53);
+  });
+
+  it('derives the timeframe from the bar duration', () => {
+    const daily = createStd({
+      bar: () => undefined,
+      index: () => 0,
+      barDuration: () => 24 * HOUR,
+    });
+    const ctx = {} as RuntimeContext;
+
+    expect([std.period(ctx), std.interval(ctx), std.isintraday(ctx)]).toEqual([
+      '60',
+      60,
+      true,
+    ]);
+    expect([daily.period(ctx), daily.isdaily(ctx), daily.isdwm(ctx)]).toEqual([
+      'D',
+      true,
+      true,
+    ]);
+  });
+});
+
+describe('calling convention', () => {
+  it('requires the context as the last argument of stateful functions', () => {
+    expect(() =>
+      replay(barsOf([1]), (Std) => Std.ema(1, 3, undefined as never)),
+    ).toThrow('Std.ema: the context must be the last argument');
+  });
+});
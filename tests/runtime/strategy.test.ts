@@ -0,0 +1,408 @@
+/**
+ * Strategy Runtime Tests
+ *
+ * Drives `createStrategyRuntime` the way the factory does: `beginBar`
+ * fills what earlier bars placed, the script step places new orders,
+ * then `endBar`. Each test records the position the script sees, or
+ * the trades and figures of the backtest.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import {
+  createStrategyRuntime,
+  type StrategyBar,
+  type StrategyNamespace,
+} from '../../src';
+
+type Strategy = StrategyNamespace & {
+  entry: (...args: unknown[]) => void;
+  order: (...args: unknown[]) => void;
+  exit: (...args: unknown[]) => void;
+  close: (...args: unknown[]) => void;
+  close_all: (...args: unknown[]) => void;
+  cancel: (...args: unknown[]) => void;
+  position_size: number;
+  position_avg_price: number;
+  closedtrades: Record<string, (index: number) => unknown> & {
+    count: number;
+  };
+  opentrades: Record<string, (index: number) => unknown> & { count: number };
+  [figure: string]: unknown;
+};
+
+const NA = Number.NaN;
+
+/** Bars of `[open, high, low, close]`. */
+function barsOf(
+  prices: Array<[number, number, number, number]>,
+): StrategyBar[] {
+  return prices.map(([open, high, low, close], i) => ({
+    time: i * 60_000,
+    open,
+    high,
+    low,
+    close,
+  }));
+}
+
+/** Run `step` on every bar and collect `[position_size, position_avg_price]`. */
+function replay(
+  bars: StrategyBar[],
+  step: (strategy: Strategy, index: number) => void,
+  mintick = 0.01,
+): Array<[number, number]> {
+  const runtime = createStrategyRuntime();
+  const strategy = runtime.namespace as Strategy;
+  return bars.map((bar, index) => {
+    runtime.beginBar(bar, index, mintick);
+    step(strategy, index);
+    runtime.endBar();
+    return [strategy.position_size, strategy.position_avg_price];
+  });
+}
+
+/** Declare a strategy with `slippage` ticks and a commission. */
+function declare(
+  strategy: Strategy,
+  slippage: number,
+  commissionType: string,
+  commissionValue: number,
+) {
+  strategy(
+    'S',
+    ...Array.from({ length: 14 }, () => NA),
+    slippage,
+    commissionType,
+    commissionValue,
+  );
+}
+
+const FLAT = barsOf([
+  [10, 11, 9, 10],
+  [12, 13, 11, 12],
+  [14, 15, 13, 14],
+  [16, 17, 15, 16],
+]);
+
+describe('entries', () => {
+  it('fills market orders at the next open', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) strategy.entry('L', strategy.long, 2);
+      }),
+    ).toEqual([
+      [0, NA],
+      [2, 12],
+      [2, 12],
+      [2, 12],
+    ]);
+  });
+
+  it('fills limit and stop orders at their price or at a gap', () => {
+    const bars = barsOf([
+      [10, 11, 9, 10],
+      [10, 10.5, 8, 9],
+      [7, 8, 6, 7],
+    ]);
+    const positions = (limit: number, stop: number) =>
+      replay(bars, (strategy, i) => {
+        if (i === 0) strategy.entry('L', strategy.long, 1, limit, stop);
+      }).map(([size, price]) => (size === 0 ? NA : price));
+
+    expect(positions(8.5, NA)).toEqual([NA, 8.5, 8.5]);
+    expect(positions(NA, 10.25)).toEqual([NA, 10.25, 10.25]);
+    // The stop is hit at 10.2 but the limit only at 7.5, on the next bar;
+    // 7 opens below it.
+    expect(positions(7.5, 10.2)).toEqual([NA, NA, 7]);
+  });
+
+  it('limits entries in one direction to the pyramiding setting', () => {
+    let pyramiding = 0;
+    const enterEveryBar = (strategy: Strategy, i: number) => {
+      if (i === 0) strategy('S', NA, true, NA, NA, NA, pyramiding);
+      strategy.entry('L', strategy.long, 1);
+    };
+    expect(replay(FLAT, enterEveryBar).map(([size]) => size)).toEqual([
+      0, 1, 1, 1,
+    ]);
+    pyramiding = 2;
+    expect(replay(FLAT, enterEveryBar)).toEqual([
+      [0, NA],
+      [1, 12],
+      [2, 13],
+      [2, 13],
+    ]);
+  });
+
+  it('reverses the position on an opposite entry', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) strategy.entry('L', strategy.long, 2);
+        if (i === 1) strategy.entry('S', strategy.short, 1);
+      }),
+    ).toEqual([
+      [0, NA],
+      [2, 12],
+      [-1, 14],
+      [-1, 14],
+    ]);
+  });
+
+  it('nets strategy.order against the open position', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) strategy.order('buy', strategy.long, 3);
+        if (i === 1) strategy.order('sell', strategy.short, 1);
+        if (i === 2) strategy.order('sell', strategy.short, 4);
+      }).map(([size]) => size),
+    ).toEqual([0, 3, 2, -2]);
+  });
+
+  it('sizes orders from the declaration defaults', () => {
+    const [, [size]] = replay(FLAT, (strategy, i) => {
+      if (i === 0) {
+        strategy(
+          'S',
+          NA,
+          true,
+          NA,
+          NA,
+          NA,
+          NA,
+          NA,
+          NA,
+          NA,
+          NA,
+          'percent_of_equity',
+          50,
+          2000,
+        );
+        strategy.entry('L', strategy.long);
+      }
+    });
+
+    // Half the equity at the placing bar's close.
+    expect(size).toBe(100);
+  });
+});
+
+describe('exits', () => {
+  it('brackets the entry price with profit and loss in ticks', () => {
+    const bars = barsOf([
+      [10, 10, 10, 10],
+      [10, 10.5, 9.8, 10.2],
+      [10.2, 11.5, 10.1, 11],
+    ]);
+
+    expect(
+      replay(bars, (strategy, i) => {
+        if (i === 0) {
+          strategy.entry('L', strategy.long, 1);
+          // Placed before the entry fills, it waits for it.
+          strategy.exit('X', 'L', NA, NA, 100, NA, 50);
+        }
+      }).map(([size]) => size),
+    ).toEqual([0, 1, 0]);
+  });
+
+  it('exits part of the position with qty_percent', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) {
+          strategy.entry('L', strategy.long, 2);
+          strategy.exit('X', '', NA, 50, NA, 12.5);
+        }
+      }),
+    ).toEqual([
+      [0, NA],
+      [1, 12],
+      [1, 12],
+      [1, 12],
+    ]);
+  });
+
+  it('trails the stop behind the best price once activated', () => {
+    const bars = barsOf([
+      [10, 10, 10, 10],
+      [10, 10.5, 10, 10.5],
+      [10.5, 12, 10.5, 12],
+      [12, 12, 11.6, 11.8],
+      [11.8, 11.8, 11.4, 11.5],
+    ]);
+
+    // Activates 1 above the entry and trails 0.5 behind the high of 12.
+    expect(
+      replay(bars, (strategy, i) => {
+        if (i === 0) {
+          strategy.entry('L', strategy.long, 1);
+          strategy.exit('T', 'L', NA, NA, NA, NA, NA, NA, NA, 100, 50);
+        }
+      }).map(([size]) => size),
+    ).toEqual([0, 1, 1, 1, 0]);
+  });
+
+  it('closes by entry id, all at once or immediately', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) {
+          strategy.entry('A', strategy.long, 1);
+          strategy('S', NA, true, NA, NA, NA, 2);
+        }
+        if (i === 1) strategy.entry('B', strategy.long, 2);
+        if (i === 2) strategy.close('A');
+        if (i === 3) strategy.close_all(NA, NA, true);
+      }),
+    ).toEqual([
+      [0, NA],
+      [1, 12],
+      [3, 40 / 3],
+      [0, NA],
+    ]);
+  });
+});
+
+describe('order management', () => {
+  it('walks to the extreme nearer the open first', () => {
+    const firstFill = (bar: [number, number, number, number]) =>
+      replay(barsOf([[10, 10, 10, 10], bar]), (strategy, i) => {
+        if (i !== 0) return;
+        strategy.order('buy', strategy.long, 1, 9, NA, 'g', 'cancel');
+        strategy.order('sell', strategy.short, 2, 11, NA, 'g', 'cancel');
+      })[1][0];
+
+    expect(firstFill([10, 11.2, 8.5, 9])).toBe(-2);
+    expect(firstFill([10, 11.5, 8.8, 11])).toBe(1);
+  });
+
+  it('cancels pending orders by id', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) {
+          strategy.entry('L', strategy.long, 1, 5);
+          strategy.entry('M', strategy.long, 1);
+          strategy.cancel('M');
+        }
+      }).map(([size]) => size),
+    ).toEqual([0, 0, 0, 0]);
+  });
+
+  it('applies OCA cancel and reduce groups', () => {
+    const bars = barsOf([
+      [10, 10, 10, 10],
+      [10, 11, 9, 10],
+      [10, 10, 10, 10],
+    ]);
+    const bracket = (ocaType: string) =>
+      replay(bars, (strategy, i) => {
+        if (i !== 0) return;
+        strategy.order('up', strategy.long, 3, NA, 10.5, 'g', ocaType);
+        strategy.order('down', strategy.short, 2, NA, 9.5, 'g', ocaType);
+      }).map(([size]) => size);
+
+    // Open nearer neither: low first, so the sell stop fills first.
+    expect(bracket('cancel')).toEqual([0, -2, -2]);
+    expect(bracket('reduce')).toEqual([0, -1, -1]);
+    expect(bracket('none')).toEqual([0, 1, 1]);
+  });
+
+  it('fills market orders at the close with process_orders_on_close', () => {
+    expect(
+      replay(FLAT, (strategy, i) => {
+        if (i === 0) {
+          strategy('S', ...Array.from({ length: 17 }, () => NA), true);
+        }
+        if (i === 1) strategy.entry('L', strategy.long, 1);
+      }),
+    ).toEqual([
+      [0, NA],
+      [1, 12],
+      [1, 12],
+      [1, 12],
+    ]);
+  });
+});
+
+describe('performance', () => {
+  it('records trades with slippage and commission', () => {
+    const runtime = createStrategyRuntime();
+    const strategy = runtime.namespace as Strategy;
+    FLAT.forEach((bar, i) => {
+      runtime.beginBar(bar, i, 0.01);
+      if (i === 0) {
+        declare(strategy, 10, 'percent', 1);
+        strategy.entry('L', strategy.long, 2, NA, NA, '', '', 'go');
+      }
+      if (i === 1) strategy.exit('X', 'L', 1, NA, NA, 14.5);
+      if (i === 2) strategy.close('L');
+      runtime.endBar();
+    });
+
+    const report = runtime.report();
+    // Market fills slip 0.1 against the order; the limit fill does not.
+    expect(
+      report?.closedTrades.map((trade) => [
+        trade.exitId,
+        trade.entryPrice,
+        trade.exitPrice,
+        trade.size,
+      ]),
+    ).toEqual([
+      ['X', 12.1, 14.5, 1],
+      ['Close entry(s) order L', 12.1, 15.9, 1],
+    ]);
+    // 1% of 24.2 on entry, split between the two trades, then of each exit.
+    const [first, second] = report?.closedTrades ?? [];
+    expect(first.commission).toBeCloseTo(0.121 + 0.145);
+    expect(first.profit).toBeCloseTo(2.4 - 0.266);
+    expect(second.commission).toBeCloseTo(0.121 + 0.159);
+    expect(report?.commissionPaid).toBeCloseTo(0.242 + 0.145 + 0.159);
+    expect(strategy.closedtrades.count).toBe(2);
+    expect(strategy.closedtrades.entry_comment(0)).toBe('go');
+    expect(strategy.closedtrades.exit_bar_index(1)).toBe(3);
+    expect(strategy.closedtrades.profit(2)).toBeNaN();
+    expect(strategy.netprofit).toBeCloseTo(first.profit + second.profit);
+  });
+
+  it('tallies wins and losses and tracks the equity curve', () => {
+    const runtime = createStrategyRuntime();
+    const strategy = runtime.namespace as Strategy;
+    expect(runtime.report()).toBeUndefined();
+    FLAT.forEach((bar, i) => {
+      runtime.beginBar(bar, i, 0.01);
+      if (i === 0) {
+        declare(strategy, 0, 'cash_per_contract', 0);
+        strategy.entry('S', strategy.short, 1);
+      }
+      if (i === 1) strategy.entry('L', strategy.long, 1);
+      runtime.endBar();
+    });
+
+    // Short at 12, reversed at 14, still long into the close of 16.
+    expect(
+      [
+        'wintrades',
+        'losstrades',
+        'grossloss',
+        'openprofit',
+        'equity',
+        'max_drawdown',
+        'max_runup',
+      ].map((figure) => strategy[figure]),
+    ).toEqual([0, 1, 2, 2, 1_000_000, 2, 2]);
+    expect(strategy.opentrades.count).toBe(1);
+    expect(strategy.opentrades.entry_id(0)).toBe('L');
+    expect(strategy.opentrades.max_drawdown(0)).toBe(1);
+
+    const report = runtime.report();
+    expect(report?.equity.map((point) => point.equity - 1_000_000)).toEqual([
+      0, 0, -2, 0,
+    ]);
+    expect(report).toMatchObject({
+      closedTradeCount: 1,
+      percentProfitable: 0,
+      avgLosingTrade: 2,
+    });
+    expect(report?.maxDrawdownPercent).toBeCloseTo(2e-4);
+    expect(report?.profitFactor).toBe(0);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * String Runtime Tests
+ *
+ * The Pine `str` namespace from `createStrNamespace`, checked against
+ * the outputs the Pine reference documents for `str.tostring()`,
+ * `str.format()`, `str.format_time()`, `str.match()` and `str.repeat()`.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { createStrNamespace, PINE_FORMAT as format } from '../../src/runtime';
+
+const JAN_5_2024 = Date.UTC(2024, 0, 5, 15, 4, 5, 45);
+
+describe('str.tostring', () => {
+  const str = createStrNamespace(() => ({ mintick: 0.25, timezone: '' }));
+
+  it('should write numbers with the default #.########## pattern', () => {
+    expect(str.tostring(42)).toBe('42');
+    expect(str.tostring(1 / 3)).toBe('0.3333333333');
+    expect(str.tostring(0.1 + 0.2)).toBe('0.3');
+    expect(str.tostring(-1234567.5)).toBe('-1234567.5');
+    expect(str.tostring(Number.NaN)).toBe('NaN');
+    expect(str.tostring(true)).toBe('true');
+    expect(str.tostring([1, 2.5, Number.NaN])).toBe('[1, 2.5, NaN]');
+    expect(str.tostring(null)).toBe('');
+  });
+
+  it('should write a matrix one row per line', () => {
+    const m = {
+      _rows: [
+        [1, 2.5],
+        [Number.NaN, 4],
+      ],
+      _columns: 2,
+    };
+    expect(str.tostring(m)).toBe('[1, 2.5]\n[NaN, 4]');
+    expect(str.tostring(m, '0.0')).toBe('[1.0, 2.5]\n[NaN, 4.0]');
+    expect(str.tostring({ _rows: [], _columns: 0 })).toBe('');
+  });
+
+  it('should round to the tick under format.mintick', () => {
+    expect(str.tostring(10.1, format.mintick)).toBe('10.00');
+    expect(str.tostring(10.125, format.mintick)).toBe('10.25');
+    expect(str.tostring(7, format.mintick)).toBe('7.00');
+    const fx = createStrNamespace(() => ({ mintick: 0.00001 }));
+    expect(fx.tostring(1.0812345, format.mintick)).toBe('1.08123');
+  });
+
+  it('should write percents and volumes', () => {
+    expect(str.tostring(12.345, format.percent)).toBe('12.35%');
+    expect(str.tostring(5183, format.volume)).toBe('5.183K');
+    expect(str.tostring(2_500_000, format.volume)).toBe('2.5M');
+    expect(str.tostring(-7_250_000_000, format.volume)).toBe('-7.25B');
+    expect(str.tostring(512.25, format.volume)).toBe('512.25');
+  });
+
+  it('should apply number patterns', () => {
+    expect(str.tostring(1234.5678, '#.##')).toBe('1234.57');
+    expect(str.tostring(1234.5, '#,##0.00')).toBe('1,234.50');
+    expect(str.tostring(0.5, '#.##')).toBe('0.5');
+    expect(str.tostring(7, '000')).toBe('007');
+    expect(str.tostring(0.256, '#.#%')).toBe('25.6%');
+    expect(str.tostring(-3, "'$'#;('$'#)")).toBe('($3)');
+    expect(str.tostring(2.5, '#')).toBe('3');
+    expect(str.tostring(-0.001, '#.##')).toBe('0');
+  });
+});
+
+describe('str.format', () => {
+  const str = createStrNamespace();
+
+  it('should write plain placeholders with #,##0.###', () => {
+    expect(str.format('{0} and {1}', 1234.56789, 'text')).toBe(
+      '1,234.568 and text',
+    );
+    expect(str.format('{1}{0}{1}', 'a', '|')).toBe('|a|');
+    expect(str.format('missing {2}', 1)).toBe('missing {2}');
+  });
+
+  it('should apply number styles and patterns', () => {
+    expect(str.format('{0,number,#.#}', 1.34)).toBe('1.3');
+    expect(str.format('{0,number,integer}', 1234.5)).toBe('1,235');
+    expect(str.format('{0,number,percent}', 0.125)).toBe('13%');
+    expect(str.format('{0,number,currency}', 1234.5)).toBe('$1,234.50');
+    expect(str.format('{0,number,000.00}', 3.14159)).toBe('003.14');
+  });
+
+  it('should apply date and time styles and patterns', () => {
+    expect(str.format('{0,date,yyyy-MM-dd}', JAN_5_2024)).toBe('2024-01-05');
+    expect(str.format('{0,date,HH:mm:ss.SSS}', JAN_5_2024)).toBe(
+      '15:04:05.045',
+    );
+    expect(str.format('{0,date}', JAN_5_2024)).toBe('Jan 5, 2024');
+    expect(str.format('{0,date,full}', JAN_5_2024)).toBe(
+      'Friday, January 5, 2024',
+    );
+    expect(str.format('{0,time,short}', JAN_5_2024)).toBe('3:04 PM');
+  });
+
+  it('should treat quotes as escapes', () => {
+    expect(str.format("'{0}' is {0}", 5)).toBe('{0} is 5');
+    expect(str.format("it''s {0}", 'here')).toBe("it's here");
+    expect(str.format("{0,number,'#'#}", 7)).toBe('#7');
+  });
+
+  it('should pick choice options by their limits', () => {
+    const files = '{0,choice,0#no files|1#one file|1<{0,number,integer} files}';
+    expect(str.format(files, 0)).toBe('no files');
+    expect(str.format(files, 1)).toBe('one file');
+    expect(str.format(files, 1200)).toBe('1,200 files');
+  });
+});
+
+describe('str.format_time', () => {
+  it('should use the symbol timezone unless given one', () => {
+    const str = createStrNamespace(() => ({ timezone: 'America/New_York' }));
+
+    expect(str.format_time(JAN_5_2024)).toBe('2024-01-05T10:04:05-0500');
+    expect(str.format_time(JAN_5_2024, 'yyyy-MM-dd HH:mm', 'UTC+2')).toBe(
+      '2024-01-05 17:04',
+    );
+    expect(
+      str.format_time(JAN_5_2024, "EEE dd MMM ''yy, h:mm a z", 'UTC'),
+    ).toBe("Fri 05 Jan '24, 3:04 PM UTC");
+    expect(str.format_time(Number.NaN)).toBe('');
+  });
+});
+
+describe('str functions', () => {
+  const str = createStrNamespace();
+
+  it('should return the first regex match or an empty string', () => {
+    expect(str.match('EXCHANGE:AAPL', '[A-Z]+$')).toBe('AAPL');
+    expect(str.match('BTCUSD', '(?i)usd')).toBe('USD');
+    expect(str.match('abc', '\\d+')).toBe('');
+  });
+
+  it('should repeat with an optional separator', () => {
+    expect(str.repeat('ab', 3)).toBe('ababab');
+    expect(str.repeat('?', 3, ',')).toBe('?,?,?');
+    expect(str.repeat('x', 0)).toBe('');
+  });
+
+  it('should replace the chosen occurrence', () => {
+    expect(str.replace('a-b-c', '-', '+')).toBe('a+b-c');
+    expect(str.replace('a-b-c', '-', '+', 1)).toBe('a-b+c');
+    expect(str.replace('a-b-c', '-', '+', 5)).toBe('a-b-c');
+  });
+
+  it('should return na for failed lookups and parses', () => {
+    expect(str.pos('hello', 'z')).toBeNaN();
+    expect(str.tonumber('')).toBeNaN();
+    expect(str.tonumber('0x10')).toBeNaN();
+    expect(str.tonumber(' 1.5e3 ')).toBe(1500);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * v4 Upgrade Tests
+ *
+ * Tests for the v4 → v5 rewrite that runs between parsing and type
+ * checking: namespaced built-ins, `study`, `iff`, typed `input`, and
+ * `transp`, plus the info diagnostics reporting each rewrite.
+ */
+
+import { describe, expect, it } from 'bun:test';
+import { canTranspilePineScript, transpileToPineJS } from '../../src';
+import { ASTGenerator } from '../../src/generator/ast-generator';
+import { extractMetadata } from '../../src/pipeline';
+import { upgradeToV5 } from '../../src/upgrade';
+import { parse } from '../utils';
+
+function upgrade(code: string) {
+  return upgradeToV5(parse(`//@version=4\n${code}`));
+}
+
+function upgraded(code: string): string {
+  return new ASTGenerator().generate(upgrade(code).program);
+}
+
+describe('v4 Upgrade', () => {
+  it('should leave v5 programs untouched', () => {
+    const program = parse('//@version=5\na = sma(close, 14)');
+    const result = upgradeToV5(program);
+
+    expect(result.program).toBe(program);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should namespace built-in functions and variables', () => {
+    const js = upgraded(`a = sma(close, 14)
+b = max(high, low)
+c = security(syminfo.tickerid, "D", close)
+d = tostring(tr)`);
+
+    expect(js).toContain('Std.sma(');
+    expect(js).toContain('Math.max(high, low)');
+    expect(js).toContain('request.security(');
+    expect(js).toContain('String(ta.tr)');
+  });
+
+  it('should report each rewrite as an info diagnostic', () => {
+    const { diagnostics, program } = upgrade('study("x")\na = rsi(close, 14)');
+
+    expect(program.version).toBe(5);
+    expect(diagnostics.map((d) => [d.code, d.severity, d.line])).toEqual([
+      ['PINE5001', 'info', 2],
+      ['PINE5001', 'info', 3],
+    ]);
+    expect(diagnostics[1].message).toBe(
+      "'rsi' is Pine v4; upgraded to 'ta.rsi'.",
+    );
+  });
+
+  it('should not rename names the script declares', () => {
+    const { diagnostics } = upgrade(`max(a, b) => a > b ? a : b
+vwap = hlc3
+x = max(vwap, close)`);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should rewrite iff as a conditional expression', () => {
+    expect(upgraded('x = iff(close > open, 1, 0)')).toContain(
+      'var x = ((close > open) ? 1 : 0);',
+    );
+  });
+
+  it('should turn study and typed inputs into v5 calls', () => {
+    const { program } = upgrade(`study("Legacy", overlay=true)
+len = input(14, "Length", input.integer, 1, 100)
+res = input("D", "Resolution", type=input.resolution)
+src = input(close, title="Source")
+plot(sma(src, len))`);
+    const metadata = extractMetadata(program);
+
+    expect(metadata.name).toBe('Legacy');
+    expect(metadata.overlay).toBe(true);
+    expect(metadata.inputs.map((i) => [i.name, i.type])).toEqual([
+      ['Length', 'integer'],
+      ['Resolution', 'string'],
+      ['Source', 'source'],
+    ]);
+    expect(metadata.inputs[0]).toMatchObject({ min: 1, max: 100 });
+  });
+
+  it('should fold transp into the call colors', () => {
+    const { program, diagnostics } = upgrade(
+      'plot(close, color=color.red, transp=50)\nbgcolor(color.blue, transp=80)',
+    );
+    const js = new ASTGenerator().generate(program);
+
+    expect(js).toContain('Std.plot(close, _colorNew(color.red, 50));');
+    expect(js).toContain('Std.bgcolor(_colorNew(color.blue, 80));');
+    expect(diagnostics.map((d) => d.code)).toEqual(['PINE5002', 'PINE5002']);
+  });
+
+  it('should transpile a v4 script end to end', () => {
+    const code = `//@version=4
+study("V4 RSI")
+len = input(14, minval=1)
+r = rsi(close, len)
+plot(iff(r > 70, r, na), color=color.red, transp=20)`;
+
+    expect(transpileToPineJS(code, 'v4-rsi').success).toBe(true);
+    const { valid, diagnostics } = canTranspilePineScript(code);
+    expect(valid).toBe(true);
+    expect(diagnostics?.every((d) => d.severity === 'info')).toBe(true);
+  });
+});
@@ -34,7 +34,7 @@ export function lexTokens(code: string): Token[] {
 export function parse(code: string): Program {
   const lexer = new Lexer(code);
   const tokens = lexer.tokenize();
-  const parser = new Parser(tokens);
+  const parser = new Parser(tokens, { version: lexer.getVersion() });
   return parser.parse();
 }
 
@@ -46,7 +46,7 @@ export function parseWithErrors(
 ): ReturnType<Parser['parseWithErrors']> {
   const lexer = new Lexer(code);
   const tokens = lexer.tokenize();
-  const parser = new Parser(tokens);
+  const parser = new Parser(tokens, { version: lexer.getVersion() });
   return parser.parseWithErrors();
 }
 
@@ -8,6 +8,7 @@ export default defineConfig({
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
         'cli/index': resolve(__dirname, 'src/cli/index.ts'),
+        'node/index': resolve(__dirname, 'src/node/index.ts'),
         'test-harness/index': resolve(__dirname, 'src/test-harness/index.ts'),
       },
       formats: ['es', 'cjs'],